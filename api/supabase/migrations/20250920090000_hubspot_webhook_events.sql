@@ -0,0 +1,17 @@
+-- Track received HubSpot webhook events so retried deliveries are applied once
+-- HubSpot reuses the same eventId when it retries a delivery
+
+CREATE TABLE IF NOT EXISTS hubspot_webhook_events (
+    event_id BIGINT PRIMARY KEY,
+    portal_id BIGINT NOT NULL,
+    subscription_type TEXT NOT NULL,
+    object_id BIGINT,
+    occurred_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_webhook_events_portal ON hubspot_webhook_events(portal_id);
+CREATE INDEX IF NOT EXISTS idx_hubspot_webhook_events_received ON hubspot_webhook_events(received_at);
+
+-- Only the service role (webhook route) touches this table
+ALTER TABLE hubspot_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,25 @@
+-- Turn hubspot_webhook_events into a durable inbox
+-- Events are stored on receipt and applied later by the inbox worker with retries
+
+ALTER TABLE hubspot_webhook_events
+ADD COLUMN IF NOT EXISTS payload JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead_letter')),
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS last_error TEXT,
+ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE;
+
+-- Events received before the inbox existed were processed inline
+UPDATE hubspot_webhook_events
+SET status = 'processed', processed_at = received_at
+WHERE payload = '{}';
+
+-- Worker lookup of due events
+CREATE INDEX IF NOT EXISTS idx_hubspot_webhook_events_due
+ON hubspot_webhook_events(next_attempt_at)
+WHERE status IN ('pending', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_webhook_events_portal_status
+ON hubspot_webhook_events(portal_id, status);
@@ -0,0 +1,15 @@
+-- Per-field change tracking for bi-directional HubSpot sync
+-- field_updated_at maps a contacts column to the time it was last changed
+-- sync_conflicts holds changes that need a manual decision under the 'manual' policy
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS field_updated_at JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS sync_conflicts JSONB NOT NULL DEFAULT '[]';
+
+-- Contacts with open conflicts, for the review queue
+CREATE INDEX IF NOT EXISTS idx_contacts_sync_conflicts
+ON contacts ((jsonb_array_length(sync_conflicts)))
+WHERE jsonb_array_length(sync_conflicts) > 0;
+
+COMMENT ON COLUMN organizations.sync_settings IS
+    'Sync configuration; conflict_policy is one of hubspot_wins, mobile_wins, newest_wins (default) or manual';
@@ -0,0 +1,23 @@
+-- Personal profile cards shared as a vCard QR code and a public share link
+-- Share links are signed over (id, token_version); bumping token_version revokes old links
+
+CREATE TABLE IF NOT EXISTS profile_cards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    title TEXT,
+    company TEXT,
+    email TEXT,
+    phone TEXT,
+    linkedin_url TEXT,
+    token_version INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_profile_cards_updated_at ON profile_cards;
+CREATE TRIGGER update_profile_cards_updated_at BEFORE UPDATE ON profile_cards
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Public share pages are served through the service role after verifying the signed token
+ALTER TABLE profile_cards ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,19 @@
+-- Interactions logged from the mobile app
+-- The interactions API scopes rows by organization_id, which the initial schema never added.
+-- client_id is the ID the device gave the interaction, so a retried offline upload
+-- doesn't log the same meeting twice.
+
+ALTER TABLE interactions
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS client_id TEXT;
+
+UPDATE interactions
+SET organization_id = contacts.organization_id
+FROM contacts
+WHERE interactions.contact_id = contacts.id
+  AND interactions.organization_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_interactions_organization_id ON interactions(organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interactions_client_id
+    ON interactions(organization_id, client_id)
+    WHERE client_id IS NOT NULL;
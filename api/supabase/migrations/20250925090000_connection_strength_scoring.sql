@@ -0,0 +1,13 @@
+-- Connection strength computed from interaction history
+-- connection_strength keeps holding the level shown to users and synced to HubSpot.
+-- The computed score and its explanation are stored alongside, so a locked (manually
+-- set) level can still be compared with what the interactions suggest.
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS connection_score INTEGER CHECK (connection_score BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS connection_score_explanation TEXT,
+ADD COLUMN IF NOT EXISTS connection_score_factors JSONB DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS connection_score_updated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS connection_strength_locked BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_connection_score ON contacts(organization_id, connection_score);
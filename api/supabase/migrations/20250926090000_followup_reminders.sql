@@ -0,0 +1,11 @@
+-- Follow-up reminders
+-- next_followup_date already holds when to get back in touch. A cadence makes the
+-- follow-up recurring: completing it schedules the next one that many days later.
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS followup_cadence_days INTEGER CHECK (followup_cadence_days > 0);
+
+-- Due follow-ups are always listed per organization
+CREATE INDEX IF NOT EXISTS idx_contacts_org_next_followup
+ON contacts(organization_id, next_followup_date)
+WHERE next_followup_date IS NOT NULL;
@@ -0,0 +1,31 @@
+-- Saved searches ("smart lists")
+-- A user's saved contact filters, re-evaluated against their contacts whenever the list
+-- is shown. client_id is the ID the mobile app gave the list, so offline saves that are
+-- retried update the same row. hubspot_list_id links a list pushed to HubSpot.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    client_id TEXT,
+    name TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}',
+    pinned BOOLEAN NOT NULL DEFAULT false,
+    hubspot_list_id TEXT,
+    hubspot_list_synced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_searches_user_client_id
+ON saved_searches(user_id, client_id)
+WHERE client_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Read and written through the API with the service role, scoped to the device's user
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
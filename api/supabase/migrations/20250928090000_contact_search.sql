@@ -0,0 +1,44 @@
+-- Server-side contact search
+-- The mobile app filters contacts by city, country, groups, LinkedIn and a star, none of
+-- which the server stored. They get columns here so the web app and the HubSpot UI
+-- extension can filter the same way. search_vector indexes names, company, tags and
+-- notes for full-text search; sort_name gives name sorting a single column to page on.
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS city TEXT,
+ADD COLUMN IF NOT EXISTS country TEXT,
+ADD COLUMN IF NOT EXISTS linkedin_url TEXT,
+ADD COLUMN IF NOT EXISTS starred BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS groups TEXT[] DEFAULT '{}';
+
+-- array_to_string is only STABLE, so the vector is built in a function that can be
+-- declared IMMUTABLE (it only ever sees text) and used by the generated column
+CREATE OR REPLACE FUNCTION contact_search_vector(
+    first_name TEXT,
+    last_name TEXT,
+    company TEXT,
+    tags TEXT[],
+    notes TEXT
+) RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(company, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(array_to_string(tags, ' '), '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (contact_search_vector(first_name, last_name, company, tags, notes)) STORED,
+ADD COLUMN IF NOT EXISTS sort_name TEXT
+    GENERATED ALWAYS AS (lower(trim(coalesce(first_name, '') || ' ' || coalesce(last_name, '')))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_search_vector ON contacts USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_contacts_tags ON contacts USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_contacts_groups ON contacts USING GIN(groups);
+
+-- Cursor pagination walks (sort column, id) within an organization
+CREATE INDEX IF NOT EXISTS idx_contacts_org_sort_name ON contacts(organization_id, sort_name, id);
+CREATE INDEX IF NOT EXISTS idx_contacts_org_created ON contacts(organization_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_contacts_org_updated ON contacts(organization_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_contacts_org_last_interaction ON contacts(organization_id, last_interaction_date, id);
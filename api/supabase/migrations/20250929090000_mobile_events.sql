@@ -0,0 +1,23 @@
+-- Events on mobile
+-- The app keeps its own list of events (conferences, meetups) and links the contacts
+-- met there through contacts.first_met_at. client_id is the ID the app gave the event,
+-- so offline saves that are retried update the same row.
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS venue TEXT,
+ADD COLUMN IF NOT EXISTS agenda_url TEXT,
+ADD COLUMN IF NOT EXISTS client_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_org_client_id
+ON events(organization_id, client_id)
+WHERE client_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_org_start_date ON events(organization_id, start_date);
+
+-- Deleting an event keeps the contacts met there, just without the link
+ALTER TABLE contacts DROP CONSTRAINT IF EXISTS contacts_first_met_at_fkey;
+ALTER TABLE contacts
+ADD CONSTRAINT contacts_first_met_at_fkey
+FOREIGN KEY (first_met_at) REFERENCES events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_first_met_at ON contacts(first_met_at) WHERE first_met_at IS NOT NULL;
@@ -1,6 +1,6 @@
 import "react-native-reanimated";
 import React, { useMemo, useState, useEffect, useCallback } from "react";
-import { SafeAreaView, View, Text, TextInput, ScrollView, Pressable, StyleSheet, Modal, Alert, Platform } from "react-native";
+import { SafeAreaView, View, Text, TextInput, ScrollView, Pressable, StyleSheet, Modal, Alert, Platform, Linking } from "react-native";
 import Animated, { FadeIn, SlideInUp } from "react-native-reanimated";
 import {
   Plus,
@@ -24,8 +24,26 @@ import {
   WifiOff,
   Clock,
   Camera,
+  ListFilter,
+  Pin,
+  Radio,
 } from "lucide-react-native";
 import { useAuth } from '../../contexts/AuthContext';
+import { ProfileCardModal } from '../../components/modals/ProfileCardModal';
+import { ContactsFileImportModal } from '../../components/modals/ContactsFileImportModal';
+import { DuplicatesModal } from '../../components/modals/DuplicatesModal';
+import { LogInteractionModal } from '../../components/modals/LogInteractionModal';
+import { FollowupModal } from '../../components/modals/FollowupModal';
+import { SaveSearchModal } from '../../components/modals/SaveSearchModal';
+import { EventModal } from '../../components/modals/EventModal';
+import { FollowupCard } from '../../components/cards/FollowupCard';
+import { EventCard } from '../../components/cards/EventCard';
+import { contactTimeline } from '../../utils/interactions';
+import { dueFollowups, SNOOZE_OPTIONS } from '../../utils/followups';
+import { eventTag } from '../../utils/events';
+import { reminderService } from '../../services/reminderService';
+import { pickContactsFile, shareContacts } from '../../services/contactsFileService';
+import type { ScannedContactData } from '../../components/NameBadgeScanner';
 // Conditional import for native platforms only
 const NameBadgeScanner = Platform.OS !== 'web' 
   ? require('../../components/NameBadgeScanner').NameBadgeScanner 
@@ -44,6 +62,7 @@ import { QuickFilters } from '../../components/ui/QuickFilters';
 import { ContactCard } from '../../components/cards/ContactCard';
 import { SwipeableContactCard } from '../../components/ui/SwipeableContactCard';
 import { GroupCard } from '../../components/cards/GroupCard';
+import { SmartListCard } from '../../components/cards/SmartListCard';
 import { TimelineContactCard } from '../../components/cards/TimelineContactCard';
 import { SuggestionCard } from '../../components/cards/SuggestionCard';
 import { ContactCardSkeleton, SearchSkeleton, GroupSkeleton } from '../../components/ui/SkeletonLoader';
@@ -58,8 +77,9 @@ import { crmService } from '../../services/crmService';
 import { hubspotContactsService } from '../../services/hubspotContacts';
 import { GroupManagementModal } from '../../components/modals/GroupManagementModal';
 import { QuickAddForm } from '../../components/forms/QuickAddForm';
-import { useAppState, AppStateProvider } from '../../contexts/AppStateContext';
-import { Contact } from '../../types/contact';
+import { useAppState, AppStateProvider, type NewContactPayload, type NewEventPayload } from '../../contexts/AppStateContext';
+import { Contact, NetworkingEvent, SavedSearch } from '../../types/contact';
+import { hasActiveFilters } from '../../utils/smartLists';
 import { MOCK_TAGS, seedContacts, seedGroups, seedSuggestions } from '../../data/mockData';
 import { getRelativeTimeString, getTimeGrouping } from '../../utils/timeHelpers';
 
@@ -83,10 +103,54 @@ type OfflineQueueItem = {
   status: "pending" | "syncing" | "failed";
 };
 
+// Contact created from a scanned name badge, met at the given event if there is one.
+// The active event, if any, is applied when the contact is added.
+function buildBadgeContact(contactData: ScannedContactData, eventName?: string): NewContactPayload {
+  const identifier = contactData.email || contactData.phone || `${contactData.name.toLowerCase().replace(/\s+/g, '.')}@example.com`;
+  const groups: string[] = [];
+
+  // Add company as a group if available
+  if (contactData.company) {
+    groups.push(contactData.company);
+  }
+
+  // Create note with extracted information
+  let note = 'Contact captured from name badge';
+  if (contactData.company && contactData.title) {
+    note += `\n${contactData.title} at ${contactData.company}`;
+  } else if (contactData.company) {
+    note += `\nWorks at ${contactData.company}`;
+  } else if (contactData.title) {
+    note += `\n${contactData.title}`;
+  }
+
+  return {
+    name: contactData.name,
+    identifier,
+    company: contactData.company,
+    title: contactData.title,
+    note,
+    linkedinUrl: contactData.linkedinUrl,
+    firstMetLocation: eventName,
+    firstMetDate: eventName ? new Date().toISOString().split('T')[0] : undefined,
+    tags: [],
+    groups,
+  };
+}
+
 function AppContent() {
   const { user, signOut } = useAuth();
   const { state, actions, computed } = useAppState();
   const [showActionMenu, setShowActionMenu] = useState(false);
+  const [showProfileCard, setShowProfileCard] = useState(false);
+  const [importFile, setImportFile] = useState<{ name: string; text: string } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [loggingContact, setLoggingContact] = useState<Contact | null>(null);
+  const [followupContact, setFollowupContact] = useState<Contact | null>(null);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [editingSmartList, setEditingSmartList] = useState<SavedSearch | null>(null);
+  const [showEventModal, setShowEventModal] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<NetworkingEvent | null>(null);
   const [showCRMConnect, setShowCRMConnect] = useState(false);
   
   // Debug modal states
@@ -122,6 +186,7 @@ function AppContent() {
     contacts,
     groups,
     suggestions,
+    interactions,
     showAdd,
     editingContact,
     viewingContact,
@@ -136,6 +201,8 @@ function AppContent() {
     showContactsImport,
     isLoading,
     searchHistory,
+    events,
+    activeEventId,
   } = state;
 
   const {
@@ -145,8 +212,10 @@ function AppContent() {
     setShowFilterModal,
     toggleStar,
     addContact,
+    addContacts,
     updateContact,
     deleteContact,
+    resolveSyncConflict,
     addGroup,
     updateGroup,
     deleteGroup,
@@ -161,9 +230,25 @@ function AppContent() {
     setShowUserPhotoDemo,
     setShowContactsImport,
     importContacts,
+    mergeContacts,
+    logInteraction,
+    deleteInteraction,
+    setConnectionStrength,
+    setFollowup,
+    completeFollowup,
+    snoozeFollowup,
     setIsOnline,
     addToOfflineQueue,
     setShowOfflineIndicator,
+    saveSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    applySavedSearch,
+    pushSavedSearchToHubSpot,
+    addEvent,
+    updateEvent,
+    deleteEvent,
+    setActiveEvent,
   } = actions;
 
   const { 
@@ -174,51 +259,49 @@ function AppContent() {
     availableCompanies,
     availableCities,
     availableCountries,
-    contactCounts
+    activeEvent,
+    eventStats,
+    contactCounts,
+    searchHighlights,
+    smartLists
   } = computed;
   
   // Create alias for backward compatibility
   const list = displayList;
 
+  const viewingTimeline = useMemo(
+    () => (viewingContact ? contactTimeline(interactions, viewingContact.id) : []),
+    [interactions, viewingContact]
+  );
 
+  const followupsDue = useMemo(() => dueFollowups(contacts), [contacts]);
 
+  const handleSnoozeFollowup = useCallback((contactId: string) => {
+    Alert.alert(
+      'Snooze Follow-up',
+      'Remind me again:',
+      [
+        ...SNOOZE_OPTIONS.map((option) => ({ text: option.label, onPress: () => snoozeFollowup(contactId, option.days) })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  }, [snoozeFollowup]);
 
-  const handleBadgeScanResult = useCallback((contactData: {
-    name: string;
-    company?: string;
-    title?: string;
-    email?: string;
-    phone?: string;
-  }) => {
-    // Create contact from OCR data
-    const identifier = contactData.email || contactData.phone || `${contactData.name.toLowerCase().replace(/\s+/g, '.')}@example.com`;
-    const tags: string[] = [];
-    const groups: string[] = [];
-    
-    // Add company as a group if available
-    if (contactData.company) {
-      groups.push(contactData.company);
-    }
+  // Tapping a follow-up reminder opens the contact
+  useEffect(() => {
+    return reminderService.onReminderOpened((contactId) => {
+      const contact = contacts.find((c) => c.id === contactId);
+      if (contact) {
+        setViewingContact(contact);
+      }
+    });
+  }, [contacts, setViewingContact]);
 
-    // Create note with extracted information
-    let note = 'Contact captured from name badge';
-    if (contactData.company && contactData.title) {
-      note += `\n${contactData.title} at ${contactData.company}`;
-    } else if (contactData.company) {
-      note += `\nWorks at ${contactData.company}`;
-    } else if (contactData.title) {
-      note += `\n${contactData.title}`;
-    }
 
-    addContact({
-      name: contactData.name,
-      identifier,
-      company: contactData.company,
-      title: contactData.title,
-      note,
-      tags,
-      groups
-    });
+
+
+  const handleBadgeScanResult = useCallback((contactData: ScannedContactData) => {
+    addContact(buildBadgeContact(contactData));
 
     setShowBadgeScanner(false);
     
@@ -230,6 +313,16 @@ function AppContent() {
     );
   }, [addContact, setShowBadgeScanner]);
 
+  const handleBatchScanResults = useCallback((contactsData: ScannedContactData[], eventGroup: string) => {
+    addContacts(contactsData.map(contactData => buildBadgeContact(contactData, eventGroup)), eventGroup);
+
+    Alert.alert(
+      'Contacts Added!',
+      `${contactsData.length} contact${contactsData.length === 1 ? '' : 's'} added to ${eventGroup}.`,
+      [{ text: 'OK' }]
+    );
+  }, [addContacts]);
+
   const handleOfflineToggle = useCallback(() => {
     setIsOnline(!isOnline);
   }, [isOnline, setIsOnline]);
@@ -262,6 +355,46 @@ function AppContent() {
     setShowCRMConnect(true);
   }, []);
 
+  const handleImportFile = useCallback(async () => {
+    try {
+      const file = await pickContactsFile();
+      if (file) {
+        setImportFile(file);
+      }
+    } catch (error) {
+      console.error('Failed to read contacts file:', error);
+      Alert.alert('Error', 'Could not read that file. Choose a .vcf or .csv file.');
+    }
+  }, []);
+
+  const handleExportContacts = useCallback((exported: Contact[], name: string) => {
+    if (exported.length === 0) {
+      Alert.alert('Nothing to Export', 'There are no contacts in this list.');
+      return;
+    }
+
+    const share = async (format: 'vcard' | 'csv') => {
+      try {
+        const shared = await shareContacts(exported, format, name);
+        if (!shared) {
+          Alert.alert('Not Available', 'Sharing is not available on this device.');
+        }
+      } catch {
+        Alert.alert('Error', 'Failed to export contacts.');
+      }
+    };
+
+    Alert.alert(
+      'Export Contacts',
+      `Export ${exported.length} contact${exported.length !== 1 ? 's' : ''} as:`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'vCard', onPress: () => share('vcard') },
+        { text: 'CSV', onPress: () => share('csv') },
+      ]
+    );
+  }, []);
+
   // Initialize CRM service on app start
   useEffect(() => {
     const initializeCRM = async () => {
@@ -394,6 +527,92 @@ function AppContent() {
     );
   }, [deleteGroup]);
 
+  const pinnedSmartLists = useMemo(() => smartLists.filter((l) => l.search.pinned), [smartLists]);
+
+  // Live count for the modal: the list being edited keeps its own filters
+  const saveSearchCount = useMemo(() => {
+    if (!showSaveSearch) return 0;
+    const counted = smartLists.find((l) => l.search.id === editingSmartList?.id);
+    return counted ? counted.count : filteredContacts.length;
+  }, [showSaveSearch, editingSmartList, smartLists, filteredContacts]);
+
+  const handleSmartListSave = useCallback((name: string, pinned: boolean) => {
+    if (editingSmartList) {
+      updateSavedSearch(editingSmartList.id, { name, pinned });
+    } else {
+      saveSearch(name, { pinned });
+    }
+  }, [editingSmartList, updateSavedSearch, saveSearch]);
+
+  const handleSmartListEdit = useCallback((search: SavedSearch) => {
+    setEditingSmartList(search);
+    setShowSaveSearch(true);
+  }, []);
+
+  const handleSmartListDelete = useCallback((search: SavedSearch) => {
+    Alert.alert(
+      'Delete Smart List',
+      `Delete "${search.name}"? Its contacts are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteSavedSearch(search.id) },
+      ]
+    );
+  }, [deleteSavedSearch]);
+
+  const handleEventSave = useCallback((payload: NewEventPayload, activate: boolean) => {
+    if (editingEvent) {
+      updateEvent(editingEvent.id, payload);
+      if (activate) setActiveEvent(editingEvent.id);
+    } else {
+      const event = addEvent(payload);
+      if (activate) setActiveEvent(event.id);
+    }
+  }, [editingEvent, updateEvent, addEvent, setActiveEvent]);
+
+  const handleEventEdit = useCallback((event: NetworkingEvent) => {
+    setEditingEvent(event);
+    setShowEventModal(true);
+  }, []);
+
+  // Contacts met at the event carry its tag
+  const handleEventOpen = useCallback((event: NetworkingEvent) => {
+    setFilters({ query: '', tags: [eventTag(event)] });
+    setQuery('');
+    setActiveGroup(null);
+    setView('contacts');
+  }, [setFilters, setQuery, setActiveGroup, setView]);
+
+  const handleEventAgenda = useCallback((event: NetworkingEvent) => {
+    if (!event.agendaUrl) return;
+    Linking.openURL(event.agendaUrl).catch(() => {
+      Alert.alert('Could not open agenda', event.agendaUrl);
+    });
+  }, []);
+
+  const handleEventDelete = useCallback((event: NetworkingEvent) => {
+    Alert.alert(
+      'Delete Event',
+      `Delete "${event.name}"? Contacts met there are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteEvent(event.id) },
+      ]
+    );
+  }, [deleteEvent]);
+
+  const handleSmartListPush = useCallback(async (search: SavedSearch) => {
+    try {
+      await pushSavedSearchToHubSpot(search.id);
+      Alert.alert(
+        'HubSpot List Ready',
+        `"${search.name}" is now an active list in HubSpot and will keep itself up to date.`
+      );
+    } catch (error) {
+      Alert.alert('Could not create HubSpot list', error instanceof Error ? error.message : 'Please try again.');
+    }
+  }, [pushSavedSearchToHubSpot]);
+
 
   return (
     <SafeAreaView style={styles.container}>
@@ -466,6 +685,7 @@ function AppContent() {
               availableCities={availableCities}
               availableCompanies={availableCompanies}
               availableGroups={availableGroups}
+              availableCountries={availableCountries}
             />
 
             {/* Quick Filters */}
@@ -495,6 +715,11 @@ function AppContent() {
               </View>
             </View>
             <View style={styles.chipRow}>
+              {pinnedSmartLists.map(({ search, count }) => (
+                <Pressable key={search.id} onPress={() => applySavedSearch(search.id)} style={styles.chipContainer}>
+                  <Chip icon={<Pin size={12} color="white" />}>{`${search.name} · ${count}`}</Chip>
+                </Pressable>
+              ))}
               {groups.slice(0, 3).map((g) => (
                 <Pressable key={g.id} onPress={() => { setActiveGroup(g.name); setView("contacts"); }} style={styles.chipContainer}>
                   <Chip>{g.name}</Chip>
@@ -508,6 +733,51 @@ function AppContent() {
         <View style={styles.content}>
           {view === "home" && (
             <Animated.View entering={FadeIn.delay(100)}>
+              {activeEvent && (
+                <>
+                  <GlassCard>
+                    <View style={styles.activeEventRow}>
+                      <Radio size={18} color="rgba(34, 197, 94, 0.9)" />
+                      <Pressable onPress={() => handleEventOpen(activeEvent)} style={styles.activeEventText}>
+                        <Text style={styles.activeEventTitle}>At {activeEvent.name}</Text>
+                        <Text style={styles.activeEventSubtitle}>
+                          {`${eventStats[activeEvent.id]?.contactsMet || 0} met so far • new contacts are tagged with this event`}
+                        </Text>
+                      </Pressable>
+                      <Pressable onPress={() => setActiveEvent(null)} style={styles.saveSearchButton}>
+                        <Text style={styles.saveSearchButtonText}>Stop</Text>
+                      </Pressable>
+                    </View>
+                  </GlassCard>
+
+                  <View style={styles.spacing} />
+                </>
+              )}
+
+              {followupsDue.length > 0 && (
+                <>
+                  <GlassCard>
+                    <SectionHeader
+                      title="Due follow-ups"
+                      subtitle={`${followupsDue.length} ${followupsDue.length === 1 ? 'person' : 'people'} to get back to`}
+                    />
+                    <View style={styles.cardContent}>
+                      {followupsDue.map((followup) => (
+                        <FollowupCard
+                          key={followup.contact.id}
+                          followup={followup}
+                          onView={() => setViewingContact(followup.contact)}
+                          onComplete={() => completeFollowup(followup.contact.id)}
+                          onSnooze={() => handleSnoozeFollowup(followup.contact.id)}
+                        />
+                      ))}
+                    </View>
+                  </GlassCard>
+
+                  <View style={styles.spacing} />
+                </>
+              )}
+
               <GlassCard>
                 <SectionHeader title="Starred" subtitle="People you want to keep close" />
                 <View style={styles.cardContent}>
@@ -542,6 +812,7 @@ function AppContent() {
                             );
                           }}
                           onSendToHubSpot={() => handleSendToHubSpot(c.id)}
+                          onLogInteraction={() => setLoggingContact(c)}
                         />
                       ))
                   )}
@@ -579,6 +850,7 @@ function AppContent() {
                           );
                         }}
                         onSendToHubSpot={() => handleSendToHubSpot(c.id)}
+                        onLogInteraction={() => setLoggingContact(c)}
                       />
                     ))
                   )}
@@ -591,6 +863,20 @@ function AppContent() {
             <Animated.View entering={FadeIn.delay(100)}>
               <GlassCard>
                 <SectionHeader title={activeGroup ? `Contacts — ${activeGroup}` : "All contacts"} subtitle={`${list.length} result${list.length !== 1 ? "s" : ""}`} />
+                {!activeGroup && hasActiveFilters(filters) && (
+                  <Pressable
+                    onPress={() => {
+                      setEditingSmartList(null);
+                      setShowSaveSearch(true);
+                    }}
+                    style={styles.saveSearchButton}
+                    accessibilityRole="button"
+                    accessibilityLabel="Save these filters as a smart list"
+                  >
+                    <ListFilter size={16} color="white" />
+                    <Text style={styles.saveSearchButtonText}>Save as smart list</Text>
+                  </Pressable>
+                )}
                 <View style={styles.cardContent}>
                   {isLoading ? (
                     <SearchSkeleton count={3} />
@@ -611,6 +897,8 @@ function AppContent() {
                         onEdit={() => handleContactEdit(c)}
                         onDelete={() => handleContactDelete(c.id)}
                         onSendToHubSpot={() => handleSendToHubSpot(c.id)}
+                        onLogInteraction={() => setLoggingContact(c)}
+                        highlight={searchHighlights}
                       />
                     ))
                   )}
@@ -671,6 +959,51 @@ function AppContent() {
             <Animated.View entering={FadeIn.delay(100)}>
               <GlassCard>
                 <SectionHeader title="Groups" subtitle="Events, trips, and custom clusters" />
+
+                <View style={styles.cardContent}>
+                  <Text style={styles.smartListsTitle}>Events</Text>
+                  {events.map((event) => (
+                    <EventCard
+                      key={event.id}
+                      event={event}
+                      stats={eventStats[event.id] || { contactsMet: 0, followUpsDone: 0, followUpsScheduled: 0 }}
+                      active={event.id === activeEventId}
+                      onOpen={() => handleEventOpen(event)}
+                      onToggleActive={() => setActiveEvent(event.id === activeEventId ? null : event.id)}
+                      onOpenAgenda={() => handleEventAgenda(event)}
+                      onEdit={() => handleEventEdit(event)}
+                      onDelete={() => handleEventDelete(event)}
+                    />
+                  ))}
+                  <Pressable
+                    onPress={() => {
+                      setEditingEvent(null);
+                      setShowEventModal(true);
+                    }}
+                    style={styles.saveSearchButton}
+                  >
+                    <Plus size={14} color="white" />
+                    <Text style={styles.saveSearchButtonText}>Add event</Text>
+                  </Pressable>
+                </View>
+
+                {smartLists.length > 0 && (
+                  <View style={styles.cardContent}>
+                    <Text style={styles.smartListsTitle}>Smart lists</Text>
+                    {smartLists.map(({ search, count }) => (
+                      <SmartListCard
+                        key={search.id}
+                        search={search}
+                        count={count}
+                        onOpen={() => applySavedSearch(search.id)}
+                        onEdit={() => handleSmartListEdit(search)}
+                        onTogglePin={() => updateSavedSearch(search.id, { pinned: !search.pinned })}
+                        onPushToHubSpot={() => handleSmartListPush(search)}
+                        onDelete={() => handleSmartListDelete(search)}
+                      />
+                    ))}
+                  </View>
+                )}
                 
                 {/* Create New Group Button */}
                 <View style={styles.cardContent}>
@@ -821,6 +1154,66 @@ function AppContent() {
         onContactUpdate={(updatedContact) => {
           updateContact(updatedContact.id, updatedContact);
         }}
+        onResolveConflict={(field, choice) => {
+          if (viewingContact) {
+            resolveSyncConflict(viewingContact.id, field, choice);
+          }
+        }}
+        interactions={viewingTimeline}
+        onLogInteraction={() => setLoggingContact(viewingContact)}
+        onDeleteInteraction={deleteInteraction}
+        onSetConnectionStrength={(strength, locked) => {
+          if (viewingContact) {
+            setConnectionStrength(viewingContact.id, strength, locked);
+          }
+        }}
+        onEditFollowup={() => setFollowupContact(viewingContact)}
+        onCompleteFollowup={() => {
+          if (viewingContact) {
+            completeFollowup(viewingContact.id);
+          }
+        }}
+        onSnoozeFollowup={(days) => {
+          if (viewingContact) {
+            snoozeFollowup(viewingContact.id, days);
+          }
+        }}
+      />
+
+      {/* Log Interaction Modal */}
+      <LogInteractionModal
+        contact={loggingContact}
+        onClose={() => setLoggingContact(null)}
+        onSave={logInteraction}
+      />
+
+      {/* Follow-up Modal */}
+      <FollowupModal
+        contact={followupContact}
+        onClose={() => setFollowupContact(null)}
+        onSave={setFollowup}
+      />
+
+      <SaveSearchModal
+        visible={showSaveSearch}
+        search={editingSmartList}
+        filters={filters}
+        count={saveSearchCount}
+        onClose={() => {
+          setShowSaveSearch(false);
+          setEditingSmartList(null);
+        }}
+        onSave={handleSmartListSave}
+      />
+
+      <EventModal
+        visible={showEventModal}
+        event={editingEvent}
+        onClose={() => {
+          setShowEventModal(false);
+          setEditingEvent(null);
+        }}
+        onSave={handleEventSave}
       />
 
       {/* Group Management Modal */}
@@ -857,6 +1250,10 @@ function AppContent() {
             ]
           );
         } : undefined}
+        onExport={editingGroup ? () => {
+          const members = new Set(editingGroup.members);
+          handleExportContacts(contacts.filter((c) => members.has(c.id)), editingGroup.name);
+        } : undefined}
       />
 
       {/* Name Badge Scanner - Only render on native platforms */}
@@ -865,6 +1262,8 @@ function AppContent() {
           visible={showBadgeScanner}
           onClose={() => setShowBadgeScanner(false)}
           onContactExtracted={handleBadgeScanResult}
+          onBatchContactsExtracted={handleBatchScanResults}
+          availableGroups={availableGroups}
         />
       )}
 
@@ -875,6 +1274,14 @@ function AppContent() {
         onImportContacts={importContacts}
       />
 
+      {/* Contacts File Import Modal */}
+      <ContactsFileImportModal
+        file={importFile}
+        existingContacts={contacts}
+        onClose={() => setImportFile(null)}
+        onImport={importContacts}
+      />
+
       {/* Filter Modal */}
       <FilterModal
         visible={showFilterModal}
@@ -905,15 +1312,33 @@ function AppContent() {
           console.log('🔧 onImportContacts called');
           setShowContactsImport(true);
         }}
+        onImportFile={Platform.OS !== 'web' ? handleImportFile : undefined}
+        onExportContacts={() => handleExportContacts(list, activeGroup || 'contacts')}
+        onFindDuplicates={() => setShowDuplicates(true)}
         onBadgeScanner={Platform.OS !== 'web' ? () => {
           console.log('🔧 onBadgeScanner called');
           setShowBadgeScanner(true);
         } : undefined}
+        onProfileCard={() => setShowProfileCard(true)}
         onCRMSetup={handleCRMSetup}
         onSignOut={handleSignOut}
         showBadgeScanner={Platform.OS !== 'web'}
       />
 
+      {/* Duplicates Modal */}
+      <DuplicatesModal
+        visible={showDuplicates}
+        contacts={contacts}
+        onClose={() => setShowDuplicates(false)}
+        onMerge={mergeContacts}
+      />
+
+      {/* Profile Card Modal */}
+      <ProfileCardModal
+        visible={showProfileCard}
+        onClose={() => setShowProfileCard(false)}
+      />
+
       {/* CRM Connect Modal */}
       <CRMConnectModal
         visible={showCRMConnect}
@@ -1157,6 +1582,50 @@ const styles = StyleSheet.create({
   cardMargin: {
     marginBottom: 20,
   },
+  saveSearchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: -8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.15)',
+  },
+  saveSearchButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  activeEventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  activeEventText: {
+    flex: 1,
+  },
+  activeEventTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  activeEventSubtitle: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  smartListsTitle: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
   sectionHeader: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -0,0 +1,371 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { X as XIcon, Check, RefreshCw, Trash2 } from 'lucide-react-native';
+import {
+  BATCH_SCAN_FIELDS,
+  badgeScanBatchService,
+  type BatchScan,
+  type BatchScanField,
+  type BatchScanFields,
+} from '../services/badgeScanBatch';
+
+interface BadgeScanInboxProps {
+  scans: BatchScan[];
+  availableGroups: string[];
+  onClose: () => void;
+  onAddContacts: (scans: BatchScan[], eventGroup: string) => void;
+}
+
+const FIELD_LABELS: Record<BatchScanField, string> = {
+  name: 'Name',
+  title: 'Title',
+  company: 'Company',
+  email: 'Email',
+  phone: 'Phone',
+};
+
+/**
+ * Review inbox for batch badge scans: confirm, edit or discard each scan, then add the
+ * confirmed ones to an event group in one go
+ */
+export function BadgeScanInbox({ scans, availableGroups, onClose, onAddContacts }: BadgeScanInboxProps) {
+  const [eventGroup, setEventGroup] = useState('');
+  // Edits in progress, saved to the scan when the input loses focus
+  const [drafts, setDrafts] = useState<Record<string, Partial<BatchScanFields>>>({});
+
+  const confirmedScans = scans.filter(scan => scan.status === 'ready' && scan.confirmed);
+  const groupSuggestions = availableGroups
+    .filter(group => group.toLowerCase().includes(eventGroup.trim().toLowerCase()))
+    .slice(0, 6);
+
+  const fieldValue = (scan: BatchScan, field: BatchScanField) =>
+    drafts[scan.id]?.[field] ?? scan.fields[field];
+
+  const setDraft = (scanId: string, field: BatchScanField, value: string) => {
+    setDrafts(prev => ({ ...prev, [scanId]: { ...prev[scanId], [field]: value } }));
+  };
+
+  const commitDraft = async (scanId: string) => {
+    const draft = drafts[scanId];
+    if (!draft) return;
+    setDrafts(prev => {
+      const { [scanId]: _committed, ...rest } = prev;
+      return rest;
+    });
+    await badgeScanBatchService.updateFields(scanId, draft);
+  };
+
+  const toggleConfirmed = async (scan: BatchScan) => {
+    await commitDraft(scan.id);
+    if (!scan.confirmed && !fieldValue(scan, 'name').trim()) {
+      Alert.alert('Name Required', 'Enter a name before confirming this scan.');
+      return;
+    }
+    await badgeScanBatchService.setConfirmed(scan.id, !scan.confirmed);
+  };
+
+  const discardScan = (scan: BatchScan) => {
+    Alert.alert('Discard Scan', 'Remove this badge scan without adding a contact?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => badgeScanBatchService.remove([scan.id]) },
+    ]);
+  };
+
+  const addConfirmedContacts = async () => {
+    const group = eventGroup.trim();
+    if (!group || confirmedScans.length === 0) return;
+
+    onAddContacts(confirmedScans, group);
+    await badgeScanBatchService.remove(confirmedScans.map(scan => scan.id));
+  };
+
+  const renderScan = (scan: BatchScan) => {
+    if (scan.status === 'queued' || scan.status === 'processing') {
+      return (
+        <View key={scan.id} style={styles.scanCard}>
+          <View style={styles.statusRow}>
+            <ActivityIndicator size="small" color="#3b82f6" />
+            <Text style={styles.statusText}>
+              {scan.status === 'queued' ? 'Waiting to be read...' : 'Reading badge...'}
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
+    if (scan.status === 'failed') {
+      return (
+        <View key={scan.id} style={[styles.scanCard, styles.failedCard]}>
+          <Text style={styles.errorText}>{scan.error || 'Could not read this badge'}</Text>
+          <View style={styles.scanActions}>
+            <Pressable style={styles.secondaryButton} onPress={() => badgeScanBatchService.retry(scan.id)}>
+              <RefreshCw size={16} color="white" />
+              <Text style={styles.secondaryButtonText}>Retry</Text>
+            </Pressable>
+            <Pressable style={styles.secondaryButton} onPress={() => discardScan(scan)}>
+              <Trash2 size={16} color="#ef4444" />
+              <Text style={styles.secondaryButtonText}>Discard</Text>
+            </Pressable>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View key={scan.id} style={[styles.scanCard, scan.confirmed && styles.confirmedCard]}>
+        {BATCH_SCAN_FIELDS.map(field => (
+          <View key={field} style={styles.fieldRow}>
+            <Text style={styles.fieldLabel}>{FIELD_LABELS[field]}</Text>
+            <TextInput
+              style={styles.fieldInput}
+              value={fieldValue(scan, field)}
+              onChangeText={value => setDraft(scan.id, field, value)}
+              onEndEditing={() => commitDraft(scan.id)}
+              editable={!scan.confirmed}
+              placeholder="Not detected"
+              placeholderTextColor="#6b7280"
+              autoCapitalize={field === 'email' ? 'none' : 'words'}
+              keyboardType={field === 'email' ? 'email-address' : field === 'phone' ? 'phone-pad' : 'default'}
+            />
+            {scan.autoAssigned.includes(field) && <Text style={styles.autoBadge}>auto</Text>}
+          </View>
+        ))}
+
+        <View style={styles.scanActions}>
+          <Pressable style={styles.secondaryButton} onPress={() => discardScan(scan)}>
+            <Trash2 size={16} color="#ef4444" />
+            <Text style={styles.secondaryButtonText}>Discard</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.secondaryButton, scan.confirmed && styles.confirmedButton]}
+            onPress={() => toggleConfirmed(scan)}
+          >
+            <Check size={16} color="white" />
+            <Text style={styles.secondaryButtonText}>{scan.confirmed ? 'Confirmed' : 'Confirm'}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, zIndex: 1600 }]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Review Scans</Text>
+        <Pressable onPress={onClose} style={styles.closeIconButton}>
+          <XIcon size={24} color="white" />
+        </Pressable>
+      </View>
+
+      <ScrollView style={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        {scans.length === 0 ? (
+          <Text style={styles.emptyText}>No badges waiting for review.</Text>
+        ) : (
+          scans.map(renderScan)
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TextInput
+          style={styles.groupInput}
+          value={eventGroup}
+          onChangeText={setEventGroup}
+          placeholder="Event group, e.g. Web Summit 2025"
+          placeholderTextColor="#6b7280"
+        />
+        {groupSuggestions.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.groupChips}>
+            {groupSuggestions.map(group => (
+              <Pressable
+                key={group}
+                style={[styles.groupChip, group === eventGroup && styles.groupChipActive]}
+                onPress={() => setEventGroup(group)}
+              >
+                <Text style={styles.groupChipText}>{group}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+        <Pressable
+          style={[styles.addButton, (!eventGroup.trim() || confirmedScans.length === 0) && styles.addButtonDisabled]}
+          onPress={addConfirmedContacts}
+          disabled={!eventGroup.trim() || confirmedScans.length === 0}
+        >
+          <Text style={styles.addButtonText}>
+            Add {confirmedScans.length} contact{confirmedScans.length === 1 ? '' : 's'} to group
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0b1220',
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  closeIconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    color: '#9ca3af',
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  scanCard: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    padding: 16,
+    marginBottom: 12,
+  },
+  confirmedCard: {
+    borderColor: '#10b981',
+  },
+  failedCard: {
+    borderColor: 'rgba(239,68,68,0.5)',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  statusText: {
+    color: '#9ca3af',
+    fontSize: 15,
+  },
+  errorText: {
+    color: '#fca5a5',
+    fontSize: 15,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    color: '#9ca3af',
+    fontSize: 13,
+    width: 70,
+  },
+  fieldInput: {
+    flex: 1,
+    color: 'white',
+    fontSize: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  autoBadge: {
+    color: '#10b981',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  scanActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  confirmedButton: {
+    backgroundColor: '#10b981',
+  },
+  secondaryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 40,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.1)',
+  },
+  groupInput: {
+    color: 'white',
+    fontSize: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  groupChips: {
+    marginTop: 10,
+    flexGrow: 0,
+  },
+  groupChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginRight: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  groupChipActive: {
+    backgroundColor: '#3b82f6',
+  },
+  groupChipText: {
+    color: 'white',
+    fontSize: 13,
+  },
+  addButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  addButtonDisabled: {
+    backgroundColor: 'rgba(75,85,99,0.5)',
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -11,6 +11,12 @@ import {
   ScrollView,
   TextInput,
 } from 'react-native';
+import { offlineStorage, type BadgeScanResult } from '../services/offlineStorage';
+import type { ExtractedContactData, OcrProviderPreference } from '../types/contact';
+import { badgeScanBatchService, type BatchScan } from '../services/badgeScanBatch';
+import { BadgeScanInbox } from './BadgeScanInbox';
+import { BADGE_BARCODE_TYPES, resolveBadgeCode, scanBadgeCode } from '../services/badgeCodeScanner';
+import { badgeCodeToLines, mergeBadgeData, parseBadgeCode, type BadgeCodeData } from '../utils/badgeCodeParser';
 // Conditional native module imports
 const CameraModule = Platform.OS !== 'web' ? require('expo-camera') : null;
 const ImagePickerModule = Platform.OS !== 'web' ? require('expo-image-picker') : null;
@@ -23,28 +29,40 @@ const useCameraPermissions = CameraModule?.useCameraPermissions;
 const ImagePicker = ImagePickerModule;
 const MediaLibrary = MediaLibraryModule;
 const ImageManipulator = ImageManipulatorModule;
-import { X as XIcon, Camera as CameraIcon, Image as ImageIcon, CheckCircle, TestTube } from 'lucide-react-native';
+import { X as XIcon, Camera as CameraIcon, Image as ImageIcon, CheckCircle, TestTube, Inbox } from 'lucide-react-native';
 import { getImageSource } from '../utils/imageHelpers';
-import { processImageWithOcr } from '../services/ocrService';
+import { getOcrProviderPreference, processImageWithOcr, setOcrProviderPreference } from '../services/ocrService';
 import { sanitizeContactData } from '../utils/sanitization';
+import { parseBadgeText } from '../utils/badgeParser';
 import { devError } from '../utils/config';
 import { SafeComponent } from './ErrorBoundary';
 
+export type ScannedContactData = ExtractedContactData;
+
 interface NameBadgeScannerProps {
   visible: boolean;
   onClose: () => void;
-  onContactExtracted: (contactData: {
-    name: string;
-    company?: string;
-    title?: string;
-    email?: string;
-    phone?: string;
-  }) => void;
+  onContactExtracted: (contactData: ScannedContactData) => void;
+  /** Enables batch mode: confirmed scans from the review inbox, added to one event group */
+  onBatchContactsExtracted?: (contacts: ScannedContactData[], eventGroup: string) => void;
+  availableGroups?: string[];
 }
 
 const { width, height } = Dimensions.get('window');
 
-function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadgeScannerProps) {
+const OCR_PROVIDER_OPTIONS: { value: OcrProviderPreference; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'local', label: 'On-device' },
+  { value: 'remote', label: 'Cloud' },
+];
+
+function NameBadgeScannerCore({
+  visible,
+  onClose,
+  onContactExtracted,
+  onBatchContactsExtracted,
+  availableGroups = [],
+}: NameBadgeScannerProps) {
   // Use camera permissions only on native platforms
   const cameraHook = Platform.OS !== 'web' && useCameraPermissions ? useCameraPermissions() : [null, null];
   const [permission, requestPermission] = cameraHook;
@@ -61,7 +79,17 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
   });
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editingText, setEditingText] = useState('');
+  const [ocrProvider, setOcrProvider] = useState<OcrProviderPreference>('auto');
+  const [badgeScanResults, setBadgeScanResults] = useState<BadgeScanResult[]>([]);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchScans, setBatchScans] = useState<BatchScan[]>([]);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [showInbox, setShowInbox] = useState(false);
+  // Links from a badge code or profile card; there is no line to assign them to
+  const [badgeCodeLinks, setBadgeCodeLinks] = useState<Pick<ExtractedContactData, 'website' | 'linkedinUrl'>>({});
   const cameraRef = useRef<typeof CameraView>(null);
+  // Last live code without contact data, so it is not parsed again on every frame
+  const ignoredCodeRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (visible && !permission?.granted) {
@@ -69,12 +97,51 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
     }
   }, [visible]);
 
+  useEffect(() => {
+    if (!visible) return;
+    getOcrProviderPreference().then(setOcrProvider);
+    offlineStorage.getBadgeScanResults().then(setBadgeScanResults);
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible || !onBatchContactsExtracted) return;
+    badgeScanBatchService.load();
+    return badgeScanBatchService.subscribe(setBatchScans);
+  }, [visible, onBatchContactsExtracted]);
+
+  const selectOcrProvider = (provider: OcrProviderPreference) => {
+    setOcrProvider(provider);
+    setOcrProviderPreference(provider);
+  };
+
+  // Open the oldest badge that was re-read by cloud OCR after being queued offline
+  const reviewBadgeScanResult = async () => {
+    const [scan] = badgeScanResults;
+    if (!scan) return;
+
+    setBadgeScanResults(prev => prev.slice(1));
+    await offlineStorage.removeBadgeScanResult(scan.id);
+
+    const text = scan.remoteText || scan.localText;
+    if (!text.trim()) {
+      Alert.alert('No Text Found', 'Cloud OCR could not read any text from this badge either.');
+      return;
+    }
+    setExtractedText(text);
+    setShowManualAssignment(true);
+  };
+
   const takePicture = async () => {
     if (Platform.OS === 'web') {
       Alert.alert('Not Available', 'Camera is not available on web platform.');
       return;
     }
     
+    if (batchMode) {
+      await captureToBatch();
+      return;
+    }
+
     if (cameraRef.current) {
       try {
         setIsProcessing(true);
@@ -92,11 +159,49 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
     }
   };
 
+  // Batch mode: queue the photo and keep the camera ready for the next badge
+  const captureToBatch = async () => {
+    if (!cameraRef.current || isCapturing) return;
+
+    try {
+      setIsCapturing(true);
+      const photo = await cameraRef.current.takePictureAsync({
+        quality: 0.8,
+        base64: false,
+      });
+      await badgeScanBatchService.enqueue(photo.uri);
+    } catch (error) {
+      devError('Error capturing badge for batch', error instanceof Error ? error : new Error(String(error)));
+      Alert.alert('Error', 'Failed to take picture. Please try again.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
   const pickImage = async () => {
     if (Platform.OS === 'web' || !ImagePicker) {
       Alert.alert('Not Available', 'Image picker is not available on web platform.');
       return;
     }
+
+    if (batchMode) {
+      try {
+        const result = await ImagePicker.launchImageLibraryAsync({
+          mediaTypes: ImagePicker.MediaTypeOptions.Images,
+          allowsMultipleSelection: true,
+          quality: 0.8,
+        });
+        if (!result.canceled) {
+          for (const asset of result.assets) {
+            await badgeScanBatchService.enqueue(asset.uri);
+          }
+        }
+      } catch (error) {
+        devError('Error picking images for batch', error instanceof Error ? error : new Error(String(error)));
+        Alert.alert('Error', 'Failed to pick images. Please try again.');
+      }
+      return;
+    }
     
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
@@ -161,7 +266,27 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
         finalImageUri = manipulatedImage.uri;
       }
 
-      const ocrResult = await processImageWithOcr(finalImageUri);
+      // Codes are read from the full-size image; small PDF417 modules do not survive resizing
+      const badgeCode = await scanBadgeCode(imageUri);
+      const ocrResult = await processImageWithOcr(finalImageUri, ocrProvider);
+
+      if (ocrResult.queuedForRemote && !badgeCode) {
+        Alert.alert(
+          'Saved for Cloud OCR',
+          ocrResult.success
+            ? 'This badge was read on the device with low confidence. It will be read again by cloud OCR when you are back online.'
+            : 'No text could be read on the device. The badge will be read by cloud OCR when you are back online.'
+        );
+        if (!ocrResult.success) {
+          setIsProcessing(false);
+          return;
+        }
+      }
+      
+      if (badgeCode) {
+        showBadgeCodeResult(badgeCode, ocrResult.success ? ocrResult.extractedText : '');
+        return;
+      }
       
       if (ocrResult.success && ocrResult.extractedText.trim()) {
         setExtractedText(ocrResult.extractedText);
@@ -190,173 +315,59 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
   };
 
 
-  const extractContactInfo = (text: string) => {
-    const lines = text.split('\n').map(line => line.trim()).filter(line => line);
-    
-    // Filter out obvious non-contact info (catchphrases, taglines, etc.)
-    const isRelevantLine = (line: string) => {
-      const lowerLine = line.toLowerCase();
-      
-      // Skip very short lines (likely fragments)
-      if (line.length < 2) return false;
-      
-      // Skip obvious catchphrases and marketing text
-      const marketingPhrases = [
-        'innovation', 'excellence', 'solutions', 'success', 'leading', 'trusted',
-        'premier', 'professional', 'quality', 'service', 'experience', 'expert',
-        'committed', 'dedicated', 'passion', 'vision', 'mission', 'values',
-        'future', 'tomorrow', 'today', 'since', 'established', 'founded',
-        'your', 'our', 'we', 'us', 'you', 'the best', 'world class',
-        'connecting', 'building', 'creating', 'delivering', 'providing'
-      ];
-      
-      const hasMarketingPhrase = marketingPhrases.some(phrase => lowerLine.includes(phrase));
-      if (hasMarketingPhrase && !line.includes('@') && !/\d{3}/.test(line)) return false;
-      
-      // Skip lines that look like taglines (often contain specific words)
-      if (/\b(making|building|creating|connecting|delivering|providing|enabling|empowering)\b/i.test(line) && line.length > 20) return false;
-      
-      // Skip URLs and website addresses (unless they contain company name)
-      if (/www\.|\.com|\.org|\.net|http/i.test(line) && !line.includes('@')) return false;
-      
-      // Skip conference/event information
-      if (/\b(conference|summit|expo|event|attendee|speaker|session)\b/i.test(line)) return false;
-      
-      return true;
-    };
-
-    const relevantLines = lines.filter(isRelevantLine);
-    
-    // Smart field detection with confidence scoring
-    const fieldCandidates: {
-      name: Array<{ text: string; confidence: number; line: number }>;
-      company: Array<{ text: string; confidence: number; line: number }>;
-      title: Array<{ text: string; confidence: number; line: number }>;
-      email: Array<{ text: string; confidence: number; line: number }>;
-      phone: Array<{ text: string; confidence: number; line: number }>;
-    } = {
-      name: [],
-      company: [],
-      title: [],
-      email: [],
-      phone: []
-    };
+  // Structured data from a badge code is preferred; OCR text only fills the fields it lacks
+  const showBadgeCodeResult = (badgeCode: BadgeCodeData, ocrText: string) => {
+    const merged = mergeBadgeData(badgeCode.contact, ocrText.trim() ? parseBadgeText(ocrText) : {});
 
-    relevantLines.forEach((line, index) => {
-      const lineUpper = line.toUpperCase();
-      
-      // Email detection (very high confidence) - only extract the email part
-      const emailMatch = line.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
-      if (emailMatch) {
-        fieldCandidates.email.push({ text: emailMatch[0], confidence: 0.95, line: index });
-      }
-      
-      // Phone detection (high confidence) - clean format
-      const phoneMatch = line.match(/(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/);
-      if (phoneMatch) {
-        fieldCandidates.phone.push({ text: phoneMatch[0], confidence: 0.9, line: index });
-      }
-      
-      // Name detection (stricter validation)
-      let nameConfidence = 0;
-      
-      // Must be reasonable name format
-      const namePattern = /^[A-Z][a-z]+(?:\s+[A-Z][a-z]*\.?)*(?:\s+[A-Z][a-z]+)*$/;
-      if (!namePattern.test(line)) nameConfidence = 0;
-      else {
-        if (index === 0) nameConfidence += 0.4; // First line bonus
-        if (lineUpper === line && line.length > 4 && line.length < 30) nameConfidence += 0.3; // All caps, reasonable length
-        if (/^[A-Z][a-z]+ [A-Z][a-z]+$/.test(line)) nameConfidence += 0.5; // Perfect First Last pattern
-        if (line.split(' ').length === 2) nameConfidence += 0.2; // Two words bonus
-        if (line.split(' ').length > 3) nameConfidence -= 0.3; // Too many words penalty
-        
-        // Penalize if it looks like a title or company
-        if (/\b(Inc|LLC|Corp|Ltd|Company|Technologies|Solutions|Systems|Labs)\b/i.test(line)) nameConfidence -= 0.5;
-        if (/\b(Manager|Director|Engineer|CEO|CTO|President)\b/i.test(line)) nameConfidence -= 0.4;
-      }
-      
-      if (nameConfidence > 0.4) {
-        fieldCandidates.name.push({ text: line, confidence: Math.min(nameConfidence, 0.9), line: index });
-      }
-      
-      // Title detection (must contain job-related keywords)
-      const titlePatterns = [
-        /\b(CEO|CTO|CFO|COO|VP|Vice President|President|Director|Manager|Lead|Senior|Principal|Staff|Associate|Specialist|Analyst|Engineer|Developer|Designer|Architect|Consultant|Coordinator)\b/i,
-        /\b(Software|Hardware|Product|Marketing|Sales|Operations|Finance|Human Resources|HR|Engineering|Design|Research|Data|Security|DevOps)\s+(Engineer|Manager|Director|Lead|Specialist|Analyst)\b/i,
-        /\b(Head of|Chief)\s+\w+/i,
-        /\bDr\.\s+[A-Z]/i
-      ];
-      
-      let titleConfidence = 0;
-      let hasJobKeyword = false;
-      
-      titlePatterns.forEach(pattern => {
-        if (pattern.test(line)) {
-          titleConfidence += 0.4;
-          hasJobKeyword = true;
-        }
-      });
-      
-      // Only consider as title if it has job-related keywords
-      if (hasJobKeyword) {
-        if (index > 0 && index < 4) titleConfidence += 0.2; // Position bonus
-        if (line.length < 50) titleConfidence += 0.1; // Reasonable length bonus
-        if (line.length > 60) titleConfidence -= 0.3; // Too long penalty
-        
-        if (titleConfidence > 0.3) {
-          fieldCandidates.title.push({ text: line, confidence: titleConfidence, line: index });
-        }
-      }
-      
-      // Company detection (stricter validation)
-      let companyConfidence = 0;
-      
-      // Must not be a person's name or title
-      if (namePattern.test(line)) companyConfidence -= 0.5;
-      if (titlePatterns.some(pattern => pattern.test(line))) companyConfidence -= 0.4;
-      
-      // Positive indicators for company
-      if (line.includes('Inc') || line.includes('LLC') || line.includes('Corp') || line.includes('Ltd')) companyConfidence += 0.5;
-      if (line.includes('Technologies') || line.includes('Solutions') || line.includes('Systems') || line.includes('Labs')) companyConfidence += 0.4;
-      if (/\b(Company|Group|Partners|Enterprises|Industries|Services)\b/i.test(line)) companyConfidence += 0.3;
-      
-      // Position and length factors
-      if (index > 0 && index < 4) companyConfidence += 0.2;
-      if (line.length > 8 && line.length < 40) companyConfidence += 0.1;
-      if (line.length > 50) companyConfidence -= 0.2;
-      
-      // Must have some positive indicators
-      if (companyConfidence > 0.3) {
-        fieldCandidates.company.push({ text: line, confidence: companyConfidence, line: index });
-      }
+    setExtractedText(ocrText.trim() || badgeCodeToLines(badgeCode.contact).join('\n'));
+    setBadgeCodeLinks({ website: merged.website, linkedinUrl: merged.linkedinUrl });
+    setFieldAssignments({
+      name: merged.name || '',
+      company: merged.company || '',
+      title: merged.title || '',
+      email: merged.email || '',
+      phone: merged.phone || '',
     });
+    setShowManualAssignment(true);
+    setIsProcessing(false);
+  };
 
-    // Select best candidate for each field with minimum confidence thresholds
-    const getBestCandidate = (candidates, minConfidence = 0) => {
-      const validCandidates = candidates.filter(c => c.confidence > minConfidence);
-      if (validCandidates.length === 0) return '';
-      return validCandidates.sort((a, b) => b.confidence - a.confidence)[0].text;
-    };
+  const handleBarcodeScanned = async ({ data }: { data: string }) => {
+    if (data === ignoredCodeRef.current) return;
 
-    return {
-      name: getBestCandidate(fieldCandidates.name, 0.4),
-      company: getBestCandidate(fieldCandidates.company, 0.3),
-      title: getBestCandidate(fieldCandidates.title, 0.3),
-      email: getBestCandidate(fieldCandidates.email, 0.8),
-      phone: getBestCandidate(fieldCandidates.phone, 0.8),
-      candidates: fieldCandidates,
-      filteredLines: relevantLines // Show what lines were considered
-    };
+    if (!parseBadgeCode(data)) {
+      ignoredCodeRef.current = data;
+      return;
+    }
+
+    // Following a profile card share link takes a request; pause live scanning meanwhile
+    setIsProcessing(true);
+    const badgeCode = await resolveBadgeCode(data);
+    if (badgeCode) {
+      showBadgeCodeResult(badgeCode, '');
+    } else {
+      setIsProcessing(false);
+    }
   };
 
   const handleConfirmContact = () => {
-    const rawContactData = extractContactInfo(extractedText);
+    const rawContactData = parseBadgeText(extractedText);
     const sanitizedData = sanitizeContactData(rawContactData);
     onContactExtracted(sanitizedData);
     handleClose();
   };
 
+  const handleBatchAdd = (scans: BatchScan[], eventGroup: string) => {
+    if (!onBatchContactsExtracted) return;
+    const contacts = scans.map(scan => sanitizeContactData(scan.fields));
+    onBatchContactsExtracted(contacts, eventGroup);
+    setShowInbox(false);
+  };
+
   const handleClose = () => {
+    ignoredCodeRef.current = null;
+    setBadgeCodeLinks({});
+    setShowInbox(false);
     setShowPreview(false);
     setShowManualAssignment(false);
     setExtractedText('');
@@ -417,7 +428,7 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
       phone: fieldAssignments.phone
     };
     const sanitizedData = sanitizeContactData(rawContactData);
-    onContactExtracted(sanitizedData);
+    onContactExtracted({ ...sanitizedData, ...badgeCodeLinks });
     handleClose();
   };
 
@@ -445,6 +456,17 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
     );
   }
 
+  if (showInbox) {
+    return (
+      <BadgeScanInbox
+        scans={batchScans}
+        availableGroups={availableGroups}
+        onClose={() => setShowInbox(false)}
+        onAddContacts={handleBatchAdd}
+      />
+    );
+  }
+
   if (showManualAssignment) {
     const lines = extractedText.split('\n').map(line => line.trim()).filter(line => line);
     const assignedLines = Object.values(fieldAssignments).filter(Boolean);
@@ -617,8 +639,8 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
   }
 
   if (showPreview) {
-    const contactData = extractContactInfo(extractedText);
-    const lines = extractedText.split('\n').map(line => line.trim()).filter(line => line);
+    const contactData = parseBadgeText(extractedText);
+    const lines = contactData.lines;
     
     return (
       <View style={[styles.previewContainer, { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, zIndex: 1500 }]}>
@@ -638,7 +660,7 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
             <View style={styles.fieldRow}>
               <Text style={styles.fieldLabel}>Name:</Text>
               <Text style={styles.fieldValue}>{contactData.name || 'Not detected'}</Text>
-              {contactData.candidates?.name?.length > 1 && (
+              {contactData.candidates.name.length > 1 && (
                 <Text style={styles.alternativeCount}>+{contactData.candidates.name.length - 1} alternatives</Text>
               )}
             </View>
@@ -647,7 +669,7 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
             <View style={styles.fieldRow}>
               <Text style={styles.fieldLabel}>Title:</Text>
               <Text style={styles.fieldValue}>{contactData.title || 'Not detected'}</Text>
-              {contactData.candidates?.title?.length > 1 && (
+              {contactData.candidates.title.length > 1 && (
                 <Text style={styles.alternativeCount}>+{contactData.candidates.title.length - 1} alternatives</Text>
               )}
             </View>
@@ -656,7 +678,7 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
             <View style={styles.fieldRow}>
               <Text style={styles.fieldLabel}>Company:</Text>
               <Text style={styles.fieldValue}>{contactData.company || 'Not detected'}</Text>
-              {contactData.candidates?.company?.length > 1 && (
+              {contactData.candidates.company.length > 1 && (
                 <Text style={styles.alternativeCount}>+{contactData.candidates.company.length - 1} alternatives</Text>
               )}
             </View>
@@ -695,7 +717,7 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
           <Text style={styles.rawTextLabel}>Detected Text:</Text>
           <View style={styles.linesContainer}>
             {lines.map((line, index) => {
-              const isFiltered = !contactData.filteredLines?.includes(line);
+              const isFiltered = contactData.relevantLines.indexOf(line) === -1;
               return (
                 <Text 
                   key={index} 
@@ -731,6 +753,9 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
         ref={cameraRef}
         style={styles.camera}
         facing="back"
+        barcodeScannerSettings={{ barcodeTypes: BADGE_BARCODE_TYPES }}
+        // Batch mode reads codes from each captured photo instead
+        onBarcodeScanned={batchMode || isProcessing ? undefined : handleBarcodeScanned}
       />
       
       {/* Camera Overlay - positioned absolutely */}
@@ -740,10 +765,51 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
           <Pressable onPress={handleClose} style={styles.closeIconButton}>
             <XIcon size={24} color="white" />
           </Pressable>
-          <Text style={styles.cameraTitle}>Scan Name Badge</Text>
-          <View style={{ width: 24 }} />
+          <Text style={styles.cameraTitle}>{batchMode ? 'Batch Scan' : 'Scan Name Badge'}</Text>
+          {onBatchContactsExtracted ? (
+            <Pressable
+              onPress={() => setBatchMode(prev => !prev)}
+              style={[styles.batchToggle, batchMode && styles.batchToggleActive]}
+            >
+              <Text style={styles.batchToggleText}>Batch</Text>
+            </Pressable>
+          ) : (
+            <View style={{ width: 24 }} />
+          )}
+        </View>
+
+        {/* OCR Provider */}
+        <View style={styles.providerRow}>
+          {OCR_PROVIDER_OPTIONS.map(option => (
+            <Pressable
+              key={option.value}
+              style={[styles.providerChip, ocrProvider === option.value && styles.providerChipActive]}
+              onPress={() => selectOcrProvider(option.value)}
+            >
+              <Text style={styles.providerChipText}>{option.label}</Text>
+            </Pressable>
+          ))}
         </View>
 
+        {badgeScanResults.length > 0 && (
+          <Pressable style={styles.reviewScansButton} onPress={reviewBadgeScanResult}>
+            <Text style={styles.reviewScansText}>
+              Review {badgeScanResults.length} badge{badgeScanResults.length === 1 ? '' : 's'} read by cloud OCR
+            </Text>
+          </Pressable>
+        )}
+
+        {batchMode && (
+          <Pressable style={styles.batchStatus} onPress={() => setShowInbox(true)}>
+            <Inbox size={18} color="white" />
+            <Text style={styles.batchStatusText}>
+              {batchScans.filter(scan => scan.status === 'queued' || scan.status === 'processing').length} reading
+              {' · '}
+              {batchScans.filter(scan => scan.status === 'ready' || scan.status === 'failed').length} to review
+            </Text>
+          </Pressable>
+        )}
+
         {/* Scanning Frame */}
         <View style={styles.scanningArea}>
           <View style={styles.scanningFrame}>
@@ -752,7 +818,7 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
             <View style={[styles.corner, styles.bottomLeft]} />
             <View style={[styles.corner, styles.bottomRight]} />
             <Text style={styles.scanningText}>
-              Position name badge within frame
+              Position name badge or its QR code within frame
             </Text>
           </View>
         </View>
@@ -764,9 +830,9 @@ function NameBadgeScannerCore({ visible, onClose, onContactExtracted }: NameBadg
           </Pressable>
           
           <Pressable 
-            style={[styles.captureButton, isProcessing && styles.captureButtonDisabled]} 
+            style={[styles.captureButton, (isProcessing || isCapturing) && styles.captureButtonDisabled]} 
             onPress={takePicture}
-            disabled={isProcessing}
+            disabled={isProcessing || isCapturing}
           >
             <CameraIcon size={32} color="white" />
           </Pressable>
@@ -838,6 +904,74 @@ const styles = StyleSheet.create({
     paddingTop: 60,
     paddingBottom: 20,
   },
+  batchToggle: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  batchToggleActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  batchToggleText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  batchStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  batchStatusText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  providerRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  providerChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  providerChipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  providerChipText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  reviewScansButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(16,185,129,0.8)',
+  },
+  reviewScansText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   closeIconButton: {
     width: 40,
     height: 40,
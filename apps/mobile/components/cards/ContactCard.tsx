@@ -10,6 +10,8 @@ import Animated, {
   interpolate
 } from 'react-native-reanimated';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { HighlightedText } from '../ui/HighlightedText';
+import { NO_HIGHLIGHTS, termsForField, type HighlightTerms } from '../../utils/searchQuery';
 
 // Haptics import with Platform check
 const HapticsModule = Platform.OS !== 'web' ? require('expo-haptics') : null;
@@ -24,9 +26,11 @@ interface ContactCardProps {
   onDelete: () => void;
   onView: () => void;
   onSendToHubSpot: () => void;
+  /** Search terms to mark in the card's fields */
+  highlight?: HighlightTerms;
 }
 
-export const ContactCard = memo<ContactCardProps>(function ContactCard({ contact, onStar, onEdit, onDelete, onView, onSendToHubSpot }) {
+export const ContactCard = memo<ContactCardProps>(function ContactCard({ contact, onStar, onEdit, onDelete, onView, onSendToHubSpot, highlight = NO_HIGHLIGHTS }) {
   const primaryEmail = contact.identifiers.find(id => id.type === 'email')?.value;
   const primaryPhone = contact.identifiers.find(id => id.type === 'phone')?.value;
 
@@ -137,41 +141,41 @@ export const ContactCard = memo<ContactCardProps>(function ContactCard({ contact
         <View style={styles.contactCardContent}>
           <View style={styles.contactInfo}>
             <View style={styles.contactName}>
-              <Text style={styles.nameText}>{contact.name}</Text>
+              <HighlightedText style={styles.nameText} terms={termsForField(highlight, 'name')}>{contact.name || ''}</HighlightedText>
               {contact.starred && <StarIcon size={14} color="white" fill="white" style={{ marginLeft: 6 }} />}
             </View>
             {(contact.title || contact.company) && (
               <Text style={styles.contactTitle}>
-                {contact.title && <Text style={styles.titleText}>{contact.title}</Text>}
+                {contact.title && <HighlightedText style={styles.titleText} terms={termsForField(highlight, 'title')}>{contact.title}</HighlightedText>}
                 {contact.title && contact.company && <Text style={styles.separator}> at </Text>}
-                {contact.company && <Text style={styles.companyText}>{contact.company}</Text>}
+                {contact.company && <HighlightedText style={styles.companyText} terms={termsForField(highlight, 'company')}>{contact.company}</HighlightedText>}
               </Text>
             )}
             <View style={styles.tagsRow}>
               {contact.tags.map((tag) => (
                 <View key={tag} style={styles.tagContainer}>
-                  <Chip>{tag}</Chip>
+                  <Chip><HighlightedText terms={termsForField(highlight, 'tag')}>{tag}</HighlightedText></Chip>
                 </View>
               ))}
               {contact.city && (
                 <View style={styles.cityChip}>
                   <MapPin size={12} color="white" />
-                  <Text style={styles.cityText}>{contact.city}</Text>
+                  <HighlightedText style={styles.cityText} terms={termsForField(highlight, 'city')}>{contact.city}</HighlightedText>
                 </View>
               )}
             </View>
-            {contact.note && <Text style={styles.noteText}>{contact.note}</Text>}
+            {contact.note && <HighlightedText style={styles.noteText} terms={termsForField(highlight, 'notes')}>{contact.note}</HighlightedText>}
             <View style={styles.identifierRow}>
               {primaryEmail && (
                 <View style={styles.identifier}>
                   <Mail size={12} color="white" />
-                  <Text style={styles.identifierText}>{primaryEmail}</Text>
+                  <HighlightedText style={styles.identifierText} terms={termsForField(highlight, 'email')}>{primaryEmail}</HighlightedText>
                 </View>
               )}
               {primaryPhone && (
                 <View style={styles.identifier}>
                   <Phone size={12} color="white" />
-                  <Text style={styles.identifierText}>{primaryPhone}</Text>
+                  <HighlightedText style={styles.identifierText} terms={termsForField(highlight, 'phone')}>{primaryPhone}</HighlightedText>
                 </View>
               )}
             </View>
@@ -0,0 +1,150 @@
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { CalendarDays, ExternalLink, Trash2 } from 'lucide-react-native';
+import { GlassCard } from '../ui/GlassCard';
+import { EventStats, NetworkingEvent } from '../../types/contact';
+import { describeEventDates } from '../../utils/events';
+
+interface EventCardProps {
+  event: NetworkingEvent;
+  stats: EventStats;
+  /** Whether new contacts are being met at this event */
+  active: boolean;
+  onOpen: () => void;
+  onToggleActive: () => void;
+  onOpenAgenda: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+export const EventCard = memo<EventCardProps>(function EventCard({
+  event,
+  stats,
+  active,
+  onOpen,
+  onToggleActive,
+  onOpenAgenda,
+  onEdit,
+  onDelete,
+}) {
+  return (
+    <GlassCard noPadding style={[styles.eventCard, active && styles.eventCardActive]}>
+      <View style={styles.eventHeader}>
+        <Pressable onPress={onOpen} style={{ flex: 1 }}>
+          <Text style={styles.eventName}>{event.name}</Text>
+          <Text style={styles.eventDetails} numberOfLines={2}>
+            {describeEventDates(event)}{event.venue ? ` • ${event.venue}` : ''}
+          </Text>
+        </Pressable>
+        <View style={styles.eventActions}>
+          {event.agendaUrl ? (
+            <Pressable
+              onPress={onOpenAgenda}
+              style={[styles.actionButton, styles.iconActionButton]}
+              accessibilityLabel="Open agenda"
+            >
+              <ExternalLink size={14} color="white" />
+            </Pressable>
+          ) : null}
+          <Pressable onPress={onEdit} style={styles.actionButton}>
+            <Text style={styles.actionButtonText}>Edit</Text>
+          </Pressable>
+          <Pressable onPress={onDelete} style={[styles.actionButton, styles.deleteActionButton]}>
+            <Trash2 size={14} color="rgba(220, 38, 38, 0.8)" />
+          </Pressable>
+        </View>
+      </View>
+      <View style={styles.eventFooter}>
+        <View style={styles.statsRow}>
+          <CalendarDays size={16} color="rgba(255,255,255,0.7)" />
+          <Text style={styles.statsText}>
+            {stats.contactsMet} met • {stats.followUpsDone} followed up
+            {stats.followUpsScheduled > 0 ? ` • ${stats.followUpsScheduled} scheduled` : ''}
+            {event.syncStatus === 'pending' ? ' • Waiting to sync' : ''}
+            {event.syncStatus === 'failed' ? ' • Sync failed' : ''}
+          </Text>
+        </View>
+        <Pressable onPress={onToggleActive} style={[styles.actionButton, active && styles.activeButton]}>
+          <Text style={[styles.actionButtonText, active && styles.activeButtonText]}>
+            {active ? 'Active' : 'Make active'}
+          </Text>
+        </Pressable>
+      </View>
+    </GlassCard>
+  );
+});
+
+const styles = StyleSheet.create({
+  eventCard: {
+    marginBottom: 12,
+    padding: 20,
+  },
+  eventCardActive: {
+    borderColor: 'rgba(34, 197, 94, 0.6)',
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  eventName: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  eventDetails: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+  },
+  eventActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.15)',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  iconActionButton: {
+    paddingHorizontal: 8,
+  },
+  deleteActionButton: {
+    backgroundColor: 'rgba(239,68,68,0.1)',
+    borderColor: 'rgba(239,68,68,0.3)',
+    paddingHorizontal: 8,
+  },
+  activeButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+    borderColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  activeButtonText: {
+    color: '#1f2937',
+    fontWeight: '600',
+  },
+  eventFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  statsText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+});
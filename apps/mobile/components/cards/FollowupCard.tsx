@@ -0,0 +1,115 @@
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Check as CheckIcon, Clock } from 'lucide-react-native';
+import { GlassCard } from '../ui/GlassCard';
+import { cadenceLabel, describeFollowup, type DueFollowup } from '../../utils/followups';
+import { displayName } from '../../utils/duplicateDetection';
+
+interface FollowupCardProps {
+  followup: DueFollowup;
+  onView: () => void;
+  onComplete: () => void;
+  onSnooze: () => void;
+}
+
+export const FollowupCard = memo<FollowupCardProps>(function FollowupCard({ followup, onView, onComplete, onSnooze }) {
+  const { contact } = followup;
+  const overdue = followup.status === 'overdue';
+
+  return (
+    <GlassCard noPadding style={styles.followupCard}>
+      <View style={styles.followupContent}>
+        <Pressable
+          onPress={onView}
+          style={styles.followupInfo}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={`${displayName(contact)}, ${describeFollowup(followup)}`}
+          accessibilityHint="Opens the contact"
+        >
+          <Text style={styles.followupName} numberOfLines={1}>{displayName(contact)}</Text>
+          {!!contact.company && (
+            <Text style={styles.followupCompany} numberOfLines={1}>{contact.company}</Text>
+          )}
+          <Text style={[styles.followupDue, overdue && styles.followupOverdue]}>
+            {describeFollowup(followup)}
+            {contact.followupCadenceDays ? ` · ${cadenceLabel(contact.followupCadenceDays).toLowerCase()}` : ''}
+          </Text>
+        </Pressable>
+        <View style={styles.followupActions}>
+          <Pressable
+            onPress={onSnooze}
+            style={styles.actionButton}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`Snooze follow-up with ${displayName(contact)}`}
+          >
+            <Clock size={16} color="white" />
+          </Pressable>
+          <Pressable
+            onPress={onComplete}
+            style={[styles.actionButton, styles.doneButton]}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`Mark follow-up with ${displayName(contact)} done`}
+          >
+            <CheckIcon size={16} color="white" />
+          </Pressable>
+        </View>
+      </View>
+    </GlassCard>
+  );
+});
+
+const styles = StyleSheet.create({
+  followupCard: {
+    marginBottom: 8,
+    padding: 16,
+  },
+  followupContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  followupInfo: {
+    flex: 1,
+  },
+  followupName: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  followupCompany: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  followupDue: {
+    color: 'rgba(251, 191, 36, 0.9)',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  followupOverdue: {
+    color: 'rgba(248, 113, 113, 1)',
+  },
+  followupActions: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingLeft: 12,
+  },
+  actionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.15)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  doneButton: {
+    backgroundColor: 'rgba(34,197,94,0.2)',
+    borderColor: 'rgba(34,197,94,0.5)',
+  },
+});
@@ -0,0 +1,132 @@
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { ListFilter, Pin, PinOff, Trash2 } from 'lucide-react-native';
+import { GlassCard } from '../ui/GlassCard';
+import { SavedSearch } from '../../types/contact';
+import { describeFilters } from '../../utils/smartLists';
+
+interface SmartListCardProps {
+  search: SavedSearch;
+  /** Contacts the list's filters match right now */
+  count: number;
+  onOpen: () => void;
+  onEdit: () => void;
+  onTogglePin: () => void;
+  onPushToHubSpot: () => void;
+  onDelete: () => void;
+}
+
+export const SmartListCard = memo<SmartListCardProps>(function SmartListCard({
+  search,
+  count,
+  onOpen,
+  onEdit,
+  onTogglePin,
+  onPushToHubSpot,
+  onDelete,
+}) {
+  return (
+    <GlassCard noPadding style={styles.listCard}>
+      <View style={styles.listHeader}>
+        <Pressable onPress={onOpen} style={{ flex: 1 }}>
+          <Text style={styles.listName}>{search.name}</Text>
+          <Text style={styles.listFilters} numberOfLines={2}>{describeFilters(search.filters)}</Text>
+        </Pressable>
+        <View style={styles.listActions}>
+          <Pressable
+            onPress={onTogglePin}
+            style={[styles.actionButton, styles.iconActionButton]}
+            accessibilityLabel={search.pinned ? 'Unpin smart list' : 'Pin smart list'}
+          >
+            {search.pinned ? <PinOff size={14} color="white" /> : <Pin size={14} color="white" />}
+          </Pressable>
+          <Pressable onPress={onEdit} style={styles.actionButton}>
+            <Text style={styles.actionButtonText}>Edit</Text>
+          </Pressable>
+          <Pressable onPress={onDelete} style={[styles.actionButton, styles.deleteActionButton]}>
+            <Trash2 size={14} color="rgba(220, 38, 38, 0.8)" />
+          </Pressable>
+        </View>
+      </View>
+      <View style={styles.listFooter}>
+        <View style={styles.listCountRow}>
+          <ListFilter size={16} color="rgba(255,255,255,0.7)" />
+          <Text style={styles.listCountText}>
+            {count} contact{count !== 1 ? "s" : ""}
+            {search.syncStatus === 'pending' ? ' • Waiting to sync' : ''}
+            {search.syncStatus === 'failed' ? ' • Sync failed' : ''}
+          </Text>
+        </View>
+        <Pressable onPress={onPushToHubSpot} style={styles.actionButton}>
+          <Text style={styles.actionButtonText}>
+            {search.hubspotListId ? 'Update HubSpot list' : 'Push to HubSpot'}
+          </Text>
+        </Pressable>
+      </View>
+    </GlassCard>
+  );
+});
+
+const styles = StyleSheet.create({
+  listCard: {
+    marginBottom: 12,
+    padding: 20,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  listName: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  listFilters: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+  },
+  listActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.15)',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  iconActionButton: {
+    paddingHorizontal: 8,
+  },
+  deleteActionButton: {
+    backgroundColor: 'rgba(239,68,68,0.1)',
+    borderColor: 'rgba(239,68,68,0.3)',
+    paddingHorizontal: 8,
+  },
+  listFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  listCountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  listCountText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,497 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Check } from 'lucide-react-native';
+import type { CRMConnection, CRMFieldMapping } from '../../types/crm';
+import type { Contact } from '../../types/contact';
+import { crmService } from '../../services/crmService';
+import { hubspotContactsService, type HubSpotProperty } from '../../services/hubspotContacts';
+import { mapContactFields, type FieldTransform } from '../../utils/crm-field-mapping';
+import { devError } from '../../utils/logger';
+
+interface FieldMappingEditorProps {
+  connection: CRMConnection;
+  onSaved: (connection: CRMConnection) => void;
+  onCancel: () => void;
+}
+
+// Contact data fields; IDs, sync state and backward-compatible aliases are left out
+const CONTACT_FIELDS: { field: keyof Contact; label: string }[] = [
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'name', label: 'Full name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'linkedinUrl', label: 'LinkedIn URL' },
+  { field: 'company', label: 'Company' },
+  { field: 'title', label: 'Job title' },
+  { field: 'city', label: 'City' },
+  { field: 'country', label: 'Country' },
+  { field: 'connectionStrength', label: 'Connection strength' },
+  { field: 'contactValue', label: 'Contact value' },
+  { field: 'firstMetLocation', label: 'First met location' },
+  { field: 'firstMetDate', label: 'First met date' },
+  { field: 'lastInteractionDate', label: 'Last interaction date' },
+  { field: 'nextFollowupDate', label: 'Next follow-up date' },
+  { field: 'totalInteractions', label: 'Total interactions' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'groups', label: 'Groups' },
+  { field: 'notes', label: 'Notes' },
+];
+
+const TRANSFORMS: { value: FieldTransform; label: string }[] = [
+  { value: 'none', label: 'As is' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'lowercase', label: 'lowercase' },
+  { value: 'phone_format', label: 'Phone' },
+];
+
+const SAMPLE_CONTACT: Contact = {
+  id: 'sample',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  name: 'Jane Doe',
+  email: 'Jane.Doe@Example.com',
+  phone: '555 123 4567',
+  linkedinUrl: 'https://www.linkedin.com/in/janedoe',
+  company: 'Acme Corp',
+  title: 'VP of Engineering',
+  city: 'Austin',
+  country: 'United States',
+  connectionStrength: 'Strong',
+  contactValue: 'High',
+  firstMetLocation: 'SaaStr Annual',
+  firstMetDate: '2025-09-10',
+  lastInteractionDate: '2025-09-18',
+  nextFollowupDate: '2025-10-01',
+  totalInteractions: 3,
+  tags: ['prospect', 'engineering'],
+  groups: ['SaaStr 2025'],
+  notes: 'Interested in a pilot next quarter',
+};
+
+const MAX_PROPERTY_RESULTS = 8;
+
+export function FieldMappingEditor({ connection, onSaved, onCancel }: FieldMappingEditorProps) {
+  const [mappings, setMappings] = useState<CRMFieldMapping[]>(connection.fieldMappings);
+  const [expandedField, setExpandedField] = useState<keyof Contact | null>(null);
+  const [search, setSearch] = useState('');
+  const [properties, setProperties] = useState<HubSpotProperty[] | null>(null);
+  const [propertiesError, setPropertiesError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // HubSpot properties are fetched live; other providers take the field name as typed
+  useEffect(() => {
+    if (connection.provider !== 'hubspot') return;
+
+    hubspotContactsService.getContactProperties()
+      .then(setProperties)
+      .catch(error => {
+        devError('Failed to load HubSpot properties:', error instanceof Error ? error : new Error(String(error)));
+        setPropertiesError(error instanceof Error ? error.message : 'Failed to load HubSpot properties');
+      });
+  }, [connection.provider]);
+
+  // Rows opened but not yet pointed at a CRM field are ignored until they are
+  const completeMappings = useMemo(
+    () => mappings
+      .filter(mapping => mapping.crmField.trim())
+      .map(mapping => ({ ...mapping, crmField: mapping.crmField.trim() })),
+    [mappings]
+  );
+
+  const preview = useMemo(() => mapContactFields(SAMPLE_CONTACT, completeMappings), [completeMappings]);
+
+  const duplicateCrmFields = useMemo(() => {
+    const crmFields = completeMappings.map(mapping => mapping.crmField);
+    return crmFields.filter((field, index) => crmFields.indexOf(field) !== index);
+  }, [completeMappings]);
+
+  const filteredProperties = useMemo(() => {
+    if (!properties) return [];
+    const query = search.trim().toLowerCase();
+    return properties
+      .filter(property => !query ||
+        property.label.toLowerCase().includes(query) ||
+        property.name.toLowerCase().includes(query))
+      .slice(0, MAX_PROPERTY_RESULTS);
+  }, [properties, search]);
+
+  const getMapping = (field: keyof Contact) => mappings.find(mapping => mapping.localField === field);
+
+  const getPropertyLabel = (crmField: string) =>
+    properties?.find(property => property.name === crmField)?.label;
+
+  const updateMapping = (field: keyof Contact, changes: Partial<CRMFieldMapping>) => {
+    setMappings(prev => {
+      const existing = prev.find(mapping => mapping.localField === field);
+      if (existing) {
+        return prev.map(mapping => mapping.localField === field ? { ...mapping, ...changes } : mapping);
+      }
+      return [...prev, { localField: field, crmField: '', isRequired: false, transform: 'none', ...changes }];
+    });
+  };
+
+  const removeMapping = (field: keyof Contact) => {
+    setMappings(prev => prev.filter(mapping => mapping.localField !== field));
+  };
+
+  const toggleExpanded = (field: keyof Contact) => {
+    setExpandedField(prev => (prev === field ? null : field));
+    setSearch('');
+  };
+
+  const handleSave = async () => {
+    if (completeMappings.length === 0) {
+      Alert.alert('No Fields Mapped', 'Map at least one contact field before saving.');
+      return;
+    }
+    if (duplicateCrmFields.length > 0) {
+      Alert.alert('Duplicate Mapping', `${duplicateCrmFields[0]} is mapped from more than one contact field.`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await crmService.updateFieldMappings(connection.id, completeMappings);
+      onSaved(updated);
+    } catch (error) {
+      setIsSaving(false);
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'Failed to save field mappings');
+    }
+  };
+
+  const renderTargetPicker = (field: keyof Contact, mapping?: CRMFieldMapping) => {
+    if (connection.provider !== 'hubspot') {
+      return (
+        <TextInput
+          style={styles.textInput}
+          value={mapping?.crmField || ''}
+          onChangeText={(text) => updateMapping(field, { crmField: text })}
+          placeholder="CRM field name"
+          placeholderTextColor="rgba(255,255,255,0.4)"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      );
+    }
+
+    if (propertiesError) {
+      return <Text style={styles.errorText}>{propertiesError}</Text>;
+    }
+
+    if (!properties) {
+      return <Text style={styles.hintText}>Loading HubSpot properties...</Text>;
+    }
+
+    return (
+      <>
+        <TextInput
+          style={styles.textInput}
+          value={search}
+          onChangeText={setSearch}
+          placeholder={`Search ${properties.length} HubSpot properties`}
+          placeholderTextColor="rgba(255,255,255,0.4)"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {filteredProperties.map(property => (
+          <Pressable
+            key={property.name}
+            style={[styles.propertyRow, mapping?.crmField === property.name && styles.propertyRowSelected]}
+            onPress={() => updateMapping(field, { crmField: property.name })}
+          >
+            <View style={styles.propertyInfo}>
+              <Text style={styles.propertyLabel}>{property.label}</Text>
+              <Text style={styles.hintText}>{property.name} · {property.type}</Text>
+            </View>
+            {mapping?.crmField === property.name && <Check size={16} color="#10b981" />}
+          </Pressable>
+        ))}
+      </>
+    );
+  };
+
+  const renderFieldRow = ({ field, label }: { field: keyof Contact; label: string }) => {
+    const mapping = getMapping(field);
+    const isExpanded = expandedField === field;
+    const target = mapping?.crmField
+      ? getPropertyLabel(mapping.crmField) || mapping.crmField
+      : 'Not mapped';
+
+    return (
+      <View key={field} style={[styles.fieldRow, isExpanded && styles.fieldRowExpanded]}>
+        <Pressable style={styles.fieldHeader} onPress={() => toggleExpanded(field)}>
+          <View style={styles.propertyInfo}>
+            <Text style={styles.fieldLabel}>{label}</Text>
+            <Text style={mapping?.crmField ? styles.targetText : styles.hintText} numberOfLines={1}>
+              → {target}
+              {mapping?.isRequired ? ' · required' : ''}
+              {mapping?.transform && mapping.transform !== 'none' ? ` · ${mapping.transform}` : ''}
+            </Text>
+          </View>
+        </Pressable>
+
+        {isExpanded && (
+          <View style={styles.fieldEditor}>
+            {renderTargetPicker(field, mapping)}
+
+            <View style={styles.chipRow}>
+              {TRANSFORMS.map(transform => {
+                const isSelected = (mapping?.transform || 'none') === transform.value;
+                return (
+                  <Pressable
+                    key={transform.value}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => updateMapping(field, { transform: transform.value })}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{transform.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={styles.hintText}>Required - pushes without a value are rejected</Text>
+              <Switch
+                value={!!mapping?.isRequired}
+                onValueChange={(value) => updateMapping(field, { isRequired: value })}
+                disabled={!mapping?.crmField}
+                trackColor={{ false: 'rgba(255,255,255,0.2)', true: 'rgba(59, 130, 246, 0.6)' }}
+                thumbColor={mapping?.isRequired ? '#3b82f6' : 'rgba(255,255,255,0.8)'}
+              />
+            </View>
+
+            {mapping && (
+              <Pressable onPress={() => removeMapping(field)}>
+                <Text style={styles.removeText}>Do not map this field</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      <Text style={styles.title}>Field Mappings</Text>
+      <Text style={styles.subtitle}>
+        Choose where each contact field goes in {connection.name}
+      </Text>
+
+      {CONTACT_FIELDS.map(renderFieldRow)}
+
+      <Text style={styles.sectionTitle}>Preview</Text>
+      <Text style={styles.hintText}>Payload for a sample contact, {SAMPLE_CONTACT.name}</Text>
+      <View style={styles.previewBox}>
+        <Text style={styles.previewText}>{JSON.stringify(preview.fields, null, 2)}</Text>
+      </View>
+      {preview.missingRequired.length > 0 && (
+        <Text style={styles.errorText}>
+          Missing required fields: {preview.missingRequired.map(mapping => mapping.localField).join(', ')}
+        </Text>
+      )}
+      {duplicateCrmFields.length > 0 && (
+        <Text style={styles.errorText}>Mapped more than once: {duplicateCrmFields.join(', ')}</Text>
+      )}
+
+      <View style={styles.buttonGroup}>
+        <Pressable style={styles.secondaryButton} onPress={onCancel} disabled={isSaving}>
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          <Text style={styles.primaryButtonText}>{isSaving ? 'Saving...' : 'Save'}</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  fieldRow: {
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  fieldRowExpanded: {
+    borderColor: 'rgba(59, 130, 246, 0.5)',
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: 'rgba(255,255,255,0.9)',
+    marginBottom: 2,
+  },
+  targetText: {
+    fontSize: 12,
+    color: '#93c5fd',
+  },
+  hintText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#fca5a5',
+    marginTop: 8,
+  },
+  fieldEditor: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  textInput: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: 'white',
+    fontSize: 14,
+  },
+  propertyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.03)',
+  },
+  propertyRowSelected: {
+    backgroundColor: 'rgba(16, 185, 129, 0.1)',
+  },
+  propertyInfo: {
+    flex: 1,
+  },
+  propertyLabel: {
+    fontSize: 14,
+    color: 'white',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    borderColor: 'rgba(59, 130, 246, 0.5)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  chipTextSelected: {
+    color: '#93c5fd',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  removeText: {
+    fontSize: 13,
+    color: '#f87171',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  previewBox: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  previewText: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: 'rgba(255,255,255,0.85)',
+  },
+  buttonGroup: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    borderColor: 'rgba(59, 130, 246, 0.5)',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderColor: 'rgba(255,255,255,0.2)',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#93c5fd',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
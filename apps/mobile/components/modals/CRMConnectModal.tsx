@@ -14,9 +14,14 @@ import {
 import Animated, { FadeIn, SlideInDown } from 'react-native-reanimated';
 import { X, ExternalLink, Check, Loader2 } from 'lucide-react-native';
 import { GlassCard } from '../ui/GlassCard';
-import type { CRMProvider, CRMConnection } from '../../types/crm';
-import { crmService } from '../../services/crmService';
+import { FieldMappingEditor } from '../forms/FieldMappingEditor';
+import type { CRMProvider, CRMConnection, WebhookContactEvent, WebhookDelivery } from '../../types/crm';
+import type { ConflictPolicy } from '../../types/contact';
+import { crmService, getDefaultFieldMappings } from '../../services/crmService';
+import { DEFAULT_PAYLOAD_TEMPLATE, WEBHOOK_CONTACT_EVENTS, parsePayloadTemplate } from '../../services/webhookConnector';
 import { hubspotAuthService } from '../../services/hubspotAuth';
+import { hubspotSyncService } from '../../services/hubspotSync';
+import { salesforceAuthService } from '../../services/salesforceAuth';
 import { useAuth } from '../../contexts/AuthContext';
 import { devLog, devError } from '../../utils/logger';
 
@@ -42,8 +47,26 @@ type FormData = {
   // Webhook
   webhookUrl: string;
   webhookHeaders: string; // JSON string
+  webhookSecret: string;
+  webhookPayloadTemplate: string;
+  webhookEvents: WebhookContactEvent[];
 };
 
+const webhookEventLabels: Record<WebhookContactEvent, string> = {
+  'contact.created': 'Contact created',
+  'contact.updated': 'Contact updated',
+  'contact.deleted': 'Contact deleted',
+  'contact.pushed': 'Manual push',
+};
+
+// What happens when a field changed in HubSpot was also edited in the app since the last sync
+const conflictPolicyOptions: { value: ConflictPolicy; label: string }[] = [
+  { value: 'newest_wins', label: 'Newest wins' },
+  { value: 'hubspot_wins', label: 'HubSpot wins' },
+  { value: 'mobile_wins', label: 'App wins' },
+  { value: 'manual', label: 'Ask me' },
+];
+
 const providerInfo = {
   hubspot: {
     name: 'HubSpot',
@@ -55,7 +78,7 @@ const providerInfo = {
     name: 'Salesforce',
     description: 'Integrate with Salesforce to manage leads and customer relationships.',
     setupUrl: 'https://help.salesforce.com/s/articleView?id=sf.connected_app_create.htm',
-    supportsOAuth: false,
+    supportsOAuth: true,
   },
   pipedrive: {
     name: 'Pipedrive',
@@ -74,11 +97,18 @@ const providerInfo = {
 export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModalProps) {
 
   // All hooks must be called before any early returns
-  const [step, setStep] = useState<'select' | 'configure' | 'oauth' | 'test'>('select');
+  const [step, setStep] = useState<'select' | 'configure' | 'oauth' | 'test' | 'deliveries' | 'mappings'>('select');
   const [isLoading, setIsLoading] = useState(false);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
   const [hubspotConnection, setHubspotConnection] = useState<CRMConnection | null>(null);
+  const [salesforceConnection, setSalesforceConnection] = useState<CRMConnection | null>(null);
+  const [pipedriveConnection, setPipedriveConnection] = useState<CRMConnection | null>(null);
+  const [webhookConnections, setWebhookConnections] = useState<CRMConnection[]>([]);
+  const [selectedWebhook, setSelectedWebhook] = useState<CRMConnection | null>(null);
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+  const [mappingConnection, setMappingConnection] = useState<CRMConnection | null>(null);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('newest_wins');
   const { user } = useAuth();
   
   const [formData, setFormData] = useState<FormData>({
@@ -93,20 +123,42 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
     pipedriveDomain: '',
     webhookUrl: '',
     webhookHeaders: '{}',
+    webhookSecret: '',
+    webhookPayloadTemplate: DEFAULT_PAYLOAD_TEMPLATE,
+    webhookEvents: [...WEBHOOK_CONTACT_EVENTS],
   });
 
   // Initialize HubSpot auth service and check for existing connection when component mounts
   useEffect(() => {
     if (visible && user?.deviceId) {
       hubspotAuthService.initialize(user.deviceId);
+      salesforceAuthService.initialize(user.deviceId);
       // Initialize CRM service and check for existing HubSpot connection
       crmService.initialize().then(() => {
         const existingConnection = crmService.getHubSpotConnection();
         setHubspotConnection(existingConnection);
+        setSalesforceConnection(
+          crmService.getActiveConnections().find(conn => conn.provider === 'salesforce') || null
+        );
+        setPipedriveConnection(
+          crmService.getActiveConnections().find(conn => conn.provider === 'pipedrive') || null
+        );
+        setWebhookConnections(crmService.getConnections().filter(conn => conn.provider === 'webhook'));
       });
+      hubspotSyncService.loadConflictPolicy().then(setConflictPolicy);
     }
   }, [visible, user?.deviceId]);
 
+  const handleConflictPolicyChange = (policy: ConflictPolicy) => {
+    const previous = conflictPolicy;
+    setConflictPolicy(policy);
+    hubspotSyncService.setConflictPolicy(policy).catch((error) => {
+      devError('Failed to save conflict policy:', error instanceof Error ? error : new Error(String(error)));
+      setConflictPolicy(previous);
+      Alert.alert('Could not save', 'The conflict setting could not be saved. Please try again.');
+    });
+  };
+
   // Set up deep link listener for OAuth callback
   useEffect(() => {
     if (!visible) return;
@@ -115,6 +167,8 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
       devLog('Received deep link:', url);
       if (url.startsWith('circles://hubspot-auth-callback')) {
         handleHubSpotCallback(url);
+      } else if (url.startsWith('circles://salesforce-auth-callback')) {
+        handleSalesforceCallback(url);
       }
     };
 
@@ -126,8 +180,8 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
   const handleProviderSelect = (provider: CRMProvider) => {
     setFormData(prev => ({ ...prev, provider, name: providerInfo[provider].name }));
 
-    // For HubSpot, go directly to OAuth flow
-    if (provider === 'hubspot' && providerInfo[provider].supportsOAuth) {
+    // OAuth providers go directly to the OAuth flow
+    if (providerInfo[provider].supportsOAuth) {
       setStep('oauth');
     } else {
       setStep('configure');
@@ -197,6 +251,70 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
     }
   };
 
+  const handleSalesforceOAuth = async () => {
+    if (!user?.deviceId) {
+      Alert.alert('Error', 'User device ID not available');
+      return;
+    }
+
+    setIsAuthenticating(true);
+    try {
+      const authResponse = await salesforceAuthService.startOAuthFlow();
+      await salesforceAuthService.openAuthUrl(authResponse.authUrl);
+
+      // Keep authentication state active - user will return via deep link
+      devLog('Salesforce OAuth URL opened, waiting for callback...');
+    } catch (error) {
+      setIsAuthenticating(false);
+      devError('Salesforce OAuth error:', error instanceof Error ? error : new Error(String(error)));
+      Alert.alert(
+        'Connection Failed',
+        error instanceof Error ? error.message : 'Failed to start Salesforce connection'
+      );
+    }
+  };
+
+  const handleSalesforceCallback = async (url: string) => {
+    try {
+      devLog('Processing Salesforce OAuth callback...');
+
+      const tokens = await salesforceAuthService.handleAuthCallback(url);
+
+      const connection: Omit<CRMConnection, 'id' | 'createdAt'> = {
+        provider: 'salesforce',
+        name: 'Salesforce',
+        isActive: true,
+        credentials: {
+          salesforceAccessToken: tokens.accessToken,
+          salesforceInstanceUrl: tokens.instanceUrl,
+        },
+        fieldMappings: getDefaultFieldMappings('salesforce'),
+        metadata: {
+          salesforceOrgId: tokens.organizationId,
+          salesforceUserId: tokens.userId,
+        },
+      };
+
+      const connectionId = await crmService.addConnection(connection, user?.id);
+      const fullConnection = crmService.getConnections().find(c => c.id === connectionId);
+
+      if (fullConnection) {
+        setIsAuthenticating(false);
+        setSalesforceConnection(fullConnection);
+        onSuccess(fullConnection);
+        Alert.alert('Success!', `Connected to ${tokens.instanceUrl.replace(/^https?:\/\//, '')}`);
+        onClose();
+      }
+    } catch (error) {
+      setIsAuthenticating(false);
+      devError('Salesforce callback error:', error instanceof Error ? error : new Error(String(error)));
+      Alert.alert(
+        'Connection Failed',
+        error instanceof Error ? error.message : 'Failed to complete Salesforce connection'
+      );
+    }
+  };
+
   const handleDisconnect = async () => {
     if (!hubspotConnection) return;
 
@@ -256,9 +374,46 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
     );
   };
 
+  const handleViewDeliveries = async (connection: CRMConnection) => {
+    setSelectedWebhook(connection);
+    setWebhookDeliveries(await crmService.getWebhookDeliveries(connection.id));
+    setStep('deliveries');
+  };
+
+  const handleEditMappings = (connection: CRMConnection) => {
+    setMappingConnection(connection);
+    setStep('mappings');
+  };
+
+  const handleMappingsSaved = (connection: CRMConnection) => {
+    if (connection.provider === 'hubspot') setHubspotConnection(connection);
+    if (connection.provider === 'salesforce') setSalesforceConnection(connection);
+    if (connection.provider === 'pipedrive') setPipedriveConnection(connection);
+    if (connection.provider === 'webhook') {
+      setWebhookConnections(prev => prev.map(existing => existing.id === connection.id ? connection : existing));
+    }
+    setMappingConnection(null);
+    setStep('select');
+    Alert.alert('Saved', `Field mappings updated for ${connection.name}`);
+  };
+
+  const toggleWebhookEvent = (event: WebhookContactEvent) => {
+    setFormData(prev => ({
+      ...prev,
+      webhookEvents: prev.webhookEvents.includes(event)
+        ? prev.webhookEvents.filter(existing => existing !== event)
+        : [...prev.webhookEvents, event],
+    }));
+  };
+
   const handleTest = async () => {
     setIsLoading(true);
     try {
+      if (formData.provider === 'webhook') {
+        // Surface template mistakes here rather than as failed deliveries later
+        parsePayloadTemplate(formData.webhookPayloadTemplate);
+      }
+
       const connection: Omit<CRMConnection, 'id' | 'createdAt'> = {
         provider: formData.provider,
         name: formData.name,
@@ -272,14 +427,24 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
           pipedriveDomain: formData.pipedriveDomain,
           webhookUrl: formData.webhookUrl,
           webhookHeaders: formData.webhookHeaders ? JSON.parse(formData.webhookHeaders) : {},
+          webhookSecret: formData.webhookSecret || undefined,
         },
         fieldMappings: getDefaultFieldMappings(formData.provider),
+        ...(formData.provider === 'webhook' && {
+          webhookSettings: {
+            events: formData.webhookEvents,
+            payloadTemplate: formData.webhookPayloadTemplate,
+          },
+        }),
       };
 
       const connectionId = await crmService.addConnection(connection, user?.id);
       const fullConnection = crmService.getConnections().find(c => c.id === connectionId);
       
       if (fullConnection) {
+        if (fullConnection.provider === 'webhook') {
+          setWebhookConnections(prev => [...prev, fullConnection]);
+        }
         onSuccess(fullConnection);
         Alert.alert('Success!', 'CRM connection established successfully.');
         onClose();
@@ -292,9 +457,9 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
 
   const renderProviderSelection = () => (
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
-        <Text style={styles.title}>HubSpot CRM</Text>
+        <Text style={styles.title}>CRM Connections</Text>
         <Text style={styles.subtitle}>
-          Connect your HubSpot account to sync your professional contacts
+          Connect HubSpot, Salesforce, Pipedrive or your own webhook to sync your professional contacts
         </Text>
 
       {/* HubSpot Connection Card */}
@@ -367,6 +532,205 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
           </Pressable>
         </View>
       )}
+      {hubspotConnection && (
+        <Pressable style={styles.mappingsLink} onPress={() => handleEditMappings(hubspotConnection)}>
+          <Text style={styles.smallButtonText}>Field Mappings</Text>
+        </Pressable>
+      )}
+      {hubspotConnection && (
+        <View style={styles.conflictPolicy}>
+          <Text style={styles.fieldLabel}>When a field changes in both places</Text>
+          <View style={styles.policyRow}>
+            {conflictPolicyOptions.map(option => (
+              <Pressable
+                key={option.value}
+                style={[styles.policyChip, conflictPolicy === option.value && styles.policyChipActive]}
+                onPress={() => handleConflictPolicyChange(option.value)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: conflictPolicy === option.value }}
+              >
+                <Text style={styles.policyChipText}>{option.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={styles.fieldHint}>
+            Ask me keeps your value and lists the HubSpot change on the contact for you to decide.
+          </Text>
+        </View>
+      )}
+
+      {/* Salesforce Connection Card */}
+      <Pressable
+        style={[
+          styles.providerCard,
+          salesforceConnection && styles.providerCardAuthenticated
+        ]}
+        onPress={() => salesforceConnection ? null : handleProviderSelect('salesforce')}
+        disabled={!!salesforceConnection}
+      >
+        <View style={styles.providerInfo}>
+          <View style={styles.providerHeader}>
+            <Text style={styles.providerName}>Salesforce</Text>
+            {salesforceConnection && (
+              <View style={styles.authenticatedBadge}>
+                <Check size={14} color="#10b981" />
+                <Text style={styles.authenticatedText}>Connected</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.providerDescription}>
+            {salesforceConnection
+              ? `Connected to ${salesforceConnection.credentials.salesforceInstanceUrl?.replace(/^https?:\/\//, '') || 'Salesforce'}`
+              : providerInfo.salesforce.description
+            }
+          </Text>
+        </View>
+        <View style={styles.providerIcon}>
+          {salesforceConnection ? (
+            <Check size={20} color="#10b981" />
+          ) : (
+            <ExternalLink size={20} color="rgba(255,255,255,0.6)" />
+          )}
+        </View>
+      </Pressable>
+
+      {salesforceConnection && (
+        <View style={styles.authenticatedActions}>
+          <Pressable style={styles.secondaryButton} onPress={() => handleEditMappings(salesforceConnection)}>
+            <Text style={styles.secondaryButtonText}>Field Mappings</Text>
+          </Pressable>
+          <Pressable
+            style={styles.primaryButton}
+            onPress={() => {
+              onSuccess(salesforceConnection);
+              onClose();
+            }}
+          >
+            <Text style={styles.primaryButtonText}>Use Connection</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {/* Pipedrive Connection Card */}
+      <Pressable
+        style={[
+          styles.providerCard,
+          pipedriveConnection && styles.providerCardAuthenticated
+        ]}
+        onPress={() => pipedriveConnection ? null : handleProviderSelect('pipedrive')}
+        disabled={!!pipedriveConnection}
+      >
+        <View style={styles.providerInfo}>
+          <View style={styles.providerHeader}>
+            <Text style={styles.providerName}>Pipedrive</Text>
+            {pipedriveConnection && (
+              <View style={styles.authenticatedBadge}>
+                <Check size={14} color="#10b981" />
+                <Text style={styles.authenticatedText}>Connected</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.providerDescription}>
+            {pipedriveConnection
+              ? `Connected to ${pipedriveConnection.credentials.pipedriveDomain}`
+              : providerInfo.pipedrive.description
+            }
+          </Text>
+        </View>
+        <View style={styles.providerIcon}>
+          {pipedriveConnection ? (
+            <Check size={20} color="#10b981" />
+          ) : (
+            <ExternalLink size={20} color="rgba(255,255,255,0.6)" />
+          )}
+        </View>
+      </Pressable>
+
+      {pipedriveConnection && (
+        <View style={styles.authenticatedActions}>
+          <Pressable style={styles.secondaryButton} onPress={() => handleEditMappings(pipedriveConnection)}>
+            <Text style={styles.secondaryButtonText}>Field Mappings</Text>
+          </Pressable>
+          <Pressable
+            style={styles.primaryButton}
+            onPress={() => {
+              onSuccess(pipedriveConnection);
+              onClose();
+            }}
+          >
+            <Text style={styles.primaryButtonText}>Use Connection</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {/* Webhook Card - several endpoints can be connected */}
+      <Pressable style={styles.providerCard} onPress={() => handleProviderSelect('webhook')}>
+        <View style={styles.providerInfo}>
+          <Text style={styles.providerName}>{providerInfo.webhook.name}</Text>
+          <Text style={styles.providerDescription}>{providerInfo.webhook.description}</Text>
+        </View>
+        <View style={styles.providerIcon}>
+          <ExternalLink size={20} color="rgba(255,255,255,0.6)" />
+        </View>
+      </Pressable>
+
+      {webhookConnections.map(connection => (
+        <View key={connection.id} style={styles.webhookRow}>
+          <View style={styles.providerInfo}>
+            <Text style={styles.providerName}>{connection.name}</Text>
+            <Text style={styles.connectionDetails} numberOfLines={1}>
+              {connection.credentials.webhookUrl}
+            </Text>
+          </View>
+          <Pressable style={styles.smallButton} onPress={() => handleEditMappings(connection)}>
+            <Text style={styles.smallButtonText}>Mappings</Text>
+          </Pressable>
+          <Pressable style={styles.smallButton} onPress={() => handleViewDeliveries(connection)}>
+            <Text style={styles.smallButtonText}>Delivery Log</Text>
+          </Pressable>
+        </View>
+      ))}
+    </ScrollView>
+  );
+
+  const renderDeliveryLog = () => (
+    <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      <Text style={styles.title}>Delivery Log</Text>
+      <Text style={styles.subtitle}>
+        {selectedWebhook?.name}: last {webhookDeliveries.length} deliveries to {selectedWebhook?.credentials.webhookUrl}
+      </Text>
+
+      {webhookDeliveries.length === 0 && (
+        <Text style={styles.providerDescription}>No events have been sent to this webhook yet.</Text>
+      )}
+
+      {webhookDeliveries.map(delivery => (
+        <View key={delivery.id} style={styles.deliveryRow}>
+          <View style={styles.providerHeader}>
+            <Text style={styles.deliveryEvent}>{delivery.event}</Text>
+            <Text style={delivery.status === 'delivered' ? styles.deliveryDelivered : styles.deliveryFailed}>
+              {delivery.status === 'delivered' ? 'Delivered' : 'Failed'}
+            </Text>
+          </View>
+          <Text style={styles.connectionDetails}>
+            {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+            {delivery.responseStatus ? ` · HTTP ${delivery.responseStatus}` : ''} · {delivery.durationMs}ms
+          </Text>
+          {delivery.error && <Text style={styles.deliveryError}>{delivery.error}</Text>}
+        </View>
+      ))}
+
+      <View style={styles.buttonGroup}>
+        <Pressable style={styles.secondaryButton} onPress={() => setStep('select')}>
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </Pressable>
+        <Pressable
+          style={styles.primaryButton}
+          onPress={() => selectedWebhook && handleViewDeliveries(selectedWebhook)}
+        >
+          <Text style={styles.primaryButtonText}>Refresh</Text>
+        </Pressable>
+      </View>
     </ScrollView>
   );
 
@@ -391,7 +755,7 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
 
           <Pressable
             style={[styles.oauthButton, isAuthenticating && styles.buttonDisabled]}
-            onPress={handleHubSpotOAuth}
+            onPress={formData.provider === 'salesforce' ? handleSalesforceOAuth : handleHubSpotOAuth}
             disabled={isAuthenticating}
           >
             {isAuthenticating ? (
@@ -501,6 +865,102 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
             </>
           )}
 
+          {formData.provider === 'pipedrive' && (
+            <>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Company Domain</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.pipedriveDomain}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, pipedriveDomain: text }))}
+                  placeholder="yourcompany (from yourcompany.pipedrive.com)"
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  autoCapitalize="none"
+                />
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>API Token</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.pipedriveApiToken}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, pipedriveApiToken: text }))}
+                  placeholder="Personal API token..."
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  secureTextEntry
+                />
+              </View>
+            </>
+          )}
+
+          {formData.provider === 'webhook' && (
+            <>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Webhook URL</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.webhookUrl}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, webhookUrl: text }))}
+                  placeholder="https://hooks.example.com/contacts"
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  autoCapitalize="none"
+                  keyboardType="url"
+                />
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Signing Secret</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.webhookSecret}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, webhookSecret: text }))}
+                  placeholder="Optional, signs requests with HMAC-SHA256"
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  autoCapitalize="none"
+                  secureTextEntry
+                />
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Headers (JSON)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.webhookHeaders}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, webhookHeaders: text }))}
+                  placeholder='{"Authorization": "Bearer ..."}'
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  autoCapitalize="none"
+                />
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Payload Template</Text>
+                <TextInput
+                  style={[styles.textInput, styles.templateInput]}
+                  value={formData.webhookPayloadTemplate}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, webhookPayloadTemplate: text }))}
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                />
+                <Text style={styles.fieldHint}>
+                  JSON with placeholders such as {'{{event}}'}, {'{{contact}}'} or {'{{contact.company}}'}
+                </Text>
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Events</Text>
+                {WEBHOOK_CONTACT_EVENTS.map(event => (
+                  <View key={event} style={styles.switchGroup}>
+                    <Text style={styles.providerDescription}>{webhookEventLabels[event]}</Text>
+                    <Switch
+                      value={formData.webhookEvents.includes(event)}
+                      onValueChange={() => toggleWebhookEvent(event)}
+                      trackColor={{ false: 'rgba(255,255,255,0.2)', true: 'rgba(59, 130, 246, 0.6)' }}
+                      thumbColor={formData.webhookEvents.includes(event) ? '#3b82f6' : 'rgba(255,255,255,0.8)'}
+                    />
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
           <View style={styles.switchGroup}>
             <Text style={styles.fieldLabel}>Active Connection</Text>
             <Switch
@@ -549,23 +1009,20 @@ export function CRMConnectModal({ visible, onClose, onSuccess }: CRMConnectModal
           {step === 'select' && renderProviderSelection()}
           {step === 'oauth' && renderOAuthFlow()}
           {step === 'configure' && renderConfiguration()}
+          {step === 'deliveries' && renderDeliveryLog()}
+          {step === 'mappings' && mappingConnection && (
+            <FieldMappingEditor
+              connection={mappingConnection}
+              onSaved={handleMappingsSaved}
+              onCancel={() => setStep('select')}
+            />
+          )}
         </GlassCard>
       </Animated.View>
     </View>
   );
 }
 
-function getDefaultFieldMappings(provider: CRMProvider) {
-  // Return default field mappings based on provider
-  const mappings = [
-    { localField: 'name' as keyof any, crmField: 'name', isRequired: true, transform: 'none' as const },
-    { localField: 'company' as keyof any, crmField: 'company', isRequired: false, transform: 'none' as const },
-    { localField: 'title' as keyof any, crmField: 'title', isRequired: false, transform: 'none' as const },
-  ];
-
-  return mappings;
-}
-
 const styles = StyleSheet.create({
   overlay: {
     position: 'absolute',
@@ -720,6 +1177,97 @@ const styles = StyleSheet.create({
     color: 'white',
     fontSize: 16,
   },
+  templateInput: {
+    minHeight: 140,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+  fieldHint: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  webhookRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.03)',
+    gap: 12,
+  },
+  smallButton: {
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    borderColor: 'rgba(59, 130, 246, 0.5)',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  mappingsLink: {
+    alignSelf: 'center',
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  conflictPolicy: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  policyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  policyChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.15)',
+  },
+  policyChipActive: {
+    backgroundColor: 'rgba(59,130,246,0.35)',
+    borderColor: '#93c5fd',
+  },
+  policyChipText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  smallButtonText: {
+    color: '#93c5fd',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deliveryRow: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  deliveryEvent: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deliveryDelivered: {
+    color: '#10b981',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  deliveryFailed: {
+    color: '#f87171',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  deliveryError: {
+    color: '#fca5a5',
+    fontSize: 12,
+    marginTop: 4,
+  },
   switchGroup: {
     flexDirection: 'row',
     justifyContent: 'space-between',
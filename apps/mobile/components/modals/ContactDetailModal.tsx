@@ -12,8 +12,26 @@ import {
   Tag as TagIcon,
   Calendar,
   Trash2,
+  AlertTriangle,
+  Plus,
+  Lock,
+  Unlock,
+  Bell,
 } from 'lucide-react-native';
-import { Contact } from '../../types/contact';
+import { Contact, FieldConflict, Interaction, SyncableField } from '../../types/contact';
+import { FIELD_LABELS } from '../../services/conflictResolution';
+import { interactionTypeLabel, todayDate } from '../../utils/interactions';
+import { strengthFromScore, type ConnectionStrengthLevel, type ScoreFactor } from '../../utils/connection-strength';
+import { SNOOZE_OPTIONS, cadenceLabel, daysBetween, describeFollowup, followupStatus } from '../../utils/followups';
+
+const STRENGTH_LEVELS: ConnectionStrengthLevel[] = ['Strong', 'Medium', 'Weak'];
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  recency: 'Recency',
+  frequency: 'Frequency',
+  type: 'Interaction type',
+  reciprocity: 'Reciprocity',
+};
 
 interface ContactDetailModalProps {
   contact: Contact | null;
@@ -23,6 +41,16 @@ interface ContactDetailModalProps {
   onDelete: () => void;
   onStar: () => void;
   onContactUpdate?: (updatedContact: Contact) => void;
+  onResolveConflict?: (field: SyncableField, choice: 'local' | 'remote') => void;
+  /** This contact's logged interactions, newest first */
+  interactions?: Interaction[];
+  onLogInteraction?: () => void;
+  onDeleteInteraction?: (interactionId: string) => void;
+  /** Set the level by hand (locking it), or pass locked false to follow the score again */
+  onSetConnectionStrength?: (strength: ConnectionStrengthLevel | null, locked: boolean) => void;
+  onEditFollowup?: () => void;
+  onCompleteFollowup?: () => void;
+  onSnoozeFollowup?: (days: number) => void;
 }
 
 export function ContactDetailModal({ 
@@ -32,7 +60,15 @@ export function ContactDetailModal({
   onEdit, 
   onDelete, 
   onStar,
-  onContactUpdate
+  onContactUpdate,
+  onResolveConflict,
+  interactions = [],
+  onLogInteraction,
+  onDeleteInteraction,
+  onSetConnectionStrength,
+  onEditFollowup,
+  onCompleteFollowup,
+  onSnoozeFollowup
 }: ContactDetailModalProps) {
   if (!contact || !visible) return null;
 
@@ -40,6 +76,52 @@ export function ContactDetailModal({
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
   };
 
+  const formatConflictValue = (value: FieldConflict['localValue']) => {
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    return value || '—';
+  };
+
+  // Interaction dates are calendar days, so read them as local dates rather than UTC
+  const formatDate = (value: string | number) => {
+    const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00`)
+      : new Date(value);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const confirmDeleteInteraction = (interaction: Interaction) => {
+    if (!onDeleteInteraction) return;
+    Alert.alert(
+      'Delete Interaction',
+      `Remove this ${interactionTypeLabel(interaction.type).toLowerCase()} from the timeline?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => onDeleteInteraction(interaction.id) },
+      ]
+    );
+  };
+
+  const confirmSnoozeFollowup = () => {
+    if (!onSnoozeFollowup) return;
+    Alert.alert(
+      'Snooze Follow-up',
+      'Remind me again:',
+      [
+        ...SNOOZE_OPTIONS.map((option) => ({ text: option.label, onPress: () => onSnoozeFollowup(option.days) })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const lastInteractionDate = contact.lastInteractionDate || contact.lastInteraction;
+  const today = todayDate();
+  const followup = followupStatus(contact, today);
+  const computedStrength = contact.connectionScore !== undefined ? strengthFromScore(contact.connectionScore) : undefined;
+
 
   return (
     <Modal
@@ -125,6 +207,57 @@ export function ContactDetailModal({
               )}
             </View>
 
+            {/* Sync Conflicts */}
+            {contact.syncConflicts && contact.syncConflicts.length > 0 && (
+              <View style={styles.detailSection}>
+                <View style={styles.conflictHeader}>
+                  <AlertTriangle size={16} color="rgba(245, 158, 11, 0.9)" />
+                  <Text style={[styles.sectionTitle, styles.conflictTitle]}>Sync Conflicts</Text>
+                </View>
+                <View style={styles.identifiersGrid}>
+                  {contact.syncConflicts.map((conflict) => (
+                    <View key={conflict.field} style={styles.conflictCard}>
+                      <Text style={styles.identifierLabel}>{FIELD_LABELS[conflict.field]}</Text>
+                      <View style={styles.conflictValues}>
+                        <View style={styles.conflictValue}>
+                          <Text style={styles.conflictSource}>This device</Text>
+                          <Text style={styles.identifierValue}>{formatConflictValue(conflict.localValue)}</Text>
+                        </View>
+                        <View style={styles.conflictValue}>
+                          <Text style={styles.conflictSource}>HubSpot</Text>
+                          <Text style={styles.identifierValue}>{formatConflictValue(conflict.remoteValue)}</Text>
+                        </View>
+                      </View>
+                      {onResolveConflict && (
+                        <View style={styles.conflictActions}>
+                          <Pressable
+                            onPress={() => onResolveConflict(conflict.field, 'local')}
+                            style={[styles.conflictButton, styles.keepLocalButton]}
+                            accessible={true}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Keep my ${FIELD_LABELS[conflict.field]}`}
+                            accessibilityHint="Keeps the value on this device and sends it to HubSpot"
+                          >
+                            <Text style={styles.conflictButtonText}>Keep mine</Text>
+                          </Pressable>
+                          <Pressable
+                            onPress={() => onResolveConflict(conflict.field, 'remote')}
+                            style={[styles.conflictButton, styles.useRemoteButton]}
+                            accessible={true}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Use HubSpot ${FIELD_LABELS[conflict.field]}`}
+                            accessibilityHint="Replaces the value on this device with the one from HubSpot"
+                          >
+                            <Text style={styles.conflictButtonText}>Use HubSpot</Text>
+                          </Pressable>
+                        </View>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
             {/* Contact Information */}
             {contact.identifiers?.length > 0 && (
               <View style={styles.detailSection}>
@@ -193,19 +326,196 @@ export function ContactDetailModal({
               </View>
             )}
 
+            {/* Follow-up */}
+            <View style={styles.detailSection}>
+              <View style={styles.sectionHeaderRow}>
+                <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Follow-up</Text>
+                {onEditFollowup && (
+                  <Pressable
+                    onPress={onEditFollowup}
+                    style={styles.logButton}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={contact.nextFollowupDate ? 'Change follow-up' : 'Set follow-up'}
+                    accessibilityHint="Choose when to get back in touch and how often"
+                  >
+                    {contact.nextFollowupDate ? <Bell size={14} color="white" /> : <Plus size={14} color="white" />}
+                    <Text style={styles.logButtonText}>{contact.nextFollowupDate ? 'Change' : 'Set'}</Text>
+                  </Pressable>
+                )}
+              </View>
+              <View style={styles.interactionRow}>
+                <Bell size={16} color={followup === 'overdue' ? 'rgba(248, 113, 113, 1)' : 'rgba(255,255,255,0.7)'} />
+                <Text style={[styles.interactionText, followup === 'overdue' && styles.followupOverdueText]}>
+                  {contact.nextFollowupDate && followup
+                    ? `${formatDate(contact.nextFollowupDate)} · ${describeFollowup({
+                        status: followup,
+                        daysOverdue: daysBetween(contact.nextFollowupDate, today),
+                      })}`
+                    : 'No follow-up set'}
+                </Text>
+              </View>
+              {!!contact.followupCadenceDays && (
+                <Text style={styles.followupCadenceText}>{cadenceLabel(contact.followupCadenceDays)}</Text>
+              )}
+              {(followup === 'due' || followup === 'overdue') && (onCompleteFollowup || onSnoozeFollowup) && (
+                <View style={styles.followupActions}>
+                  {onCompleteFollowup && (
+                    <Pressable
+                      onPress={onCompleteFollowup}
+                      style={[styles.followupButton, styles.followupDoneButton]}
+                      accessible={true}
+                      accessibilityRole="button"
+                      accessibilityLabel="Mark follow-up done"
+                      accessibilityHint={contact.followupCadenceDays
+                        ? 'Schedules the next follow-up'
+                        : 'Removes the follow-up'}
+                    >
+                      <Text style={styles.followupButtonText}>Done</Text>
+                    </Pressable>
+                  )}
+                  {onSnoozeFollowup && (
+                    <Pressable
+                      onPress={confirmSnoozeFollowup}
+                      style={styles.followupButton}
+                      accessible={true}
+                      accessibilityRole="button"
+                      accessibilityLabel="Snooze follow-up"
+                    >
+                      <Text style={styles.followupButtonText}>Snooze</Text>
+                    </Pressable>
+                  )}
+                </View>
+              )}
+            </View>
+
+            {/* Connection Strength */}
+            <View style={styles.detailSection}>
+              <View style={styles.sectionHeaderRow}>
+                <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Connection Strength</Text>
+                {onSetConnectionStrength && (
+                  <Pressable
+                    onPress={() => onSetConnectionStrength(contact.connectionStrength || null, !contact.connectionStrengthLocked)}
+                    style={styles.lockButton}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={contact.connectionStrengthLocked ? 'Unlock connection strength' : 'Lock connection strength'}
+                    accessibilityHint={contact.connectionStrengthLocked
+                      ? 'Lets the strength follow the computed score again'
+                      : 'Keeps the current strength even when the score changes'}
+                  >
+                    {contact.connectionStrengthLocked
+                      ? <Lock size={16} color="rgba(251, 191, 36, 0.9)" />
+                      : <Unlock size={16} color="rgba(255,255,255,0.6)" />}
+                  </Pressable>
+                )}
+              </View>
+              <View style={styles.strengthRow}>
+                {STRENGTH_LEVELS.map((level) => {
+                  const selected = contact.connectionStrength === level;
+                  return (
+                    <Pressable
+                      key={level}
+                      disabled={!onSetConnectionStrength}
+                      onPress={() => onSetConnectionStrength?.(level, true)}
+                      style={[styles.strengthChip, selected && styles.strengthChipSelected]}
+                      accessible={true}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}
+                      accessibilityLabel={`Set connection strength to ${level}`}
+                    >
+                      <Text style={[styles.strengthChipText, selected && styles.strengthChipTextSelected]}>{level}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {contact.connectionScore !== undefined && (
+                <>
+                  <View style={styles.scoreBar}>
+                    <View style={[styles.scoreFill, { width: `${contact.connectionScore}%` }]} />
+                  </View>
+                  <Text style={styles.scoreText}>
+                    Score {contact.connectionScore}/100
+                    {contact.connectionStrengthLocked && computedStrength && computedStrength !== contact.connectionStrength
+                      ? ` · set by hand, interactions suggest ${computedStrength}`
+                      : contact.connectionStrengthLocked ? ' · set by hand' : ''}
+                  </Text>
+                  {(contact.connectionScoreFactors || []).map((factor) => (
+                    <View key={factor.factor} style={styles.factorRow}>
+                      <Text style={styles.factorLabel}>{FACTOR_LABELS[factor.factor]}</Text>
+                      <Text style={styles.factorDetail} numberOfLines={1}>{factor.detail}</Text>
+                      <Text style={styles.factorPoints}>{factor.points}/{factor.maxPoints}</Text>
+                    </View>
+                  ))}
+                  {!contact.connectionScoreFactors?.length && !!contact.connectionScoreExplanation && (
+                    <Text style={styles.factorDetail}>{contact.connectionScoreExplanation}</Text>
+                  )}
+                </>
+              )}
+            </View>
+
             {/* Interaction History */}
             <View style={styles.detailSection}>
-              <Text style={styles.sectionTitle}>Last Interaction</Text>
+              <View style={styles.sectionHeaderRow}>
+                <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Interactions</Text>
+                {onLogInteraction && (
+                  <Pressable
+                    onPress={onLogInteraction}
+                    style={styles.logButton}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel="Log interaction"
+                    accessibilityHint="Records a meeting, call or email with this contact"
+                  >
+                    <Plus size={14} color="white" />
+                    <Text style={styles.logButtonText}>Log</Text>
+                  </Pressable>
+                )}
+              </View>
               <View style={styles.interactionRow}>
                 <Calendar size={16} color="rgba(255,255,255,0.7)" />
                 <Text style={styles.interactionText}>
-                  {new Date(contact.lastInteraction).toLocaleDateString('en-US', {
-                    year: 'numeric',
-                    month: 'long',
-                    day: 'numeric'
-                  })}
+                  {lastInteractionDate ? `Last: ${formatDate(lastInteractionDate)}` : 'No interactions yet'}
+                  {contact.totalInteractions ? ` · ${contact.totalInteractions} total` : ''}
                 </Text>
               </View>
+              {interactions.map((interaction) => (
+                <Pressable
+                  key={interaction.id}
+                  onLongPress={() => confirmDeleteInteraction(interaction)}
+                  style={styles.timelineItem}
+                  accessible={true}
+                  accessibilityLabel={`${interactionTypeLabel(interaction.type)} on ${formatDate(interaction.date)}`}
+                  accessibilityHint={onDeleteInteraction ? 'Long press to delete' : undefined}
+                >
+                  <View style={styles.timelineDot} />
+                  <View style={styles.timelineBody}>
+                    <View style={styles.timelineHeader}>
+                      <Text style={styles.timelineType}>{interactionTypeLabel(interaction.type)}</Text>
+                      <Text style={styles.timelineDate}>{formatDate(interaction.date)}</Text>
+                    </View>
+                    {!!(interaction.location || interaction.durationMinutes) && (
+                      <Text style={styles.timelineMeta}>
+                        {[interaction.location, interaction.durationMinutes ? `${interaction.durationMinutes} min` : null]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </Text>
+                    )}
+                    {!!interaction.notes && (
+                      <Text style={styles.timelineNotes}>{interaction.notes}</Text>
+                    )}
+                    {(interaction.followUpNeeded || interaction.syncStatus === 'pending' || interaction.syncStatus === 'failed') && (
+                      <Text style={styles.timelineStatus}>
+                        {[
+                          interaction.followUpNeeded ? 'Follow-up needed' : null,
+                          interaction.syncStatus === 'pending' ? 'Waiting to sync' : null,
+                          interaction.syncStatus === 'failed' ? 'Sync failed' : null,
+                        ].filter(Boolean).join(' · ')}
+                      </Text>
+                    )}
+                  </View>
+                </Pressable>
+              ))}
             </View>
           </ScrollView>
 
@@ -384,6 +694,60 @@ const styles = StyleSheet.create({
   identifiersGrid: {
     gap: 12,
   },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  conflictTitle: {
+    marginBottom: 0,
+  },
+  conflictCard: {
+    backgroundColor: 'rgba(245, 158, 11, 0.08)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.3)',
+  },
+  conflictValues: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  conflictValue: {
+    flex: 1,
+  },
+  conflictSource: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  conflictButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  keepLocalButton: {
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+    borderColor: 'rgba(59, 130, 246, 0.4)',
+  },
+  useRemoteButton: {
+    backgroundColor: 'rgba(255, 122, 89, 0.15)',
+    borderColor: 'rgba(255, 122, 89, 0.4)',
+  },
+  conflictButtonText: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   identifierCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -477,6 +841,175 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     fontSize: 14,
   },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionHeaderTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(34, 197, 94, 0.3)',
+    borderWidth: 1,
+    borderColor: 'rgba(34, 197, 94, 0.6)',
+  },
+  logButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  lockButton: {
+    padding: 6,
+  },
+  followupOverdueText: {
+    color: 'rgba(248, 113, 113, 1)',
+  },
+  followupCadenceText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 6,
+    marginLeft: 24,
+  },
+  followupActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  followupButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  followupDoneButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.3)',
+    borderColor: 'rgba(34, 197, 94, 0.6)',
+  },
+  followupButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  strengthRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  strengthChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  strengthChipSelected: {
+    borderColor: 'rgba(34, 197, 94, 0.8)',
+    backgroundColor: 'rgba(34, 197, 94, 0.2)',
+  },
+  strengthChipText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  strengthChipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  scoreBar: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  scoreFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  scoreText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 13,
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 6,
+  },
+  factorLabel: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '500',
+    width: 110,
+  },
+  factorDetail: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    flex: 1,
+  },
+  factorPoints: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 13,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 14,
+  },
+  timelineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 6,
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  timelineBody: {
+    flex: 1,
+  },
+  timelineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  timelineType: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  timelineDate: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+  },
+  timelineMeta: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  timelineNotes: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  timelineStatus: {
+    color: 'rgba(251, 191, 36, 0.9)',
+    fontSize: 12,
+    marginTop: 4,
+  },
   detailFooter: {
     paddingHorizontal: 20,
     paddingVertical: 20,
@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, StyleSheet } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import {
+  X as XIcon,
+  Check as CheckIcon,
+  ChevronLeft,
+} from 'lucide-react-native';
+import type { Contact, ImportedContact } from '../../types/contact';
+import {
+  CSV_IMPORT_FIELDS,
+  csvRowsToContacts,
+  detectFileFormat,
+  findImportDuplicates,
+  parseVCardFile,
+  readCsvImport,
+  type CsvImport,
+  type CsvImportField,
+} from '../../services/contactsFileService';
+
+interface ContactsFileImportModalProps {
+  /** Picked file, or null when closed */
+  file: { name: string; text: string } | null;
+  existingContacts: Contact[];
+  onClose: () => void;
+  onImport: (contacts: ImportedContact[]) => void;
+}
+
+type ImportStep = 'mapping' | 'preview';
+
+const SOURCE_LABELS: Record<CsvImport['source'], string> = {
+  linkedin: 'LinkedIn connections',
+  outlook: 'Outlook contacts',
+  google: 'Google contacts',
+  generic: 'CSV file',
+};
+
+export function ContactsFileImportModal({
+  file,
+  existingContacts,
+  onClose,
+  onImport,
+}: ContactsFileImportModalProps) {
+  const [csvImport, setCsvImport] = useState<CsvImport | null>(null);
+  const [vCardContacts, setVCardContacts] = useState<ImportedContact[]>([]);
+  const [mapping, setMapping] = useState<CsvImportField[]>([]);
+  const [step, setStep] = useState<ImportStep>('preview');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!file) return;
+
+    if (detectFileFormat(file.text, file.name) === 'vcard') {
+      setCsvImport(null);
+      setVCardContacts(parseVCardFile(file.text));
+      setStep('preview');
+    } else {
+      const parsed = readCsvImport(file.text);
+      setCsvImport(parsed);
+      setMapping(parsed.mapping);
+      setVCardContacts([]);
+      setStep('mapping');
+    }
+  }, [file]);
+
+  const candidates = useMemo(() => {
+    const contacts = csvImport ? csvRowsToContacts(csvImport.rows, mapping) : vCardContacts;
+    return findImportDuplicates(contacts, existingContacts);
+  }, [csvImport, mapping, vCardContacts, existingContacts]);
+
+  // Duplicates start unselected so importing twice doesn't double up contacts
+  useEffect(() => {
+    setSelected(new Set(candidates.filter(candidate => !candidate.duplicateOf).map(candidate => candidate.contact.id)));
+  }, [candidates]);
+
+  const hasName = mapping.includes('name') || mapping.includes('firstName') || mapping.includes('lastName');
+
+  const toggleContact = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    const contacts = candidates
+      .filter(candidate => selected.has(candidate.contact.id))
+      .map(candidate => candidate.contact);
+    if (contacts.length === 0) return;
+    onImport(contacts);
+    onClose();
+  };
+
+  const renderMapping = (current: CsvImport) => (
+    <>
+      <View style={styles.detailSection}>
+        <Text style={styles.sectionTitle}>{SOURCE_LABELS[current.source]}</Text>
+        <Text style={styles.hintText}>
+          {current.rows.length} row{current.rows.length !== 1 ? 's' : ''}. Choose what each column holds.
+        </Text>
+      </View>
+      {current.headers.map((header, column) => (
+        <View key={`${header}-${column}`} style={styles.detailSection}>
+          <Text style={styles.columnHeader}>{header || `Column ${column + 1}`}</Text>
+          {!!current.rows[0]?.[column] && (
+            <Text style={styles.columnSample} numberOfLines={1}>{current.rows[0][column]}</Text>
+          )}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {CSV_IMPORT_FIELDS.map(({ field, label }) => (
+              <Pressable
+                key={field}
+                onPress={() => setMapping(prev => prev.map((value, index) => index === column ? field : value))}
+                style={[styles.chip, mapping[column] === field ? styles.chipActive : styles.chipInactive]}
+              >
+                <Text style={[styles.chipText, mapping[column] === field ? styles.chipTextActive : styles.chipTextInactive]}>
+                  {label}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+    </>
+  );
+
+  const renderPreview = () => {
+    const duplicateCount = candidates.filter(candidate => candidate.duplicateOf).length;
+
+    return (
+      <>
+        <View style={styles.detailSection}>
+          <Text style={styles.sectionTitle}>
+            {candidates.length} contact{candidates.length !== 1 ? 's' : ''} found
+          </Text>
+          {duplicateCount > 0 && (
+            <Text style={styles.hintText}>
+              {duplicateCount} already in your contacts and left unselected.
+            </Text>
+          )}
+        </View>
+        {candidates.map(({ contact, duplicateOf }) => {
+          const isSelected = selected.has(contact.id);
+          const identifier = contact.identifiers[0]?.value;
+
+          return (
+            <Pressable key={contact.id} onPress={() => toggleContact(contact.id)} style={styles.contactRow}>
+              <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                {isSelected && <CheckIcon size={14} color="#1f2937" />}
+              </View>
+              <View style={styles.contactInfo}>
+                <Text style={styles.contactName}>{contact.name}</Text>
+                {!!(contact.title || contact.company || identifier) && (
+                  <Text style={styles.contactDetail} numberOfLines={1}>
+                    {[contact.title, contact.company].filter(Boolean).join(' at ') || identifier}
+                  </Text>
+                )}
+                {duplicateOf && (
+                  <Text style={styles.duplicateText} numberOfLines={1}>
+                    Possible duplicate of {duplicateOf.name}
+                  </Text>
+                )}
+              </View>
+            </Pressable>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={!!file}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            <Text style={styles.detailName} numberOfLines={1}>
+              {step === 'mapping' ? 'Map Columns' : 'Import Contacts'}
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            {step === 'mapping' && csvImport ? renderMapping(csvImport) : renderPreview()}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.detailFooter}>
+            <View style={styles.footerButtonRow}>
+              {step === 'preview' && csvImport && (
+                <Pressable
+                  onPress={() => setStep('mapping')}
+                  style={[styles.footerButton, styles.cancelButton]}
+                >
+                  <ChevronLeft size={16} color="rgba(255, 255, 255, 0.7)" />
+                  <Text style={styles.cancelButtonText}>Columns</Text>
+                </Pressable>
+              )}
+              <View style={styles.footerButtonSpacer} />
+              <Pressable
+                onPress={onClose}
+                style={[styles.footerButton, styles.cancelButton]}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              {step === 'mapping' ? (
+                <Pressable
+                  onPress={() => setStep('preview')}
+                  style={[styles.footerButton, styles.saveButton, !hasName && styles.saveButtonDisabled]}
+                  disabled={!hasName}
+                >
+                  <Text style={[styles.saveButtonText, !hasName && styles.saveButtonTextDisabled]}>
+                    Next
+                  </Text>
+                </Pressable>
+              ) : (
+                <Pressable
+                  onPress={handleImport}
+                  style={[styles.footerButton, styles.saveButton, selected.size === 0 && styles.saveButtonDisabled]}
+                  disabled={selected.size === 0}
+                >
+                  <CheckIcon size={16} color={selected.size > 0 ? "#1f2937" : "rgba(255,255,255,0.5)"} />
+                  <Text style={[styles.saveButtonText, selected.size === 0 && styles.saveButtonTextDisabled]}>
+                    Import {selected.size}
+                  </Text>
+                </Pressable>
+              )}
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+    flex: 1,
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hintText: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  columnHeader: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  columnSample: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  chipRow: {
+    gap: 8,
+    paddingTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipActive: {
+    backgroundColor: 'white',
+    borderColor: 'white',
+  },
+  chipInactive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#1f2937',
+  },
+  chipTextInactive: {
+    color: 'white',
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+    borderColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  contactInfo: {
+    flex: 1,
+  },
+  contactName: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  contactDetail: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  duplicateText: {
+    color: 'rgba(251, 191, 36, 0.9)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonDisabled: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButtonTextDisabled: {
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+});
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, StyleSheet } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import {
+  X as XIcon,
+  Check as CheckIcon,
+  ChevronLeft,
+  ArrowLeftRight,
+} from 'lucide-react-native';
+import type { Contact } from '../../types/contact';
+import { storageService } from '../../services/storageService';
+import {
+  displayName,
+  duplicatePairKey,
+  findDuplicateContacts,
+  type DuplicatePair,
+  type DuplicateReason,
+} from '../../utils/duplicateDetection';
+import {
+  MERGE_FIELDS,
+  conflictingMergeFields,
+  mergeFieldValue,
+  type MergeChoices,
+} from '../../utils/contactMerge';
+
+interface DuplicatesModalProps {
+  visible: boolean;
+  contacts: Contact[];
+  onClose: () => void;
+  onMerge: (primaryId: string, duplicateId: string, choices: MergeChoices) => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  linkedin: 'Same LinkedIn',
+  name_company: 'Similar name, same company',
+  name: 'Similar name',
+};
+
+export function DuplicatesModal({ visible, contacts, onClose, onMerge }: DuplicatesModalProps) {
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [reviewing, setReviewing] = useState<DuplicatePair | null>(null);
+  const [swapped, setSwapped] = useState(false);
+  const [choices, setChoices] = useState<MergeChoices>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    setReviewing(null);
+    storageService.loadDismissedDuplicates().then(setDismissed);
+  }, [visible]);
+
+  const pairs = useMemo(
+    () => (visible ? findDuplicateContacts(contacts, { dismissed }) : []),
+    [visible, contacts, dismissed]
+  );
+
+  const primary = reviewing ? (swapped ? reviewing.second : reviewing.first) : null;
+  const duplicate = reviewing ? (swapped ? reviewing.first : reviewing.second) : null;
+  const conflicts = primary && duplicate ? conflictingMergeFields(primary, duplicate) : [];
+
+  const openPair = (pair: DuplicatePair) => {
+    // Keep the more complete record by default
+    const filled = (contact: Contact) => MERGE_FIELDS.filter(({ field }) => mergeFieldValue(contact, field)).length;
+    setSwapped(filled(pair.second) > filled(pair.first));
+    setChoices({});
+    setReviewing(pair);
+  };
+
+  const handleDismiss = async () => {
+    if (!reviewing) return;
+    const key = duplicatePairKey(reviewing.first, reviewing.second);
+    await storageService.dismissDuplicate(key);
+    setDismissed(prev => [...prev, key]);
+    setReviewing(null);
+  };
+
+  const handleMerge = () => {
+    if (!primary || !duplicate) return;
+    onMerge(primary.id, duplicate.id, choices);
+    setReviewing(null);
+  };
+
+  const renderList = () => (
+    pairs.length === 0 ? (
+      <View style={styles.detailSection}>
+        <Text style={styles.emptyText}>No duplicate contacts found.</Text>
+      </View>
+    ) : (
+      <>
+        {pairs.map(pair => (
+          <Pressable
+            key={duplicatePairKey(pair.first, pair.second)}
+            onPress={() => openPair(pair)}
+            style={styles.pairRow}
+          >
+            <View style={styles.pairInfo}>
+              <Text style={styles.pairNames} numberOfLines={1}>
+                {displayName(pair.first)} · {displayName(pair.second)}
+              </Text>
+              <Text style={styles.pairReasons} numberOfLines={1}>
+                {pair.reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+              </Text>
+            </View>
+            <Text style={styles.scoreText}>{Math.round(pair.score * 100)}%</Text>
+          </Pressable>
+        ))}
+      </>
+    )
+  );
+
+  const renderReview = (keep: Contact, other: Contact) => (
+    <>
+      <View style={styles.detailSection}>
+        <View style={styles.keepRow}>
+          <View style={styles.pairInfo}>
+            <Text style={styles.sectionLabel}>Keep</Text>
+            <Text style={styles.sectionTitle}>{displayName(keep)}</Text>
+            <Text style={styles.pairReasons}>Merging in {displayName(other)}</Text>
+          </View>
+          <Pressable onPress={() => setSwapped(prev => !prev)} style={styles.swapButton}>
+            <ArrowLeftRight size={18} color="white" />
+          </Pressable>
+        </View>
+      </View>
+
+      {conflicts.map(field => {
+        const label = MERGE_FIELDS.find(option => option.field === field)?.label || field;
+        const selected = choices[field] || 'primary';
+
+        return (
+          <View key={field} style={styles.detailSection}>
+            <Text style={styles.sectionLabel}>{label}</Text>
+            {(['primary', 'duplicate'] as const).map(side => (
+              <Pressable
+                key={side}
+                onPress={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                style={[styles.valueOption, selected === side && styles.valueOptionSelected]}
+              >
+                <View style={[styles.radio, selected === side && styles.radioSelected]} />
+                <Text style={styles.valueText} numberOfLines={field === 'note' ? 3 : 1}>
+                  {field === 'imageUri' ? (side === 'primary' ? 'Photo of kept contact' : 'Other photo') : mergeFieldValue(side === 'primary' ? keep : other, field)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        );
+      })}
+
+      <View style={styles.detailSection}>
+        <Text style={styles.hintText}>
+          Tags, groups, emails, phone numbers and links from both contacts are kept.
+        </Text>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            {reviewing && (
+              <Pressable onPress={() => setReviewing(null)} style={styles.closeButton}>
+                <ChevronLeft size={24} color="white" />
+              </Pressable>
+            )}
+            <Text style={styles.detailName}>{reviewing ? 'Merge Contacts' : 'Duplicates'}</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            {primary && duplicate ? renderReview(primary, duplicate) : renderList()}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          {reviewing && (
+            <View style={styles.detailFooter}>
+              <View style={styles.footerButtonRow}>
+                <Pressable
+                  onPress={handleDismiss}
+                  style={[styles.footerButton, styles.cancelButton]}
+                >
+                  <Text style={styles.cancelButtonText}>Not Duplicates</Text>
+                </Pressable>
+                <View style={styles.footerButtonSpacer} />
+                <Pressable
+                  onPress={handleMerge}
+                  style={[styles.footerButton, styles.saveButton]}
+                >
+                  <CheckIcon size={16} color="#1f2937" />
+                  <Text style={styles.saveButtonText}>Merge</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+    flex: 1,
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 15,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  pairRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    gap: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  pairInfo: {
+    flex: 1,
+  },
+  pairNames: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  pairReasons: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  scoreText: {
+    color: 'rgba(251, 191, 36, 0.9)',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  keepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  swapButton: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionLabel: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  valueOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  valueOptionSelected: {
+    borderColor: 'rgba(34, 197, 94, 0.8)',
+    backgroundColor: 'rgba(34, 197, 94, 0.1)',
+  },
+  radio: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  radioSelected: {
+    borderColor: 'rgba(34, 197, 94, 1)',
+    backgroundColor: 'rgba(34, 197, 94, 1)',
+  },
+  valueText: {
+    color: 'white',
+    fontSize: 14,
+    flex: 1,
+  },
+  hintText: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 13,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
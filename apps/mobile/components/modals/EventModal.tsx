@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, TextInput, StyleSheet, Alert } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import { X as XIcon, Check as CheckIcon, Radio } from 'lucide-react-native';
+import type { NetworkingEvent } from '../../types/contact';
+import type { NewEventPayload } from '../../contexts/AppStateContext';
+import { isValidInteractionDate, todayDate } from '../../utils/interactions';
+
+interface EventModalProps {
+  visible: boolean;
+  /** The event being edited, or null to add a new one */
+  event: NetworkingEvent | null;
+  onClose: () => void;
+  /** `activate` asks for new contacts to be met at the event from now on */
+  onSave: (payload: NewEventPayload, activate: boolean) => void;
+}
+
+export function EventModal({ visible, event, onClose, onSave }: EventModalProps) {
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(todayDate());
+  const [endDate, setEndDate] = useState('');
+  const [venue, setVenue] = useState('');
+  const [agendaUrl, setAgendaUrl] = useState('');
+  const [activate, setActivate] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(event?.name || '');
+    setStartDate(event?.startDate || todayDate());
+    setEndDate(event?.endDate || '');
+    setVenue(event?.venue || '');
+    setAgendaUrl(event?.agendaUrl || '');
+    setActivate(!event);
+  }, [visible, event]);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Name required', 'Give the event a name.');
+      return;
+    }
+    if (!isValidInteractionDate(startDate.trim()) || (endDate.trim() && !isValidInteractionDate(endDate.trim()))) {
+      Alert.alert('Invalid date', 'Enter dates as YYYY-MM-DD.');
+      return;
+    }
+    if (endDate.trim() && endDate.trim() < startDate.trim()) {
+      Alert.alert('Invalid dates', 'The event can\'t end before it starts.');
+      return;
+    }
+    if (agendaUrl.trim() && !/^https?:\/\//i.test(agendaUrl.trim())) {
+      Alert.alert('Invalid link', 'The agenda link should start with http:// or https://.');
+      return;
+    }
+
+    onSave({
+      name: name.trim(),
+      startDate: startDate.trim(),
+      endDate: endDate.trim() || undefined,
+      venue: venue.trim() || undefined,
+      agendaUrl: agendaUrl.trim() || undefined,
+    }, activate);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            <View style={styles.headerText}>
+              <Text style={styles.detailName}>{event ? 'Edit Event' : 'New Event'}</Text>
+              <Text style={styles.detailSubtitle}>A conference, meetup or trade show</Text>
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Name</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Web Summit 2025"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={name}
+                  onChangeText={setName}
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Dates</Text>
+              <View style={styles.dateRow}>
+                <View style={[styles.inputContainer, styles.dateInput]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Starts YYYY-MM-DD"
+                    placeholderTextColor="rgba(255,255,255,0.5)"
+                    value={startDate}
+                    onChangeText={setStartDate}
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+                <View style={[styles.inputContainer, styles.dateInput]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Ends (optional)"
+                    placeholderTextColor="rgba(255,255,255,0.5)"
+                    value={endDate}
+                    onChangeText={setEndDate}
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Venue</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Altice Arena, Lisbon"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={venue}
+                  onChangeText={setVenue}
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Agenda link</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="https://..."
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={agendaUrl}
+                  onChangeText={setAgendaUrl}
+                  autoCapitalize="none"
+                  keyboardType="url"
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Pressable
+                onPress={() => setActivate(!activate)}
+                style={[styles.chip, activate ? styles.chipActive : styles.chipInactive]}
+              >
+                <Radio size={14} color={activate ? '#1f2937' : 'white'} />
+                <Text style={[styles.chipText, activate ? styles.chipTextActive : styles.chipTextInactive]}>
+                  {activate ? 'Meeting people here now' : 'Make active'}
+                </Text>
+              </Pressable>
+              <Text style={styles.hintText}>
+                While an event is active, contacts you add are tagged with it and remembered as met there today.
+              </Text>
+            </View>
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.detailFooter}>
+            <View style={styles.footerButtonRow}>
+              <Pressable
+                onPress={onClose}
+                style={[styles.footerButton, styles.cancelButton]}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <View style={styles.footerButtonSpacer} />
+              <Pressable
+                onPress={handleSave}
+                style={[styles.footerButton, styles.saveButton]}
+              >
+                <CheckIcon size={16} color="#1f2937" />
+                <Text style={styles.saveButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerText: {
+    flex: 1,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  detailSubtitle: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipActive: {
+    backgroundColor: 'white',
+    borderColor: 'white',
+  },
+  chipInactive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#1f2937',
+  },
+  chipTextInactive: {
+    color: 'white',
+  },
+  inputContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  hintText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, TextInput, StyleSheet, Alert } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import { X as XIcon, Check as CheckIcon } from 'lucide-react-native';
+import type { Contact } from '../../types/contact';
+import { FOLLOWUP_CADENCES, addDays } from '../../utils/followups';
+import { isValidInteractionDate, todayDate } from '../../utils/interactions';
+import { displayName } from '../../utils/duplicateDetection';
+
+const QUICK_DATES: { days: number; label: string }[] = [
+  { days: 7, label: 'In 1 week' },
+  { days: 14, label: 'In 2 weeks' },
+  { days: 30, label: 'In 1 month' },
+  { days: 90, label: 'In 3 months' },
+];
+
+interface FollowupModalProps {
+  contact: Contact | null;
+  onClose: () => void;
+  onSave: (contactId: string, nextFollowupDate: string | null, cadenceDays: number | null) => void;
+}
+
+export function FollowupModal({ contact, onClose, onSave }: FollowupModalProps) {
+  const [date, setDate] = useState('');
+  const [cadenceDays, setCadenceDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!contact) return;
+    setDate(contact.nextFollowupDate || addDays(todayDate(), 7));
+    setCadenceDays(contact.followupCadenceDays || null);
+  }, [contact]);
+
+  const handleSave = () => {
+    if (!contact) return;
+
+    if (!isValidInteractionDate(date.trim())) {
+      Alert.alert('Invalid date', 'Enter the date as YYYY-MM-DD.');
+      return;
+    }
+
+    onSave(contact.id, date.trim(), cadenceDays);
+    onClose();
+  };
+
+  const handleClear = () => {
+    if (!contact) return;
+    onSave(contact.id, null, null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={!!contact}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            <View style={styles.headerText}>
+              <Text style={styles.detailName}>Follow-up</Text>
+              {contact && <Text style={styles.detailSubtitle}>{displayName(contact)}</Text>}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>When</Text>
+              <View style={styles.chipRow}>
+                {QUICK_DATES.map(option => {
+                  const optionDate = addDays(todayDate(), option.days);
+                  return (
+                    <Pressable
+                      key={option.days}
+                      onPress={() => setDate(optionDate)}
+                      style={[styles.chip, date === optionDate ? styles.chipActive : styles.chipInactive]}
+                    >
+                      <Text style={[styles.chipText, date === optionDate ? styles.chipTextActive : styles.chipTextInactive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <View style={[styles.inputContainer, styles.dateInput]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={date}
+                  onChangeText={setDate}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Repeat</Text>
+              <View style={styles.chipRow}>
+                {FOLLOWUP_CADENCES.map(option => (
+                  <Pressable
+                    key={option.label}
+                    onPress={() => setCadenceDays(option.days)}
+                    style={[styles.chip, cadenceDays === option.days ? styles.chipActive : styles.chipInactive]}
+                  >
+                    <Text style={[styles.chipText, cadenceDays === option.days ? styles.chipTextActive : styles.chipTextInactive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {cadenceDays !== null && (
+                <Text style={styles.hintText}>
+                  Marking it done schedules the next follow-up {cadenceDays} days later.
+                </Text>
+              )}
+            </View>
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.detailFooter}>
+            <View style={styles.footerButtonRow}>
+              {contact?.nextFollowupDate ? (
+                <Pressable
+                  onPress={handleClear}
+                  style={[styles.footerButton, styles.cancelButton]}
+                >
+                  <Text style={styles.clearButtonText}>Remove</Text>
+                </Pressable>
+              ) : (
+                <Pressable
+                  onPress={onClose}
+                  style={[styles.footerButton, styles.cancelButton]}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </Pressable>
+              )}
+              <View style={styles.footerButtonSpacer} />
+              <Pressable
+                onPress={handleSave}
+                style={[styles.footerButton, styles.saveButton]}
+              >
+                <CheckIcon size={16} color="#1f2937" />
+                <Text style={styles.saveButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerText: {
+    flex: 1,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  detailSubtitle: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipActive: {
+    backgroundColor: 'white',
+    borderColor: 'white',
+  },
+  chipInactive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#1f2937',
+  },
+  chipTextInactive: {
+    color: 'white',
+  },
+  inputContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateInput: {
+    marginTop: 12,
+  },
+  hintText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  clearButtonText: {
+    color: 'rgba(248, 113, 113, 1)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
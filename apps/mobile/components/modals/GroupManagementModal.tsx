@@ -8,6 +8,7 @@ import {
   Tag as TagIcon,
   Trash2,
   Check as CheckIcon,
+  Share2,
 } from 'lucide-react-native';
 
 interface Group {
@@ -24,6 +25,7 @@ interface GroupManagementModalProps {
   onClose: () => void;
   onSave: (data: { name: string; type: string; location?: string }) => void;
   onDelete?: () => void;
+  onExport?: () => void;
 }
 
 export function GroupManagementModal({ 
@@ -31,7 +33,8 @@ export function GroupManagementModal({
   visible, 
   onClose, 
   onSave,
-  onDelete 
+  onDelete,
+  onExport
 }: GroupManagementModalProps) {
   const [name, setName] = useState(group?.name || "");
   const [type, setType] = useState(group?.type || "custom");
@@ -143,6 +146,12 @@ export function GroupManagementModal({
                 <Text style={styles.memberCountText}>
                   {group.members.length} member{group.members.length !== 1 ? 's' : ''}
                 </Text>
+                {onExport && group.members.length > 0 && (
+                  <Pressable onPress={onExport} style={styles.exportButton}>
+                    <Share2 size={16} color="white" />
+                    <Text style={styles.exportButtonText}>Export members</Text>
+                  </Pressable>
+                )}
               </View>
             )}
           </ScrollView>
@@ -290,6 +299,24 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.7)',
     fontSize: 14,
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  exportButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   detailFooter: {
     paddingHorizontal: 20,
     paddingVertical: 20,
@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, TextInput, StyleSheet, Alert } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import { X as XIcon, Check as CheckIcon } from 'lucide-react-native';
+import type { Contact, Interaction, InteractionType } from '../../types/contact';
+import type { NewInteractionPayload } from '../../contexts/AppStateContext';
+import { INTERACTION_TYPES, isValidInteractionDate, todayDate } from '../../utils/interactions';
+import { displayName } from '../../utils/duplicateDetection';
+
+// Meetings and events are mutual; for the rest it matters who reached out
+const DIRECTED_TYPES: InteractionType[] = ['call', 'email', 'message'];
+
+const DIRECTIONS: { direction: NonNullable<Interaction['direction']>; label: string }[] = [
+  { direction: 'outbound', label: 'I did' },
+  { direction: 'inbound', label: 'They did' },
+];
+
+interface LogInteractionModalProps {
+  contact: Contact | null;
+  onClose: () => void;
+  onSave: (contactId: string, payload: NewInteractionPayload) => void;
+}
+
+export function LogInteractionModal({ contact, onClose, onSave }: LogInteractionModalProps) {
+  const [type, setType] = useState<InteractionType>('meeting');
+  const [date, setDate] = useState(todayDate());
+  const [location, setLocation] = useState('');
+  const [duration, setDuration] = useState('');
+  const [notes, setNotes] = useState('');
+  const [followUpNeeded, setFollowUpNeeded] = useState(false);
+  const [direction, setDirection] = useState<Interaction['direction']>(undefined);
+
+  useEffect(() => {
+    if (!contact) return;
+    setType('meeting');
+    setDate(todayDate());
+    setLocation('');
+    setDuration('');
+    setNotes('');
+    setFollowUpNeeded(false);
+    setDirection(undefined);
+  }, [contact]);
+
+  const handleSave = () => {
+    if (!contact) return;
+
+    if (!isValidInteractionDate(date.trim())) {
+      Alert.alert('Invalid date', 'Enter the date as YYYY-MM-DD.');
+      return;
+    }
+
+    const minutes = parseInt(duration, 10);
+    onSave(contact.id, {
+      type,
+      date: date.trim(),
+      location: location.trim() || undefined,
+      durationMinutes: minutes > 0 ? minutes : undefined,
+      notes: notes.trim() || undefined,
+      followUpNeeded,
+      direction: DIRECTED_TYPES.includes(type) ? direction : undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={!!contact}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            <View style={styles.headerText}>
+              <Text style={styles.detailName}>Log Interaction</Text>
+              {contact && <Text style={styles.detailSubtitle}>{displayName(contact)}</Text>}
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Type</Text>
+              <View style={styles.chipRow}>
+                {INTERACTION_TYPES.map(option => (
+                  <Pressable
+                    key={option.type}
+                    onPress={() => setType(option.type)}
+                    style={[styles.chip, type === option.type ? styles.chipActive : styles.chipInactive]}
+                  >
+                    <Text style={[styles.chipText, type === option.type ? styles.chipTextActive : styles.chipTextInactive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            {DIRECTED_TYPES.includes(type) && (
+              <View style={styles.detailSection}>
+                <Text style={styles.sectionTitle}>Who reached out?</Text>
+                <View style={styles.chipRow}>
+                  {DIRECTIONS.map(option => (
+                    <Pressable
+                      key={option.direction}
+                      onPress={() => setDirection(prev => (prev === option.direction ? undefined : option.direction))}
+                      style={[styles.chip, direction === option.direction ? styles.chipActive : styles.chipInactive]}
+                    >
+                      <Text style={[styles.chipText, direction === option.direction ? styles.chipTextActive : styles.chipTextInactive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Date</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={date}
+                  onChangeText={setDate}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Where</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Office, café, conference..."
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={location}
+                  onChangeText={setLocation}
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Duration (minutes)</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="30"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={duration}
+                  onChangeText={value => setDuration(value.replace(/\D/g, ''))}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Notes</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="What did you talk about?"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+              </View>
+              <Pressable onPress={() => setFollowUpNeeded(prev => !prev)} style={styles.checkRow}>
+                <View style={[styles.checkbox, followUpNeeded && styles.checkboxChecked]}>
+                  {followUpNeeded && <CheckIcon size={12} color="#1f2937" />}
+                </View>
+                <Text style={styles.checkText}>Needs a follow-up</Text>
+              </Pressable>
+            </View>
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.detailFooter}>
+            <View style={styles.footerButtonRow}>
+              <Pressable
+                onPress={onClose}
+                style={[styles.footerButton, styles.cancelButton]}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <View style={styles.footerButtonSpacer} />
+              <Pressable
+                onPress={handleSave}
+                style={[styles.footerButton, styles.saveButton]}
+              >
+                <CheckIcon size={16} color="#1f2937" />
+                <Text style={styles.saveButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerText: {
+    flex: 1,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  detailSubtitle: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipActive: {
+    backgroundColor: 'white',
+    borderColor: 'white',
+  },
+  chipInactive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#1f2937',
+  },
+  chipTextInactive: {
+    color: 'white',
+  },
+  inputContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  checkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 12,
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    borderColor: 'rgba(34, 197, 94, 1)',
+    backgroundColor: 'rgba(34, 197, 94, 1)',
+  },
+  checkText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,378 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, TextInput, StyleSheet, Share, Alert, ActivityIndicator } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import QRCode from 'react-native-qrcode-svg';
+import {
+  X as XIcon,
+  Edit3,
+  Share2,
+  RefreshCw,
+  Check as CheckIcon,
+} from 'lucide-react-native';
+import type { ProfileCard } from '../../types/contact';
+import { profileCardService } from '../../services/profileCardService';
+import { useAuth } from '../../contexts/AuthContext';
+import { buildVCard } from '../../utils/vcard';
+
+interface ProfileCardModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type CardField = 'name' | 'title' | 'company' | 'email' | 'phone' | 'linkedinUrl';
+
+const CARD_FIELDS: { field: CardField; label: string; placeholder: string }[] = [
+  { field: 'name', label: 'Name', placeholder: 'Jane Doe' },
+  { field: 'title', label: 'Title', placeholder: 'Head of Partnerships' },
+  { field: 'company', label: 'Company', placeholder: 'Acme Inc.' },
+  { field: 'email', label: 'Email', placeholder: 'jane@acme.com' },
+  { field: 'phone', label: 'Phone', placeholder: '+1 555 0100' },
+  { field: 'linkedinUrl', label: 'LinkedIn', placeholder: 'https://linkedin.com/in/janedoe' },
+];
+
+export function ProfileCardModal({ visible, onClose }: ProfileCardModalProps) {
+  const { user } = useAuth();
+  const [card, setCard] = useState<ProfileCard | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileCard>({ name: '' });
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setIsLoading(true);
+    profileCardService.getCard().then(result => {
+      setCard(result?.card || null);
+      setShareUrl(result?.shareUrl || null);
+      // A new card starts from the signed-in user's details
+      setDraft(result?.card || {
+        name: user ? [user.firstName, user.lastName].filter(Boolean).join(' ') : '',
+        email: user?.email,
+      });
+      setIsEditing(!result);
+      setIsLoading(false);
+    });
+  }, [visible, user]);
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+
+    setIsLoading(true);
+    const trimmed = CARD_FIELDS.reduce<ProfileCard>(
+      (result, { field }) => ({ ...result, [field]: (draft[field] || '').trim() }),
+      { name: '' }
+    );
+    const result = await profileCardService.saveCard(trimmed);
+    setCard(result.card);
+    setShareUrl(result.shareUrl);
+    setIsEditing(false);
+    setIsLoading(false);
+  };
+
+  const handleShare = async () => {
+    if (!card || !shareUrl) return;
+    await Share.share({ message: `${card.name} - ${shareUrl}`, url: shareUrl });
+  };
+
+  const handleRotate = () => {
+    Alert.alert(
+      'Reset Share Link',
+      'Anyone with your current link will no longer be able to open your card.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const result = await profileCardService.rotateShareLink();
+              setShareUrl(result.shareUrl);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reset share link.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCard = (current: ProfileCard) => (
+    <View style={styles.detailSection}>
+      <View style={styles.qrContainer}>
+        <QRCode value={buildVCard(current)} size={220} backgroundColor="white" color="#0b1220" ecl="M" />
+      </View>
+      <Text style={styles.cardName}>{current.name}</Text>
+      {!!(current.title || current.company) && (
+        <Text style={styles.cardSubtitle}>
+          {[current.title, current.company].filter(Boolean).join(' at ')}
+        </Text>
+      )}
+      <Text style={styles.hintText}>
+        Let someone scan this code to save your details to their contacts.
+      </Text>
+
+      {shareUrl ? (
+        <View style={styles.shareRow}>
+          <Pressable onPress={handleShare} style={[styles.footerButton, styles.saveButton, styles.shareButton]}>
+            <Share2 size={16} color="#1f2937" />
+            <Text style={styles.saveButtonText}>Share Link</Text>
+          </Pressable>
+          <Pressable onPress={handleRotate} style={[styles.footerButton, styles.cancelButton]}>
+            <RefreshCw size={16} color="rgba(255, 255, 255, 0.7)" />
+            <Text style={styles.cancelButtonText}>Reset Link</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <Text style={styles.hintText}>Sign in and go online to get a shareable link.</Text>
+      )}
+    </View>
+  );
+
+  const renderForm = () => (
+    <>
+      {CARD_FIELDS.map(({ field, label, placeholder }) => (
+        <View key={field} style={styles.detailSection}>
+          <Text style={styles.sectionTitle}>{label}</Text>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              placeholder={placeholder}
+              placeholderTextColor="rgba(255,255,255,0.5)"
+              value={draft[field] || ''}
+              onChangeText={value => setDraft(prev => ({ ...prev, [field]: value }))}
+              autoCapitalize={field === 'email' || field === 'linkedinUrl' ? 'none' : 'words'}
+              keyboardType={field === 'email' ? 'email-address' : field === 'phone' ? 'phone-pad' : field === 'linkedinUrl' ? 'url' : 'default'}
+            />
+          </View>
+        </View>
+      ))}
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            <Text style={styles.detailName}>My Card</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            {isLoading ? (
+              <ActivityIndicator style={styles.loading} color="white" />
+            ) : isEditing || !card ? (
+              renderForm()
+            ) : (
+              renderCard(card)
+            )}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.detailFooter}>
+            <View style={styles.footerButtonRow}>
+              <View style={styles.footerButtonSpacer} />
+              {isEditing ? (
+                <>
+                  {card && (
+                    <Pressable
+                      onPress={() => {
+                        setDraft(card);
+                        setIsEditing(false);
+                      }}
+                      style={[styles.footerButton, styles.cancelButton]}
+                    >
+                      <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </Pressable>
+                  )}
+                  <Pressable
+                    onPress={handleSave}
+                    style={[
+                      styles.footerButton,
+                      styles.saveButton,
+                      !draft.name.trim() && styles.saveButtonDisabled
+                    ]}
+                    disabled={!draft.name.trim() || isLoading}
+                  >
+                    <CheckIcon size={16} color={draft.name.trim() ? "#1f2937" : "rgba(255,255,255,0.5)"} />
+                    <Text style={[
+                      styles.saveButtonText,
+                      !draft.name.trim() && styles.saveButtonTextDisabled
+                    ]}>
+                      Save
+                    </Text>
+                  </Pressable>
+                </>
+              ) : (
+                <Pressable
+                  onPress={() => setIsEditing(true)}
+                  style={[styles.footerButton, styles.cancelButton]}
+                >
+                  <Edit3 size={16} color="rgba(255, 255, 255, 0.7)" />
+                  <Text style={styles.cancelButtonText}>Edit Card</Text>
+                </Pressable>
+              )}
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'white',
+  },
+  cardName: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  cardSubtitle: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  hintText: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  shareButton: {
+    flex: 1,
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  inputContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonDisabled: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButtonTextDisabled: {
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+});
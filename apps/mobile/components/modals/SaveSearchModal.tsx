@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, Pressable, Modal, TextInput, StyleSheet, Alert } from 'react-native';
+import Animated, { SlideInUp } from 'react-native-reanimated';
+import { X as XIcon, Check as CheckIcon, Pin } from 'lucide-react-native';
+import type { ContactFilters, SavedSearch } from '../../types/contact';
+import { describeFilters } from '../../utils/smartLists';
+
+interface SaveSearchModalProps {
+  visible: boolean;
+  /** The smart list being renamed, or null to save the current filters as a new one */
+  search: SavedSearch | null;
+  filters: ContactFilters;
+  /** How many contacts the filters match right now */
+  count: number;
+  onClose: () => void;
+  onSave: (name: string, pinned: boolean) => void;
+}
+
+export function SaveSearchModal({ visible, search, filters, count, onClose, onSave }: SaveSearchModalProps) {
+  const [name, setName] = useState('');
+  const [pinned, setPinned] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(search?.name || filters.query.trim());
+    setPinned(Boolean(search?.pinned));
+  }, [visible, search, filters]);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Name required', 'Give the smart list a name.');
+      return;
+    }
+
+    onSave(name.trim(), pinned);
+    onClose();
+  };
+
+  const shownFilters = search?.filters || filters;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <Pressable style={styles.modalBackdrop} onPress={onClose} />
+        <Animated.View
+          entering={SlideInUp.duration(300)}
+          style={styles.detailModal}
+        >
+          {/* Header */}
+          <View style={styles.detailHeader}>
+            <View style={styles.headerText}>
+              <Text style={styles.detailName}>{search ? 'Edit Smart List' : 'Save Smart List'}</Text>
+              <Text style={styles.detailSubtitle}>
+                {count} contact{count !== 1 ? 's' : ''} match right now
+              </Text>
+            </View>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color="white" />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.detailContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Name</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Investors in Berlin"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  value={name}
+                  onChangeText={setName}
+                  autoFocus
+                />
+              </View>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>Filters</Text>
+              <Text style={styles.filtersText}>{describeFilters(shownFilters)}</Text>
+              <Text style={styles.hintText}>
+                Contacts join and leave the list as they start or stop matching these filters.
+              </Text>
+            </View>
+
+            <View style={styles.detailSection}>
+              <Pressable
+                onPress={() => setPinned(!pinned)}
+                style={[styles.chip, pinned ? styles.chipActive : styles.chipInactive]}
+              >
+                <Pin size={14} color={pinned ? '#1f2937' : 'white'} />
+                <Text style={[styles.chipText, pinned ? styles.chipTextActive : styles.chipTextInactive]}>
+                  {pinned ? 'Pinned' : 'Pin to top'}
+                </Text>
+              </Pressable>
+            </View>
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.detailFooter}>
+            <View style={styles.footerButtonRow}>
+              <Pressable
+                onPress={onClose}
+                style={[styles.footerButton, styles.cancelButton]}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <View style={styles.footerButtonSpacer} />
+              <Pressable
+                onPress={handleSave}
+                style={[styles.footerButton, styles.saveButton]}
+              >
+                <CheckIcon size={16} color="#1f2937" />
+                <Text style={styles.saveButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalBackdrop: {
+    flex: 1,
+  },
+  detailModal: {
+    backgroundColor: 'rgba(31, 41, 55, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    maxHeight: '90%',
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerText: {
+    flex: 1,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  detailName: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  detailSubtitle: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  detailContent: {
+    paddingHorizontal: 20,
+  },
+  detailSection: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  filtersText: {
+    color: 'white',
+    fontSize: 14,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipActive: {
+    backgroundColor: 'white',
+    borderColor: 'white',
+  },
+  chipInactive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#1f2937',
+  },
+  chipTextInactive: {
+    color: 'white',
+  },
+  inputContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  input: {
+    color: 'white',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  hintText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  detailFooter: {
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  footerButtonSpacer: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cancelButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  saveButton: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  saveButtonText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
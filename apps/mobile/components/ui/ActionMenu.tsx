@@ -23,6 +23,10 @@ import {
   WifiOff,
   X as XIcon,
   Upload,
+  QrCode,
+  FileText,
+  Share2,
+  Copy,
 } from 'lucide-react-native';
 import { GlassCard } from './GlassCard';
 
@@ -85,7 +89,11 @@ export interface ActionMenuProps {
   onOfflineToggle: () => void;
   onAddContact: () => void;
   onImportContacts: () => void;
+  onImportFile?: () => void;
+  onExportContacts?: () => void;
+  onFindDuplicates?: () => void;
   onBadgeScanner?: () => void;
+  onProfileCard?: () => void;
   onCRMSetup?: () => void;
   onSignOut: () => void;
   showBadgeScanner?: boolean;
@@ -98,7 +106,11 @@ export function ActionMenu({
   onOfflineToggle,
   onAddContact,
   onImportContacts,
+  onImportFile,
+  onExportContacts,
+  onFindDuplicates,
   onBadgeScanner,
+  onProfileCard,
   onCRMSetup,
   onSignOut,
   showBadgeScanner = true,
@@ -127,6 +139,33 @@ export function ActionMenu({
       },
       style: styles.importAction,
     },
+    ...(onImportFile ? [{
+      icon: <FileText size={18} color="white" />,
+      label: 'Import File',
+      onPress: () => {
+        onClose();
+        setTimeout(() => onImportFile(), 50);
+      },
+      style: styles.importAction,
+    }] : []),
+    ...(onExportContacts ? [{
+      icon: <Share2 size={18} color="white" />,
+      label: 'Export Contacts',
+      onPress: () => {
+        onClose();
+        setTimeout(() => onExportContacts(), 50);
+      },
+      style: styles.exportAction,
+    }] : []),
+    ...(onFindDuplicates ? [{
+      icon: <Copy size={18} color="white" />,
+      label: 'Find Duplicates',
+      onPress: () => {
+        onClose();
+        setTimeout(() => onFindDuplicates(), 50);
+      },
+      style: styles.duplicatesAction,
+    }] : []),
     ...(showBadgeScanner ? [{
       icon: <Camera size={18} color="white" />,
       label: 'Scan Badge',
@@ -140,6 +179,15 @@ export function ActionMenu({
       },
       style: styles.scannerAction,
     }] : []),
+    ...(onProfileCard ? [{
+      icon: <QrCode size={18} color="white" />,
+      label: 'My Card',
+      onPress: () => {
+        onClose();
+        setTimeout(() => onProfileCard(), 50);
+      },
+      style: styles.profileCardAction,
+    }] : []),
     ...(onCRMSetup ? [{
       icon: <Upload size={18} color="white" />,
       label: 'Connect CRM',
@@ -288,10 +336,22 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(34, 197, 94, 0.1)',
     borderColor: 'rgba(34, 197, 94, 0.3)',
   },
+  exportAction: {
+    backgroundColor: 'rgba(14, 165, 233, 0.1)',
+    borderColor: 'rgba(14, 165, 233, 0.3)',
+  },
+  duplicatesAction: {
+    backgroundColor: 'rgba(251, 191, 36, 0.1)',
+    borderColor: 'rgba(251, 191, 36, 0.3)',
+  },
   scannerAction: {
     backgroundColor: 'rgba(168, 85, 247, 0.1)',
     borderColor: 'rgba(168, 85, 247, 0.3)',
   },
+  profileCardAction: {
+    backgroundColor: 'rgba(20, 184, 166, 0.1)',
+    borderColor: 'rgba(20, 184, 166, 0.3)',
+  },
   crmAction: {
     backgroundColor: 'rgba(249, 115, 22, 0.1)',
     borderColor: 'rgba(249, 115, 22, 0.3)',
@@ -0,0 +1,32 @@
+import React, { memo } from 'react';
+import { Text, StyleSheet, TextProps } from 'react-native';
+import { splitHighlights } from '../../utils/searchQuery';
+
+interface HighlightedTextProps extends TextProps {
+  children: string;
+  /** Search terms to mark; case and accents are ignored */
+  terms?: string[];
+}
+
+export const HighlightedText = memo<HighlightedTextProps>(function HighlightedText({ children, terms, ...textProps }) {
+  if (!terms || terms.length === 0) {
+    return <Text {...textProps}>{children}</Text>;
+  }
+
+  return (
+    <Text {...textProps}>
+      {splitHighlights(children, terms).map((segment, index) =>
+        segment.match
+          ? <Text key={index} style={styles.match}>{segment.text}</Text>
+          : segment.text
+      )}
+    </Text>
+  );
+});
+
+const styles = StyleSheet.create({
+  match: {
+    backgroundColor: 'rgba(251, 191, 36, 0.35)',
+    color: 'white',
+  },
+});
@@ -12,6 +12,7 @@ interface SearchBarProps {
   availableCities?: string[];
   availableCompanies?: string[];
   availableGroups?: string[];
+  availableCountries?: string[];
   showSuggestions?: boolean;
 }
 
@@ -23,6 +24,7 @@ export const SearchBar = memo<SearchBarProps>(function SearchBar({
   availableCities = [],
   availableCompanies = [],
   availableGroups = [],
+  availableCountries = [],
   showSuggestions = true,
 }) {
   const [isFocused, setIsFocused] = useState(false);
@@ -41,7 +43,8 @@ export const SearchBar = memo<SearchBarProps>(function SearchBar({
 
   const handleSuggestionSelect = (suggestion: string) => {
     onChange(suggestion);
-    setShowDropdown(false);
+    // Keep completing after a field name or operator; close once a value is picked
+    setShowDropdown(/[:\s]$/.test(suggestion));
   };
 
   const handleClearSuggestions = () => {
@@ -52,7 +55,7 @@ export const SearchBar = memo<SearchBarProps>(function SearchBar({
     <View style={styles.searchContainer}>
       <AccessibleInput
         label="Search Contacts"
-        placeholder="Search by name, tag, city, company, group…"
+        placeholder="Search, or try tag:work OR met:>2025-01-01…"
         value={value}
         onChangeText={onChange}
         onFocus={handleFocus}
@@ -79,6 +82,7 @@ export const SearchBar = memo<SearchBarProps>(function SearchBar({
           availableCities={availableCities}
           availableCompanies={availableCompanies}
           availableGroups={availableGroups}
+          availableCountries={availableCountries}
         />
       )}
     </View>
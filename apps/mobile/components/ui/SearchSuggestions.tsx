@@ -14,18 +14,39 @@ import {
   MapPin, 
   Building, 
   Users,
+  Calendar,
+  Filter,
   X as XIcon
 } from 'lucide-react-native';
 import { GlassCard } from './GlassCard';
+import { completeQuery, findField, parseSearchQuery, type QueryCompletion } from '../../utils/searchQuery';
 
 interface SearchSuggestion {
   id: string;
+  /** The whole query after selecting the suggestion */
   text: string;
-  type: 'recent' | 'tag' | 'city' | 'company' | 'group' | 'field' | 'syntax';
+  /** What to show, when it differs from the query */
+  label?: string;
+  type: 'recent' | 'syntax' | QueryCompletion['kind'];
   icon: React.ReactNode;
   description?: string;
 }
 
+function completionIcon(kind: QueryCompletion['kind'], field?: string): React.ReactNode {
+  if (kind === 'operator') return <Filter size={16} color="rgba(255,255,255,0.6)" />;
+  switch (field) {
+    case 'tag': return <Tag size={16} color="rgba(34, 197, 94, 0.8)" />;
+    case 'company': return <Building size={16} color="rgba(168, 85, 247, 0.8)" />;
+    case 'city':
+    case 'country':
+    case 'where': return <MapPin size={16} color="rgba(59, 130, 246, 0.8)" />;
+    case 'group': return <Users size={16} color="rgba(245, 158, 11, 0.8)" />;
+  }
+  return field && findField(field)?.kind === 'date'
+    ? <Calendar size={16} color="rgba(236, 72, 153, 0.8)" />
+    : <Search size={16} color="rgba(255,255,255,0.6)" />;
+}
+
 interface SearchSuggestionsProps {
   query: string;
   onSelect: (suggestion: string) => void;
@@ -35,6 +56,7 @@ interface SearchSuggestionsProps {
   availableCities: string[];
   availableCompanies: string[];
   availableGroups: string[];
+  availableCountries?: string[];
 }
 
 export function SearchSuggestions({
@@ -46,6 +68,7 @@ export function SearchSuggestions({
   availableCities,
   availableCompanies,
   availableGroups,
+  availableCountries = [],
 }: SearchSuggestionsProps) {
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
 
@@ -64,25 +87,39 @@ export function SearchSuggestions({
       // Add search syntax hints
       const syntaxSuggestions: SearchSuggestion[] = [
         {
-          id: 'syntax-company',
-          text: 'company:acme',
+          id: 'syntax-or',
+          text: 'tag:work OR tag:client',
           type: 'syntax',
-          icon: <Building size={16} color="rgba(168, 85, 247, 0.8)" />,
-          description: 'Search by company'
+          icon: <Tag size={16} color="rgba(34, 197, 94, 0.8)" />,
+          description: 'Match either tag'
         },
         {
-          id: 'syntax-tag',
-          text: 'tag:work',
+          id: 'syntax-not',
+          text: '-tag:cold',
           type: 'syntax',
-          icon: <Tag size={16} color="rgba(34, 197, 94, 0.8)" />,
-          description: 'Search by tag'
+          icon: <Filter size={16} color="rgba(255,255,255,0.6)" />,
+          description: 'Leave out a tag'
+        },
+        {
+          id: 'syntax-met',
+          text: 'met:>2025-01-01',
+          type: 'syntax',
+          icon: <Calendar size={16} color="rgba(236, 72, 153, 0.8)" />,
+          description: 'Met after a date'
+        },
+        {
+          id: 'syntax-followup',
+          text: 'followup:overdue',
+          type: 'syntax',
+          icon: <Calendar size={16} color="rgba(236, 72, 153, 0.8)" />,
+          description: 'Follow-ups past due'
         },
         {
-          id: 'syntax-city',
-          text: 'city:sf',
+          id: 'syntax-phrase',
+          text: 'company:"Acme Corp"',
           type: 'syntax',
-          icon: <MapPin size={16} color="rgba(59, 130, 246, 0.8)" />,
-          description: 'Search by city'
+          icon: <Building size={16} color="rgba(168, 85, 247, 0.8)" />,
+          description: 'Quote values with spaces'
         }
       ];
 
@@ -90,159 +127,36 @@ export function SearchSuggestions({
       return;
     }
 
-    const filtered: SearchSuggestion[] = [];
-    const lowerQuery = query.toLowerCase();
-
-    // Check if user is typing field-specific search
-    const fieldMatch = query.match(/^(\w+):/);
-    if (fieldMatch) {
-      const field = fieldMatch[1].toLowerCase();
-      const value = query.substring(fieldMatch[0].length);
-      
-      // Suggest values for the specific field
-      switch (field) {
-        case 'company':
-        case 'comp':
-          availableCompanies
-            .filter(company => company.toLowerCase().includes(value.toLowerCase()))
-            .slice(0, 5)
-            .forEach(company => {
-              filtered.push({
-                id: `field-company-${company}`,
-                text: `company:${company}`,
-                type: 'field',
-                icon: <Building size={16} color="rgba(168, 85, 247, 0.8)" />,
-                description: `Search contacts at ${company}`
-              });
-            });
-          break;
-        case 'tag':
-        case 'tags':
-          availableTags
-            .filter(tag => tag.toLowerCase().includes(value.toLowerCase()))
-            .slice(0, 5)
-            .forEach(tag => {
-              filtered.push({
-                id: `field-tag-${tag}`,
-                text: `tag:${tag}`,
-                type: 'field',
-                icon: <Tag size={16} color="rgba(34, 197, 94, 0.8)" />,
-                description: `Search contacts tagged "${tag}"`
-              });
-            });
-          break;
-        case 'city':
-        case 'location':
-          availableCities
-            .filter(city => city.toLowerCase().includes(value.toLowerCase()))
-            .slice(0, 5)
-            .forEach(city => {
-              filtered.push({
-                id: `field-city-${city}`,
-                text: `city:${city}`,
-                type: 'field',
-                icon: <MapPin size={16} color="rgba(59, 130, 246, 0.8)" />,
-                description: `Search contacts in ${city}`
-              });
-            });
-          break;
-        case 'group':
-        case 'groups':
-          availableGroups
-            .filter(group => group.toLowerCase().includes(value.toLowerCase()))
-            .slice(0, 5)
-            .forEach(group => {
-              filtered.push({
-                id: `field-group-${group}`,
-                text: `group:${group}`,
-                type: 'field',
-                icon: <Users size={16} color="rgba(245, 158, 11, 0.8)" />,
-                description: `Search contacts in "${group}" group`
-              });
-            });
-          break;
-      }
-      
-      setSuggestions(filtered);
-      return;
-    }
-
-    // Filter tags
-    availableTags
-      .filter(tag => tag.toLowerCase().includes(lowerQuery))
-      .slice(0, 3)
-      .forEach(tag => {
-        filtered.push({
-          id: `tag-${tag}`,
-          text: tag,
-          type: 'tag',
-          icon: <Tag size={16} color="rgba(34, 197, 94, 0.8)" />,
-        });
-      });
-
-    // Filter cities
-    availableCities
-      .filter(city => city.toLowerCase().includes(lowerQuery))
-      .slice(0, 3)
-      .forEach(city => {
-        filtered.push({
-          id: `city-${city}`,
-          text: city,
-          type: 'city',
-          icon: <MapPin size={16} color="rgba(59, 130, 246, 0.8)" />,
-        });
-      });
-
-    // Filter companies
-    availableCompanies
-      .filter(company => company.toLowerCase().includes(lowerQuery))
-      .slice(0, 3)
-      .forEach(company => {
-        filtered.push({
-          id: `company-${company}`,
-          text: company,
-          type: 'company',
-          icon: <Building size={16} color="rgba(168, 85, 247, 0.8)" />,
-        });
-      });
-
-    // Filter groups
-    availableGroups
-      .filter(group => group.toLowerCase().includes(lowerQuery))
-      .slice(0, 3)
-      .forEach(group => {
-        filtered.push({
-          id: `group-${group}`,
-          text: group,
-          type: 'group',
-          icon: <Users size={16} color="rgba(245, 158, 11, 0.8)" />,
-        });
-      });
-
-    // Sort by relevance (exact matches first, then partial)
-    filtered.sort((a, b) => {
-      const aExact = a.text.toLowerCase() === lowerQuery;
-      const bExact = b.text.toLowerCase() === lowerQuery;
-      if (aExact && !bExact) return -1;
-      if (!aExact && bExact) return 1;
-      return a.text.localeCompare(b.text);
+    const completions = completeQuery(query, {
+      tags: availableTags,
+      groups: availableGroups,
+      companies: availableCompanies,
+      cities: availableCities,
+      countries: availableCountries,
     });
 
-    setSuggestions(filtered.slice(0, 8));
-  }, [query, availableTags, availableCities, availableCompanies, availableGroups, recentSearches]);
+    setSuggestions(completions.map(completion => ({
+      id: `${completion.kind}-${completion.text}`,
+      text: completion.text,
+      label: completion.label,
+      type: completion.kind,
+      icon: completionIcon(completion.kind, completion.field),
+      description: completion.description,
+    })));
+  }, [query, availableTags, availableCities, availableCompanies, availableGroups, availableCountries, recentSearches]);
 
   if (suggestions.length === 0 && !query) {
     return null;
   }
 
+  const queryError = query ? parseSearchQuery(query).errors[0] : undefined;
+
   const getTypeLabel = (type: SearchSuggestion['type']) => {
     switch (type) {
       case 'recent': return 'Recent';
-      case 'tag': return 'Tag';
-      case 'city': return 'City';
-      case 'company': return 'Company';
-      case 'group': return 'Group';
-      case 'field': return 'Field Search';
+      case 'field': return 'Field';
+      case 'value': return 'Value';
+      case 'operator': return 'Operator';
       case 'syntax': return 'Search Tip';
       default: return '';
     }
@@ -291,14 +205,14 @@ export function SearchSuggestions({
                 onPress={() => onSelect(suggestion.text)}
                 accessible={true}
                 accessibilityRole="button"
-                accessibilityLabel={`Search for ${suggestion.text}`}
+                accessibilityLabel={`Search for ${suggestion.label || suggestion.text}`}
                 accessibilityHint={`${getTypeLabel(suggestion.type)} suggestion. Double tap to select`}
               >
                 <View style={styles.suggestionIcon}>
                   {suggestion.icon}
                 </View>
                 <View style={styles.suggestionContent}>
-                  <Text style={styles.suggestionText}>{suggestion.text}</Text>
+                  <Text style={styles.suggestionText}>{suggestion.label || suggestion.text}</Text>
                   {suggestion.description ? (
                     <Text style={styles.suggestionDescription}>
                       {suggestion.description}
@@ -323,7 +237,7 @@ export function SearchSuggestions({
             <Search size={32} color="rgba(255,255,255,0.3)" />
             <Text style={styles.noSuggestionsText}>No suggestions found</Text>
             <Text style={styles.noSuggestionsSubtext}>
-              Try typing a contact name, company, or tag
+              {queryError || 'Try typing a contact name, company, or tag'}
             </Text>
           </Animated.View>
         )}
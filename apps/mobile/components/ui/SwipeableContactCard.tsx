@@ -1,6 +1,6 @@
 import React, { memo } from 'react';
 import { View, Text, StyleSheet, Platform } from 'react-native';
-import { StarIcon, Trash2, Edit3 } from 'lucide-react-native';
+import { StarIcon, Trash2, Edit3, MessageSquarePlus } from 'lucide-react-native';
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -10,6 +10,7 @@ import Animated, {
   interpolateColor
 } from 'react-native-reanimated';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import type { HighlightTerms } from '../../utils/searchQuery';
 
 // Haptics import with Platform check
 const HapticsModule = Platform.OS !== 'web' ? require('expo-haptics') : null;
@@ -31,6 +32,9 @@ interface SwipeableContactCardProps {
   onDelete: () => void;
   onView: () => void;
   onSendToHubSpot: () => void;
+  /** Enables a longer right swipe that logs an interaction */
+  onLogInteraction?: () => void;
+  highlight?: HighlightTerms;
 }
 
 export const SwipeableContactCard = memo<SwipeableContactCardProps>(function SwipeableContactCard({
@@ -39,7 +43,9 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
   onEdit,
   onDelete,
   onView,
-  onSendToHubSpot
+  onSendToHubSpot,
+  onLogInteraction,
+  highlight
 }) {
   const translateX = useSharedValue(0);
   const actionTriggered = useSharedValue(false);
@@ -67,7 +73,15 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
       onPress: onStar,
       threshold: 80,
     },
+    ...(onLogInteraction ? [{
+      id: 'log',
+      icon: <MessageSquarePlus size={20} color="white" />,
+      backgroundColor: '#0d9488',
+      onPress: onLogInteraction,
+      threshold: 120,
+    }] : []),
   ];
+  const maxLeftSwipe = leftActions.length * 80;
 
   const rightActions: SwipeAction[] = [
     {
@@ -92,7 +106,6 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
     })
     .onUpdate((event) => {
       // Allow swiping in both directions but limit the distance
-      const maxLeftSwipe = leftActions.length * 80;
       const maxRightSwipe = rightActions.length * 80;
       
       translateX.value = Math.max(
@@ -113,7 +126,11 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
       const shouldTriggerAction = Math.abs(translationX) > 80 || Math.abs(velocityX) > 500;
 
       if (shouldTriggerAction) {
-        if (translationX > 0) {
+        if (translationX > 120 && onLogInteraction) {
+          // Long left swipe (log interaction)
+          runOnJS(triggerHaptic)('heavy');
+          runOnJS(onLogInteraction)();
+        } else if (translationX > 0) {
           // Left swipe (star action)
           runOnJS(triggerHaptic)('heavy');
           runOnJS(onStar)();
@@ -147,8 +164,8 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
   const leftActionsAnimatedStyle = useAnimatedStyle(() => {
     const width = interpolate(
       translateX.value,
-      [0, 80],
-      [0, 80],
+      [0, maxLeftSwipe],
+      [0, maxLeftSwipe],
       'clamp'
     );
     
@@ -232,7 +249,7 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
             ]}
             accessible={true}
             accessibilityRole="button"
-            accessibilityLabel={action.id === 'star' ? (contact.starred ? "Remove from starred" : "Add to starred") : action.id}
+            accessibilityLabel={action.id === 'star' ? (contact.starred ? "Remove from starred" : "Add to starred") : action.id === 'log' ? "Log interaction" : action.id}
             accessibilityHint="Swipe right to access this action"
           >
             {action.icon}
@@ -277,7 +294,9 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
           accessible={true}
           accessibilityRole="button"
           accessibilityLabel={`Contact: ${contact.name}. Swipe left or right for quick actions.`}
-          accessibilityHint="Swipe right to star, swipe left to edit or delete"
+          accessibilityHint={onLogInteraction
+            ? "Swipe right to star, further right to log an interaction, swipe left to edit or delete"
+            : "Swipe right to star, swipe left to edit or delete"}
         >
           <ContactCard
             contact={contact}
@@ -286,6 +305,7 @@ export const SwipeableContactCard = memo<SwipeableContactCardProps>(function Swi
             onDelete={onDelete}
             onView={onView}
             onSendToHubSpot={onSendToHubSpot}
+            highlight={highlight}
           />
         </Animated.View>
       </GestureDetector>
@@ -3,7 +3,7 @@
  * 
  * This context provides global state management for the entire application, handling:
  * - Professional contact data and operations
- * - Group management (conferences, clients, prospects, teams)
+ * - Group management (clients, prospects, teams) and events (conferences, meetups)
  * - UI state (modals, views, editing states)
  * - Offline queue for data synchronization
  * - CRM integration and sync management
@@ -12,12 +12,22 @@
  * @version 1.0.0
  */
 
-import React, { createContext, useContext, useState, useMemo, ReactNode, useEffect, useCallback } from 'react';
-import { Contact, ContactGroup, EnrichmentSuggestion, ViewType, ContactFilters, ImportedContact, SearchHistory } from '../types/contact';
+import React, { createContext, useContext, useState, useMemo, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { Contact, ContactGroup, EnrichmentSuggestion, ViewType, ContactFilters, ImportedContact, SearchHistory, SavedSearch, SyncableField, Interaction, InteractionType, NetworkingEvent, EventStats } from '../types/contact';
 // Mock data removed - now using real data from backend
 import { storageService, OfflineQueueItem } from '../services/storageService';
 import { syncService } from '../services/syncService';
 import { hubspotSyncService } from '../services/hubspotSync';
+import { crmService } from '../services/crmService';
+import { resolveFieldConflict, stampFieldChanges } from '../services/conflictResolution';
+import { mergeContacts as buildMergedContact, type MergeChoices } from '../utils/contactMerge';
+import { applyConnectionScore, applyDeletedInteraction, applyLoggedInteraction, reconcileInteractionSync, todayDate } from '../utils/interactions';
+import { completeFollowup as nextAfterCompleting, snoozeFollowup as nextAfterSnoozing } from '../utils/followups';
+import { reminderService } from '../services/reminderService';
+import { highlightTerms, parseSearchQuery, type HighlightTerms, type ParsedQuery } from '../utils/searchQuery';
+import { ContactSearchIndex } from '../utils/searchIndex';
+import { applyContactFilters, buildSmartLists, mergeSavedSearches, reconcileSavedSearchSync, unqueuedSavedSearches, type SmartList } from '../utils/smartLists';
+import { applyActiveEvent, buildEventStats, linkContactsToEvents, mergeEvents, reconcileEventSync, sortEvents, unqueuedEventSaves } from '../utils/events';
 
 
 
@@ -43,6 +53,12 @@ interface AppState {
   groups: ContactGroup[];
   /** Array of pending enrichment suggestions */
   suggestions: EnrichmentSuggestion[];
+  /** Logged meetings, calls and emails for all contacts */
+  interactions: Interaction[];
+  /** Conferences and meetups, most recent first */
+  events: NetworkingEvent[];
+  /** Event new contacts are being met at, null if none */
+  activeEventId: string | null;
   
   // UI state
   /** Whether the add contact modal is visible */
@@ -77,6 +93,37 @@ interface AppState {
   searchHistory: SearchHistory;
 }
 
+export interface NewContactPayload {
+  name: string;
+  identifier: string;
+  company?: string;
+  title?: string;
+  note?: string;
+  linkedinUrl?: string;
+  firstMetLocation?: string;
+  firstMetDate?: string;
+  tags: string[];
+  groups: string[];
+}
+
+export interface NewEventPayload {
+  name: string;
+  startDate: string;
+  endDate?: string;
+  venue?: string;
+  agendaUrl?: string;
+}
+
+export interface NewInteractionPayload {
+  type: InteractionType;
+  date: string;
+  notes?: string;
+  location?: string;
+  durationMinutes?: number;
+  followUpNeeded?: boolean;
+  direction?: Interaction['direction'];
+}
+
 interface AppActions {
   // View actions
   setView: (view: ViewType) => void;
@@ -85,23 +132,38 @@ interface AppActions {
   setShowFilterModal: (show: boolean) => void;
   
   // Contact actions
-  addContact: (payload: {
-    name: string;
-    identifier: string;
-    company?: string;
-    title?: string;
-    note?: string;
-    tags: string[];
-    groups: string[];
-  }) => void;
+  addContact: (payload: NewContactPayload) => void;
+  /** Add several contacts at once, optionally all into one event group */
+  addContacts: (payloads: NewContactPayload[], eventGroup?: string) => void;
   updateContact: (id: string, updates: Partial<Contact>) => void;
   deleteContact: (id: string) => void;
   toggleStar: (id: string) => void;
+  resolveSyncConflict: (contactId: string, field: SyncableField, choice: 'local' | 'remote') => void;
+  /** Merge a duplicate into the primary contact, which keeps its id */
+  mergeContacts: (primaryId: string, duplicateId: string, choices?: MergeChoices) => void;
+  /** Log a meeting, call or email, updating the contact's interaction counters */
+  logInteraction: (contactId: string, payload: NewInteractionPayload) => void;
+  deleteInteraction: (interactionId: string) => void;
+  /** Set the connection strength by hand and lock it, or unlock it to follow the computed score */
+  setConnectionStrength: (contactId: string, strength: Contact['connectionStrength'] | null, locked: boolean) => void;
+  /** Set, reschedule or clear a follow-up; a cadence in days makes it recurring */
+  setFollowup: (contactId: string, nextFollowupDate: string | null, cadenceDays: number | null) => void;
+  /** Mark a follow-up done; recurring ones move to the next date */
+  completeFollowup: (contactId: string) => void;
+  snoozeFollowup: (contactId: string, days: number) => void;
   
   // Group actions
   addGroup: (payload: { name: string; type: string; location?: string }) => void;
   updateGroup: (id: string, updates: { name: string; type: string; location?: string }) => void;
   deleteGroup: (id: string) => void;
+
+  // Event actions
+  addEvent: (payload: NewEventPayload) => NetworkingEvent;
+  updateEvent: (id: string, updates: Partial<NewEventPayload>) => void;
+  /** Remove an event; the contacts met there are kept, just no longer linked to it */
+  deleteEvent: (id: string) => void;
+  /** Tag new contacts with the event and take their first-met details from it, or stop (null) */
+  setActiveEvent: (id: string | null) => void;
   
   // Import actions
   importContacts: (importedContacts: ImportedContact[]) => void;
@@ -128,6 +190,15 @@ interface AppActions {
   // Search actions
   addRecentSearch: (searchTerm: string) => void;
   clearRecentSearches: () => void;
+  /** Save filters (the current ones by default) as a smart list */
+  saveSearch: (name: string, options?: { filters?: ContactFilters; pinned?: boolean }) => SavedSearch;
+  /** Rename, pin or unpin a smart list, or change its filters */
+  updateSavedSearch: (id: string, updates: Partial<Pick<SavedSearch, 'name' | 'filters' | 'pinned'>>) => void;
+  deleteSavedSearch: (id: string) => void;
+  /** Show a smart list's contacts by making its filters the current ones */
+  applySavedSearch: (id: string) => void;
+  /** Create or update a HubSpot active list from a smart list; resolves to the list ID */
+  pushSavedSearchToHubSpot: (id: string) => Promise<string>;
 }
 
 interface AppContextType {
@@ -135,6 +206,9 @@ interface AppContextType {
   actions: AppActions;
   computed: {
     filteredContacts: Contact[];
+    parsedQuery: ParsedQuery;
+    /** Words to mark in search results, including the typos they were matched as */
+    searchHighlights: HighlightTerms;
     groupMembers: Contact[];
     displayList: Contact[];
     availableTags: string[];
@@ -142,6 +216,12 @@ interface AppContextType {
     availableCompanies: string[];
     availableCities: string[];
     availableCountries: string[];
+    /** The event new contacts are being met at */
+    activeEvent: NetworkingEvent | null;
+    /** Contacts met and follow-ups done, by event id */
+    eventStats: Record<string, EventStats>;
+    /** Saved searches with their live counts, pinned first */
+    smartLists: SmartList[];
     contactCounts: {
       starred: number;
       hasEmail: number;
@@ -181,6 +261,9 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [groups, setGroups] = useState<ContactGroup[]>([]);
   const [suggestions, setSuggestions] = useState<EnrichmentSuggestion[]>([]);
+  const [interactions, setInteractions] = useState<Interaction[]>([]);
+  const [events, setEvents] = useState<NetworkingEvent[]>([]);
+  const [activeEventId, setActiveEventId] = useState<string | null>(null);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   
@@ -250,6 +333,30 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
         // Load offline queue
         const existingQueue = await storageService.getOfflineQueue();
         setOfflineQueue(existingQueue);
+
+        const savedInteractions = await storageService.loadInteractions();
+        setInteractions(reconcileInteractionSync(savedInteractions, existingQueue));
+
+        const savedSearches = reconcileSavedSearchSync(await storageService.loadSavedSearches(), existingQueue);
+        setSearchHistory((prev) => ({ ...prev, savedSearches }));
+
+        const savedEvents = reconcileEventSync(await storageService.loadEvents(), existingQueue);
+        setEvents(savedEvents);
+
+        // Saves cut short when the app was closed have to be uploaded again
+        const unqueued = [
+          ...unqueuedSavedSearches(savedSearches, existingQueue)
+            .map((search) => ({ type: 'save_search' as const, payload: { search } })),
+          ...unqueuedEventSaves(savedEvents, existingQueue)
+            .map((event) => ({ type: 'save_event' as const, payload: { event } })),
+        ];
+        for (const item of unqueued) {
+          await storageService.addToOfflineQueue({ ...item, status: 'pending' });
+        }
+        if (unqueued.length > 0) {
+          setOfflineQueue(await storageService.getOfflineQueue());
+        }
+        setActiveEventId(await storageService.loadActiveEventId());
         
       } catch (error) {
         console.error('Failed to load app state, starting with empty data:', error);
@@ -298,6 +405,104 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     }
   }, [contacts, groups, suggestions, filters, isDataLoaded]);
 
+  useEffect(() => {
+    if (isDataLoaded) {
+      storageService.saveInteractions(interactions).catch((error) => {
+        console.error('Failed to save interactions:', error);
+      });
+    }
+  }, [interactions, isDataLoaded]);
+
+  useEffect(() => {
+    if (isDataLoaded) {
+      storageService.saveSavedSearches(searchHistory.savedSearches).catch((error) => {
+        console.error('Failed to save saved searches:', error);
+      });
+    }
+  }, [searchHistory.savedSearches, isDataLoaded]);
+
+  useEffect(() => {
+    if (isDataLoaded) {
+      storageService.saveEvents(events).catch((error) => {
+        console.error('Failed to save events:', error);
+      });
+    }
+  }, [events, isDataLoaded]);
+
+  useEffect(() => {
+    if (isDataLoaded) {
+      storageService.saveActiveEventId(activeEventId).catch((error) => {
+        console.error('Failed to save active event:', error);
+      });
+    }
+  }, [activeEventId, isDataLoaded]);
+
+  // Pick up smart lists saved, changed or deleted on the user's other devices
+  useEffect(() => {
+    if (!isDataLoaded || !isOnline) return;
+
+    const refreshSavedSearches = async () => {
+      try {
+        const remote = await syncService.fetchSavedSearches();
+        const queue = await storageService.getOfflineQueue();
+        const pendingDeletes = queue
+          .filter((item) => item.type === 'delete_search')
+          .flatMap((item) => [item.payload?.id, item.payload?.serverId].filter(Boolean));
+        setSearchHistory((prev) => ({
+          ...prev,
+          savedSearches: mergeSavedSearches(prev.savedSearches, remote, pendingDeletes),
+        }));
+      } catch (error) {
+        console.error('Failed to fetch saved searches:', error);
+      }
+    };
+
+    refreshSavedSearches();
+  }, [isDataLoaded, isOnline]);
+
+  // The events as they are when a server fetch comes back, rather than when it started
+  const eventsRef = useRef(events);
+  useEffect(() => {
+    eventsRef.current = events;
+  }, [events]);
+
+  // Pick up events added elsewhere, and contacts linked to events on the server
+  useEffect(() => {
+    if (!isDataLoaded || !isOnline) return;
+
+    const refreshEvents = async () => {
+      try {
+        const remote = await syncService.fetchEvents();
+        const queue = await storageService.getOfflineQueue();
+        const pendingDeletes = queue
+          .filter((item) => item.type === 'delete_event')
+          .flatMap((item) => [item.payload?.id, item.payload?.serverId].filter(Boolean));
+        const merged = mergeEvents(eventsRef.current, remote, pendingDeletes);
+        setEvents(merged);
+        setContacts((prev) => linkContactsToEvents(prev, merged, remote));
+      } catch (error) {
+        console.error('Failed to fetch events:', error);
+      }
+    };
+
+    refreshEvents();
+  }, [isDataLoaded, isOnline]);
+
+  // Only the fields a reminder shows, so unrelated edits don't reschedule notifications
+  const followupReminderKey = useMemo(() => JSON.stringify(
+    contacts
+      .filter((c) => c.nextFollowupDate)
+      .map(({ id, name, firstName, lastName, company, nextFollowupDate, followupCadenceDays }) => ({
+        id, name, firstName, lastName, company, nextFollowupDate, followupCadenceDays,
+      }))
+  ), [contacts]);
+
+  useEffect(() => {
+    if (isDataLoaded) {
+      reminderService.scheduleFollowupReminders(JSON.parse(followupReminderKey));
+    }
+  }, [followupReminderKey, isDataLoaded]);
+
   // Auto-sync offline queue when online
   useEffect(() => {
     let syncInterval: NodeJS.Timeout;
@@ -310,6 +515,12 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
             // Refresh queue after successful sync
             const updatedQueue = await storageService.getOfflineQueue();
             setOfflineQueue(updatedQueue);
+            setInteractions((prev) => reconcileInteractionSync(prev, updatedQueue));
+            setSearchHistory((prev) => {
+              const savedSearches = reconcileSavedSearchSync(prev.savedSearches, updatedQueue, result.serverIds);
+              return savedSearches === prev.savedSearches ? prev : { ...prev, savedSearches };
+            });
+            setEvents((prev) => reconcileEventSync(prev, updatedQueue, result.serverIds));
           }
         } catch (error) {
           console.error('Auto-sync failed:', error);
@@ -339,81 +550,108 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
   }, []);
 
   // Contact actions
-  const addContact = useMemo(() => (payload: {
-    name: string;
-    identifier: string;
-    company?: string;
-    title?: string;
-    note?: string;
-    tags: string[];
-    groups: string[];
-  }) => {
-    const id = `c${Date.now()}`;
-    const identType = payload.identifier.includes("@")
-      ? "email"
-      : payload.identifier.startsWith("+")
-      ? "phone"
-      : "url";
-
-    const newContact: Contact = {
-      id,
-      name: payload.name,
-      identifiers: [{ type: identType as 'email' | 'phone' | 'linkedin' | 'url', value: payload.identifier }],
-      company: payload.company || "",
-      title: payload.title || "",
-      city: "",
-      country: "",
-      groups: payload.groups,
-      tags: payload.tags,
-      note: payload.note || "",
-      starred: false,
-      lastInteraction: Date.now(),
-    };
+  const addContacts = useMemo(() => (payloads: NewContactPayload[], eventGroup?: string) => {
+    const now = Date.now();
+    const today = todayDate();
+    const metAt = events.find((e) => e.id === activeEventId);
+    const newContacts: Contact[] = payloads.map((payload, index) => {
+      const identType = payload.identifier.includes("@")
+        ? "email"
+        : payload.identifier.startsWith("+")
+        ? "phone"
+        : "url";
+      const nameParts = payload.name.trim().split(/\s+/);
+
+      const contact: Contact = {
+        id: payloads.length === 1 ? `c${now}` : `c${now}-${index}`,
+        firstName: nameParts[0] || '',
+        lastName: nameParts.slice(1).join(' '),
+        name: payload.name,
+        identifiers: [
+          { type: identType as 'email' | 'phone' | 'linkedin' | 'url', value: payload.identifier },
+          ...(payload.linkedinUrl ? [{ type: 'linkedin' as const, value: payload.linkedinUrl }] : []),
+        ],
+        company: payload.company || "",
+        title: payload.title || "",
+        linkedinUrl: payload.linkedinUrl,
+        firstMetLocation: payload.firstMetLocation,
+        firstMetDate: payload.firstMetDate,
+        city: "",
+        country: "",
+        groups: eventGroup && !payload.groups.includes(eventGroup)
+          ? [eventGroup, ...payload.groups]
+          : payload.groups,
+        tags: payload.tags,
+        note: payload.note || "",
+        starred: false,
+        lastInteraction: now,
+      };
+      return metAt ? applyActiveEvent(contact, metAt, today) : contact;
+    });
+
+    setContacts((prev) => [...newContacts, ...prev]);
 
-    setContacts((prev) => [newContact, ...prev]);
+    // Handle groups against the latest state, so a batch never creates the same group twice
+    setGroups((prev) => {
+      const groupNames = Array.from(new Set(newContacts.flatMap((c) => c.groups || [])));
+      const membersOf = (gname: string) => newContacts.filter((c) => (c.groups || []).includes(gname)).map((c) => c.id);
 
-    // Handle groups
-    payload.groups.forEach((gname) => {
-      const existingGroup = groups.find((g) => g.name === gname);
-      if (!existingGroup) {
-        const gid = `g${Date.now()}-${Math.random()}`;
-        const newGroup: ContactGroup = {
-          id: gid,
+      const updatedGroups = prev.map((g) =>
+        groupNames.includes(g.name)
+          ? { ...g, members: [...new Set([...g.members, ...membersOf(g.name)])] }
+          : g
+      );
+      const createdGroups: ContactGroup[] = groupNames
+        .filter((gname) => !prev.some((g) => g.name === gname))
+        .map((gname) => ({
+          id: `g${Date.now()}-${Math.random()}`,
           name: gname,
-          type: "custom" as const,
+          type: gname === eventGroup ? "event" as const : "custom" as const,
           location: "",
-          members: [id]
-        };
-        setGroups((prev) => [...prev, newGroup]);
-      } else {
-        setGroups((prev) => prev.map((g) =>
-          g.id === existingGroup.id
-            ? { ...g, members: [...new Set([...g.members, id])] }
-            : g
-        ));
-      }
+          members: membersOf(gname)
+        }));
+
+      return [...updatedGroups, ...createdGroups];
     });
 
-    // Send to backend and sync to HubSpot
-    if (isOnline) {
-      syncService.syncContact(newContact).catch((error) => {
-        console.error('Failed to sync contact to backend:', error);
-        // Add to offline queue for retry
+    newContacts.forEach((newContact) => {
+      // Notify outbound webhooks; failures are recorded in each connection's delivery log
+      crmService.dispatchContactEvent('contact.created', newContact).catch((error) => {
+        console.error('Failed to dispatch contact.created webhook:', error);
+      });
+
+      // Send to backend and sync to HubSpot
+      if (isOnline) {
+        syncService.syncContact(newContact).then(({ serverId, hubspotContactId }) => {
+          // Interactions are uploaded against these IDs
+          if (serverId || hubspotContactId) {
+            setContacts((prev) => prev.map((c) => (c.id === newContact.id
+              ? { ...c, serverId: serverId || c.serverId, hubspotContactId: hubspotContactId || c.hubspotContactId }
+              : c)));
+          }
+        }).catch((error) => {
+          console.error('Failed to sync contact to backend:', error);
+          // Add to offline queue for retry
+          addToOfflineQueue({
+            type: 'add_contact',
+            payload: newContact,
+            status: 'pending'
+          });
+        });
+      } else {
+        // Add to offline queue if offline
         addToOfflineQueue({
           type: 'add_contact',
           payload: newContact,
           status: 'pending'
         });
-      });
-    } else {
-      // Add to offline queue if offline
-      addToOfflineQueue({
-        type: 'add_contact',
-        payload: newContact,
-        status: 'pending'
-      });
-    }
-  }, [groups, isOnline, addToOfflineQueue]);
+      }
+    });
+  }, [isOnline, addToOfflineQueue, events, activeEventId]);
+
+  const addContact = useMemo(() => (payload: NewContactPayload) => {
+    addContacts([payload]);
+  }, [addContacts]);
 
   const updateContact = useMemo(() => (id: string, updates: Partial<Contact>) => {
     let updatedContact: Contact | undefined;
@@ -421,7 +659,8 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     setContacts((prev) => {
       const newContacts = prev.map((c) => {
         if (c.id === id) {
-          updatedContact = { ...c, ...updates };
+          // Track per-field edit times so HubSpot changes can be merged field by field
+          updatedContact = { ...c, ...updates, fieldUpdatedAt: stampFieldChanges(c, updates) };
           return updatedContact;
         }
         return c;
@@ -429,6 +668,12 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
       return newContacts;
     });
 
+    if (updatedContact) {
+      crmService.dispatchContactEvent('contact.updated', updatedContact).catch((error) => {
+        console.error('Failed to dispatch contact.updated webhook:', error);
+      });
+    }
+
     // Handle sync based on online status
     if (!isOnline) {
       // Add to offline queue if offline
@@ -471,8 +716,17 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
   }, [isOnline, addToOfflineQueue]);
 
   const deleteContact = useMemo(() => (id: string) => {
+    const deletedContact = contacts.find((c) => c.id === id);
+
     setContacts((prev) => prev.filter((c) => c.id !== id));
     setGroups((prev) => prev.map((g) => ({ ...g, members: g.members.filter((m) => m !== id) })));
+    setInteractions((prev) => prev.filter((interaction) => interaction.contactId !== id));
+
+    if (deletedContact) {
+      crmService.dispatchContactEvent('contact.deleted', deletedContact).catch((error) => {
+        console.error('Failed to dispatch contact.deleted webhook:', error);
+      });
+    }
     
     // Add to offline queue if offline
     if (!isOnline) {
@@ -482,12 +736,307 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
         status: 'pending'
       });
     }
-  }, [isOnline, addToOfflineQueue]);
+  }, [contacts, isOnline, addToOfflineQueue]);
 
   const toggleStar = useMemo(() => (id: string) => {
     setContacts((prev) => prev.map((c) => (c.id === id ? { ...c, starred: !c.starred } : c)));
   }, []);
 
+  const resolveSyncConflict = useCallback((contactId: string, field: SyncableField, choice: 'local' | 'remote') => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return;
+
+    const resolved = resolveFieldConflict(contact, field, choice);
+    if (resolved === contact) return;
+
+    setContacts((prev) => prev.map((c) => (c.id === contactId ? resolved : c)));
+    setViewingContact((current) => (current?.id === contactId ? resolved : current));
+
+    // The conflict may also be queued on the server from a HubSpot webhook. If this
+    // fails, the next pull will not bring it back, since the field was decided here.
+    if (isOnline && resolved.hubspotContactId) {
+      hubspotSyncService.resolveServerConflict(resolved.hubspotContactId, field, choice)
+        .catch((error) => console.error('Failed to resolve conflict on server:', error));
+    }
+
+    // Keeping the local value means HubSpot still holds the other one, so push it back
+    if (choice === 'local' && resolved.hubspotContactId) {
+      if (!isOnline) {
+        addToOfflineQueue({
+          type: 'edit_contact',
+          payload: { id: contactId, updates: { [field]: resolved[field] } },
+          status: 'pending'
+        });
+        return;
+      }
+
+      syncService.syncContactUpdate(resolved, resolved.hubspotContactId)
+        .then(() => {
+          setContacts((prev) => prev.map((c) =>
+            c.id === contactId ? {
+              ...c,
+              needsSync: false,
+              syncStatus: 'synced',
+              lastSyncedAt: new Date().toISOString()
+            } : c
+          ));
+        })
+        .catch((error) => {
+          console.error('Failed to push resolved conflict to HubSpot:', error);
+          setContacts((prev) => prev.map((c) =>
+            c.id === contactId ? { ...c, syncStatus: 'failed', syncError: error.message } : c
+          ));
+        });
+    }
+  }, [contacts, isOnline, addToOfflineQueue]);
+
+  const mergeContacts = useMemo(() => (primaryId: string, duplicateId: string, choices: MergeChoices = {}) => {
+    const primary = contacts.find((c) => c.id === primaryId);
+    const duplicate = contacts.find((c) => c.id === duplicateId);
+    if (!primary || !duplicate || primary.id === duplicate.id) return;
+
+    const combined = buildMergedContact(primary, duplicate, choices);
+    const merged: Contact = { ...combined, fieldUpdatedAt: stampFieldChanges(primary, combined) };
+
+    setContacts((prev) => prev
+      .filter((c) => c.id !== duplicateId)
+      .map((c) => (c.id === primaryId ? merged : c)));
+    setGroups((prev) => prev.map((g) => (g.members.includes(duplicateId) || merged.groups?.includes(g.name)
+      ? { ...g, members: [...new Set([...g.members.filter((m) => m !== duplicateId), primaryId])] }
+      : g)));
+    setViewingContact((current) => (current?.id === primaryId || current?.id === duplicateId ? merged : current));
+    setInteractions((prev) => prev.map((interaction) => (interaction.contactId === duplicateId
+      ? { ...interaction, contactId: primaryId }
+      : interaction)));
+
+    crmService.dispatchContactEvent('contact.updated', merged).catch((error) => {
+      console.error('Failed to dispatch contact.updated webhook:', error);
+    });
+    crmService.dispatchContactEvent('contact.deleted', duplicate).catch((error) => {
+      console.error('Failed to dispatch contact.deleted webhook:', error);
+    });
+
+    // Both records were uploaded: merge them on the server, which merges them in HubSpot
+    // too when both are there. Otherwise the survivor simply carries the combined values.
+    const primaryRef = { serverId: primary.serverId, hubspotContactId: primary.hubspotContactId };
+    const duplicateRef = { serverId: duplicate.serverId, hubspotContactId: duplicate.hubspotContactId };
+    const mergeOnServer = !!(primary.serverId || primary.hubspotContactId) &&
+      !!(duplicate.serverId || duplicate.hubspotContactId) &&
+      !(primary.hubspotContactId && primary.hubspotContactId === duplicate.hubspotContactId);
+
+    if (!isOnline) {
+      addToOfflineQueue(mergeOnServer ? {
+        type: 'merge_contacts',
+        payload: { contact: merged, primary: primaryRef, duplicate: duplicateRef },
+        status: 'pending'
+      } : {
+        type: 'edit_contact',
+        payload: { id: primaryId, updates: merged },
+        status: 'pending'
+      });
+      return;
+    }
+
+    const sync = mergeOnServer
+      ? syncService.syncContactMerge(merged, primaryRef, duplicateRef)
+      : merged.hubspotContactId
+      ? syncService.syncContactUpdate(merged, merged.hubspotContactId)
+      : null;
+
+    sync?.then(() => {
+      setContacts((prev) => prev.map((c) =>
+        c.id === primaryId ? { ...c, needsSync: false, syncStatus: 'synced', lastSyncedAt: new Date().toISOString() } : c
+      ));
+    }).catch((error) => {
+      console.error('Failed to sync merged contact:', error);
+      setContacts((prev) => prev.map((c) =>
+        c.id === primaryId ? { ...c, syncStatus: 'failed', syncError: error.message } : c
+      ));
+    });
+  }, [contacts, isOnline, addToOfflineQueue]);
+
+  const logInteraction = useMemo(() => (contactId: string, payload: NewInteractionPayload) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return;
+
+    const interaction: Interaction = {
+      ...payload,
+      id: `i${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      contactId,
+      createdAt: new Date().toISOString(),
+      syncStatus: isOnline ? undefined : 'pending',
+    };
+    // Scored locally for immediate feedback; the server rescores from the full history
+    const timeline = [interaction, ...interactions.filter((i) => i.contactId === contactId)];
+    const rescore = (c: Contact) => applyConnectionScore(applyLoggedInteraction(c, interaction), timeline);
+    const updated = rescore(contact);
+
+    setInteractions((prev) => [interaction, ...prev]);
+    setContacts((prev) => prev.map((c) => (c.id === contactId ? rescore(c) : c)));
+    setViewingContact((current) => (current?.id === contactId ? updated : current));
+
+    const queueInteraction = () => addToOfflineQueue({
+      type: 'add_interaction',
+      payload: {
+        interaction,
+        contactId,
+        serverId: contact.serverId,
+        hubspotContactId: contact.hubspotContactId,
+      },
+      status: 'pending'
+    });
+
+    if (!isOnline) {
+      queueInteraction();
+      return;
+    }
+
+    syncService.syncInteraction(interaction, contact)
+      .then(() => {
+        setInteractions((prev) => prev.map((i) => (i.id === interaction.id ? { ...i, syncStatus: 'synced' } : i)));
+      })
+      .catch((error) => {
+        console.error('Failed to sync interaction:', error);
+        setInteractions((prev) => prev.map((i) => (i.id === interaction.id ? { ...i, syncStatus: 'pending' } : i)));
+        queueInteraction();
+      });
+  }, [contacts, interactions, isOnline, addToOfflineQueue]);
+
+  const deleteInteraction = useMemo(() => (interactionId: string) => {
+    const interaction = interactions.find((i) => i.id === interactionId);
+    if (!interaction) return;
+
+    const remaining = interactions.filter((i) => i.contactId === interaction.contactId && i.id !== interactionId);
+
+    const rescore = (c: Contact) => applyConnectionScore(applyDeletedInteraction(c, interaction, remaining), remaining);
+
+    setInteractions((prev) => prev.filter((i) => i.id !== interactionId));
+    setContacts((prev) => prev.map((c) => (c.id === interaction.contactId ? rescore(c) : c)));
+    setViewingContact((current) => (current?.id === interaction.contactId ? rescore(current) : current));
+
+    // Never uploaded: drop it from the queue instead of deleting it on the server
+    const queued = offlineQueue.find((item) => item.type === 'add_interaction' && item.payload?.interaction?.id === interactionId);
+    if (queued) {
+      storageService.removeFromOfflineQueue(queued.id)
+        .then(() => storageService.getOfflineQueue())
+        .then(setOfflineQueue)
+        .catch((error) => console.error('Failed to remove queued interaction:', error));
+      return;
+    }
+
+    if (!isOnline) {
+      addToOfflineQueue({
+        type: 'delete_interaction',
+        payload: { id: interactionId },
+        status: 'pending'
+      });
+      return;
+    }
+
+    syncService.syncInteractionDelete(interactionId).catch((error) => {
+      console.error('Failed to delete interaction on server:', error);
+      addToOfflineQueue({
+        type: 'delete_interaction',
+        payload: { id: interactionId },
+        status: 'pending'
+      });
+    });
+  }, [interactions, offlineQueue, isOnline, addToOfflineQueue]);
+
+  const setConnectionStrength = useMemo(() => (contactId: string, strength: Contact['connectionStrength'] | null, locked: boolean) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return;
+
+    const updated = locked
+      ? { ...contact, connectionStrength: strength || contact.connectionStrength, connectionStrengthLocked: true }
+      : applyConnectionScore(
+          { ...contact, connectionStrengthLocked: false },
+          interactions.filter((i) => i.contactId === contactId)
+        );
+
+    setContacts((prev) => prev.map((c) => (c.id === contactId ? updated : c)));
+    setViewingContact((current) => (current?.id === contactId ? updated : current));
+
+    const payload = {
+      contactId,
+      serverId: contact.serverId,
+      hubspotContactId: contact.hubspotContactId,
+      strength: locked ? updated.connectionStrength : undefined,
+      locked,
+    };
+
+    if (!isOnline) {
+      addToOfflineQueue({ type: 'set_connection_strength', payload, status: 'pending' });
+      return;
+    }
+
+    syncService.syncConnectionStrength(payload)
+      .then((result) => {
+        // The server scores the full interaction history, which may include more than this device has
+        if (result && typeof result.score === 'number') {
+          setContacts((prev) => prev.map((c) => (c.id === contactId ? {
+            ...c,
+            connectionScore: result.score,
+            connectionScoreExplanation: result.explanation || c.connectionScoreExplanation,
+            connectionScoreFactors: result.factors || c.connectionScoreFactors,
+            connectionStrength: result.strength || c.connectionStrength,
+          } : c)));
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to sync connection strength:', error);
+        addToOfflineQueue({ type: 'set_connection_strength', payload, status: 'pending' });
+      });
+  }, [contacts, interactions, isOnline, addToOfflineQueue]);
+
+  const setFollowup = useMemo(() => (contactId: string, nextFollowupDate: string | null, cadenceDays: number | null) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return;
+
+    const updated: Contact = {
+      ...contact,
+      nextFollowupDate: nextFollowupDate || undefined,
+      followupCadenceDays: nextFollowupDate && cadenceDays ? cadenceDays : undefined,
+    };
+
+    setContacts((prev) => prev.map((c) => (c.id === contactId ? updated : c)));
+    setViewingContact((current) => (current?.id === contactId ? updated : current));
+
+    const payload = {
+      contactId,
+      serverId: contact.serverId,
+      hubspotContactId: contact.hubspotContactId,
+      nextFollowupDate: updated.nextFollowupDate || null,
+      cadenceDays: updated.followupCadenceDays || null,
+    };
+
+    if (!isOnline) {
+      addToOfflineQueue({ type: 'set_followup', payload, status: 'pending' });
+      return;
+    }
+
+    syncService.syncFollowup(payload).catch((error) => {
+      console.error('Failed to sync follow-up:', error);
+      addToOfflineQueue({ type: 'set_followup', payload, status: 'pending' });
+    });
+  }, [contacts, isOnline, addToOfflineQueue]);
+
+  const completeFollowup = useMemo(() => (contactId: string) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return;
+
+    const next = nextAfterCompleting(contact);
+    setFollowup(contactId, next.nextFollowupDate || null, next.followupCadenceDays || null);
+  }, [contacts, setFollowup]);
+
+  const snoozeFollowup = useMemo(() => (contactId: string, days: number) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return;
+
+    const next = nextAfterSnoozing(contact, days);
+    setFollowup(contactId, next.nextFollowupDate || null, next.followupCadenceDays || null);
+  }, [contacts, setFollowup]);
+
   // Group actions
   const addGroup = useMemo(() => (payload: { name: string; type: string; location?: string }) => {
     const id = `g${Date.now()}`;
@@ -540,6 +1089,105 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     }
   }, [groups, isOnline, addToOfflineQueue]);
 
+  // Event actions
+  // Upload a new or changed event now, or queue it until the device is back online
+  const uploadEvent = useMemo(() => (event: NetworkingEvent) => {
+    const setSyncState = (syncStatus: NetworkingEvent['syncStatus'], serverId?: string) => {
+      setEvents((prev) => prev.map((e) => (
+        e.id === event.id ? { ...e, syncStatus, serverId: serverId || e.serverId } : e
+      )));
+    };
+
+    // One queued save per event is enough: it uploads the event as it is by then
+    const queueSave = () => {
+      if (offlineQueue.some((item) => item.type === 'save_event' && item.payload?.event?.id === event.id)) return;
+      addToOfflineQueue({
+        type: 'save_event',
+        payload: { event },
+        status: 'pending'
+      });
+    };
+
+    if (!isOnline) {
+      queueSave();
+      return;
+    }
+
+    syncService.syncEvent(event)
+      .then((response) => setSyncState('synced', response?.event?.id))
+      .catch((error) => {
+        console.error('Failed to sync event:', error);
+        setSyncState('pending');
+        queueSave();
+      });
+  }, [isOnline, offlineQueue, addToOfflineQueue]);
+
+  const addEvent = useMemo(() => (payload: NewEventPayload) => {
+    const now = new Date().toISOString();
+    const event: NetworkingEvent = {
+      id: `e${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: payload.name,
+      startDate: payload.startDate,
+      endDate: payload.endDate || undefined,
+      venue: payload.venue || undefined,
+      agendaUrl: payload.agendaUrl || undefined,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending',
+    };
+
+    setEvents((prev) => sortEvents([...prev, event]));
+    uploadEvent(event);
+    return event;
+  }, [uploadEvent]);
+
+  const updateEvent = useMemo(() => (id: string, updates: Partial<NewEventPayload>) => {
+    const current = events.find((e) => e.id === id);
+    if (!current) return;
+
+    const updated: NetworkingEvent = { ...current, ...updates, updatedAt: new Date().toISOString(), syncStatus: 'pending' };
+    setEvents((prev) => sortEvents(prev.map((e) => (e.id === id ? updated : e))));
+    uploadEvent(updated);
+  }, [events, uploadEvent]);
+
+  const deleteEvent = useMemo(() => (id: string) => {
+    const event = events.find((e) => e.id === id);
+    if (!event) return;
+
+    setEvents((prev) => prev.filter((e) => e.id !== id));
+    setContacts((prev) => prev.map((c) => (c.firstMetEventId === id ? { ...c, firstMetEventId: undefined } : c)));
+    if (activeEventId === id) {
+      setActiveEventId(null);
+    }
+
+    const eventRef = { id: event.id, serverId: event.serverId };
+    const queueDelete = () => addToOfflineQueue({
+      type: 'delete_event',
+      payload: eventRef,
+      status: 'pending'
+    });
+
+    // A save still waiting in the queue has nothing left to upload
+    const queued = offlineQueue.find((item) => item.type === 'save_event' && item.payload?.event?.id === id);
+    const dropQueuedSave = queued
+      ? storageService.removeFromOfflineQueue(queued.id)
+          .then(() => storageService.getOfflineQueue())
+          .then(setOfflineQueue)
+      : Promise.resolve();
+
+    // Deleting by client_id is safe even if the save never reached the server
+    dropQueuedSave
+      .then(() => (isOnline ? syncService.syncEventDelete(eventRef) : queueDelete()))
+      .catch((error) => {
+        console.error('Failed to delete event on server:', error);
+        queueDelete();
+      });
+  }, [events, activeEventId, offlineQueue, isOnline, addToOfflineQueue]);
+
+  const setActiveEvent = useMemo(() => (id: string | null) => {
+    setActiveEventId(id && events.some((e) => e.id === id) ? id : null);
+  }, [events]);
+
   // Suggestion actions  
   const resolveSuggestion = useMemo(() => (suggestionId: string, action: 'accept' | 'reject') => {
     // For now, just remove the suggestion
@@ -551,39 +1199,42 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
 
   // Import actions
   const importContacts = useMemo(() => (importedContacts: ImportedContact[]) => {
-    const newContacts: Contact[] = importedContacts.map(imported => ({
-      ...imported,
-      city: imported.city || '',
-      country: imported.country || '',
-    }));
+    const newContacts: Contact[] = importedContacts.map(imported => {
+      const nameParts = imported.name.trim().split(/\s+/);
+      return {
+        ...imported,
+        firstName: nameParts[0] || '',
+        lastName: nameParts.slice(1).join(' '),
+        city: imported.city || '',
+        country: imported.country || '',
+      };
+    });
     
     setContacts((prev) => [...newContacts, ...prev]);
     
-    // Handle any new groups that might be created from imported contacts
-    const newGroupNames = new Set<string>();
-    newContacts.forEach(contact => {
-      contact.groups.forEach(groupName => {
-        if (!groups.find(g => g.name === groupName)) {
-          newGroupNames.add(groupName);
-        }
-      });
+    // Add imported contacts to their groups, creating any that don't exist yet
+    setGroups((prev) => {
+      const groupNames = Array.from(new Set(newContacts.flatMap((c) => c.groups || [])));
+      const membersOf = (gname: string) => newContacts.filter((c) => c.groups.includes(gname)).map((c) => c.id);
+
+      const updatedGroups = prev.map((g) =>
+        groupNames.includes(g.name)
+          ? { ...g, members: [...new Set([...g.members, ...membersOf(g.name)])] }
+          : g
+      );
+      const createdGroups: ContactGroup[] = groupNames
+        .filter((gname) => !prev.some((g) => g.name === gname))
+        .map((gname) => ({
+          id: `g${Date.now()}-${Math.random()}`,
+          name: gname,
+          type: 'custom' as const,
+          location: '',
+          members: membersOf(gname)
+        }));
+
+      return [...updatedGroups, ...createdGroups];
     });
-    
-    // Create new groups if needed
-    if (newGroupNames.size > 0) {
-      const newGroups: ContactGroup[] = Array.from(newGroupNames).map(name => ({
-        id: `g${Date.now()}-${Math.random()}`,
-        name,
-        type: 'custom' as const,
-        location: '',
-        members: newContacts
-          .filter(c => c.groups.includes(name))
-          .map(c => c.id)
-      }));
-      
-      setGroups((prev) => [...prev, ...newGroups]);
-    }
-  }, [groups]);
+  }, []);
 
   // Update filters when query changes
   const handleSetQuery = (newQuery: string) => {
@@ -614,164 +1265,164 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     }));
   };
 
-  // Enhanced search helper function
-  const searchInContact = useCallback((contact: Contact, query: string): boolean => {
-    const q = query.trim().toLowerCase();
-    if (!q) return true;
+  // Upload a new or changed smart list now, or queue it until the device is back online
+  const uploadSavedSearch = useMemo(() => (search: SavedSearch) => {
+    const setSyncState = (syncStatus: SavedSearch['syncStatus'], serverId?: string) => {
+      setSearchHistory((prev) => ({
+        ...prev,
+        savedSearches: prev.savedSearches.map((s) => (
+          s.id === search.id ? { ...s, syncStatus, serverId: serverId || s.serverId } : s
+        )),
+      }));
+    };
 
-    // Support field-specific search syntax: "company:acme", "tag:work", "city:sf"
-    const fieldSearchRegex = /(\w+):\s*([^:\s]+)/g;
-    const fieldMatches = [...q.matchAll(fieldSearchRegex)];
-    
-    if (fieldMatches.length > 0) {
-      // Field-specific search
-      return fieldMatches.every(([, field, value]) => {
-        const searchValue = value.toLowerCase();
-        switch (field) {
-          case 'company':
-          case 'comp':
-            return contact.company?.toLowerCase().includes(searchValue) || false;
-          case 'title':
-          case 'job':
-            return contact.title?.toLowerCase().includes(searchValue) || false;
-          case 'tag':
-          case 'tags':
-            return contact.tags.some(tag => tag.toLowerCase().includes(searchValue));
-          case 'group':
-          case 'groups':
-            return contact.groups.some(group => group.toLowerCase().includes(searchValue));
-          case 'city':
-          case 'location':
-            return contact.city?.toLowerCase().includes(searchValue) || false;
-          case 'country':
-            return contact.country?.toLowerCase().includes(searchValue) || false;
-          case 'email':
-            return contact.identifiers.some(id => 
-              id.type === 'email' && id.value.toLowerCase().includes(searchValue)
-            );
-          case 'phone':
-            return contact.identifiers.some(id => 
-              id.type === 'phone' && id.value.includes(searchValue)
-            );
-          case 'name':
-            return contact.name.toLowerCase().includes(searchValue);
-          default:
-            return false;
-        }
+    // One queued save per list is enough: it uploads the list as it is by then
+    const queueSave = () => {
+      if (offlineQueue.some((item) => item.type === 'save_search' && item.payload?.search?.id === search.id)) return;
+      addToOfflineQueue({
+        type: 'save_search',
+        payload: { search },
+        status: 'pending'
       });
+    };
+
+    if (!isOnline) {
+      queueSave();
+      return;
     }
 
-    // General search across all fields (improved with weighted scoring)
-    const searchableText = [
-      contact.name,
-      contact.company,
-      contact.title,
-      contact.city,
-      contact.country,
-      contact.tags.join(" "),
-      contact.groups.join(" "),
-      contact.identifiers.map((i) => i.value).join(" "),
-      contact.note,
-    ]
-      .filter(Boolean)
-      .join(" ")
-      .toLowerCase();
-
-    return searchableText.includes(q);
-  }, []);
+    syncService.syncSavedSearch(search)
+      .then((response) => setSyncState('synced', response?.savedSearch?.id))
+      .catch((error) => {
+        console.error('Failed to sync saved search:', error);
+        setSyncState('pending');
+        queueSave();
+      });
+  }, [isOnline, offlineQueue, addToOfflineQueue]);
+
+  const saveSearch = useMemo(() => (name: string, options: { filters?: ContactFilters; pinned?: boolean } = {}) => {
+    const now = new Date().toISOString();
+    const search: SavedSearch = {
+      id: `s${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      filters: options.filters || filters,
+      pinned: Boolean(options.pinned),
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending',
+    };
 
-  // Computed values
-  const filteredContacts = useMemo(() => {
-    let filtered = [...contacts];
+    setSearchHistory((prev) => ({ ...prev, savedSearches: [...prev.savedSearches, search] }));
+    uploadSavedSearch(search);
+    return search;
+  }, [filters, uploadSavedSearch]);
 
-    // Apply enhanced text search
-    if (filters.query.trim()) {
-      filtered = filtered.filter((c) => searchInContact(c, filters.query));
-    }
+  const updateSavedSearch = useMemo(() => (id: string, updates: Partial<Pick<SavedSearch, 'name' | 'filters' | 'pinned'>>) => {
+    const current = searchHistory.savedSearches.find((s) => s.id === id);
+    if (!current) return;
 
-    // Apply starred filter
-    if (filters.starred) {
-      filtered = filtered.filter(c => c.starred);
-    }
+    const updated: SavedSearch = { ...current, ...updates, updatedAt: new Date().toISOString(), syncStatus: 'pending' };
+    setSearchHistory((prev) => ({
+      ...prev,
+      savedSearches: prev.savedSearches.map((s) => (s.id === id ? updated : s)),
+    }));
+    uploadSavedSearch(updated);
+  }, [searchHistory.savedSearches, uploadSavedSearch]);
 
-    // Apply email filter
-    if (filters.hasEmail) {
-      filtered = filtered.filter(c => c.identifiers.some(id => id.type === 'email'));
-    }
+  const deleteSavedSearch = useMemo(() => (id: string) => {
+    const search = searchHistory.savedSearches.find((s) => s.id === id);
+    if (!search) return;
 
-    // Apply phone filter
-    if (filters.hasPhone) {
-      filtered = filtered.filter(c => c.identifiers.some(id => id.type === 'phone'));
-    }
+    setSearchHistory((prev) => ({
+      ...prev,
+      savedSearches: prev.savedSearches.filter((s) => s.id !== id),
+    }));
 
-    // Apply group filter
-    if (filters.group) {
-      filtered = filtered.filter(c => c.groups.includes(filters.group!));
-    }
+    const searchRef = { id: search.id, serverId: search.serverId };
+    const queueDelete = () => addToOfflineQueue({
+      type: 'delete_search',
+      payload: searchRef,
+      status: 'pending'
+    });
 
-    // Apply tags filter
-    if (filters.tags && filters.tags.length > 0) {
-      filtered = filtered.filter(c => 
-        filters.tags!.some(tag => c.tags.includes(tag))
-      );
+    // A save still waiting in the queue has nothing left to upload
+    const queued = offlineQueue.find((item) => item.type === 'save_search' && item.payload?.search?.id === id);
+    const dropQueuedSave = queued
+      ? storageService.removeFromOfflineQueue(queued.id)
+          .then(() => storageService.getOfflineQueue())
+          .then(setOfflineQueue)
+      : Promise.resolve();
+
+    // Deleting by client_id is safe even if the save never reached the server
+    dropQueuedSave
+      .then(() => (isOnline ? syncService.syncSavedSearchDelete(searchRef) : queueDelete()))
+      .catch((error) => {
+        console.error('Failed to delete saved search on server:', error);
+        queueDelete();
+      });
+  }, [searchHistory.savedSearches, offlineQueue, isOnline, addToOfflineQueue]);
+
+  const applySavedSearch = useMemo(() => (id: string) => {
+    const search = searchHistory.savedSearches.find((s) => s.id === id);
+    if (!search) return;
+
+    const query = search.filters.query || '';
+    setFilters({ ...search.filters, query });
+    setQuery(query);
+    setActiveGroup(null);
+    setView('contacts');
+  }, [searchHistory.savedSearches]);
+
+  const pushSavedSearchToHubSpot = useMemo(() => async (id: string) => {
+    const search = searchHistory.savedSearches.find((s) => s.id === id);
+    if (!search) {
+      throw new Error('Smart list not found');
     }
-
-    // Apply LinkedIn filter
-    if (filters.hasLinkedIn) {
-      filtered = filtered.filter(c => c.identifiers.some(id => id.type === 'linkedin'));
+    if (!isOnline) {
+      throw new Error('Connect to the internet to push smart lists to HubSpot');
     }
 
-    // Apply company filter
-    if (filters.company) {
-      filtered = filtered.filter(c => 
-        c.company?.toLowerCase().includes(filters.company!.toLowerCase()) || false
-      );
+    // The list is built from the server's copy, so upload any changes first
+    let serverId = search.serverId;
+    if (!serverId || search.syncStatus !== 'synced') {
+      const response = await syncService.syncSavedSearch(search);
+      serverId = response?.savedSearch?.id;
     }
 
-    // Apply city filter
-    if (filters.city) {
-      filtered = filtered.filter(c => 
-        c.city?.toLowerCase().includes(filters.city!.toLowerCase()) || false
-      );
-    }
+    const { hubspotListId } = await syncService.pushSavedSearchToHubSpot({ id: search.id, serverId });
+    setSearchHistory((prev) => ({
+      ...prev,
+      savedSearches: prev.savedSearches.map((s) => (
+        s.id === id ? { ...s, serverId, hubspotListId, syncStatus: 'synced' } : s
+      )),
+    }));
+    return hubspotListId;
+  }, [searchHistory.savedSearches, isOnline]);
 
-    // Apply country filter
-    if (filters.country) {
-      filtered = filtered.filter(c => 
-        c.country?.toLowerCase().includes(filters.country!.toLowerCase()) || false
-      );
-    }
+  const parsedQuery = useMemo(() => parseSearchQuery(filters.query), [filters.query]);
 
-    // Apply recent interaction filter (last 30 days)
-    if (filters.recentInteraction) {
-      const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
-      filtered = filtered.filter(c => c.lastInteraction > thirtyDaysAgo);
-    }
-
-    // Apply sorting
-    if (filters.sortBy) {
-      filtered.sort((a, b) => {
-        let comparison = 0;
-        switch (filters.sortBy) {
-          case 'name':
-            comparison = a.name.localeCompare(b.name);
-            break;
-          case 'company':
-            comparison = (a.company || '').localeCompare(b.company || '');
-            break;
-          case 'lastInteraction':
-            comparison = b.lastInteraction - a.lastInteraction; // Most recent first by default
-            break;
-          case 'created':
-            comparison = (new Date(b.createdAt || 0).getTime()) - (new Date(a.createdAt || 0).getTime());
-            break;
-        }
-        return filters.sortOrder === 'desc' ? -comparison : comparison;
-      });
+  // Built on the first search, then re-indexes only the contacts that changed
+  const searchIndex = useMemo(() => new ContactSearchIndex(), []);
+
+  // Computed values
+  const filteredContacts = useMemo(() => {
+    // Ranked by the search query unless a sort is chosen
+    if (parsedQuery.root) {
+      searchIndex.sync(contacts);
     }
+    return applyContactFilters(contacts, filters, { parsed: parsedQuery, index: searchIndex });
+  }, [contacts, filters, parsedQuery, searchIndex]);
 
-    return filtered;
-  }, [contacts, filters]);
+  // Declared after filteredContacts so a new query has synced the index first
+  const searchHighlights = useMemo(() => highlightTerms(parsedQuery, searchIndex), [parsedQuery, searchIndex]);
+
+  // Counts follow the contacts live; the index only matters for lists with a search query
+  const smartLists = useMemo(() => {
+    if (searchHistory.savedSearches.some((search) => search.filters.query?.trim())) {
+      searchIndex.sync(contacts);
+    }
+    return buildSmartLists(contacts, searchHistory.savedSearches, { index: searchIndex });
+  }, [contacts, searchHistory.savedSearches, searchIndex]);
 
   const groupMembers = useMemo(() => {
     if (!activeGroup) return contacts;
@@ -819,6 +1470,12 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     return [...new Set(countries)].sort();
   }, [contacts]);
 
+  const activeEvent = useMemo(() => {
+    return events.find((e) => e.id === activeEventId) || null;
+  }, [events, activeEventId]);
+
+  const eventStats = useMemo(() => buildEventStats(events, contacts, interactions), [events, contacts, interactions]);
+
   const contactCounts = useMemo(() => {
     const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
     return {
@@ -839,6 +1496,9 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     contacts,
     groups,
     suggestions,
+    interactions,
+    events,
+    activeEventId,
     showAdd,
     editingContact,
     viewingContact,
@@ -861,12 +1521,25 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     setFilters,
     setShowFilterModal,
     addContact,
+    addContacts,
     updateContact,
     deleteContact,
     toggleStar,
+    resolveSyncConflict,
+    mergeContacts,
+    logInteraction,
+    deleteInteraction,
+    setConnectionStrength,
+    setFollowup,
+    completeFollowup,
+    snoozeFollowup,
     addGroup,
     updateGroup,
     deleteGroup,
+    addEvent,
+    updateEvent,
+    deleteEvent,
+    setActiveEvent,
     importContacts,
     resolveSuggestion,
     setShowAdd,
@@ -883,10 +1556,17 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     setShowOfflineIndicator,
     addRecentSearch,
     clearRecentSearches,
+    saveSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    applySavedSearch,
+    pushSavedSearchToHubSpot,
   };
 
   const computed = {
     filteredContacts,
+    parsedQuery,
+    searchHighlights,
     groupMembers,
     displayList,
     availableTags,
@@ -894,6 +1574,9 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     availableCompanies,
     availableCities,
     availableCountries,
+    activeEvent,
+    eventStats,
+    smartLists,
     contactCounts,
   };
 
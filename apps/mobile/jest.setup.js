@@ -68,6 +68,7 @@ jest.mock('react-native', () => {
     Alert: {
       alert: jest.fn(),
     },
+    NativeModules: {},
     View: 'View',
     Text: 'Text',
     TextInput: 'TextInput',
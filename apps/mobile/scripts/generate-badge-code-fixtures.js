@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+/**
+ * Render the badge code fixture images used by the badge code parser tests
+ *
+ * Each utils/__tests__/__fixtures__/badge-codes/<case>.json holds the barcode type and
+ * payload; this writes the matching <case>.png next to it. Run it after adding or
+ * changing a case.
+ *
+ * Usage (from apps/mobile):
+ *   node scripts/generate-badge-code-fixtures.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const bwipjs = require('bwip-js');
+
+const FIXTURE_DIR = path.join(process.cwd(), 'utils', '__tests__', '__fixtures__', 'badge-codes');
+
+const SYMBOLOGIES = {
+  qr: { bcid: 'qrcode', scale: 4 },
+  pdf417: { bcid: 'pdf417', scale: 3 },
+};
+
+async function generateFixtures() {
+  const cases = fs.readdirSync(FIXTURE_DIR).filter(file => file.endsWith('.json')).sort();
+
+  for (const file of cases) {
+    const { barcode, payload } = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'));
+    const symbology = SYMBOLOGIES[barcode];
+    if (!symbology) {
+      throw new Error(`${file}: unknown barcode type "${barcode}"`);
+    }
+
+    const png = await bwipjs.toBuffer({
+      ...symbology,
+      text: payload,
+      // Quiet zone around the symbol, as printed on a badge
+      paddingwidth: 10,
+      paddingheight: 10,
+      backgroundcolor: 'FFFFFF',
+    });
+
+    const output = file.replace(/\.json$/, '.png');
+    fs.writeFileSync(path.join(FIXTURE_DIR, output), png);
+    console.log(`✅ ${output}`);
+  }
+}
+
+if (require.main === module) {
+  generateFixtures().catch(error => {
+    console.error('❌ Failed to generate badge code fixtures:', error);
+    process.exit(1);
+  });
+}
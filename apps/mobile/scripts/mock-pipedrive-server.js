@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Local HTTP stub of the Pipedrive REST API (v1)
+ *
+ * Implements just enough of the API for the Pipedrive connector: token check,
+ * person/organization search and create/update, person fields and notes.
+ *
+ * Usage:
+ *   node scripts/mock-pipedrive-server.js [port]
+ *   Use the printed URL as the connection's company domain and "mock-api-token" as the token.
+ */
+
+const http = require('http');
+
+const API_TOKEN = 'mock-api-token';
+
+function startMockPipedriveServer({ port = 0 } = {}) {
+  const data = {
+    persons: [],
+    organizations: [],
+    notes: [],
+    personFields: [
+      { key: 'name', name: 'Name', field_type: 'varchar' },
+      {
+        key: '5f1c0a7d3b9e4c2a8d6f0b1e3c5a7d9f2b4e6c8a',
+        name: 'Connection Strength',
+        field_type: 'enum',
+        options: [
+          { id: 11, label: 'Strong' },
+          { id: 12, label: 'Medium' },
+          { id: 13, label: 'Weak' },
+        ],
+      },
+      { key: '9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b', name: 'Contact Value', field_type: 'varchar' },
+    ],
+  };
+  let idCounter = 0;
+
+  function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  const ok = (res, payload, status = 200) => send(res, status, { success: true, data: payload });
+  const fail = (res, status, error) => send(res, status, { success: false, error, errorCode: status });
+
+  function search(collection, matches, term) {
+    const items = collection
+      .filter(record => matches(record, term))
+      .map(record => ({ result_score: 1, item: { id: record.id, name: record.name } }));
+    return { items };
+  }
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://127.0.0.1');
+
+      if (url.searchParams.get('api_token') !== API_TOKEN) {
+        return fail(res, 401, 'You need to be authorized to make this request.');
+      }
+
+      const body = raw ? JSON.parse(raw) : {};
+      const parts = url.pathname.replace(/^\/api\/v1\//, '').split('/');
+      const [resource, idOrAction] = parts;
+      const term = url.searchParams.get('term') || '';
+
+      if (resource === 'users' && idOrAction === 'me') {
+        return ok(res, { id: 1, name: 'Mock User', company_domain: 'mock' });
+      }
+
+      if (resource === 'personFields' && req.method === 'GET') {
+        return ok(res, data.personFields);
+      }
+
+      if (resource === 'persons') {
+        if (idOrAction === 'search') {
+          return ok(res, search(data.persons, (person, value) =>
+            (person.email || []).some(email => email.value.toLowerCase() === value.toLowerCase()), term));
+        }
+        if (!idOrAction && req.method === 'POST') {
+          if (!body.name) return fail(res, 400, 'Name must be given.');
+          const person = { ...body, id: ++idCounter };
+          data.persons.push(person);
+          return ok(res, person, 201);
+        }
+        if (idOrAction && req.method === 'PUT') {
+          const person = data.persons.find(existing => existing.id === Number(idOrAction));
+          if (!person) return fail(res, 404, 'Person not found');
+          Object.assign(person, body);
+          return ok(res, person);
+        }
+      }
+
+      if (resource === 'organizations') {
+        if (idOrAction === 'search') {
+          return ok(res, search(data.organizations, (org, value) => org.name.toLowerCase() === value.toLowerCase(), term));
+        }
+        if (!idOrAction && req.method === 'POST') {
+          const organization = { ...body, id: ++idCounter };
+          data.organizations.push(organization);
+          return ok(res, organization, 201);
+        }
+      }
+
+      if (resource === 'notes') {
+        if (req.method === 'GET') {
+          const personId = Number(url.searchParams.get('person_id'));
+          const notes = data.notes.filter(note => note.person_id === personId);
+          // Pipedrive returns null rather than an empty list
+          return ok(res, notes.length ? notes : null);
+        }
+        if (req.method === 'POST') {
+          if (!body.content) return fail(res, 400, 'Content must be given.');
+          const note = { ...body, id: ++idCounter };
+          data.notes.push(note);
+          return ok(res, note, 201);
+        }
+      }
+
+      return fail(res, 404, 'Unknown method');
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${server.address().port}`,
+        data,
+        close: () => new Promise(done => server.close(done)),
+      });
+    });
+  });
+}
+
+module.exports = { startMockPipedriveServer, API_TOKEN };
+
+if (require.main === module) {
+  const port = parseInt(process.argv[2] || '4020', 10);
+  startMockPipedriveServer({ port }).then(({ url }) => {
+    console.log(`Mock Pipedrive listening on ${url} (api token: ${API_TOKEN})`);
+  });
+}
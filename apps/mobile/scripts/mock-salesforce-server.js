@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+
+/**
+ * Local mock of the Salesforce OAuth and REST APIs
+ *
+ * Implements just enough of the API for the Salesforce connector: token
+ * exchange/refresh, SOQL lookups by a single field, record create/update,
+ * campaign membership and session expiry.
+ *
+ * Usage:
+ *   node scripts/mock-salesforce-server.js [port]
+ *   Point SALESFORCE_LOGIN_URL (web) or the connection's instance URL at it.
+ */
+
+const http = require('http');
+
+const API_PREFIX = /^\/services\/data\/v\d+\.\d+/;
+
+/**
+ * @typedef {Object} MockSalesforceServer
+ * @property {string} url
+ * @property {Record<string, Array<Record<string, any>>>} records
+ * @property {() => void} expireSessions
+ * @property {() => Promise<void>} close
+ */
+
+/**
+ * @param {{ port?: number }} [options]
+ * @returns {Promise<MockSalesforceServer>}
+ */
+function startMockSalesforceServer({ port = 0 } = {}) {
+  const records = { Lead: [], Contact: [], Account: [], CampaignMember: [] };
+  const validTokens = new Set(['mock-access-token']);
+  let tokenCounter = 0;
+  let idCounter = 0;
+  let baseUrl = '';
+
+  const nextId = (prefix) => `${prefix}${String(++idCounter).padStart(15, '0')}`;
+  const ID_PREFIXES = { Lead: '00Q', Contact: '003', Account: '001', CampaignMember: '00v' };
+
+  function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+
+  function issueToken() {
+    const token = `mock-access-token-${++tokenCounter}`;
+    validTokens.add(token);
+    return token;
+  }
+
+  function handleToken(params, res) {
+    const grantType = params.get('grant_type');
+    if (grantType === 'authorization_code' && params.get('code') === 'mock-code') {
+      return send(res, 200, {
+        access_token: issueToken(),
+        refresh_token: 'mock-refresh-token',
+        instance_url: baseUrl,
+        id: `${baseUrl}/id/00Dxx0000000001/005xx0000000001`,
+        issued_at: Date.now().toString(),
+        scope: 'api refresh_token id',
+        token_type: 'Bearer',
+      });
+    }
+    if (grantType === 'refresh_token' && params.get('refresh_token') === 'mock-refresh-token') {
+      return send(res, 200, {
+        access_token: issueToken(),
+        instance_url: baseUrl,
+        id: `${baseUrl}/id/00Dxx0000000001/005xx0000000001`,
+        issued_at: Date.now().toString(),
+        token_type: 'Bearer',
+      });
+    }
+    return send(res, 400, { error: 'invalid_grant', error_description: 'expired access/refresh token' });
+  }
+
+  // Supports: SELECT Id FROM <Object> WHERE <Field> = '<value>' [AND IsConverted = false] ...
+  function handleQuery(soql, res) {
+    const match = soql.match(/FROM (\w+) WHERE (\w+) = '((?:[^'\\]|\\.)*)'(?: AND IsConverted = false)?/);
+    if (!match || !records[match[1]]) {
+      return send(res, 400, [{ message: 'Unsupported query', errorCode: 'MALFORMED_QUERY' }]);
+    }
+    const [, sobject, field, rawValue] = match;
+    const value = rawValue.replace(/\\(.)/g, '$1');
+    const found = records[sobject]
+      .filter(record => record[field] === value && !record.IsConverted)
+      .map(record => ({ Id: record.Id }));
+    return send(res, 200, { totalSize: found.length, done: true, records: found });
+  }
+
+  function handleCreate(sobject, body, res) {
+    if (!records[sobject]) {
+      return send(res, 404, [{ message: `sObject type '${sobject}' is not supported.`, errorCode: 'NOT_FOUND' }]);
+    }
+
+    const required = { Lead: ['LastName', 'Company'], Contact: ['LastName'], Account: ['Name'], CampaignMember: ['CampaignId'] }[sobject];
+    const missing = required.filter(field => !body[field]);
+    if (missing.length > 0) {
+      return send(res, 400, [{ message: `Required fields are missing: [${missing.join(', ')}]`, errorCode: 'REQUIRED_FIELD_MISSING', fields: missing }]);
+    }
+
+    if (sobject === 'CampaignMember') {
+      const duplicate = records.CampaignMember.some(member =>
+        member.CampaignId === body.CampaignId &&
+        member.LeadId === body.LeadId &&
+        member.ContactId === body.ContactId
+      );
+      if (duplicate) {
+        return send(res, 400, [{ message: 'Already a campaign member.', errorCode: 'DUPLICATE_VALUE', fields: [] }]);
+      }
+    }
+
+    const id = nextId(ID_PREFIXES[sobject]);
+    records[sobject].push({ ...body, Id: id });
+    return send(res, 201, { id, success: true, errors: [] });
+  }
+
+  function handleUpdate(sobject, id, body, res) {
+    const record = (records[sobject] || []).find(existing => existing.Id === id);
+    if (!record) {
+      return send(res, 404, [{ message: 'The requested resource does not exist', errorCode: 'NOT_FOUND' }]);
+    }
+    Object.assign(record, body);
+    return send(res, 204);
+  }
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url, baseUrl);
+
+      if (url.pathname === '/services/oauth2/token' && req.method === 'POST') {
+        return handleToken(new URLSearchParams(raw), res);
+      }
+
+      if (!API_PREFIX.test(url.pathname)) {
+        return send(res, 404, [{ message: 'Not found', errorCode: 'NOT_FOUND' }]);
+      }
+
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      if (!validTokens.has(token)) {
+        return send(res, 401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+      }
+
+      const path = url.pathname.replace(API_PREFIX, '');
+      const body = raw ? JSON.parse(raw) : {};
+      const [, resource, sobject, id] = path.split('/');
+
+      if (resource === 'limits' && req.method === 'GET') {
+        return send(res, 200, { DailyApiRequests: { Max: 15000, Remaining: 14999 } });
+      }
+      if (resource === 'query' && req.method === 'GET') {
+        return handleQuery(url.searchParams.get('q') || '', res);
+      }
+      if (resource === 'sobjects' && req.method === 'POST' && sobject && !id) {
+        return handleCreate(sobject, body, res);
+      }
+      if (resource === 'sobjects' && req.method === 'PATCH' && sobject && id) {
+        return handleUpdate(sobject, id, body, res);
+      }
+
+      return send(res, 404, [{ message: 'Not found', errorCode: 'NOT_FOUND' }]);
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${server.address().port}`;
+      resolve({
+        url: baseUrl,
+        records,
+        // Invalidate every issued access token, as if the session timed out
+        expireSessions: () => validTokens.clear(),
+        close: () => new Promise(done => server.close(done)),
+      });
+    });
+  });
+}
+
+module.exports = { startMockSalesforceServer };
+
+if (require.main === module) {
+  const port = parseInt(process.argv[2] || '4010', 10);
+  startMockSalesforceServer({ port }).then(({ url }) => {
+    console.log(`Mock Salesforce listening on ${url}`);
+    console.log('Access token: mock-access-token, auth code: mock-code, refresh token: mock-refresh-token');
+  });
+}
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Local webhook receiver for testing outbound webhook connections
+ *
+ * Records every request and checks its X-AllMyCircles-Signature against the
+ * shared secret. Can be told to fail the next N requests to exercise retries.
+ *
+ * Usage:
+ *   node scripts/mock-webhook-receiver.js [port] [secret]
+ *   Use the printed URL as the webhook URL and the same secret in the app.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+function startMockWebhookReceiver({ port = 0, secret = 'mock-webhook-secret' } = {}) {
+  const requests = [];
+  const queuedFailures = [];
+
+  function verify(headers, body) {
+    const signature = headers['x-allmycircles-signature'];
+    const timestamp = headers['x-allmycircles-timestamp'];
+    if (!signature || !timestamp) return false;
+
+    const expected = `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+    return signature === expected;
+  }
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      let body = null;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // Recorded as null, tests assert on it
+      }
+
+      requests.push({
+        method: req.method,
+        headers: req.headers,
+        raw,
+        body,
+        signatureValid: verify(req.headers, raw),
+      });
+
+      const failure = queuedFailures.shift();
+      res.writeHead(failure || 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received: !failure }));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${server.address().port}/hooks/contacts`,
+        secret,
+        requests,
+        // Respond with the given status to the next `count` requests
+        failNext: (count, status = 503) => {
+          for (let i = 0; i < count; i++) queuedFailures.push(status);
+        },
+        close: () => new Promise(done => server.close(done)),
+      });
+    });
+  });
+}
+
+module.exports = { startMockWebhookReceiver };
+
+if (require.main === module) {
+  const port = parseInt(process.argv[2] || '4030', 10);
+  const secret = process.argv[3] || 'mock-webhook-secret';
+  startMockWebhookReceiver({ port, secret }).then(({ url, requests }) => {
+    console.log(`Mock webhook receiver listening on ${url} (secret: ${secret})`);
+    setInterval(() => {
+      while (requests.length) {
+        const request = requests.shift();
+        console.log(`${request.headers['x-allmycircles-event']} signature ${request.signatureValid ? 'valid' : 'INVALID'}`, request.raw);
+      }
+    }, 500);
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for batch badge scanning: background reading and auto-assignment
+ */
+
+import { processImageWithOcr } from '../ocrService';
+import { scanBadgeCode } from '../badgeCodeScanner';
+import { applyBadgeCode, autoAssignFields, badgeScanBatchService, type BatchScan } from '../badgeScanBatch';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('expo-image-manipulator', () => ({
+  manipulateAsync: jest.fn(async (uri: string) => ({ uri: `${uri}.resized` })),
+  SaveFormat: { JPEG: 'jpeg' },
+}));
+
+jest.mock('../ocrService', () => ({
+  processImageWithOcr: jest.fn(),
+}));
+
+jest.mock('../badgeCodeScanner', () => ({
+  scanBadgeCode: jest.fn().mockResolvedValue(null),
+}));
+
+jest.mock('../../utils/config', () => ({
+  devLog: jest.fn(),
+  devError: jest.fn(),
+}));
+
+const processImage = processImageWithOcr as jest.Mock;
+const scanCode = scanBadgeCode as jest.Mock;
+
+function waitForScans(predicate: (scans: BatchScan[]) => boolean): Promise<BatchScan[]> {
+  return new Promise(resolve => {
+    const unsubscribe = badgeScanBatchService.subscribe(scans => {
+      if (predicate(scans)) {
+        setTimeout(() => unsubscribe());
+        resolve(scans);
+      }
+    });
+  });
+}
+
+describe('badgeScanBatch', () => {
+  describe('autoAssignFields', () => {
+    it('should fill in only the fields the parser is confident about', () => {
+      const { fields, autoAssigned } = autoAssignFields('Jane Doe\nSenior Engineer\nAcme Inc\njane@acme.com');
+
+      expect(fields).toEqual({
+        name: 'Jane Doe',
+        title: 'Senior Engineer',
+        company: 'Acme Inc',
+        email: 'jane@acme.com',
+        phone: '',
+      });
+      expect(autoAssigned).toEqual(['name', 'title', 'company', 'email']);
+    });
+
+    it('should leave uncertain fields for review', () => {
+      const { fields, autoAssigned } = autoAssignFields('Booth 42\nACME');
+
+      expect(fields.name).toBe('');
+      expect(autoAssigned).not.toContain('name');
+    });
+  });
+
+  describe('applyBadgeCode', () => {
+    it('should prefer badge code data and fill the gaps from OCR', () => {
+      const fromOcr = autoAssignFields('JANE DOE\nSenior Engineer\nAcme Inc');
+      const { fields, autoAssigned } = applyBadgeCode(
+        { format: 'vcard', contact: { name: 'Jane Doe', email: 'jane@acme.com' }, raw: '' },
+        fromOcr
+      );
+
+      expect(fields).toEqual({
+        name: 'Jane Doe',
+        title: 'Senior Engineer',
+        company: 'Acme Inc',
+        email: 'jane@acme.com',
+        phone: '',
+      });
+      expect(autoAssigned).toEqual(['name', 'title', 'company', 'email']);
+    });
+  });
+
+  describe('badgeScanBatchService', () => {
+    afterEach(async () => {
+      await badgeScanBatchService.remove(badgeScanBatchService.getScans().map(scan => scan.id));
+    });
+
+    it('should read queued scans in the background, one at a time', async () => {
+      processImage
+        .mockResolvedValueOnce({ success: true, extractedText: 'Jane Doe\nAcme Inc\njane@acme.com' })
+        .mockResolvedValueOnce({ success: false, extractedText: '', error: 'No text detected in image' });
+
+      await badgeScanBatchService.enqueue('file:///cache/badge-1.jpg');
+      await badgeScanBatchService.enqueue('file:///cache/badge-2.jpg');
+
+      const scans = await waitForScans(current =>
+        current.length === 2 && current.every(scan => scan.status === 'ready' || scan.status === 'failed')
+      );
+
+      expect(processImage).toHaveBeenNthCalledWith(1, 'file:///cache/badge-1.jpg.resized');
+      expect(scans[0]).toMatchObject({ status: 'ready', confirmed: false });
+      expect(scans[0].fields).toMatchObject({ name: 'Jane Doe', email: 'jane@acme.com' });
+      expect(scans[1]).toMatchObject({ status: 'failed', error: 'No text detected in image' });
+    });
+
+    it('should use the badge code when OCR finds no text', async () => {
+      scanCode.mockResolvedValueOnce({ format: 'mecard', contact: { name: 'Yuki Tanaka', company: 'Sakura Digital' }, raw: '' });
+      processImage.mockResolvedValueOnce({ success: false, extractedText: '', error: 'Network request failed' });
+
+      const { id } = await badgeScanBatchService.enqueue('file:///cache/badge-4.jpg');
+      const scans = await waitForScans(current => current.some(scan => scan.id === id && scan.status === 'ready'));
+
+      expect(scans.find(scan => scan.id === id)).toMatchObject({
+        extractedText: 'Yuki Tanaka\nSakura Digital',
+        fields: { name: 'Yuki Tanaka', company: 'Sakura Digital', title: '' },
+        autoAssigned: ['name', 'company'],
+      });
+    });
+
+    it('should stop marking a field as auto-assigned once it is edited', async () => {
+      processImage.mockResolvedValueOnce({ success: true, extractedText: 'Jane Doe\nAcme Inc' });
+
+      const { id } = await badgeScanBatchService.enqueue('file:///cache/badge-3.jpg');
+      await waitForScans(current => current.some(scan => scan.id === id && scan.status === 'ready'));
+      await badgeScanBatchService.updateFields(id, { name: 'Janet Doe' });
+
+      const scan = badgeScanBatchService.getScans().find(item => item.id === id);
+      expect(scan?.fields.name).toBe('Janet Doe');
+      expect(scan?.autoAssigned).not.toContain('name');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Tests for field-level HubSpot conflict resolution
+ */
+
+import {
+  mergeRemoteChanges,
+  mergeServerConflicts,
+  resolveFieldConflict,
+  stampFieldChanges,
+} from '../conflictResolution';
+import type { Contact } from '../../types/contact';
+
+const LAST_SYNC = '2025-01-01T00:00:00.000Z';
+const LOCAL_EDIT = '2025-01-02T00:00:00.000Z';
+const REMOTE_EARLIER = '2025-01-01T12:00:00.000Z';
+const REMOTE_LATER = '2025-01-03T00:00:00.000Z';
+
+function buildContact(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'c1',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    name: 'Jane Doe',
+    company: 'Acme',
+    tags: ['prospect'],
+    lastSyncedAt: LAST_SYNC,
+    ...overrides,
+  };
+}
+
+describe('conflictResolution', () => {
+  describe('stampFieldChanges', () => {
+    it('should stamp only synced fields whose value changed', () => {
+      const contact = buildContact();
+      const stamped = stampFieldChanges(contact, { company: 'Globex', lastName: 'Doe', starred: true }, LOCAL_EDIT);
+
+      expect(stamped).toEqual({ company: LOCAL_EDIT });
+    });
+
+    it('should compare tag arrays by value', () => {
+      const contact = buildContact();
+
+      expect(stampFieldChanges(contact, { tags: ['prospect'] }, LOCAL_EDIT)).toEqual({});
+      expect(stampFieldChanges(contact, { tags: ['prospect', 'vip'] }, LOCAL_EDIT)).toEqual({ tags: LOCAL_EDIT });
+    });
+  });
+
+  describe('mergeRemoteChanges', () => {
+    it('should apply remote changes to fields not edited locally', () => {
+      const result = mergeRemoteChanges(buildContact(), { company: 'Globex' }, {
+        policy: 'manual',
+        fallbackRemoteUpdatedAt: REMOTE_LATER,
+      });
+
+      expect(result.contact.company).toBe('Globex');
+      expect(result.contact.fieldUpdatedAt?.company).toBe(REMOTE_LATER);
+      expect(result.appliedFields).toEqual(['company']);
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('should never clear local values with empty remote values', () => {
+      const result = mergeRemoteChanges(buildContact(), { company: '' }, {
+        policy: 'hubspot_wins',
+        fallbackRemoteUpdatedAt: REMOTE_LATER,
+      });
+
+      expect(result.contact.company).toBe('Acme');
+      expect(result.changed).toBe(false);
+    });
+
+    it('should let HubSpot win when both sides changed under hubspot_wins', () => {
+      const local = buildContact({ company: 'Initech', fieldUpdatedAt: { company: LOCAL_EDIT } });
+      const result = mergeRemoteChanges(local, { company: 'Globex' }, {
+        policy: 'hubspot_wins',
+        fallbackRemoteUpdatedAt: REMOTE_EARLIER,
+      });
+
+      expect(result.contact.company).toBe('Globex');
+    });
+
+    it('should keep the local value and flag a push under mobile_wins', () => {
+      const local = buildContact({ company: 'Initech', fieldUpdatedAt: { company: LOCAL_EDIT } });
+      const result = mergeRemoteChanges(local, { company: 'Globex' }, {
+        policy: 'mobile_wins',
+        fallbackRemoteUpdatedAt: REMOTE_LATER,
+      });
+
+      expect(result.contact.company).toBe('Initech');
+      expect(result.contact.needsSync).toBe(true);
+      expect(result.keptLocalFields).toEqual(['company']);
+    });
+
+    it('should pick the most recent edit under newest_wins', () => {
+      const local = buildContact({ company: 'Initech', fieldUpdatedAt: { company: LOCAL_EDIT } });
+
+      const older = mergeRemoteChanges(local, { company: 'Globex' }, {
+        policy: 'newest_wins',
+        remoteUpdatedAt: { company: REMOTE_EARLIER },
+        fallbackRemoteUpdatedAt: REMOTE_LATER,
+      });
+      const newer = mergeRemoteChanges(local, { company: 'Globex' }, {
+        policy: 'newest_wins',
+        remoteUpdatedAt: { company: REMOTE_LATER },
+        fallbackRemoteUpdatedAt: REMOTE_EARLIER,
+      });
+
+      expect(older.contact.company).toBe('Initech');
+      expect(newer.contact.company).toBe('Globex');
+    });
+
+    it('should queue a conflict under manual and recompute the name for applied fields', () => {
+      const local = buildContact({ company: 'Initech', fieldUpdatedAt: { company: LOCAL_EDIT } });
+      const result = mergeRemoteChanges(local, { company: 'Globex', firstName: 'Janet' }, {
+        policy: 'manual',
+        fallbackRemoteUpdatedAt: REMOTE_LATER,
+        now: REMOTE_LATER,
+      });
+
+      expect(result.contact.company).toBe('Initech');
+      expect(result.contact.name).toBe('Janet Doe');
+      expect(result.contact.syncConflicts).toEqual([
+        {
+          field: 'company',
+          localValue: 'Initech',
+          remoteValue: 'Globex',
+          localUpdatedAt: LOCAL_EDIT,
+          remoteUpdatedAt: REMOTE_LATER,
+          detectedAt: REMOTE_LATER,
+        },
+      ]);
+    });
+
+    it('should drop a pending conflict once both sides agree', () => {
+      const local = buildContact({
+        company: 'Globex',
+        syncConflicts: [{ field: 'company', localValue: 'Initech', remoteValue: 'Globex', detectedAt: LOCAL_EDIT }],
+      });
+      const result = mergeRemoteChanges(local, { company: 'Globex' }, {
+        policy: 'manual',
+        fallbackRemoteUpdatedAt: REMOTE_LATER,
+      });
+
+      expect(result.contact.syncConflicts).toEqual([]);
+      expect(result.changed).toBe(true);
+    });
+  });
+
+  describe('resolveFieldConflict', () => {
+    const conflicted = buildContact({
+      company: 'Initech',
+      syncConflicts: [{
+        field: 'company',
+        localValue: 'Initech',
+        remoteValue: 'Globex',
+        localUpdatedAt: LOCAL_EDIT,
+        remoteUpdatedAt: REMOTE_LATER,
+        detectedAt: REMOTE_LATER,
+      }],
+    });
+
+    it('should take the HubSpot value when remote is chosen', () => {
+      const resolved = resolveFieldConflict(conflicted, 'company', 'remote');
+
+      expect(resolved.company).toBe('Globex');
+      expect(resolved.fieldUpdatedAt?.company).toBe(REMOTE_LATER);
+      expect(resolved.syncConflicts).toEqual([]);
+    });
+
+    it('should keep the local value and mark it for sync when local is chosen', () => {
+      const now = '2025-01-04T00:00:00.000Z';
+      const resolved = resolveFieldConflict(conflicted, 'company', 'local', now);
+
+      expect(resolved.company).toBe('Initech');
+      expect(resolved.fieldUpdatedAt?.company).toBe(now);
+      expect(resolved.needsSync).toBe(true);
+      expect(resolved.syncConflicts).toEqual([]);
+    });
+  });
+
+  describe('mergeServerConflicts', () => {
+    const serverConflict = {
+      field: 'company' as const,
+      localValue: 'Acme',
+      remoteValue: 'Globex',
+      localUpdatedAt: LOCAL_EDIT,
+      remoteUpdatedAt: REMOTE_LATER,
+      detectedAt: REMOTE_LATER,
+    };
+
+    it('should add conflicts queued on the server', () => {
+      const merged = mergeServerConflicts(buildContact({ fieldUpdatedAt: { company: LOCAL_EDIT } }), [serverConflict]);
+
+      expect(merged.syncConflicts).toEqual([serverConflict]);
+    });
+
+    it('should skip conflicts already decided here or no longer differing', () => {
+      const decidedLater = buildContact({ fieldUpdatedAt: { company: '2025-01-04T00:00:00.000Z' } });
+      const agreed = buildContact({ company: 'Globex' });
+
+      expect(mergeServerConflicts(decidedLater, [serverConflict])).toBe(decidedLater);
+      expect(mergeServerConflicts(agreed, [serverConflict])).toBe(agreed);
+    });
+  });
+});
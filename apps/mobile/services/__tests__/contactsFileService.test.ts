@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for contact import from vCard and CSV exports, duplicate detection and export
+ */
+
+import type { Contact } from '../../types/contact';
+import {
+  contactsToCsv,
+  contactsToVCard,
+  csvRowsToContacts,
+  detectFileFormat,
+  findImportDuplicates,
+  parseVCardFile,
+  readCsvImport,
+} from '../contactsFileService';
+
+jest.mock('expo-file-system', () => ({ File: jest.fn(), Paths: {} }));
+jest.mock('expo-document-picker', () => ({ getDocumentAsync: jest.fn() }));
+jest.mock('expo-sharing', () => ({ isAvailableAsync: jest.fn(), shareAsync: jest.fn() }));
+
+jest.mock('../../utils/config', () => ({
+  devLog: jest.fn(),
+  devError: jest.fn(),
+}));
+
+const LINKEDIN_CSV = [
+  'Notes:',
+  '"When exporting your connection data, you may notice that some of the email addresses are missing."',
+  '',
+  'First Name,Last Name,URL,Email Address,Company,Position,Connected On',
+  'Jane,Doe,https://www.linkedin.com/in/janedoe,jane@acme.com,Acme Inc.,Head of Partnerships,12 Mar 2025',
+  'Omar,Haddad,https://www.linkedin.com/in/omarhaddad,,"Globex, LLC",CTO,01 Feb 2025',
+].join('\n');
+
+const OUTLOOK_CSV = [
+  'First Name,Middle Name,Last Name,Title,Company,Job Title,E-mail Address,Mobile Phone,Business City,Business Country/Region,Categories',
+  'Jane,,Doe,Dr.,Acme Inc.,CEO,jane@acme.com,+1 555 0100,Boston,United States,Clients;VIP',
+].join('\r\n');
+
+const GOOGLE_CSV = [
+  'Name,Given Name,Family Name,Organization 1 - Name,Organization 1 - Title,E-mail 1 - Type,E-mail 1 - Value,Phone 1 - Type,Phone 1 - Value,Group Membership',
+  'Ana López,Ana,López,Initech,Engineer,* Work,ana@initech.com,Mobile,+34 600 000 000,DevCon 2025 ::: * myContacts',
+].join('\n');
+
+const VCARD_4 = [
+  'BEGIN:VCARD',
+  'VERSION:4.0',
+  'FN:Jane Doe',
+  'N:Doe;Jane;;;',
+  'ORG:Acme Inc.;Sales',
+  'TITLE:Head of Partnerships',
+  'EMAIL;TYPE=work:jane@acme.com',
+  'TEL;VALUE=uri;TYPE="voice,cell":tel:+1-555-0100',
+  'URL:https://www.linkedin.com/in/janedoe',
+  'ADR;TYPE=work:;;1 Main St;Boston;MA;02110;United States',
+  'CATEGORIES:Clients,VIP',
+  'END:VCARD',
+  'BEGIN:VCARD',
+  'VERSION:4.0',
+  'N:Haddad;Omar;;;',
+  'END:VCARD',
+].join('\r\n');
+
+function contact(overrides: Partial<Contact>): Contact {
+  return {
+    id: 'c1',
+    firstName: '',
+    lastName: '',
+    name: '',
+    identifiers: [],
+    tags: [],
+    groups: [],
+    ...overrides,
+  };
+}
+
+describe('readCsvImport', () => {
+  it('should skip the LinkedIn notes preamble and map its columns', () => {
+    const csv = readCsvImport(LINKEDIN_CSV);
+
+    expect(csv.source).toBe('linkedin');
+    expect(csv.rows).toHaveLength(2);
+    expect(csv.mapping).toEqual(['firstName', 'lastName', 'linkedinUrl', 'email', 'company', 'title', 'ignore']);
+
+    const [jane, omar] = csvRowsToContacts(csv.rows, csv.mapping);
+    expect(jane).toMatchObject({ name: 'Jane Doe', company: 'Acme Inc.', title: 'Head of Partnerships' });
+    expect(jane.identifiers).toEqual([
+      { type: 'linkedin', value: 'https://www.linkedin.com/in/janedoe' },
+      { type: 'email', value: 'jane@acme.com' },
+    ]);
+    expect(omar.company).toBe('Globex, LLC');
+  });
+
+  it('should map Outlook columns without mistaking the name prefix for a job title', () => {
+    const csv = readCsvImport(OUTLOOK_CSV);
+    const [jane] = csvRowsToContacts(csv.rows, csv.mapping);
+
+    expect(csv.source).toBe('outlook');
+    expect(jane).toMatchObject({ name: 'Jane Doe', title: 'CEO', city: 'Boston', country: 'United States', tags: ['Clients', 'VIP'] });
+    expect(jane.identifiers).toContainEqual({ type: 'phone', value: '+1 555 0100' });
+  });
+
+  it('should map Google columns and drop system labels', () => {
+    const csv = readCsvImport(GOOGLE_CSV);
+    const [ana] = csvRowsToContacts(csv.rows, csv.mapping);
+
+    expect(csv.source).toBe('google');
+    expect(ana).toMatchObject({ name: 'Ana López', company: 'Initech', title: 'Engineer', groups: ['DevCon 2025'] });
+    expect(ana.identifiers).toEqual([
+      { type: 'email', value: 'ana@initech.com' },
+      { type: 'phone', value: '+34 600 000 000' },
+    ]);
+  });
+
+  it('should guess columns of other spreadsheets', () => {
+    const csv = readCsvImport('Full Name,Work Email,Organization,Role\nJane Doe,jane@acme.com,Acme,CEO\n');
+
+    expect(csv.source).toBe('generic');
+    expect(csv.mapping).toEqual(['name', 'email', 'company', 'title']);
+  });
+});
+
+describe('parseVCardFile', () => {
+  it('should read every card of a vCard 4.0 file', () => {
+    const [jane, omar] = parseVCardFile(VCARD_4);
+
+    expect(jane).toMatchObject({
+      name: 'Jane Doe',
+      company: 'Acme Inc.',
+      title: 'Head of Partnerships',
+      city: 'Boston',
+      country: 'United States',
+      tags: ['Clients', 'VIP'],
+    });
+    expect(jane.identifiers).toEqual([
+      { type: 'email', value: 'jane@acme.com' },
+      { type: 'phone', value: '+1-555-0100' },
+      { type: 'linkedin', value: 'https://www.linkedin.com/in/janedoe' },
+    ]);
+    expect(omar.name).toBe('Omar Haddad');
+  });
+
+  it('should detect the file format', () => {
+    expect(detectFileFormat(VCARD_4)).toBe('vcard');
+    expect(detectFileFormat('', 'contacts.VCF')).toBe('vcard');
+    expect(detectFileFormat(OUTLOOK_CSV, 'contacts.csv')).toBe('csv');
+  });
+});
+
+describe('findImportDuplicates', () => {
+  it('should flag contacts matching existing ones by email, phone or LinkedIn profile', () => {
+    const existing = [
+      contact({ id: 'e1', name: 'Jane D.', identifiers: [{ type: 'email', value: 'Jane@Acme.com' }] }),
+      contact({ id: 'e2', name: 'Omar', linkedinUrl: 'https://linkedin.com/in/omarhaddad/' }),
+    ];
+    const imported = csvRowsToContacts(readCsvImport(LINKEDIN_CSV).rows, readCsvImport(LINKEDIN_CSV).mapping);
+
+    const [jane, omar] = findImportDuplicates(imported, existing);
+
+    expect(jane.duplicateOf).toEqual({ id: 'e1', name: 'Jane D.' });
+    expect(omar.duplicateOf).toEqual({ id: 'e2', name: 'Omar' });
+  });
+
+  it('should flag repeats within the same file', () => {
+    const imported = parseVCardFile([
+      'BEGIN:VCARD\nFN:Jane Doe\nTEL:(555) 010-0100\nEND:VCARD',
+      'BEGIN:VCARD\nFN:Jane Doe (Mobile)\nTEL:+1 555 010 0100\nEND:VCARD',
+    ].join('\n'));
+
+    const [first, second] = findImportDuplicates(imported, []);
+
+    expect(first.duplicateOf).toBeUndefined();
+    expect(second.duplicateOf).toEqual({ id: first.contact.id, name: 'Jane Doe' });
+  });
+});
+
+describe('export', () => {
+  const exported = contact({
+    name: 'Jane Doe',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    company: 'Acme, Inc.',
+    title: 'CEO',
+    identifiers: [
+      { type: 'email', value: 'jane@acme.com' },
+      { type: 'email', value: 'jane.doe@gmail.com' },
+      { type: 'phone', value: '+1 555 0100' },
+      { type: 'linkedin', value: 'https://www.linkedin.com/in/janedoe' },
+    ],
+    city: 'Boston',
+    tags: ['VIP'],
+    groups: ['DevCon 2025'],
+    note: 'Met at the booth',
+  });
+
+  it('should round trip contacts through vCard', () => {
+    const [imported] = parseVCardFile(contactsToVCard([exported]));
+
+    expect(imported).toMatchObject({
+      name: 'Jane Doe',
+      company: 'Acme, Inc.',
+      title: 'CEO',
+      city: 'Boston',
+      note: 'Met at the booth',
+      tags: ['VIP'],
+      groups: ['DevCon 2025'],
+    });
+    expect(imported.identifiers).toEqual(exported.identifiers);
+  });
+
+  it('should round trip contacts through CSV', () => {
+    const csv = readCsvImport(contactsToCsv([exported]));
+    const [imported] = csvRowsToContacts(csv.rows, csv.mapping);
+
+    expect(csv.mapping).not.toContain('ignore');
+    expect(imported).toMatchObject({
+      name: 'Jane Doe',
+      company: 'Acme, Inc.',
+      title: 'CEO',
+      city: 'Boston',
+      note: 'Met at the booth',
+      tags: ['VIP'],
+      groups: ['DevCon 2025'],
+    });
+    expect(imported.identifiers).toHaveLength(4);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for OCR provider selection and queuing of low-confidence on-device scans
+ */
+
+import { NativeModules } from 'react-native';
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import {
+  estimateOcrConfidence,
+  processImageWithOcr,
+  processQueuedBadgeScan,
+} from '../ocrService';
+import { offlineStorage } from '../offlineStorage';
+
+jest.mock('@react-native-ml-kit/text-recognition', () => ({
+  __esModule: true,
+  default: { recognize: jest.fn() },
+}));
+
+jest.mock('expo-file-system', () => {
+  class File {
+    uri: string;
+    constructor(...parts: any[]) {
+      this.uri = parts.map(part => (typeof part === 'string' ? part : part.uri)).join('/');
+    }
+    copy = jest.fn();
+    delete = jest.fn();
+  }
+  class Directory extends File {
+    create = jest.fn();
+  }
+  return { File, Directory, Paths: { document: { uri: 'file:///documents' } } };
+});
+
+jest.mock('../../utils/config', () => ({
+  devLog: jest.fn(),
+  devError: jest.fn(),
+  getAppConfig: jest.fn(),
+}));
+
+jest.mock('../offlineStorage', () => ({
+  offlineStorage: {
+    addToOfflineQueue: jest.fn(),
+    addBadgeScanResult: jest.fn(),
+  },
+}));
+
+jest.mock('../storageService', () => ({
+  storageService: {
+    loadUserPreferences: jest.fn().mockResolvedValue(null),
+    saveUserPreferences: jest.fn(),
+  },
+}));
+
+const recognize = TextRecognition.recognize as jest.Mock;
+
+const CLEAR_BADGE = 'Jane Doe\nSenior Engineer\nAcme Inc\njane@acme.com';
+
+function mockLocalText(text: string) {
+  recognize.mockResolvedValue({
+    text,
+    blocks: [{ text, frame: { top: 0 }, lines: text.split('\n').map(line => ({ text: line })) }],
+  });
+}
+
+describe('ocrService', () => {
+  beforeAll(() => {
+    NativeModules.TextRecognition = {};
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The remote provider cannot reach anything in these tests
+    global.fetch = jest.fn().mockRejectedValue(new Error('Network request failed')) as any;
+  });
+
+  describe('estimateOcrConfidence', () => {
+    it('should rate text by the badge fields it contains', () => {
+      expect(estimateOcrConfidence(CLEAR_BADGE)).toBeCloseTo(1);
+      expect(estimateOcrConfidence('Jane Doe')).toBeCloseTo(0.6);
+      expect(estimateOcrConfidence('~~ 3 ~~')).toBeCloseTo(0.2);
+    });
+  });
+
+  describe('processImageWithOcr', () => {
+    it('should use the on-device result when it is confident', async () => {
+      mockLocalText(CLEAR_BADGE);
+
+      const result = await processImageWithOcr('file:///cache/badge.jpg', 'local');
+
+      expect(result).toMatchObject({ success: true, provider: 'local', extractedText: CLEAR_BADGE });
+      expect(result.queuedForRemote).toBeUndefined();
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(offlineStorage.addToOfflineQueue).not.toHaveBeenCalled();
+    });
+
+    it('should queue low-confidence on-device results for remote OCR', async () => {
+      mockLocalText('~~ 3 ~~');
+
+      const result = await processImageWithOcr('file:///cache/badge.jpg', 'local');
+
+      expect(result).toMatchObject({ success: true, provider: 'local', queuedForRemote: true });
+      expect(offlineStorage.addToOfflineQueue).toHaveBeenCalledWith({
+        type: 'ocr_badge',
+        status: 'pending',
+        payload: expect.objectContaining({
+          imageUri: expect.stringMatching(/^file:\/\/\/documents\/badge-scans\/badge_\d+\.jpg$/),
+          localText: '~~ 3 ~~',
+          localConfidence: 0.2,
+        }),
+      });
+    });
+
+    it('should fall back to on-device OCR when remote OCR fails in auto mode', async () => {
+      mockLocalText(CLEAR_BADGE);
+
+      const result = await processImageWithOcr('file:///cache/badge.jpg', 'auto');
+
+      expect(global.fetch).toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, provider: 'local' });
+    });
+
+    it('should not use the on-device engine when remote OCR is selected', async () => {
+      const result = await processImageWithOcr('file:///cache/badge.jpg', 'remote');
+
+      expect(recognize).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('processQueuedBadgeScan', () => {
+    it('should throw while remote OCR is unreachable so the queue retries', async () => {
+      await expect(processQueuedBadgeScan({
+        imageUri: 'file:///documents/badge-scans/badge_1.jpg',
+        localText: 'Jane',
+        localConfidence: 0.2,
+        capturedAt: '2025-01-01T00:00:00.000Z',
+      })).rejects.toThrow('Network request failed');
+      expect(offlineStorage.addBadgeScanResult).not.toHaveBeenCalled();
+    });
+  });
+});
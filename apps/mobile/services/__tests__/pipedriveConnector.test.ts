@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the Pipedrive connector against the local API stub
+ */
+
+import { PipedriveConnector, getPipedriveBaseUrl } from '../pipedriveConnector';
+import type { Contact } from '../../types/contact';
+import type { CRMFieldMapping } from '../../types/crm';
+import { startMockPipedriveServer, API_TOKEN } from '../../scripts/mock-pipedrive-server';
+
+jest.mock('../../utils/logger', () => ({
+  devLog: jest.fn(),
+  devError: jest.fn(),
+}));
+
+const NETWORKING_MAPPINGS: CRMFieldMapping[] = [
+  { localField: 'connectionStrength', crmField: 'Connection Strength', isRequired: false },
+  { localField: 'contactValue', crmField: '9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b', isRequired: false },
+];
+
+function buildContact(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'c1',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    name: 'Jane Doe',
+    email: 'jane@acme.com',
+    phone: '+1 555 0100',
+    company: 'Acme',
+    title: 'CTO',
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe('pipedriveConnector', () => {
+  let server: any;
+
+  beforeEach(async () => {
+    server = await startMockPipedriveServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function connect(apiToken: string = API_TOKEN) {
+    return new PipedriveConnector({ apiToken, domain: server.url });
+  }
+
+  it('should create a person linked to a new organization', async () => {
+    const result = await connect().pushContact(buildContact());
+
+    expect(result.created).toBe(true);
+    expect(result.url).toBe(`${server.url}/person/${result.personId}`);
+    expect(server.data.organizations).toEqual([expect.objectContaining({ name: 'Acme', id: result.organizationId })]);
+    expect(server.data.persons[0]).toMatchObject({
+      name: 'Jane Doe',
+      email: [{ value: 'jane@acme.com', primary: true, label: 'work' }],
+      phone: [{ value: '+1 555 0100', primary: true, label: 'work' }],
+      job_title: 'CTO',
+      org_id: result.organizationId,
+    });
+  });
+
+  it('should update the existing person with the same email and reuse the organization', async () => {
+    const connector = connect();
+    const first = await connector.pushContact(buildContact());
+    const second = await connector.pushContact(buildContact({ title: 'CEO' }));
+
+    expect(second).toMatchObject({ personId: first.personId, created: false });
+    expect(server.data.persons).toHaveLength(1);
+    expect(server.data.persons[0].job_title).toBe('CEO');
+    expect(server.data.organizations).toHaveLength(1);
+  });
+
+  it('should attach notes once per distinct content', async () => {
+    const connector = connect();
+    const result = await connector.pushContact(buildContact({ notes: 'Met at SaaStr' }));
+    await connector.pushContact(buildContact({ notes: 'Met at SaaStr' }));
+    await connector.pushContact(buildContact({ notes: 'Follow up on pilot' }));
+
+    expect(server.data.notes.map((note: any) => note.content)).toEqual(['Met at SaaStr', 'Follow up on pilot']);
+    expect(server.data.notes[0]).toMatchObject({ person_id: result.personId, org_id: result.organizationId });
+  });
+
+  it('should map networking fields into custom fields, using option IDs for enums', async () => {
+    await connect().pushContact(buildContact({ connectionStrength: 'Medium', contactValue: 'High' }), NETWORKING_MAPPINGS);
+
+    expect(server.data.persons[0]).toMatchObject({
+      '5f1c0a7d3b9e4c2a8d6f0b1e3c5a7d9f2b4e6c8a': 12,
+      '9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b': 'High',
+    });
+  });
+
+  it('should skip mappings for unknown custom fields', async () => {
+    const mappings: CRMFieldMapping[] = [{ localField: 'connectionStrength', crmField: 'Missing Field', isRequired: false }];
+    await connect().pushContact(buildContact({ connectionStrength: 'Strong' }), mappings);
+
+    expect(server.data.persons[0]).not.toHaveProperty('Missing Field');
+  });
+
+  it('should create persons without an organization when company is empty', async () => {
+    const result = await connect().pushContact(buildContact({ company: undefined }));
+
+    expect(result.organizationId).toBeUndefined();
+    expect(server.data.organizations).toHaveLength(0);
+  });
+
+  it('should reject invalid API tokens', async () => {
+    await expect(connect('wrong-token').testConnection()).rejects.toMatchObject({ status: 401 });
+    await expect(connect().testConnection()).resolves.toBe(true);
+  });
+
+  it('should resolve company domains to API base URLs', () => {
+    expect(getPipedriveBaseUrl('acme')).toBe('https://acme.pipedrive.com');
+    expect(getPipedriveBaseUrl('acme.pipedrive.com')).toBe('https://acme.pipedrive.com');
+    expect(getPipedriveBaseUrl('http://127.0.0.1:4020/')).toBe('http://127.0.0.1:4020');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the Salesforce REST connector against the local mock server
+ */
+
+import { SalesforceConnector, buildSalesforceFields, escapeSoql } from '../salesforceConnector';
+import type { Contact } from '../../types/contact';
+import { startMockSalesforceServer } from '../../scripts/mock-salesforce-server';
+
+jest.mock('../../utils/logger', () => ({
+  devLog: jest.fn(),
+  devError: jest.fn(),
+}));
+
+function buildContact(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'c1',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@acme.com',
+    company: 'Acme',
+    title: 'CTO',
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe('salesforceConnector', () => {
+  let server: Awaited<ReturnType<typeof startMockSalesforceServer>>;
+
+  beforeEach(async () => {
+    server = await startMockSalesforceServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function connect(refresh?: () => Promise<any>) {
+    return new SalesforceConnector({ instanceUrl: server.url, accessToken: 'mock-access-token' }, refresh);
+  }
+
+  it('should create a Contact linked to an Account by default', async () => {
+    const result = await connect().pushContact(buildContact());
+
+    expect(result.sobject).toBe('Contact');
+    expect(result.created).toBe(true);
+    expect(result.url).toBe(`${server.url}/lightning/r/Contact/${result.id}/view`);
+    expect(server.records.Account).toHaveLength(1);
+    expect(server.records.Contact[0]).toMatchObject({
+      FirstName: 'Jane',
+      LastName: 'Doe',
+      Email: 'jane@acme.com',
+      Title: 'CTO',
+      AccountId: server.records.Account[0].Id,
+    });
+  });
+
+  it('should create a Lead when createAsLead is set', async () => {
+    const result = await connect().pushContact(buildContact({ company: undefined }), { createAsLead: true });
+
+    expect(result.sobject).toBe('Lead');
+    expect(server.records.Lead[0]).toMatchObject({ LastName: 'Doe', Company: '[not provided]' });
+    expect(server.records.Account).toHaveLength(0);
+  });
+
+  it('should update an existing Contact with the same email instead of creating a Lead', async () => {
+    const connector = connect();
+    const first = await connector.pushContact(buildContact());
+    const second = await connector.pushContact(buildContact({ title: 'CEO' }), { createAsLead: true });
+
+    expect(second).toMatchObject({ id: first.id, sobject: 'Contact', created: false });
+    expect(server.records.Lead).toHaveLength(0);
+    expect(server.records.Contact).toHaveLength(1);
+    expect(server.records.Contact[0].Title).toBe('CEO');
+  });
+
+  it('should update an open Lead with the same email', async () => {
+    const connector = connect();
+    const lead = await connector.pushContact(buildContact(), { createAsLead: true });
+    const again = await connector.pushContact(buildContact({ phone: '555-0100' }));
+
+    expect(again).toMatchObject({ id: lead.id, sobject: 'Lead', created: false });
+    expect(server.records.Contact).toHaveLength(0);
+    expect(server.records.Lead[0].Phone).toBe('555-0100');
+  });
+
+  it('should keep the company of an existing Lead when the contact has none', async () => {
+    const connector = connect();
+    await connector.pushContact(buildContact(), { createAsLead: true });
+    await connector.pushContact(buildContact({ company: undefined, phone: '555-0100' }));
+
+    expect(server.records.Lead[0]).toMatchObject({ Company: 'Acme', Phone: '555-0100' });
+  });
+
+  it('should reuse an existing Account for the same company', async () => {
+    const connector = connect();
+    await connector.pushContact(buildContact());
+    await connector.pushContact(buildContact({ id: 'c2', email: 'john@acme.com', firstName: 'John' }));
+
+    expect(server.records.Account).toHaveLength(1);
+    expect(server.records.Contact).toHaveLength(2);
+  });
+
+  it('should add records to a campaign once and set the owner', async () => {
+    const connector = connect();
+    const options = { createAsLead: true, addToList: '701xx0000000001', assignToUser: '005xx0000000002' };
+    const result = await connector.pushContact(buildContact(), options);
+    await connector.pushContact(buildContact(), options);
+
+    expect(server.records.Lead[0].OwnerId).toBe('005xx0000000002');
+    expect(server.records.CampaignMember).toEqual([
+      expect.objectContaining({ CampaignId: '701xx0000000001', LeadId: result.id }),
+    ]);
+  });
+
+  it('should refresh an expired session once and retry', async () => {
+    server.expireSessions();
+
+    // The mock only accepts tokens it issued, so mint one through the token endpoint
+    const tokenResponse = await fetch(`${server.url}/services/oauth2/token`, {
+      method: 'POST',
+      body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: 'mock-refresh-token' }),
+    });
+    const { access_token } = await tokenResponse.json();
+
+    const refresh = jest.fn(async () => ({ instanceUrl: server.url, accessToken: access_token }));
+    const connector = connect(refresh);
+
+    await expect(connector.testConnection()).resolves.toBe(true);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(connector.getSession().accessToken).toBe(access_token);
+  });
+
+  it('should surface Salesforce error codes when the session cannot be refreshed', async () => {
+    server.expireSessions();
+
+    await expect(connect(async () => null).testConnection()).rejects.toMatchObject({
+      status: 401,
+      errorCode: 'INVALID_SESSION_ID',
+    });
+  });
+
+  it('should split a combined name when last name is missing', () => {
+    const fields = buildSalesforceFields(buildContact({ firstName: '', lastName: '', name: 'Mary Ann Smith' }), 'Contact');
+
+    expect(fields).toMatchObject({ FirstName: 'Mary Ann', LastName: 'Smith' });
+  });
+
+  it('should escape quotes in SOQL literals', () => {
+    expect(escapeSoql("o'brien@example.com")).toBe("o\\'brien@example.com");
+  });
+});
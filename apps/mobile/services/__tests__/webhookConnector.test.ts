@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the outbound webhook connector against the local receiver
+ */
+
+import { createHmac } from 'crypto';
+import {
+  WebhookConnector,
+  WebhookTemplateError,
+  renderPayloadTemplate,
+  signWebhookPayload,
+} from '../webhookConnector';
+import { hmacSha256Hex } from '../../utils/hmac';
+import type { Contact } from '../../types/contact';
+import { startMockWebhookReceiver } from '../../scripts/mock-webhook-receiver';
+
+jest.mock('../../utils/logger', () => ({
+  devLog: jest.fn(),
+  devError: jest.fn(),
+}));
+
+function buildContact(overrides: Partial<Contact> = {}): Contact {
+  return {
+    id: 'c1',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    name: 'Jane Doe',
+    email: 'jane@acme.com',
+    company: 'Acme',
+    tags: ['prospect'],
+    ...overrides,
+  };
+}
+
+const CONTEXT = {
+  event: 'contact.created' as const,
+  deliveryId: 'whd_1',
+  timestamp: '1700000000',
+  contact: buildContact(),
+  fields: null,
+};
+
+describe('webhookConnector', () => {
+  describe('renderPayloadTemplate', () => {
+    it('should keep JSON types for whole-value placeholders', () => {
+      const payload = renderPayloadTemplate('{"contact": "{{contact}}", "tags": "{{contact.tags}}"}', CONTEXT);
+
+      expect(payload).toEqual({ contact: CONTEXT.contact, tags: ['prospect'] });
+    });
+
+    it('should interpolate placeholders inside strings and nested structures', () => {
+      const template = '{"text": "{{contact.name}} at {{ contact.company }}", "meta": [{"event": "{{event}}"}]}';
+
+      expect(renderPayloadTemplate(template, CONTEXT)).toEqual({
+        text: 'Jane Doe at Acme',
+        meta: [{ event: 'contact.created' }],
+      });
+    });
+
+    it('should render missing values as null or empty strings', () => {
+      const payload = renderPayloadTemplate('{"city": "{{contact.city}}", "label": "City: {{contact.city}}"}', CONTEXT);
+
+      expect(payload).toEqual({ city: null, label: 'City: ' });
+    });
+
+    it('should reject templates that are not valid JSON', () => {
+      expect(() => renderPayloadTemplate('{"contact": {{contact}}}', CONTEXT)).toThrow(WebhookTemplateError);
+    });
+  });
+
+  describe('signing', () => {
+    it('should match Node crypto HMAC-SHA256 for short, long and multi-byte input', () => {
+      const longKey = 'k'.repeat(100);
+      const body = JSON.stringify({ name: 'Zoë Ångström 名前', padding: 'x'.repeat(200) });
+
+      expect(hmacSha256Hex('secret', '')).toBe(createHmac('sha256', 'secret').update('').digest('hex'));
+      expect(hmacSha256Hex(longKey, body)).toBe(createHmac('sha256', longKey).update(body).digest('hex'));
+      expect(signWebhookPayload('secret', '1700000000', body)).toBe(
+        `sha256=${createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex')}`
+      );
+    });
+  });
+
+  describe('deliver', () => {
+    let receiver: any;
+
+    beforeEach(async () => {
+      receiver = await startMockWebhookReceiver();
+    });
+
+    afterEach(async () => {
+      await receiver.close();
+    });
+
+    function connect(overrides: Record<string, any> = {}, options = {}) {
+      return new WebhookConnector(
+        { url: receiver.url, secret: receiver.secret, ...overrides },
+        { baseDelayMs: 1, ...options }
+      );
+    }
+
+    it('should send a signed payload with event headers and custom headers', async () => {
+      const delivery = await connect({ headers: { Authorization: 'Bearer abc' } }).deliver('contact.updated', buildContact());
+
+      expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200, contactId: 'c1' });
+      expect(receiver.requests).toHaveLength(1);
+
+      const [request] = receiver.requests;
+      expect(request.signatureValid).toBe(true);
+      expect(request.headers).toMatchObject({
+        'authorization': 'Bearer abc',
+        'x-allmycircles-event': 'contact.updated',
+        'x-allmycircles-delivery': delivery.id,
+      });
+      expect(request.body).toMatchObject({ event: 'contact.updated', deliveryId: delivery.id, contact: { id: 'c1' } });
+    });
+
+    it('should apply the connection payload template', async () => {
+      await connect({ payloadTemplate: '{"email": "{{contact.email}}", "type": "{{event}}"}' }).deliver('contact.deleted', buildContact());
+
+      expect(receiver.requests[0].body).toEqual({ email: 'jane@acme.com', type: 'contact.deleted' });
+    });
+
+    it('should omit the signature when no secret is configured', async () => {
+      await connect({ secret: undefined }).deliver('ping', null);
+
+      expect(receiver.requests[0].headers['x-allmycircles-signature']).toBeUndefined();
+      expect(receiver.requests[0].body.contact).toBeNull();
+    });
+
+    it('should retry server errors with the same delivery ID', async () => {
+      receiver.failNext(2, 503);
+
+      const delivery = await connect().deliver('contact.created', buildContact());
+
+      expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, responseStatus: 200 });
+      expect(delivery.error).toBeUndefined();
+      expect(new Set(receiver.requests.map((request: any) => request.headers['x-allmycircles-delivery']))).toEqual(
+        new Set([delivery.id])
+      );
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      receiver.failNext(5, 500);
+
+      const delivery = await connect({}, { maxAttempts: 2 }).deliver('contact.created', buildContact());
+
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 2, responseStatus: 500 });
+      expect(receiver.requests).toHaveLength(2);
+    });
+
+    it('should not retry client errors', async () => {
+      receiver.failNext(1, 400);
+
+      const delivery = await connect().deliver('contact.created', buildContact());
+
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 400 });
+    });
+
+    it('should record unreachable endpoints as failed without throwing', async () => {
+      const unreachable = new WebhookConnector({ url: 'http://127.0.0.1:1/hooks' }, { maxAttempts: 2, baseDelayMs: 1 });
+
+      const delivery = await unreachable.deliver('contact.created', buildContact());
+
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 2 });
+      expect(delivery.responseStatus).toBeUndefined();
+      expect(delivery.error).toBeTruthy();
+    });
+
+    it('should expose mapped fields to templates and enforce required mappings', async () => {
+      const fieldMappings = [
+        { localField: 'email', crmField: 'Email', isRequired: true, transform: 'uppercase' as const },
+        { localField: 'phone', crmField: 'Phone', isRequired: false, transform: 'phone_format' as const },
+      ];
+      const connector = connect({ payloadTemplate: '{"data": "{{fields}}"}', fieldMappings });
+
+      await connector.deliver('contact.updated', buildContact({ phone: '555 123 4567' }));
+      const missing = await connector.deliver('contact.updated', buildContact({ email: undefined }));
+      await connector.deliver('contact.deleted', buildContact({ email: undefined }));
+
+      expect(receiver.requests[0].body).toEqual({ data: { Email: 'JANE@ACME.COM', Phone: '(555) 123-4567' } });
+      expect(missing).toMatchObject({ status: 'failed', attempts: 0, error: 'Missing required fields: email' });
+      expect(receiver.requests).toHaveLength(2);
+      expect(receiver.requests[1].body).toEqual({ data: {} });
+    });
+
+    it('should fail without sending when the template is invalid', async () => {
+      const delivery = await connect({ payloadTemplate: 'not json' }).deliver('contact.created', buildContact());
+
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 0 });
+      expect(delivery.error).toMatch(/valid JSON/);
+      expect(receiver.requests).toHaveLength(0);
+    });
+  });
+});
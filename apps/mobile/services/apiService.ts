@@ -4,7 +4,7 @@
  */
 
 import { devLog, devError } from '../utils/logger';
-import type { Contact } from '../types/contact';
+import type { Contact, Interaction, NetworkingEvent, SavedSearch } from '../types/contact';
 import { notificationService } from './notificationService';
 
 const API_BASE_URL = 'https://all-my-circles-web-ltp4.vercel.app/api';
@@ -154,9 +154,9 @@ export class ApiService {
   }
 
   /**
-   * Create contact and sync to backend/HubSpot
+   * Create contact and sync to backend/HubSpot, linked to the event they were met at
    */
-  async createContact(contact: any): Promise<any> {
+  async createContact(contact: any, firstMetEvent?: { id: string; serverId?: string }): Promise<any> {
     if (!this.deviceId) {
       throw new Error('Device ID not set');
     }
@@ -170,6 +170,7 @@ export class ApiService {
     // Extract email and phone from identifiers
     const email = contact.identifiers?.find((id: any) => id.type === 'email')?.value || '';
     const phone = contact.identifiers?.find((id: any) => id.type === 'phone')?.value || '';
+    const linkedinUrl = contact.linkedinUrl || contact.identifiers?.find((id: any) => id.type === 'linkedin')?.value || '';
 
     try {
       const response = await fetch(`${API_BASE_URL}/mobile/contacts`, {
@@ -182,19 +183,27 @@ export class ApiService {
           name: contact.name,
           email: email,
           phone: phone,
+          linkedinUrl: linkedinUrl,
           company: contact.company,
           title: contact.title || contact.jobTitle,
+          city: contact.city,
+          country: contact.country,
           notes: contact.note || contact.notes,
           tags: contact.tags,
           groups: contact.groups,
+          starred: contact.starred,
 
           // All My Circles specific properties
           connectionStrength: contact.connectionStrength,
+          connectionStrengthLocked: contact.connectionStrengthLocked,
           contactValue: contact.contactValue,
+          firstMetEventId: firstMetEvent?.serverId,
+          firstMetEventClientId: firstMetEvent && !firstMetEvent.serverId ? firstMetEvent.id : undefined,
           firstMetLocation: contact.firstMetLocation,
           firstMetDate: contact.firstMetDate,
           lastInteractionDate: contact.lastInteractionDate,
           nextFollowupDate: contact.nextFollowupDate,
+          followupCadenceDays: contact.followupCadenceDays,
           totalInteractions: contact.totalInteractions || 0,
         }),
       });
@@ -240,11 +249,13 @@ export class ApiService {
 
           // All My Circles specific properties
           connectionStrength: contact.connectionStrength,
+          connectionStrengthLocked: contact.connectionStrengthLocked,
           contactValue: contact.contactValue,
           firstMetLocation: contact.firstMetLocation,
           firstMetDate: contact.firstMetDate,
           lastInteractionDate: contact.lastInteractionDate,
           nextFollowupDate: contact.nextFollowupDate,
+          followupCadenceDays: contact.followupCadenceDays,
           totalInteractions: contact.totalInteractions || 0,
         }),
       });
@@ -313,16 +324,26 @@ export class ApiService {
         lastName: contact.last_name,
         email: contact.email,
         phone: contact.phone,
+        linkedinUrl: contact.linkedin_url ?? undefined,
         company: contact.company,
         jobTitle: contact.job_title,
+        city: contact.city ?? undefined,
+        country: contact.country ?? undefined,
         connectionStrength: contact.connection_strength,
+        connectionScore: contact.connection_score ?? undefined,
+        connectionScoreExplanation: contact.connection_score_explanation ?? undefined,
+        connectionScoreFactors: contact.connection_score_factors ?? undefined,
+        connectionStrengthLocked: !!contact.connection_strength_locked,
         contactValue: contact.contact_value,
         firstMetLocation: contact.first_met_location,
         firstMetDate: contact.first_met_date,
         lastInteractionDate: contact.last_interaction_date,
         nextFollowupDate: contact.next_followup_date,
+        followupCadenceDays: contact.followup_cadence_days ?? undefined,
         totalInteractions: contact.total_interactions || 0,
         tags: contact.tags || [],
+        groups: contact.groups || [],
+        starred: !!contact.starred,
         notes: contact.notes,
         createdAt: contact.created_at,
         updatedAt: contact.updated_at,
@@ -423,17 +444,23 @@ export class ApiService {
           last_name: contact.lastName,
           email: contact.email,
           phone: contact.phone,
+          linkedin_url: contact.linkedinUrl,
           company: contact.company,
           job_title: contact.jobTitle,
+          city: contact.city,
+          country: contact.country,
           notes: contact.notes,
           tags: contact.tags,
-          connectionStrength: contact.connectionStrength,
-          contactValue: contact.contactValue,
-          firstMetLocation: contact.firstMetLocation,
-          firstMetDate: contact.firstMetDate,
-          lastInteractionDate: contact.lastInteractionDate,
-          nextFollowupDate: contact.nextFollowupDate,
-          totalInteractions: contact.totalInteractions || 0,
+          groups: contact.groups,
+          starred: contact.starred,
+          connection_strength: contact.connectionStrength,
+          contact_value: contact.contactValue,
+          first_met_location: contact.firstMetLocation,
+          first_met_date: contact.firstMetDate,
+          last_interaction_date: contact.lastInteractionDate,
+          next_followup_date: contact.nextFollowupDate,
+          followup_cadence_days: contact.followupCadenceDays,
+          total_interactions: contact.totalInteractions || 0,
         }),
       });
 
@@ -451,6 +478,462 @@ export class ApiService {
     }
   }
 
+  /**
+   * Merge two synced contacts on the server, which merges them in HubSpot too. Records are
+   * identified by our server ID when the device knows it, otherwise by their HubSpot ID;
+   * the merged values are the ones already chosen on the device.
+   */
+  async mergeContacts(
+    primary: { serverId?: string; hubspotContactId?: string },
+    duplicate: { serverId?: string; hubspotContactId?: string },
+    merged: Contact
+  ): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/contacts/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          primaryId: primary.serverId,
+          duplicateId: duplicate.serverId,
+          primaryHubspotContactId: primary.hubspotContactId,
+          duplicateHubspotContactId: duplicate.hubspotContactId,
+          values: {
+            first_name: merged.firstName,
+            last_name: merged.lastName,
+            company: merged.company,
+            job_title: merged.title || merged.jobTitle,
+            first_met_location: merged.firstMetLocation,
+            first_met_date: merged.firstMetDate,
+            notes: merged.notes || merged.note,
+            tags: merged.tags,
+          },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge contacts');
+      }
+
+      devLog('Contacts merged successfully:', data);
+      return data;
+    } catch (error) {
+      devError('Merge contacts failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a logged interaction. The contact is identified by our server ID when the
+   * device knows it, otherwise by its HubSpot ID; the local interaction ID is sent as
+   * client_id so a retried upload isn't stored twice.
+   */
+  async createInteraction(
+    interaction: Interaction,
+    contactRef: { serverId?: string; hubspotContactId?: string }
+  ): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/interactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          client_id: interaction.id,
+          contact_id: contactRef.serverId,
+          hubspot_contact_id: contactRef.serverId ? undefined : contactRef.hubspotContactId,
+          interaction_type: interaction.type,
+          date: interaction.date,
+          notes: interaction.notes,
+          location: interaction.location,
+          duration_minutes: interaction.durationMinutes,
+          follow_up_needed: interaction.followUpNeeded,
+          direction: interaction.direction,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create interaction');
+      }
+
+      devLog('Interaction created successfully:', data);
+      return data;
+    } catch (error) {
+      devError('Create interaction failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a logged interaction by its local ID
+   */
+  async deleteInteraction(interactionId: string): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/interactions?client_id=${encodeURIComponent(interactionId)}`, {
+        method: 'DELETE',
+        headers: {
+          'x-device-id': this.deviceId,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete interaction');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Delete interaction failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Set a contact's connection strength by hand and lock it, or unlock it so it follows
+   * the computed score again. Resolves to the server's score and explanation.
+   */
+  async setConnectionStrength(
+    contactRef: { serverId?: string; hubspotContactId?: string },
+    override: { strength?: string; locked: boolean }
+  ): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/connection-strength`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          contact_id: contactRef.serverId,
+          hubspot_contact_id: contactRef.serverId ? undefined : contactRef.hubspotContactId,
+          strength: override.strength,
+          locked: override.locked,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update connection strength');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Update connection strength failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Set, reschedule or clear a contact's follow-up. A cadence makes it recurring.
+   */
+  async setFollowup(
+    contactRef: { serverId?: string; hubspotContactId?: string },
+    followup: { nextFollowupDate: string | null; cadenceDays: number | null }
+  ): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/followups`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          contact_id: contactRef.serverId,
+          hubspot_contact_id: contactRef.serverId ? undefined : contactRef.hubspotContactId,
+          next_followup_date: followup.nextFollowupDate,
+          cadence_days: followup.cadenceDays,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update follow-up');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Update follow-up failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * The user's saved searches, as stored on the server
+   */
+  async getSavedSearches(): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/saved-searches`, {
+        headers: {
+          'x-device-id': this.deviceId,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to get saved searches');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Get saved searches failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a saved search. The local ID is sent as client_id, so saving
+   * again (or retrying a queued save) updates the same server row.
+   */
+  async saveSavedSearch(search: SavedSearch): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/saved-searches`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          id: search.serverId,
+          client_id: search.serverId ? undefined : search.id,
+          name: search.name,
+          filters: search.filters,
+          pinned: Boolean(search.pinned),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save search');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Save search failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a saved search by its server ID, or by its local ID if it has none yet
+   */
+  async deleteSavedSearch(searchRef: { id: string; serverId?: string }): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    const query = searchRef.serverId
+      ? `id=${encodeURIComponent(searchRef.serverId)}`
+      : `client_id=${encodeURIComponent(searchRef.id)}`;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/saved-searches?${query}`, {
+        method: 'DELETE',
+        headers: {
+          'x-device-id': this.deviceId,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete saved search');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Delete saved search failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a HubSpot active list from a saved search. Searches HubSpot can't
+   * express are refused; the error names the parts it couldn't translate.
+   */
+  async pushSavedSearchToHubSpot(searchRef: { id: string; serverId?: string }): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/saved-searches/hubspot`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          id: searchRef.serverId,
+          client_id: searchRef.serverId ? undefined : searchRef.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create HubSpot list');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Push saved search to HubSpot failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Get all of the organization's events, each with the server IDs of the contacts met
+   * there. Every page is fetched, as the app treats synced events missing here as deleted.
+   */
+  async getEvents(): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const events: any[] = [];
+      let page = 1;
+      let hasMore = true;
+
+      while (hasMore) {
+        const response = await fetch(`${API_BASE_URL}/mobile/events?limit=100&page=${page}`, {
+          headers: {
+            'x-device-id': this.deviceId,
+          },
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to get events');
+        }
+
+        events.push(...(data.events || []));
+        hasMore = Boolean(data.pagination?.hasMore);
+        page++;
+      }
+
+      return { events };
+    } catch (error) {
+      devError('Get events failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update an event and link the contacts met there. The local ID is sent as
+   * client_id, so saving again (or retrying a queued save) updates the same server row.
+   */
+  async saveEvent(event: NetworkingEvent, contactServerIds: string[] = []): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/events`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': this.deviceId,
+        },
+        body: JSON.stringify({
+          id: event.serverId,
+          client_id: event.serverId ? undefined : event.id,
+          name: event.name,
+          start_date: event.startDate,
+          end_date: event.endDate || event.startDate,
+          venue: event.venue || null,
+          agenda_url: event.agendaUrl || null,
+          contact_ids: contactServerIds,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save event');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Save event failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an event by its server ID, or by its local ID if it has none yet
+   */
+  async deleteEvent(eventRef: { id: string; serverId?: string }): Promise<any> {
+    if (!this.deviceId) {
+      throw new Error('Device ID not set');
+    }
+
+    const query = eventRef.serverId
+      ? `id=${encodeURIComponent(eventRef.serverId)}`
+      : `client_id=${encodeURIComponent(eventRef.id)}`;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/events?${query}`, {
+        method: 'DELETE',
+        headers: {
+          'x-device-id': this.deviceId,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete event');
+      }
+
+      return data;
+    } catch (error) {
+      devError('Delete event failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
   /**
    * Get sync status and dashboard data
    */
@@ -0,0 +1,51 @@
+/**
+ * Badge code scanning
+ * Finds QR / PDF417 codes on a badge photo with the native camera scanner and parses
+ * their payload. Any failure returns null so callers fall back to OCR.
+ * Profile card share links are followed to the card's vCard.
+ */
+
+import { Platform } from 'react-native';
+import { scanFromURLAsync, type BarcodeType } from 'expo-camera';
+import { parseBadgeCode, type BadgeCodeData } from '../utils/badgeCodeParser';
+import { isProfileCardShareUrl, profileCardService } from './profileCardService';
+import { devLog, devError } from '../utils/config';
+
+// Symbologies used on conference badges; linear retail codes only carry IDs
+export const BADGE_BARCODE_TYPES: BarcodeType[] = ['qr', 'pdf417', 'aztec', 'datamatrix'];
+
+/**
+ * Parse a decoded code payload; a profile card share link is resolved to the card's
+ * contact data, falling back to the bare link when the card cannot be fetched
+ */
+export async function resolveBadgeCode(payload: string): Promise<BadgeCodeData | null> {
+  const code = parseBadgeCode(payload);
+  if (code?.format === 'url' && isProfileCardShareUrl(code.raw)) {
+    return (await profileCardService.resolveShareUrl(code.raw)) || code;
+  }
+  return code;
+}
+
+/**
+ * Read the first badge code with contact data from an image
+ */
+export async function scanBadgeCode(imageUri: string): Promise<BadgeCodeData | null> {
+  if (Platform.OS === 'web' || !imageUri) {
+    return null;
+  }
+
+  try {
+    const results = await scanFromURLAsync(imageUri, BADGE_BARCODE_TYPES);
+    for (const result of results) {
+      const code = await resolveBadgeCode(result.data);
+      if (code) {
+        devLog('Badge code decoded', { format: code.format, type: result.type });
+        return code;
+      }
+    }
+    return null;
+  } catch (error) {
+    devError('Badge code scan failed', error instanceof Error ? error : new Error(String(error)));
+    return null;
+  }
+}
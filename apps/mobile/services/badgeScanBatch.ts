@@ -0,0 +1,276 @@
+/**
+ * Batch badge scanning for booth duty
+ * Captured badge images are queued and read one at a time in the background. Data from a
+ * badge QR / PDF417 code and fields the badge parser is confident about are filled in
+ * automatically, and every scan then waits in a review inbox until it is confirmed or
+ * discarded.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { processImageWithOcr } from './ocrService';
+import { scanBadgeCode } from './badgeCodeScanner';
+import { parseBadgeText } from '../utils/badgeParser';
+import { badgeCodeToLines, mergeBadgeData, type BadgeCodeData } from '../utils/badgeCodeParser';
+import { devLog, devError } from '../utils/config';
+
+export type BatchScanField = 'name' | 'title' | 'company' | 'email' | 'phone';
+
+export const BATCH_SCAN_FIELDS: BatchScanField[] = ['name', 'title', 'company', 'email', 'phone'];
+
+export type BatchScanFields = Record<BatchScanField, string>;
+
+export type BatchScanStatus = 'queued' | 'processing' | 'ready' | 'failed';
+
+export interface BatchScan {
+  id: string;
+  imageUri: string;
+  status: BatchScanStatus;
+  capturedAt: string;
+  extractedText: string;
+  fields: BatchScanFields;
+  /** Fields filled in by the parser rather than the user */
+  autoAssigned: BatchScanField[];
+  /** Reviewed and ready to be added as a contact */
+  confirmed: boolean;
+  error?: string;
+}
+
+// Fields are only filled in without review when the parser is at least this sure of them
+export const AUTO_ASSIGN_MIN_CONFIDENCE: Record<BatchScanField, number> = {
+  name: 0.7,
+  title: 0.6,
+  company: 0.6,
+  email: 0.9,
+  phone: 0.8,
+};
+
+const STORAGE_KEY = '@circles_batch_scans';
+
+const EMPTY_FIELDS: BatchScanFields = { name: '', title: '', company: '', email: '', phone: '' };
+
+/**
+ * Fill in the fields the parser is confident about and leave the rest for review
+ */
+export function autoAssignFields(text: string): Pick<BatchScan, 'fields' | 'autoAssigned'> {
+  const parsed = parseBadgeText(text, { minConfidence: AUTO_ASSIGN_MIN_CONFIDENCE });
+  const fields = { ...EMPTY_FIELDS };
+  const autoAssigned: BatchScanField[] = [];
+
+  BATCH_SCAN_FIELDS.forEach(field => {
+    if (parsed[field]) {
+      fields[field] = parsed[field];
+      autoAssigned.push(field);
+    }
+  });
+
+  return { fields, autoAssigned };
+}
+
+/**
+ * Structured badge code data wins over OCR; OCR only fills the fields the code lacks
+ */
+export function applyBadgeCode(
+  code: BadgeCodeData,
+  fromOcr: Pick<BatchScan, 'fields' | 'autoAssigned'>
+): Pick<BatchScan, 'fields' | 'autoAssigned'> {
+  const merged = mergeBadgeData(code.contact, fromOcr.fields);
+  const fields = { ...EMPTY_FIELDS };
+  const autoAssigned: BatchScanField[] = [];
+
+  BATCH_SCAN_FIELDS.forEach(field => {
+    fields[field] = merged[field] || '';
+    if (fields[field] && (code.contact[field] || fromOcr.autoAssigned.indexOf(field) !== -1)) {
+      autoAssigned.push(field);
+    }
+  });
+
+  return { fields, autoAssigned };
+}
+
+type BatchScanListener = (scans: BatchScan[]) => void;
+
+class BadgeScanBatchService {
+  private scans: BatchScan[] = [];
+  private listeners: BatchScanListener[] = [];
+  private loading: Promise<void> | null = null;
+  private isProcessing = false;
+
+  /**
+   * Restore scans from a previous session and resume reading the queued ones
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const scansJson = await AsyncStorage.getItem(STORAGE_KEY);
+          const stored: BatchScan[] = scansJson ? JSON.parse(scansJson) : [];
+          // A scan that was being read when the app closed is read again
+          this.scans = stored.map(scan => (scan.status === 'processing' ? { ...scan, status: 'queued' } : scan));
+        } catch (error) {
+          devError('Failed to load batch scans', error instanceof Error ? error : new Error(String(error)));
+        }
+        this.notify();
+        this.processQueue();
+      })();
+    }
+    return this.loading;
+  }
+
+  subscribe(listener: BatchScanListener): () => void {
+    this.listeners.push(listener);
+    listener(this.scans);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  getScans(): BatchScan[] {
+    return this.scans;
+  }
+
+  /**
+   * Queue a captured badge image; it is read in the background
+   */
+  async enqueue(imageUri: string): Promise<BatchScan> {
+    await this.load();
+
+    const scan: BatchScan = {
+      id: `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      imageUri,
+      status: 'queued',
+      capturedAt: new Date().toISOString(),
+      extractedText: '',
+      fields: { ...EMPTY_FIELDS },
+      autoAssigned: [],
+      confirmed: false,
+    };
+
+    this.scans = [...this.scans, scan];
+    await this.save();
+    this.processQueue();
+    return scan;
+  }
+
+  async updateFields(id: string, fields: Partial<BatchScanFields>): Promise<void> {
+    this.scans = this.scans.map(scan => {
+      if (scan.id !== id) return scan;
+      const changed = Object.keys(fields) as BatchScanField[];
+      return {
+        ...scan,
+        fields: { ...scan.fields, ...fields },
+        autoAssigned: scan.autoAssigned.filter(field => changed.indexOf(field) === -1),
+      };
+    });
+    await this.save();
+  }
+
+  async setConfirmed(id: string, confirmed: boolean): Promise<void> {
+    this.scans = this.scans.map(scan => (scan.id === id ? { ...scan, confirmed } : scan));
+    await this.save();
+  }
+
+  async retry(id: string): Promise<void> {
+    this.scans = this.scans.map(scan => (
+      scan.id === id ? { ...scan, status: 'queued', error: undefined } : scan
+    ));
+    await this.save();
+    this.processQueue();
+  }
+
+  /**
+   * Drop scans that were discarded or added as contacts
+   */
+  async remove(ids: string[]): Promise<void> {
+    this.scans = this.scans.filter(scan => ids.indexOf(scan.id) === -1);
+    await this.save();
+  }
+
+  // Scans are read one at a time so booth capture never waits on OCR
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      let next = this.scans.find(scan => scan.status === 'queued');
+      while (next) {
+        await this.processScan(next.id);
+        next = this.scans.find(scan => scan.status === 'queued');
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processScan(id: string): Promise<void> {
+    const scan = this.scans.find(item => item.id === id);
+    if (!scan) return;
+
+    await this.updateScan(id, { status: 'processing' });
+
+    try {
+      // Codes are read from the full-size image; small PDF417 modules do not survive resizing
+      const badgeCode = await scanBadgeCode(scan.imageUri);
+      const resized = await ImageManipulator.manipulateAsync(
+        scan.imageUri,
+        [{ resize: { width: 1200 } }],
+        { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      const ocrResult = await processImageWithOcr(resized.uri);
+      const ocrText = ocrResult.success ? ocrResult.extractedText.trim() : '';
+
+      if (!ocrText && !badgeCode) {
+        await this.updateScan(id, {
+          status: 'failed',
+          error: ocrResult.queuedForRemote
+            ? 'Saved for cloud OCR when you are back online'
+            : ocrResult.error || 'No text detected in image',
+        });
+        return;
+      }
+
+      const fromOcr = ocrText ? autoAssignFields(ocrText) : { fields: { ...EMPTY_FIELDS }, autoAssigned: [] };
+      const { fields, autoAssigned } = badgeCode ? applyBadgeCode(badgeCode, fromOcr) : fromOcr;
+      const extractedText = ocrText || (badgeCode ? badgeCodeToLines(badgeCode.contact).join('\n') : '');
+
+      await this.updateScan(id, { status: 'ready', extractedText, fields, autoAssigned });
+      devLog('Batch scan read', { autoAssigned: autoAssigned.length, badgeCode: badgeCode?.format });
+    } catch (error) {
+      devError('Failed to read batch scan', error instanceof Error ? error : new Error(String(error)));
+      await this.updateScan(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to read badge',
+      });
+    }
+  }
+
+  private async updateScan(id: string, updates: Partial<BatchScan>): Promise<void> {
+    this.scans = this.scans.map(scan => (scan.id === id ? { ...scan, ...updates } : scan));
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.scans));
+    } catch (error) {
+      devError('Failed to save batch scans', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.scans);
+      } catch (error) {
+        devError('Batch scan listener error', error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
+
+export const badgeScanBatchService = new BadgeScanBatchService();
@@ -0,0 +1,274 @@
+/**
+ * Field-level Conflict Resolution for HubSpot Sync
+ * Decides, per field, whether a HubSpot change overwrites the local value,
+ * is ignored, or is queued for the user to resolve manually
+ */
+
+import type {
+  ConflictPolicy,
+  Contact,
+  FieldConflict,
+  FieldTimestamps,
+  SyncableField,
+} from '../types/contact';
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'newest_wins';
+
+export const SYNCABLE_FIELDS: SyncableField[] = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'company',
+  'title',
+  'linkedinUrl',
+  'firstMetLocation',
+  'firstMetDate',
+  'notes',
+  'tags',
+];
+
+export const FIELD_LABELS: Record<SyncableField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  phone: 'Phone',
+  company: 'Company',
+  title: 'Job title',
+  linkedinUrl: 'LinkedIn',
+  firstMetLocation: 'First met at',
+  firstMetDate: 'First met on',
+  notes: 'Notes',
+  tags: 'Tags',
+};
+
+type FieldValue = string | string[] | undefined;
+
+export type RemoteFieldValues = Partial<Record<SyncableField, string | string[] | null>>;
+
+export interface MergeOptions {
+  policy: ConflictPolicy;
+  /** Per-field modification times reported by HubSpot */
+  remoteUpdatedAt?: FieldTimestamps;
+  /** Used for fields HubSpot did not report a timestamp for */
+  fallbackRemoteUpdatedAt: string;
+  now?: string;
+}
+
+export interface MergeResult {
+  contact: Contact;
+  appliedFields: SyncableField[];
+  keptLocalFields: SyncableField[];
+  conflicts: FieldConflict[];
+  changed: boolean;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+export function fieldValuesEqual(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  return a === b;
+}
+
+function getFieldValue(contact: Contact, field: SyncableField): FieldValue {
+  // Older contacts store notes/title under their legacy aliases
+  if (field === 'notes') return contact.notes ?? contact.note;
+  if (field === 'title') return contact.title ?? contact.jobTitle;
+  return contact[field] as FieldValue;
+}
+
+function setFieldValue(contact: Contact, field: SyncableField, value: FieldValue): Contact {
+  const updated: Contact = { ...contact, [field]: value };
+  if (field === 'notes') updated.note = value as string | undefined;
+  if (field === 'title') updated.jobTitle = value as string | undefined;
+  return updated;
+}
+
+function toTime(timestamp?: string): number {
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
+
+/**
+ * A field counts as locally modified if it was edited after the last successful sync
+ */
+function isLocallyModified(contact: Contact, field: SyncableField): boolean {
+  const localUpdatedAt = contact.fieldUpdatedAt?.[field];
+  if (!localUpdatedAt) return false;
+  return !contact.lastSyncedAt || toTime(localUpdatedAt) > toTime(contact.lastSyncedAt);
+}
+
+/**
+ * Record modification times for every synced field that an update changes
+ */
+export function stampFieldChanges(
+  contact: Contact,
+  updates: Partial<Contact>,
+  at: string = new Date().toISOString()
+): FieldTimestamps {
+  const stamped: FieldTimestamps = { ...contact.fieldUpdatedAt };
+
+  for (const field of SYNCABLE_FIELDS) {
+    if (!(field in updates)) continue;
+    if (!fieldValuesEqual(getFieldValue(contact, field), updates[field])) {
+      stamped[field] = at;
+    }
+  }
+
+  return stamped;
+}
+
+/**
+ * Merge values fetched from HubSpot into a local contact according to the policy.
+ * Only fields changed on both sides since the last sync are subject to the policy;
+ * everything else simply takes the HubSpot value.
+ */
+export function mergeRemoteChanges(local: Contact, remote: RemoteFieldValues, options: MergeOptions): MergeResult {
+  const now = options.now ?? new Date().toISOString();
+  let contact: Contact = { ...local };
+  const fieldUpdatedAt: FieldTimestamps = { ...local.fieldUpdatedAt };
+  let conflicts: FieldConflict[] = [...(local.syncConflicts ?? [])];
+  const appliedFields: SyncableField[] = [];
+  const keptLocalFields: SyncableField[] = [];
+  const newConflicts: FieldConflict[] = [];
+
+  for (const field of SYNCABLE_FIELDS) {
+    if (!(field in remote)) continue;
+
+    const remoteValue = remote[field] ?? undefined;
+    // An empty HubSpot value never clears local data
+    if (isEmpty(remoteValue)) continue;
+
+    const localValue = getFieldValue(contact, field);
+    if (fieldValuesEqual(localValue, remoteValue)) {
+      // Both sides agree again, so any pending conflict is moot
+      conflicts = conflicts.filter(conflict => conflict.field !== field);
+      continue;
+    }
+
+    const remoteUpdatedAt = options.remoteUpdatedAt?.[field] ?? options.fallbackRemoteUpdatedAt;
+    const localUpdatedAt = fieldUpdatedAt[field];
+
+    let takeRemote = true;
+    if (isLocallyModified(local, field)) {
+      switch (options.policy) {
+        case 'hubspot_wins':
+          takeRemote = true;
+          break;
+        case 'mobile_wins':
+          takeRemote = false;
+          break;
+        case 'newest_wins':
+          takeRemote = toTime(remoteUpdatedAt) > toTime(localUpdatedAt);
+          break;
+        case 'manual': {
+          takeRemote = false;
+          const conflict: FieldConflict = {
+            field,
+            localValue,
+            remoteValue,
+            localUpdatedAt,
+            remoteUpdatedAt,
+            detectedAt: now,
+          };
+          conflicts = [...conflicts.filter(existing => existing.field !== field), conflict];
+          newConflicts.push(conflict);
+          continue;
+        }
+      }
+    }
+
+    if (takeRemote) {
+      contact = setFieldValue(contact, field, remoteValue);
+      fieldUpdatedAt[field] = remoteUpdatedAt;
+      conflicts = conflicts.filter(conflict => conflict.field !== field);
+      appliedFields.push(field);
+    } else {
+      keptLocalFields.push(field);
+    }
+  }
+
+  if (appliedFields.includes('firstName') || appliedFields.includes('lastName')) {
+    contact.name = `${contact.firstName || ''} ${contact.lastName || ''}`.trim();
+  }
+
+  const conflictsChanged =
+    conflicts.length !== (local.syncConflicts?.length ?? 0) || newConflicts.length > 0;
+
+  contact = {
+    ...contact,
+    fieldUpdatedAt,
+    syncConflicts: conflicts,
+    // Local values that beat HubSpot still need to be pushed
+    needsSync: local.needsSync || keptLocalFields.length > 0,
+  };
+
+  return {
+    contact,
+    appliedFields,
+    keptLocalFields,
+    conflicts: newConflicts,
+    changed: appliedFields.length > 0 || keptLocalFields.length > 0 || conflictsChanged,
+  };
+}
+
+/**
+ * Apply the user's decision for a queued conflict
+ */
+export function resolveFieldConflict(
+  contact: Contact,
+  field: SyncableField,
+  choice: 'local' | 'remote',
+  at: string = new Date().toISOString()
+): Contact {
+  const conflict = contact.syncConflicts?.find(existing => existing.field === field);
+  if (!conflict) return contact;
+
+  const remaining = (contact.syncConflicts ?? []).filter(existing => existing.field !== field);
+
+  if (choice === 'remote') {
+    const updated = setFieldValue(contact, field, conflict.remoteValue);
+    if (field === 'firstName' || field === 'lastName') {
+      updated.name = `${updated.firstName || ''} ${updated.lastName || ''}`.trim();
+    }
+    return {
+      ...updated,
+      fieldUpdatedAt: { ...contact.fieldUpdatedAt, [field]: conflict.remoteUpdatedAt ?? at },
+      syncConflicts: remaining,
+    };
+  }
+
+  // Keeping the local value makes it the newest edit so it is pushed to HubSpot
+  return {
+    ...contact,
+    fieldUpdatedAt: { ...contact.fieldUpdatedAt, [field]: at },
+    syncConflicts: remaining,
+    needsSync: true,
+  };
+}
+
+/**
+ * Add conflicts the server queued (from HubSpot webhooks) to the contact, unless the
+ * field already has one, the two sides agree again, or it was edited here after the
+ * conflict was detected, i.e. the user has already decided
+ */
+export function mergeServerConflicts(contact: Contact, serverConflicts: FieldConflict[] | undefined): Contact {
+  const known = new Set((contact.syncConflicts ?? []).map(conflict => conflict.field));
+  const added = (serverConflicts ?? []).filter(conflict =>
+    SYNCABLE_FIELDS.includes(conflict.field) &&
+    !known.has(conflict.field) &&
+    !fieldValuesEqual(getFieldValue(contact, conflict.field), conflict.remoteValue) &&
+    toTime(contact.fieldUpdatedAt?.[conflict.field]) <= toTime(conflict.detectedAt)
+  );
+
+  if (added.length === 0) return contact;
+
+  return {
+    ...contact,
+    syncConflicts: [...(contact.syncConflicts ?? []), ...added],
+  };
+}
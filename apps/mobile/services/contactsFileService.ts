@@ -0,0 +1,471 @@
+/**
+ * Contact file import and export
+ * Reads vCard (3.0 / 4.0) and CSV files exported by LinkedIn, Outlook and Google Contacts,
+ * flags contacts that already exist, and writes contacts to vCard or CSV for the OS share
+ * sheet.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import type { Contact, ContactIdentifier, ImportedContact } from '../types/contact';
+import { formatCsv, parseCsv } from '../utils/csv';
+import {
+  GROUPS_PROPERTY,
+  contactToVCard,
+  parseVCardProperties,
+  pickProperty,
+  splitUnescaped,
+  splitVCards,
+  unescapeValue,
+  type VCardProperty,
+} from '../utils/vcard';
+import { contactIdentifiers, displayName, identityKeys } from '../utils/duplicateDetection';
+import { devLog, devError } from '../utils/config';
+
+export type ContactFileFormat = 'vcard' | 'csv';
+
+export type CsvImportField =
+  | 'ignore'
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'title'
+  | 'linkedinUrl'
+  | 'website'
+  | 'city'
+  | 'country'
+  | 'note'
+  | 'tags'
+  | 'groups';
+
+export const CSV_IMPORT_FIELDS: { field: CsvImportField; label: string }[] = [
+  { field: 'ignore', label: "Don't import" },
+  { field: 'name', label: 'Full name' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'company', label: 'Company' },
+  { field: 'title', label: 'Job title' },
+  { field: 'linkedinUrl', label: 'LinkedIn' },
+  { field: 'website', label: 'Website' },
+  { field: 'city', label: 'City' },
+  { field: 'country', label: 'Country' },
+  { field: 'note', label: 'Notes' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'groups', label: 'Groups' },
+];
+
+export type CsvSource = 'linkedin' | 'outlook' | 'google' | 'generic';
+
+export interface CsvImport {
+  source: CsvSource;
+  headers: string[];
+  rows: string[][];
+  /** Target field for each column, in header order */
+  mapping: CsvImportField[];
+}
+
+export interface ImportCandidate {
+  contact: ImportedContact;
+  /** Existing contact, or an earlier row of the same file, with a matching identifier */
+  duplicateOf?: { id: string; name: string };
+}
+
+// Column headers of the known exports. Outlook's "Title" is the name prefix (Mr., Dr.),
+// so the exact header tables are checked before the generic patterns.
+const SOURCE_HEADERS: Record<Exclude<CsvSource, 'generic'>, Record<string, CsvImportField>> = {
+  linkedin: {
+    'first name': 'firstName',
+    'last name': 'lastName',
+    'url': 'linkedinUrl',
+    'email address': 'email',
+    'company': 'company',
+    'position': 'title',
+  },
+  outlook: {
+    'first name': 'firstName',
+    'last name': 'lastName',
+    'title': 'ignore',
+    'company': 'company',
+    'job title': 'title',
+    'e-mail address': 'email',
+    'e-mail 2 address': 'email',
+    'e-mail 3 address': 'email',
+    'business phone': 'phone',
+    'mobile phone': 'phone',
+    'home phone': 'phone',
+    'business city': 'city',
+    'business country/region': 'country',
+    'web page': 'website',
+    'notes': 'note',
+    'categories': 'tags',
+  },
+  google: {
+    'name': 'name',
+    'first name': 'firstName',
+    'given name': 'firstName',
+    'last name': 'lastName',
+    'family name': 'lastName',
+    'organization name': 'company',
+    'organization 1 - name': 'company',
+    'organization title': 'title',
+    'organization 1 - title': 'title',
+    'notes': 'note',
+    'labels': 'groups',
+    'group membership': 'groups',
+  },
+};
+
+// Headers that identify each export; LinkedIn's is checked first as it is the narrowest
+const SOURCE_SIGNATURES: [Exclude<CsvSource, 'generic'>, string[]][] = [
+  ['linkedin', ['first name', 'last name', 'url', 'connected on']],
+  ['outlook', ['first name', 'last name', 'e-mail address']],
+  ['google', ['e-mail 1 - value']],
+  ['google', ['organization 1 - name']],
+  ['google', ['organization name', 'labels']],
+];
+
+const GENERIC_HEADERS: [RegExp, CsvImportField][] = [
+  [/^(full )?name$|^display name$|^contact name$/, 'name'],
+  [/^(first|given)[ _]?name$|^first$/, 'firstName'],
+  [/^(last|family|sur)[ _]?name$|^surname$|^last$/, 'lastName'],
+  [/linkedin/, 'linkedinUrl'],
+  [/e-?mail/, 'email'],
+  [/phone|mobile|^tel/, 'phone'],
+  [/company|organi[sz]ation|employer|^org$/, 'company'],
+  [/job[ _]?title|position|^title$|^role$/, 'title'],
+  [/website|web page|^url$|homepage/, 'website'],
+  [/city|town/, 'city'],
+  [/country/, 'country'],
+  [/note|comment/, 'note'],
+  [/tags?$|labels?$|categor/, 'tags'],
+  [/groups?$|lists?$/, 'groups'],
+];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function detectCsvSource(headers: string[]): CsvSource {
+  const normalized = headers.map(normalizeHeader);
+  const match = SOURCE_SIGNATURES.find(([, required]) => required.every(header => normalized.includes(header)));
+  return match ? match[0] : 'generic';
+}
+
+/**
+ * Best guess of the field each column holds, for the user to confirm
+ */
+export function suggestColumnMapping(headers: string[], source: CsvSource = detectCsvSource(headers)): CsvImportField[] {
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const known = source !== 'generic' ? SOURCE_HEADERS[source][normalized] : undefined;
+    if (known) return known;
+
+    // Google numbers repeated fields: "E-mail 1 - Value", "Phone 2 - Value", "Address 1 - City"
+    if (/ - (type|label)$/.test(normalized)) return 'ignore';
+    const generic = GENERIC_HEADERS.find(([pattern]) => pattern.test(normalized));
+    return generic ? generic[1] : 'ignore';
+  });
+}
+
+/**
+ * Read a CSV export. Rows before the header, such as the notes LinkedIn puts at the
+ * top of Connections.csv, are skipped.
+ */
+export function readCsvImport(text: string): CsvImport {
+  const allRows = parseCsv(text);
+  const headerIndex = Math.max(0, allRows.findIndex(row =>
+    row.length > 1 && suggestColumnMapping(row).filter(field => field !== 'ignore').length >= 2
+  ));
+  const headers = allRows[headerIndex] || [];
+  const source = detectCsvSource(headers);
+
+  return {
+    source,
+    headers,
+    rows: allRows.slice(headerIndex + 1),
+    mapping: suggestColumnMapping(headers, source),
+  };
+}
+
+// Several values in one cell: "a; b", Google's "a ::: b" or a comma separated list
+function splitMultiValue(value: string): string[] {
+  return value.split(/\s*(?::::|;|,)\s*/).map(item => item.trim()).filter(Boolean);
+}
+
+function identifierType(value: string): ContactIdentifier['type'] {
+  if (value.includes('@')) return 'email';
+  if (/linkedin\.com/i.test(value)) return 'linkedin';
+  if (/^\+?[\d\s\-().]+$/.test(value)) return 'phone';
+  return 'url';
+}
+
+function addIdentifier(identifiers: ContactIdentifier[], type: ContactIdentifier['type'], value: string): void {
+  const trimmed = value.trim();
+  if (trimmed && !identifiers.some(identifier => identifier.type === type && identifier.value === trimmed)) {
+    identifiers.push({ type, value: trimmed });
+  }
+}
+
+function newImportedContact(index: number): ImportedContact {
+  return {
+    id: `imported_file_${Date.now()}_${index}`,
+    name: '',
+    identifiers: [],
+    company: '',
+    title: '',
+    city: '',
+    country: '',
+    note: '',
+    tags: [],
+    groups: [],
+    starred: false,
+    lastInteraction: Date.now(),
+  };
+}
+
+/**
+ * Contacts from CSV rows using the confirmed column mapping. Rows without a name are skipped.
+ */
+export function csvRowsToContacts(rows: string[][], mapping: CsvImportField[]): ImportedContact[] {
+  return rows
+    .map((row, index) => {
+      const contact = newImportedContact(index);
+      let firstName = '';
+      let lastName = '';
+
+      mapping.forEach((field, column) => {
+        const value = (row[column] || '').trim();
+        if (!value) return;
+
+        switch (field) {
+          case 'name':
+            contact.name = contact.name || value;
+            break;
+          case 'firstName':
+            firstName = firstName || value;
+            break;
+          case 'lastName':
+            lastName = lastName || value;
+            break;
+          case 'email':
+          case 'phone':
+            splitMultiValue(value).forEach(item => addIdentifier(contact.identifiers, field, item));
+            break;
+          case 'linkedinUrl':
+            addIdentifier(contact.identifiers, 'linkedin', value);
+            break;
+          case 'website':
+            addIdentifier(contact.identifiers, 'url', value);
+            break;
+          case 'company':
+          case 'title':
+          case 'city':
+          case 'country':
+            contact[field] = contact[field] || value;
+            break;
+          case 'note':
+            contact.note = contact.note ? `${contact.note}\n${value}` : value;
+            break;
+          case 'tags':
+          case 'groups':
+            splitMultiValue(value)
+              // Google adds system labels such as "* myContacts"
+              .filter(item => !item.startsWith('*'))
+              .forEach(item => {
+                if (!contact[field].includes(item)) contact[field].push(item);
+              });
+            break;
+        }
+      });
+
+      contact.name = contact.name || [firstName, lastName].filter(Boolean).join(' ');
+      return contact;
+    })
+    .filter(contact => contact.name);
+}
+
+function vCardToContact(properties: VCardProperty[], index: number): ImportedContact {
+  const contact = newImportedContact(index);
+
+  const formattedName = pickProperty(properties, 'FN');
+  const structuredName = pickProperty(properties, 'N');
+  contact.name = formattedName ? unescapeValue(formattedName.value) : '';
+  if (!contact.name && structuredName) {
+    const [family, given, additional] = splitUnescaped(structuredName.value, ';').map(unescapeValue);
+    contact.name = [given, additional, family].filter(Boolean).join(' ');
+  }
+
+  const org = pickProperty(properties, 'ORG');
+  if (org) contact.company = unescapeValue(splitUnescaped(org.value, ';')[0]);
+
+  const title = pickProperty(properties, 'TITLE') || pickProperty(properties, 'ROLE');
+  if (title) contact.title = unescapeValue(title.value);
+
+  const address = pickProperty(properties, 'ADR');
+  if (address) {
+    const parts = splitUnescaped(address.value, ';').map(unescapeValue);
+    contact.city = parts[3] || '';
+    contact.country = parts[6] || '';
+  }
+
+  properties.forEach(property => {
+    const value = unescapeValue(property.value);
+    switch (property.name) {
+      case 'EMAIL':
+        addIdentifier(contact.identifiers, 'email', value.replace(/^mailto:/i, ''));
+        break;
+      case 'TEL':
+        addIdentifier(contact.identifiers, 'phone', value.replace(/^tel:/i, ''));
+        break;
+      case 'URL':
+      case 'X-SOCIALPROFILE':
+        addIdentifier(contact.identifiers, identifierType(value) === 'linkedin' ? 'linkedin' : 'url', value);
+        break;
+      case 'NOTE':
+        contact.note = contact.note ? `${contact.note}\n${value}` : value;
+        break;
+      case 'CATEGORIES':
+        splitUnescaped(property.value, ',').map(unescapeValue).filter(Boolean).forEach(tag => {
+          if (!contact.tags.includes(tag)) contact.tags.push(tag);
+        });
+        break;
+      case GROUPS_PROPERTY:
+        splitUnescaped(property.value, ',').map(unescapeValue).filter(Boolean).forEach(group => {
+          if (!contact.groups.includes(group)) contact.groups.push(group);
+        });
+        break;
+    }
+  });
+
+  return contact;
+}
+
+/**
+ * Contacts from a .vcf file holding one or more cards. Cards without a name are skipped.
+ */
+export function parseVCardFile(text: string): ImportedContact[] {
+  return splitVCards(text)
+    .map((card, index) => vCardToContact(parseVCardProperties(card), index))
+    .filter(contact => contact.name);
+}
+
+export function detectFileFormat(text: string, fileName = ''): ContactFileFormat {
+  if (/\.vcf$|\.vcard$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text)) {
+    return 'vcard';
+  }
+  return 'csv';
+}
+
+/**
+ * Pair each imported contact with an existing contact it duplicates, if any. Repeats
+ * within the file are flagged against their first occurrence.
+ */
+export function findImportDuplicates(imported: ImportedContact[], existing: Contact[]): ImportCandidate[] {
+  const known = new Map<string, { id: string; name: string }>();
+  const remember = (identifiers: ContactIdentifier[], record: { id: string; name: string }) => {
+    identityKeys(identifiers).forEach(key => {
+      if (!known.has(key)) known.set(key, record);
+    });
+  };
+
+  existing.forEach(contact => remember(contactIdentifiers(contact), { id: contact.id, name: displayName(contact) }));
+
+  return imported.map(contact => {
+    const duplicateOf = identityKeys(contact.identifiers)
+      .map(key => known.get(key))
+      .find(Boolean);
+    remember(contact.identifiers, { id: contact.id, name: contact.name });
+    return duplicateOf ? { contact, duplicateOf } : { contact };
+  });
+}
+
+/**
+ * Let the user pick a .vcf or .csv file and return its text
+ */
+export async function pickContactsFile(): Promise<{ name: string; text: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/vcard', 'text/x-vcard', 'text/csv', 'text/comma-separated-values', 'text/plain', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) {
+    return null;
+  }
+
+  const [asset] = result.assets;
+  const text = await new File(asset.uri).text();
+  devLog('Contacts file picked', { name: asset.name, size: text.length });
+  return { name: asset.name, text };
+}
+
+export const CSV_EXPORT_HEADERS = [
+  'First Name', 'Last Name', 'Email', 'Other Emails', 'Phone', 'Other Phones', 'Company',
+  'Job Title', 'LinkedIn', 'Website', 'City', 'Country', 'Tags', 'Groups', 'Notes',
+];
+
+export function contactsToCsv(contacts: Contact[]): string {
+  const rows = contacts.map(contact => {
+    const identifiers = contact.identifiers || [];
+    const values = (type: ContactIdentifier['type'], primary?: string) => {
+      const all = identifiers.filter(identifier => identifier.type === type).map(identifier => identifier.value);
+      return primary && !all.includes(primary) ? [primary, ...all] : all;
+    };
+    const emails = values('email', contact.email);
+    const phones = values('phone', contact.phone);
+    const nameParts = (contact.name || '').trim().split(/\s+/);
+
+    return [
+      contact.firstName || nameParts[0] || '',
+      contact.lastName || nameParts.slice(1).join(' '),
+      emails[0] || '',
+      emails.slice(1).join('; '),
+      phones[0] || '',
+      phones.slice(1).join('; '),
+      contact.company || '',
+      contact.title || contact.jobTitle || '',
+      contact.linkedinUrl || values('linkedin')[0] || '',
+      values('url')[0] || '',
+      contact.city || '',
+      contact.country || '',
+      (contact.tags || []).join('; '),
+      (contact.groups || []).join('; '),
+      contact.notes || contact.note || '',
+    ];
+  });
+
+  return formatCsv([CSV_EXPORT_HEADERS, ...rows]);
+}
+
+export function contactsToVCard(contacts: Contact[]): string {
+  return contacts.map(contactToVCard).join('');
+}
+
+/**
+ * Write contacts to a file and open the OS share sheet for it
+ */
+export async function shareContacts(contacts: Contact[], format: ContactFileFormat, baseName: string): Promise<boolean> {
+  if (!(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+
+  try {
+    const safeName = baseName.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'contacts';
+    const file = new File(Paths.cache, `${safeName}.${format === 'vcard' ? 'vcf' : 'csv'}`);
+    file.create({ overwrite: true });
+    file.write(format === 'vcard' ? contactsToVCard(contacts) : contactsToCsv(contacts));
+
+    await Sharing.shareAsync(file.uri, format === 'vcard'
+      ? { mimeType: 'text/vcard', UTI: 'public.vcard', dialogTitle: 'Share contacts' }
+      : { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle: 'Share contacts' });
+    devLog('Contacts shared', { count: contacts.length, format });
+    return true;
+  } catch (error) {
+    devError('Failed to share contacts', error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+}
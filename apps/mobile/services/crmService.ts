@@ -12,18 +12,44 @@ import type {
   CRMPushResult,
   CRMSyncRequest,
   CRMSyncResult,
-  CRMContact,
   CRMFieldMapping,
   SalesforceContact,
   HubSpotContact,
-  PipedriveContact
+  PipedriveContact,
+  WebhookContactEvent,
+  WebhookDelivery
 } from '../types/crm';
 import type { Contact } from '../types/contact';
+import { SalesforceConnector, SalesforceApiError } from './salesforceConnector';
+import { salesforceAuthService } from './salesforceAuth';
+import { PipedriveConnector } from './pipedriveConnector';
+import { WebhookConnector, WEBHOOK_CONTACT_EVENTS } from './webhookConnector';
+import { hubspotContactsService } from './hubspotContacts';
+import { DEFAULT_FIELD_MAPPINGS, FieldMappingError, mapContactFields } from '../utils/crm-field-mapping';
 
 const STORAGE_KEY = '@allmycircles_crm_connections';
+const WEBHOOK_DELIVERIES_KEY = '@allmycircles_webhook_deliveries';
+const MAX_DELIVERIES_PER_CONNECTION = 50;
+
+/**
+ * Default field mappings for a new connection
+ */
+export function getDefaultFieldMappings(provider: CRMProvider): CRMFieldMapping[] {
+  return DEFAULT_FIELD_MAPPINGS[provider].map(mapping => ({ ...mapping })) as CRMFieldMapping[];
+}
+
+// Connections saved before per-provider defaults all carried this generic set,
+// which does not name real fields in any CRM
+function isLegacyDefaultMappings(mappings: CRMFieldMapping[] = []): boolean {
+  const legacy = ['name:name', 'company:company', 'title:title'];
+  return mappings.length === legacy.length &&
+    mappings.every(mapping => legacy.includes(`${mapping.localField}:${mapping.crmField}`));
+}
 
 class CRMService {
   private connections: Map<string, CRMConnection> = new Map();
+  // Serializes delivery log writes; events for the same contact often fire back to back
+  private deliveryLogWrites: Promise<void> = Promise.resolve();
 
   /**
    * Initialize CRM service with stored connections
@@ -33,6 +59,9 @@ class CRMService {
       // Load saved CRM connections from storage
       const savedConnections = await this.loadConnectionsFromStorage();
       savedConnections.forEach(conn => {
+        if (isLegacyDefaultMappings(conn.fieldMappings)) {
+          conn.fieldMappings = getDefaultFieldMappings(conn.provider);
+        }
         this.connections.set(conn.id, conn);
       });
       
@@ -115,11 +144,34 @@ class CRMService {
     const removed = this.connections.delete(connectionId);
     if (removed) {
       await this.saveConnectionsToStorage();
+      await this.clearWebhookDeliveries(connectionId);
       devLog(`CRM connection removed: ${connectionId}`);
     }
     return removed;
   }
 
+  /**
+   * Replace a connection's field mappings. HubSpot mappings are saved to the server
+   * first, since contacts are mapped there.
+   */
+  async updateFieldMappings(connectionId: string, fieldMappings: CRMFieldMapping[]): Promise<CRMConnection> {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      throw new Error(`CRM connection not found: ${connectionId}`);
+    }
+
+    if (connection.provider === 'hubspot') {
+      await hubspotContactsService.saveFieldMappings(fieldMappings);
+    }
+
+    const updated = { ...connection, fieldMappings };
+    this.connections.set(connectionId, updated);
+    await this.saveConnectionsToStorage();
+
+    devLog(`Updated ${fieldMappings.length} field mappings for ${connection.provider} connection ${connectionId}`);
+    return updated;
+  }
+
   /**
    * Test CRM connection
    */
@@ -175,66 +227,45 @@ class CRMService {
     }
   }
 
+  // Provider-specific implementations
+
   /**
-   * Transform contact data using field mappings
+   * Build a Salesforce client whose refreshed tokens are written back to the connection
    */
-  private transformContact(contact: Contact, mappings: CRMFieldMapping[]): CRMContact {
-    const transformed: CRMContact = {};
-
-    mappings.forEach(mapping => {
-      const localValue = contact[mapping.localField];
-      if (localValue !== undefined && localValue !== null) {
-        let transformedValue = localValue;
-
-        // Apply transformations
-        if (mapping.transform && typeof localValue === 'string') {
-          switch (mapping.transform) {
-            case 'uppercase':
-              transformedValue = localValue.toUpperCase();
-              break;
-            case 'lowercase':
-              transformedValue = localValue.toLowerCase();
-              break;
-            case 'phone_format':
-              transformedValue = this.formatPhoneNumber(localValue);
-              break;
+  private getSalesforceConnector(connection: CRMConnection): SalesforceConnector {
+    const { salesforceInstanceUrl, salesforceAccessToken } = connection.credentials;
+    if (!salesforceInstanceUrl || !salesforceAccessToken) {
+      throw new Error('Salesforce connection is missing its instance URL or access token');
+    }
+
+    return new SalesforceConnector(
+      { instanceUrl: salesforceInstanceUrl, accessToken: salesforceAccessToken },
+      async () => {
+        try {
+          const refreshed = await salesforceAuthService.refreshToken();
+          connection.credentials = {
+            ...connection.credentials,
+            salesforceAccessToken: refreshed.accessToken,
+            salesforceInstanceUrl: refreshed.instanceUrl,
+          };
+          if (this.connections.has(connection.id)) {
+            await this.saveConnectionsToStorage();
           }
+          return refreshed;
+        } catch (error) {
+          devError('Failed to refresh Salesforce token', error instanceof Error ? error : new Error(String(error)));
+          return null;
         }
-
-        (transformed as any)[mapping.crmField] = transformedValue;
       }
-    });
-
-    return transformed;
+    );
   }
 
-  /**
-   * Format phone number for CRM
-   */
-  private formatPhoneNumber(phone: string): string {
-    // Remove all non-numeric characters
-    const cleaned = phone.replace(/\D/g, '');
-    
-    // Format as (XXX) XXX-XXXX for US numbers
-    if (cleaned.length === 10) {
-      return `(${cleaned.slice(0, 3)}) ${cleaned.slice(3, 6)}-${cleaned.slice(6)}`;
-    }
-    
-    return phone; // Return original if not standard US format
-  }
-
-  // Provider-specific implementations
-
   private async testSalesforceConnection(connection: CRMConnection): Promise<boolean> {
-    // Mock implementation for testing
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Simulate connection success if credentials are provided
-    const hasCredentials = connection.credentials.salesforceAccessToken && 
-                          connection.credentials.salesforceInstanceUrl;
-    
-    devLog(`Testing Salesforce connection: ${hasCredentials ? 'Success' : 'Failed'}`);
-    return Boolean(hasCredentials);
+    const connector = this.getSalesforceConnector(connection);
+    const isValid = await connector.testConnection();
+
+    devLog(`Testing Salesforce connection: ${isValid ? 'Success' : 'Failed'}`);
+    return isValid;
   }
 
   private async testHubSpotConnection(connection: CRMConnection): Promise<boolean> {
@@ -248,31 +279,48 @@ class CRMService {
     return Boolean(hasCredentials);
   }
 
+  private getPipedriveConnector(connection: CRMConnection): PipedriveConnector {
+    const { pipedriveApiToken, pipedriveDomain } = connection.credentials;
+    if (!pipedriveApiToken || !pipedriveDomain) {
+      throw new Error('Pipedrive connection is missing its API token or company domain');
+    }
+
+    return new PipedriveConnector({ apiToken: pipedriveApiToken, domain: pipedriveDomain });
+  }
+
   private async testPipedriveConnection(connection: CRMConnection): Promise<boolean> {
-    // Mock implementation for testing
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
-    // Simulate connection success if credentials are provided
-    const hasCredentials = connection.credentials.pipedriveApiToken && 
-                          connection.credentials.pipedriveDomain;
-    
-    devLog(`Testing Pipedrive connection: ${hasCredentials ? 'Success' : 'Failed'}`);
-    return Boolean(hasCredentials);
+    const isValid = await this.getPipedriveConnector(connection).testConnection();
+
+    devLog(`Testing Pipedrive connection: ${isValid ? 'Success' : 'Failed'}`);
+    return isValid;
   }
 
-  private async testWebhookConnection(connection: CRMConnection): Promise<boolean> {
-    // Mock implementation for testing
-    await new Promise(resolve => setTimeout(resolve, 600));
-    
-    // Simulate connection success if webhook URL is provided
-    const hasCredentials = Boolean(connection.credentials.webhookUrl);
-    
-    devLog(`Testing Webhook connection: ${hasCredentials ? 'Success' : 'Failed'}`);
-    return hasCredentials;
+  private getWebhookConnector(connection: CRMConnection, options?: { maxAttempts?: number }): WebhookConnector {
+    const { webhookUrl, webhookHeaders, webhookSecret } = connection.credentials;
+    if (!webhookUrl) {
+      throw new Error('Webhook connection is missing its URL');
+    }
+
+    return new WebhookConnector(
+      {
+        url: webhookUrl,
+        headers: webhookHeaders,
+        secret: webhookSecret,
+        payloadTemplate: connection.webhookSettings?.payloadTemplate,
+        fieldMappings: connection.fieldMappings,
+      },
+      options
+    );
   }
 
+  private async testWebhookConnection(connection: CRMConnection): Promise<boolean> {
+    // A single signed ping, so a misconfigured endpoint fails fast
+    const delivery = await this.getWebhookConnector(connection, { maxAttempts: 1 }).deliver('ping', null);
+
+    devLog(`Testing Webhook connection: ${delivery.status === 'delivered' ? 'Success' : `Failed (${delivery.error})`}`);
+    return delivery.status === 'delivered';
+  }
   private async pushToSalesforce(request: CRMPushRequest, connection: CRMConnection): Promise<CRMPushResult> {
-    // Mock implementation for testing
     const result: CRMPushResult = {
       success: true,
       totalContacts: request.contacts.length,
@@ -282,38 +330,49 @@ class CRMService {
       crmContacts: [],
     };
 
-    // Simulate processing with delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
+    const connector = this.getSalesforceConnector(connection);
 
+    // Sequential on purpose: account and duplicate lookups depend on earlier creates
     for (const contact of request.contacts) {
-      // Simulate 90% success rate
-      const isSuccessful = Math.random() > 0.1;
-      
-      if (isSuccessful) {
+      try {
+        const pushed = await connector.pushContact(contact, {
+          createAsLead: request.createAsLead,
+          assignToUser: request.assignToUser,
+          addToList: request.addToList,
+          fieldMappings: connection.fieldMappings,
+        });
+
         result.successfulPushes++;
         result.crmContacts.push({
           localId: contact.id,
-          crmId: `sf_${Math.random().toString(36).substr(2, 9)}`,
+          crmId: pushed.id,
           success: true,
-          url: `https://mock-salesforce.com/contact/${contact.id}`,
+          url: pushed.url,
         });
-      } else {
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
         result.failedPushes++;
         result.errors.push({
           contactId: contact.id,
-          error: 'Mock Salesforce error: Email already exists',
-          code: 'DUPLICATE_VALUE',
+          error: message,
+          code: error instanceof SalesforceApiError
+            ? error.errorCode
+            : error instanceof FieldMappingError ? 'MISSING_REQUIRED_FIELDS' : undefined,
+        });
+        result.crmContacts.push({
+          localId: contact.id,
+          success: false,
+          error: message,
         });
       }
     }
 
     result.success = result.errors.length === 0;
-    devLog(`Salesforce mock push: ${result.successfulPushes}/${result.totalContacts} successful`);
+    devLog(`Salesforce push: ${result.successfulPushes}/${result.totalContacts} successful`);
     return result;
   }
 
   private async pushToHubSpot(request: CRMPushRequest, connection: CRMConnection): Promise<CRMPushResult> {
-    // Mock implementation for testing (HubSpot Marketplace app will handle real integration)
     const result: CRMPushResult = {
       success: true,
       totalContacts: request.contacts.length,
@@ -323,38 +382,73 @@ class CRMService {
       crmContacts: [],
     };
 
-    // Simulate processing with realistic delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    const { hubspotAccessToken, hubspotPortalId } = connection.credentials;
+    if (!hubspotAccessToken || !hubspotPortalId) {
+      throw new Error('HubSpot connection is missing its access token or portal ID');
+    }
+    hubspotContactsService.initialize(hubspotAccessToken, hubspotPortalId);
 
+    // Sequential on purpose: smart-create looks for duplicates among contacts created earlier.
+    // Properties are mapped server-side with the connection's field mappings (see updateFieldMappings).
     for (const contact of request.contacts) {
-      // Simulate 85% success rate (slightly lower than Salesforce to show variety)
-      const isSuccessful = Math.random() > 0.15;
-      
-      if (isSuccessful) {
+      const { missingRequired } = mapContactFields(contact, connection.fieldMappings);
+      if (missingRequired.length > 0) {
+        result.failedPushes++;
+        result.errors.push({
+          contactId: contact.id,
+          error: `Missing required fields: ${missingRequired.map(mapping => mapping.localField).join(', ')}`,
+          code: 'MISSING_REQUIRED_FIELDS',
+        });
+        continue;
+      }
+
+      const contactData = {
+        name: contact.name || `${contact.firstName} ${contact.lastName}`.trim(),
+        email: contact.email,
+        phone: contact.phone,
+        company: contact.company,
+        title: contact.title || contact.jobTitle,
+        linkedinUrl: contact.linkedinUrl,
+        notes: contact.notes || contact.note,
+        tags: contact.tags,
+        firstMetLocation: contact.firstMetLocation,
+        firstMetDate: contact.firstMetDate,
+      };
+
+      const pushed = contact.hubspotContactId
+        ? await hubspotContactsService.updateContact(contact.hubspotContactId, contactData)
+        : await hubspotContactsService.createContact({
+          ...contactData,
+          hubspotOwnerId: request.assignToUser,
+          circlesContactId: contact.id,
+        });
+
+      if (pushed.success && pushed.hubspotId) {
         result.successfulPushes++;
         result.crmContacts.push({
           localId: contact.id,
-          crmId: `hs_${Math.random().toString(36).substr(2, 9)}`,
+          crmId: pushed.hubspotId,
           success: true,
-          url: `https://app.hubspot.com/contacts/mock-portal/contact/${contact.id}`,
+          url: `https://app.hubspot.com/contacts/${hubspotPortalId}/contact/${pushed.hubspotId}`,
         });
       } else {
+        const message = pushed.error || 'HubSpot did not return a contact ID';
         result.failedPushes++;
-        result.errors.push({
-          contactId: contact.id,
-          error: 'Mock HubSpot error: Invalid email format',
-          code: 'INVALID_EMAIL',
+        result.errors.push({ contactId: contact.id, error: message });
+        result.crmContacts.push({
+          localId: contact.id,
+          success: false,
+          error: message,
         });
       }
     }
 
     result.success = result.errors.length === 0;
-    devLog(`HubSpot mock push: ${result.successfulPushes}/${result.totalContacts} successful`);
+    devLog(`HubSpot push: ${result.successfulPushes}/${result.totalContacts} successful`);
     return result;
   }
 
   private async pushToPipedrive(request: CRMPushRequest, connection: CRMConnection): Promise<CRMPushResult> {
-    // Mock implementation for testing
     const result: CRMPushResult = {
       success: true,
       totalContacts: request.contacts.length,
@@ -364,38 +458,42 @@ class CRMService {
       crmContacts: [],
     };
 
-    // Simulate processing with delay
-    await new Promise(resolve => setTimeout(resolve, 1800));
+    const connector = this.getPipedriveConnector(connection);
 
+    // Sequential on purpose: organization and duplicate lookups depend on earlier creates
     for (const contact of request.contacts) {
-      // Simulate 95% success rate (Pipedrive typically has fewer validation issues)
-      const isSuccessful = Math.random() > 0.05;
-      
-      if (isSuccessful) {
+      try {
+        const pushed = await connector.pushContact(contact, connection.fieldMappings);
+
         result.successfulPushes++;
         result.crmContacts.push({
           localId: contact.id,
-          crmId: `pd_${Math.random().toString(36).substr(2, 9)}`,
+          crmId: String(pushed.personId),
           success: true,
-          url: `https://mock-pipedrive.com/person/${contact.id}`,
+          url: pushed.url,
         });
-      } else {
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
         result.failedPushes++;
         result.errors.push({
           contactId: contact.id,
-          error: 'Mock Pipedrive error: Required field missing',
-          code: 'REQUIRED_FIELD',
+          error: message,
+          code: error instanceof FieldMappingError ? 'MISSING_REQUIRED_FIELDS' : undefined,
+        });
+        result.crmContacts.push({
+          localId: contact.id,
+          success: false,
+          error: message,
         });
       }
     }
 
     result.success = result.errors.length === 0;
-    devLog(`Pipedrive mock push: ${result.successfulPushes}/${result.totalContacts} successful`);
+    devLog(`Pipedrive push: ${result.successfulPushes}/${result.totalContacts} successful`);
     return result;
   }
 
   private async pushToWebhook(request: CRMPushRequest, connection: CRMConnection): Promise<CRMPushResult> {
-    // Mock implementation for testing
     const result: CRMPushResult = {
       success: true,
       totalContacts: request.contacts.length,
@@ -405,18 +503,17 @@ class CRMService {
       crmContacts: [],
     };
 
-    // Simulate webhook processing with delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    const connector = this.getWebhookConnector(connection);
 
     for (const contact of request.contacts) {
-      // Simulate webhook success (depends on external system reliability)
-      const isSuccessful = Math.random() > 0.2; // 80% success rate
-      
-      if (isSuccessful) {
+      const delivery = await connector.deliver('contact.pushed', contact);
+      await this.recordWebhookDelivery(connection.id, delivery);
+
+      if (delivery.status === 'delivered') {
         result.successfulPushes++;
         result.crmContacts.push({
           localId: contact.id,
-          crmId: `wh_${Math.random().toString(36).substr(2, 9)}`,
+          crmId: delivery.id,
           success: true,
           url: connection.credentials.webhookUrl,
         });
@@ -424,17 +521,91 @@ class CRMService {
         result.failedPushes++;
         result.errors.push({
           contactId: contact.id,
-          error: 'Mock Webhook error: Timeout or server unavailable',
-          code: 'WEBHOOK_TIMEOUT',
+          error: delivery.error || 'Webhook delivery failed',
+          code: delivery.responseStatus ? `WEBHOOK_HTTP_${delivery.responseStatus}` : 'WEBHOOK_UNREACHABLE',
+        });
+        result.crmContacts.push({
+          localId: contact.id,
+          success: false,
+          error: delivery.error,
         });
       }
     }
 
     result.success = result.errors.length === 0;
-    devLog(`Webhook mock push: ${result.successfulPushes}/${result.totalContacts} successful`);
+    devLog(`Webhook push: ${result.successfulPushes}/${result.totalContacts} successful`);
     return result;
   }
 
+  // Outbound webhook events
+
+  /**
+   * Send a contact lifecycle event to every active webhook connection subscribed to it
+   */
+  async dispatchContactEvent(event: WebhookContactEvent, contact: Contact): Promise<WebhookDelivery[]> {
+    const subscribed = this.getActiveConnections().filter(connection =>
+      connection.provider === 'webhook' &&
+      (connection.webhookSettings?.events || WEBHOOK_CONTACT_EVENTS).includes(event)
+    );
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const connection of subscribed) {
+      try {
+        const delivery = await this.getWebhookConnector(connection).deliver(event, contact);
+        await this.recordWebhookDelivery(connection.id, delivery);
+        deliveries.push(delivery);
+      } catch (error) {
+        devError(`Failed to dispatch ${event} to ${connection.name}`, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Delivery log for a webhook connection, newest first
+   */
+  async getWebhookDeliveries(connectionId: string): Promise<WebhookDelivery[]> {
+    const log = await this.loadWebhookDeliveries();
+    return log[connectionId] || [];
+  }
+
+  private recordWebhookDelivery(connectionId: string, delivery: WebhookDelivery): Promise<void> {
+    return this.updateWebhookDeliveries(log => {
+      log[connectionId] = [{ ...delivery, connectionId }, ...(log[connectionId] || [])]
+        .slice(0, MAX_DELIVERIES_PER_CONNECTION);
+    });
+  }
+
+  private clearWebhookDeliveries(connectionId: string): Promise<void> {
+    return this.updateWebhookDeliveries(log => {
+      delete log[connectionId];
+    });
+  }
+
+  private updateWebhookDeliveries(update: (log: Record<string, WebhookDelivery[]>) => void): Promise<void> {
+    this.deliveryLogWrites = this.deliveryLogWrites.then(async () => {
+      try {
+        const log = await this.loadWebhookDeliveries();
+        update(log);
+        await AsyncStorage.setItem(WEBHOOK_DELIVERIES_KEY, JSON.stringify(log));
+      } catch (error) {
+        devError('Failed to save webhook deliveries', error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    return this.deliveryLogWrites;
+  }
+
+  private async loadWebhookDeliveries(): Promise<Record<string, WebhookDelivery[]>> {
+    try {
+      const stored = await AsyncStorage.getItem(WEBHOOK_DELIVERIES_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      devError('Failed to load webhook deliveries', error instanceof Error ? error : new Error(String(error)));
+      return {};
+    }
+  }
+
   // Storage methods (implement with AsyncStorage or your storage service)
 
   private async loadConnectionsFromStorage(): Promise<CRMConnection[]> {
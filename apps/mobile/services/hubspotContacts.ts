@@ -1,4 +1,5 @@
 import { devLog, devError } from '../utils/logger';
+import type { FieldMapping } from '../utils/crm-field-mapping';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export interface HubSpotContact {
@@ -27,6 +28,16 @@ export interface HubSpotContact {
   };
 }
 
+export interface HubSpotProperty {
+  name: string;
+  label: string;
+  type: string; // string, number, date, enumeration, ...
+  fieldType: string;
+  groupName: string;
+  description?: string;
+  options: { label: string; value: string }[];
+}
+
 export interface ContactCreateResult {
   success: boolean;
   contact?: HubSpotContact;
@@ -47,49 +58,6 @@ class HubSpotContactsService {
     devLog('HubSpot Contacts Service initialized for portal:', portalId);
   }
 
-  /**
-   * Refresh the HubSpot access token when it expires
-   */
-  private async refreshAccessToken(): Promise<boolean> {
-    try {
-      const deviceId = await AsyncStorage.getItem('@allmycircles_device_id');
-      if (!deviceId) {
-        devError('Device ID not found, cannot refresh token');
-        return false;
-      }
-
-      const response = await fetch('https://all-my-circles-web-ltp4.vercel.app/api/mobile/auth/hubspot/refresh', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-force-refresh': 'true', // Force refresh to handle expiration time mismatches
-        },
-        body: JSON.stringify({ deviceId }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        devError('Token refresh failed:', response.status, errorText);
-        return false;
-      }
-
-      const data = await response.json();
-      devLog('Token refresh response:', data);
-
-      if (data.accessToken) {
-        this.accessToken = data.accessToken;
-        devLog('HubSpot token refreshed successfully');
-        return true;
-      }
-
-      devError('No access token in refresh response:', data);
-      return false;
-    } catch (error) {
-      devError('Token refresh error:', error);
-      return false;
-    }
-  }
-
   /**
    * Make an API call with automatic token refresh on expiration
    */
@@ -121,7 +89,8 @@ class HubSpotContactsService {
   }
 
   /**
-   * Refresh the access token if it's expired
+   * Get a fresh access token after HubSpot rejected the current one. The server
+   * only refreshes if no other request has replaced the rejected token already.
    */
   private async refreshAccessToken(): Promise<boolean> {
     try {
@@ -137,18 +106,21 @@ class HubSpotContactsService {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-force-refresh': 'true', // Force refresh even if token seems valid
         },
-        body: JSON.stringify({ deviceId }),
+        body: JSON.stringify({ deviceId, rejectedToken: this.accessToken }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
+        const errorData = await response.json().catch(() => ({}));
         devError('Token refresh failed:', errorData);
         return false;
       }
 
       const tokenData = await response.json();
+      if (!tokenData.accessToken) {
+        devError('No access token in refresh response:', tokenData);
+        return false;
+      }
 
       // Update our stored access token
       this.accessToken = tokenData.accessToken;
@@ -222,38 +194,7 @@ class HubSpotContactsService {
     }
 
     try {
-      // Split name into first and last name
-      const nameParts = contactData.name.trim().split(' ');
-      const firstName = nameParts[0] || '';
-      const lastName = nameParts.slice(1).join(' ') || '';
-
-      const hubspotContact: HubSpotContact = {
-        properties: {
-          // Standard HubSpot properties
-          firstname: firstName,
-          lastname: lastName,
-          email: contactData.email || undefined,
-          phone: contactData.phone || undefined,
-          company: contactData.company || undefined,
-          jobtitle: contactData.title || undefined,
-          hs_linkedin_url: contactData.linkedinUrl || undefined,
-          hubspot_owner_id: contactData.hubspotOwnerId || undefined,
-
-          // All My Circles essential networking properties
-          amc_first_met_location: contactData.firstMetLocation || undefined,
-          amc_first_met_date: contactData.firstMetDate || undefined,
-          amc_networking_tags: contactData.tags ? contactData.tags.join(', ') : undefined,
-          amc_networking_notes: contactData.notes || undefined,
-        }
-      };
-
-      // Remove undefined properties
-      Object.keys(hubspotContact.properties).forEach(key => {
-        if (hubspotContact.properties[key as keyof typeof hubspotContact.properties] === undefined) {
-          delete hubspotContact.properties[key as keyof typeof hubspotContact.properties];
-        }
-      });
-
+      // Property mapping happens server-side in smart-create, from the connection's field mappings
       devLog('Creating HubSpot contact with smart logic:', contactData);
 
       // Use smart creation endpoint with ownership logic
@@ -309,102 +250,6 @@ class HubSpotContactsService {
     }
   }
 
-  /**
-   * Update an existing contact in HubSpot
-   */
-  async updateContact(contactId: string, contactData: {
-    name?: string;
-    email?: string;
-    phone?: string;
-    company?: string;
-    title?: string;
-    notes?: string;
-    hubspotOwnerId?: string;
-    // All My Circles specific properties
-    connectionStrength?: 'Strong' | 'Medium' | 'Weak';
-    contactValue?: 'High' | 'Medium' | 'Low';
-    firstMetLocation?: string;
-    firstMetDate?: string;
-    tags?: string[];
-    lastInteractionDate?: string;
-    nextFollowupDate?: string;
-    totalInteractions?: number;
-    circlesContactId?: string;
-  }): Promise<ContactCreateResult> {
-    if (!this.accessToken) {
-      return {
-        success: false,
-        error: 'HubSpot Contacts Service not initialized. Call initialize() first.'
-      };
-    }
-
-    try {
-      const properties: any = {};
-
-      // Standard HubSpot properties
-      if (contactData.name) {
-        const nameParts = contactData.name.trim().split(' ');
-        properties.firstname = nameParts[0] || '';
-        properties.lastname = nameParts.slice(1).join(' ') || '';
-      }
-
-      if (contactData.email) properties.email = contactData.email;
-      if (contactData.phone) properties.phone = contactData.phone;
-      if (contactData.company) properties.company = contactData.company;
-      if (contactData.title) properties.jobtitle = contactData.title;
-      if (contactData.hubspotOwnerId) properties.hubspot_owner_id = contactData.hubspotOwnerId;
-
-      // All My Circles custom properties
-      if (contactData.connectionStrength) properties.amc_connection_strength = contactData.connectionStrength;
-      if (contactData.contactValue) properties.amc_contact_value = contactData.contactValue;
-      if (contactData.firstMetLocation) properties.amc_first_met_location = contactData.firstMetLocation;
-      if (contactData.firstMetDate) properties.amc_first_met_date = contactData.firstMetDate;
-      if (contactData.tags) properties.amc_networking_tags = contactData.tags.join(', ');
-      if (contactData.notes) properties.amc_networking_notes = contactData.notes;
-      if (contactData.lastInteractionDate) properties.amc_last_interaction_date = contactData.lastInteractionDate;
-      if (contactData.nextFollowupDate) properties.amc_next_followup_date = contactData.nextFollowupDate;
-      if (contactData.totalInteractions !== undefined) properties.amc_total_interactions = contactData.totalInteractions.toString();
-      if (contactData.circlesContactId) properties.amc_contact_id = contactData.circlesContactId;
-
-      const hubspotContact = { properties };
-
-      devLog('Updating HubSpot contact:', contactId, hubspotContact);
-
-      const response = await this.makeAPICall(`https://api.hubapi.com/crm/v3/objects/contacts/${contactId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(hubspotContact),
-      });
-
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        devError('HubSpot contact update failed:', responseData);
-        return {
-          success: false,
-          error: responseData.message || `HTTP ${response.status}: ${response.statusText}`
-        };
-      }
-
-      devLog('HubSpot contact updated successfully:', responseData);
-
-      return {
-        success: true,
-        contact: responseData,
-        hubspotId: responseData.id
-      };
-
-    } catch (error) {
-      devError('HubSpot contact update error:', error instanceof Error ? error : new Error(String(error)));
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      };
-    }
-  }
-
   /**
    * Search for contacts by email
    */
@@ -513,7 +358,7 @@ class HubSpotContactsService {
   }
 
   /**
-   * Update an existing contact in HubSpot
+   * Update an existing contact in HubSpot; mapped server-side with the connection's field mappings
    */
   async updateContact(contactId: string, contactData: {
     name?: string;
@@ -523,6 +368,7 @@ class HubSpotContactsService {
     phone?: string;
     company?: string;
     title?: string;
+    linkedinUrl?: string;
     notes?: string;
     tags?: string[];
     firstMetLocation?: string;
@@ -579,6 +425,48 @@ class HubSpotContactsService {
       };
     }
   }
+
+  /**
+   * Get the writable contact properties of the connected portal, for the field mapping editor
+   */
+  async getContactProperties(): Promise<HubSpotProperty[]> {
+    const response = await fetch('https://all-my-circles-web-ltp4.vercel.app/api/hubspot/properties', {
+      headers: {
+        'x-device-id': await AsyncStorage.getItem('@allmycircles_device_id') || '',
+      },
+    });
+
+    const responseData = await response.json();
+
+    if (!response.ok) {
+      throw new Error(responseData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return responseData.properties;
+  }
+
+  /**
+   * Save field mappings to the HubSpot connection; smart-create and update map contacts with them
+   */
+  async saveFieldMappings(fieldMappings: FieldMapping[]): Promise<FieldMapping[]> {
+    const response = await fetch('https://all-my-circles-web-ltp4.vercel.app/api/hubspot/field-mappings', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-device-id': await AsyncStorage.getItem('@allmycircles_device_id') || '',
+      },
+      body: JSON.stringify({ fieldMappings }),
+    });
+
+    const responseData = await response.json();
+
+    if (!response.ok) {
+      throw new Error(responseData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    devLog(`Saved ${responseData.fieldMappings.length} HubSpot field mappings`);
+    return responseData.fieldMappings;
+  }
 }
 
 export const hubspotContactsService = new HubSpotContactsService();
\ No newline at end of file
@@ -5,8 +5,9 @@
 
 import { devLog, devError } from '../utils/logger';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Contact } from '../types/contact';
+import type { Contact, ConflictPolicy, FieldConflict, FieldTimestamps, SyncableField } from '../types/contact';
 import { storageService } from './storageService';
+import { DEFAULT_CONFLICT_POLICY, mergeRemoteChanges, mergeServerConflicts, RemoteFieldValues, SYNCABLE_FIELDS } from './conflictResolution';
 
 const API_BASE_URL = 'https://all-my-circles-web-ltp4.vercel.app/api';
 
@@ -32,6 +33,79 @@ class HubSpotSyncService {
   private syncInterval: NodeJS.Timeout | null = null;
   private readonly SYNC_INTERVAL_MS = 30000; // 30 seconds
 
+  /**
+   * Conflict policy chosen in user preferences
+   */
+  private async getConflictPolicy(): Promise<ConflictPolicy> {
+    const preferences = await storageService.loadUserPreferences();
+    return preferences?.conflictPolicy || DEFAULT_CONFLICT_POLICY;
+  }
+
+  /**
+   * The conflict policy shown in settings; the organization's setting on the server
+   * wins when it can be read, and is remembered for offline use
+   */
+  async loadConflictPolicy(): Promise<ConflictPolicy> {
+    const local = await this.getConflictPolicy();
+    try {
+      const deviceId = await AsyncStorage.getItem('@allmycircles_device_id') || '';
+      const response = await fetch(`${API_BASE_URL}/mobile/sync/conflicts`, {
+        headers: { 'x-device-id': deviceId },
+      });
+      if (!response.ok) return local;
+
+      const { conflictPolicy } = await response.json();
+      if (conflictPolicy && conflictPolicy !== local) {
+        await storageService.saveUserPreferences({ conflictPolicy });
+      }
+      return conflictPolicy || local;
+    } catch (error) {
+      devError('Failed to load conflict policy:', error instanceof Error ? error : new Error(String(error)));
+      return local;
+    }
+  }
+
+  /**
+   * Set the conflict policy both here and for the organization, so HubSpot webhooks
+   * handled on the server follow the same rule as pulls in the app
+   */
+  async setConflictPolicy(policy: ConflictPolicy): Promise<void> {
+    await storageService.saveUserPreferences({ conflictPolicy: policy });
+
+    const deviceId = await AsyncStorage.getItem('@allmycircles_device_id') || '';
+    const response = await fetch(`${API_BASE_URL}/mobile/sync/conflicts`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-device-id': deviceId,
+      },
+      body: JSON.stringify({ conflictPolicy: policy }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save conflict policy: ${response.status}`);
+    }
+  }
+
+  /**
+   * Clear a conflict on the server once the user has decided it here
+   */
+  async resolveServerConflict(hubspotContactId: string, field: SyncableField, choice: 'local' | 'remote'): Promise<void> {
+    const deviceId = await AsyncStorage.getItem('@allmycircles_device_id') || '';
+    const response = await fetch(`${API_BASE_URL}/mobile/sync/conflicts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-device-id': deviceId,
+      },
+      body: JSON.stringify({ hubspotContactId, field, choice }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to resolve conflict on server: ${response.status}`);
+    }
+  }
+
   /**
    * Start automatic sync polling
    */
@@ -91,11 +165,12 @@ class HubSpotSyncService {
 
       let updatedCount = 0;
       const errors: string[] = [];
+      const policy = await this.getConflictPolicy();
 
       // Check each contact for updates
       for (const localContact of hubspotContacts) {
         try {
-          const wasUpdated = await this.checkAndUpdateContact(localContact, localContacts);
+          const wasUpdated = await this.checkAndUpdateContact(localContact, localContacts, policy);
           if (wasUpdated) {
             updatedCount++;
           }
@@ -135,7 +210,11 @@ class HubSpotSyncService {
   /**
    * Check if a local contact needs updating from HubSpot and update it
    */
-  private async checkAndUpdateContact(localContact: Contact, allContacts: Contact[]): Promise<boolean> {
+  private async checkAndUpdateContact(
+    localContact: Contact,
+    allContacts: Contact[],
+    policy: ConflictPolicy
+  ): Promise<boolean> {
     if (!localContact.hubspotContactId) {
       return false;
     }
@@ -169,48 +248,58 @@ class HubSpotSyncService {
       const hubspotData = await response.json();
       const hubspotContact = hubspotData.contact;
 
-      // Check if HubSpot contact was modified more recently than local
-      const hubspotModified = new Date(hubspotContact.updatedAt || 0).getTime();
-      const localModified = new Date(localContact.updatedAt || 0).getTime();
-
-      if (hubspotModified <= localModified) {
-        // Local contact is up to date
+      const contactIndex = allContacts.findIndex(c => c.id === localContact.id);
+      if (contactIndex === -1) {
         return false;
       }
 
-      devLog(`🔄 Updating ${localContact.name} from HubSpot (${new Date(hubspotModified).toISOString()})`);
+      // Conflicts the server queued from HubSpot webhooks are shown like our own
+      const withServerConflicts = mergeServerConflicts(
+        localContact,
+        hubspotContact.syncConflicts as FieldConflict[] | undefined
+      );
 
-      // Update local contact with HubSpot data
-      const contactIndex = allContacts.findIndex(c => c.id === localContact.id);
-      if (contactIndex !== -1) {
-        // Preserve local-only fields and update from HubSpot
-        const updatedFirstName = hubspotContact.firstName || localContact.firstName;
-        const updatedLastName = hubspotContact.lastName || localContact.lastName;
-        const updatedName = `${updatedFirstName} ${updatedLastName}`.trim();
-
-        allContacts[contactIndex] = {
-          ...localContact,
-          name: updatedName, // Update the display name
-          firstName: updatedFirstName,
-          lastName: updatedLastName,
-          email: hubspotContact.email || localContact.email,
-          phone: hubspotContact.phone || localContact.phone,
-          company: hubspotContact.company || localContact.company,
-          title: hubspotContact.title || localContact.title,
-          linkedinUrl: hubspotContact.linkedinUrl || localContact.linkedinUrl,
-          firstMetLocation: hubspotContact.firstMetLocation || localContact.firstMetLocation,
-          firstMetDate: hubspotContact.firstMetDate || localContact.firstMetDate,
-          notes: hubspotContact.notes || localContact.notes,
-          tags: hubspotContact.tags || localContact.tags,
-          updatedAt: new Date().toISOString(),
-          syncStatus: 'synced',
-          lastSyncedAt: new Date().toISOString(),
-        };
+      // Skip contacts HubSpot has not touched since our last sync
+      const hubspotModified = new Date(hubspotContact.updatedAt || 0).getTime();
+      const lastSynced = new Date(localContact.lastSyncedAt || 0).getTime();
 
+      if (hubspotModified <= lastSynced) {
+        if (withServerConflicts === localContact) {
+          return false;
+        }
+        allContacts[contactIndex] = { ...withServerConflicts, syncStatus: 'pending' };
         return true;
       }
 
-      return false;
+      const remote: RemoteFieldValues = {};
+      for (const field of SYNCABLE_FIELDS) {
+        if (field in hubspotContact) {
+          remote[field] = hubspotContact[field];
+        }
+      }
+
+      // Resolve each field against local edits using the configured policy
+      const merge = mergeRemoteChanges(withServerConflicts, remote, {
+        policy,
+        remoteUpdatedAt: hubspotContact.fieldUpdatedAt as FieldTimestamps | undefined,
+        fallbackRemoteUpdatedAt: new Date(hubspotModified).toISOString(),
+      });
+
+      if (!merge.changed && withServerConflicts === localContact) {
+        return false;
+      }
+
+      devLog(`🔄 Updating ${localContact.name} from HubSpot: applied [${merge.appliedFields.join(', ')}], kept local [${merge.keptLocalFields.join(', ')}], ${merge.conflicts.length} new conflicts`);
+
+      const hasOpenConflicts = (merge.contact.syncConflicts?.length ?? 0) > 0;
+      allContacts[contactIndex] = {
+        ...merge.contact,
+        updatedAt: new Date().toISOString(),
+        syncStatus: merge.contact.needsSync || hasOpenConflicts ? 'pending' : 'synced',
+        lastSyncedAt: new Date().toISOString(),
+      };
+
+      return true;
     } catch (error) {
       throw error;
     }
@@ -250,19 +339,32 @@ class HubSpotSyncService {
           continue;
         }
 
-        const contact = contacts[contactIndex];
+        let contact = contacts[contactIndex];
         let contactUpdated = false;
+        const policy = await this.getConflictPolicy();
 
-        // Apply each property change
+        // Apply each property change through the conflict resolution engine
         for (const change of changes) {
           try {
-            const { id, propertyName, propertyValue } = change;
+            const { id, propertyName, propertyValue, createdAt } = change;
+
+            if (!SYNCABLE_FIELDS.includes(propertyName as SyncableField)) {
+              devLog(`ℹ️  Ignoring change to unsynced field: ${propertyName}`);
+              processedSyncIds.push(id);
+              continue;
+            }
 
             devLog(`🔄 Applying change: ${propertyName} = ${JSON.stringify(propertyValue)} to ${contact.name || contact.firstName + ' ' + contact.lastName}`);
 
-            // Update the contact property
-            (contact as any)[propertyName] = propertyValue;
-            contactUpdated = true;
+            const merge = mergeRemoteChanges(contact, { [propertyName]: propertyValue }, {
+              policy,
+              fallbackRemoteUpdatedAt: createdAt,
+            });
+
+            if (merge.changed) {
+              contact = merge.contact;
+              contactUpdated = true;
+            }
             processedSyncIds.push(id);
 
           } catch (changeError) {
@@ -274,8 +376,9 @@ class HubSpotSyncService {
 
         if (contactUpdated) {
           // Update timestamps
+          const hasOpenConflicts = (contact.syncConflicts?.length ?? 0) > 0;
           contact.updatedAt = new Date().toISOString();
-          contact.syncStatus = 'synced';
+          contact.syncStatus = contact.needsSync || hasOpenConflicts ? 'pending' : 'synced';
           contact.lastSyncedAt = new Date().toISOString();
 
           // Update in contacts array
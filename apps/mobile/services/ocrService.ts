@@ -1,17 +1,55 @@
 /**
  * Secure OCR Service for processing name badge images
- * Handles API communication, validation, and error handling
+ * Handles API communication, validation, and error handling.
+ *
+ * Text is read by a pluggable OCR provider: the remote OCR.space API or the on-device
+ * ML Kit engine, chosen in user preferences. A low-confidence on-device result is kept
+ * and the image is queued for the remote engine once the app is back online.
  */
 
+import { NativeModules, Platform } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import TextRecognition from '@react-native-ml-kit/text-recognition';
 import { getAppConfig, devLog, devError } from '../utils/config';
+import { parseBadgeText } from '../utils/badgeParser';
+import { offlineStorage } from './offlineStorage';
+import { storageService } from './storageService';
+import type { OcrProviderPreference } from '../types/contact';
 
-interface OcrResult {
+export type OcrProviderId = 'remote' | 'local';
+
+export interface OcrResult {
   success: boolean;
   extractedText: string;
   confidence?: number;
   error?: string;
+  provider?: OcrProviderId;
+  /** Set when the image was queued to be read again by the remote provider */
+  queuedForRemote?: boolean;
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  isAvailable: () => Promise<boolean>;
+  recognize: (imageUri: string) => Promise<OcrResult>;
+}
+
+export interface QueuedBadgeScan {
+  imageUri: string;
+  localText: string;
+  localConfidence: number;
+  capturedAt: string;
 }
 
+export const DEFAULT_OCR_PROVIDER: OcrProviderPreference = 'auto';
+
+// On-device results below this confidence are queued for the remote engine
+export const LOCAL_OCR_MIN_CONFIDENCE = 0.6;
+
+const BADGE_SCAN_DIRECTORY = 'badge-scans';
+
+const NO_TEXT_ERROR = 'No text detected in image';
+
 interface OcrApiResponse {
   ParsedResults?: Array<{
     ParsedText: string;
@@ -140,20 +178,10 @@ async function makeOcrRequest(base64Image: string, attempt = 1): Promise<OcrApiR
 }
 
 /**
- * Main OCR processing function with security measures
+ * Remote OCR through the OCR.space API, with security measures
  */
-export async function processImageWithOcr(imageUri: string): Promise<OcrResult> {
+async function recognizeRemotely(imageUri: string): Promise<OcrResult> {
   try {
-    devLog('Starting OCR processing', { imageUri: imageUri ? 'provided' : 'missing' });
-    
-    if (!imageUri) {
-      return {
-        success: false,
-        extractedText: '',
-        error: 'No image provided for OCR processing',
-      };
-    }
-    
     // Convert image to base64
     const response = await fetch(imageUri);
     if (!response.ok) {
@@ -213,12 +241,13 @@ export async function processImageWithOcr(imageUri: string): Promise<OcrResult>
               success: true,
               extractedText: sanitizedText,
               confidence: ocrData.ParsedResults[0].TextOverlay?.HasOverlay ? 0.8 : 0.6,
+              provider: 'remote',
             });
           } else {
             resolve({
               success: false,
               extractedText: '',
-              error: 'No text detected in image',
+              error: NO_TEXT_ERROR,
             });
           }
         } catch (error) {
@@ -241,4 +270,167 @@ export async function processImageWithOcr(imageUri: string): Promise<OcrResult>
       error: error instanceof Error ? error.message : 'Unknown OCR service error',
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * ML Kit reports no confidence, so judge on-device text by how much of a badge the
+ * parser can read from it
+ */
+export function estimateOcrConfidence(text: string): number {
+  const parsed = parseBadgeText(text);
+  let confidence = 0.2;
+  if (parsed.name) confidence += 0.4;
+  if (parsed.title || parsed.company) confidence += 0.2;
+  if (parsed.email || parsed.phone) confidence += 0.2;
+  return Math.min(confidence, 1);
+}
+
+export const remoteOcrProvider: OcrProvider = {
+  id: 'remote',
+  isAvailable: async () => true,
+  recognize: recognizeRemotely,
+};
+
+/**
+ * On-device OCR with ML Kit; works without a network connection
+ */
+export const localOcrProvider: OcrProvider = {
+  id: 'local',
+  // The native module is missing on web and in builds without ML Kit linked (Expo Go)
+  isAvailable: async () => Platform.OS !== 'web' && !!NativeModules.TextRecognition,
+  recognize: async (imageUri: string) => {
+    try {
+      const result = await TextRecognition.recognize(imageUri);
+      const blocks = result.blocks
+        .slice()
+        .sort((a, b) => (a.frame?.top || 0) - (b.frame?.top || 0));
+      const text = sanitizeExtractedText(
+        blocks.map(block => block.lines.map(line => line.text).join('\n')).join('\n')
+      );
+
+      if (!text) {
+        return { success: false, extractedText: '', error: NO_TEXT_ERROR, provider: 'local' };
+      }
+
+      const confidence = estimateOcrConfidence(text);
+      devLog('On-device OCR successful', { textLength: text.length, confidence });
+      return { success: true, extractedText: text, confidence, provider: 'local' };
+    } catch (error) {
+      devError('On-device OCR error', error instanceof Error ? error : new Error(String(error)));
+      return {
+        success: false,
+        extractedText: '',
+        error: error instanceof Error ? error.message : 'On-device OCR failed',
+        provider: 'local',
+      };
+    }
+  },
+};
+
+export async function getOcrProviderPreference(): Promise<OcrProviderPreference> {
+  const preferences = await storageService.loadUserPreferences();
+  return preferences?.ocrProvider || DEFAULT_OCR_PROVIDER;
+}
+
+export async function setOcrProviderPreference(provider: OcrProviderPreference): Promise<boolean> {
+  return storageService.saveUserPreferences({ ocrProvider: provider });
+}
+
+/**
+ * Keep the image and queue it for the remote provider. The capture lives in the cache
+ * directory, which the OS may clear before the app is online again, so it is copied first.
+ */
+async function queueBadgeForRemoteOcr(imageUri: string, localResult: OcrResult): Promise<boolean> {
+  try {
+    const directory = new Directory(Paths.document, BADGE_SCAN_DIRECTORY);
+    directory.create({ intermediates: true, idempotent: true });
+    const image = new File(directory, `badge_${Date.now()}.jpg`);
+    new File(imageUri).copy(image);
+
+    const scan: QueuedBadgeScan = {
+      imageUri: image.uri,
+      localText: localResult.extractedText,
+      localConfidence: localResult.confidence || 0,
+      capturedAt: new Date().toISOString(),
+    };
+    await offlineStorage.addToOfflineQueue({ type: 'ocr_badge', payload: scan, status: 'pending' });
+
+    devLog('Queued badge image for remote OCR', { localConfidence: scan.localConfidence });
+    return true;
+  } catch (error) {
+    devError('Failed to queue badge image for remote OCR', error instanceof Error ? error : new Error(String(error)));
+    return false;
+  }
+}
+
+/**
+ * Read a queued badge image with the remote provider; called by the sync service when
+ * the offline queue is processed. Throws while the remote provider is unreachable.
+ */
+export async function processQueuedBadgeScan(scan: QueuedBadgeScan): Promise<void> {
+  const result = await remoteOcrProvider.recognize(scan.imageUri);
+
+  // "No text" is a final answer; anything else is retried with the queue
+  if (!result.success && result.error !== NO_TEXT_ERROR) {
+    throw new Error(result.error || 'Remote OCR failed');
+  }
+
+  await offlineStorage.addBadgeScanResult({
+    localText: scan.localText,
+    remoteText: result.extractedText,
+    capturedAt: scan.capturedAt,
+    processedAt: new Date().toISOString(),
+  });
+
+  try {
+    new File(scan.imageUri).delete();
+  } catch (error) {
+    devError('Failed to delete processed badge image', error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Main OCR processing function. Uses the provider from user preferences unless one is given:
+ * - remote: OCR.space only
+ * - local: on-device only, queuing low-confidence results for the remote provider
+ * - auto: remote first, on-device when the remote provider cannot be reached
+ */
+export async function processImageWithOcr(
+  imageUri: string,
+  preference?: OcrProviderPreference
+): Promise<OcrResult> {
+  devLog('Starting OCR processing', { imageUri: imageUri ? 'provided' : 'missing' });
+
+  if (!imageUri) {
+    return {
+      success: false,
+      extractedText: '',
+      error: 'No image provided for OCR processing',
+    };
+  }
+
+  const provider = preference || await getOcrProviderPreference();
+  const localAvailable = await localOcrProvider.isAvailable();
+
+  if (provider === 'remote' || !localAvailable) {
+    if (provider !== 'remote') {
+      devLog('On-device OCR is not available, using remote OCR');
+    }
+    return remoteOcrProvider.recognize(imageUri);
+  }
+
+  if (provider === 'auto') {
+    const remoteResult = await remoteOcrProvider.recognize(imageUri);
+    if (remoteResult.success || remoteResult.error === NO_TEXT_ERROR) {
+      return remoteResult;
+    }
+    devLog('Remote OCR failed, falling back to on-device OCR', { error: remoteResult.error });
+  }
+
+  const localResult = await localOcrProvider.recognize(imageUri);
+  if (localResult.success && (localResult.confidence || 0) >= LOCAL_OCR_MIN_CONFIDENCE) {
+    return localResult;
+  }
+
+  const queuedForRemote = await queueBadgeForRemoteOcr(imageUri, localResult);
+  return { ...localResult, queuedForRemote };
+}
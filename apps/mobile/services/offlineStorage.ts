@@ -3,18 +3,28 @@ import { Contact, ContactGroup } from '../types/contact';
 
 export interface OfflineQueueItem {
   id: string;
-  type: "add_contact" | "edit_contact" | "delete_contact" | "add_group" | "edit_group" | "delete_group";
+  type: "add_contact" | "edit_contact" | "delete_contact" | "merge_contacts" | "add_interaction" | "delete_interaction" | "set_connection_strength" | "set_followup" | "save_search" | "delete_search" | "save_event" | "delete_event" | "add_group" | "edit_group" | "delete_group" | "ocr_badge";
   payload: any;
   timestamp: number;
   status: "pending" | "syncing" | "failed";
   retryCount?: number;
 }
 
+// A queued badge image after the remote OCR provider has read it, waiting for review
+export interface BadgeScanResult {
+  id: string;
+  localText: string;
+  remoteText: string;
+  capturedAt: string;
+  processedAt: string;
+}
+
 const STORAGE_KEYS = {
   OFFLINE_QUEUE: '@circles_offline_queue',
   CONTACTS: '@circles_contacts',
   GROUPS: '@circles_groups',
   LAST_SYNC: '@circles_last_sync',
+  BADGE_SCAN_RESULTS: '@circles_badge_scan_results',
 } as const;
 
 class OfflineStorageService {
@@ -149,6 +159,42 @@ class OfflineStorageService {
     }
   }
 
+  // Badge scans re-read by remote OCR
+  async getBadgeScanResults(): Promise<BadgeScanResult[]> {
+    try {
+      const resultsJson = await AsyncStorage.getItem(STORAGE_KEYS.BADGE_SCAN_RESULTS);
+      return resultsJson ? JSON.parse(resultsJson) : [];
+    } catch (error) {
+      console.error('Failed to get badge scan results:', error);
+      return [];
+    }
+  }
+
+  async addBadgeScanResult(result: Omit<BadgeScanResult, 'id'>): Promise<void> {
+    try {
+      const results = await this.getBadgeScanResults();
+      results.push({
+        ...result,
+        id: `badge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      });
+      await AsyncStorage.setItem(STORAGE_KEYS.BADGE_SCAN_RESULTS, JSON.stringify(results));
+    } catch (error) {
+      console.error('Failed to add badge scan result:', error);
+      throw error;
+    }
+  }
+
+  async removeBadgeScanResult(resultId: string): Promise<void> {
+    try {
+      const results = await this.getBadgeScanResults();
+      const filteredResults = results.filter(result => result.id !== resultId);
+      await AsyncStorage.setItem(STORAGE_KEYS.BADGE_SCAN_RESULTS, JSON.stringify(filteredResults));
+    } catch (error) {
+      console.error('Failed to remove badge scan result:', error);
+      throw error;
+    }
+  }
+
   // Utility Methods
   async clearAllData(): Promise<void> {
     try {
@@ -0,0 +1,263 @@
+/**
+ * Pipedrive Connector for All My Circles
+ * Creates or updates Persons through the Pipedrive REST API, linking them to
+ * Organizations by company name and attaching networking notes
+ */
+
+import { devLog } from '../utils/logger';
+import { DEFAULT_FIELD_MAPPINGS, mapContactFieldsOrThrow, type FieldMapping } from '../utils/crm-field-mapping';
+import type { Contact } from '../types/contact';
+import type { PipedriveContact } from '../types/crm';
+
+export interface PipedriveCredentials {
+  apiToken: string;
+  domain: string;
+}
+
+export interface PipedrivePushResult {
+  personId: number;
+  organizationId?: number;
+  created: boolean;
+  url: string;
+}
+
+interface PipedriveResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+interface PipedriveField {
+  key: string;
+  name: string;
+  field_type: string;
+  options?: { id: number; label: string }[];
+}
+
+// Built-in person fields; any other mapped field is a custom field
+const STANDARD_PERSON_FIELDS = ['name', 'email', 'phone', 'job_title', 'org_id', 'owner_id', 'label', 'visible_to'];
+
+export class PipedriveApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PipedriveApiError';
+  }
+}
+
+/**
+ * Accepts "acme", "acme.pipedrive.com" or a full base URL (used for local stubs)
+ */
+export function getPipedriveBaseUrl(domain: string): string {
+  const trimmed = domain.trim().replace(/\/$/, '');
+  if (/^https?:\/\//.test(trimmed)) return trimmed;
+  if (trimmed.includes('.')) return `https://${trimmed}`;
+  return `https://${trimmed}.pipedrive.com`;
+}
+
+function getContactEmail(contact: Contact): string | undefined {
+  return contact.email || contact.identifiers?.find(identifier => identifier.type === 'email')?.value;
+}
+
+function getContactPhone(contact: Contact): string | undefined {
+  return contact.phone || contact.identifiers?.find(identifier => identifier.type === 'phone')?.value;
+}
+
+/**
+ * Map a contact onto standard Pipedrive person fields
+ */
+export function buildPipedrivePerson(contact: Contact): PipedriveContact {
+  const name = contact.name || `${contact.firstName || ''} ${contact.lastName || ''}`.trim();
+  const email = getContactEmail(contact);
+  const phone = getContactPhone(contact);
+
+  const person: PipedriveContact = { name: name || 'Unknown' };
+  if (email) person.email = [{ value: email, primary: true, label: 'work' }];
+  if (phone) person.phone = [{ value: phone, primary: true, label: 'work' }];
+  if (contact.title || contact.jobTitle) person.job_title = contact.title || contact.jobTitle;
+
+  return person;
+}
+
+export class PipedriveConnector {
+  private baseUrl: string;
+  private personFields: PipedriveField[] | null = null;
+
+  constructor(private credentials: PipedriveCredentials) {
+    this.baseUrl = getPipedriveBaseUrl(credentials.domain);
+  }
+
+  getPersonUrl(personId: number): string {
+    return `${this.baseUrl}/person/${personId}`;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await fetch(
+      `${this.baseUrl}/api/v1${path}${separator}api_token=${encodeURIComponent(this.credentials.apiToken)}`,
+      {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }
+    );
+
+    let payload: PipedriveResponse<T> | null = null;
+    try {
+      payload = await response.json();
+    } catch {
+      // Non-JSON body, handled below
+    }
+
+    if (!response.ok || !payload?.success) {
+      throw new PipedriveApiError(payload?.error || `Pipedrive request failed: ${response.status}`, response.status);
+    }
+
+    return payload.data;
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.request('GET', '/users/me');
+    return true;
+  }
+
+  async findPersonByEmail(email: string): Promise<number | null> {
+    const data = await this.request<{ items: { item: { id: number } }[] }>(
+      'GET',
+      `/persons/search?term=${encodeURIComponent(email)}&fields=email&exact_match=true&limit=1`
+    );
+    return data?.items?.[0]?.item.id ?? null;
+  }
+
+  async findOrCreateOrganization(name: string): Promise<number> {
+    const data = await this.request<{ items: { item: { id: number } }[] }>(
+      'GET',
+      `/organizations/search?term=${encodeURIComponent(name)}&fields=name&exact_match=true&limit=1`
+    );
+    const existingId = data?.items?.[0]?.item.id;
+    if (existingId) {
+      return existingId;
+    }
+
+    const created = await this.request<{ id: number }>('POST', '/organizations', { name });
+    devLog(`Pipedrive created organization ${created.id} for ${name}`);
+    return created.id;
+  }
+
+  private async getPersonFields(): Promise<PipedriveField[]> {
+    if (!this.personFields) {
+      this.personFields = await this.request<PipedriveField[]>('GET', '/personFields') || [];
+    }
+    return this.personFields;
+  }
+
+  /**
+   * Build the person payload from the connection's field mappings. Custom fields are
+   * resolved to their keys, and enum fields need the option ID rather than its label.
+   */
+  async buildPersonFields(contact: Contact, mappings: FieldMapping[]): Promise<PipedriveContact> {
+    const person = buildPipedrivePerson(contact);
+    const mapped = mapContactFieldsOrThrow(contact, mappings);
+    const customEntries: [string, any][] = [];
+
+    Object.entries(mapped).forEach(([crmField, value]) => {
+      if (STANDARD_PERSON_FIELDS.includes(crmField)) {
+        person[crmField] = value;
+      } else {
+        customEntries.push([crmField, value]);
+      }
+    });
+
+    if (customEntries.length === 0) {
+      return person;
+    }
+
+    const fields = await this.getPersonFields();
+
+    for (const [crmField, value] of customEntries) {
+      // Custom field keys are opaque hashes, so mappings may also name the field by its label
+      const field = fields.find(candidate =>
+        candidate.key === crmField || candidate.name.toLowerCase() === crmField.toLowerCase()
+      );
+      if (!field) {
+        devLog(`Pipedrive person field ${crmField} not found, skipping`);
+        continue;
+      }
+
+      if (field.field_type === 'enum') {
+        const option = field.options?.find(candidate => candidate.label.toLowerCase() === String(value).toLowerCase());
+        if (!option) {
+          devLog(`Pipedrive field ${field.name} has no option "${value}"`);
+          continue;
+        }
+        person[field.key] = option.id;
+      } else {
+        person[field.key] = value;
+      }
+    }
+
+    return person;
+  }
+
+  /**
+   * Add the contact's notes to the person unless the same note is already there
+   */
+  async attachNote(personId: number, content: string, organizationId?: number): Promise<void> {
+    const existing = await this.request<{ content: string }[] | null>('GET', `/notes?person_id=${personId}&limit=100`);
+    if (existing?.some(note => note.content === content)) {
+      return;
+    }
+
+    await this.request('POST', '/notes', {
+      content,
+      person_id: personId,
+      ...(organizationId ? { org_id: organizationId } : {}),
+    });
+  }
+
+  /**
+   * Create or update a contact in Pipedrive. A person with the same email is updated
+   * instead of creating a duplicate.
+   */
+  async pushContact(
+    contact: Contact,
+    mappings: FieldMapping[] = DEFAULT_FIELD_MAPPINGS.pipedrive
+  ): Promise<PipedrivePushResult> {
+    // Mapping errors (missing required fields) surface before anything is created
+    const person = await this.buildPersonFields(contact, mappings);
+
+    let organizationId: number | undefined;
+    if (contact.company) {
+      organizationId = await this.findOrCreateOrganization(contact.company);
+      person.org_id = organizationId;
+    }
+
+    const email = getContactEmail(contact);
+    const existingId = email ? await this.findPersonByEmail(email) : null;
+
+    let personId: number;
+    if (existingId) {
+      await this.request('PUT', `/persons/${existingId}`, person);
+      personId = existingId;
+    } else {
+      const created = await this.request<{ id: number }>('POST', '/persons', person);
+      personId = created.id;
+    }
+
+    const notes = contact.notes || contact.note;
+    if (notes) {
+      await this.attachNote(personId, notes, organizationId);
+    }
+
+    devLog(`Pipedrive ${existingId ? 'updated' : 'created'} person ${personId}`);
+
+    return {
+      personId,
+      organizationId,
+      created: !existingId,
+      url: this.getPersonUrl(personId),
+    };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Profile card service
+ * Keeps the user's own card on the device, so its QR code works offline, and saves it to
+ * the server, which issues the signed link for the public share page and .vcf download.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ProfileCard } from '../types/contact';
+import { parseBadgeCode, type BadgeCodeData } from '../utils/badgeCodeParser';
+import { devLog, devError } from '../utils/config';
+
+const API_BASE_URL = 'https://all-my-circles-web-ltp4.vercel.app/api';
+const STORAGE_KEY = '@circles/profile_card';
+const SHARE_URL_KEY = '@circles/profile_card_share_url';
+
+// Share page links from any All My Circles deployment, e.g. https://host/share/<token>
+const SHARE_URL_PATTERN = /^https?:\/\/[^/\s]+\/share\/([A-Za-z0-9_-]+\.\d+\.[A-Za-z0-9_-]+)\/?$/;
+
+export interface ProfileCardShare {
+  card: ProfileCard;
+  shareUrl: string | null;
+}
+
+export function isProfileCardShareUrl(url: string): boolean {
+  return SHARE_URL_PATTERN.test((url || '').trim());
+}
+
+class ProfileCardService {
+  private async getDeviceId(): Promise<string> {
+    return await AsyncStorage.getItem('@allmycircles_device_id') || '';
+  }
+
+  /**
+   * Card and share link as last saved on this device
+   */
+  async getCachedCard(): Promise<ProfileCardShare | null> {
+    try {
+      const [cardJson, shareUrl] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AsyncStorage.getItem(SHARE_URL_KEY),
+      ]);
+      return cardJson ? { card: JSON.parse(cardJson), shareUrl } : null;
+    } catch (error) {
+      devError('Failed to load profile card', error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Refresh the card and share link from the server, falling back to the local copy
+   */
+  async getCard(): Promise<ProfileCardShare | null> {
+    const cached = await this.getCachedCard();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/profile-card`, {
+        headers: { 'x-device-id': await this.getDeviceId() },
+      });
+      if (!response.ok) {
+        return cached;
+      }
+      return await this.cache(await response.json());
+    } catch {
+      devLog('Profile card fetch failed, using local copy');
+      return cached;
+    }
+  }
+
+  /**
+   * Save the card locally, then on the server. The local copy is kept when the device
+   * is offline or not signed in; only the share link needs the server.
+   */
+  async saveCard(card: ProfileCard): Promise<ProfileCardShare> {
+    const local = { ...card, updatedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(local));
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/mobile/profile-card`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-device-id': await this.getDeviceId(),
+        },
+        body: JSON.stringify(card),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to save profile card: ${response.status}`);
+      }
+      return await this.cache(data);
+    } catch (error) {
+      devError('Failed to save profile card to server', error instanceof Error ? error : new Error(String(error)));
+      return { card: local, shareUrl: await AsyncStorage.getItem(SHARE_URL_KEY) };
+    }
+  }
+
+  /**
+   * Issue a new share link; links shared before stop working
+   */
+  async rotateShareLink(): Promise<ProfileCardShare> {
+    const response = await fetch(`${API_BASE_URL}/mobile/profile-card`, {
+      method: 'DELETE',
+      headers: { 'x-device-id': await this.getDeviceId() },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to rotate share link: ${response.status}`);
+    }
+    return this.cache(data);
+  }
+
+  /**
+   * Contact data behind someone else's share link, read from its .vcf download
+   */
+  async resolveShareUrl(url: string): Promise<BadgeCodeData | null> {
+    if (!isProfileCardShareUrl(url)) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${url.trim().replace(/\/$/, '')}/vcf`);
+      if (!response.ok) {
+        return null;
+      }
+      return parseBadgeCode(await response.text());
+    } catch (error) {
+      devError('Failed to resolve profile card share link', error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+  }
+
+  private async cache(data: { card: ProfileCard; shareUrl: string }): Promise<ProfileCardShare> {
+    const { card, shareUrl } = data;
+    await AsyncStorage.multiSet([
+      [STORAGE_KEY, JSON.stringify(card)],
+      [SHARE_URL_KEY, shareUrl],
+    ]);
+    return { card, shareUrl };
+  }
+}
+
+export const profileCardService = new ProfileCardService();
@@ -0,0 +1,128 @@
+/**
+ * Follow-up reminder service
+ * Schedules a local notification for each upcoming follow-up. The whole set is replaced
+ * whenever follow-ups change, so notifications never point at a stale date.
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { Contact } from '../types/contact';
+import { planFollowupReminders, REMINDER_ID_PREFIX } from '../utils/followups';
+import { storageService } from './storageService';
+import { devLog, devError } from '../utils/config';
+
+const ANDROID_CHANNEL_ID = 'followups';
+
+class ReminderService {
+  private configured = false;
+  private permissionGranted: boolean | null = null;
+
+  /**
+   * Show reminders while the app is open, and register the Android channel
+   */
+  async configure(): Promise<void> {
+    if (this.configured) return;
+    this.configured = true;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Follow-up reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+  }
+
+  /**
+   * Ask for permission once; later calls reuse the answer
+   */
+  private async ensurePermission(): Promise<boolean> {
+    if (this.permissionGranted !== null) return this.permissionGranted;
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) {
+      this.permissionGranted = true;
+      return true;
+    }
+
+    const requested = current.canAskAgain
+      ? await Notifications.requestPermissionsAsync()
+      : current;
+    this.permissionGranted = requested.granted;
+    return requested.granted;
+  }
+
+  private async cancelFollowupReminders(): Promise<void> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(request => request.identifier.startsWith(REMINDER_ID_PREFIX))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+  }
+
+  /**
+   * Replace the scheduled reminders with one per upcoming follow-up
+   */
+  async scheduleFollowupReminders(contacts: Contact[]): Promise<number> {
+    try {
+      await this.configure();
+      await this.cancelFollowupReminders();
+
+      const reminders = planFollowupReminders(contacts);
+      if (reminders.length === 0) return 0;
+
+      const preferences = await storageService.loadUserPreferences();
+      if (preferences?.notifications === false || !(await this.ensurePermission())) {
+        devLog('Follow-up reminders not scheduled: notifications are off');
+        return 0;
+      }
+
+      for (const reminder of reminders) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: reminder.identifier,
+          content: {
+            title: reminder.title,
+            body: reminder.body,
+            data: { contactId: reminder.contactId },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: reminder.date,
+            channelId: ANDROID_CHANNEL_ID,
+          },
+        });
+      }
+
+      devLog(`Scheduled ${reminders.length} follow-up reminders`);
+      return reminders.length;
+    } catch (error) {
+      devError('Failed to schedule follow-up reminders', error instanceof Error ? error : new Error(String(error)));
+      return 0;
+    }
+  }
+
+  /**
+   * Call back with the contact ID when the user taps a follow-up reminder
+   */
+  onReminderOpened(listener: (contactId: string) => void): () => void {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const contactId = response.notification.request.content.data?.contactId;
+      if (typeof contactId === 'string') {
+        listener(contactId);
+      }
+    });
+    return () => subscription.remove();
+  }
+}
+
+// Export singleton instance
+export const reminderService = new ReminderService();
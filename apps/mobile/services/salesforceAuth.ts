@@ -0,0 +1,157 @@
+import { Linking } from 'react-native';
+import { apiService } from './apiService';
+import { devLog, devError } from '../utils/logger';
+
+export interface SalesforceAuthResponse {
+  authUrl: string;
+  state: string;
+  message: string;
+}
+
+export interface SalesforceTokens {
+  accessToken: string;
+  instanceUrl: string;
+  organizationId: string | null;
+  userId: string | null;
+}
+
+class SalesforceAuthService {
+  private deviceId: string | null = null;
+  private isAuthenticating: boolean = false;
+
+  initialize(deviceId: string) {
+    this.deviceId = deviceId;
+    devLog('Salesforce Auth Service initialized with deviceId:', deviceId);
+  }
+
+  async startOAuthFlow(): Promise<SalesforceAuthResponse> {
+    if (!this.deviceId) {
+      throw new Error('Salesforce Auth Service not initialized. Call initialize() first.');
+    }
+
+    try {
+      devLog('Starting Salesforce OAuth flow...');
+      this.isAuthenticating = true;
+
+      const response = await fetch(`${apiService.baseUrl}/api/mobile/auth/salesforce`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          deviceId: this.deviceId,
+          redirectUrl: 'circles://salesforce-auth-callback'
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data: SalesforceAuthResponse = await response.json();
+      devLog('Received Salesforce auth URL');
+
+      return data;
+    } catch (error) {
+      this.isAuthenticating = false;
+      devError('Failed to start Salesforce OAuth flow:', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  async openAuthUrl(authUrl: string): Promise<void> {
+    const supported = await Linking.canOpenURL(authUrl);
+    if (!supported) {
+      throw new Error('Cannot open URL in browser');
+    }
+
+    await Linking.openURL(authUrl);
+  }
+
+  async handleAuthCallback(url: string): Promise<SalesforceTokens> {
+    if (!this.isAuthenticating) {
+      devLog('Ignoring callback - not in authentication flow');
+      throw new Error('Not in authentication flow');
+    }
+
+    try {
+      const urlObject = new URL(url);
+      const code = urlObject.searchParams.get('code');
+      const state = urlObject.searchParams.get('state');
+      const error = urlObject.searchParams.get('error');
+
+      if (error) {
+        throw new Error(`Salesforce OAuth error: ${error}`);
+      }
+
+      if (!code || !state) {
+        throw new Error('Missing authorization code or state parameter');
+      }
+
+      // Verify state parameter contains our deviceId
+      const stateData = JSON.parse(atob(decodeURIComponent(state)));
+      if (stateData.deviceId !== this.deviceId) {
+        throw new Error('Invalid state parameter - device ID mismatch');
+      }
+
+      // Exchange code for tokens via our backend, which keeps the refresh token
+      const response = await fetch(`${apiService.baseUrl}/api/salesforce/oauth/exchange`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code,
+          state,
+          deviceId: this.deviceId,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Token exchange failed: HTTP ${response.status} - ${errorText}`);
+      }
+
+      const tokens: SalesforceTokens = await response.json();
+      devLog('Successfully exchanged code for Salesforce tokens');
+
+      this.isAuthenticating = false;
+      return tokens;
+    } catch (error) {
+      this.isAuthenticating = false;
+      devError('Failed to handle Salesforce auth callback:', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  async refreshToken(): Promise<{ accessToken: string; instanceUrl: string }> {
+    if (!this.deviceId) {
+      throw new Error('Salesforce Auth Service not initialized');
+    }
+
+    const response = await fetch(`${apiService.baseUrl}/api/mobile/auth/salesforce/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        deviceId: this.deviceId,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Token refresh failed: HTTP ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    devLog('Successfully refreshed Salesforce token');
+
+    return {
+      accessToken: data.accessToken,
+      instanceUrl: data.instanceUrl,
+    };
+  }
+}
+
+export const salesforceAuthService = new SalesforceAuthService();
@@ -0,0 +1,265 @@
+/**
+ * Salesforce REST Connector for All My Circles
+ * Creates or updates Leads/Contacts through the Salesforce REST API,
+ * de-duplicating by email and adding records to campaigns
+ */
+
+import { devLog } from '../utils/logger';
+import { DEFAULT_FIELD_MAPPINGS, mapContactFieldsOrThrow, type FieldMapping } from '../utils/crm-field-mapping';
+import type { Contact } from '../types/contact';
+import type { SalesforceContact } from '../types/crm';
+
+export const SALESFORCE_API_VERSION = 'v59.0';
+
+// Salesforce requires Company on Leads; this is the placeholder its own UI uses
+const UNKNOWN_COMPANY = '[not provided]';
+
+export type SalesforceRecordType = 'Lead' | 'Contact';
+
+export interface SalesforceSession {
+  instanceUrl: string;
+  accessToken: string;
+}
+
+export interface SalesforcePushOptions {
+  createAsLead?: boolean;
+  assignToUser?: string; // Salesforce User ID set as record owner
+  addToList?: string; // Campaign ID
+  fieldMappings?: FieldMapping[]; // Defaults to DEFAULT_FIELD_MAPPINGS.salesforce
+}
+
+export interface SalesforcePushResult {
+  id: string;
+  sobject: SalesforceRecordType;
+  created: boolean;
+  url: string;
+}
+
+export class SalesforceApiError extends Error {
+  constructor(message: string, public status: number, public errorCode?: string) {
+    super(message);
+    this.name = 'SalesforceApiError';
+  }
+}
+
+export function escapeSoql(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+export function getContactEmail(contact: Contact): string | undefined {
+  return contact.email || contact.identifiers?.find(identifier => identifier.type === 'email')?.value;
+}
+
+function splitName(contact: Contact): { firstName?: string; lastName: string } {
+  if (contact.lastName) {
+    return { firstName: contact.firstName || undefined, lastName: contact.lastName };
+  }
+
+  // Older contacts only carry a combined name
+  const parts = (contact.name || contact.firstName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) {
+    return { lastName: parts[0] || 'Unknown' };
+  }
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] };
+}
+
+/**
+ * Map a contact onto a Lead or Contact record using the connection's field mappings.
+ * Address fields differ between the two objects, so they are set here rather than mapped.
+ * A new Lead needs a Company; an update leaves the one already in Salesforce alone.
+ */
+export function buildSalesforceFields(
+  contact: Contact,
+  sobject: SalesforceRecordType,
+  mappings: FieldMapping[] = DEFAULT_FIELD_MAPPINGS.salesforce,
+  isNew = true
+): SalesforceContact {
+  // Resolve name parts up front: Salesforce requires LastName, and a lone name belongs there
+  const { firstName, lastName } = splitName(contact);
+  const mapped = mapContactFieldsOrThrow({ ...contact, firstName, lastName }, mappings);
+  const fields: SalesforceContact = { ...mapped, LastName: mapped.LastName || lastName };
+
+  if (sobject === 'Lead') {
+    fields.Company = fields.Company || contact.company || (isNew ? UNKNOWN_COMPANY : undefined);
+    fields.City = fields.City || contact.city;
+    fields.Country = fields.Country || contact.country;
+  } else {
+    fields.MailingCity = fields.MailingCity || contact.city;
+    fields.MailingCountry = fields.MailingCountry || contact.country;
+  }
+
+  // Salesforce rejects explicit nulls on some fields, so drop empty values entirely
+  Object.keys(fields).forEach(key => {
+    if (fields[key] === undefined || fields[key] === '') {
+      delete fields[key];
+    }
+  });
+
+  return fields;
+}
+
+export class SalesforceConnector {
+  constructor(
+    private session: SalesforceSession,
+    private refreshSession?: () => Promise<SalesforceSession | null>
+  ) {}
+
+  getSession(): SalesforceSession {
+    return this.session;
+  }
+
+  getRecordUrl(sobject: string, id: string): string {
+    return `${this.session.instanceUrl}/lightning/r/${sobject}/${id}/view`;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown, retried: boolean = false): Promise<T> {
+    const response = await fetch(`${this.session.instanceUrl}/services/data/${SALESFORCE_API_VERSION}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.session.accessToken}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // Access tokens expire without notice; refresh once and retry
+    if (response.status === 401 && !retried && this.refreshSession) {
+      devLog('Salesforce session expired, refreshing access token...');
+      const refreshed = await this.refreshSession();
+      if (refreshed) {
+        this.session = refreshed;
+        return this.request<T>(method, path, body, true);
+      }
+    }
+
+    if (!response.ok) {
+      let message = `Salesforce request failed: ${response.status}`;
+      let errorCode: string | undefined;
+
+      try {
+        const errors = await response.json();
+        const first = Array.isArray(errors) ? errors[0] : errors;
+        message = first?.message || message;
+        errorCode = first?.errorCode;
+      } catch {
+        // Non-JSON error body, keep the status message
+      }
+
+      throw new SalesforceApiError(message, response.status, errorCode);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return response.json();
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.request('GET', '/limits');
+    return true;
+  }
+
+  async query<T>(soql: string): Promise<T[]> {
+    const result = await this.request<{ records: T[] }>('GET', `/query?q=${encodeURIComponent(soql)}`);
+    return result.records || [];
+  }
+
+  async findByEmail(sobject: SalesforceRecordType, email: string): Promise<string | null> {
+    // Converted leads live on as contacts, so only open leads count as duplicates
+    const leadFilter = sobject === 'Lead' ? ' AND IsConverted = false' : '';
+    const records = await this.query<{ Id: string }>(
+      `SELECT Id FROM ${sobject} WHERE Email = '${escapeSoql(email)}'${leadFilter} ORDER BY CreatedDate ASC LIMIT 1`
+    );
+    return records[0]?.Id || null;
+  }
+
+  async findOrCreateAccount(name: string): Promise<string> {
+    const records = await this.query<{ Id: string }>(
+      `SELECT Id FROM Account WHERE Name = '${escapeSoql(name)}' LIMIT 1`
+    );
+    if (records[0]) {
+      return records[0].Id;
+    }
+    return this.createRecord('Account', { Name: name });
+  }
+
+  async createRecord(sobject: string, fields: Record<string, any>): Promise<string> {
+    const result = await this.request<{ id: string; success: boolean }>('POST', `/sobjects/${sobject}`, fields);
+    return result.id;
+  }
+
+  async updateRecord(sobject: string, id: string, fields: Record<string, any>): Promise<void> {
+    await this.request('PATCH', `/sobjects/${sobject}/${id}`, fields);
+  }
+
+  async addCampaignMember(campaignId: string, sobject: SalesforceRecordType, recordId: string): Promise<void> {
+    try {
+      await this.createRecord('CampaignMember', {
+        CampaignId: campaignId,
+        [sobject === 'Lead' ? 'LeadId' : 'ContactId']: recordId,
+      });
+    } catch (error) {
+      // Already a member of the campaign
+      if (error instanceof SalesforceApiError && error.errorCode === 'DUPLICATE_VALUE') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a contact in Salesforce. An existing Contact or open Lead
+   * with the same email is updated instead of creating a duplicate.
+   */
+  async pushContact(contact: Contact, options: SalesforcePushOptions = {}): Promise<SalesforcePushResult> {
+    const email = getContactEmail(contact);
+    let sobject: SalesforceRecordType = options.createAsLead ? 'Lead' : 'Contact';
+    let existingId: string | null = null;
+
+    if (email) {
+      // Someone who is already a Contact should never come back as a new Lead
+      existingId = await this.findByEmail('Contact', email);
+      if (existingId) {
+        sobject = 'Contact';
+      } else {
+        existingId = await this.findByEmail('Lead', email);
+        if (existingId) {
+          sobject = 'Lead';
+        }
+      }
+    }
+
+    const fields: Record<string, any> = buildSalesforceFields(contact, sobject, options.fieldMappings, !existingId);
+
+    if (sobject === 'Contact' && contact.company) {
+      fields.AccountId = await this.findOrCreateAccount(contact.company);
+    }
+
+    if (options.assignToUser) {
+      fields.OwnerId = options.assignToUser;
+    }
+
+    let id: string;
+    if (existingId) {
+      await this.updateRecord(sobject, existingId, fields);
+      id = existingId;
+    } else {
+      id = await this.createRecord(sobject, fields);
+    }
+
+    if (options.addToList) {
+      await this.addCampaignMember(options.addToList, sobject, id);
+    }
+
+    devLog(`Salesforce ${existingId ? 'updated' : 'created'} ${sobject} ${id}`);
+
+    return {
+      id,
+      sobject,
+      created: !existingId,
+      url: this.getRecordUrl(sobject, id),
+    };
+  }
+}
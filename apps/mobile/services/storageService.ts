@@ -4,7 +4,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Contact, ContactGroup, EnrichmentSuggestion, ContactFilters } from '../types/contact';
+import { Contact, ContactGroup, EnrichmentSuggestion, ContactFilters, ConflictPolicy, OcrProviderPreference, Interaction, SavedSearch, NetworkingEvent } from '../types/contact';
 import { devLog, devError } from '../utils/config';
 
 // Storage keys
@@ -17,6 +17,11 @@ const STORAGE_KEYS = {
   USER_PREFERENCES: '@circles/user_preferences',
   OFFLINE_QUEUE: '@circles/offline_queue',
   LAST_SYNC: '@circles/last_sync',
+  DISMISSED_DUPLICATES: '@circles/dismissed_duplicates',
+  INTERACTIONS: '@circles/interactions',
+  SAVED_SEARCHES: '@circles/saved_searches',
+  EVENTS: '@circles/events',
+  ACTIVE_EVENT: '@circles/active_event',
 } as const;
 
 // App state data structure for persistence
@@ -33,12 +38,14 @@ interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
   defaultView: string;
   notifications: boolean;
+  conflictPolicy?: ConflictPolicy;
+  ocrProvider?: OcrProviderPreference;
   lastUpdated: number;
 }
 
 interface OfflineQueueItem {
   id: string;
-  type: "add_contact" | "edit_contact" | "delete_contact" | "add_group" | "edit_group" | "delete_group";
+  type: "add_contact" | "edit_contact" | "delete_contact" | "merge_contacts" | "add_interaction" | "delete_interaction" | "set_connection_strength" | "set_followup" | "save_search" | "delete_search" | "save_event" | "delete_event" | "add_group" | "edit_group" | "delete_group";
   payload: any;
   timestamp: number;
   status: "pending" | "syncing" | "failed";
@@ -543,6 +550,64 @@ class StorageService {
   async getLastSyncTime(): Promise<number | null> {
     return this.getItem<number>(STORAGE_KEYS.LAST_SYNC);
   }
+
+  /**
+   * Contact pairs the user marked as different people, keyed by duplicatePairKey
+   */
+  async loadDismissedDuplicates(): Promise<string[]> {
+    return (await this.getItem<string[]>(STORAGE_KEYS.DISMISSED_DUPLICATES)) || [];
+  }
+
+  async dismissDuplicate(pairKey: string): Promise<boolean> {
+    const dismissed = await this.loadDismissedDuplicates();
+    if (dismissed.includes(pairKey)) return true;
+    return this.setItem(STORAGE_KEYS.DISMISSED_DUPLICATES, [...dismissed, pairKey]);
+  }
+
+  /**
+   * Logged interactions for all contacts
+   */
+  async saveInteractions(interactions: Interaction[]): Promise<boolean> {
+    return this.setItem(STORAGE_KEYS.INTERACTIONS, interactions);
+  }
+
+  async loadInteractions(): Promise<Interaction[]> {
+    const data = await this.getItem<Interaction[]>(STORAGE_KEYS.INTERACTIONS);
+    return Array.isArray(data) ? data : [];
+  }
+
+  /**
+   * Saved searches shown as smart lists
+   */
+  async saveSavedSearches(searches: SavedSearch[]): Promise<boolean> {
+    return this.setItem(STORAGE_KEYS.SAVED_SEARCHES, searches);
+  }
+
+  async loadSavedSearches(): Promise<SavedSearch[]> {
+    const data = await this.getItem<SavedSearch[]>(STORAGE_KEYS.SAVED_SEARCHES);
+    return Array.isArray(data) ? data : [];
+  }
+
+  /**
+   * Conferences and meetups, and the one new contacts are being met at
+   */
+  async saveEvents(events: NetworkingEvent[]): Promise<boolean> {
+    return this.setItem(STORAGE_KEYS.EVENTS, events);
+  }
+
+  async loadEvents(): Promise<NetworkingEvent[]> {
+    const data = await this.getItem<NetworkingEvent[]>(STORAGE_KEYS.EVENTS);
+    return Array.isArray(data) ? data : [];
+  }
+
+  async saveActiveEventId(eventId: string | null): Promise<boolean> {
+    return this.setItem(STORAGE_KEYS.ACTIVE_EVENT, eventId);
+  }
+
+  async loadActiveEventId(): Promise<string | null> {
+    const data = await this.getItem<string>(STORAGE_KEYS.ACTIVE_EVENT);
+    return typeof data === 'string' ? data : null;
+  }
 }
 
 // Export singleton instance
@@ -1,8 +1,12 @@
 import { offlineStorage, OfflineQueueItem } from './offlineStorage';
-import { Contact, ContactGroup } from '../types/contact';
+import { Contact, ContactGroup, Interaction, NetworkingEvent, SavedSearch } from '../types/contact';
+import type { RemoteSavedSearch } from '../utils/smartLists';
+import { eventContactServerIds, type RemoteEvent } from '../utils/events';
 import { apiService } from './apiService';
 import { hubspotContactsService } from './hubspotContacts';
 import { crmService } from './crmService';
+import { processQueuedBadgeScan } from './ocrService';
+import { storageService } from './storageService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export interface SyncResult {
@@ -10,6 +14,8 @@ export interface SyncResult {
   processed: number;
   failed: number;
   errors: string[];
+  // Server IDs of the events and saved searches uploaded from the queue, by local ID
+  serverIds: Record<string, string>;
 }
 
 class SyncService {
@@ -19,11 +25,11 @@ class SyncService {
 
   async processOfflineQueue(): Promise<SyncResult> {
     if (this.isProcessing) {
-      return { success: false, processed: 0, failed: 0, errors: ['Sync already in progress'] };
+      return { success: false, processed: 0, failed: 0, errors: ['Sync already in progress'], serverIds: {} };
     }
 
     this.isProcessing = true;
-    const result: SyncResult = { success: true, processed: 0, failed: 0, errors: [] };
+    const result: SyncResult = { success: true, processed: 0, failed: 0, errors: [], serverIds: {} };
 
     try {
       const queue = await offlineStorage.getOfflineQueue();
@@ -31,9 +37,12 @@ class SyncService {
 
       for (const item of pendingItems) {
         try {
-          await this.processQueueItem(item);
+          const serverId = await this.processQueueItem(item);
           await offlineStorage.removeFromOfflineQueue(item.id);
           result.processed++;
+          if (serverId) {
+            result.serverIds[(item.payload.event || item.payload.search).id] = serverId;
+          }
         } catch (error) {
           result.failed++;
           result.errors.push(`Failed to process ${item.type}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -64,7 +73,10 @@ class SyncService {
     return result;
   }
 
-  private async processQueueItem(item: OfflineQueueItem): Promise<void> {
+  /**
+   * Process one queued change, returning the server ID of an uploaded event or saved search
+   */
+  private async processQueueItem(item: OfflineQueueItem): Promise<string | undefined> {
     // Update status to syncing
     await offlineStorage.updateQueueItemStatus(item.id, 'syncing');
 
@@ -81,6 +93,31 @@ class SyncService {
       case 'delete_contact':
         await this.processDeleteContact(item.payload);
         break;
+      case 'merge_contacts':
+        await this.processMergeContacts(item.payload);
+        break;
+      case 'add_interaction':
+        await this.processAddInteraction(item.payload);
+        break;
+      case 'delete_interaction':
+        await this.processDeleteInteraction(item.payload);
+        break;
+      case 'set_connection_strength':
+        await this.processSetConnectionStrength(item.payload);
+        break;
+      case 'set_followup':
+        await this.processSetFollowup(item.payload);
+        break;
+      case 'save_search':
+        return (await this.processSaveSearch(item.payload))?.savedSearch?.id;
+      case 'delete_search':
+        await this.processDeleteSearch(item.payload);
+        break;
+      case 'save_event':
+        return (await this.processSaveEvent(item.payload))?.event?.id;
+      case 'delete_event':
+        await this.processDeleteEvent(item.payload);
+        break;
       case 'add_group':
         await this.processAddGroup(item.payload);
         break;
@@ -90,21 +127,32 @@ class SyncService {
       case 'delete_group':
         await this.processDeleteGroup(item.payload);
         break;
+      case 'ocr_badge':
+        await processQueuedBadgeScan(item.payload);
+        break;
       default:
         throw new Error(`Unknown queue item type: ${item.type}`);
     }
   }
 
-  private async processAddContact(payload: Contact): Promise<void> {
+  private async processAddContact(payload: Contact): Promise<{ serverId?: string; hubspotContactId?: string }> {
     console.log('Processing add contact:', payload);
 
     try {
-      const response = await apiService.createContact(payload);
+      // Events not uploaded yet link the contacts met there when they are
+      const event = payload.firstMetEventId
+        ? (await storageService.loadEvents()).find(e => e.id === payload.firstMetEventId)
+        : undefined;
+
+      const response = await apiService.createContact(payload, event);
       console.log('Successfully synced contact to backend and HubSpot');
 
+      const serverId: string | undefined = response?.contact?.id;
+      const hubspotContactId: string | undefined = response?.contact?.hubspotContactId;
+
       // If the API returned a HubSpot contact ID, update the local contact
-      if (response?.contact?.hubspotContactId) {
-        console.log('Updating local contact with HubSpot ID:', response.contact.hubspotContactId);
+      if (hubspotContactId) {
+        console.log('Updating local contact with HubSpot ID:', hubspotContactId);
 
         // Update the local contact with the HubSpot ID
         const contactsJson = await AsyncStorage.getItem('@circles/contacts');
@@ -112,7 +160,8 @@ class SyncService {
 
         const contactIndex = contacts.findIndex(c => c.id === payload.id);
         if (contactIndex !== -1) {
-          contacts[contactIndex].hubspotContactId = response.contact.hubspotContactId;
+          contacts[contactIndex].hubspotContactId = hubspotContactId;
+          contacts[contactIndex].serverId = serverId;
           contacts[contactIndex].syncStatus = 'synced';
           contacts[contactIndex].lastSyncedAt = new Date().toISOString();
 
@@ -120,6 +169,8 @@ class SyncService {
           console.log('Local contact updated with HubSpot ID successfully');
         }
       }
+
+      return { serverId, hubspotContactId };
     } catch (error) {
       console.error('Failed to sync contact:', error);
       throw new Error(`Failed to add contact: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -177,6 +228,170 @@ class SyncService {
     // Real implementation would delete the contact on the server
   }
 
+  private async processMergeContacts(payload: any): Promise<void> {
+    console.log('Processing merge contacts:', payload);
+
+    // Merges queued before server IDs were sent only carry HubSpot IDs
+    const { contact } = payload;
+    const primary = payload.primary || { hubspotContactId: payload.primaryHubspotContactId };
+    const duplicate = payload.duplicate || { hubspotContactId: payload.duplicateHubspotContactId };
+
+    try {
+      await apiService.mergeContacts(primary, duplicate, contact);
+      console.log('Successfully merged contacts on backend and HubSpot');
+    } catch (error) {
+      console.error('Failed to merge contacts:', error);
+      throw new Error(`Failed to merge contacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processAddInteraction(payload: any): Promise<void> {
+    console.log('Processing add interaction:', payload);
+
+    const { interaction, contactId } = payload as { interaction: Interaction; contactId: string };
+    let { serverId, hubspotContactId } = payload;
+
+    // The contact may have been uploaded since the interaction was queued
+    if (!serverId && !hubspotContactId) {
+      const appState = await storageService.loadAppState();
+      const contact = appState?.contacts.find(c => c.id === contactId);
+      serverId = contact?.serverId;
+      hubspotContactId = contact?.hubspotContactId;
+    }
+
+    if (!serverId && !hubspotContactId) {
+      throw new Error('Contact has not been synced yet');
+    }
+
+    try {
+      await apiService.createInteraction(interaction, { serverId, hubspotContactId });
+      console.log('Successfully synced interaction to backend');
+    } catch (error) {
+      console.error('Failed to sync interaction:', error);
+      throw new Error(`Failed to add interaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processDeleteInteraction(payload: any): Promise<void> {
+    console.log('Processing delete interaction:', payload);
+
+    try {
+      await apiService.deleteInteraction(payload.id);
+    } catch (error) {
+      console.error('Failed to delete interaction:', error);
+      throw new Error(`Failed to delete interaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processSetConnectionStrength(payload: any): Promise<any> {
+    console.log('Processing set connection strength:', payload);
+
+    const { contactId, strength, locked } = payload;
+    let { serverId, hubspotContactId } = payload;
+
+    if (!serverId && !hubspotContactId) {
+      const appState = await storageService.loadAppState();
+      const contact = appState?.contacts.find(c => c.id === contactId);
+      serverId = contact?.serverId;
+      hubspotContactId = contact?.hubspotContactId;
+    }
+
+    // Never uploaded: the level only lives on this device, and goes up with the contact
+    if (!serverId && !hubspotContactId) {
+      return null;
+    }
+
+    try {
+      return await apiService.setConnectionStrength({ serverId, hubspotContactId }, { strength, locked });
+    } catch (error) {
+      console.error('Failed to sync connection strength:', error);
+      throw new Error(`Failed to set connection strength: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processSetFollowup(payload: any): Promise<any> {
+    console.log('Processing set follow-up:', payload);
+
+    const { contactId, nextFollowupDate, cadenceDays } = payload;
+    let { serverId, hubspotContactId } = payload;
+
+    if (!serverId && !hubspotContactId) {
+      const appState = await storageService.loadAppState();
+      const contact = appState?.contacts.find(c => c.id === contactId);
+      serverId = contact?.serverId;
+      hubspotContactId = contact?.hubspotContactId;
+    }
+
+    // Never uploaded: the follow-up goes up with the contact
+    if (!serverId && !hubspotContactId) {
+      return null;
+    }
+
+    try {
+      return await apiService.setFollowup({ serverId, hubspotContactId }, { nextFollowupDate, cadenceDays });
+    } catch (error) {
+      console.error('Failed to sync follow-up:', error);
+      throw new Error(`Failed to set follow-up: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processSaveSearch(payload: any): Promise<any> {
+    console.log('Processing save search:', payload);
+
+    // Upload the latest version; it may have been renamed or pinned since it was queued
+    const stored = (await storageService.loadSavedSearches()).find(s => s.id === payload.search.id);
+    const search: SavedSearch = stored && (stored.updatedAt || '') > (payload.search.updatedAt || '')
+      ? stored
+      : payload.search;
+
+    try {
+      return await apiService.saveSavedSearch(search);
+    } catch (error) {
+      console.error('Failed to sync saved search:', error);
+      throw new Error(`Failed to save search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processDeleteSearch(payload: any): Promise<void> {
+    console.log('Processing delete search:', payload);
+
+    try {
+      await apiService.deleteSavedSearch(payload);
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+      throw new Error(`Failed to delete saved search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processSaveEvent(payload: any): Promise<any> {
+    console.log('Processing save event:', payload);
+
+    // Upload the latest version, linking the contacts met there that are on the server by now
+    const stored = (await storageService.loadEvents()).find(e => e.id === payload.event.id);
+    const event: NetworkingEvent = stored && (stored.updatedAt || '') > (payload.event.updatedAt || '')
+      ? stored
+      : payload.event;
+    const contacts = (await storageService.loadAppState())?.contacts || [];
+
+    try {
+      return await apiService.saveEvent(event, eventContactServerIds(event, contacts));
+    } catch (error) {
+      console.error('Failed to sync event:', error);
+      throw new Error(`Failed to save event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async processDeleteEvent(payload: any): Promise<void> {
+    console.log('Processing delete event:', payload);
+
+    try {
+      await apiService.deleteEvent(payload);
+    } catch (error) {
+      console.error('Failed to delete event:', error);
+      throw new Error(`Failed to delete event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private async processAddGroup(payload: any): Promise<void> {
     console.log('Processing add group:', payload);
     
@@ -251,10 +466,93 @@ class SyncService {
     }
   }
 
-  // Public method to immediately sync a contact to backend
-  async syncContact(contact: Contact): Promise<void> {
+  // Public method to immediately sync a contact to backend; resolves to the IDs it was given
+  async syncContact(contact: Contact): Promise<{ serverId?: string; hubspotContactId?: string }> {
     console.log('Syncing contact immediately:', contact);
-    await this.processAddContact(contact);
+    return this.processAddContact(contact);
+  }
+
+  // Public method to immediately upload a logged interaction
+  async syncInteraction(interaction: Interaction, contact: Contact): Promise<void> {
+    await this.processAddInteraction({
+      interaction,
+      contactId: contact.id,
+      serverId: contact.serverId,
+      hubspotContactId: contact.hubspotContactId,
+    });
+  }
+
+  // Public method to immediately override or unlock a contact's connection strength
+  async syncConnectionStrength(payload: {
+    contactId: string;
+    serverId?: string;
+    hubspotContactId?: string;
+    strength?: string;
+    locked: boolean;
+  }): Promise<any> {
+    return this.processSetConnectionStrength(payload);
+  }
+
+  // Public method to immediately set, reschedule or clear a contact's follow-up
+  async syncFollowup(payload: {
+    contactId: string;
+    serverId?: string;
+    hubspotContactId?: string;
+    nextFollowupDate: string | null;
+    cadenceDays: number | null;
+  }): Promise<any> {
+    return this.processSetFollowup(payload);
+  }
+
+  // Public method to immediately upload a new or changed saved search
+  async syncSavedSearch(search: SavedSearch): Promise<any> {
+    return this.processSaveSearch({ search });
+  }
+
+  // Public method to immediately remove a saved search from the server
+  async syncSavedSearchDelete(searchRef: { id: string; serverId?: string }): Promise<void> {
+    await this.processDeleteSearch(searchRef);
+  }
+
+  // Public method to fetch the saved searches made on any of the user's devices
+  async fetchSavedSearches(): Promise<RemoteSavedSearch[]> {
+    const response = await apiService.getSavedSearches();
+    return response?.savedSearches || [];
+  }
+
+  // Public method to create or update a HubSpot active list from a saved search
+  async pushSavedSearchToHubSpot(searchRef: { id: string; serverId?: string }): Promise<{ hubspotListId: string; savedSearch: RemoteSavedSearch }> {
+    return apiService.pushSavedSearchToHubSpot(searchRef);
+  }
+
+  // Public method to immediately upload a new or changed event and the contacts met there
+  async syncEvent(event: NetworkingEvent): Promise<any> {
+    return this.processSaveEvent({ event });
+  }
+
+  // Public method to immediately remove an event from the server
+  async syncEventDelete(eventRef: { id: string; serverId?: string }): Promise<void> {
+    await this.processDeleteEvent(eventRef);
+  }
+
+  // Public method to fetch the organization's events with the contacts met at each
+  async fetchEvents(): Promise<RemoteEvent[]> {
+    const response = await apiService.getEvents();
+    return response?.events || [];
+  }
+
+  // Public method to immediately remove an uploaded interaction
+  async syncInteractionDelete(interactionId: string): Promise<void> {
+    await this.processDeleteInteraction({ id: interactionId });
+  }
+
+  // Public method to immediately merge two synced contacts on the backend and in HubSpot
+  async syncContactMerge(
+    contact: Contact,
+    primary: { serverId?: string; hubspotContactId?: string },
+    duplicate: { serverId?: string; hubspotContactId?: string }
+  ): Promise<void> {
+    await this.processMergeContacts({ contact, primary, duplicate });
   }
 
   // Public method to immediately sync contact updates to HubSpot
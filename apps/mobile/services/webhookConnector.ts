@@ -0,0 +1,248 @@
+/**
+ * Outbound Webhook Connector for All My Circles
+ * Renders contact payloads from a JSON template, signs them with the connection
+ * secret and delivers them with retries
+ */
+
+import { devLog } from '../utils/logger';
+import { hmacSha256Hex } from '../utils/hmac';
+import { DEFAULT_FIELD_MAPPINGS, mapContactFields, mapContactFieldsOrThrow, type FieldMapping } from '../utils/crm-field-mapping';
+import type { Contact } from '../types/contact';
+import type { WebhookContactEvent, WebhookDelivery, WebhookEvent } from '../types/crm';
+
+export const WEBHOOK_CONTACT_EVENTS: WebhookContactEvent[] = [
+  'contact.created',
+  'contact.updated',
+  'contact.deleted',
+  'contact.pushed',
+];
+
+export const DEFAULT_PAYLOAD_TEMPLATE = JSON.stringify(
+  {
+    event: '{{event}}',
+    deliveryId: '{{deliveryId}}',
+    occurredAt: '{{timestamp}}',
+    contact: '{{contact}}',
+  },
+  null,
+  2
+);
+
+export const SIGNATURE_HEADER = 'X-AllMyCircles-Signature';
+export const TIMESTAMP_HEADER = 'X-AllMyCircles-Timestamp';
+export const EVENT_HEADER = 'X-AllMyCircles-Event';
+export const DELIVERY_HEADER = 'X-AllMyCircles-Delivery';
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+export interface WebhookEndpoint {
+  url: string;
+  headers?: Record<string, string>;
+  secret?: string;
+  payloadTemplate?: string;
+  fieldMappings?: FieldMapping[]; // Exposed to templates as {{fields}}
+}
+
+export interface WebhookDeliveryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number; // Doubled after every failed attempt
+  timeoutMs?: number;
+}
+
+export interface WebhookTemplateContext {
+  event: WebhookEvent;
+  deliveryId: string;
+  timestamp: string;
+  contact: Contact | null;
+  fields: Record<string, any> | null; // The contact converted through the connection's field mappings
+}
+
+export class WebhookTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookTemplateError';
+  }
+}
+
+/**
+ * Parse a payload template, throwing a readable error for invalid JSON
+ */
+export function parsePayloadTemplate(template: string): unknown {
+  try {
+    return JSON.parse(template);
+  } catch (error) {
+    throw new WebhookTemplateError(
+      `Payload template must be valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function resolvePath(context: WebhookTemplateContext, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), context);
+}
+
+function renderValue(value: unknown, context: WebhookTemplateContext): unknown {
+  if (typeof value === 'string') {
+    // A string that is only a placeholder keeps the value's JSON type (objects, arrays, numbers)
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return resolvePath(context, whole[1]) ?? null;
+    }
+    return value.replace(PLACEHOLDER, (_, path: string) => {
+      const resolved = resolvePath(context, path);
+      if (resolved == null) return '';
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => renderValue(item, context));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderValue(item, context)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Render a JSON payload template. Placeholders use dotted paths into
+ * { event, deliveryId, timestamp, contact, fields }, e.g. "{{contact.company}}".
+ */
+export function renderPayloadTemplate(template: string, context: WebhookTemplateContext): unknown {
+  return renderValue(parsePayloadTemplate(template), context);
+}
+
+/**
+ * Signature over "<timestamp>.<body>" so a captured request cannot be replayed with a new timestamp
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function createDeliveryId(): string {
+  return `whd_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class WebhookConnector {
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private timeoutMs: number;
+
+  constructor(private endpoint: WebhookEndpoint, options: WebhookDeliveryOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  buildRequest(event: WebhookEvent, contact: Contact | null, deliveryId: string, timestamp: string) {
+    const mappings = this.endpoint.fieldMappings || DEFAULT_FIELD_MAPPINGS.webhook;
+    let fields: Record<string, any> | null = null;
+    if (contact) {
+      // Deleted contacts go out even when incomplete; receivers only need to identify them
+      fields = event === 'contact.deleted'
+        ? mapContactFields(contact, mappings).fields
+        : mapContactFieldsOrThrow(contact, mappings);
+    }
+
+    const payload = renderPayloadTemplate(this.endpoint.payloadTemplate || DEFAULT_PAYLOAD_TEMPLATE, {
+      event,
+      deliveryId,
+      timestamp,
+      contact,
+      fields,
+    });
+    const body = JSON.stringify(payload);
+
+    const headers: Record<string, string> = {
+      ...(this.endpoint.headers || {}),
+      'Content-Type': 'application/json',
+      [EVENT_HEADER]: event,
+      [DELIVERY_HEADER]: deliveryId,
+      [TIMESTAMP_HEADER]: timestamp,
+    };
+    if (this.endpoint.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookPayload(this.endpoint.secret, timestamp, body);
+    }
+
+    return { headers, body };
+  }
+
+  private async send(headers: Record<string, string>, body: string): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      return await fetch(this.endpoint.url, { method: 'POST', headers, body, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Deliver one event. Network errors, timeouts, 429 and 5xx responses are retried with
+   * exponential backoff; other 4xx responses fail immediately. Never throws.
+   */
+  async deliver(event: WebhookEvent, contact: Contact | null): Promise<WebhookDelivery> {
+    const startedAt = Date.now();
+    const delivery: WebhookDelivery = {
+      id: createDeliveryId(),
+      event,
+      contactId: contact?.id,
+      url: this.endpoint.url,
+      status: 'failed',
+      attempts: 0,
+      createdAt: new Date(startedAt).toISOString(),
+      durationMs: 0,
+    };
+
+    let request: { headers: Record<string, string>; body: string };
+    try {
+      // Unix seconds, the same format receivers use to reject stale signatures
+      request = this.buildRequest(event, contact, delivery.id, String(Math.floor(startedAt / 1000)));
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+      return delivery;
+    }
+
+    while (delivery.attempts < this.maxAttempts) {
+      if (delivery.attempts > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.baseDelayMs * 2 ** (delivery.attempts - 1)));
+      }
+      delivery.attempts++;
+
+      let retryable = true;
+      try {
+        const response = await this.send(request.headers, request.body);
+        delivery.responseStatus = response.status;
+
+        if (response.ok) {
+          delivery.status = 'delivered';
+          delivery.error = undefined;
+          break;
+        }
+
+        delivery.error = `Endpoint responded with ${response.status}`;
+        retryable = isRetryableStatus(response.status);
+      } catch (error) {
+        delivery.responseStatus = undefined;
+        delivery.error = error instanceof Error && error.name === 'AbortError'
+          ? `Timed out after ${this.timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error);
+      }
+
+      if (!retryable) break;
+    }
+
+    delivery.durationMs = Date.now() - startedAt;
+    devLog(`Webhook ${event} ${delivery.status} after ${delivery.attempts} attempt(s)`);
+    return delivery;
+  }
+}
@@ -2,6 +2,8 @@
  * TypeScript type definitions for professional networking
  */
 
+import type { ScoreFactorResult } from '../utils/connection-strength';
+
 export interface ContactIdentifier {
   type: 'email' | 'phone' | 'linkedin' | 'url';
   value: string;
@@ -22,11 +24,17 @@ export interface Contact {
   city?: string;
   country?: string;
   connectionStrength?: 'Strong' | 'Medium' | 'Weak';
+  connectionScore?: number; // 0-100, computed from interactions
+  connectionScoreExplanation?: string;
+  connectionScoreFactors?: ScoreFactorResult[];
+  connectionStrengthLocked?: boolean; // Set by hand; the score no longer changes the level
   contactValue?: 'High' | 'Medium' | 'Low';
+  firstMetEventId?: string; // Local id of the NetworkingEvent they were met at
   firstMetLocation?: string;
   firstMetDate?: string;
   lastInteractionDate?: string;
-  nextFollowupDate?: string;
+  nextFollowupDate?: string; // YYYY-MM-DD
+  followupCadenceDays?: number; // Recurring: completing the follow-up schedules the next one this many days out
   totalInteractions?: number;
   groups?: string[];
   tags: string[];
@@ -38,12 +46,45 @@ export interface Contact {
   createdAt?: string;
   updatedAt?: string;
   hubspotContactId?: string;
+  serverId?: string; // Row ID on our server, once the contact has been uploaded
 
   // CRM sync tracking
   syncStatus?: 'none' | 'synced' | 'pending' | 'failed';
   lastSyncedAt?: string;
   syncError?: string;
   needsSync?: boolean; // Flag to indicate contact was edited and needs sync
+  fieldUpdatedAt?: FieldTimestamps; // Last local modification time per synced field
+  syncConflicts?: FieldConflict[]; // Fields changed on both sides awaiting a manual decision
+}
+
+// Field-level sync tracking types
+export type SyncableField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'title'
+  | 'linkedinUrl'
+  | 'firstMetLocation'
+  | 'firstMetDate'
+  | 'notes'
+  | 'tags';
+
+export type FieldTimestamps = Partial<Record<SyncableField, string>>;
+
+export type ConflictPolicy = 'hubspot_wins' | 'mobile_wins' | 'newest_wins' | 'manual';
+
+// Which engine reads scanned badges; 'auto' prefers remote OCR and falls back to on-device
+export type OcrProviderPreference = 'auto' | 'local' | 'remote';
+
+export interface FieldConflict {
+  field: SyncableField;
+  localValue: string | string[] | undefined;
+  remoteValue: string | string[] | undefined;
+  localUpdatedAt?: string;
+  remoteUpdatedAt?: string;
+  detectedAt: string;
 }
 
 export interface ContactGroup {
@@ -86,6 +127,37 @@ export interface ExtractedContactData {
   title?: string;
   email?: string;
   phone?: string;
+  website?: string;
+  linkedinUrl?: string;
+}
+
+// The user's own card, shared as a vCard QR code and a public share link
+export interface ProfileCard {
+  name: string;
+  title?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  linkedinUrl?: string;
+  updatedAt?: string;
+}
+
+// A logged meeting, call, email or message with a contact
+export type InteractionType = 'meeting' | 'call' | 'email' | 'message' | 'event' | 'note';
+
+export interface Interaction {
+  id: string;
+  contactId: string;
+  type: InteractionType;
+  date: string; // YYYY-MM-DD
+  notes?: string;
+  location?: string;
+  durationMinutes?: number;
+  followUpNeeded?: boolean;
+  direction?: 'inbound' | 'outbound'; // Who reached out; meetings and events count as mutual
+  createdAt: string;
+  serverId?: string;
+  syncStatus?: 'synced' | 'pending' | 'failed';
 }
 
 // Offline queue types
@@ -129,11 +201,38 @@ export interface SearchHistory {
   savedSearches: SavedSearch[];
 }
 
+// Saved filters shown as a smart list next to groups; its members are worked out live
 export interface SavedSearch {
   id: string;
   name: string;
   filters: ContactFilters;
   createdAt: string;
+  updatedAt?: string;
+  pinned?: boolean;
+  serverId?: string;
+  hubspotListId?: string;
+  syncStatus?: 'synced' | 'pending' | 'failed';
+}
+
+// A conference or meetup; contacts met there point at it through firstMetEventId
+export interface NetworkingEvent {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, same as startDate when unset
+  venue?: string;
+  agendaUrl?: string;
+  createdAt: string;
+  updatedAt?: string;
+  serverId?: string;
+  syncStatus?: 'synced' | 'pending' | 'failed';
+}
+
+// How an event went: who was met there and how many have been followed up since
+export interface EventStats {
+  contactsMet: number;
+  followUpsDone: number;
+  followUpsScheduled: number;
 }
 
 export type ViewMode = 'grid' | 'list' | 'timeline';
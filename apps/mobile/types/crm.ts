@@ -14,6 +14,7 @@ export interface CRMConnection {
   lastSync?: string;
   createdAt: string;
   metadata?: Record<string, any>; // For storing additional data like userId
+  webhookSettings?: WebhookSettings; // Only for 'webhook' connections
 }
 
 export interface CRMCredentials {
@@ -34,6 +35,7 @@ export interface CRMCredentials {
   // Generic webhook
   webhookUrl?: string;
   webhookHeaders?: Record<string, string>;
+  webhookSecret?: string; // HMAC-SHA256 signing secret
 }
 
 export interface CRMFieldMapping {
@@ -112,6 +114,31 @@ export interface CRMSyncResult {
   lastSyncTimestamp: string;
 }
 
+// Outbound webhooks
+
+export type WebhookContactEvent = 'contact.created' | 'contact.updated' | 'contact.deleted' | 'contact.pushed';
+
+export type WebhookEvent = WebhookContactEvent | 'ping';
+
+export interface WebhookSettings {
+  events: WebhookContactEvent[];
+  payloadTemplate?: string; // JSON with {{placeholders}}, see webhookConnector
+}
+
+export interface WebhookDelivery {
+  id: string; // Stable across retries so receivers can de-duplicate
+  connectionId?: string;
+  event: WebhookEvent;
+  contactId?: string;
+  url: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  durationMs: number;
+}
+
 // Provider-specific interfaces
 
 // Salesforce
@@ -150,11 +177,18 @@ export interface HubSpotContact {
 }
 
 // Pipedrive
+export interface PipedriveContactValue {
+  value: string;
+  primary?: boolean;
+  label?: string;
+}
+
 export interface PipedriveContact {
   id?: number;
   name: string;
-  email?: string;
-  phone?: string;
+  email?: string | PipedriveContactValue[];
+  phone?: string | PipedriveContactValue[];
+  org_id?: number;
   org_name?: string;
   job_title?: string;
   address_locality?: string;
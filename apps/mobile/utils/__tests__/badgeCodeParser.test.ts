@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for badge QR / PDF417 payload parsing, decoding the fixture images
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { PNG } from 'pngjs';
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import { mergeBadgeData, parseBadgeCode, type BadgeCodeData } from '../badgeCodeParser';
+
+interface CodeCase {
+  id: string;
+  barcode: 'qr' | 'pdf417';
+  payload: string;
+  /** null when the code carries no contact data and the scanner should use OCR */
+  expected: Omit<BadgeCodeData, 'raw'> | null;
+}
+
+// Images are rendered by scripts/generate-badge-code-fixtures.js
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'badge-codes');
+
+function loadCases(): CodeCase[] {
+  return readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({ id: file.replace(/\.json$/, ''), ...JSON.parse(readFileSync(join(FIXTURE_DIR, file), 'utf8')) }));
+}
+
+// Decode the fixture image the way the camera would, with ZXing standing in for the native scanner
+function decodeImage(id: string): string {
+  const png = PNG.sync.read(readFileSync(join(FIXTURE_DIR, `${id}.png`)));
+  const luminances = new Uint8ClampedArray(png.width * png.height);
+  for (let i = 0; i < luminances.length; i++) {
+    const offset = i * 4;
+    luminances[i] = (png.data[offset] + 2 * png.data[offset + 1] + png.data[offset + 2]) / 4;
+  }
+
+  const hints = new Map<DecodeHintType, any>([
+    [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.QR_CODE, BarcodeFormat.PDF_417]],
+    [DecodeHintType.TRY_HARDER, true],
+  ]);
+  const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, png.width, png.height)));
+  return new MultiFormatReader().decode(bitmap, hints).getText();
+}
+
+describe('badgeCodeParser', () => {
+  describe('fixture images', () => {
+    it.each(loadCases().map(entry => [entry.id, entry]))('should decode and parse %s', (_id, entry) => {
+      const { id, payload, expected } = entry as CodeCase;
+      const decoded = decodeImage(id);
+
+      expect(decoded).toBe(payload);
+      expect(parseBadgeCode(decoded)).toEqual(expected && { ...expected, raw: payload });
+    });
+  });
+
+  it('should ignore payloads without contact data', () => {
+    expect(parseBadgeCode('')).toBeNull();
+    expect(parseBadgeCode('BEGIN:VCARD\nVERSION:3.0\nEND:VCARD')).toBeNull();
+    expect(parseBadgeCode('https://www.linkedin.com/in/janedoe')).toEqual({
+      format: 'url',
+      contact: { name: '', linkedinUrl: 'https://www.linkedin.com/in/janedoe' },
+      raw: 'https://www.linkedin.com/in/janedoe',
+    });
+  });
+
+  it('should read grouped vCard properties and unescape values', () => {
+    const result = parseBadgeCode('BEGIN:VCARD\nVERSION:3.0\nFN:Sean O\'Brien\nitem1.EMAIL;type=pref:sean@example.com\nORG:Smith\\; Sons\nEND:VCARD');
+
+    expect(result?.contact).toEqual({ name: "Sean O'Brien", email: 'sean@example.com', company: 'Smith; Sons' });
+  });
+
+  describe('mergeBadgeData', () => {
+    it('should prefer code values and fill gaps from OCR', () => {
+      expect(mergeBadgeData(
+        { name: 'Jane Doe', email: 'jane@acme.example' },
+        { name: 'JANE DOE', title: 'CTO', email: 'jane@acme.exarnple', company: '' }
+      )).toEqual({ name: 'Jane Doe', title: 'CTO', email: 'jane@acme.example' });
+    });
+  });
+});
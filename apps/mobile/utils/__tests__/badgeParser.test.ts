@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the badge / business card parser, including the golden OCR corpus
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  BADGE_FIELDS,
+  DEFAULT_BADGE_RULES,
+  normalizePhoneNumber,
+  parseBadgeText,
+  parseNameLine,
+  type BadgeField,
+  type BadgeFields,
+  type BadgeRule,
+} from '../badgeParser';
+
+interface CorpusCase {
+  id: string;
+  text: string;
+  expected: BadgeFields;
+  /** Fields the parser is known to get wrong; they must keep failing until fixed */
+  knownMisses: BadgeField[];
+}
+
+const CORPUS_DIR = join(__dirname, '__fixtures__', 'badge-corpus');
+
+// Share of corpus fields that must be read correctly, known misses included
+const MIN_FIELD_ACCURACY = 0.95;
+
+function loadCorpus(): CorpusCase[] {
+  return readdirSync(CORPUS_DIR)
+    .filter(file => file.endsWith('.txt'))
+    .sort()
+    .map(file => {
+      const id = file.replace(/\.txt$/, '');
+      const { expected, knownMisses = [] } = JSON.parse(readFileSync(join(CORPUS_DIR, `${id}.json`), 'utf8'));
+      return { id, text: readFileSync(join(CORPUS_DIR, file), 'utf8'), expected, knownMisses };
+    });
+}
+
+const corpus = loadCorpus();
+
+describe('badgeParser', () => {
+  describe('golden corpus', () => {
+    it.each(corpus.map(entry => [entry.id, entry]))('should parse %s', (_id, entry) => {
+      const { id, text, expected, knownMisses } = entry as CorpusCase;
+      const result = parseBadgeText(text);
+
+      BADGE_FIELDS.forEach(field => {
+        if (knownMisses.indexOf(field) !== -1) {
+          expect({ id, field, matches: result[field] === expected[field] })
+            .toEqual({ id, field, matches: false });
+        } else {
+          expect({ id, field, value: result[field] }).toEqual({ id, field, value: expected[field] });
+        }
+      });
+    });
+
+    it('should meet the field accuracy floor', () => {
+      const misses: string[] = [];
+      let total = 0;
+
+      corpus.forEach(({ id, text, expected }) => {
+        const result = parseBadgeText(text);
+        BADGE_FIELDS.forEach(field => {
+          total++;
+          if (result[field] !== expected[field]) {
+            misses.push(`${id}.${field}`);
+          }
+        });
+      });
+
+      const accuracy = (total - misses.length) / total;
+      expect(accuracy).toBeGreaterThanOrEqual(MIN_FIELD_ACCURACY);
+    });
+  });
+
+  it('should expose scored candidates and the lines that passed the filters', () => {
+    const result = parseBadgeText('Visit our booth at the Expo\nJane Doe\nSenior Engineer\nAcme Inc');
+
+    expect(result.lines).toHaveLength(4);
+    expect(result.relevantLines).toEqual(['Jane Doe', 'Senior Engineer', 'Acme Inc']);
+    expect(result.candidates.name[0]).toMatchObject({ text: 'Jane Doe', rule: 'name', lines: [1] });
+  });
+
+  it('should accept custom rules alongside the defaults', () => {
+    const badgeIdRule: BadgeRule = {
+      name: 'badge-id',
+      apply: ({ lines }) => lines
+        .filter(line => /^ID\s+\d+$/.test(line.text))
+        .map(line => ({ field: 'title', text: 'Badge ' + line.text, confidence: 0.99, lines: [line.index], rule: 'badge-id' })),
+    };
+
+    const result = parseBadgeText('Jane Doe\nID 4821\nProduct Manager', { rules: [...DEFAULT_BADGE_RULES, badgeIdRule] });
+    expect(result.title).toBe('Badge ID 4821');
+    expect(result.name).toBe('Jane Doe');
+  });
+
+  it('should honour minimum confidence overrides', () => {
+    expect(parseBadgeText('Jane Doe\nAcme Inc').name).toBe('Jane Doe');
+    expect(parseBadgeText('Jane Doe\nAcme Inc', { minConfidence: { name: 0.95 } }).name).toBe('');
+  });
+
+  it('should return empty fields for empty text', () => {
+    const result = parseBadgeText('');
+    BADGE_FIELDS.forEach(field => expect(result[field]).toBe(''));
+  });
+
+  describe('normalizePhoneNumber', () => {
+    it('should collapse international numbers to + and digits', () => {
+      expect(normalizePhoneNumber('+49 (0)30 123 4567')).toBe('+49301234567');
+      expect(normalizePhoneNumber('0044 20 7946 0958')).toBe('+442079460958');
+    });
+
+    it('should keep the grouping of national numbers', () => {
+      expect(normalizePhoneNumber('(415)  555-0132')).toBe('(415) 555-0132');
+    });
+  });
+
+  describe('parseNameLine', () => {
+    it('should drop honorifics and credentials and title-case all-caps names', () => {
+      expect(parseNameLine('Dr. Jane Doe, PhD')).toMatchObject({ text: 'Jane Doe', significantWords: 2 });
+      expect(parseNameLine("SEAN O'BRIEN")).toMatchObject({ text: "Sean O'Brien", allCaps: true });
+    });
+
+    it('should reject lines with words that are not names', () => {
+      expect(parseNameLine('Head of Sales')).toBeNull();
+      expect(parseNameLine('Sakura Digital K.K.')).toBeNull();
+    });
+  });
+});
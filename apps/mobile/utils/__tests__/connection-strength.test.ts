@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the connection strength scoring engine
+ */
+
+import {
+  FACTOR_MAX_POINTS,
+  scoreConnection,
+  strengthFromScore,
+  type ScoredInteraction,
+} from '../connection-strength';
+
+const now = new Date('2025-06-30T12:00:00');
+
+function daysAgo(days: number): string {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - days);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function factor(interactions: ScoredInteraction[], name: string) {
+  return scoreConnection(interactions, now).factors.find(result => result.factor === name)!;
+}
+
+describe('strengthFromScore', () => {
+  it('should map scores onto levels at the thresholds', () => {
+    expect(strengthFromScore(100)).toBe('Strong');
+    expect(strengthFromScore(60)).toBe('Strong');
+    expect(strengthFromScore(59)).toBe('Medium');
+    expect(strengthFromScore(30)).toBe('Medium');
+    expect(strengthFromScore(29)).toBe('Weak');
+  });
+});
+
+describe('scoreConnection', () => {
+  it('should score an empty history as weak', () => {
+    const result = scoreConnection([], now);
+
+    expect(result.score).toBe(0);
+    expect(result.strength).toBe('Weak');
+    expect(result.factors).toEqual([]);
+    expect(result.explanation).toBe('No interactions logged yet');
+  });
+
+  it('should rate frequent recent meetings as strong', () => {
+    const interactions = [0, 7, 14, 30, 45, 60, 90].map(days => ({ type: 'meeting', date: daysAgo(days) }));
+    const result = scoreConnection(interactions, now);
+
+    expect(result.strength).toBe('Strong');
+    expect(result.score).toBeLessThanOrEqual(100);
+  });
+
+  it('should rate a single old email as weak', () => {
+    const result = scoreConnection([{ type: 'email', date: daysAgo(300), direction: 'outbound' }], now);
+
+    expect(result.strength).toBe('Weak');
+  });
+
+  it('should decay recency with a 45 day half-life', () => {
+    expect(factor([{ type: 'meeting', date: daysAgo(0) }], 'recency').points).toBe(FACTOR_MAX_POINTS.recency);
+    expect(factor([{ type: 'meeting', date: daysAgo(45) }], 'recency').points).toBe(Math.round(FACTOR_MAX_POINTS.recency / 2));
+  });
+
+  it('should only count the last six months towards frequency', () => {
+    const result = factor([
+      { type: 'call', date: daysAgo(10) },
+      { type: 'call', date: daysAgo(200) },
+    ], 'frequency');
+
+    expect(result.detail).toBe('1 interaction in the last 6 months');
+  });
+
+  it('should weigh meetings above emails', () => {
+    const meetings = factor([{ type: 'meeting', date: daysAgo(1) }], 'type');
+    const emails = factor([{ type: 'email', date: daysAgo(1) }], 'type');
+
+    expect(meetings.points).toBeGreaterThan(emails.points);
+    expect(emails.detail).toBe('Mostly emails');
+  });
+
+  it('should reward two-way contact', () => {
+    const oneWay = factor([
+      { type: 'email', date: daysAgo(1), direction: 'outbound' },
+      { type: 'email', date: daysAgo(2), direction: 'outbound' },
+    ], 'reciprocity');
+    const twoWay = factor([
+      { type: 'email', date: daysAgo(1), direction: 'outbound' },
+      { type: 'email', date: daysAgo(2), direction: 'inbound' },
+    ], 'reciprocity');
+
+    expect(oneWay.points).toBe(0);
+    expect(oneWay.detail).toBe('You usually reach out');
+    expect(twoWay.points).toBe(FACTOR_MAX_POINTS.reciprocity);
+    expect(twoWay.detail).toBe('Both of you reach out');
+  });
+
+  it('should give half the reciprocity points when direction is unknown', () => {
+    const result = factor([{ type: 'email', date: daysAgo(1) }], 'reciprocity');
+
+    expect(result.points).toBe(Math.round(FACTOR_MAX_POINTS.reciprocity / 2));
+  });
+
+  it('should ignore interactions with unreadable dates', () => {
+    const result = scoreConnection([{ type: 'meeting', date: 'not a date' }], now);
+
+    expect(result.score).toBe(0);
+  });
+
+  it('should explain the score factor by factor', () => {
+    const result = scoreConnection([{ type: 'meeting', date: daysAgo(3) }], now);
+
+    expect(result.explanation).toBe(result.factors.map(f => f.detail).join(' · '));
+    expect(result.explanation).toContain('Last interaction 3 days ago');
+  });
+});
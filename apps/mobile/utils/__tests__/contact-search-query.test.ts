@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the shared contact search query helpers used by the web API.
+ * The web app has no test runner, so these run with the mobile suite like the other
+ * shared module tests.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ContactSearchError,
+  decodeCursor,
+  encodeCursor,
+  toPrefixQuery,
+} from '../../../../packages/shared/contact-search-query';
+
+describe('contact-search-query', () => {
+  it('should require every word as a lowercase prefix', () => {
+    expect(toPrefixQuery('Ann  Acme')).toBe('ann:* & acme:*');
+    expect(toPrefixQuery('')).toBe('');
+  });
+
+  it('should drop full-text operators typed by the user', () => {
+    expect(toPrefixQuery(`o'brien & (acme | !corp):* "vp"`)).toBe('o:* & brien:* & acme:* & corp:* & vp:*');
+    expect(toPrefixQuery('& | !')).toBe('');
+  });
+
+  it('should round trip a cursor for the same sort', () => {
+    const cursor = encodeCursor('name', 'asc', 'ann doe', 'c-1');
+    expect(decodeCursor('name', 'asc', cursor)).toEqual({ value: 'ann doe', id: 'c-1' });
+    expect(decodeCursor('created', 'desc', encodeCursor('created', 'desc', null, 'c-2'))).toEqual({ value: null, id: 'c-2' });
+  });
+
+  it('should reject a cursor from a different sort', () => {
+    const cursor = encodeCursor('name', 'asc', 'ann doe', 'c-1');
+    expect(() => decodeCursor('name', 'desc', cursor)).toThrow('different sort');
+    expect(() => decodeCursor('company', 'asc', cursor)).toThrow(ContactSearchError);
+  });
+
+  it('should reject malformed cursors', () => {
+    const notJson = Buffer.from('not json').toString('base64');
+    const wrongShape = Buffer.from(JSON.stringify(['name', 'asc', 'ann'])).toString('base64');
+
+    expect(() => decodeCursor('name', 'asc', notJson)).toThrow('Invalid cursor');
+    expect(() => decodeCursor('name', 'asc', wrongShape)).toThrow('Invalid cursor');
+  });
+
+  it('should be identical to the web copy', () => {
+    const repoRoot = join(__dirname, '..', '..', '..', '..');
+    const source = readFileSync(join(repoRoot, 'packages/shared/contact-search-query.ts'), 'utf8');
+
+    expect(readFileSync(join(repoRoot, 'apps/web/lib/shared/contact-search-query.ts'), 'utf8')).toBe(source);
+  });
+});
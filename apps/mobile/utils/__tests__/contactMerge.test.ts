@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for merging duplicate contacts
+ */
+
+import type { Contact } from '../../types/contact';
+import { conflictingMergeFields, mergeContacts } from '../contactMerge';
+
+const primary: Contact = {
+  id: 'p',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  name: 'Jane Doe',
+  company: 'Acme',
+  title: 'CEO',
+  identifiers: [
+    { type: 'email', value: 'jane@acme.com' },
+    { type: 'phone', value: '+1 415 555 0100' },
+  ],
+  tags: ['VIP'],
+  groups: ['DevCon 2025'],
+  note: '',
+  totalInteractions: 2,
+  lastInteractionDate: '2025-03-01',
+  hubspotContactId: '101',
+};
+
+const duplicate: Contact = {
+  id: 'd',
+  firstName: 'Jane',
+  lastName: 'Doe-Smith',
+  name: 'Jane Doe-Smith',
+  company: 'Acme Inc.',
+  jobTitle: 'Chief Executive',
+  identifiers: [
+    { type: 'phone', value: '(415) 555-0100' },
+    { type: 'email', value: 'jane.doe@gmail.com' },
+  ],
+  linkedinUrl: 'https://www.linkedin.com/in/janedoe',
+  tags: ['Investor', 'VIP'],
+  groups: ['Clients'],
+  note: 'Met at the booth',
+  starred: true,
+  totalInteractions: 3,
+  lastInteractionDate: '2025-04-10',
+  hubspotContactId: '202',
+};
+
+describe('mergeContacts', () => {
+  it('should keep the primary values by default and fill empty ones from the duplicate', () => {
+    const merged = mergeContacts(primary, duplicate);
+
+    expect(merged).toMatchObject({
+      id: 'p',
+      name: 'Jane Doe',
+      company: 'Acme',
+      title: 'CEO',
+      note: 'Met at the booth',
+      starred: true,
+      totalInteractions: 5,
+      lastInteractionDate: '2025-04-10',
+      hubspotContactId: '101',
+    });
+  });
+
+  it('should take the fields chosen from the duplicate', () => {
+    const merged = mergeContacts(primary, duplicate, { name: 'duplicate', title: 'duplicate' });
+
+    expect(merged).toMatchObject({
+      name: 'Jane Doe-Smith',
+      firstName: 'Jane',
+      lastName: 'Doe-Smith',
+      title: 'Chief Executive',
+      jobTitle: 'Chief Executive',
+      company: 'Acme',
+    });
+  });
+
+  it('should union tags, groups and identifiers', () => {
+    const merged = mergeContacts(primary, duplicate);
+
+    expect(merged.tags).toEqual(['VIP', 'Investor']);
+    expect(merged.groups).toEqual(['DevCon 2025', 'Clients']);
+    expect(merged.identifiers).toEqual([
+      { type: 'email', value: 'jane@acme.com' },
+      { type: 'phone', value: '+1 415 555 0100' },
+      { type: 'email', value: 'jane.doe@gmail.com' },
+      { type: 'linkedin', value: 'https://www.linkedin.com/in/janedoe' },
+    ]);
+  });
+});
+
+describe('conflictingMergeFields', () => {
+  it('should list fields where both contacts have different values', () => {
+    expect(conflictingMergeFields(primary, duplicate)).toEqual(['name', 'company', 'title']);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the shared CRM field mapping engine
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DEFAULT_FIELD_MAPPINGS,
+  FieldMappingError,
+  mapContactFields,
+  mapContactFieldsOrThrow,
+  resolveFieldMappings,
+  type FieldMapping,
+} from '../crm-field-mapping';
+
+describe('crm-field-mapping', () => {
+  it('should map the HubSpot defaults from an app payload', () => {
+    const { fields, missingRequired } = mapContactFields(
+      {
+        name: 'Jane Ann Doe',
+        email: 'jane@acme.com',
+        title: 'CTO',
+        firstMetLocation: 'SaaStr',
+        tags: ['prospect', 'vip'],
+        notes: '',
+      },
+      DEFAULT_FIELD_MAPPINGS.hubspot
+    );
+
+    expect(missingRequired).toEqual([]);
+    expect(fields).toEqual({
+      firstname: 'Jane',
+      lastname: 'Ann Doe',
+      email: 'jane@acme.com',
+      jobtitle: 'CTO',
+      amc_first_met_location: 'SaaStr',
+      amc_networking_tags: 'prospect, vip',
+    });
+  });
+
+  it('should fall back to identifiers and field aliases', () => {
+    const { fields } = mapContactFields(
+      {
+        firstName: 'Jane',
+        identifiers: [{ type: 'email', value: 'jane@acme.com' }, { type: 'linkedin', value: 'linkedin.com/in/jane' }],
+        jobTitle: 'CTO',
+        note: 'Met at SaaStr',
+      },
+      [
+        { localField: 'name', crmField: 'Name', isRequired: false },
+        { localField: 'lastName', crmField: 'Last', isRequired: false },
+        { localField: 'email', crmField: 'Email', isRequired: false },
+        { localField: 'linkedinUrl', crmField: 'LinkedIn', isRequired: false },
+        { localField: 'title', crmField: 'Title', isRequired: false },
+        { localField: 'notes', crmField: 'Notes', isRequired: false },
+      ]
+    );
+
+    expect(fields).toEqual({
+      Name: 'Jane',
+      Email: 'jane@acme.com',
+      LinkedIn: 'linkedin.com/in/jane',
+      Title: 'CTO',
+      Notes: 'Met at SaaStr',
+    });
+  });
+
+  it('should apply transforms', () => {
+    const mappings: FieldMapping[] = [
+      { localField: 'company', crmField: 'company', isRequired: false, transform: 'uppercase' },
+      { localField: 'email', crmField: 'email', isRequired: false, transform: 'lowercase' },
+      { localField: 'phone', crmField: 'phone', isRequired: false, transform: 'phone_format' },
+      { localField: 'city', crmField: 'city', isRequired: false, transform: 'phone_format' },
+    ];
+
+    expect(mapContactFields({ company: 'Acme', email: 'Jane@Acme.COM', phone: '555.123.4567', city: 'Paris' }, mappings).fields)
+      .toEqual({ company: 'ACME', email: 'jane@acme.com', phone: '(555) 123-4567', city: 'Paris' });
+    expect(mapContactFields({ phone: '+44 20 7946 0958' }, mappings).fields.phone).toBe('+44 20 7946 0958');
+  });
+
+  it('should report every missing required field', () => {
+    const mappings: FieldMapping[] = [
+      { localField: 'email', crmField: 'email', isRequired: true },
+      { localField: 'company', crmField: 'company', isRequired: true },
+      { localField: 'title', crmField: 'jobtitle', isRequired: false },
+    ];
+
+    expect(() => mapContactFieldsOrThrow({ email: 'jane@acme.com', company: 'Acme' }, mappings)).not.toThrow();
+    try {
+      mapContactFieldsOrThrow({ name: 'Jane' }, mappings);
+      throw new Error('expected a FieldMappingError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(FieldMappingError);
+      expect((error as FieldMappingError).missingFields).toEqual(['email', 'company']);
+      expect((error as FieldMappingError).message).toBe('Missing required fields: email, company');
+    }
+  });
+
+  it('should only flag explicitly cleared required fields on partial updates', () => {
+    const mappings: FieldMapping[] = [
+      { localField: 'email', crmField: 'email', isRequired: true },
+      { localField: 'lastName', crmField: 'lastname', isRequired: true },
+    ];
+
+    expect(mapContactFields({ company: 'Acme' }, mappings, { partial: true }).missingRequired).toEqual([]);
+    expect(mapContactFields({ email: '' }, mappings, { partial: true }).missingRequired).toEqual([mappings[0]]);
+    // A single-word name clears the last name
+    expect(mapContactFields({ name: 'Cher' }, mappings, { partial: true }).missingRequired).toEqual([mappings[1]]);
+  });
+
+  it('should fall back to provider defaults for missing or malformed stored mappings', () => {
+    expect(resolveFieldMappings(undefined, 'hubspot')).toBe(DEFAULT_FIELD_MAPPINGS.hubspot);
+    expect(resolveFieldMappings([{ localField: 'email' }], 'salesforce')).toBe(DEFAULT_FIELD_MAPPINGS.salesforce);
+    expect(resolveFieldMappings([{ localField: 'email', crmField: 'email' }], 'hubspot')).toEqual([
+      { localField: 'email', crmField: 'email', isRequired: false, transform: 'none' },
+    ]);
+  });
+
+  it('should be identical to the shared package and the web copy', () => {
+    const source = readFileSync(join(__dirname, '..', 'crm-field-mapping.ts'), 'utf8');
+    const repoRoot = join(__dirname, '..', '..', '..', '..');
+
+    expect(readFileSync(join(repoRoot, 'packages/shared/crm-field-mapping.ts'), 'utf8')).toBe(source);
+    expect(readFileSync(join(repoRoot, 'apps/web/lib/shared/crm-field-mapping.ts'), 'utf8')).toBe(source);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for CSV reading and writing
+ */
+
+import { formatCsv, parseCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('should read quoted fields with commas, quotes and line breaks', () => {
+    const rows = parseCsv('Name,Notes\r\n"Doe, Jane","Said ""hi""\nat the booth"\r\n');
+
+    expect(rows).toEqual([
+      ['Name', 'Notes'],
+      ['Doe, Jane', 'Said "hi"\nat the booth'],
+    ]);
+  });
+
+  it('should strip a byte order mark and skip blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should keep empty trailing fields', () => {
+    expect(parseCsv('a,b,\n')).toEqual([['a', 'b', '']]);
+  });
+});
+
+describe('formatCsv', () => {
+  it('should quote fields that need it and round trip', () => {
+    const rows = [['Name', 'Notes'], ['Doe, Jane', 'Said "hi"\nat the booth']];
+    const csv = formatCsv(rows);
+
+    expect(csv).toBe('Name,Notes\r\n"Doe, Jane","Said ""hi""\nat the booth"\r\n');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+
+  it('should neutralize spreadsheet formulas but not phone numbers', () => {
+    expect(formatCsv([['=HYPERLINK("x")', '+1 (555) 0100']])).toBe('"\'=HYPERLINK(""x"")",+1 (555) 0100\r\n');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for duplicate contact scoring and pair finding
+ */
+
+import type { Contact } from '../../types/contact';
+import {
+  findDuplicateContacts,
+  nameSimilarity,
+  scoreDuplicatePair,
+} from '../duplicateDetection';
+
+function contact(id: string, overrides: Partial<Contact> = {}): Contact {
+  return { id, firstName: '', lastName: '', tags: [], identifiers: [], ...overrides };
+}
+
+describe('scoreDuplicatePair', () => {
+  it('should match emails case-insensitively', () => {
+    const match = scoreDuplicatePair(
+      contact('a', { name: 'Jane Doe', identifiers: [{ type: 'email', value: 'Jane@Acme.com' }] }),
+      contact('b', { name: 'Accounts Team', email: 'jane@acme.com' })
+    );
+
+    expect(match.reasons).toEqual(['email']);
+    expect(match.score).toBe(0.95);
+  });
+
+  it('should match phone numbers written differently', () => {
+    const match = scoreDuplicatePair(
+      contact('a', { name: 'Omar', identifiers: [{ type: 'phone', value: '+1 (415) 555-0100' }] }),
+      contact('b', { name: 'Someone', phone: '415.555.0100' })
+    );
+
+    expect(match.reasons).toEqual(['phone']);
+  });
+
+  it('should match LinkedIn profiles regardless of URL form', () => {
+    const match = scoreDuplicatePair(
+      contact('a', { name: 'Jane Doe', linkedinUrl: 'https://www.linkedin.com/in/janedoe/' }),
+      contact('b', { name: 'Jane Doe', identifiers: [{ type: 'linkedin', value: 'linkedin.com/in/JaneDoe?trk=x' }] })
+    );
+
+    expect(match.reasons).toEqual(['linkedin', 'name']);
+    expect(match.score).toBeGreaterThan(0.95);
+  });
+
+  it('should need the company to back up a fuzzy name match', () => {
+    const sameCompany = scoreDuplicatePair(
+      contact('a', { name: 'Jon Smith', company: 'Acme Inc.' }),
+      contact('b', { name: 'John Smith', company: 'ACME' })
+    );
+    const noCompany = scoreDuplicatePair(
+      contact('a', { name: 'Jon Smith' }),
+      contact('b', { name: 'John Smith' })
+    );
+
+    expect(sameCompany.reasons).toEqual(['name_company']);
+    expect(sameCompany.score).toBeGreaterThanOrEqual(0.6);
+    expect(noCompany.reasons).toEqual(['name']);
+    expect(noCompany.score).toBeLessThan(0.6);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should ignore accents, case and word order', () => {
+    expect(nameSimilarity('José Álvarez', 'jose alvarez')).toBe(1);
+    expect(nameSimilarity('Doe, Jane', 'Jane Doe')).toBe(1);
+    expect(nameSimilarity('Jane Doe', 'Mark Lee')).toBeLessThan(0.6);
+  });
+});
+
+describe('findDuplicateContacts', () => {
+  const contacts = [
+    contact('1', { name: 'Jane Doe', email: 'jane@acme.com', company: 'Acme' }),
+    contact('2', { name: 'Jane Doe', company: 'Acme Inc' }),
+    contact('3', { name: 'Mark Lee', identifiers: [{ type: 'email', value: 'jane@acme.com' }] }),
+    contact('4', { name: 'Priya Patel', phone: '+44 20 7946 0958' }),
+    contact('5', { name: 'Ana Gomez' }),
+  ];
+
+  it('should return likely pairs, best first', () => {
+    const pairs = findDuplicateContacts(contacts);
+
+    expect(pairs.map(pair => [pair.first.id, pair.second.id])).toEqual([
+      ['1', '3'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should leave out dismissed pairs', () => {
+    const pairs = findDuplicateContacts(contacts, { dismissed: ['1|3'] });
+
+    expect(pairs.map(pair => [pair.first.id, pair.second.id])).toEqual([['1', '2']]);
+  });
+
+  it('should handle a large address book', () => {
+    const many = Array.from({ length: 2000 }, (_, i) =>
+      contact(`c${i}`, { name: `Person ${i} Example${i % 97}`, email: `person${i}@example.com` })
+    );
+    many.push(contact('dup', { name: 'Someone Else', email: 'person42@example.com' }));
+
+    const pairs = findDuplicateContacts(many);
+
+    expect(pairs.some(pair => [pair.first.id, pair.second.id].sort().join() === 'c42,dup')).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for events and the contacts met there
+ */
+
+import type { Contact, Interaction, NetworkingEvent } from '../../types/contact';
+import {
+  applyActiveEvent,
+  buildEventStats,
+  describeEventDates,
+  eventContactServerIds,
+  isEventOngoing,
+  linkContactsToEvents,
+  mergeEvents,
+  reconcileEventSync,
+  unqueuedEventSaves,
+  type RemoteEvent,
+} from '../events';
+
+function contact(id: string, overrides: Partial<Contact> = {}): Contact {
+  return { id, firstName: id, lastName: 'Doe', name: `${id} Doe`, tags: [], ...overrides };
+}
+
+function event(id: string, overrides: Partial<NetworkingEvent> = {}): NetworkingEvent {
+  return { id, name: id, startDate: '2025-03-10', createdAt: '2025-03-01T00:00:00.000Z', ...overrides };
+}
+
+function remote(id: string, overrides: Partial<RemoteEvent> = {}): RemoteEvent {
+  return {
+    id,
+    clientId: null,
+    name: id,
+    venue: null,
+    agendaUrl: null,
+    startDate: '2025-03-10',
+    endDate: null,
+    contactIds: [],
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function interaction(contactId: string, date: string): Interaction {
+  return { id: `${contactId}-${date}`, contactId, type: 'call', date, createdAt: `${date}T10:00:00.000Z` };
+}
+
+describe('event dates', () => {
+  it('should describe single and multi-day events', () => {
+    expect(describeEventDates({ startDate: '2025-03-10' })).toBe('2025-03-10');
+    expect(describeEventDates({ startDate: '2025-03-10', endDate: '2025-03-12' })).toBe('2025-03-10 – 2025-03-12');
+  });
+
+  it('should know whether an event is under way', () => {
+    const summit = event('summit', { endDate: '2025-03-12' });
+    expect(isEventOngoing(summit, '2025-03-11')).toBe(true);
+    expect(isEventOngoing(summit, '2025-03-13')).toBe(false);
+    expect(isEventOngoing(event('meetup'), '2025-03-10')).toBe(true);
+  });
+});
+
+describe('applyActiveEvent', () => {
+  const summit = event('e1', { name: 'Web Summit' });
+
+  it('should tag and link a new contact and fill in where and when they were met', () => {
+    const met = applyActiveEvent(contact('ann'), summit, '2025-03-11');
+    expect(met.tags).toEqual(['Web Summit']);
+    expect(met.firstMetEventId).toBe('e1');
+    expect(met.firstMetLocation).toBe('Web Summit');
+    expect(met.firstMetDate).toBe('2025-03-11');
+  });
+
+  it('should keep what is already known and not tag twice', () => {
+    const met = applyActiveEvent(
+      contact('ann', { tags: ['Web Summit'], firstMetLocation: 'Stand B12', firstMetDate: '2025-03-10' }),
+      summit,
+      '2025-03-11'
+    );
+    expect(met.tags).toEqual(['Web Summit']);
+    expect(met.firstMetLocation).toBe('Stand B12');
+    expect(met.firstMetDate).toBe('2025-03-10');
+  });
+});
+
+describe('buildEventStats', () => {
+  it('should count contacts met and followed up at each event', () => {
+    const events = [event('e1'), event('e2')];
+    const contacts = [
+      contact('ann', { firstMetEventId: 'e1', firstMetDate: '2025-03-10' }),
+      contact('bob', { firstMetEventId: 'e1', firstMetDate: '2025-03-10', nextFollowupDate: '2025-03-20' }),
+      contact('cat', { firstMetEventId: 'e1', firstMetDate: '2025-03-10', lastInteractionDate: '2025-03-15' }),
+      contact('dan', { firstMetEventId: 'gone' }),
+      contact('eve'),
+    ];
+    // Talking on the day they were met is not a follow-up
+    const interactions = [interaction('ann', '2025-03-14'), interaction('bob', '2025-03-10')];
+
+    expect(buildEventStats(events, contacts, interactions)).toEqual({
+      e1: { contactsMet: 3, followUpsDone: 2, followUpsScheduled: 1 },
+      e2: { contactsMet: 0, followUpsDone: 0, followUpsScheduled: 0 },
+    });
+  });
+});
+
+describe('eventContactServerIds', () => {
+  it('should list only uploaded contacts met at the event', () => {
+    const contacts = [
+      contact('ann', { firstMetEventId: 'e1', serverId: 's-ann' }),
+      contact('bob', { firstMetEventId: 'e1' }),
+      contact('cat', { firstMetEventId: 'e2', serverId: 's-cat' }),
+    ];
+    expect(eventContactServerIds(event('e1'), contacts)).toEqual(['s-ann']);
+  });
+});
+
+describe('mergeEvents', () => {
+  it('should take the server copy of synced events and keep local changes waiting to upload', () => {
+    const local = [
+      event('e1', { name: 'Old name', serverId: 's1', syncStatus: 'synced' }),
+      event('e2', { name: 'Renamed here', serverId: 's2', syncStatus: 'pending' }),
+      event('e3', { startDate: '2025-03-01', syncStatus: 'pending' }),
+      event('e4', { serverId: 's4', syncStatus: 'synced' }),
+    ];
+    const merged = mergeEvents(local, [
+      remote('s1', { name: 'New name', venue: 'Lisbon' }),
+      remote('s2', { name: 'Renamed there' }),
+      remote('s5', { clientId: 'e5', name: 'From another device', startDate: '2025-04-01' }),
+    ]);
+
+    expect(merged.map((e) => [e.id, e.name])).toEqual([
+      ['e5', 'From another device'],
+      ['e1', 'New name'],
+      ['e2', 'Renamed here'],
+      ['e3', 'e3'],
+    ]);
+    expect(merged[1]).toMatchObject({ serverId: 's1', venue: 'Lisbon', syncStatus: 'synced' });
+    expect(merged[2].serverId).toBe('s2');
+  });
+
+  it('should leave out events deleted here and server events without dates', () => {
+    const merged = mergeEvents([], [remote('s1'), remote('s2', { clientId: 'e2' }), remote('s3', { startDate: null })], ['s1', 'e2']);
+    expect(merged).toEqual([]);
+  });
+});
+
+describe('linkContactsToEvents', () => {
+  it('should link uploaded contacts to the events the server has them at', () => {
+    const events = [event('e1', { name: 'Web Summit', serverId: 's1' })];
+    const contacts = [contact('ann', { serverId: 's-ann' }), contact('bob', { serverId: 's-bob' }), contact('cat')];
+    const linked = linkContactsToEvents(contacts, events, [remote('s1', { contactIds: ['s-ann'] })]);
+
+    expect(linked[0]).toMatchObject({
+      firstMetEventId: 'e1',
+      firstMetLocation: 'Web Summit',
+      firstMetDate: '2025-03-10',
+      tags: ['Web Summit'],
+    });
+    expect(linked[1]).toBe(contacts[1]);
+    expect(linked[2]).toBe(contacts[2]);
+  });
+
+  it('should return the same array when nothing changes', () => {
+    const events = [event('e1', { serverId: 's1' })];
+    const contacts = [contact('ann', { serverId: 's-ann', firstMetEventId: 'e1' })];
+    expect(linkContactsToEvents(contacts, events, [remote('s1', { contactIds: ['s-ann'] })])).toBe(contacts);
+  });
+});
+
+describe('reconcileEventSync', () => {
+  it('should mark events synced once their save has left the queue', () => {
+    const events = [event('e1', { syncStatus: 'pending', serverId: 's1' }), event('e2', { syncStatus: 'pending' })];
+    const reconciled = reconcileEventSync(events, [
+      { type: 'save_event', payload: { event: { id: 'e2' } }, status: 'failed' },
+    ]);
+    expect(reconciled.map((e) => e.syncStatus)).toEqual(['synced', 'failed']);
+    expect(reconcileEventSync(reconciled, [
+      { type: 'save_event', payload: { event: { id: 'e2' } }, status: 'failed' },
+    ])).toBe(reconciled);
+  });
+
+  it('should take the server IDs of saves the queue just uploaded', () => {
+    const reconciled = reconcileEventSync([event('e1', { syncStatus: 'pending' })], [], { e1: 's1' });
+    expect(reconciled[0]).toMatchObject({ syncStatus: 'synced', serverId: 's1' });
+  });
+
+  it('should keep events pending that left the queue without reaching the server', () => {
+    const events = [event('e1', { syncStatus: 'pending' }), event('e2', { syncStatus: 'failed' })];
+    const reconciled = reconcileEventSync(events, []);
+    expect(reconciled.map((e) => e.syncStatus)).toEqual(['pending', 'pending']);
+    expect(unqueuedEventSaves(reconciled, []).map((e) => e.id)).toEqual(['e1', 'e2']);
+    expect(unqueuedEventSaves(reconciled, [
+      { type: 'save_event', payload: { event: { id: 'e2' } }, status: 'pending' },
+    ]).map((e) => e.id)).toEqual(['e1']);
+  });
+});
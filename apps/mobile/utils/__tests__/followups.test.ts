@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for follow-up reminder helpers
+ */
+
+import type { Contact } from '../../types/contact';
+import {
+  MAX_SCHEDULED_REMINDERS,
+  REMINDER_HOUR,
+  addDays,
+  cadenceLabel,
+  completeFollowup,
+  describeFollowup,
+  dueFollowups,
+  followupStatus,
+  planFollowupReminders,
+  snoozeFollowup,
+} from '../followups';
+
+function contact(id: string, overrides: Partial<Contact> = {}): Contact {
+  return {
+    id,
+    firstName: 'Jane',
+    lastName: id,
+    tags: [],
+    ...overrides,
+  };
+}
+
+const today = '2025-03-10';
+
+describe('addDays', () => {
+  it('should cross month and year boundaries', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2024-12-25', 90)).toBe('2025-03-25');
+    expect(addDays('2025-03-10', -10)).toBe('2025-02-28');
+  });
+});
+
+describe('followupStatus', () => {
+  it('should compare the follow-up date with today', () => {
+    expect(followupStatus(contact('a'), today)).toBeNull();
+    expect(followupStatus(contact('a', { nextFollowupDate: '2025-03-01' }), today)).toBe('overdue');
+    expect(followupStatus(contact('a', { nextFollowupDate: today }), today)).toBe('due');
+    expect(followupStatus(contact('a', { nextFollowupDate: '2025-03-11' }), today)).toBe('upcoming');
+  });
+});
+
+describe('dueFollowups', () => {
+  const contacts = [
+    contact('later', { nextFollowupDate: '2025-03-15' }),
+    contact('today', { nextFollowupDate: today }),
+    contact('none'),
+    contact('overdue', { nextFollowupDate: '2025-03-07' }),
+  ];
+
+  it('should list due and overdue follow-ups, most overdue first', () => {
+    const due = dueFollowups(contacts, today);
+
+    expect(due.map(f => f.contact.id)).toEqual(['overdue', 'today']);
+    expect(due[0]).toMatchObject({ status: 'overdue', daysOverdue: 3 });
+    expect(due[1]).toMatchObject({ status: 'due', daysOverdue: 0 });
+  });
+
+  it('should look ahead when asked to', () => {
+    const due = dueFollowups(contacts, today, 7);
+
+    expect(due.map(f => f.contact.id)).toEqual(['overdue', 'today', 'later']);
+    expect(due[2]).toMatchObject({ status: 'upcoming', daysOverdue: -5 });
+  });
+});
+
+describe('describeFollowup', () => {
+  it('should word each status', () => {
+    expect(describeFollowup({ status: 'due', daysOverdue: 0 })).toBe('Due today');
+    expect(describeFollowup({ status: 'overdue', daysOverdue: 1 })).toBe('1 day overdue');
+    expect(describeFollowup({ status: 'overdue', daysOverdue: 12 })).toBe('12 days overdue');
+    expect(describeFollowup({ status: 'upcoming', daysOverdue: -1 })).toBe('Due tomorrow');
+    expect(describeFollowup({ status: 'upcoming', daysOverdue: -4 })).toBe('Due in 4 days');
+  });
+});
+
+describe('cadenceLabel', () => {
+  it('should use the preset label or fall back to a day count', () => {
+    expect(cadenceLabel(90)).toBe('Every 90 days');
+    expect(cadenceLabel(undefined)).toBe('Once');
+    expect(cadenceLabel(45)).toBe('Every 45 days');
+  });
+});
+
+describe('completeFollowup', () => {
+  it('should clear a one-off follow-up', () => {
+    expect(completeFollowup(contact('a', { nextFollowupDate: '2025-03-01' }), today)).toEqual({
+      nextFollowupDate: undefined,
+      followupCadenceDays: undefined,
+    });
+  });
+
+  it('should schedule the next recurring follow-up from the day it was done', () => {
+    const overdue = contact('a', { nextFollowupDate: '2025-03-01', followupCadenceDays: 90 });
+
+    expect(completeFollowup(overdue, today)).toEqual({
+      nextFollowupDate: '2025-06-08',
+      followupCadenceDays: 90,
+    });
+  });
+});
+
+describe('snoozeFollowup', () => {
+  it('should move the date and keep the cadence', () => {
+    const due = contact('a', { nextFollowupDate: today, followupCadenceDays: 30 });
+
+    expect(snoozeFollowup(due, 7, today)).toEqual({
+      nextFollowupDate: '2025-03-17',
+      followupCadenceDays: 30,
+    });
+  });
+});
+
+describe('planFollowupReminders', () => {
+  const now = new Date(2025, 2, 10, 12, 0);
+
+  it('should schedule future follow-ups at the reminder hour, soonest first', () => {
+    const reminders = planFollowupReminders([
+      contact('b', { nextFollowupDate: '2025-04-01', company: 'Acme', followupCadenceDays: 90 }),
+      contact('a', { nextFollowupDate: '2025-03-11' }),
+      contact('past', { nextFollowupDate: '2025-03-01' }),
+      contact('today', { nextFollowupDate: today }),
+      contact('none'),
+    ], now);
+
+    expect(reminders.map(r => r.contactId)).toEqual(['a', 'b']);
+    expect(reminders[0].date).toEqual(new Date(2025, 2, 11, REMINDER_HOUR, 0));
+    expect(reminders[0]).toMatchObject({
+      identifier: 'followup-a',
+      title: 'Follow up with Jane a',
+      body: 'Time to get back in touch',
+    });
+    expect(reminders[1].body).toBe('Acme · every 90 days');
+  });
+
+  it('should stay under the platform limit on pending notifications', () => {
+    const contacts = Array.from({ length: MAX_SCHEDULED_REMINDERS + 10 }, (_, index) =>
+      contact(`c${index}`, { nextFollowupDate: addDays(today, index + 1) })
+    );
+
+    expect(planFollowupReminders(contacts, now)).toHaveLength(MAX_SCHEDULED_REMINDERS);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for interaction timeline helpers
+ */
+
+import type { Contact, Interaction } from '../../types/contact';
+import {
+  applyConnectionScore,
+  applyDeletedInteraction,
+  applyLoggedInteraction,
+  contactTimeline,
+  isValidInteractionDate,
+  reconcileInteractionSync,
+  todayDate,
+} from '../interactions';
+
+const contact: Contact = {
+  id: 'c1',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  name: 'Jane Doe',
+  tags: [],
+  totalInteractions: 3,
+  lastInteractionDate: '2025-03-01',
+  lastInteraction: Date.parse('2025-03-01'),
+};
+
+function interaction(id: string, date: string, overrides: Partial<Interaction> = {}): Interaction {
+  return {
+    id,
+    contactId: 'c1',
+    type: 'meeting',
+    date,
+    createdAt: `${date}T12:00:00.000Z`,
+    ...overrides,
+  };
+}
+
+describe('contactTimeline', () => {
+  it('should return only the contact\'s interactions, newest first', () => {
+    const timeline = contactTimeline([
+      interaction('a', '2025-01-10'),
+      interaction('b', '2025-02-01', { contactId: 'c2' }),
+      interaction('c', '2025-03-05'),
+      interaction('d', '2025-03-05', { createdAt: '2025-03-05T18:00:00.000Z' }),
+    ], 'c1');
+
+    expect(timeline.map(i => i.id)).toEqual(['d', 'c', 'a']);
+  });
+});
+
+describe('applyLoggedInteraction', () => {
+  it('should count the interaction and move the last interaction date forward', () => {
+    const updated = applyLoggedInteraction(contact, interaction('a', '2025-04-02'));
+
+    expect(updated.totalInteractions).toBe(4);
+    expect(updated.lastInteractionDate).toBe('2025-04-02');
+    expect(updated.lastInteraction).toBe(Date.parse('2025-04-02'));
+  });
+
+  it('should keep a later last interaction date when backfilling history', () => {
+    const updated = applyLoggedInteraction(contact, interaction('a', '2024-12-24'));
+
+    expect(updated.totalInteractions).toBe(4);
+    expect(updated.lastInteractionDate).toBe('2025-03-01');
+    expect(updated.lastInteraction).toBe(contact.lastInteraction);
+  });
+
+  it('should start counting from zero', () => {
+    const fresh: Contact = { id: 'c1', firstName: 'Jo', lastName: '', tags: [] };
+    const updated = applyLoggedInteraction(fresh, interaction('a', '2025-01-01'));
+
+    expect(updated.totalInteractions).toBe(1);
+    expect(updated.lastInteractionDate).toBe('2025-01-01');
+  });
+});
+
+describe('applyDeletedInteraction', () => {
+  it('should fall back to the newest remaining interaction', () => {
+    const latest = interaction('b', '2025-04-02');
+    const logged = applyLoggedInteraction(contact, latest);
+    const updated = applyDeletedInteraction(logged, latest, [interaction('a', '2025-03-20')]);
+
+    expect(updated.totalInteractions).toBe(3);
+    expect(updated.lastInteractionDate).toBe('2025-03-20');
+  });
+
+  it('should keep the date when another interaction happened the same day', () => {
+    const updated = applyDeletedInteraction(contact, interaction('b', '2025-03-01'), [interaction('a', '2025-03-01')]);
+
+    expect(updated.lastInteractionDate).toBe('2025-03-01');
+  });
+
+  it('should leave a last interaction date that came from elsewhere', () => {
+    const updated = applyDeletedInteraction(contact, interaction('b', '2025-01-15'), []);
+
+    expect(updated.totalInteractions).toBe(2);
+    expect(updated.lastInteractionDate).toBe('2025-03-01');
+  });
+
+  it('should never count below zero', () => {
+    const updated = applyDeletedInteraction({ ...contact, totalInteractions: 0 }, interaction('b', '2025-01-15'), []);
+
+    expect(updated.totalInteractions).toBe(0);
+  });
+});
+
+describe('applyConnectionScore', () => {
+  const now = new Date('2025-03-02T12:00:00');
+  const timeline = [interaction('i1', '2025-03-01'), interaction('i2', '2025-02-15'), interaction('i3', '2025-02-01')];
+
+  it('should store the score and move the level with it', () => {
+    const updated = applyConnectionScore({ ...contact, connectionStrength: 'Weak' }, timeline, now);
+
+    expect(updated.connectionScore).toBeGreaterThanOrEqual(60);
+    expect(updated.connectionStrength).toBe('Strong');
+    expect(updated.connectionScoreFactors).toHaveLength(4);
+  });
+
+  it('should keep a locked level but still update the score', () => {
+    const updated = applyConnectionScore(
+      { ...contact, connectionStrength: 'Weak', connectionStrengthLocked: true },
+      timeline,
+      now
+    );
+
+    expect(updated.connectionStrength).toBe('Weak');
+    expect(updated.connectionScore).toBeGreaterThanOrEqual(60);
+  });
+});
+
+describe('reconcileInteractionSync', () => {
+  it('should mark uploads that left the queue as synced', () => {
+    const interactions = [
+      interaction('a', '2025-01-01', { syncStatus: 'pending' }),
+      interaction('b', '2025-01-02', { syncStatus: 'pending' }),
+      interaction('c', '2025-01-03', { syncStatus: 'pending' }),
+      interaction('d', '2025-01-04', { syncStatus: 'synced' }),
+    ];
+    const reconciled = reconcileInteractionSync(interactions, [
+      { type: 'add_interaction', payload: { interaction: { id: 'b' } }, status: 'pending' },
+      { type: 'add_interaction', payload: { interaction: { id: 'c' } }, status: 'failed' },
+      { type: 'edit_contact', payload: { id: 'a' }, status: 'pending' },
+    ]);
+
+    expect(reconciled.map(i => i.syncStatus)).toEqual(['synced', 'pending', 'failed', 'synced']);
+  });
+
+  it('should return the same array when nothing changed', () => {
+    const interactions = [interaction('a', '2025-01-01', { syncStatus: 'pending' })];
+    const queue = [{ type: 'add_interaction' as const, payload: { interaction: { id: 'a' } }, status: 'pending' as const }];
+
+    expect(reconcileInteractionSync(interactions, queue)).toBe(interactions);
+  });
+});
+
+describe('dates', () => {
+  it('should format today in local time', () => {
+    expect(todayDate(new Date(2025, 0, 5, 23, 30))).toBe('2025-01-05');
+  });
+
+  it('should accept only YYYY-MM-DD dates', () => {
+    expect(isValidInteractionDate('2025-02-28')).toBe(true);
+    expect(isValidInteractionDate('2025-13-01')).toBe(false);
+    expect(isValidInteractionDate('28/02/2025')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the contact search index
+ */
+
+import type { Contact } from '../../types/contact';
+import { ContactSearchIndex, editDistance, phoneticKey } from '../searchIndex';
+import { highlightTerms, parseSearchQuery, rankContacts, termsForField } from '../searchQuery';
+
+function contact(id: string, name: string, overrides: Partial<Contact> = {}): Contact {
+  const [firstName, ...rest] = name.split(' ');
+  return { id, firstName, lastName: rest.join(' '), name, tags: [], ...overrides };
+}
+
+function search(index: ContactSearchIndex, contacts: Contact[], query: string): string[] {
+  index.sync(contacts);
+  return rankContacts(contacts, parseSearchQuery(query), { index, today: '2025-03-10' }).map(c => c.id);
+}
+
+describe('editDistance', () => {
+  it('should count an adjacent swap as one edit', () => {
+    expect(editDistance('jonh', 'john', 2)).toBe(1);
+    expect(editDistance('micheal', 'michael', 2)).toBe(1);
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+  });
+
+  it('should stop counting past the limit', () => {
+    expect(editDistance('alexander', 'bob', 1)).toBe(2);
+    expect(editDistance('abcdef', 'uvwxyz', 2)).toBe(3);
+  });
+});
+
+describe('phoneticKey', () => {
+  it('should give similar-sounding names the same key', () => {
+    expect(phoneticKey('Steven')).toBe(phoneticKey('Stephen'));
+    expect(phoneticKey('Jon')).toBe(phoneticKey('John'));
+    expect(phoneticKey('Catherine')).toBe(phoneticKey('Kathryn'));
+    expect(phoneticKey('Sean')).toBe(phoneticKey('Shawn'));
+    expect(phoneticKey('Mark')).not.toBe(phoneticKey('Mike'));
+  });
+});
+
+describe('ContactSearchIndex', () => {
+  const contacts = [
+    contact('john', 'John Smith', { company: 'Acme Corp' }),
+    contact('michael', 'Michael Brown', { tags: ['investor'] }),
+    contact('catherine', 'Catherine Zeta', { notes: 'Knows John from Acme' }),
+    contact('steve', 'Stephen Fry', { email: 'stephen@fry.example', phone: '+44 20 7946 0018' }),
+  ];
+
+  it('should match word prefixes, ranking exact words first', () => {
+    const index = new ContactSearchIndex();
+
+    expect(search(index, contacts, 'acme')).toEqual(['john', 'catherine']);
+    expect(search(index, contacts, 'mich')).toEqual(['michael']);
+    expect(search(index, contacts, 'inv')).toEqual(['michael']);
+  });
+
+  it('should tolerate typos', () => {
+    const index = new ContactSearchIndex();
+
+    expect(search(index, contacts, 'Jonh')).toEqual(['john', 'catherine']);
+    expect(search(index, contacts, 'Micheal')).toEqual(['michael']);
+    expect(search(index, contacts, 'invester')).toEqual(['michael']);
+  });
+
+  it('should match names that sound alike', () => {
+    const index = new ContactSearchIndex();
+
+    expect(search(index, contacts, 'Kathryn')).toEqual(['catherine']);
+    expect(search(index, contacts, 'steven')).toEqual(['steve']);
+  });
+
+  it('should find phone numbers by any run of digits', () => {
+    const index = new ContactSearchIndex();
+
+    expect(search(index, contacts, '7946')).toEqual(['steve']);
+    expect(search(index, contacts, '02079460018')).toEqual([]);
+    expect(search(index, contacts, '2079460018')).toEqual(['steve']);
+  });
+
+  it('should keep the query language on top of the index', () => {
+    const index = new ContactSearchIndex();
+
+    expect(search(index, contacts, 'jonh -company:acme')).toEqual(['catherine']);
+    expect(search(index, contacts, 'Micheal OR Kathryn')).toEqual(['michael', 'catherine']);
+  });
+
+  it('should re-index only contacts that changed and drop deleted ones', () => {
+    const index = new ContactSearchIndex();
+    index.sync(contacts);
+    const update = jest.spyOn(index, 'update');
+
+    const renamed = { ...contacts[1], name: 'Robert Brown', firstName: 'Robert' };
+    const next = [contacts[0], renamed, contacts[3]];
+    expect(search(index, next, 'michael')).toEqual([]);
+    expect(search(index, next, 'robert')).toEqual(['michael']);
+    expect(search(index, next, 'catherine')).toEqual([]);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(index.size).toBe(3);
+  });
+
+  it('should highlight the words a typo matched', () => {
+    const index = new ContactSearchIndex();
+    index.sync(contacts);
+
+    expect(termsForField(highlightTerms(parseSearchQuery('jonh'), index), 'name')).toEqual(['jonh', 'john']);
+  });
+});
+
+describe('20k contact benchmark', () => {
+  const FIRST = ['John', 'Michael', 'Catherine', 'Stephen', 'Maria', 'Wei', 'Aisha', 'Lucas', 'Sofia', 'Noah', 'Olga', 'Ravi'];
+  const LAST = ['Smith', 'Garcia', 'Nguyen', 'Müller', 'Okafor', 'Rossi', 'Tanaka', 'Kowalski', 'Silva', 'Cohen'];
+  const COMPANIES = ['Acme', 'Globex', 'Initech', 'Umbrella', 'Hooli', 'Stark Industries', 'Wayne Enterprises', 'Soylent'];
+  const TAGS = ['investor', 'client', 'founder', 'recruiter', 'speaker', 'partner'];
+
+  // Deterministic pseudo-random picks so runs are comparable
+  let seed = 42;
+  const pick = <T,>(items: T[]): T => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return items[seed % items.length];
+  };
+
+  const contacts = Array.from({ length: 20000 }, (_, i) => {
+    const name = `${pick(FIRST)} ${pick(LAST)}${i}`;
+    return contact(`c${i}`, name, {
+      company: pick(COMPANIES),
+      tags: [pick(TAGS)],
+      email: `user${i}@example.com`,
+      notes: `Met at ${pick(COMPANIES)} meetup`,
+    });
+  });
+
+  function timed(run: () => void): number {
+    const start = Date.now();
+    run();
+    return Date.now() - start;
+  }
+
+  it('should build, search and update within interactive budgets', () => {
+    const index = new ContactSearchIndex();
+    const buildMs = timed(() => index.sync(contacts));
+
+    const queries = ['jonh', 'micheal', 'kathryn', 'acme', 'inv', 'j', 'stephen company:globex'];
+    const searchMs = queries.map(query => timed(() => {
+      rankContacts(contacts, parseSearchQuery(query), { index });
+    }));
+
+    const edited = contacts.slice();
+    edited[500] = { ...edited[500], company: 'Renamed Co' };
+    const resyncMs = timed(() => index.sync(edited));
+
+    expect(index.size).toBe(20000);
+    expect(buildMs).toBeLessThan(5000);
+    expect(Math.max(...searchMs)).toBeLessThan(1000);
+    expect(resyncMs).toBeLessThan(200);
+    expect(rankContacts(edited, parseSearchQuery('renamed'), { index }).map(c => c.id)).toEqual(['c500']);
+  });
+});
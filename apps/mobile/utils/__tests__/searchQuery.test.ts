@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for the contact search query language
+ */
+
+import type { Contact } from '../../types/contact';
+import {
+  completeQuery,
+  highlightTerms,
+  matchesQuery,
+  parseSearchQuery,
+  rankContacts,
+  splitHighlights,
+  termsForField,
+} from '../searchQuery';
+
+function contact(id: string, overrides: Partial<Contact> = {}): Contact {
+  return {
+    id,
+    firstName: id,
+    lastName: 'Doe',
+    name: `${id} Doe`,
+    tags: [],
+    ...overrides,
+  };
+}
+
+const today = '2025-03-10';
+
+function search(contacts: Contact[], query: string): string[] {
+  return rankContacts(contacts, parseSearchQuery(query), { today }).map(c => c.id);
+}
+
+const people = [
+  contact('Ana', { company: 'Acme Corp', tags: ['work'], city: 'Paris', firstMetDate: '2024-11-02' }),
+  contact('Ben', { company: 'Globex', tags: ['client', 'cold'], city: 'New York', firstMetDate: '2025-02-14' }),
+  contact('Cleo', { title: 'Product Lead', tags: ['client'], nextFollowupDate: '2025-03-01' }),
+  contact('Dan', { company: 'Acme', notes: 'Met Ana at a product meetup', nextFollowupDate: '2025-04-01' }),
+];
+
+describe('parseSearchQuery', () => {
+  it('should have no root for an empty or operator-only query', () => {
+    expect(parseSearchQuery('').root).toBeNull();
+    expect(parseSearchQuery('  OR ( ) NOT ').root).toBeNull();
+  });
+
+  it('should drop terms it cannot use and say why', () => {
+    const parsed = parseSearchQuery('met:someday strength:huge tag:');
+
+    expect(parsed.root).toBeNull();
+    expect(parsed.errors).toHaveLength(2);
+  });
+
+  it('should tolerate unbalanced parentheses', () => {
+    expect(search(people, '(tag:client OR tag:work')).toEqual(['Ana', 'Ben', 'Cleo']);
+    expect(search(people, 'tag:client) city:paris')).toEqual([]);
+  });
+});
+
+describe('matching', () => {
+  it('should AND terms unless joined by OR', () => {
+    expect(search(people, 'tag:client city:"new york"')).toEqual(['Ben']);
+    expect(search(people, 'tag:work OR tag:client')).toEqual(['Ana', 'Ben', 'Cleo']);
+  });
+
+  it('should bind AND tighter than OR and group with parentheses', () => {
+    expect(search(people, 'company:globex OR tag:client title:lead')).toEqual(['Ben', 'Cleo']);
+    expect(search(people, '(company:globex OR tag:client) -tag:cold')).toEqual(['Cleo']);
+  });
+
+  it('should negate with a leading dash or NOT', () => {
+    expect(search(people, 'tag:client -tag:cold')).toEqual(['Cleo']);
+    expect(search(people, 'tag:client NOT tag:cold')).toEqual(['Cleo']);
+    expect(search(people, 'NOT (company:acme OR tag:client)')).toEqual([]);
+  });
+
+  it('should match quoted phrases as a whole', () => {
+    expect(search(people, '"product meetup"')).toEqual(['Dan']);
+    expect(search(people, '"meetup product"')).toEqual([]);
+  });
+
+  it('should ignore case and accents', () => {
+    const people = [contact('Zoé', { city: 'Montréal' })];
+
+    expect(search(people, 'zoe city:montreal')).toEqual(['Zoé']);
+  });
+
+  it('should treat an unknown field prefix as plain text', () => {
+    const people = [contact('Eve', { notes: 'ref:1234' })];
+
+    expect(search(people, 'ref:1234')).toEqual(['Eve']);
+  });
+
+  it('should compare dates against periods and ranges', () => {
+    expect(search(people, 'met:>2025-01-01')).toEqual(['Ben']);
+    expect(search(people, 'met:2024')).toEqual(['Ana']);
+    expect(search(people, 'met:<2025-02')).toEqual(['Ana']);
+    expect(search(people, 'met:<=2025-02')).toEqual(['Ana', 'Ben']);
+    expect(search(people, 'met:2024-11..2025-01')).toEqual(['Ana']);
+    expect(search(people, 'met:none')).toEqual(['Cleo', 'Dan']);
+  });
+
+  it('should understand follow-up keywords relative to today', () => {
+    expect(search(people, 'followup:overdue')).toEqual(['Cleo']);
+    expect(search(people, 'followup:upcoming')).toEqual(['Dan']);
+    expect(search(people, 'followup:any')).toEqual(['Cleo', 'Dan']);
+  });
+
+  it('should check enum fields', () => {
+    const people = [
+      contact('Fay', { starred: true, connectionStrength: 'Strong', email: 'fay@example.com' }),
+      contact('Gus', { connectionStrength: 'Weak', identifiers: [{ type: 'phone', value: '+1 555 0100' }] }),
+    ];
+
+    expect(search(people, 'is:starred')).toEqual(['Fay']);
+    expect(search(people, 'strength:weak has:phone')).toEqual(['Gus']);
+    expect(search(people, 'has:email')).toEqual(['Fay']);
+    expect(search(people, 'phone:5550100')).toEqual(['Gus']);
+  });
+
+  it('should match everything for an empty query', () => {
+    expect(matchesQuery(people[0], parseSearchQuery(''), { today })).toBe(true);
+  });
+});
+
+describe('ranking', () => {
+  it('should rank name hits above company hits above notes hits', () => {
+    const people = [
+      contact('Zed', { notes: 'Introduced by Acme' }),
+      contact('Yan', { company: 'Acme' }),
+      contact('Acme', { name: 'Acme Smith' }),
+    ];
+
+    expect(search(people, 'acme')).toEqual(['Acme', 'Yan', 'Zed']);
+  });
+
+  it('should rank whole and word-start matches above partial ones', () => {
+    const people = [
+      contact('One', { company: 'Metacme' }),
+      contact('Two', { company: 'Acme Labs' }),
+      contact('Three', { company: 'Acme' }),
+    ];
+
+    expect(search(people, 'acme')).toEqual(['Three', 'Two', 'One']);
+  });
+});
+
+describe('highlighting', () => {
+  it('should collect positive text terms per field', () => {
+    const highlights = highlightTerms(parseSearchQuery('ana company:acme -tag:cold met:2024'));
+
+    expect(termsForField(highlights, 'company')).toEqual(['ana', 'acme']);
+    expect(termsForField(highlights, 'tag')).toEqual(['ana']);
+  });
+
+  it('should split text into matched runs, keeping the original accents', () => {
+    expect(splitHighlights('José Acme', ['jose', 'ACME'])).toEqual([
+      { text: 'José', match: true },
+      { text: ' ', match: false },
+      { text: 'Acme', match: true },
+    ]);
+    expect(splitHighlights('Banana', ['an'])).toEqual([
+      { text: 'B', match: false },
+      { text: 'anan', match: true },
+      { text: 'a', match: false },
+    ]);
+  });
+});
+
+describe('completeQuery', () => {
+  const sources = {
+    tags: ['work', 'client'],
+    groups: ['Web Summit'],
+    companies: ['Acme Corp'],
+    cities: ['New York', 'Paris'],
+  };
+
+  it('should complete field names and known values for a bare word', () => {
+    const texts = completeQuery('co', sources).map(c => c.text);
+
+    expect(texts).toContain('company:');
+    expect(texts).toContain('country:');
+    expect(texts).toContain('company:"Acme Corp"');
+  });
+
+  it('should complete a field value, quoting values with spaces', () => {
+    expect(completeQuery('tag:work city:ne', sources).map(c => c.text)).toEqual(['tag:work city:"New York"']);
+    expect(completeQuery('-tag:c', sources)[0]).toMatchObject({ text: '-tag:client', kind: 'value' });
+  });
+
+  it('should complete the keywords of date and enum fields', () => {
+    expect(completeQuery('followup:ov', sources).map(c => c.text)).toEqual(['followup:overdue']);
+    expect(completeQuery('strength:', sources).map(c => c.label)).toEqual([
+      'strength:strong',
+      'strength:medium',
+      'strength:weak',
+    ]);
+  });
+
+  it('should offer OR between terms', () => {
+    const completions = completeQuery('tag:work ', sources);
+
+    expect(completions[0]).toMatchObject({ text: 'tag:work OR ', kind: 'operator' });
+    expect(completions[1]).toMatchObject({ text: 'tag:work name:', kind: 'field' });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for contact filters and smart lists
+ */
+
+import type { Contact, SavedSearch } from '../../types/contact';
+import {
+  applyContactFilters,
+  buildSmartLists,
+  describeFilters,
+  hasActiveFilters,
+  mergeSavedSearches,
+  reconcileSavedSearchSync,
+  unqueuedSavedSearches,
+  type RemoteSavedSearch,
+} from '../smartLists';
+
+function contact(id: string, overrides: Partial<Contact> = {}): Contact {
+  return { id, firstName: id, lastName: 'Doe', name: `${id} Doe`, tags: [], ...overrides };
+}
+
+function saved(id: string, overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return { id, name: id, filters: { query: '' }, createdAt: '2025-03-01T00:00:00.000Z', ...overrides };
+}
+
+function remote(id: string, overrides: Partial<RemoteSavedSearch> = {}): RemoteSavedSearch {
+  return {
+    id,
+    clientId: null,
+    name: id,
+    filters: { query: '' },
+    pinned: false,
+    hubspotListId: null,
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const now = Date.parse('2025-03-10T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const people = [
+  contact('Ana', { company: 'Acme Corp', tags: ['investor'], starred: true, email: 'ana@acme.example' }),
+  contact('Ben', { company: 'Globex', tags: ['client'], identifiers: [{ type: 'phone', value: '+1 555 0100' }] }),
+  contact('Cleo', { company: 'Acme', tags: ['client', 'investor'], groups: ['Web Summit'], lastInteraction: now - 2 * DAY }),
+];
+
+function ids(contacts: Contact[]): string[] {
+  return contacts.map(c => c.id);
+}
+
+describe('applyContactFilters', () => {
+  it('should combine the search query with the structured filters', () => {
+    expect(ids(applyContactFilters(people, { query: 'company:acme' }))).toEqual(['Cleo', 'Ana']);
+    expect(ids(applyContactFilters(people, { query: 'company:acme', starred: true }))).toEqual(['Ana']);
+    expect(ids(applyContactFilters(people, { query: '', tags: ['client'], company: 'acme' }))).toEqual(['Cleo']);
+  });
+
+  it('should find emails and phones outside the identifiers list', () => {
+    expect(ids(applyContactFilters(people, { query: '', hasEmail: true }))).toEqual(['Ana']);
+    expect(ids(applyContactFilters(people, { query: '', hasPhone: true }))).toEqual(['Ben']);
+  });
+
+  it('should filter by group and recent interaction', () => {
+    expect(ids(applyContactFilters(people, { query: '', group: 'Web Summit' }))).toEqual(['Cleo']);
+    expect(ids(applyContactFilters(people, { query: '', recentInteraction: true }, { now }))).toEqual(['Cleo']);
+  });
+
+  it('should sort when asked, instead of ranking', () => {
+    const sorted = applyContactFilters(people, { query: '', sortBy: 'company', sortOrder: 'desc' });
+
+    expect(ids(sorted)).toEqual(['Ben', 'Ana', 'Cleo']);
+  });
+});
+
+describe('describing filters', () => {
+  it('should know when filters are worth saving', () => {
+    expect(hasActiveFilters({ query: '  ' })).toBe(false);
+    expect(hasActiveFilters({ query: '', tags: [] })).toBe(false);
+    expect(hasActiveFilters({ query: '', hasLinkedIn: true })).toBe(true);
+  });
+
+  it('should summarise them for the list card', () => {
+    expect(describeFilters({ query: 'tag:client', starred: true, hasEmail: true })).toBe('"tag:client" · Starred · Has email');
+    expect(describeFilters({ query: '' })).toBe('All contacts');
+  });
+});
+
+describe('buildSmartLists', () => {
+  it('should count the contacts each list matches now, pinned lists first', () => {
+    const searches = [
+      saved('investors', { filters: { query: 'tag:investor' } }),
+      saved('acme', { filters: { query: '', company: 'acme' }, pinned: true, createdAt: '2025-03-05T00:00:00.000Z' }),
+    ];
+
+    expect(buildSmartLists(people, searches).map(l => [l.search.id, l.count])).toEqual([['acme', 2], ['investors', 2]]);
+
+    const withNewInvestor = [...people, contact('Dan', { tags: ['investor'] })];
+    expect(buildSmartLists(withNewInvestor, searches)[1].count).toBe(3);
+  });
+});
+
+describe('mergeSavedSearches', () => {
+  it('should take the server version of lists both sides know', () => {
+    const local = [saved('s1', { serverId: 'r1', name: 'Old name', syncStatus: 'synced' })];
+    const merged = mergeSavedSearches(local, [remote('r1', { clientId: 's1', name: 'Renamed', pinned: true })]);
+
+    expect(merged).toEqual([expect.objectContaining({ id: 's1', serverId: 'r1', name: 'Renamed', pinned: true, syncStatus: 'synced' })]);
+  });
+
+  it('should keep changes that have not been uploaded yet', () => {
+    const local = [
+      saved('s1', { serverId: 'r1', name: 'Renamed here', syncStatus: 'pending' }),
+      saved('s2', { syncStatus: 'pending' }),
+    ];
+    const merged = mergeSavedSearches(local, [remote('r1', { clientId: 's1', name: 'Old name' })]);
+
+    expect(merged.map(s => [s.id, s.name])).toEqual([['s1', 'Renamed here'], ['s2', 's2']]);
+  });
+
+  it('should add lists from other devices and drop ones deleted there', () => {
+    const local = [saved('s1', { serverId: 'r1', syncStatus: 'synced' })];
+    const merged = mergeSavedSearches(local, [remote('r2', { clientId: 'other-device-id' })]);
+
+    expect(merged.map(s => s.id)).toEqual(['other-device-id']);
+  });
+
+  it('should not bring back lists whose delete is still queued', () => {
+    expect(mergeSavedSearches([], [remote('r1', { clientId: 's1' })], ['s1'])).toEqual([]);
+  });
+});
+
+describe('reconcileSavedSearchSync', () => {
+  it('should mark saves that left the queue as synced', () => {
+    const searches = [saved('s1', { syncStatus: 'pending', serverId: 'r1' }), saved('s2', { syncStatus: 'pending' })];
+    const reconciled = reconcileSavedSearchSync(searches, [
+      { type: 'save_search', payload: { search: { id: 's2' } }, status: 'failed' },
+    ]);
+
+    expect(reconciled.map(s => s.syncStatus)).toEqual(['synced', 'failed']);
+    expect(reconcileSavedSearchSync(reconciled, [
+      { type: 'save_search', payload: { search: { id: 's2' } }, status: 'failed' },
+    ])).toBe(reconciled);
+  });
+
+  it('should take the server IDs of saves the queue just uploaded', () => {
+    const reconciled = reconcileSavedSearchSync([saved('s1', { syncStatus: 'pending' })], [], { s1: 'r1' });
+
+    expect(reconciled[0]).toMatchObject({ syncStatus: 'synced', serverId: 'r1' });
+  });
+
+  it('should keep saves pending that left the queue without reaching the server', () => {
+    const searches = [saved('s1', { syncStatus: 'pending' }), saved('s2', { syncStatus: 'failed' })];
+    const reconciled = reconcileSavedSearchSync(searches, []);
+
+    expect(reconciled.map(s => s.syncStatus)).toEqual(['pending', 'pending']);
+    expect(unqueuedSavedSearches(reconciled, []).map(s => s.id)).toEqual(['s1', 's2']);
+    expect(unqueuedSavedSearches(reconciled, [
+      { type: 'save_search', payload: { search: { id: 's2' } }, status: 'pending' },
+    ]).map(s => s.id)).toEqual(['s1']);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ * @fileoverview Tests for profile card vCard serialization
+ */
+
+import { buildVCard } from '../vcard';
+import { parseBadgeCode } from '../badgeCodeParser';
+
+describe('buildVCard', () => {
+  it('should write a vCard 3.0 with CRLF line endings', () => {
+    const vcard = buildVCard({ name: 'Jane Doe', company: 'Acme Inc.' });
+
+    expect(vcard).toBe([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;Jane;;;',
+      'FN:Jane Doe',
+      'ORG:Acme Inc.',
+      'END:VCARD',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('should escape separators in values', () => {
+    const vcard = buildVCard({ name: 'Ana María López', title: 'VP, Sales; EMEA' });
+
+    expect(vcard).toContain('N:López;Ana María;;;');
+    expect(vcard).toContain('TITLE:VP\\, Sales\\; EMEA');
+  });
+
+  it('should be read back by the badge code parser', () => {
+    const card = {
+      name: 'Jane Doe',
+      title: 'Head of Partnerships, EMEA',
+      company: 'Acme; Inc.',
+      email: 'jane@acme.com',
+      phone: '+1 555 0100',
+      linkedinUrl: 'https://www.linkedin.com/in/janedoe',
+    };
+
+    expect(parseBadgeCode(buildVCard(card))).toEqual({
+      format: 'vcard',
+      contact: card,
+      raw: buildVCard(card).trim(),
+    });
+  });
+
+  it('should use a single-word name as the given name', () => {
+    expect(buildVCard({ name: 'Prince' })).toContain('N:;Prince;;;');
+  });
+});
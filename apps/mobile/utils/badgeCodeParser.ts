@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Badge code parser
+ *
+ * Turns the payload of a badge QR / PDF417 code into contact data. vCard (2.1 to 4.0),
+ * MECARD and plain URLs are understood; anything else, such as an opaque lead-retrieval
+ * ID, returns null so the scanner falls back to OCR.
+ */
+
+import type { ExtractedContactData } from '../types/contact';
+import { parseVCardProperties, pickProperty, splitUnescaped, unescapeValue } from './vcard';
+
+export type BadgeCodeFormat = 'vcard' | 'mecard' | 'url';
+
+export interface BadgeCodeData {
+  format: BadgeCodeFormat;
+  contact: ExtractedContactData;
+  raw: string;
+}
+
+const CONTACT_FIELDS: (keyof ExtractedContactData)[] = [
+  'name', 'company', 'title', 'email', 'phone', 'website', 'linkedinUrl',
+];
+
+const LINKEDIN_PATTERN = /^(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/([A-Za-z0-9_%-]+)\/?/i;
+const URL_PATTERN = /^(?:https?:\/\/|www\.)[^\s]+$/i;
+
+function joinName(parts: (string | undefined)[]): string {
+  return parts.map(part => (part || '').trim()).filter(Boolean).join(' ');
+}
+
+/**
+ * Readable name from a LinkedIn profile slug, e.g. "jane-doe-4b2a91" -> "Jane Doe"
+ */
+function nameFromLinkedInSlug(slug: string): string {
+  let decoded = slug;
+  try {
+    decoded = decodeURIComponent(slug);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+
+  const words = decoded
+    .split(/[-_]+/)
+    .filter(word => /^[A-Za-zÀ-ÖØ-öø-ÿ]+$/.test(word));
+  // A single word is as likely a handle as a name
+  if (words.length < 2) return '';
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join(' ');
+}
+
+function assignUrl(contact: ExtractedContactData, url: string): void {
+  if (LINKEDIN_PATTERN.test(url)) {
+    contact.linkedinUrl = contact.linkedinUrl || url;
+  } else {
+    contact.website = contact.website || url;
+  }
+}
+
+function parseVCard(payload: string): ExtractedContactData {
+  const properties = parseVCardProperties(payload);
+  const contact: ExtractedContactData = { name: '' };
+
+  const formattedName = pickProperty(properties, 'FN');
+  const structuredName = pickProperty(properties, 'N');
+  if (formattedName) {
+    contact.name = unescapeValue(formattedName.value);
+  }
+  if (!contact.name && structuredName) {
+    const [family, given, additional, prefix, suffix] = splitUnescaped(structuredName.value, ';').map(unescapeValue);
+    contact.name = joinName([prefix, given, additional, family, suffix]);
+  }
+
+  const org = pickProperty(properties, 'ORG');
+  if (org) {
+    contact.company = unescapeValue(splitUnescaped(org.value, ';')[0]);
+  }
+
+  const title = pickProperty(properties, 'TITLE') || pickProperty(properties, 'ROLE');
+  if (title) {
+    contact.title = unescapeValue(title.value);
+  }
+
+  const email = pickProperty(properties, 'EMAIL');
+  if (email) {
+    contact.email = unescapeValue(email.value).replace(/^mailto:/i, '');
+  }
+
+  const tel = pickProperty(properties, 'TEL');
+  if (tel) {
+    contact.phone = unescapeValue(tel.value).replace(/^tel:/i, '');
+  }
+
+  properties
+    .filter(property => property.name === 'URL' || property.name === 'X-SOCIALPROFILE')
+    .forEach(property => assignUrl(contact, unescapeValue(property.value)));
+
+  return contact;
+}
+
+function parseMeCard(payload: string): ExtractedContactData {
+  const contact: ExtractedContactData = { name: '' };
+
+  splitUnescaped(payload.replace(/^MECARD:/i, ''), ';').forEach(field => {
+    const colon = field.indexOf(':');
+    if (colon <= 0) return;
+
+    const key = field.slice(0, colon).toUpperCase();
+    const value = field.slice(colon + 1);
+
+    switch (key) {
+      case 'N': {
+        // "Doe,Jane" is family name first
+        const [family, given] = splitUnescaped(value, ',').map(unescapeValue);
+        contact.name = contact.name || joinName([given, family]);
+        break;
+      }
+      case 'ORG':
+        contact.company = contact.company || unescapeValue(value);
+        break;
+      case 'TITLE':
+        contact.title = contact.title || unescapeValue(value);
+        break;
+      case 'EMAIL':
+        contact.email = contact.email || unescapeValue(value);
+        break;
+      case 'TEL':
+        contact.phone = contact.phone || unescapeValue(value);
+        break;
+      case 'URL':
+        assignUrl(contact, unescapeValue(value));
+        break;
+    }
+  });
+
+  return contact;
+}
+
+function parseUrl(payload: string): ExtractedContactData {
+  const contact: ExtractedContactData = { name: '' };
+  assignUrl(contact, payload);
+
+  const linkedin = payload.match(LINKEDIN_PATTERN);
+  if (linkedin) {
+    contact.name = nameFromLinkedInSlug(linkedin[1]);
+  }
+
+  return contact;
+}
+
+function hasContactData(contact: ExtractedContactData): boolean {
+  return CONTACT_FIELDS.some(field => !!contact[field]);
+}
+
+/**
+ * Parse a decoded badge code. Returns null for payloads without contact data.
+ */
+export function parseBadgeCode(payload: string): BadgeCodeData | null {
+  const raw = (payload || '').trim();
+  if (!raw) return null;
+
+  let format: BadgeCodeFormat;
+  let contact: ExtractedContactData;
+
+  if (/^BEGIN:VCARD/i.test(raw)) {
+    format = 'vcard';
+    contact = parseVCard(raw);
+  } else if (/^MECARD:/i.test(raw)) {
+    format = 'mecard';
+    contact = parseMeCard(raw);
+  } else if (URL_PATTERN.test(raw)) {
+    format = 'url';
+    contact = parseUrl(raw);
+  } else {
+    return null;
+  }
+
+  return hasContactData(contact) ? { format, contact, raw } : null;
+}
+
+/**
+ * Combine structured badge code data with OCR fields: the code wins wherever it has
+ * a value, OCR fills the gaps
+ */
+export function mergeBadgeData(
+  code: ExtractedContactData,
+  ocr: Partial<ExtractedContactData>
+): ExtractedContactData {
+  const merged: ExtractedContactData = { name: '' };
+  CONTACT_FIELDS.forEach(field => {
+    const value = code[field] || ocr[field];
+    if (value) {
+      merged[field] = value;
+    }
+  });
+  return merged;
+}
+
+/**
+ * Text lines for the manual assignment screen when a code was read but OCR was not
+ */
+export function badgeCodeToLines(contact: ExtractedContactData): string[] {
+  return CONTACT_FIELDS
+    .map(field => contact[field])
+    .filter((value): value is string => !!value);
+}
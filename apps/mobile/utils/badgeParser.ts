@@ -0,0 +1,699 @@
+/**
+ * Badge / business card parser
+ *
+ * Turns raw OCR text into contact fields. Lines are normalized and filtered, then a
+ * pipeline of rules proposes scored candidates per field and the best candidate above
+ * the field's minimum confidence wins. Callers can swap or extend the rules and line
+ * filters; the default pipeline is measured against the golden corpus in
+ * utils/__tests__/__fixtures__/badge-corpus.
+ */
+
+export type BadgeField =
+  | 'name'
+  | 'title'
+  | 'company'
+  | 'email'
+  | 'phone'
+  | 'website'
+  | 'linkedinUrl'
+  | 'address';
+
+export const BADGE_FIELDS: BadgeField[] = [
+  'name', 'title', 'company', 'email', 'phone', 'website', 'linkedinUrl', 'address',
+];
+
+export interface BadgeLine {
+  text: string;
+  /** Position among all non-empty lines */
+  index: number;
+  /** Position among the lines that passed the filters, -1 when filtered out */
+  position: number;
+  relevant: boolean;
+}
+
+export interface BadgeCandidate {
+  field: BadgeField;
+  text: string;
+  confidence: number;
+  /** Indexes of the lines the value was read from */
+  lines: number[];
+  /** Name of the rule that proposed it */
+  rule: string;
+}
+
+export interface BadgeParseContext {
+  lines: BadgeLine[];
+  relevantLines: BadgeLine[];
+}
+
+export interface BadgeRule {
+  name: string;
+  apply: (context: BadgeParseContext) => BadgeCandidate[];
+}
+
+/** Returns false for lines that should not be read as name, title or company */
+export type BadgeLineFilter = (line: string) => boolean;
+
+export interface BadgeParseOptions {
+  rules?: BadgeRule[];
+  lineFilters?: BadgeLineFilter[];
+  minConfidence?: Partial<Record<BadgeField, number>>;
+}
+
+export type BadgeFields = Record<BadgeField, string>;
+
+export interface BadgeParseResult extends BadgeFields {
+  candidates: Record<BadgeField, BadgeCandidate[]>;
+  lines: string[];
+  relevantLines: string[];
+}
+
+export const DEFAULT_MIN_CONFIDENCE: Record<BadgeField, number> = {
+  name: 0.4,
+  title: 0.3,
+  company: 0.3,
+  email: 0.8,
+  phone: 0.6,
+  website: 0.6,
+  linkedinUrl: 0.8,
+  address: 0.5,
+};
+
+// Character classes for Latin names, including accented letters
+const UPPER = 'A-ZÀ-ÖØ-Þ';
+const LOWER = 'a-zß-öø-ÿ';
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(in|company|pub)\/([A-Za-z0-9_%-]+)\/?/i;
+const URL_PATTERN = /(?:https?:\/\/)?(?:www\.)?[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*\.([a-z]{2,24})(?:\/[^\s,;]*)?/i;
+const KNOWN_TLDS = [
+  'com', 'org', 'net', 'io', 'co', 'ai', 'dev', 'app', 'vc', 'tech', 'biz', 'info', 'me', 'us', 'uk',
+  'de', 'fr', 'nl', 'jp', 'es', 'it', 'ch', 'at', 'se', 'no', 'dk', 'fi', 'be', 'ie', 'ca', 'au',
+  'nz', 'in', 'sg', 'br', 'mx', 'eu',
+];
+const GENERIC_EMAIL_DOMAINS = [
+  'gmail', 'googlemail', 'yahoo', 'hotmail', 'outlook', 'live', 'icloud', 'me', 'aol', 'proton',
+  'protonmail', 'gmx', 'web', 'mail',
+];
+
+const PHONE_PATTERN = /(?:\+|\()?\d[\d\s().\/-]{5,}\d/g;
+const PHONE_LABEL_PATTERN = /\b(?:tel|tél|phone|telefon|telephone|mobile|mobil|mob|cell|direct|office|work)\b|^\s*[TMPD]\s*[:.]/i;
+const FAX_LABEL_PATTERN = /\bfax\b|^\s*F\s*[:.]/i;
+const DATE_PATTERN = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/;
+const YEAR_RANGE_PATTERN = /^(?:19|20)\d{2}\s*[-–]\s*(?:19|20)\d{2}$/;
+
+const TITLE_PATTERNS = [
+  /\b(?:CEO|CTO|CFO|COO|CMO|CIO|CISO|VP|SVP|EVP|Vice President|President|Director|Manager|Lead|Senior|Principal|Staff|Associate|Specialist|Analyst|Engineer|Developer|Designer|Architect|Consultant|Coordinator|Founder|Co-Founder|Cofounder|Owner|Partner|Officer|Executive|Scientist|Recruiter|Professor|Advisor|Adviser|Attorney|Counsel|Editor|Intern|Student|Researcher)\b/i,
+  /\b(?:Software|Hardware|Product|Marketing|Sales|Operations|Finance|Human Resources|HR|Engineering|Design|Research|Data|Security|DevOps)\s+(?:Engineer|Manager|Director|Lead|Specialist|Analyst|Scientist)\b/i,
+  /\b(?:Head of|Chief)\s+\w+/i,
+  /\b(?:Directeur|Directrice|Gérant|Gérante|Ingénieur|Ingénieure|Responsable|Geschäftsführer|Geschäftsführerin|Leiter|Leiterin|Gerente|Ingeniero|Ingeniera|Jefe|Jefa)\b/i,
+];
+
+// Legal forms are matched case-sensitively so words like "as" or "co" in a title do not count
+const LEGAL_SUFFIX_PATTERN = /(?:^|\s)(?:Inc|INC|LLC|L\.L\.C\.|Corp|CORP|Corporation|CORPORATION|Incorporated|Ltd|LTD|Limited|LIMITED|LLP|PLC|plc|GmbH|GMBH|AG|KG|SAS|SARL|SA|S\.A\.|Srl|S\.r\.l\.|SpA|S\.p\.A\.|BV|B\.V\.|NV|N\.V\.|Pty|PTY|K\.K\.|KK|Oy|AB|ApS|Co\.)(?=$|[\s,.])/;
+const ORGANIZATION_WORD_PATTERN = /\b(?:Technologies|Technology|Solutions|Systems|Systeme|Labs|Software|Robotics|Analytics|Digital|Consulting|Consultancy|Conseil|Capital|Ventures|Networks|Media|Studios?|Trading|Cloud|Bank|Partners|Group|Enterprises|Industries|Services|Holdings|Agency|Associates|University|Institute|Foundation)\b/i;
+
+const MARKETING_WORDS = [
+  'innovation', 'excellence', 'solutions', 'success', 'leading', 'trusted',
+  'premier', 'professional', 'quality', 'service', 'experience', 'expert',
+  'committed', 'dedicated', 'passion', 'vision', 'mission', 'values',
+  'future', 'tomorrow', 'today', 'since', 'established', 'founded',
+  'your', 'our', 'we', 'us', 'you', 'the best', 'world class',
+  'connecting', 'building', 'creating', 'delivering', 'providing',
+];
+const MARKETING_PATTERN = new RegExp(`\\b(?:${MARKETING_WORDS.join('|')})\\b`, 'i');
+
+const HONORIFIC_PATTERN = /^(?:Dr|Mr|Mrs|Ms|Mx|Prof|Sir|Dame)\.?\s+/i;
+const CREDENTIAL_PATTERN = /(?:,\s*|\s+)(?:PhD|Ph\.D\.|MBA|MD|M\.D\.|CPA|CFA|PMP|Esq|MSc|BSc|JD|RN|PE)\.?$/i;
+const NAME_PARTICLES = ['van', 'von', 'der', 'den', 'de', 'da', 'di', 'du', 'del', 'della', 'la', 'le', 'bin', 'al', 'ten', 'ter'];
+const CAPITALIZED_TOKEN = new RegExp(`^[${UPPER}][${LOWER}]*(?:[${UPPER}][${LOWER}]+)?(?:[-'’][${UPPER}]?[${LOWER}]+)*$`);
+const UPPERCASE_TOKEN = new RegExp(`^[${UPPER}]+(?:[-'’][${UPPER}]+)*$`);
+const INITIAL_TOKEN = new RegExp(`^[${UPPER}]\\.$`);
+
+const STREET_PATTERNS = [
+  /^\d+[A-Za-z]?(?:[-–]\d+)?,?\s+(?:[A-Za-zÀ-ÿ'.-]+\s+){0,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Square|Sq|Parkway|Pkwy|Highway|Hwy|Terrace|Circle|Row)\b\.?/i,
+  /^\d+[A-Za-z]?(?:\s?(?:bis|ter))?,?\s+(?:rue|avenue|av\.|boulevard|bd|place|chemin|allée|impasse|quai|calle|via|viale|avenida|carrer|rua)\b/i,
+  /^[A-Za-zÀ-ÿß.-]+(?:straße|strasse|str\.|weg|platz|allee|gasse|ring|damm|laan|gracht|plein|straat|kade|vej|gade|gatan|vägen)\s+\d+/i,
+  /^(?:calle|via|viale|avenida|rua)\s+[^\d]+\s+\d+/i,
+  /^(?:Suite|Ste|Floor|Fl|Unit|Building|Bldg|Level)\b\.?\s*\w+/i,
+  /^P\.?\s?O\.?\s+Box\s+\d+/i,
+];
+const LOCALITY_PATTERNS = [
+  /^[A-Za-z .'-]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?$/,
+  /[A-Za-z]{2,}.*\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b|\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b.*[A-Za-z]{2,}/,
+  /\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/,
+  /^\d{4}\s?[A-Z]{2}\s+[A-Z][A-Za-z.' -]+$/,
+  /^\d{4,5}\s+[A-ZÀ-Þ][A-Za-zÀ-ÿ.' -]+$/,
+];
+const COUNTRIES = [
+  'united kingdom', 'uk', 'united states', 'usa', 'us', 'germany', 'deutschland', 'france', 'japan',
+  'canada', 'australia', 'netherlands', 'the netherlands', 'nederland', 'spain', 'españa', 'italy',
+  'italia', 'switzerland', 'schweiz', 'suisse', 'austria', 'österreich', 'sweden', 'ireland', 'india',
+  'singapore', 'brazil', 'brasil', 'mexico', 'méxico', 'belgium', 'denmark', 'norway', 'finland',
+];
+
+/**
+ * Lines that are never contact details: fragments, slogans and event furniture
+ */
+export const DEFAULT_LINE_FILTERS: BadgeLineFilter[] = [
+  // Very short lines are usually OCR fragments
+  line => line.length >= 2,
+  // Marketing copy, unless the line also carries an email, a number or a company name
+  line => !MARKETING_PATTERN.test(line) || line.includes('@') || /\d{3}/.test(line) || LEGAL_SUFFIX_PATTERN.test(line),
+  // Taglines
+  line => !(line.length > 20 && /\b(?:making|building|creating|connecting|delivering|providing|enabling|empowering|turning|helping|transforming)\b/i.test(line)),
+  // Conference and badge furniture
+  line => !/\b(?:conference|summit|expo|event|attendee|speaker|session|exhibitor|sponsor|visitor|delegate|hello|my name is)\b/i.test(line),
+];
+
+function normalizeLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line
+      .replace(/^[\s|•·~*_=]+|[\s|•·~*_=]+$/g, '')
+      .replace(/\s+/g, ' ')
+      .trim())
+    .filter(line => line);
+}
+
+function clampConfidence(confidence: number): number {
+  return Math.max(0, Math.min(confidence, 0.99));
+}
+
+function isContactDetailLine(line: string): boolean {
+  return line.includes('@') || LINKEDIN_PATTERN.test(line) || /https?:\/\/|www\./i.test(line);
+}
+
+function hasTitleKeyword(line: string): boolean {
+  return TITLE_PATTERNS.some(pattern => pattern.test(line));
+}
+
+function hasCompanyKeyword(line: string): boolean {
+  return LEGAL_SUFFIX_PATTERN.test(line) || ORGANIZATION_WORD_PATTERN.test(line);
+}
+
+function isCountry(line: string): boolean {
+  return COUNTRIES.indexOf(line.toLowerCase().replace(/\.$/, '')) !== -1;
+}
+
+function toTitleCase(word: string, isFirst: boolean): string {
+  const lower = word.toLowerCase();
+  if (!isFirst && NAME_PARTICLES.indexOf(lower) !== -1) {
+    return lower;
+  }
+  return lower.replace(/(^|[-'’])(\S)/g, (_match, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+interface NameParts {
+  text: string;
+  significantWords: number;
+  allCaps: boolean;
+}
+
+/**
+ * Read a line as a person's name: honorifics and credentials are dropped and all-caps
+ * names are title-cased. Returns null if any word does not look like part of a name.
+ */
+export function parseNameLine(line: string): NameParts | null {
+  let text = line.replace(HONORIFIC_PATTERN, '');
+  while (CREDENTIAL_PATTERN.test(text)) {
+    text = text.replace(CREDENTIAL_PATTERN, '');
+  }
+
+  const words = text.trim().split(' ');
+  let significantWords = 0;
+
+  for (const word of words) {
+    if (NAME_PARTICLES.indexOf(word.toLowerCase()) !== -1 && significantWords > 0) {
+      continue;
+    }
+    if (INITIAL_TOKEN.test(word)) {
+      continue;
+    }
+    if (word.length < 2 || !(CAPITALIZED_TOKEN.test(word) || UPPERCASE_TOKEN.test(word))) {
+      return null;
+    }
+    significantWords++;
+  }
+
+  if (significantWords === 0) {
+    return null;
+  }
+
+  const allCaps = text === text.toUpperCase();
+  return {
+    text: allCaps ? words.map((word, index) => toTitleCase(word, index === 0)).join(' ') : words.join(' '),
+    significantWords,
+    allCaps,
+  };
+}
+
+/**
+ * Normalize a phone number: international numbers become +<digits> (dropping the
+ * (0) trunk prefix), national numbers keep their printed grouping
+ */
+export function normalizePhoneNumber(raw: string): string {
+  const text = raw.trim();
+  if (/^(?:\+|00)/.test(text)) {
+    return '+' + text.replace(/^00/, '').replace(/\(0\)/g, '').replace(/\D/g, '');
+  }
+  return text.replace(/\s+/g, ' ');
+}
+
+function normalizeWebsite(raw: string): string {
+  const cleaned = raw.replace(/[/.,;]+$/, '');
+  const withoutProtocol = cleaned.replace(/^https?:\/\//i, '');
+  const slash = withoutProtocol.indexOf('/');
+  const host = (slash === -1 ? withoutProtocol : withoutProtocol.slice(0, slash)).toLowerCase();
+  const path = slash === -1 ? '' : withoutProtocol.slice(slash);
+  return `https://${host}${path}`;
+}
+
+function domainKey(domain: string): string | null {
+  const labels = domain.toLowerCase().replace(/^www\./, '').split('.');
+  // Drop the public suffix: one label (acme.com) or two for ccTLD second levels (acme.co.uk)
+  const suffixLength = labels.length > 2 && labels[labels.length - 2].length <= 3 ? 2 : 1;
+  const label = labels[labels.length - suffixLength - 1];
+  if (!label || GENERIC_EMAIL_DOMAINS.indexOf(label) !== -1) {
+    return null;
+  }
+  return label.replace(/[^a-z0-9]/g, '');
+}
+
+function textKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export const emailRule: BadgeRule = {
+  name: 'email',
+  apply: ({ lines }) => lines
+    .map(line => ({ line, match: line.text.replace(/\s*@\s*/g, '@').match(EMAIL_PATTERN) }))
+    .filter(({ match }) => match)
+    .map(({ line, match }) => ({
+      field: 'email' as BadgeField,
+      text: match![0].toLowerCase(),
+      confidence: 0.95,
+      lines: [line.index],
+      rule: 'email',
+    })),
+};
+
+export const linkedinRule: BadgeRule = {
+  name: 'linkedin',
+  apply: ({ lines }) => lines
+    .map(line => ({ line, match: line.text.match(LINKEDIN_PATTERN) }))
+    .filter(({ match }) => match)
+    .map(({ line, match }) => ({
+      field: 'linkedinUrl' as BadgeField,
+      text: `https://www.linkedin.com/${match![1].toLowerCase()}/${match![2]}`,
+      confidence: 0.95,
+      lines: [line.index],
+      rule: 'linkedin',
+    })),
+};
+
+export const websiteRule: BadgeRule = {
+  name: 'website',
+  apply: ({ lines }) => {
+    const candidates: BadgeCandidate[] = [];
+    lines.forEach(line => {
+      // Email domains and LinkedIn profiles are not the website
+      const text = line.text
+        .replace(/\s*@\s*/g, '@')
+        .replace(new RegExp(EMAIL_PATTERN.source, 'g'), ' ')
+        .replace(new RegExp(LINKEDIN_PATTERN.source, 'gi'), ' ');
+      const match = text.match(URL_PATTERN);
+      if (!match) {
+        return;
+      }
+
+      const explicit = /^(?:https?:\/\/|www\.)/i.test(match[0]);
+      if (!explicit && KNOWN_TLDS.indexOf(match[1].toLowerCase()) === -1) {
+        return;
+      }
+
+      candidates.push({
+        field: 'website',
+        text: normalizeWebsite(match[0]),
+        confidence: explicit ? 0.9 : 0.75,
+        lines: [line.index],
+        rule: 'website',
+      });
+    });
+    return candidates;
+  },
+};
+
+export const phoneRule: BadgeRule = {
+  name: 'phone',
+  apply: ({ lines }) => {
+    const candidates: BadgeCandidate[] = [];
+    lines.forEach(line => {
+      if (FAX_LABEL_PATTERN.test(line.text) || line.text.includes('@')) {
+        return;
+      }
+
+      (line.text.match(PHONE_PATTERN) || []).forEach(match => {
+        const raw = match.trim();
+        const digits = raw.replace(/\D/g, '');
+        if (digits.length < 7 || digits.length > 15 || DATE_PATTERN.test(raw) || YEAR_RANGE_PATTERN.test(raw)) {
+          return;
+        }
+
+        const international = /^(?:\+|00)/.test(raw);
+        let confidence = 0.6;
+        if (international) confidence += 0.2;
+        if (PHONE_LABEL_PATTERN.test(line.text)) confidence += 0.2;
+        if (digits.length >= 10 && digits.length <= 12) confidence += 0.1;
+        if (/^\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}$/.test(raw)) confidence += 0.2;
+
+        candidates.push({
+          field: 'phone',
+          text: normalizePhoneNumber(raw),
+          confidence: clampConfidence(confidence),
+          lines: [line.index],
+          rule: 'phone',
+        });
+      });
+    });
+    return candidates;
+  },
+};
+
+/**
+ * Postal addresses: consecutive street, locality and country lines joined with commas
+ */
+export const addressRule: BadgeRule = {
+  name: 'address',
+  apply: ({ lines }) => {
+    const kindOf = (text: string): 'street' | 'locality' | 'country' | null => {
+      if (isContactDetailLine(text) || PHONE_LABEL_PATTERN.test(text)) return null;
+      if (STREET_PATTERNS.some(pattern => pattern.test(text))) return 'street';
+      if (LOCALITY_PATTERNS.some(pattern => pattern.test(text))) return 'locality';
+      if (isCountry(text)) return 'country';
+      return null;
+    };
+
+    const candidates: BadgeCandidate[] = [];
+    let block: { line: BadgeLine; kind: 'street' | 'locality' | 'country' }[] = [];
+
+    const flush = () => {
+      const kinds = block.map(entry => entry.kind);
+      const hasStreet = kinds.indexOf('street') !== -1;
+      const hasLocality = kinds.indexOf('locality') !== -1;
+      if (hasStreet || hasLocality) {
+        candidates.push({
+          field: 'address',
+          text: block.map(entry => entry.line.text).join(', '),
+          confidence: hasStreet && hasLocality ? 0.9 : 0.6,
+          lines: block.map(entry => entry.line.index),
+          rule: 'address',
+        });
+      }
+      block = [];
+    };
+
+    lines.forEach(line => {
+      const kind = kindOf(line.text);
+      // A country only continues an address, it never starts one
+      if (kind && (kind !== 'country' || block.length > 0)) {
+        block.push({ line, kind });
+      } else {
+        flush();
+      }
+    });
+    flush();
+
+    return candidates;
+  },
+};
+
+export const nameRule: BadgeRule = {
+  name: 'name',
+  apply: ({ relevantLines }) => {
+    const candidates: BadgeCandidate[] = [];
+    relevantLines.forEach(line => {
+      if (isContactDetailLine(line.text) || /\d/.test(line.text) || isCountry(line.text)) {
+        return;
+      }
+      const parts = parseNameLine(line.text);
+      if (!parts || parts.significantWords < 2 || parts.significantWords > 3) {
+        return;
+      }
+
+      let confidence = 0;
+      if (line.position === 0) confidence += 0.4;
+      confidence += parts.significantWords === 2 ? 0.5 : 0.3;
+      if (parts.allCaps) confidence += 0.1;
+      if (hasCompanyKeyword(line.text)) confidence -= 0.5;
+      if (hasTitleKeyword(line.text)) confidence -= 0.4;
+
+      candidates.push({
+        field: 'name',
+        text: parts.text,
+        confidence: Math.min(confidence, 0.9),
+        lines: [line.index],
+        rule: 'name',
+      });
+    });
+    return candidates;
+  },
+};
+
+/**
+ * Names printed over two lines, as on many event badges ("MARIA" / "GONZALEZ")
+ */
+export const multiLineNameRule: BadgeRule = {
+  name: 'multi-line-name',
+  apply: ({ relevantLines }) => {
+    const candidates: BadgeCandidate[] = [];
+    const singleName = (line: BadgeLine) => {
+      if (/\d/.test(line.text) || isContactDetailLine(line.text) || isCountry(line.text)) return null;
+      if (hasCompanyKeyword(line.text) || hasTitleKeyword(line.text)) return null;
+      const parts = parseNameLine(line.text);
+      return parts && parts.significantWords === 1 ? parts : null;
+    };
+
+    for (let i = 0; i + 1 < relevantLines.length && i <= 2; i++) {
+      const first = singleName(relevantLines[i]);
+      const last = singleName(relevantLines[i + 1]);
+      if (first && last && first.text.indexOf(' ') === -1) {
+        candidates.push({
+          field: 'name',
+          text: `${first.text} ${last.text}`,
+          confidence: 0.85,
+          lines: [relevantLines[i].index, relevantLines[i + 1].index],
+          rule: 'multi-line-name',
+        });
+      }
+    }
+    return candidates;
+  },
+};
+
+export const titleRule: BadgeRule = {
+  name: 'title',
+  apply: ({ relevantLines }) => {
+    const candidates: BadgeCandidate[] = [];
+    relevantLines.forEach(line => {
+      if (isContactDetailLine(line.text)) {
+        return;
+      }
+      const matches = TITLE_PATTERNS.filter(pattern => pattern.test(line.text)).length;
+      if (matches === 0) {
+        return;
+      }
+
+      let confidence = matches * 0.4;
+      if (line.position > 0 && line.position < 4) confidence += 0.2;
+      if (line.text.length < 50) confidence += 0.1;
+      if (line.text.length > 60) confidence -= 0.3;
+      if (hasCompanyKeyword(line.text)) confidence -= 0.3;
+
+      if (confidence > 0.3) {
+        candidates.push({
+          field: 'title',
+          text: line.text,
+          confidence: Math.min(confidence, 0.85),
+          lines: [line.index],
+          rule: 'title',
+        });
+      }
+    });
+    return candidates;
+  },
+};
+
+/**
+ * "CTO at Acme", "Marketing Manager | Globex Corporation": title and company on one line
+ */
+export const titleAtCompanyRule: BadgeRule = {
+  name: 'title-at-company',
+  apply: ({ relevantLines }) => {
+    const candidates: BadgeCandidate[] = [];
+    relevantLines.forEach(line => {
+      if (EMAIL_PATTERN.test(line.text) || /\d/.test(line.text)) {
+        return;
+      }
+      const parts = line.text.split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/);
+      if (parts.length !== 2 || !parts[0] || !parts[1]) {
+        return;
+      }
+      const [title, company] = parts;
+      if (!hasTitleKeyword(title) || hasTitleKeyword(company) || CREDENTIAL_PATTERN.test(line.text)) {
+        return;
+      }
+
+      candidates.push(
+        { field: 'title', text: title, confidence: 0.95, lines: [line.index], rule: 'title-at-company' },
+        { field: 'company', text: company, confidence: 0.75, lines: [line.index], rule: 'title-at-company' }
+      );
+    });
+    return candidates;
+  },
+};
+
+export const companyRule: BadgeRule = {
+  name: 'company',
+  apply: ({ relevantLines }) => {
+    const candidates: BadgeCandidate[] = [];
+    relevantLines.forEach(line => {
+      if (isContactDetailLine(line.text)) {
+        return;
+      }
+
+      const legal = LEGAL_SUFFIX_PATTERN.test(line.text);
+      const organization = ORGANIZATION_WORD_PATTERN.test(line.text);
+      if (!legal && !organization) {
+        return;
+      }
+
+      let confidence = 0;
+      if (legal) confidence += 0.6;
+      if (organization) confidence += 0.4;
+      if (line.position > 0 && line.position < 4) confidence += 0.1;
+      if (line.text.length > 2 && line.text.length < 40) confidence += 0.1;
+      if (line.text.length > 50) confidence -= 0.2;
+      if (hasTitleKeyword(line.text)) confidence -= 0.4;
+      if (/\d/.test(line.text)) confidence -= 0.3;
+
+      if (confidence > 0.3) {
+        candidates.push({
+          field: 'company',
+          text: line.text,
+          confidence: clampConfidence(confidence),
+          lines: [line.index],
+          rule: 'company',
+        });
+      }
+    });
+    return candidates;
+  },
+};
+
+/**
+ * A line that spells the email or website domain ("BRIGHTWAVE" next to lena@brightwave.vc)
+ * is the company, even without a legal form
+ */
+export const domainCompanyRule: BadgeRule = {
+  name: 'domain-company',
+  apply: (context) => {
+    const keys: string[] = [];
+    emailRule.apply(context)
+      .map(candidate => candidate.text.split('@')[1])
+      .concat(websiteRule.apply(context).map(candidate => candidate.text.replace(/^https:\/\//, '').split('/')[0]))
+      .forEach(domain => {
+        const key = domainKey(domain);
+        if (key && keys.indexOf(key) === -1) {
+          keys.push(key);
+        }
+      });
+
+    return context.relevantLines
+      .filter(line => !isContactDetailLine(line.text) && !/\d/.test(line.text))
+      .filter(line => keys.indexOf(textKey(line.text)) !== -1)
+      .map(line => ({
+        field: 'company' as BadgeField,
+        text: line.text,
+        confidence: 0.8,
+        lines: [line.index],
+        rule: 'domain-company',
+      }));
+  },
+};
+
+export const DEFAULT_BADGE_RULES: BadgeRule[] = [
+  emailRule,
+  linkedinRule,
+  websiteRule,
+  phoneRule,
+  addressRule,
+  nameRule,
+  multiLineNameRule,
+  titleRule,
+  titleAtCompanyRule,
+  companyRule,
+  domainCompanyRule,
+];
+
+// Fields are resolved in this order; a line used for one field is not reused for a
+// later one, except by the rule that claimed it (title-at-company fills two fields)
+const RESOLUTION_ORDER: BadgeField[] = [
+  'email', 'linkedinUrl', 'website', 'phone', 'address', 'name', 'title', 'company',
+];
+const EXCLUSIVE_FIELDS: BadgeField[] = ['address', 'name', 'title', 'company'];
+
+/**
+ * Parse OCR text from a name badge or business card into contact fields
+ */
+export function parseBadgeText(text: string, options: BadgeParseOptions = {}): BadgeParseResult {
+  const rules = options.rules || DEFAULT_BADGE_RULES;
+  const lineFilters = options.lineFilters || DEFAULT_LINE_FILTERS;
+  const minConfidence = { ...DEFAULT_MIN_CONFIDENCE, ...options.minConfidence };
+
+  let position = 0;
+  const lines: BadgeLine[] = normalizeLines(text || '').map((lineText, index) => {
+    const relevant = lineFilters.every(filter => filter(lineText));
+    return { text: lineText, index, position: relevant ? position++ : -1, relevant };
+  });
+  const context: BadgeParseContext = { lines, relevantLines: lines.filter(line => line.relevant) };
+
+  const candidates = {} as Record<BadgeField, BadgeCandidate[]>;
+  BADGE_FIELDS.forEach(field => {
+    candidates[field] = [];
+  });
+  rules.forEach(rule => {
+    rule.apply(context).forEach(candidate => candidates[candidate.field].push(candidate));
+  });
+  BADGE_FIELDS.forEach(field => {
+    // Stable: equally confident candidates keep line order
+    candidates[field] = candidates[field]
+      .map((candidate, order) => ({ candidate, order }))
+      .sort((a, b) => b.candidate.confidence - a.candidate.confidence || a.order - b.order)
+      .map(({ candidate }) => candidate);
+  });
+
+  const claimedLines: { [index: number]: string } = {};
+  const fields = {} as BadgeFields;
+  RESOLUTION_ORDER.forEach(field => {
+    const exclusive = EXCLUSIVE_FIELDS.indexOf(field) !== -1;
+    const best = candidates[field].filter(candidate =>
+      candidate.confidence >= minConfidence[field] &&
+      (!exclusive || candidate.lines.every(index => !claimedLines[index] || claimedLines[index] === candidate.rule))
+    )[0];
+
+    fields[field] = best ? best.text : '';
+    if (best && exclusive) {
+      best.lines.forEach(index => {
+        claimedLines[index] = best.rule;
+      });
+    }
+  });
+
+  return {
+    ...fields,
+    candidates,
+    lines: lines.map(line => line.text),
+    relevantLines: context.relevantLines.map(line => line.text),
+  };
+}
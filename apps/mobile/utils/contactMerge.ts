@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Merging duplicate contacts
+ *
+ * The primary contact survives. Each scalar field comes from whichever record the user
+ * picked (by default the primary, unless its value is empty); tags, groups and
+ * identifiers are the union of both records.
+ */
+
+import type { Contact, ContactIdentifier } from '../types/contact';
+import { contactIdentifiers, displayName, identifierKey } from './duplicateDetection';
+
+export type MergeSide = 'primary' | 'duplicate';
+
+export type MergeField =
+  | 'name'
+  | 'company'
+  | 'title'
+  | 'city'
+  | 'country'
+  | 'note'
+  | 'firstMetLocation'
+  | 'firstMetDate'
+  | 'connectionStrength'
+  | 'contactValue'
+  | 'imageUri';
+
+export type MergeChoices = Partial<Record<MergeField, MergeSide>>;
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'company', label: 'Company' },
+  { field: 'title', label: 'Title' },
+  { field: 'city', label: 'City' },
+  { field: 'country', label: 'Country' },
+  { field: 'note', label: 'Notes' },
+  { field: 'firstMetLocation', label: 'First met at' },
+  { field: 'firstMetDate', label: 'First met on' },
+  { field: 'connectionStrength', label: 'Connection strength' },
+  { field: 'contactValue', label: 'Contact value' },
+  { field: 'imageUri', label: 'Photo' },
+];
+
+/**
+ * Value of a merge field, reading through the legacy aliases (jobTitle, notes)
+ */
+export function mergeFieldValue(contact: Contact, field: MergeField): string {
+  switch (field) {
+    case 'name':
+      return displayName(contact);
+    case 'title':
+      return contact.title || contact.jobTitle || '';
+    case 'note':
+      return contact.note || contact.notes || '';
+    default:
+      return contact[field] || '';
+  }
+}
+
+/**
+ * Fields where both contacts have a value and the values differ, i.e. where the user
+ * has to choose
+ */
+export function conflictingMergeFields(primary: Contact, duplicate: Contact): MergeField[] {
+  return MERGE_FIELDS
+    .map(({ field }) => field)
+    .filter(field => {
+      const primaryValue = mergeFieldValue(primary, field);
+      const duplicateValue = mergeFieldValue(duplicate, field);
+      return !!primaryValue && !!duplicateValue && primaryValue.trim() !== duplicateValue.trim();
+    });
+}
+
+function unionIdentifiers(primary: Contact, duplicate: Contact): ContactIdentifier[] {
+  const seen = new Set<string>();
+  const identifiers: ContactIdentifier[] = [];
+
+  [...contactIdentifiers(primary), ...contactIdentifiers(duplicate)].forEach(identifier => {
+    if (!identifier.value.trim()) return;
+    const key = identifierKey(identifier) || `${identifier.type}:${identifier.value.trim().toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    identifiers.push(identifier);
+  });
+
+  return identifiers;
+}
+
+function union(first: string[] = [], second: string[] = []): string[] {
+  return Array.from(new Set([...first, ...second]));
+}
+
+// ISO dates compare correctly as strings
+function latest(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a || b;
+  return a > b ? a : b;
+}
+
+function earliest(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a || b;
+  return a < b ? a : b;
+}
+
+/**
+ * The merged contact, keeping the primary's id
+ */
+export function mergeContacts(primary: Contact, duplicate: Contact, choices: MergeChoices = {}): Contact {
+  const pick = (field: MergeField): Contact => {
+    const side = choices[field] || (mergeFieldValue(primary, field) ? 'primary' : 'duplicate');
+    return side === 'primary' ? primary : duplicate;
+  };
+
+  const nameSource = pick('name');
+  const title = mergeFieldValue(pick('title'), 'title');
+  const note = mergeFieldValue(pick('note'), 'note');
+
+  return {
+    ...primary,
+    name: displayName(nameSource),
+    firstName: nameSource.firstName,
+    lastName: nameSource.lastName,
+    company: pick('company').company,
+    title,
+    jobTitle: title,
+    city: pick('city').city,
+    country: pick('country').country,
+    note,
+    notes: note,
+    firstMetLocation: pick('firstMetLocation').firstMetLocation,
+    firstMetDate: pick('firstMetDate').firstMetDate,
+    connectionStrength: pick('connectionStrength').connectionStrength,
+    contactValue: pick('contactValue').contactValue,
+    imageUri: pick('imageUri').imageUri,
+    email: primary.email || duplicate.email,
+    phone: primary.phone || duplicate.phone,
+    linkedinUrl: primary.linkedinUrl || duplicate.linkedinUrl,
+    identifiers: unionIdentifiers(primary, duplicate),
+    tags: union(primary.tags, duplicate.tags),
+    groups: union(primary.groups, duplicate.groups),
+    starred: !!(primary.starred || duplicate.starred),
+    lastInteraction: Math.max(primary.lastInteraction || 0, duplicate.lastInteraction || 0) || undefined,
+    lastInteractionDate: latest(primary.lastInteractionDate, duplicate.lastInteractionDate),
+    nextFollowupDate: earliest(primary.nextFollowupDate, duplicate.nextFollowupDate),
+    totalInteractions: (primary.totalInteractions || 0) + (duplicate.totalInteractions || 0),
+    createdAt: earliest(primary.createdAt, duplicate.createdAt),
+    hubspotContactId: primary.hubspotContactId || duplicate.hubspotContactId,
+    needsSync: true,
+  };
+}
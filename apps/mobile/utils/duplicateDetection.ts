@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Duplicate contact detection
+ *
+ * Scores pairs of contacts on shared email addresses, phone numbers (compared on their
+ * last ten digits, so "+1 415 555 0100" matches "(415) 555-0100") and LinkedIn profiles,
+ * and on fuzzy name similarity backed by the company. Only contacts that share an
+ * identifier or a name block are compared, so large address books stay fast.
+ */
+
+import type { Contact, ContactIdentifier } from '../types/contact';
+
+export type DuplicateReason = 'email' | 'phone' | 'linkedin' | 'name_company' | 'name';
+
+export interface DuplicateMatch {
+  /** 0 to 1; pairs at or above the threshold are reported */
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair extends DuplicateMatch {
+  first: Contact;
+  second: Contact;
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+
+// How sure each signal alone makes us; signals combine as independent evidence
+const REASON_WEIGHTS: Record<DuplicateReason, number> = {
+  email: 0.95,
+  linkedin: 0.95,
+  phone: 0.85,
+  name_company: 0.8,
+  name: 0.45,
+};
+
+const NAME_MATCH_THRESHOLD = 0.88;
+
+/**
+ * Identifiers of a contact, including the legacy email/phone/linkedinUrl fields
+ */
+export function contactIdentifiers(contact: Contact): ContactIdentifier[] {
+  const identifiers = [...(contact.identifiers || [])];
+  if (contact.email) identifiers.push({ type: 'email', value: contact.email });
+  if (contact.phone) identifiers.push({ type: 'phone', value: contact.phone });
+  if (contact.linkedinUrl) identifiers.push({ type: 'linkedin', value: contact.linkedinUrl });
+  return identifiers;
+}
+
+/**
+ * Normalized key of an identifier, or null for ones that can't identify a person
+ */
+export function identifierKey({ type, value }: ContactIdentifier): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (type === 'email') {
+    return trimmed.includes('@') ? `email:${trimmed.replace(/^mailto:/, '')}` : null;
+  }
+  if (type === 'phone') {
+    const digits = trimmed.replace(/\(0\)/g, '').replace(/\D/g, '');
+    return digits.length >= 7 ? `phone:${digits.slice(-10)}` : null;
+  }
+  if (type === 'linkedin' || /linkedin\.com/.test(trimmed)) {
+    const slug = trimmed.match(/linkedin\.com\/in\/([^/?#]+)/);
+    return slug ? `linkedin:${slug[1]}` : null;
+  }
+  return null;
+}
+
+export function identityKeys(identifiers: ContactIdentifier[]): string[] {
+  const keys: string[] = [];
+  identifiers.forEach(identifier => {
+    const key = identifierKey(identifier);
+    if (key && !keys.includes(key)) keys.push(key);
+  });
+  return keys;
+}
+
+export function displayName(contact: Contact): string {
+  return (contact.name || [contact.firstName, contact.lastName].filter(Boolean).join(' ')).trim();
+}
+
+/**
+ * Lowercase words without accents or punctuation
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two names from 0 to 1, ignoring word order ("Doe Jane" is "Jane Doe")
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (!first || !second) return 0;
+
+  const sorted = (name: string) => name.split(' ').sort().join(' ');
+  return Math.max(jaroWinkler(first, second), jaroWinkler(sorted(first), sorted(second)));
+}
+
+function companiesMatch(a?: string, b?: string): boolean {
+  const strip = (company?: string) => normalizeName(company || '').replace(/\b(inc|llc|ltd|gmbh|corp|co|sa|bv)\b/g, '').trim();
+  const first = strip(a);
+  const second = strip(b);
+  return !!first && !!second && jaroWinkler(first, second) >= 0.92;
+}
+
+/**
+ * How likely two contacts are the same person, and why
+ */
+export function scoreDuplicatePair(first: Contact, second: Contact): DuplicateMatch {
+  const reasons: DuplicateReason[] = [];
+
+  const secondKeys = identityKeys(contactIdentifiers(second));
+  identityKeys(contactIdentifiers(first)).forEach(key => {
+    if (!secondKeys.includes(key)) return;
+    const reason = key.slice(0, key.indexOf(':')) as DuplicateReason;
+    if (!reasons.includes(reason)) reasons.push(reason);
+  });
+
+  if (nameSimilarity(displayName(first), displayName(second)) >= NAME_MATCH_THRESHOLD) {
+    reasons.push(companiesMatch(first.company, second.company) ? 'name_company' : 'name');
+  }
+
+  const score = 1 - reasons.reduce((remaining, reason) => remaining * (1 - REASON_WEIGHTS[reason]), 1);
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+const NAME_WINDOW = 20;
+
+// Identifier keys a contact shares with its duplicates
+function identifierBlockingKeys(contact: Contact): string[] {
+  return identityKeys(contactIdentifiers(contact));
+}
+
+// Name blocks put contacts whose names start alike together, in either word order
+function nameBlockingKeys(contact: Contact): string[] {
+  const words = normalizeName(displayName(contact)).split(' ').filter(Boolean);
+
+  if (words.length === 1) {
+    return [`name:${words[0].slice(0, 4)}`];
+  } else if (words.length > 1) {
+    const given = words[0];
+    const family = words[words.length - 1];
+    return [`name:${given[0]}${family.slice(0, 3)}`, `name:${family[0]}${given.slice(0, 3)}`];
+  }
+  return [];
+}
+
+function addToBlocks(blocks: Map<string, Contact[]>, keys: string[], contact: Contact): void {
+  keys.forEach(key => {
+    const block = blocks.get(key);
+    if (block) {
+      block.push(contact);
+    } else {
+      blocks.set(key, [contact]);
+    }
+  });
+}
+
+export function duplicatePairKey(first: Contact, second: Contact): string {
+  return [first.id, second.id].sort().join('|');
+}
+
+/**
+ * Likely duplicate pairs, best match first. Pairs whose key is in `dismissed` (the
+ * user said they are different people) are left out.
+ */
+export function findDuplicateContacts(
+  contacts: Contact[],
+  options: { threshold?: number; dismissed?: string[] } = {}
+): DuplicatePair[] {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const dismissed = new Set(options.dismissed || []);
+  const identifierBlocks = new Map<string, Contact[]>();
+  const nameBlocks = new Map<string, Contact[]>();
+
+  contacts.forEach(contact => {
+    addToBlocks(identifierBlocks, identifierBlockingKeys(contact), contact);
+    addToBlocks(nameBlocks, nameBlockingKeys(contact), contact);
+  });
+
+  const compared = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  const compare = (first: Contact, second: Contact) => {
+    const key = duplicatePairKey(first, second);
+    if (first.id === second.id || compared.has(key) || dismissed.has(key)) return;
+    compared.add(key);
+
+    const match = scoreDuplicatePair(first, second);
+    if (match.score >= threshold) {
+      pairs.push({ first, second, ...match });
+    }
+  };
+
+  identifierBlocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        compare(block[i], block[j]);
+      }
+    }
+  });
+
+  // A common name start can put thousands of contacts in one block, so each contact is
+  // only compared with its nearest neighbours in name order
+  nameBlocks.forEach(block => {
+    const sorted = block
+      .map(contact => ({ contact, name: normalizeName(displayName(contact)) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < Math.min(sorted.length, i + 1 + NAME_WINDOW); j++) {
+        compare(sorted[i].contact, sorted[j].contact);
+      }
+    }
+  });
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
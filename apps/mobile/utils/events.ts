@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Events: conferences and meetups, and the contacts met there
+ *
+ * While an event is active, new contacts are tagged with it and get their first-met
+ * location and date from it. The link is a contact's firstMetEventId, which the server
+ * keeps as contacts.first_met_at, so it survives in both directions of the sync.
+ */
+
+import type { Contact, EventStats, Interaction, NetworkingEvent } from '../types/contact';
+import type { OfflineQueueItem } from '../services/storageService';
+
+export interface RemoteEvent {
+  id: string;
+  clientId: string | null;
+  name: string;
+  venue: string | null;
+  agendaUrl: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  contactIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * The tag given to contacts met at the event
+ */
+export function eventTag(event: Pick<NetworkingEvent, 'name'>): string {
+  return event.name.trim();
+}
+
+export function isEventOngoing(event: NetworkingEvent, today: string): boolean {
+  return event.startDate <= today && today <= (event.endDate || event.startDate);
+}
+
+/**
+ * Describe the event's dates, e.g. `2025-10-01` or `2025-10-01 – 2025-10-03`
+ */
+export function describeEventDates(event: Pick<NetworkingEvent, 'startDate' | 'endDate'>): string {
+  return event.endDate && event.endDate !== event.startDate
+    ? `${event.startDate} – ${event.endDate}`
+    : event.startDate;
+}
+
+/**
+ * Most recent first, so the event under way or just finished is at the top
+ */
+export function sortEvents(events: NetworkingEvent[]): NetworkingEvent[] {
+  return [...events].sort((a, b) => b.startDate.localeCompare(a.startDate) || a.name.localeCompare(b.name));
+}
+
+/**
+ * A new contact as met at the event: tagged with it, linked to it, and with the event as
+ * first-met location and today as first-met date unless those were already known
+ */
+export function applyActiveEvent(contact: Contact, event: NetworkingEvent, today: string): Contact {
+  const tag = eventTag(event);
+  const tags = contact.tags || [];
+  return {
+    ...contact,
+    firstMetEventId: event.id,
+    firstMetLocation: contact.firstMetLocation || event.name,
+    firstMetDate: contact.firstMetDate || today,
+    tags: tags.includes(tag) ? tags : [...tags, tag],
+  };
+}
+
+/**
+ * Contacts met at each event, and how many have been followed up: logged an interaction
+ * on a later day than they were met. Those not followed up yet but with a follow-up date
+ * set count as scheduled.
+ */
+export function buildEventStats(
+  events: NetworkingEvent[],
+  contacts: Contact[],
+  interactions: Interaction[]
+): Record<string, EventStats> {
+  const stats: Record<string, EventStats> = {};
+  const eventsById = new Map<string, NetworkingEvent>();
+  events.forEach(event => {
+    eventsById.set(event.id, event);
+    stats[event.id] = { contactsMet: 0, followUpsDone: 0, followUpsScheduled: 0 };
+  });
+
+  const lastInteractionDate = new Map<string, string>();
+  interactions.forEach(interaction => {
+    const latest = lastInteractionDate.get(interaction.contactId);
+    if (!latest || interaction.date > latest) {
+      lastInteractionDate.set(interaction.contactId, interaction.date);
+    }
+  });
+
+  contacts.forEach(contact => {
+    const event = contact.firstMetEventId ? eventsById.get(contact.firstMetEventId) : undefined;
+    if (!event) return;
+
+    const eventStats = stats[event.id];
+    eventStats.contactsMet += 1;
+
+    const metOn = contact.firstMetDate || event.startDate;
+    const latest = lastInteractionDate.get(contact.id) || contact.lastInteractionDate;
+    if (latest && latest > metOn) {
+      eventStats.followUpsDone += 1;
+    } else if (contact.nextFollowupDate) {
+      eventStats.followUpsScheduled += 1;
+    }
+  });
+
+  return stats;
+}
+
+/**
+ * Server IDs of the uploaded contacts met at the event, sent along when it is saved
+ */
+export function eventContactServerIds(event: NetworkingEvent, contacts: Contact[]): string[] {
+  return contacts
+    .filter(contact => contact.firstMetEventId === event.id && contact.serverId)
+    .map(contact => contact.serverId as string);
+}
+
+/**
+ * Combine this device's events with the server's list, as for saved searches: the
+ * server wins unless ours has changes still waiting to upload, and synced events the
+ * server no longer has were deleted elsewhere
+ */
+export function mergeEvents(
+  local: NetworkingEvent[],
+  remote: RemoteEvent[],
+  pendingDeletes: string[] = []
+): NetworkingEvent[] {
+  const deleted = new Set(pendingDeletes);
+  const remoteKeys = new Set<string>();
+  const kept = remote.filter(r => r.startDate && !deleted.has(r.id) && !(r.clientId && deleted.has(r.clientId)));
+  kept.forEach(r => {
+    remoteKeys.add(r.id);
+    if (r.clientId) remoteKeys.add(r.clientId);
+  });
+
+  const localByKey = new Map<string, NetworkingEvent>();
+  local.forEach(event => {
+    localByKey.set(event.id, event);
+    if (event.serverId) localByKey.set(event.serverId, event);
+  });
+
+  const fromServer = kept.map((r): NetworkingEvent => {
+    const mine = localByKey.get(r.id) || (r.clientId ? localByKey.get(r.clientId) : undefined);
+    if (mine && (mine.syncStatus === 'pending' || mine.syncStatus === 'failed')) {
+      return { ...mine, serverId: r.id };
+    }
+    return {
+      id: mine?.id || r.clientId || r.id,
+      name: r.name,
+      startDate: r.startDate as string,
+      endDate: r.endDate || undefined,
+      venue: r.venue || undefined,
+      agendaUrl: r.agendaUrl || undefined,
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+      serverId: r.id,
+      syncStatus: 'synced',
+    };
+  });
+
+  const localOnly = local.filter(event =>
+    !remoteKeys.has(event.id) &&
+    !(event.serverId && remoteKeys.has(event.serverId)) &&
+    event.syncStatus !== 'synced'
+  );
+
+  return sortEvents([...fromServer, ...localOnly]);
+}
+
+/**
+ * Link uploaded contacts to the events the server says they were met at, tagging them
+ * as if met while the event was active. Returns the same array if nothing changed.
+ */
+export function linkContactsToEvents(
+  contacts: Contact[],
+  events: NetworkingEvent[],
+  remote: RemoteEvent[]
+): Contact[] {
+  const eventsByServerId = new Map<string, NetworkingEvent>();
+  events.forEach(event => {
+    if (event.serverId) eventsByServerId.set(event.serverId, event);
+  });
+
+  const eventForContact = new Map<string, NetworkingEvent>();
+  remote.forEach(r => {
+    const event = eventsByServerId.get(r.id);
+    if (event) r.contactIds.forEach(contactId => eventForContact.set(contactId, event));
+  });
+
+  let changed = false;
+  const linked = contacts.map(contact => {
+    const event = contact.serverId ? eventForContact.get(contact.serverId) : undefined;
+    if (!event || contact.firstMetEventId === event.id) return contact;
+
+    changed = true;
+    return applyActiveEvent(contact, event, event.startDate);
+  });
+
+  return changed ? linked : contacts;
+}
+
+/**
+ * Sync status of each event given the offline queue, as for saved searches. Uploads
+ * that went through since are passed by local ID with the server IDs they were given.
+ */
+export function reconcileEventSync(
+  events: NetworkingEvent[],
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[],
+  serverIds: Record<string, string> = {}
+): NetworkingEvent[] {
+  const queued = queuedEventSaves(queue);
+
+  let changed = false;
+  const reconciled = events.map(event => {
+    if (!event.syncStatus || event.syncStatus === 'synced') return event;
+
+    // An event that left the queue without a server ID never made it, e.g. the app was closed mid-upload
+    const status = queued.get(event.id);
+    const serverId = event.serverId || serverIds[event.id];
+    const syncStatus: NetworkingEvent['syncStatus'] = status === 'failed'
+      ? 'failed'
+      : status || !serverId
+      ? 'pending'
+      : 'synced';
+    if (syncStatus === event.syncStatus && serverId === event.serverId) return event;
+
+    changed = true;
+    return { ...event, syncStatus, serverId };
+  });
+
+  return changed ? reconciled : events;
+}
+
+/**
+ * Pending events with no save in the queue, which have to be queued again
+ */
+export function unqueuedEventSaves(
+  events: NetworkingEvent[],
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[]
+): NetworkingEvent[] {
+  const queued = queuedEventSaves(queue);
+  return events.filter(event => event.syncStatus === 'pending' && !queued.has(event.id));
+}
+
+function queuedEventSaves(
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[]
+): Map<string, OfflineQueueItem['status']> {
+  const queued = new Map<string, OfflineQueueItem['status']>();
+  queue.forEach(item => {
+    if (item.type === 'save_event' && item.payload?.event?.id) {
+      queued.set(item.payload.event.id, item.status);
+    }
+  });
+  return queued;
+}
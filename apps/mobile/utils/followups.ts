@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Follow-up reminder helpers
+ *
+ * A follow-up is a contact's nextFollowupDate, optionally repeating every
+ * followupCadenceDays. Dates are calendar dates in the device's time zone.
+ */
+
+import type { Contact } from '../types/contact';
+import { displayName } from './duplicateDetection';
+import { todayDate } from './interactions';
+
+export type FollowupStatus = 'overdue' | 'due' | 'upcoming';
+
+export interface DueFollowup {
+  contact: Contact;
+  status: FollowupStatus;
+  /** Negative while the follow-up is still ahead */
+  daysOverdue: number;
+}
+
+export interface FollowupReminder {
+  identifier: string;
+  contactId: string;
+  date: Date;
+  title: string;
+  body: string;
+}
+
+export const FOLLOWUP_CADENCES: { days: number | null; label: string }[] = [
+  { days: null, label: 'Once' },
+  { days: 14, label: 'Every 2 weeks' },
+  { days: 30, label: 'Every month' },
+  { days: 90, label: 'Every 90 days' },
+  { days: 180, label: 'Every 6 months' },
+];
+
+export const SNOOZE_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: 'Tomorrow' },
+  { days: 7, label: 'Next week' },
+  { days: 30, label: 'Next month' },
+];
+
+export const REMINDER_ID_PREFIX = 'followup-';
+export const REMINDER_HOUR = 9;
+// iOS keeps at most 64 pending local notifications per app
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(date: string, days: number): string {
+  const result = parseDate(date);
+  result.setDate(result.getDate() + days);
+  return todayDate(result);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export function followupStatus(contact: Contact, today: string = todayDate()): FollowupStatus | null {
+  if (!contact.nextFollowupDate) return null;
+  if (contact.nextFollowupDate < today) return 'overdue';
+  return contact.nextFollowupDate === today ? 'due' : 'upcoming';
+}
+
+/**
+ * Contacts with a follow-up due by `today + withinDays`, most overdue first
+ */
+export function dueFollowups(contacts: Contact[], today: string = todayDate(), withinDays: number = 0): DueFollowup[] {
+  const until = addDays(today, withinDays);
+
+  return contacts
+    .filter(contact => contact.nextFollowupDate && contact.nextFollowupDate <= until)
+    .sort((a, b) => a.nextFollowupDate!.localeCompare(b.nextFollowupDate!))
+    .map(contact => ({
+      contact,
+      status: followupStatus(contact, today)!,
+      daysOverdue: daysBetween(contact.nextFollowupDate!, today),
+    }));
+}
+
+export function describeFollowup(followup: Pick<DueFollowup, 'status' | 'daysOverdue'>): string {
+  if (followup.status === 'due') return 'Due today';
+  if (followup.status === 'overdue') {
+    return followup.daysOverdue === 1 ? '1 day overdue' : `${followup.daysOverdue} days overdue`;
+  }
+  return followup.daysOverdue === -1 ? 'Due tomorrow' : `Due in ${-followup.daysOverdue} days`;
+}
+
+export function cadenceLabel(days?: number | null): string {
+  const preset = FOLLOWUP_CADENCES.find(option => option.days === (days || null));
+  return preset ? preset.label : `Every ${days} days`;
+}
+
+/**
+ * Mark the follow-up done: a recurring one moves to a cadence after today, a one-off is cleared
+ */
+export function completeFollowup(contact: Contact, today: string = todayDate()): Pick<Contact, 'nextFollowupDate' | 'followupCadenceDays'> {
+  if (!contact.followupCadenceDays) {
+    return { nextFollowupDate: undefined, followupCadenceDays: undefined };
+  }
+  return {
+    nextFollowupDate: addDays(today, contact.followupCadenceDays),
+    followupCadenceDays: contact.followupCadenceDays,
+  };
+}
+
+/**
+ * Push the follow-up back without touching its cadence
+ */
+export function snoozeFollowup(contact: Contact, days: number, today: string = todayDate()): Pick<Contact, 'nextFollowupDate' | 'followupCadenceDays'> {
+  return {
+    nextFollowupDate: addDays(today, days),
+    followupCadenceDays: contact.followupCadenceDays,
+  };
+}
+
+/**
+ * Local notifications to schedule: one per upcoming follow-up at REMINDER_HOUR on its
+ * date, soonest first. Follow-ups whose reminder time has passed are shown in the app.
+ */
+export function planFollowupReminders(contacts: Contact[], now: Date = new Date()): FollowupReminder[] {
+  return contacts
+    .filter(contact => contact.nextFollowupDate)
+    .map(contact => {
+      const date = parseDate(contact.nextFollowupDate!);
+      date.setHours(REMINDER_HOUR, 0, 0, 0);
+      return { contact, date };
+    })
+    .filter(({ date }) => !isNaN(date.getTime()) && date.getTime() > now.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS)
+    .map(({ contact, date }) => ({
+      identifier: `${REMINDER_ID_PREFIX}${contact.id}`,
+      contactId: contact.id,
+      date,
+      title: `Follow up with ${displayName(contact)}`,
+      body: [
+        contact.company,
+        contact.followupCadenceDays ? cadenceLabel(contact.followupCadenceDays).toLowerCase() : undefined,
+      ].filter(Boolean).join(' · ') || 'Time to get back in touch',
+    }));
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Interaction timeline helpers
+ *
+ * A contact's totalInteractions and lastInteractionDate may include history that never
+ * reached this device (for example interactions logged in HubSpot), so logging and
+ * deleting adjust the counters rather than recounting the local timeline.
+ */
+
+import type { Contact, Interaction, InteractionType } from '../types/contact';
+import type { OfflineQueueItem } from '../services/storageService';
+import { scoreConnection } from './connection-strength';
+
+export const INTERACTION_TYPES: { type: InteractionType; label: string }[] = [
+  { type: 'meeting', label: 'Meeting' },
+  { type: 'call', label: 'Call' },
+  { type: 'email', label: 'Email' },
+  { type: 'message', label: 'Message' },
+  { type: 'event', label: 'Event' },
+  { type: 'note', label: 'Note' },
+];
+
+export function interactionTypeLabel(type: InteractionType): string {
+  return INTERACTION_TYPES.find(option => option.type === type)?.label || type;
+}
+
+/**
+ * Today as YYYY-MM-DD in the device's time zone
+ */
+export function todayDate(now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function isValidInteractionDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
+}
+
+/**
+ * A contact's interactions, newest first
+ */
+export function contactTimeline(interactions: Interaction[], contactId: string): Interaction[] {
+  return interactions
+    .filter(interaction => interaction.contactId === contactId)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The contact after logging an interaction with it
+ */
+export function applyLoggedInteraction(contact: Contact, interaction: Interaction): Contact {
+  const lastInteractionDate = !contact.lastInteractionDate || interaction.date > contact.lastInteractionDate
+    ? interaction.date
+    : contact.lastInteractionDate;
+
+  return {
+    ...contact,
+    totalInteractions: (contact.totalInteractions || 0) + 1,
+    lastInteractionDate,
+    lastInteraction: Math.max(contact.lastInteraction || 0, Date.parse(lastInteractionDate)),
+  };
+}
+
+/**
+ * The contact after deleting one of its interactions. `remaining` is the rest of its
+ * local timeline; the last interaction date falls back to the newest of those.
+ */
+export function applyDeletedInteraction(contact: Contact, deleted: Interaction, remaining: Interaction[]): Contact {
+  let lastInteractionDate = contact.lastInteractionDate;
+
+  if (lastInteractionDate === deleted.date && !remaining.some(interaction => interaction.date === deleted.date)) {
+    lastInteractionDate = remaining.reduce<string | undefined>(
+      (latest, interaction) => (!latest || interaction.date > latest ? interaction.date : latest),
+      undefined
+    );
+  }
+
+  return {
+    ...contact,
+    totalInteractions: Math.max(0, (contact.totalInteractions || 0) - 1),
+    lastInteractionDate,
+  };
+}
+
+/**
+ * The contact with its connection score recomputed from its timeline. A locked
+ * (hand-set) level stays as it is; only the score and explanation change.
+ */
+export function applyConnectionScore(contact: Contact, timeline: Interaction[], now: Date = new Date()): Contact {
+  const result = scoreConnection(timeline, now);
+
+  return {
+    ...contact,
+    connectionScore: result.score,
+    connectionScoreExplanation: result.explanation,
+    connectionScoreFactors: result.factors,
+    connectionStrength: contact.connectionStrengthLocked ? contact.connectionStrength : result.strength,
+  };
+}
+
+/**
+ * Sync status of each interaction given the offline queue: uploads still queued are
+ * pending (or failed), pending ones that left the queue went through
+ */
+export function reconcileInteractionSync(
+  interactions: Interaction[],
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[]
+): Interaction[] {
+  const queued = new Map<string, OfflineQueueItem['status']>();
+  queue.forEach(item => {
+    if (item.type === 'add_interaction' && item.payload?.interaction?.id) {
+      queued.set(item.payload.interaction.id, item.status);
+    }
+  });
+
+  let changed = false;
+  const reconciled = interactions.map(interaction => {
+    if (!interaction.syncStatus || interaction.syncStatus === 'synced') return interaction;
+
+    const status = queued.get(interaction.id);
+    const syncStatus: Interaction['syncStatus'] = status === 'failed'
+      ? 'failed'
+      : status
+      ? 'pending'
+      : 'synced';
+    if (syncStatus === interaction.syncStatus) return interaction;
+
+    changed = true;
+    return { ...interaction, syncStatus };
+  });
+
+  return changed ? reconciled : interactions;
+}
@@ -0,0 +1,303 @@
+/**
+ * @fileoverview In-memory inverted index for contact search
+ *
+ * Maps each word in a contact's searchable fields to the contacts that contain it,
+ * so a lookup touches only the matching words instead of every contact. Words match
+ * by prefix, within a small edit distance ("Jonh", "Micheal") and, for names, by
+ * how they sound ("Kathryn" finds "Catherine").
+ *
+ * The index is kept current with sync(), which re-indexes only the contacts whose
+ * objects changed since the last call.
+ */
+
+import type { Contact } from '../types/contact';
+import { TEXT_FIELD_WEIGHTS, fieldValues, fold } from './searchQuery';
+
+export interface IndexLookup {
+  /** Contact ID to score: match quality (3 exact, 2 prefix, 1 typo or sound-alike) times field weight */
+  scores: Map<string, number>;
+  /** Indexed words that matched only as typos or sound-alikes, for highlighting */
+  fuzzyWords: string[];
+}
+
+const NAME_WEIGHT = TEXT_FIELD_WEIGHTS.name;
+const MAX_CACHED_LOOKUPS = 200;
+
+export function tokenize(text: string): string[] {
+  return fold(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Typos allowed for a word: none below 4 letters, where they'd match too much
+ */
+export function maxTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance counting an adjacent swap as one edit, or max + 1 once it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * A rough phonetic key for English names: similar-sounding spellings share a key,
+ * e.g. Steven/Stephen, Jon/John, Catherine/Kathryn
+ */
+export function phoneticKey(word: string): string {
+  let key = fold(word).replace(/[^a-z]/g, '');
+  if (!key) return '';
+
+  key = key
+    .replace(/^kn|^gn|^pn|^wr/, match => match[1])
+    .replace(/^x/, 's')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/sch/g, 'sk')
+    .replace(/th/g, '0')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/dg(?=[eiy])/g, 'j')
+    .replace(/g(?=[eiy])/g, 'j')
+    .replace(/gh(?![aeiou])/g, '')
+    .replace(/v/g, 'f')
+    .replace(/z/g, 's')
+    // "h" and "w" are silent unless a vowel follows
+    .replace(/([^aeiouy])h|h(?![aeiouy])/g, '$1')
+    .replace(/w(?![aeiouy])/g, '');
+
+  // Keep the first letter, drop later vowels, then collapse repeats
+  const first = /[aeiouy]/.test(key[0]) ? 'a' : key[0];
+  return (first + key.slice(1).replace(/[aeiouy]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+export class ContactSearchIndex {
+  /** Word to the contacts containing it, with the best field weight it appears in */
+  private postings = new Map<string, Map<string, number>>();
+  /** Phonetic key to the words that produce it */
+  private phonetic = new Map<string, Set<string>>();
+  private contactWords = new Map<string, string[]>();
+  private indexed = new Map<string, Contact>();
+  private vocabulary: string[] | null = null;
+  private vocabularyByLength: Map<number, string[]> | null = null;
+  private cache = new Map<string, IndexLookup>();
+
+  get size(): number {
+    return this.indexed.size;
+  }
+
+  /**
+   * Bring the index in line with the contact list. Contacts are compared by
+   * object identity, so only the ones replaced since the last sync are re-indexed.
+   */
+  sync(contacts: Contact[]): void {
+    const seen = new Set<string>();
+    contacts.forEach(contact => {
+      seen.add(contact.id);
+      if (this.indexed.get(contact.id) !== contact) this.update(contact);
+    });
+    Array.from(this.indexed.keys())
+      .filter(id => !seen.has(id))
+      .forEach(id => this.remove(id));
+  }
+
+  add(contact: Contact): void {
+    const weights = new Map<string, number>();
+    Object.keys(TEXT_FIELD_WEIGHTS).forEach(field => {
+      fieldValues(contact, field).forEach(value => {
+        const words = tokenize(value);
+        // Phone numbers are also searchable as one run of digits
+        if (field === 'phone') words.push(value.replace(/\D/g, ''));
+        words.filter(Boolean).forEach(word => {
+          weights.set(word, Math.max(weights.get(word) || 0, TEXT_FIELD_WEIGHTS[field]));
+        });
+      });
+    });
+
+    weights.forEach((weight, word) => {
+      let posting = this.postings.get(word);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(word, posting);
+        this.vocabulary = null;
+        this.vocabularyByLength = null;
+      }
+      posting.set(contact.id, weight);
+
+      if (weight === NAME_WEIGHT) {
+        const key = phoneticKey(word);
+        if (key) {
+          const words = this.phonetic.get(key) || new Set<string>();
+          words.add(word);
+          this.phonetic.set(key, words);
+        }
+      }
+    });
+
+    this.contactWords.set(contact.id, Array.from(weights.keys()));
+    this.indexed.set(contact.id, contact);
+    this.cache.clear();
+  }
+
+  remove(contactId: string): void {
+    const words = this.contactWords.get(contactId);
+    if (!words) return;
+
+    words.forEach(word => {
+      const posting = this.postings.get(word);
+      if (!posting) return;
+      posting.delete(contactId);
+      if (posting.size === 0) {
+        this.postings.delete(word);
+        this.phonetic.get(phoneticKey(word))?.delete(word);
+        this.vocabulary = null;
+        this.vocabularyByLength = null;
+      }
+    });
+
+    this.contactWords.delete(contactId);
+    this.indexed.delete(contactId);
+    this.cache.clear();
+  }
+
+  update(contact: Contact): void {
+    this.remove(contact.id);
+    this.add(contact);
+  }
+
+  /**
+   * Contacts matching free text. Every word of the text must match; a contact
+   * scores by its weakest word.
+   */
+  lookup(text: string): IndexLookup {
+    const words = tokenize(text);
+    if (words.length === 0) return { scores: new Map(), fuzzyWords: [] };
+
+    const lookups = words.map(word => this.lookupWord(word));
+    if (lookups.length === 1) return lookups[0];
+
+    const scores = new Map<string, number>();
+    lookups[0].scores.forEach((score, id) => {
+      const rest = lookups.slice(1).map(lookup => lookup.scores.get(id) || 0);
+      if (rest.every(Boolean)) scores.set(id, Math.min(score, ...rest));
+    });
+    return { scores, fuzzyWords: lookups.flatMap(lookup => lookup.fuzzyWords) };
+  }
+
+  private lookupWord(word: string): IndexLookup {
+    const cached = this.cache.get(word);
+    if (cached) return cached;
+
+    const scores = new Map<string, number>();
+    const matched = new Set<string>();
+    const fuzzyWords: string[] = [];
+    const collect = (token: string, quality: number, namesOnly = false) => {
+      this.postings.get(token)?.forEach((weight, id) => {
+        if (namesOnly && weight !== NAME_WEIGHT) return;
+        scores.set(id, Math.max(scores.get(id) || 0, quality * weight));
+      });
+    };
+
+    // Prefix matches sit next to each other in the sorted vocabulary
+    const vocabulary = this.sortedVocabulary();
+    for (let i = lowerBound(vocabulary, word); i < vocabulary.length && vocabulary[i].startsWith(word); i++) {
+      matched.add(vocabulary[i]);
+      collect(vocabulary[i], vocabulary[i] === word ? 3 : 2);
+    }
+
+    if (/^\d+$/.test(word)) {
+      // Digits match anywhere, so a number finds phones stored with a country code
+      if (word.length >= 3) {
+        vocabulary
+          .filter(token => !matched.has(token) && /^\d+$/.test(token) && token.includes(word))
+          .forEach(token => collect(token, 1));
+      }
+    } else {
+      const typos = maxTypos(word);
+      for (let length = word.length - typos; length <= word.length + typos; length++) {
+        this.wordsOfLength(length).forEach(token => {
+          if (matched.has(token) || !sameStart(word, token)) return;
+          if (editDistance(word, token, typos) <= typos) {
+            matched.add(token);
+            fuzzyWords.push(token);
+            collect(token, 1);
+          }
+        });
+      }
+
+      const key = word.length >= 3 ? phoneticKey(word) : '';
+      this.phonetic.get(key)?.forEach(token => {
+        if (matched.has(token)) return;
+        matched.add(token);
+        fuzzyWords.push(token);
+        collect(token, 1, true);
+      });
+    }
+
+    const lookup = { scores, fuzzyWords };
+    if (this.cache.size >= MAX_CACHED_LOOKUPS) this.cache.clear();
+    this.cache.set(word, lookup);
+    return lookup;
+  }
+
+  private sortedVocabulary(): string[] {
+    if (!this.vocabulary) {
+      this.vocabulary = Array.from(this.postings.keys()).sort();
+    }
+    return this.vocabulary;
+  }
+
+  private wordsOfLength(length: number): string[] {
+    if (!this.vocabularyByLength) {
+      this.vocabularyByLength = new Map();
+      this.sortedVocabulary().forEach(word => {
+        const words = this.vocabularyByLength!.get(word.length) || [];
+        words.push(word);
+        this.vocabularyByLength!.set(word.length, words);
+      });
+    }
+    return this.vocabularyByLength.get(length) || [];
+  }
+}
+
+/**
+ * Typos rarely hit the first letter, so only words starting alike (or with the
+ * first two letters swapped) are worth an edit distance check
+ */
+function sameStart(a: string, b: string): boolean {
+  return a[0] === b[0] || (a[0] === b[1] && a[1] === b[0]);
+}
+
+function lowerBound(sorted: string[], value: string): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
@@ -0,0 +1,718 @@
+/**
+ * @fileoverview Contact search query language
+ *
+ * Terms are ANDed unless joined by OR, and group with parentheses:
+ *
+ *   jane "product lead" tag:work OR tag:client -tag:cold NOT city:paris
+ *   company:"Acme Corp" met:>2025-01-01 met:2024..2024-06 followup:overdue
+ *
+ * FIELD_DEFINITIONS drive the parser, the matcher and the completions, so a
+ * field added there is searchable and suggested everywhere.
+ */
+
+import type { Contact } from '../types/contact';
+import { contactIdentifiers, displayName } from './duplicateDetection';
+import { todayDate } from './interactions';
+import type { ContactSearchIndex } from './searchIndex';
+
+export type FieldKind = 'text' | 'date' | 'enum';
+
+export interface SearchField {
+  name: string;
+  aliases: string[];
+  kind: FieldKind;
+  description: string;
+  /** Allowed values of an enum field, or the keywords a date field understands */
+  values?: string[];
+}
+
+const DATE_KEYWORDS = ['today', 'any', 'none'];
+
+export const FIELD_DEFINITIONS: SearchField[] = [
+  { name: 'name', aliases: [], kind: 'text', description: 'Name' },
+  { name: 'company', aliases: ['comp'], kind: 'text', description: 'Company' },
+  { name: 'title', aliases: ['job'], kind: 'text', description: 'Job title' },
+  { name: 'tag', aliases: ['tags'], kind: 'text', description: 'Tag' },
+  { name: 'group', aliases: ['groups'], kind: 'text', description: 'Group' },
+  { name: 'city', aliases: ['location'], kind: 'text', description: 'City' },
+  { name: 'country', aliases: [], kind: 'text', description: 'Country' },
+  { name: 'email', aliases: [], kind: 'text', description: 'Email address' },
+  { name: 'phone', aliases: [], kind: 'text', description: 'Phone number' },
+  { name: 'notes', aliases: ['note'], kind: 'text', description: 'Notes' },
+  { name: 'where', aliases: [], kind: 'text', description: 'Where you met' },
+  { name: 'met', aliases: [], kind: 'date', description: 'Date you met', values: DATE_KEYWORDS },
+  { name: 'last', aliases: [], kind: 'date', description: 'Last interaction', values: DATE_KEYWORDS },
+  { name: 'created', aliases: ['added'], kind: 'date', description: 'Date added', values: DATE_KEYWORDS },
+  {
+    name: 'followup',
+    aliases: [],
+    kind: 'date',
+    description: 'Next follow-up',
+    values: ['overdue', 'due', 'upcoming', ...DATE_KEYWORDS],
+  },
+  { name: 'strength', aliases: [], kind: 'enum', description: 'Connection strength', values: ['strong', 'medium', 'weak'] },
+  { name: 'value', aliases: [], kind: 'enum', description: 'Contact value', values: ['high', 'medium', 'low'] },
+  { name: 'is', aliases: [], kind: 'enum', description: 'Status', values: ['starred', 'synced', 'pending', 'failed'] },
+  {
+    name: 'has',
+    aliases: [],
+    kind: 'enum',
+    description: 'Has a field filled in',
+    values: ['email', 'phone', 'linkedin', 'company', 'title', 'city', 'notes', 'tags', 'followup'],
+  },
+];
+
+export const QUERY_OPERATORS = ['OR', 'AND', 'NOT'] as const;
+
+// Match weight per text field; free text counts its best field
+export const TEXT_FIELD_WEIGHTS: Record<string, number> = {
+  name: 10,
+  company: 6,
+  title: 5,
+  tag: 5,
+  group: 4,
+  email: 4,
+  phone: 3,
+  where: 3,
+  city: 3,
+  country: 2,
+  notes: 1,
+};
+
+interface DateBound {
+  date: string;
+  inclusive: boolean;
+}
+
+export interface DateCondition {
+  keyword?: string;
+  after?: DateBound;
+  before?: DateBound;
+}
+
+export interface QueryTerm {
+  /** Canonical field name, or null for free text */
+  field: string | null;
+  value: string;
+  phrase: boolean;
+  date?: DateCondition;
+}
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; term: QueryTerm };
+
+export interface ParsedQuery {
+  /** Null when the query has no usable terms */
+  root: QueryNode | null;
+  /** Terms that aren't negated; these drive ranking and highlighting */
+  positiveTerms: QueryTerm[];
+  /** Terms that were dropped, e.g. `met:someday` */
+  errors: string[];
+}
+
+type Token =
+  | { type: 'open' | 'close'; start: number; end: number }
+  | { type: 'operator'; operator: typeof QUERY_OPERATORS[number]; start: number; end: number }
+  | {
+      type: 'term';
+      negated: boolean;
+      /** As typed after the optional field prefix, quotes included */
+      rawValue: string;
+      field: SearchField | null;
+      value: string;
+      phrase: boolean;
+      start: number;
+      end: number;
+    };
+
+export function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function findField(name: string): SearchField | null {
+  const lower = name.toLowerCase();
+  return FIELD_DEFINITIONS.find(field => field.name === lower || field.aliases.includes(lower)) || null;
+}
+
+function unquote(raw: string): { value: string; phrase: boolean } {
+  const phrase = raw.includes('"');
+  return { value: raw.replace(/"/g, '').trim(), phrase };
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    if (negated && query[i] === '(') {
+      tokens.push({ type: 'operator', operator: 'NOT', start, end: i });
+      continue;
+    }
+
+    // A word runs to whitespace or a parenthesis; quoted sections may contain either
+    let word = '';
+    while (i < query.length && !/[\s()]/.test(query[i])) {
+      if (query[i] === '"') {
+        const close = query.indexOf('"', i + 1);
+        const stop = close === -1 ? query.length : close + 1;
+        word += query.slice(i, stop);
+        i = stop;
+      } else {
+        word += query[i];
+        i++;
+      }
+    }
+
+    if (!negated && (QUERY_OPERATORS as readonly string[]).includes(word)) {
+      tokens.push({ type: 'operator', operator: word as typeof QUERY_OPERATORS[number], start, end: i });
+      continue;
+    }
+
+    const fieldMatch = word.match(/^([a-z]+):(.*)$/i);
+    const field = fieldMatch ? findField(fieldMatch[1]) : null;
+    const rawValue = field ? fieldMatch![2] : word;
+    tokens.push({ type: 'term', negated, field, rawValue, ...unquote(rawValue), start, end: i });
+  }
+
+  return tokens;
+}
+
+function periodBounds(value: string): { start: string; end: string } | null {
+  const match = value.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  if (month && (Number(month) < 1 || Number(month) > 12)) return null;
+  if (day && (Number(day) < 1 || Number(day) > 31)) return null;
+  if (day) return { start: value, end: value };
+  // Dates compare as strings, so the last day of a month needn't exist
+  if (month) return { start: `${year}-${month}-01`, end: `${year}-${month}-31` };
+  return { start: `${year}-01-01`, end: `${year}-12-31` };
+}
+
+/**
+ * Parse a date field's value: a keyword, a period (2025, 2025-03, 2025-03-14),
+ * a comparison (>2025-01-01, <=2025-06) or a range (2025-01..2025-03, ..2024)
+ */
+export function parseDateCondition(field: SearchField, value: string): DateCondition | null {
+  const lower = value.toLowerCase();
+  if (field.values?.includes(lower)) return { keyword: lower };
+
+  const comparison = lower.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    const [, operator, rest] = comparison;
+    const bounds = periodBounds(rest);
+    if (!bounds) return null;
+    switch (operator) {
+      case '>': return { after: { date: bounds.end, inclusive: false } };
+      case '>=': return { after: { date: bounds.start, inclusive: true } };
+      case '<': return { before: { date: bounds.start, inclusive: false } };
+      default: return { before: { date: bounds.end, inclusive: true } };
+    }
+  }
+
+  const range = lower.match(/^(.*)\.\.(.*)$/);
+  if (range) {
+    const [, from, to] = range;
+    const fromBounds = from ? periodBounds(from) : null;
+    const toBounds = to ? periodBounds(to) : null;
+    if ((from && !fromBounds) || (to && !toBounds) || (!from && !to)) return null;
+    return {
+      after: fromBounds ? { date: fromBounds.start, inclusive: true } : undefined,
+      before: toBounds ? { date: toBounds.end, inclusive: true } : undefined,
+    };
+  }
+
+  const bounds = periodBounds(lower);
+  return bounds
+    ? { after: { date: bounds.start, inclusive: true }, before: { date: bounds.end, inclusive: true } }
+    : null;
+}
+
+function termFromToken(token: Extract<Token, { type: 'term' }>, errors: string[]): QueryTerm | null {
+  if (!token.value) return null;
+  const { field } = token;
+
+  if (field?.kind === 'date') {
+    const date = parseDateCondition(field, token.value);
+    if (!date) {
+      errors.push(`${field.name}: expects a date like 2025-03, >2025-01-01 or 2025-01..2025-06`);
+      return null;
+    }
+    return { field: field.name, value: token.value, phrase: false, date };
+  }
+
+  if (field?.kind === 'enum' && !field.values!.includes(token.value.toLowerCase())) {
+    errors.push(`${field.name}: expects ${field.values!.join(', ')}`);
+    return null;
+  }
+
+  return { field: field ? field.name : null, value: token.value, phrase: token.phrase };
+}
+
+class Parser {
+  private pos = 0;
+  readonly positiveTerms: QueryTerm[] = [];
+  readonly errors: string[] = [];
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode | null {
+    const nodes: QueryNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const node = this.parseOr(false);
+      if (node) nodes.push(node);
+      // An unmatched ")" is skipped rather than ending the query
+      if (this.peek()?.type === 'close') this.pos++;
+    }
+    return combine('and', nodes);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOperator(operator: typeof QUERY_OPERATORS[number]): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && token.operator === operator;
+  }
+
+  private parseOr(negated: boolean): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = this.parseAnd(negated);
+    if (first) children.push(first);
+    while (this.isOperator('OR')) {
+      this.pos++;
+      const next = this.parseAnd(negated);
+      if (next) children.push(next);
+    }
+    return combine('or', children);
+  }
+
+  private parseAnd(negated: boolean): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.type === 'close' || this.isOperator('OR')) break;
+      if (this.isOperator('AND')) {
+        this.pos++;
+        continue;
+      }
+      const node = this.parseUnary(negated);
+      if (node) children.push(node);
+    }
+    return combine('and', children);
+  }
+
+  private parseUnary(negated: boolean): QueryNode | null {
+    if (this.isOperator('NOT')) {
+      this.pos++;
+      const child = this.parseUnary(!negated);
+      return child ? { type: 'not', child } : null;
+    }
+    return this.parsePrimary(negated);
+  }
+
+  private parsePrimary(negated: boolean): QueryNode | null {
+    const token = this.peek();
+    if (!token || token.type === 'close') return null;
+    this.pos++;
+    if (token.type === 'open') {
+      const node = this.parseOr(negated);
+      if (this.peek()?.type === 'close') this.pos++;
+      return node;
+    }
+    if (token.type !== 'term') return null;
+
+    const term = termFromToken(token, this.errors);
+    if (!term) return null;
+    const node: QueryNode = { type: 'term', term };
+    if (negated === token.negated) this.positiveTerms.push(term);
+    return token.negated ? { type: 'not', child: node } : node;
+  }
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parser = new Parser(tokenize(query));
+  const root = parser.parse();
+  return { root, positiveTerms: parser.positiveTerms, errors: parser.errors };
+}
+
+// ---------------------------------------------------------------------------
+// Matching and ranking
+// ---------------------------------------------------------------------------
+
+export interface MatchOptions {
+  /** YYYY-MM-DD; defaults to the device's today */
+  today?: string;
+  /** Resolves free-text words by prefix, typo and sound-alike instead of substring */
+  index?: ContactSearchIndex;
+}
+
+type MatchContext = MatchOptions & { today: string };
+
+function matchContext(options: MatchOptions): MatchContext {
+  return { ...options, today: options.today || todayDate() };
+}
+
+export function fieldValues(contact: Contact, field: string): string[] {
+  const identifiers = field === 'email' || field === 'phone' ? contactIdentifiers(contact) : [];
+  let values: (string | undefined)[];
+  switch (field) {
+    case 'name': values = [displayName(contact)]; break;
+    case 'company': values = [contact.company]; break;
+    case 'title': values = [contact.title || contact.jobTitle]; break;
+    case 'tag': values = contact.tags || []; break;
+    case 'group': values = contact.groups || []; break;
+    case 'city': values = [contact.city]; break;
+    case 'country': values = [contact.country]; break;
+    case 'email':
+    case 'phone': values = identifiers.filter(identifier => identifier.type === field).map(identifier => identifier.value); break;
+    case 'notes': values = [contact.notes, contact.note]; break;
+    case 'where': values = [contact.firstMetLocation]; break;
+    default: values = [];
+  }
+  return values.filter((value): value is string => !!value);
+}
+
+function dateValue(contact: Contact, field: string): string | undefined {
+  switch (field) {
+    case 'met': return contact.firstMetDate?.slice(0, 10);
+    case 'last':
+      return contact.lastInteractionDate?.slice(0, 10)
+        || (contact.lastInteraction ? todayDate(new Date(contact.lastInteraction)) : undefined);
+    case 'created': return contact.createdAt?.slice(0, 10);
+    case 'followup': return contact.nextFollowupDate;
+    default: return undefined;
+  }
+}
+
+// 3 for the whole value, 2 for the start of a word, 1 anywhere, 0 for no match
+function matchQuality(value: string, term: string): number {
+  const folded = fold(value);
+  const index = folded.indexOf(term);
+  if (index === -1) return 0;
+  if (folded.length === term.length) return 3;
+  return index === 0 || /[^a-z0-9]/.test(folded[index - 1]) ? 2 : 1;
+}
+
+function phoneQuality(value: string, term: string): number {
+  const digits = term.replace(/\D/g, '');
+  if (digits.length >= 3 && value.replace(/\D/g, '').includes(digits)) return 2;
+  return matchQuality(value, term);
+}
+
+function fieldQuality(contact: Contact, field: string, term: string): number {
+  const quality = field === 'phone' ? phoneQuality : matchQuality;
+  return fieldValues(contact, field).reduce((best, value) => Math.max(best, quality(value, term)), 0);
+}
+
+function matchesDate(date: string | undefined, condition: DateCondition, today: string): boolean {
+  switch (condition.keyword) {
+    case 'any': return !!date;
+    case 'none': return !date;
+    case 'today': return date === today;
+    case 'overdue': return !!date && date < today;
+    case 'due': return !!date && date <= today;
+    case 'upcoming': return !!date && date > today;
+  }
+  if (!date) return false;
+  const { after, before } = condition;
+  if (after && (after.inclusive ? date < after.date : date <= after.date)) return false;
+  if (before && (before.inclusive ? date > before.date : date >= before.date)) return false;
+  return true;
+}
+
+function matchesEnum(contact: Contact, field: string, value: string): boolean {
+  switch (field) {
+    case 'strength': return contact.connectionStrength?.toLowerCase() === value;
+    case 'value': return contact.contactValue?.toLowerCase() === value;
+    case 'is':
+      return value === 'starred' ? !!contact.starred : contact.syncStatus === value;
+    case 'has':
+      switch (value) {
+        case 'email':
+        case 'phone':
+        case 'linkedin':
+          return contactIdentifiers(contact).some(identifier => identifier.type === value);
+        case 'tags': return (contact.tags || []).length > 0;
+        case 'followup': return !!contact.nextFollowupDate;
+        default: return fieldValues(contact, value).length > 0;
+      }
+    default: return false;
+  }
+}
+
+/**
+ * How well a contact matches a term; 0 means it doesn't
+ */
+function termScore(contact: Contact, term: QueryTerm, context: MatchContext): number {
+  const field = term.field ? findField(term.field)! : null;
+
+  if (field?.kind === 'date') return matchesDate(dateValue(contact, field.name), term.date!, context.today) ? 1 : 0;
+  if (field?.kind === 'enum') return matchesEnum(contact, field.name, term.value.toLowerCase()) ? 1 : 0;
+  if (!field && !term.phrase && context.index) return context.index.lookup(term.value).scores.get(contact.id) || 0;
+
+  const value = fold(term.value);
+  const fields = field ? [field.name] : Object.keys(TEXT_FIELD_WEIGHTS);
+  return fields.reduce((best, name) => Math.max(best, fieldQuality(contact, name, value) * TEXT_FIELD_WEIGHTS[name]), 0);
+}
+
+function matchesNode(contact: Contact, node: QueryNode, context: MatchContext): boolean {
+  switch (node.type) {
+    case 'and': return node.children.every(child => matchesNode(contact, child, context));
+    case 'or': return node.children.some(child => matchesNode(contact, child, context));
+    case 'not': return !matchesNode(contact, node.child, context);
+    default: return termScore(contact, node.term, context) > 0;
+  }
+}
+
+export function matchesQuery(contact: Contact, parsed: ParsedQuery, options: MatchOptions = {}): boolean {
+  return !parsed.root || matchesNode(contact, parsed.root, matchContext(options));
+}
+
+/**
+ * Relevance of a matching contact: the sum of its positive term scores, so a
+ * name hit outranks a notes hit and whole-value hits outrank partial ones
+ */
+export function scoreContact(contact: Contact, parsed: ParsedQuery, options: MatchOptions = {}): number {
+  const context = matchContext(options);
+  return parsed.positiveTerms.reduce((total, term) => total + termScore(contact, term, context), 0);
+}
+
+/**
+ * Contacts matching the query, most relevant first; ties keep their order
+ */
+export function rankContacts(contacts: Contact[], parsed: ParsedQuery, options: MatchOptions = {}): Contact[] {
+  if (!parsed.root) return contacts;
+  const context = matchContext(options);
+
+  return contacts
+    .filter(contact => matchesNode(contact, parsed.root!, context))
+    .map((contact, index) => ({ contact, index, score: scoreContact(contact, parsed, context) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ contact }) => contact);
+}
+
+// ---------------------------------------------------------------------------
+// Highlighting
+// ---------------------------------------------------------------------------
+
+/** Words to highlight: free-text terms apply to every field */
+export interface HighlightTerms {
+  any: string[];
+  byField: Record<string, string[]>;
+}
+
+export const NO_HIGHLIGHTS: HighlightTerms = { any: [], byField: {} };
+
+/**
+ * With an index, words a free-text term matched as a typo or sound-alike are highlighted too
+ */
+export function highlightTerms(parsed: ParsedQuery, index?: ContactSearchIndex): HighlightTerms {
+  const highlights: HighlightTerms = { any: [], byField: {} };
+  parsed.positiveTerms.forEach(term => {
+    if (!term.field) {
+      highlights.any.push(term.value);
+      if (index && !term.phrase) highlights.any.push(...index.lookup(term.value).fuzzyWords);
+    } else if (findField(term.field)?.kind === 'text') {
+      (highlights.byField[term.field] = highlights.byField[term.field] || []).push(term.value);
+    }
+  });
+  return highlights;
+}
+
+export function termsForField(highlights: HighlightTerms, field: string): string[] {
+  return [...highlights.any, ...(highlights.byField[field] || [])];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into matched and unmatched runs, ignoring case and accents
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const needles = terms.map(fold).filter(Boolean);
+  if (!text || needles.length === 0) return [{ text, match: false }];
+
+  // Folding can change length ("é" becomes "e"), so map each folded char back to its source
+  let folded = '';
+  const sourceIndex: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const foldedChar = fold(text[i]);
+    for (let j = 0; j < foldedChar.length; j++) sourceIndex.push(i);
+    folded += foldedChar;
+  }
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  needles.forEach(needle => {
+    for (let at = folded.indexOf(needle); at !== -1; at = folded.indexOf(needle, at + needle.length)) {
+      for (let k = sourceIndex[at]; k <= sourceIndex[at + needle.length - 1]; k++) marked[k] = true;
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Completions
+// ---------------------------------------------------------------------------
+
+export interface CompletionSources {
+  tags: string[];
+  groups: string[];
+  companies: string[];
+  cities: string[];
+  countries?: string[];
+}
+
+export interface QueryCompletion {
+  /** The whole query after accepting the completion */
+  text: string;
+  label: string;
+  description: string;
+  kind: 'field' | 'value' | 'operator';
+  field?: string;
+}
+
+const MAX_COMPLETIONS = 8;
+
+function knownValues(field: SearchField, sources: CompletionSources): string[] {
+  switch (field.name) {
+    case 'tag': return sources.tags;
+    case 'group': return sources.groups;
+    case 'company': return sources.companies;
+    case 'city': return sources.cities;
+    case 'country': return sources.countries || [];
+    default: return field.values || [];
+  }
+}
+
+function quoteValue(value: string): string {
+  return /[\s()]/.test(value) ? `"${value}"` : value;
+}
+
+function valueCompletions(
+  before: string,
+  negated: boolean,
+  field: SearchField,
+  partial: string,
+  sources: CompletionSources
+): QueryCompletion[] {
+  const wanted = fold(partial);
+  const prefix = `${before}${negated ? '-' : ''}${field.name}:`;
+  return knownValues(field, sources)
+    .filter(value => fold(value).includes(wanted) && fold(value) !== wanted)
+    // Prefix matches first; sort is stable, so enum values keep their defined order
+    .sort((a, b) => Number(!fold(a).startsWith(wanted)) - Number(!fold(b).startsWith(wanted)))
+    .map(value => ({
+      text: `${prefix}${quoteValue(value)}`,
+      label: `${negated ? '-' : ''}${field.name}:${quoteValue(value)}`,
+      description: negated ? `${field.description} is not ${value}` : `${field.description}: ${value}`,
+      kind: 'value' as const,
+      field: field.name,
+    }));
+}
+
+function fieldCompletion(before: string, negated: boolean, field: SearchField): QueryCompletion {
+  const label = `${negated ? '-' : ''}${field.name}:`;
+  const examples = field.values ? ` (${field.values.slice(0, 3).join(', ')}…)` : '';
+  return {
+    text: `${before}${label}`,
+    label,
+    description: `${negated ? 'Exclude by ' : 'Search by '}${field.description.toLowerCase()}${examples}`,
+    kind: 'field',
+    field: field.name,
+  };
+}
+
+/**
+ * Suggestions for the word being typed at the end of the query, each a complete
+ * query. A field prefix completes to its values; a bare word completes to field
+ * names, operators and known tags, companies, cities and groups.
+ */
+export function completeQuery(query: string, sources: CompletionSources): QueryCompletion[] {
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1];
+  const typing = last && last.type === 'term' && last.end === query.length && !/\s$/.test(query);
+
+  if (!typing) {
+    // Between terms: offer OR after a term, then fields
+    const base = query && !/[\s(]$/.test(query) ? `${query} ` : query;
+    const completions: QueryCompletion[] = [];
+    if (last && (last.type === 'term' || last.type === 'close')) {
+      completions.push({ text: `${base}OR `, label: 'OR', description: 'Match either side', kind: 'operator' });
+    }
+    return [
+      ...completions,
+      ...FIELD_DEFINITIONS.map(field => fieldCompletion(base, false, field)),
+    ].slice(0, MAX_COMPLETIONS);
+  }
+
+  const before = query.slice(0, last.start);
+  if (last.field) {
+    // The quote was left open or the value is still being typed
+    const partial = last.rawValue.replace(/"/g, '');
+    return valueCompletions(before, last.negated, last.field, partial, sources).slice(0, MAX_COMPLETIONS);
+  }
+
+  const word = fold(last.value);
+  const completions: QueryCompletion[] = [];
+
+  if (!last.negated && !last.phrase && tokens.length > 1) {
+    QUERY_OPERATORS
+      .filter(operator => operator !== 'AND' && operator.toLowerCase().startsWith(word) && operator.toLowerCase() !== word)
+      .forEach(operator => completions.push({
+        text: `${before}${operator} `,
+        label: operator,
+        description: operator === 'OR' ? 'Match either side' : 'Exclude what follows',
+        kind: 'operator',
+      }));
+  }
+
+  if (!last.phrase) {
+    FIELD_DEFINITIONS
+      .filter(field => [field.name, ...field.aliases].some(name => name.startsWith(word)))
+      .forEach(field => completions.push(fieldCompletion(before, last.negated, field)));
+  }
+
+  FIELD_DEFINITIONS
+    .filter(field => field.kind === 'text')
+    .forEach(field => completions.push(...valueCompletions(before, last.negated, field, last.value, sources).slice(0, 3)));
+
+  return completions.slice(0, MAX_COMPLETIONS);
+}
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Contact filters and smart lists
+ *
+ * A smart list is a saved set of ContactFilters. Its members aren't stored: they are
+ * the contacts the filters match right now, so counts stay live as contacts change.
+ * applyContactFilters is the same filtering the contacts view uses.
+ */
+
+import type { Contact, ContactFilters, SavedSearch } from '../types/contact';
+import type { OfflineQueueItem } from '../services/storageService';
+import { contactIdentifiers } from './duplicateDetection';
+import { parseSearchQuery, rankContacts, type ParsedQuery } from './searchQuery';
+import type { ContactSearchIndex } from './searchIndex';
+
+const RECENT_INTERACTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SmartList {
+  search: SavedSearch;
+  count: number;
+}
+
+export interface ContactFilterOptions {
+  /** The filters' query, parsed; parsed here when not given */
+  parsed?: ParsedQuery;
+  index?: ContactSearchIndex;
+  /** Current time in ms, for the recent interaction filter */
+  now?: number;
+}
+
+function includesText(value: string | undefined, text: string): boolean {
+  return (value || '').toLowerCase().includes(text.toLowerCase());
+}
+
+function hasIdentifier(contact: Contact, type: 'email' | 'phone' | 'linkedin'): boolean {
+  return contactIdentifiers(contact).some(identifier => identifier.type === type);
+}
+
+function compareContacts(a: Contact, b: Contact, sortBy: NonNullable<ContactFilters['sortBy']>): number {
+  switch (sortBy) {
+    case 'name':
+      return (a.name || '').localeCompare(b.name || '');
+    case 'company':
+      return (a.company || '').localeCompare(b.company || '');
+    case 'lastInteraction':
+      return (b.lastInteraction || 0) - (a.lastInteraction || 0); // Most recent first by default
+    case 'created':
+      return new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
+  }
+}
+
+/**
+ * Contacts matching the filters: ranked by the search query, unless a sort is chosen
+ */
+export function applyContactFilters(
+  contacts: Contact[],
+  filters: ContactFilters,
+  options: ContactFilterOptions = {}
+): Contact[] {
+  const parsed = options.parsed || parseSearchQuery(filters.query || '');
+  const recentSince = (options.now ?? Date.now()) - RECENT_INTERACTION_MS;
+
+  let filtered = parsed.root ? rankContacts(contacts, parsed, { index: options.index }) : [...contacts];
+
+  filtered = filtered.filter(c =>
+    (!filters.starred || c.starred) &&
+    (!filters.hasEmail || hasIdentifier(c, 'email')) &&
+    (!filters.hasPhone || hasIdentifier(c, 'phone')) &&
+    (!filters.hasLinkedIn || hasIdentifier(c, 'linkedin')) &&
+    (!filters.group || (c.groups || []).includes(filters.group)) &&
+    (!filters.tags || filters.tags.length === 0 || filters.tags.some(tag => c.tags.includes(tag))) &&
+    (!filters.company || includesText(c.company, filters.company)) &&
+    (!filters.city || includesText(c.city, filters.city)) &&
+    (!filters.country || includesText(c.country, filters.country)) &&
+    (!filters.recentInteraction || (c.lastInteraction || 0) > recentSince)
+  );
+
+  const { sortBy } = filters;
+  if (sortBy) {
+    filtered.sort((a, b) => {
+      const comparison = compareContacts(a, b, sortBy);
+      return filters.sortOrder === 'desc' ? -comparison : comparison;
+    });
+  }
+
+  return filtered;
+}
+
+/**
+ * Whether the filters narrow the list at all, i.e. are worth saving
+ */
+export function hasActiveFilters(filters: ContactFilters): boolean {
+  return Boolean(
+    filters.query?.trim() ||
+    filters.starred ||
+    filters.hasEmail ||
+    filters.hasPhone ||
+    filters.hasLinkedIn ||
+    filters.group ||
+    filters.tags?.length ||
+    filters.company ||
+    filters.city ||
+    filters.country ||
+    filters.recentInteraction
+  );
+}
+
+/**
+ * A short description of the filters, e.g. `"tag:client" · Starred · Has email`
+ */
+export function describeFilters(filters: ContactFilters): string {
+  const parts: string[] = [];
+  if (filters.query?.trim()) parts.push(`"${filters.query.trim()}"`);
+  if (filters.starred) parts.push('Starred');
+  if (filters.group) parts.push(`Group: ${filters.group}`);
+  if (filters.tags?.length) parts.push(`Tags: ${filters.tags.join(', ')}`);
+  if (filters.company) parts.push(`Company: ${filters.company}`);
+  if (filters.city) parts.push(`City: ${filters.city}`);
+  if (filters.country) parts.push(`Country: ${filters.country}`);
+  if (filters.hasEmail) parts.push('Has email');
+  if (filters.hasPhone) parts.push('Has phone');
+  if (filters.hasLinkedIn) parts.push('Has LinkedIn');
+  if (filters.recentInteraction) parts.push('Contacted in the last 30 days');
+  return parts.join(' · ') || 'All contacts';
+}
+
+/**
+ * Pinned lists first, then oldest first so lists don't jump around as they're added
+ */
+export function sortSavedSearches(searches: SavedSearch[]): SavedSearch[] {
+  return [...searches].sort((a, b) => {
+    if (Boolean(a.pinned) !== Boolean(b.pinned)) return a.pinned ? -1 : 1;
+    return a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0;
+  });
+}
+
+/**
+ * Every saved search with the number of contacts it matches now
+ */
+export function buildSmartLists(
+  contacts: Contact[],
+  searches: SavedSearch[],
+  options: Omit<ContactFilterOptions, 'parsed'> = {}
+): SmartList[] {
+  return sortSavedSearches(searches).map(search => ({
+    search,
+    count: applyContactFilters(contacts, search.filters, options).length,
+  }));
+}
+
+export interface RemoteSavedSearch {
+  id: string;
+  clientId: string | null;
+  name: string;
+  filters: ContactFilters;
+  pinned: boolean;
+  hubspotListId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Combine this device's saved searches with the server's list. The server wins for
+ * searches both know unless ours has changes still waiting to upload; synced searches
+ * the server no longer has were deleted on another device. Searches whose delete is
+ * still queued here stay deleted.
+ */
+export function mergeSavedSearches(
+  local: SavedSearch[],
+  remote: RemoteSavedSearch[],
+  pendingDeletes: string[] = []
+): SavedSearch[] {
+  const deleted = new Set(pendingDeletes);
+  const remoteKeys = new Set<string>();
+  const kept = remote.filter(r => !deleted.has(r.id) && !(r.clientId && deleted.has(r.clientId)));
+  kept.forEach(r => {
+    remoteKeys.add(r.id);
+    if (r.clientId) remoteKeys.add(r.clientId);
+  });
+
+  const localByKey = new Map<string, SavedSearch>();
+  local.forEach(search => {
+    localByKey.set(search.id, search);
+    if (search.serverId) localByKey.set(search.serverId, search);
+  });
+
+  const fromServer = kept.map((r): SavedSearch => {
+    const mine = localByKey.get(r.id) || (r.clientId ? localByKey.get(r.clientId) : undefined);
+    if (mine && (mine.syncStatus === 'pending' || mine.syncStatus === 'failed')) {
+      return { ...mine, serverId: r.id, hubspotListId: r.hubspotListId || mine.hubspotListId };
+    }
+    return {
+      id: mine?.id || r.clientId || r.id,
+      name: r.name,
+      filters: r.filters,
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+      pinned: r.pinned,
+      serverId: r.id,
+      hubspotListId: r.hubspotListId || undefined,
+      syncStatus: 'synced',
+    };
+  });
+
+  const localOnly = local.filter(search =>
+    !remoteKeys.has(search.id) &&
+    !(search.serverId && remoteKeys.has(search.serverId)) &&
+    search.syncStatus !== 'synced'
+  );
+
+  return sortSavedSearches([...fromServer, ...localOnly]);
+}
+
+/**
+ * Sync status of each saved search given the offline queue, as for interactions:
+ * saves still queued are pending (or failed), pending ones that left the queue went
+ * through if they have a server ID. Uploads that went through since are passed by
+ * local ID with the server IDs they were given.
+ */
+export function reconcileSavedSearchSync(
+  searches: SavedSearch[],
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[],
+  serverIds: Record<string, string> = {}
+): SavedSearch[] {
+  const queued = queuedSearchSaves(queue);
+
+  let changed = false;
+  const reconciled = searches.map(search => {
+    if (!search.syncStatus || search.syncStatus === 'synced') return search;
+
+    // A save that left the queue without a server ID never made it, e.g. the app was closed mid-upload
+    const status = queued.get(search.id);
+    const serverId = search.serverId || serverIds[search.id];
+    const syncStatus: SavedSearch['syncStatus'] = status === 'failed'
+      ? 'failed'
+      : status || !serverId
+      ? 'pending'
+      : 'synced';
+    if (syncStatus === search.syncStatus && serverId === search.serverId) return search;
+
+    changed = true;
+    return { ...search, syncStatus, serverId };
+  });
+
+  return changed ? reconciled : searches;
+}
+
+/**
+ * Pending saved searches with no save in the queue, which have to be queued again
+ */
+export function unqueuedSavedSearches(
+  searches: SavedSearch[],
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[]
+): SavedSearch[] {
+  const queued = queuedSearchSaves(queue);
+  return searches.filter(search => search.syncStatus === 'pending' && !queued.has(search.id));
+}
+
+function queuedSearchSaves(
+  queue: Pick<OfflineQueueItem, 'type' | 'payload' | 'status'>[]
+): Map<string, OfflineQueueItem['status']> {
+  const queued = new Map<string, OfflineQueueItem['status']>();
+  queue.forEach(item => {
+    if (item.type === 'save_search' && item.payload?.search?.id) {
+      queued.set(item.payload.search.id, item.status);
+    }
+  });
+  return queued;
+}
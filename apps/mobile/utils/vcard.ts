@@ -0,0 +1,189 @@
+/**
+ * @fileoverview vCard reading and writing
+ *
+ * Low-level vCard (2.1 to 4.0) property parsing shared by the badge code parser and
+ * contact file import, plus vCard 3.0 serialization for the profile card QR code and
+ * contact export.
+ */
+
+import type { Contact, ProfileCard } from '../types/contact';
+
+export const GROUPS_PROPERTY = 'X-CIRCLES-GROUPS';
+
+export interface VCardProperty {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+/**
+ * Split on separators that are not escaped with a backslash
+ */
+export function splitUnescaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+export function unescapeValue(value: string): string {
+  return value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;:\\])/g, '$1')
+    .trim();
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value.replace(/%/g, '%25').replace(/=([0-9A-F]{2})/gi, '%$1');
+  try {
+    return decodeURIComponent(bytes);
+  } catch {
+    return value;
+  }
+}
+
+export function parseVCardProperties(payload: string): VCardProperty[] {
+  // Unfold continuation lines (RFC 6350 3.2)
+  const lines = payload.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const properties: VCardProperty[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    const [rawName, ...params] = line.slice(0, colon).split(';');
+    // Grouped properties such as "item1.EMAIL"
+    const name = rawName.replace(/^[^.]*\./, '').toUpperCase();
+    const upperParams = params.map(param => param.toUpperCase());
+
+    if (upperParams.some(param => param === 'QUOTED-PRINTABLE' || param === 'ENCODING=QUOTED-PRINTABLE')) {
+      // vCard 2.1 soft line breaks end a line with "="
+      while (line.endsWith('=') && i + 1 < lines.length) {
+        line = line.slice(0, -1) + lines[++i];
+      }
+      properties.push({ name, params: upperParams, value: decodeQuotedPrintable(line.slice(colon + 1)) });
+    } else {
+      properties.push({ name, params: upperParams, value: line.slice(colon + 1) });
+    }
+  }
+
+  return properties;
+}
+
+// Prefer the property marked preferred or work, else the first one
+export function pickProperty(properties: VCardProperty[], name: string): VCardProperty | undefined {
+  const matching = properties.filter(property => property.name === name);
+  return matching.find(property => property.params.some(param => /PREF/.test(param)))
+    || matching.find(property => property.params.some(param => /WORK/.test(param)))
+    || matching[0];
+}
+
+/**
+ * Individual cards of a .vcf file, which may hold any number of them
+ */
+export function splitVCards(text: string): string[] {
+  return (text.replace(/^\uFEFF/, '').match(/BEGIN:VCARD[\s\S]*?END:VCARD/gi) || []);
+}
+
+function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+// N and FN lines; the last word of the name is taken as the family name
+function nameLines(name: string, firstName?: string, lastName?: string): string[] {
+  const words = name.trim().split(/\s+/);
+  const family = lastName !== undefined ? lastName : words.length > 1 ? words[words.length - 1] : '';
+  const given = firstName !== undefined ? firstName : words.length > 1 ? words.slice(0, -1).join(' ') : name.trim();
+
+  return [
+    `N:${escapeValue(family.trim())};${escapeValue(given.trim())};;;`,
+    `FN:${escapeValue(name.trim())}`,
+  ];
+}
+
+// CRLF line endings as RFC 2426 requires
+function formatVCard(lines: string[]): string {
+  return ['BEGIN:VCARD', 'VERSION:3.0', ...lines, 'END:VCARD'].join('\r\n') + '\r\n';
+}
+
+/**
+ * vCard 3.0 text for a profile card
+ */
+export function buildVCard(card: ProfileCard): string {
+  const lines = nameLines(card.name);
+
+  if (card.company) lines.push(`ORG:${escapeValue(card.company)}`);
+  if (card.title) lines.push(`TITLE:${escapeValue(card.title)}`);
+  if (card.email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${escapeValue(card.email)}`);
+  if (card.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escapeValue(card.phone)}`);
+  if (card.linkedinUrl) lines.push(`URL:${escapeValue(card.linkedinUrl)}`);
+
+  return formatVCard(lines);
+}
+
+/**
+ * vCard 3.0 text for a contact, with every identifier it has
+ */
+export function contactToVCard(contact: Contact): string {
+  const name = contact.name || [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+  const hasNameParts = !!(contact.firstName || contact.lastName);
+  const lines = nameLines(name, hasNameParts ? contact.firstName || '' : undefined, hasNameParts ? contact.lastName || '' : undefined);
+  const title = contact.title || contact.jobTitle;
+  const note = contact.notes || contact.note;
+
+  if (contact.company) lines.push(`ORG:${escapeValue(contact.company)}`);
+  if (title) lines.push(`TITLE:${escapeValue(title)}`);
+
+  const identifiers = [...(contact.identifiers || [])];
+  if (contact.email) identifiers.push({ type: 'email', value: contact.email });
+  if (contact.phone) identifiers.push({ type: 'phone', value: contact.phone });
+  if (contact.linkedinUrl) identifiers.push({ type: 'linkedin', value: contact.linkedinUrl });
+
+  const written = new Set<string>();
+  identifiers.forEach(({ type, value }) => {
+    const key = `${type}:${value.trim().toLowerCase()}`;
+    if (!value.trim() || written.has(key)) return;
+    written.add(key);
+
+    if (type === 'email') {
+      lines.push(`EMAIL;TYPE=INTERNET:${escapeValue(value.trim())}`);
+    } else if (type === 'phone') {
+      lines.push(`TEL;TYPE=VOICE:${escapeValue(value.trim())}`);
+    } else {
+      lines.push(`URL:${escapeValue(value.trim())}`);
+    }
+  });
+
+  if (contact.city || contact.country) {
+    lines.push(`ADR;TYPE=WORK:;;;${escapeValue(contact.city || '')};;;${escapeValue(contact.country || '')}`);
+  }
+  if (note) lines.push(`NOTE:${escapeValue(note)}`);
+
+  if (contact.tags.length > 0) {
+    lines.push(`CATEGORIES:${contact.tags.map(escapeValue).join(',')}`);
+  }
+  // Other apps ignore X- properties; ours reads the groups back on import
+  if (contact.groups && contact.groups.length > 0) {
+    lines.push(`${GROUPS_PROPERTY}:${contact.groups.map(escapeValue).join(',')}`);
+  }
+
+  return formatVCard(lines);
+}
@@ -1,6 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { supabase } from '../../../../lib/api-utils';
+import { getHubSpotClient } from '../../../../lib/hubspot-token-manager';
+import { decryptOrganizationTokens } from '../../../../lib/token-encryption';
+import { stampFieldUpdates } from '../../../../lib/conflict-resolution';
+import { toDatabaseStrength, toHubSpotStrength } from '../../../../lib/connection-strength';
+import { isCadenceDays } from '../../../../lib/followups';
+
+// Columns a contact update may set, with the camelCase names older app builds sent
+const UPDATABLE_COLUMNS: { [column: string]: string } = {
+  first_name: 'firstName',
+  last_name: 'lastName',
+  email: 'email',
+  phone: 'phone',
+  linkedin_url: 'linkedinUrl',
+  company: 'company',
+  job_title: 'jobTitle',
+  city: 'city',
+  country: 'country',
+  notes: 'notes',
+  tags: 'tags',
+  groups: 'groups',
+  starred: 'starred',
+  connection_strength: 'connectionStrength',
+  contact_value: 'contactValue',
+  first_met_location: 'firstMetLocation',
+  first_met_date: 'firstMetDate',
+  last_interaction_date: 'lastInteractionDate',
+  next_followup_date: 'nextFollowupDate',
+  followup_cadence_days: 'followupCadenceDays',
+  total_interactions: 'totalInteractions',
+};
+
+function toContactUpdates(body: { [key: string]: any }): { [column: string]: any } {
+  const updates: { [column: string]: any } = {};
+  Object.keys(UPDATABLE_COLUMNS).forEach((column) => {
+    const value = body[column] !== undefined ? body[column] : body[UPDATABLE_COLUMNS[column]];
+    if (value !== undefined) {
+      updates[column] = value;
+    }
+  });
+
+  // Accept the level in either case; the column stores it lowercase
+  if (updates.connection_strength !== undefined) {
+    const level = toHubSpotStrength(updates.connection_strength);
+    updates.connection_strength = level ? toDatabaseStrength(level) : null;
+  }
+  if (updates.followup_cadence_days !== undefined && !isCadenceDays(updates.followup_cadence_days)) {
+    updates.followup_cadence_days = null;
+  }
+
+  return updates;
+}
 
 async function getOrganizationFromRequest(request: NextRequest) {
   const authHeader = request.headers.get('authorization');
@@ -42,7 +92,7 @@ async function getOrganizationFromRequest(request: NextRequest) {
     .single();
 
   if (!organization) throw new Error('Organization not found');
-  return organization;
+  return decryptOrganizationTokens(organization);
 }
 
 // GET /api/contacts/[id] - Get contact details with interaction history
@@ -91,7 +141,7 @@ export async function PUT(
   try {
     const organization = await getOrganizationFromRequest(request);
     const contactId = params.id;
-    const updateData = await request.json();
+    const updateData = toContactUpdates(await request.json());
 
     // Get current contact
     const { data: currentContact } = await supabase
@@ -110,6 +160,7 @@ export async function PUT(
       .from('contacts')
       .update({
         ...updateData,
+        field_updated_at: stampFieldUpdates(currentContact, updateData),
         hubspot_sync_needed: true,
         mobile_sync_needed: true,
       })
@@ -126,7 +177,7 @@ export async function PUT(
     // Sync to HubSpot if tokens are available and contact has HubSpot ID
     if (organization.hubspot_access_token && currentContact.hubspot_contact_id) {
       try {
-        const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+        const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
         
         const hubspotProperties: any = {};
         
@@ -139,7 +190,7 @@ export async function PUT(
         if (updateData.job_title !== undefined) hubspotProperties.jobtitle = updateData.job_title;
         
         // All My Circles custom networking properties
-        if (updateData.connection_strength !== undefined) hubspotProperties.amc_connection_strength = updateData.connection_strength;
+        if (updateData.connection_strength !== undefined) hubspotProperties.amc_connection_strength = toHubSpotStrength(updateData.connection_strength);
         if (updateData.contact_value !== undefined) hubspotProperties.amc_contact_value = updateData.contact_value;
         if (updateData.first_met_location !== undefined) hubspotProperties.amc_first_met_location = updateData.first_met_location;
         if (updateData.first_met_date !== undefined) hubspotProperties.amc_first_met_date = updateData.first_met_date;
@@ -203,7 +254,7 @@ export async function DELETE(
     // Delete from HubSpot first if it exists there
     if (organization.hubspot_access_token && contact.hubspot_contact_id) {
       try {
-        const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+        const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
         await hubspotClient.crm.contacts.basicApi.archive(contact.hubspot_contact_id.toString());
       } catch (hubspotError) {
         console.error('HubSpot delete error:', hubspotError);
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../../lib/api-utils';
+import { getHubSpotClient } from '../../../../lib/hubspot-token-manager';
+import { decryptOrganizationTokens } from '../../../../lib/token-encryption';
+import {
+  buildMergedContact,
+  isMergeField,
+  toHubSpotMergeProperties,
+  type MergeFieldChoices,
+  type MergeableContact,
+} from '../../../../lib/contact-merge';
+import { refreshConnectionStrength } from '../../../../lib/connection-strength';
+import { resolveFieldMappings } from '../../../../lib/shared/crm-field-mapping';
+
+async function getOrganizationFromRequest(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  const deviceId = request.headers.get('x-device-id');
+
+  if (!authHeader && !deviceId) {
+    throw new Error('Authentication required');
+  }
+
+  let organizationId;
+
+  if (deviceId) {
+    const { data: user } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('mobile_device_id', deviceId)
+      .single();
+
+    if (!user) throw new Error('Device not authorized');
+    organizationId = user.organization_id;
+  } else {
+    const portalId = request.cookies.get('hubspot_portal_id')?.value;
+    if (!portalId) throw new Error('Portal ID not found');
+
+    const { data: org } = await supabase
+      .from('organizations')
+      .select('id')
+      .eq('hubspot_portal_id', parseInt(portalId))
+      .single();
+
+    if (!org) throw new Error('Organization not found');
+    organizationId = org.id;
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .single();
+
+  if (!organization) throw new Error('Organization not found');
+  return decryptOrganizationTokens(organization);
+}
+
+// Contacts are written to HubSpot with the field mappings of the organization's connection
+async function getHubSpotFieldMappings(organizationId: string) {
+  const { data: connection } = await supabase
+    .from('crm_connections')
+    .select('metadata')
+    .eq('organization_id', organizationId)
+    .eq('provider', 'hubspot')
+    .eq('is_active', true)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return resolveFieldMappings(connection?.metadata?.field_mappings, 'hubspot');
+}
+
+// The mobile app sends our row IDs for uploaded contacts, and HubSpot IDs for ones it only knows from HubSpot
+async function findContact(organizationId: string, id?: string, hubspotContactId?: string | number) {
+  if (!id && !hubspotContactId) return null;
+
+  let query = supabase
+    .from('contacts')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  query = id
+    ? query.eq('id', id)
+    : query.eq('hubspot_contact_id', parseInt(String(hubspotContactId)));
+
+  const { data } = await query.single();
+  return data as MergeableContact | null;
+}
+
+// POST /api/contacts/merge - Merge a duplicate contact into a primary one
+export async function POST(request: NextRequest) {
+  try {
+    const organization = await getOrganizationFromRequest(request);
+    const {
+      primaryId,
+      duplicateId,
+      primaryHubspotContactId,
+      duplicateHubspotContactId,
+      fields = {},
+      values = {},
+    } = await request.json();
+
+    const primary = await findContact(organization.id, primaryId, primaryHubspotContactId);
+    const duplicate = await findContact(organization.id, duplicateId, duplicateHubspotContactId);
+
+    if (!primary || !duplicate) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+    if (primary.id === duplicate.id) {
+      return NextResponse.json({ error: 'Cannot merge a contact with itself' }, { status: 400 });
+    }
+
+    // fields picks a side per column; values sets columns directly, as the mobile app
+    // does after merging on the device
+    const choices: MergeFieldChoices = {};
+    Object.keys(fields).forEach((field) => {
+      if (isMergeField(field) && (fields[field] === 'primary' || fields[field] === 'duplicate')) {
+        choices[field] = fields[field];
+      }
+    });
+    const merged = buildMergedContact(primary, duplicate, choices);
+    Object.keys(values).forEach((field) => {
+      if (isMergeField(field) || field === 'tags') {
+        (merged as Record<string, unknown>)[field] = values[field];
+      }
+    });
+
+    let hubspotMerged = false;
+    const bothInHubSpot = primary.hubspot_contact_id && duplicate.hubspot_contact_id &&
+      primary.hubspot_contact_id !== duplicate.hubspot_contact_id;
+
+    if (organization.hubspot_access_token && bothInHubSpot) {
+      try {
+        const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
+
+        const result = await hubspotClient.crm.contacts.publicObjectApi.merge({
+          primaryObjectId: primary.hubspot_contact_id!.toString(),
+          objectIdToMerge: duplicate.hubspot_contact_id!.toString(),
+        });
+        // HubSpot keeps its own pick of values; make it match the merged contact
+        await hubspotClient.crm.contacts.basicApi.update(result.id, {
+          properties: toHubSpotMergeProperties(merged, await getHubSpotFieldMappings(organization.id)),
+        });
+
+        merged.hubspot_contact_id = parseInt(result.id);
+        hubspotMerged = true;
+      } catch (hubspotError) {
+        console.error('HubSpot merge error:', hubspotError);
+        return NextResponse.json({ error: 'Failed to merge contacts in HubSpot' }, { status: 502 });
+      }
+    }
+
+    // Interactions move to the surviving contact before the duplicate is deleted
+    const { error: interactionsError } = await supabase
+      .from('interactions')
+      .update({ contact_id: primary.id })
+      .eq('contact_id', duplicate.id);
+
+    if (interactionsError) {
+      console.error('Database error:', interactionsError);
+      return NextResponse.json({ error: 'Failed to move interactions' }, { status: 500 });
+    }
+
+    // Deleted first so the primary can take over the duplicate's HubSpot ID
+    const { error: deleteError } = await supabase
+      .from('contacts')
+      .delete()
+      .eq('id', duplicate.id)
+      .eq('organization_id', organization.id);
+
+    if (deleteError) {
+      console.error('Database error:', deleteError);
+      return NextResponse.json({ error: 'Failed to remove duplicate contact' }, { status: 500 });
+    }
+
+    const { data: contact, error: dbError } = await supabase
+      .from('contacts')
+      .update({
+        ...merged,
+        hubspot_sync_needed: !hubspotMerged && Boolean(merged.hubspot_contact_id),
+        mobile_sync_needed: true,
+        last_synced_at: hubspotMerged ? new Date().toISOString() : undefined,
+      })
+      .eq('id', primary.id)
+      .eq('organization_id', organization.id)
+      .select()
+      .single();
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return NextResponse.json({ error: 'Failed to update merged contact' }, { status: 500 });
+    }
+
+    // The merged contact now has both interaction histories
+    await refreshConnectionStrength(organization.id, primary.id);
+
+    return NextResponse.json({
+      contact,
+      mergedContactId: duplicate.id,
+      hubspotMerged,
+    });
+
+  } catch (error) {
+    console.error('Merge contacts error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
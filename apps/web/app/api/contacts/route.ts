@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { supabase } from '../../../lib/api-utils';
+import { getHubSpotClient } from '../../../lib/hubspot-token-manager';
+import { decryptOrganizationTokens } from '../../../lib/token-encryption';
+import { ContactSearchError, parseContactSearch, searchContacts } from '../../../lib/contact-search';
 
 async function getOrganizationFromRequest(request: NextRequest) {
   const authHeader = request.headers.get('authorization');
@@ -44,70 +46,56 @@ async function getOrganizationFromRequest(request: NextRequest) {
     .single();
 
   if (!organization) throw new Error('Organization not found');
-  return organization;
+  return decryptOrganizationTokens(organization);
 }
 
-// GET /api/contacts - List contacts with networking data
+// GET /api/contacts - Search and filter contacts with networking data, a page at a time
 export async function GET(request: NextRequest) {
   try {
     const organization = await getOrganizationFromRequest(request);
     const searchParams = request.nextUrl.searchParams;
-    
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
-    const offset = (page - 1) * limit;
-    
-    const searchTerm = searchParams.get('search');
-    const eventId = searchParams.get('event_id');
-    const connectionStrength = searchParams.get('connection_strength');
-    const tags = searchParams.get('tags')?.split(',');
 
-    let query = supabase
-      .from('contacts')
-      .select(`
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 100);
+    const search = parseContactSearch(searchParams, 'updated');
+
+    const select = `
         *,
         first_met_at:events(id, name),
         recent_interactions:interactions(
           id, interaction_type, date, notes
         )
-      `)
-      .eq('organization_id', organization.id)
-      .order('updated_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (searchTerm) {
-      query = query.or(`first_name.ilike.%${searchTerm}%,last_name.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%,company.ilike.%${searchTerm}%`);
-    }
-
-    if (eventId) {
-      query = query.eq('first_met_at', eventId);
+      `;
+
+    // Older clients page by number; a cursor keeps pages stable while contacts change
+    if (searchParams.get('page') && !search.cursor) {
+      const page = parseInt(searchParams.get('page') || '1') || 1;
+      const { contacts, hasMore } = await searchContacts(organization.id, search, select, limit, (page - 1) * limit);
+
+      return NextResponse.json({
+        contacts,
+        pagination: {
+          page,
+          limit,
+          hasMore
+        }
+      });
     }
 
-    if (connectionStrength) {
-      query = query.eq('connection_strength', connectionStrength);
-    }
-
-    if (tags && tags.length > 0) {
-      query = query.overlaps('tags', tags);
-    }
-
-    const { data: contacts, error } = await query;
-
-    if (error) {
-      console.error('Database error:', error);
-      return NextResponse.json({ error: 'Failed to fetch contacts' }, { status: 500 });
-    }
+    const { contacts, nextCursor, hasMore } = await searchContacts(organization.id, search, select, limit);
 
     return NextResponse.json({
       contacts,
       pagination: {
-        page,
         limit,
-        hasMore: contacts.length === limit
+        hasMore,
+        nextCursor
       }
     });
 
   } catch (error) {
+    if (error instanceof ContactSearchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Contacts API error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Internal server error' },
@@ -150,7 +138,7 @@ export async function POST(request: NextRequest) {
     // Sync to HubSpot if tokens are available
     if (organization.hubspot_access_token) {
       try {
-        const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+        const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
         
         const hubspotContact = {
           properties: {
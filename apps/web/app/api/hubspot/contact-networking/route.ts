@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { withAuth, createApiResponse, createErrorResponse } from '../../../../lib/api-utils';
+import { getHubSpotClient } from '../../../../lib/hubspot-token-manager';
 
 // GET /api/hubspot/contact-networking - Get networking data for a specific HubSpot contact
 export async function GET(request: NextRequest) {
@@ -18,7 +18,7 @@ export async function GET(request: NextRequest) {
       }
 
       // Initialize HubSpot client
-      const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+      const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
 
       // Fetch contact from HubSpot with networking properties
       const hubspotContact = await hubspotClient.crm.contacts.basicApi.getById(
@@ -155,7 +155,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Initialize HubSpot client
-      const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+      const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
 
       // Prepare HubSpot property updates
       const propertiesToUpdate: any = {};
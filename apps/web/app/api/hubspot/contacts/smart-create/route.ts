@@ -1,99 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiResponse, createErrorResponse, supabase } from '../../../../../lib/api-utils';
-
-// Helper function to refresh HubSpot access token
-async function refreshHubSpotToken(userId: string): Promise<string | null> {
-  try {
-    console.log('🔄 Refreshing HubSpot token for user:', userId);
-
-    // Get the refresh token
-    const { data: connection, error } = await supabase
-      .from('crm_connections')
-      .select('refresh_token, access_token')
-      .eq('user_id', userId)
-      .eq('provider', 'hubspot')
-      .eq('is_active', true)
-      .single();
-
-    if (error || !connection?.refresh_token) {
-      console.error('No refresh token found:', error);
-      return null;
-    }
-
-    // Refresh the token
-    const refreshResponse = await fetch('https://api.hubapi.com/oauth/v1/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        client_id: process.env.HUBSPOT_CLIENT_ID!,
-        client_secret: process.env.HUBSPOT_CLIENT_SECRET!,
-        refresh_token: connection.refresh_token,
-      }),
-    });
-
-    if (!refreshResponse.ok) {
-      console.error('Token refresh failed:', await refreshResponse.text());
-      return null;
-    }
-
-    const tokens = await refreshResponse.json();
-
-    // Update the token in the database
-    await supabase
-      .from('crm_connections')
-      .update({
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token,
-        expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('user_id', userId)
-      .eq('provider', 'hubspot');
-
-    console.log('✅ HubSpot token refreshed successfully');
-    return tokens.access_token;
-
-  } catch (error) {
-    console.error('Token refresh error:', error);
-    return null;
-  }
-}
-
-// Helper function to make HubSpot API calls with automatic token refresh
-async function makeHubSpotApiCall(
-  url: string,
-  options: RequestInit,
-  token: string,
-  userId: string
-): Promise<Response> {
-  // Add authorization header
-  const headers = {
-    ...options.headers,
-    'Authorization': `Bearer ${token}`,
-  };
-
-  const response = await fetch(url, { ...options, headers });
-
-  // If unauthorized, try refreshing the token and retry
-  if (response.status === 401) {
-    console.log('🔑 Access token expired, refreshing...');
-    const newToken = await refreshHubSpotToken(userId);
-
-    if (newToken) {
-      console.log('🔄 Retrying API call with refreshed token...');
-      const retryHeaders = {
-        ...options.headers,
-        'Authorization': `Bearer ${newToken}`,
-      };
-      return fetch(url, { ...options, headers: retryHeaders });
-    }
-  }
-
-  return response;
-}
+import { mapContactFields, resolveFieldMappings } from '../../../../../lib/shared/crm-field-mapping';
+import {
+  getHubSpotAccessToken,
+  hubspotFetch,
+  HubSpotTokenError,
+  type HubSpotTokenSource,
+} from '../../../../../lib/hubspot-token-manager';
 
 // Smart HubSpot contact creation with ownership logic
 export async function POST(request: NextRequest) {
@@ -114,7 +27,7 @@ export async function POST(request: NextRequest) {
         first_name,
         last_name,
         hubspot_user_id,
-        crm_connections!inner(access_token, portal_id)
+        crm_connections!inner(id, portal_id, metadata)
       `)
       .eq('mobile_device_id', deviceId)
       .eq('crm_connections.provider', 'hubspot')
@@ -125,9 +38,19 @@ export async function POST(request: NextRequest) {
       return createErrorResponse('User or HubSpot connection not found', 404);
     }
 
-    const hubspotToken = userData.crm_connections[0].access_token;
+    const hubspot: HubSpotTokenSource = { type: 'connection', id: userData.crm_connections[0].id };
     const portalId = userData.crm_connections[0].portal_id;
 
+    // Convert the contact through the connection's field mappings before touching HubSpot
+    const fieldMappings = resolveFieldMappings(userData.crm_connections[0].metadata?.field_mappings, 'hubspot');
+    const { fields: mappedProperties, missingRequired } = mapContactFields(contactData, fieldMappings);
+    if (missingRequired.length > 0) {
+      return createErrorResponse(
+        `Missing required fields: ${missingRequired.map(mapping => mapping.localField).join(', ')}`,
+        400
+      );
+    }
+
     // Get HubSpot user ID if not stored
     let hubspotUserId = userData.hubspot_user_id;
     if (!hubspotUserId) {
@@ -135,23 +58,15 @@ export async function POST(request: NextRequest) {
         console.log('Getting HubSpot user info for owner assignment...');
 
         // First get the token info to get the user email
-        const tokenInfoResponse = await makeHubSpotApiCall(
-          'https://api.hubapi.com/oauth/v1/access-tokens/' + hubspotToken,
-          { method: 'GET' },
-          hubspotToken,
-          userData.id
-        );
+        const { accessToken } = await getHubSpotAccessToken(hubspot);
+        const tokenInfoResponse = await fetch('https://api.hubapi.com/oauth/v1/access-tokens/' + accessToken);
 
         if (tokenInfoResponse.ok) {
           const tokenInfo = await tokenInfoResponse.json();
           console.log('Token info:', tokenInfo);
 
           // Now get the actual HubSpot users to find the matching user
-          const usersResponse = await fetch('https://api.hubapi.com/crm/v3/owners/', {
-            headers: {
-              'Authorization': `Bearer ${hubspotToken}`,
-            },
-          });
+          const usersResponse = await hubspotFetch(hubspot, 'https://api.hubapi.com/crm/v3/owners/');
 
           if (usersResponse.ok) {
             const usersData = await usersResponse.json();
@@ -195,13 +110,13 @@ export async function POST(request: NextRequest) {
     let existingContact = null;
     if (contactData.email) {
       try {
-        const searchResponse = await fetch(
+        const searchResponse = await hubspotFetch(
+          hubspot,
           `https://api.hubapi.com/crm/v3/objects/contacts/search`,
           {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              'Authorization': `Bearer ${hubspotToken}`,
             },
             body: JSON.stringify({
               filterGroups: [{
@@ -237,35 +152,16 @@ export async function POST(request: NextRequest) {
       // Always update the contact with any new information, regardless of ownership
       console.log('Contact exists, updating with new information');
 
-      const updateData: any = {
-        // Standard properties - only update if we have new data
-        firstname: contactData.name?.split(' ')[0] || existingContact.properties.firstname,
-        lastname: contactData.name?.split(' ').slice(1).join(' ') || existingContact.properties.lastname,
-        email: contactData.email || existingContact.properties.email,
-        phone: contactData.phone || existingContact.properties.phone,
-        company: contactData.company || existingContact.properties.company,
-        jobtitle: contactData.title || existingContact.properties.jobtitle,
-
-        // Always update All My Circles properties with latest data
-        amc_first_met_location: contactData.firstMetLocation || undefined,
-        amc_first_met_date: contactData.firstMetDate || undefined,
-        amc_networking_tags: Array.isArray(contactData.tags) ? contactData.tags.join(', ') : contactData.tags,
-        amc_networking_notes: contactData.notes || undefined,
-      };
+      // Mapped properties without data are left out, so HubSpot keeps its current values
+      const updateData: any = { ...mappedProperties };
 
       // If no current owner and we have a HubSpot user ID, set ownership
       if (!hasOwner && hubspotUserId) {
         updateData.hubspot_owner_id = hubspotUserId;
       }
 
-      // Remove undefined values
-      Object.keys(updateData).forEach(key => {
-        if (updateData[key as keyof typeof updateData] === undefined) {
-          delete updateData[key as keyof typeof updateData];
-        }
-      });
-
-      const updateResponse = await makeHubSpotApiCall(
+      const updateResponse = await hubspotFetch(
+        hubspot,
         `https://api.hubapi.com/crm/v3/objects/contacts/${existingContact.id}`,
         {
           method: 'PATCH',
@@ -273,9 +169,7 @@ export async function POST(request: NextRequest) {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ properties: updateData }),
-        },
-        hubspotToken,
-        userData.id
+        }
       );
 
       if (!updateResponse.ok) {
@@ -301,17 +195,8 @@ export async function POST(request: NextRequest) {
       console.log('Creating new contact with user as owner');
 
       const newContactData = {
-        firstname: contactData.name?.split(' ')[0] || contactData.firstName,
-        lastname: contactData.name?.split(' ').slice(1).join(' ') || contactData.lastName,
-        email: contactData.email || undefined,
-        phone: contactData.phone || undefined,
-        company: contactData.company || undefined,
-        jobtitle: contactData.title || undefined,
+        ...mappedProperties,
         hubspot_owner_id: hubspotUserId, // Set HubSpot user as owner
-        amc_first_met_location: contactData.firstMetLocation || undefined,
-        amc_first_met_date: contactData.firstMetDate || undefined,
-        amc_networking_tags: Array.isArray(contactData.tags) ? contactData.tags.join(', ') : contactData.tags,
-        amc_networking_notes: contactData.notes || undefined,
       };
 
       // Remove undefined values
@@ -321,7 +206,8 @@ export async function POST(request: NextRequest) {
         }
       });
 
-      const createResponse = await makeHubSpotApiCall(
+      const createResponse = await hubspotFetch(
+        hubspot,
         'https://api.hubapi.com/crm/v3/objects/contacts',
         {
           method: 'POST',
@@ -329,9 +215,7 @@ export async function POST(request: NextRequest) {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ properties: newContactData }),
-        },
-        hubspotToken,
-        userData.id
+        }
       );
 
       if (!createResponse.ok) {
@@ -344,7 +228,8 @@ export async function POST(request: NextRequest) {
           // Try to find the existing contact by email again (maybe case sensitivity issue)
           if (contactData.email) {
             try {
-              const fallbackSearchResponse = await makeHubSpotApiCall(
+              const fallbackSearchResponse = await hubspotFetch(
+                hubspot,
                 `https://api.hubapi.com/crm/v3/objects/contacts/search`,
                 {
                   method: 'POST',
@@ -362,9 +247,7 @@ export async function POST(request: NextRequest) {
                     properties: ['id', 'email', 'hubspot_owner_id', 'firstname', 'lastname'],
                     limit: 1
                   }),
-                },
-                hubspotToken,
-                userData.id
+                }
               );
 
               if (fallbackSearchResponse.ok) {
@@ -400,6 +283,9 @@ export async function POST(request: NextRequest) {
     }
 
   } catch (error) {
+    if (error instanceof HubSpotTokenError) {
+      return createErrorResponse(error.message, error.status);
+    }
     console.error('Smart contact creation error:', error);
     return createErrorResponse(
       error instanceof Error ? error.message : 'Smart contact creation failed',
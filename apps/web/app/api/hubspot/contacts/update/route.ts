@@ -1,5 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiResponse, createErrorResponse, supabase } from '../../../../../lib/api-utils';
+import { mapContactFields, resolveFieldMappings } from '../../../../../lib/shared/crm-field-mapping';
+import { hubspotFetch, HubSpotTokenError, type HubSpotTokenSource } from '../../../../../lib/hubspot-token-manager';
+import { stampFieldUpdates, SYNCED_CONTACT_COLUMNS } from '../../../../../lib/conflict-resolution';
+
+async function stampLocalEdit(organizationId: string, hubspotContactId: string, contactData: { [field: string]: unknown }) {
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('hubspot_contact_id', hubspotContactId)
+    .maybeSingle();
+
+  if (!contact) {
+    return;
+  }
+
+  const updates: { [column: string]: unknown } = {};
+  Object.keys(SYNCED_CONTACT_COLUMNS).forEach((column) => {
+    const field = SYNCED_CONTACT_COLUMNS[column];
+    if (contactData[field] !== undefined) {
+      updates[column] = contactData[field];
+    }
+  });
+
+  const fieldUpdatedAt = stampFieldUpdates(contact, updates);
+  if (JSON.stringify(fieldUpdatedAt) === JSON.stringify(contact.field_updated_at || {})) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('contacts')
+    .update({ field_updated_at: fieldUpdatedAt })
+    .eq('id', contact.id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
 
 // Update existing HubSpot contact with new data from mobile app
 export async function PATCH(request: NextRequest) {
@@ -23,7 +61,8 @@ export async function PATCH(request: NextRequest) {
         email,
         first_name,
         last_name,
-        crm_connections!inner(access_token, portal_id)
+        organization_id,
+        crm_connections!inner(id, portal_id, metadata)
       `)
       .eq('mobile_device_id', deviceId)
       .eq('crm_connections.provider', 'hubspot')
@@ -34,39 +73,19 @@ export async function PATCH(request: NextRequest) {
       return createErrorResponse('User or HubSpot connection not found', 404);
     }
 
-    const hubspotToken = userData.crm_connections[0].access_token;
+    const hubspot: HubSpotTokenSource = { type: 'connection', id: userData.crm_connections[0].id };
 
-    // Prepare update data with only the 4 essential properties
-    const updateData: any = {};
+    // Partial update: only mapped fields with values are sent, and a required
+    // field is rejected only when the app explicitly clears it
+    const fieldMappings = resolveFieldMappings(userData.crm_connections[0].metadata?.field_mappings, 'hubspot');
+    const { fields: updateData, missingRequired } = mapContactFields(contactData || {}, fieldMappings, { partial: true });
 
-    // Standard HubSpot properties
-    if (contactData.name) {
-      updateData.firstname = contactData.name.split(' ')[0];
-      updateData.lastname = contactData.name.split(' ').slice(1).join(' ');
-    }
-    if (contactData.firstName) updateData.firstname = contactData.firstName;
-    if (contactData.lastName) updateData.lastname = contactData.lastName;
-    if (contactData.email) updateData.email = contactData.email;
-    if (contactData.phone) updateData.phone = contactData.phone;
-    if (contactData.company) updateData.company = contactData.company;
-    if (contactData.title) updateData.jobtitle = contactData.title;
-
-    // All My Circles networking properties
-    if (contactData.firstMetLocation) updateData.amc_first_met_location = contactData.firstMetLocation;
-    if (contactData.firstMetDate) updateData.amc_first_met_date = contactData.firstMetDate;
-    if (contactData.tags) {
-      updateData.amc_networking_tags = Array.isArray(contactData.tags)
-        ? contactData.tags.join(', ')
-        : contactData.tags;
+    if (missingRequired.length > 0) {
+      return createErrorResponse(
+        `Missing required fields: ${missingRequired.map(mapping => mapping.localField).join(', ')}`,
+        400
+      );
     }
-    if (contactData.notes) updateData.amc_networking_notes = contactData.notes;
-
-    // Only send properties that have values
-    Object.keys(updateData).forEach(key => {
-      if (updateData[key] === undefined || updateData[key] === null || updateData[key] === '') {
-        delete updateData[key];
-      }
-    });
 
     if (Object.keys(updateData).length === 0) {
       return createApiResponse({
@@ -79,13 +98,13 @@ export async function PATCH(request: NextRequest) {
     console.log(`Updating HubSpot contact ${contactId} with data:`, updateData);
 
     // Update the contact in HubSpot
-    const updateResponse = await fetch(
+    const updateResponse = await hubspotFetch(
+      hubspot,
       `https://api.hubapi.com/crm/v3/objects/contacts/${contactId}`,
       {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${hubspotToken}`,
         },
         body: JSON.stringify({ properties: updateData }),
       }
@@ -102,17 +121,24 @@ export async function PATCH(request: NextRequest) {
 
     const updatedContact = await updateResponse.json();
 
+    // Record the edit on our copy so a later HubSpot change to the same fields goes
+    // through the conflict policy instead of silently overwriting it
+    try {
+      await stampLocalEdit(userData.organization_id, contactId, contactData || {});
+    } catch (stampError) {
+      console.warn('Failed to record field edit times:', stampError);
+    }
+
     // Add a timeline note about the update
     try {
       const updateNote = `Contact updated from All My Circles app by ${userData.first_name} ${userData.last_name} (${userData.email})`;
       const updatedFields = Object.keys(updateData);
       const noteBody = `${updateNote}\n\nUpdated fields: ${updatedFields.join(', ')}`;
 
-      await fetch('https://api.hubapi.com/crm/v3/objects/notes', {
+      await hubspotFetch(hubspot, 'https://api.hubapi.com/crm/v3/objects/notes', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${hubspotToken}`,
         },
         body: JSON.stringify({
           properties: {
@@ -140,6 +166,9 @@ export async function PATCH(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof HubSpotTokenError) {
+      return createErrorResponse(error.message, error.status);
+    }
     console.error('Contact update error:', error);
     return createErrorResponse(
       error instanceof Error ? error.message : 'Contact update failed',
@@ -167,7 +196,7 @@ export async function GET(request: NextRequest) {
     const { data: userData, error: userError } = await supabase
       .from('users')
       .select(`
-        crm_connections!inner(access_token)
+        crm_connections!inner(id, metadata)
       `)
       .eq('mobile_device_id', deviceId)
       .eq('crm_connections.provider', 'hubspot')
@@ -178,16 +207,17 @@ export async function GET(request: NextRequest) {
       return createErrorResponse('User or HubSpot connection not found', 404);
     }
 
-    const hubspotToken = userData.crm_connections[0].access_token;
+    const hubspot: HubSpotTokenSource = { type: 'connection', id: userData.crm_connections[0].id };
+    const fieldMappings = resolveFieldMappings(userData.crm_connections[0].metadata?.field_mappings, 'hubspot');
+    const properties = fieldMappings
+      .map(mapping => mapping.crmField)
+      .concat('hubspot_owner_id')
+      .filter((property, index, all) => all.indexOf(property) === index);
 
     // Get contact from HubSpot
-    const contactResponse = await fetch(
-      `https://api.hubapi.com/crm/v3/objects/contacts/${contactId}?properties=firstname,lastname,email,phone,company,jobtitle,amc_first_met_location,amc_first_met_date,amc_networking_tags,amc_networking_notes,hubspot_owner_id`,
-      {
-        headers: {
-          'Authorization': `Bearer ${hubspotToken}`,
-        },
-      }
+    const contactResponse = await hubspotFetch(
+      hubspot,
+      `https://api.hubapi.com/crm/v3/objects/contacts/${contactId}?properties=${properties.map(encodeURIComponent).join(',')}`
     );
 
     if (!contactResponse.ok) {
@@ -207,6 +237,9 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof HubSpotTokenError) {
+      return createErrorResponse(error.message, error.status);
+    }
     console.error('Contact get error:', error);
     return createErrorResponse(
       error instanceof Error ? error.message : 'Failed to get contact',
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { withAuth, createApiResponse, createErrorResponse } from '../../../../lib/api-utils';
+import { getHubSpotClient } from '../../../../lib/hubspot-token-manager';
 
 // GET /api/hubspot/dashboard - Get dashboard statistics and recent activity
 export async function GET(request: NextRequest) {
@@ -11,7 +11,7 @@ export async function GET(request: NextRequest) {
       }
 
       // Initialize HubSpot client
-      const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+      const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
 
       // Get All My Circles contacts from HubSpot (those with amc_contact_id property)
       const allMyCirclesContacts = await hubspotClient.crm.contacts.basicApi.getPage(
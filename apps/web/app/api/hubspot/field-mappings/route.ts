@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { resolveFieldMappings, type FieldMapping } from '../../../../lib/shared/crm-field-mapping';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const TRANSFORMS = ['none', 'uppercase', 'lowercase', 'phone_format'];
+
+async function getHubSpotConnection(deviceId: string) {
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select(`
+      crm_connections!inner(id, metadata)
+    `)
+    .eq('mobile_device_id', deviceId)
+    .eq('crm_connections.provider', 'hubspot')
+    .eq('crm_connections.is_active', true)
+    .single();
+
+  if (userError || !userData) {
+    return null;
+  }
+
+  return userData.crm_connections[0] as { id: string; metadata: Record<string, any> | null };
+}
+
+// GET /api/hubspot/field-mappings - Mappings used by smart-create and update
+export async function GET(request: NextRequest) {
+  try {
+    const deviceId = request.headers.get('x-device-id');
+
+    if (!deviceId) {
+      return createErrorResponse('Device ID required', 401);
+    }
+
+    const connection = await getHubSpotConnection(deviceId);
+    if (!connection) {
+      return createErrorResponse('User or HubSpot connection not found', 404);
+    }
+
+    return createApiResponse({
+      fieldMappings: resolveFieldMappings(connection.metadata?.field_mappings, 'hubspot'),
+    });
+
+  } catch (error) {
+    console.error('Field mappings get error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to get field mappings',
+      500
+    );
+  }
+}
+
+// PUT /api/hubspot/field-mappings - Replace the connection's mappings
+export async function PUT(request: NextRequest) {
+  try {
+    const deviceId = request.headers.get('x-device-id');
+
+    if (!deviceId) {
+      return createErrorResponse('Device ID required', 401);
+    }
+
+    const { fieldMappings } = await request.json();
+
+    if (!Array.isArray(fieldMappings) || fieldMappings.length === 0) {
+      return createErrorResponse('fieldMappings must be a non-empty array', 400);
+    }
+
+    // Stored mappings that fail validation silently fall back to the defaults, so reject them here
+    const invalid = fieldMappings.find((mapping: any) =>
+      !mapping ||
+      typeof mapping.localField !== 'string' || !mapping.localField ||
+      typeof mapping.crmField !== 'string' || !mapping.crmField ||
+      (mapping.transform !== undefined && !TRANSFORMS.includes(mapping.transform))
+    );
+    if (invalid !== undefined) {
+      return createErrorResponse(`Invalid field mapping: ${JSON.stringify(invalid)}`, 400);
+    }
+
+    const crmFields = fieldMappings.map((mapping: FieldMapping) => mapping.crmField);
+    const duplicate = crmFields.find((field: string, index: number) => crmFields.indexOf(field) !== index);
+    if (duplicate) {
+      return createErrorResponse(`HubSpot property ${duplicate} is mapped more than once`, 400);
+    }
+
+    const connection = await getHubSpotConnection(deviceId);
+    if (!connection) {
+      return createErrorResponse('User or HubSpot connection not found', 404);
+    }
+
+    const normalized = resolveFieldMappings(fieldMappings, 'hubspot');
+
+    const { error: updateError } = await supabase
+      .from('crm_connections')
+      .update({
+        metadata: { ...(connection.metadata || {}), field_mappings: normalized },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', connection.id);
+
+    if (updateError) {
+      console.error('Failed to save field mappings:', updateError);
+      return createErrorResponse('Failed to save field mappings', 500);
+    }
+
+    return createApiResponse({ fieldMappings: normalized });
+
+  } catch (error) {
+    console.error('Field mappings update error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to save field mappings',
+      500
+    );
+  }
+}
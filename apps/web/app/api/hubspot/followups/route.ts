@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { withAuth, createApiResponse, createErrorResponse } from '../../../../lib/api-utils';
+import { getDueFollowups, isFollowupDate } from '../../../../lib/followups';
+
+// GET /api/hubspot/followups?today=YYYY-MM-DD&days=7 - Overdue and due follow-ups for the home page
+export async function GET(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const todayParam = searchParams.get('today');
+      if (todayParam && !isFollowupDate(todayParam)) {
+        return createErrorResponse('today must be a YYYY-MM-DD date', 400);
+      }
+
+      const today = todayParam || new Date().toISOString().slice(0, 10);
+      const withinDays = Math.min(Math.max(parseInt(searchParams.get('days') || '0') || 0, 0), 90);
+
+      const followups = await getDueFollowups(organization.id, { today, withinDays });
+      const overdue = followups.filter((followup) => followup.status === 'overdue');
+      const due = followups.filter((followup) => followup.status === 'due');
+      const upcoming = followups.filter((followup) => followup.status === 'upcoming');
+
+      return createApiResponse({
+        today,
+        counts: {
+          overdue: overdue.length,
+          due: due.length,
+          upcoming: upcoming.length,
+        },
+        overdue,
+        due,
+        upcoming,
+      });
+
+    } catch (error) {
+      console.error('Follow-ups API error:', error);
+      return createErrorResponse(
+        error instanceof Error ? error.message : 'Failed to fetch follow-ups',
+        500
+      );
+    }
+  });
+}
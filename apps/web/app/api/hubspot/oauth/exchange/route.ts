@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { encryptTokens } from '../../../../../lib/token-encryption';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -179,6 +180,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A reconnect replaces the tokens but keeps settings stored with the connection, such as field mappings
+    const { data: existingConnection } = await supabase
+      .from('crm_connections')
+      .select('metadata')
+      .eq('user_id', userData.id)
+      .eq('provider', 'hubspot')
+      .maybeSingle();
+
     // Store the connection in Supabase
     const { error: insertError } = await supabase
       .from('crm_connections')
@@ -187,13 +196,16 @@ export async function POST(request: NextRequest) {
         organization_id: userData.organization_id,
         provider: 'hubspot',
         portal_id: portalId,
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token,
+        ...encryptTokens({
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token,
+        }),
         expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
         scopes: grantedScopes,
         is_active: true,
         connection_name: 'HubSpot OAuth Connection',
         metadata: {
+          ...(existingConnection?.metadata || {}),
           token_type: tokens.token_type || 'Bearer',
           granted_scopes: grantedScopes,
           missing_scopes: missingScopes,
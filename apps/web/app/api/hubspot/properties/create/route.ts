@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { withAuth, createApiResponse, createErrorResponse } from '../../../../../lib/api-utils';
+import { getHubSpotClient } from '../../../../../lib/hubspot-token-manager';
 
 // Custom properties for All My Circles networking data
 const NETWORKING_PROPERTIES = [
   {
     name: 'amc_connection_strength',
     label: 'Connection Strength',
-    description: 'How strong the relationship is with this contact (Strong, Medium, Weak)',
+    description: 'How strong the relationship is with this contact (Strong, Medium, Weak), computed from interactions unless set by hand',
     groupName: 'all_my_circles',
     type: 'enumeration',
     fieldType: 'select',
@@ -105,7 +105,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Initialize HubSpot client
-      const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+      const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
 
       const results = {
         created: [] as string[],
@@ -201,7 +201,7 @@ export async function GET(request: NextRequest) {
       }
 
       // Initialize HubSpot client
-      const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+      const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
 
       const existingProperties = await hubspotClient.crm.properties.coreApi.getAll('contacts');
 
@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { hubspotFetch, HubSpotTokenError } from '../../../../lib/hubspot-token-manager';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// GET /api/hubspot/properties - Writable contact properties of the user's portal, for the field mapping editor
+export async function GET(request: NextRequest) {
+  try {
+    const deviceId = request.headers.get('x-device-id');
+
+    if (!deviceId) {
+      return createErrorResponse('Device ID required', 401);
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select(`
+        crm_connections!inner(id)
+      `)
+      .eq('mobile_device_id', deviceId)
+      .eq('crm_connections.provider', 'hubspot')
+      .eq('crm_connections.is_active', true)
+      .single();
+
+    if (userError || !userData) {
+      return createErrorResponse('User or HubSpot connection not found', 404);
+    }
+
+    const propertiesResponse = await hubspotFetch(
+      { type: 'connection', id: userData.crm_connections[0].id },
+      'https://api.hubapi.com/crm/v3/properties/contacts'
+    );
+
+    if (!propertiesResponse.ok) {
+      const propertiesError = await propertiesResponse.json().catch(() => ({}));
+      return createErrorResponse(
+        `Failed to get HubSpot properties: ${propertiesError.message || propertiesResponse.statusText}`,
+        propertiesResponse.status
+      );
+    }
+
+    const { results = [] } = await propertiesResponse.json();
+
+    // Hidden, calculated and read-only properties cannot be written by a push
+    const properties = results
+      .filter((property: any) =>
+        !property.hidden && !property.calculated && !property.modificationMetadata?.readOnlyValue
+      )
+      .map((property: any) => ({
+        name: property.name,
+        label: property.label,
+        type: property.type,
+        fieldType: property.fieldType,
+        groupName: property.groupName,
+        description: property.description || undefined,
+        options: (property.options || []).map((option: any) => ({ label: option.label, value: option.value })),
+      }))
+      .sort((a: any, b: any) => a.label.localeCompare(b.label));
+
+    return createApiResponse({ properties });
+
+  } catch (error) {
+    if (error instanceof HubSpotTokenError) {
+      return createErrorResponse(error.message, error.status);
+    }
+    console.error('HubSpot properties error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to get HubSpot properties',
+      500
+    );
+  }
+}
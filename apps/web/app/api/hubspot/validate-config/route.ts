@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateHubSpotConfig, testHubSpotConnectivity } from '../../../../lib/hubspot-config-validator';
 import { createClient } from '@supabase/supabase-js';
+import { getHubSpotAccessToken } from '../../../../lib/hubspot-token-manager';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -34,21 +35,22 @@ export async function GET(request: NextRequest) {
           // Check for active HubSpot connection
           const { data: connectionData, error: connectionError } = await supabase
             .from('crm_connections')
-            .select('access_token, portal_id, scopes, expires_at, is_active')
+            .select('id, portal_id, scopes, is_active')
             .eq('user_id', userData.id)
             .eq('provider', 'hubspot')
             .eq('is_active', true)
             .single();
 
           if (connectionData && !connectionError) {
-            // Test the connection
-            const connectivityTest = await testHubSpotConnectivity(connectionData.access_token);
+            // Test the connection with a current token, refreshing it if it expired
+            const token = await getHubSpotAccessToken({ type: 'connection', id: connectionData.id });
+            const connectivityTest = await testHubSpotConnectivity(token.accessToken);
 
             response.connectionStatus = {
               hasConnection: true,
               portalId: connectionData.portal_id,
               scopes: connectionData.scopes,
-              expiresAt: connectionData.expires_at,
+              expiresAt: token.expiresAt,
               isActive: connectionData.is_active,
               connectivityTest
             };
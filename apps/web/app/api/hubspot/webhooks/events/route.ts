@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import {
+  withAuth,
+  createApiResponse,
+  createErrorResponse,
+  getPaginationParams,
+  createPaginationResponse,
+} from '../../../../../lib/api-utils';
+import {
+  listWebhookEvents,
+  replayWebhookEvents,
+  WebhookEventStatus,
+} from '../../../../../lib/webhook-inbox';
+
+const EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'processed', 'failed', 'dead_letter'];
+
+// GET /api/hubspot/webhooks/events - List inbox events for the organization's portal
+export async function GET(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const params = getPaginationParams(request);
+      const status = request.nextUrl.searchParams.get('status') as WebhookEventStatus | null;
+
+      if (status && !EVENT_STATUSES.includes(status)) {
+        return createErrorResponse(`Invalid status. Expected one of: ${EVENT_STATUSES.join(', ')}`, 400);
+      }
+
+      const events = await listWebhookEvents(organization.hubspot_portal_id, {
+        status: status || undefined,
+        limit: params.limit,
+        offset: params.offset,
+      });
+
+      return createApiResponse(createPaginationResponse(events, params, events.length === params.limit));
+
+    } catch (error) {
+      console.error('Webhook events API error:', error);
+      return createErrorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+    }
+  });
+}
+
+// POST /api/hubspot/webhooks/events - Replay failed or dead-lettered events
+export async function POST(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const { eventIds } = await request.json();
+
+      if (!Array.isArray(eventIds) || eventIds.length === 0) {
+        return createErrorResponse('eventIds must be a non-empty array', 400);
+      }
+
+      const replayed = await replayWebhookEvents(organization.hubspot_portal_id, eventIds.map(Number));
+
+      return createApiResponse({
+        replayed,
+        skipped: eventIds.map(Number).filter((id: number) => !replayed.includes(id)),
+      });
+
+    } catch (error) {
+      console.error('Webhook replay error:', error);
+      return createErrorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse } from '../../../../../lib/api-utils';
+import { processPendingWebhookEvents } from '../../../../../lib/webhook-inbox';
+
+function isAuthorizedWorker(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+async function runWorker(request: NextRequest) {
+  if (!isAuthorizedWorker(request)) {
+    return createErrorResponse('Unauthorized', 401);
+  }
+
+  try {
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '25'), 100);
+    const summary = await processPendingWebhookEvents(limit);
+
+    console.log('Webhook inbox run complete:', summary);
+    return createApiResponse(summary);
+
+  } catch (error) {
+    console.error('Webhook inbox worker error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to process webhook inbox',
+      500
+    );
+  }
+}
+
+// GET /api/hubspot/webhooks/process - Scheduled inbox worker (Vercel cron issues GET)
+export async function GET(request: NextRequest) {
+  return runWorker(request);
+}
+
+// POST /api/hubspot/webhooks/process - Trigger the inbox worker manually
+export async function POST(request: NextRequest) {
+  return runWorker(request);
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../../../../lib/api-utils';
+import { refreshSalesforceToken, SalesforceOAuthError } from '../../../../../../lib/salesforce-oauth';
+import { decryptToken, encryptTokens } from '../../../../../../lib/token-encryption';
+
+// POST /api/mobile/auth/salesforce/refresh - Issue a new Salesforce access token for a device
+export async function POST(request: NextRequest) {
+  try {
+    const { deviceId } = await request.json();
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: 'Device ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('mobile_device_id', deviceId)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: connection, error: connectionError } = await supabase
+      .from('crm_connections')
+      .select('refresh_token, metadata')
+      .eq('user_id', userData.id)
+      .eq('provider', 'salesforce')
+      .eq('is_active', true)
+      .single();
+
+    if (connectionError || !connection) {
+      return NextResponse.json(
+        { error: 'No active Salesforce connection found' },
+        { status: 404 }
+      );
+    }
+
+    if (!connection.refresh_token) {
+      return NextResponse.json(
+        { error: 'No refresh token available' },
+        { status: 400 }
+      );
+    }
+
+    let tokens;
+    try {
+      tokens = await refreshSalesforceToken(decryptToken(connection.refresh_token));
+    } catch (error) {
+      if (error instanceof SalesforceOAuthError) {
+        console.error('Salesforce token refresh failed:', { code: error.code, status: error.status });
+
+        // A revoked refresh token can never succeed again
+        if (error.code === 'invalid_grant') {
+          await supabase
+            .from('crm_connections')
+            .update({ is_active: false, updated_at: new Date().toISOString() })
+            .eq('user_id', userData.id)
+            .eq('provider', 'salesforce');
+        }
+
+        return NextResponse.json(
+          { error: 'Failed to refresh token', code: error.code },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // Salesforce only returns a new refresh token when rotation is enabled
+    const { error: updateError } = await supabase
+      .from('crm_connections')
+      .update({
+        ...encryptTokens({
+          access_token: tokens.access_token,
+          ...(tokens.refresh_token ? { refresh_token: tokens.refresh_token } : {}),
+        }),
+        metadata: { ...(connection.metadata || {}), instance_url: tokens.instance_url },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userData.id)
+      .eq('provider', 'salesforce');
+
+    if (updateError) {
+      console.error('Failed to update Salesforce connection:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update connection' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      accessToken: tokens.access_token,
+      instanceUrl: tokens.instance_url,
+      message: 'Token refreshed successfully'
+    });
+
+  } catch (error) {
+    console.error('Salesforce token refresh error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildSalesforceAuthUrl } from '../../../../../lib/salesforce-oauth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { deviceId, redirectUrl } = await request.json();
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: 'Device ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!process.env.SALESFORCE_CLIENT_ID || !process.env.SALESFORCE_REDIRECT_URI) {
+      console.error('Salesforce OAuth is not configured');
+      return NextResponse.json(
+        { error: 'Salesforce integration is not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Create state parameter with device info
+    const state = Buffer.from(JSON.stringify({
+      deviceId,
+      redirectUrl: redirectUrl || 'circles://salesforce-auth-callback',
+      timestamp: Date.now(),
+    })).toString('base64');
+
+    return NextResponse.json({
+      authUrl: buildSalesforceAuthUrl(state),
+      state,
+      message: 'Open this URL in a browser to authenticate with Salesforce'
+    });
+
+  } catch (error) {
+    console.error('Salesforce mobile auth error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate auth URL' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import {
+  getConnectionStrength,
+  isConnectionStrengthLevel,
+  refreshConnectionStrength,
+  setConnectionStrengthOverride,
+} from '../../../../lib/connection-strength';
+
+async function getDeviceOrganizationId(request: NextRequest): Promise<string | null> {
+  const deviceId = request.headers.get('x-device-id');
+  if (!deviceId) {
+    return null;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('mobile_device_id', deviceId)
+    .single();
+
+  return user?.organization_id || null;
+}
+
+// The mobile app may only know a contact by its HubSpot ID
+async function findContactId(organizationId: string, contactId?: string | null, hubspotContactId?: string | number | null) {
+  if (!contactId && !hubspotContactId) return null;
+
+  let query = supabase
+    .from('contacts')
+    .select('id')
+    .eq('organization_id', organizationId);
+
+  query = contactId
+    ? query.eq('id', contactId)
+    : query.eq('hubspot_contact_id', parseInt(String(hubspotContactId)));
+
+  const { data } = await query.single();
+  return (data?.id as string | undefined) || null;
+}
+
+// GET /api/mobile/connection-strength?contact_id=|hubspot_contact_id= - Score, explanation and lock state
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId = await getDeviceOrganizationId(request);
+    if (!organizationId) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const contactId = await findContactId(
+      organizationId,
+      searchParams.get('contact_id'),
+      searchParams.get('hubspot_contact_id')
+    );
+    if (!contactId) {
+      return createErrorResponse('Contact not found', 404);
+    }
+
+    // Scores age as time passes, so compute one if it's missing or from an earlier day
+    let state = await getConnectionStrength(organizationId, contactId);
+    const today = new Date().toISOString().slice(0, 10);
+    if (!state?.updatedAt || state.updatedAt.slice(0, 10) !== today) {
+      state = await refreshConnectionStrength(organizationId, contactId);
+    }
+
+    return createApiResponse(state);
+
+  } catch (error) {
+    console.error('Connection strength fetch error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
+
+// PUT /api/mobile/connection-strength - Override and lock the level, or unlock it
+export async function PUT(request: NextRequest) {
+  try {
+    const organizationId = await getDeviceOrganizationId(request);
+    if (!organizationId) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const body = await request.json();
+    const contactId = await findContactId(organizationId, body.contact_id, body.hubspot_contact_id);
+    if (!contactId) {
+      return createErrorResponse('Contact not found', 404);
+    }
+
+    if (typeof body.locked !== 'boolean') {
+      return createErrorResponse('locked must be true or false', 400);
+    }
+    if (body.strength !== undefined && body.strength !== null && !isConnectionStrengthLevel(body.strength)) {
+      return createErrorResponse('strength must be Strong, Medium or Weak', 400);
+    }
+
+    const state = await setConnectionStrengthOverride(organizationId, contactId, {
+      strength: body.strength || undefined,
+      locked: body.locked,
+    });
+
+    return createApiResponse(state);
+
+  } catch (error) {
+    console.error('Connection strength update error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
@@ -1,67 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiResponse, createErrorResponse, supabase } from '../../../../../../lib/api-utils';
-import { Client } from '@hubspot/api-client';
-
-// Helper function to refresh HubSpot access token
-async function refreshHubSpotToken(userId: string): Promise<string | null> {
-  try {
-    console.log('🔄 Refreshing HubSpot token for user:', userId);
-
-    // Get the refresh token
-    const { data: connection, error } = await supabase
-      .from('crm_connections')
-      .select('refresh_token, access_token')
-      .eq('user_id', userId)
-      .eq('provider', 'hubspot')
-      .eq('is_active', true)
-      .single();
-
-    if (error || !connection?.refresh_token) {
-      console.error('No refresh token found:', error);
-      return null;
-    }
-
-    // Refresh the token
-    const refreshResponse = await fetch('https://api.hubapi.com/oauth/v1/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        client_id: process.env.HUBSPOT_CLIENT_ID!,
-        client_secret: process.env.HUBSPOT_CLIENT_SECRET!,
-        refresh_token: connection.refresh_token,
-      }),
-    });
-
-    if (!refreshResponse.ok) {
-      console.error('Token refresh failed:', await refreshResponse.text());
-      return null;
-    }
-
-    const tokens = await refreshResponse.json();
-
-    // Update the token in the database
-    await supabase
-      .from('crm_connections')
-      .update({
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token,
-        expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('user_id', userId)
-      .eq('provider', 'hubspot');
-
-    console.log('✅ HubSpot token refreshed successfully');
-    return tokens.access_token;
-
-  } catch (error) {
-    console.error('Token refresh error:', error);
-    return null;
-  }
-}
+import { HubSpotTokenError, withHubSpotClient } from '../../../../../../lib/hubspot-token-manager';
+import { toMobileConflicts } from '../../../../../../lib/conflict-resolution';
+
+// HubSpot properties synced to the mobile app, keyed to their mobile contact field
+const SYNCED_PROPERTIES: { [property: string]: string } = {
+  'firstname': 'firstName',
+  'lastname': 'lastName',
+  'email': 'email',
+  'phone': 'phone',
+  'company': 'company',
+  'jobtitle': 'title',
+  'hs_linkedin_url': 'linkedinUrl',
+  'amc_first_met_location': 'firstMetLocation',
+  'amc_first_met_date': 'firstMetDate',
+  'amc_networking_tags': 'tags',
+  'amc_networking_notes': 'notes',
+};
 
 // GET /api/mobile/contacts/hubspot/[contactId] - Fetch a specific contact from HubSpot
 export async function GET(
@@ -86,9 +41,9 @@ export async function GET(
     const { data: connections, error: connectionError } = await supabase
       .from('crm_connections')
       .select(`
+        id,
         user_id,
         portal_id,
-        access_token,
         users!inner(mobile_device_id, email)
       `)
       .eq('provider', 'hubspot')
@@ -101,19 +56,16 @@ export async function GET(
       return createErrorResponse('HubSpot connection not found', 404);
     }
 
-    // Fetch the contact from HubSpot with automatic token refresh
+    // Fetch the contact from HubSpot; the token manager refreshes an expired token and retries once
     let hubspotContact;
-    let accessToken = connections.access_token;
-
     try {
-      const hubspotClient = new Client({ accessToken });
-      hubspotContact = await hubspotClient.crm.contacts.basicApi.getById(
-        contactId,
-        [
-          'firstname', 'lastname', 'email', 'phone', 'company', 'jobtitle', 'hs_linkedin_url',
-          'amc_first_met_location', 'amc_first_met_date', 'amc_networking_tags', 'amc_networking_notes',
-          'hs_lastmodifieddate'
-        ]
+      hubspotContact = await withHubSpotClient(
+        { type: 'connection', id: connections.id },
+        (hubspotClient) => hubspotClient.crm.contacts.basicApi.getById(
+          contactId,
+          [...Object.keys(SYNCED_PROPERTIES), 'hs_lastmodifieddate'],
+          Object.keys(SYNCED_PROPERTIES)
+        )
       );
     } catch (hubspotError: any) {
       console.error('HubSpot API error:', {
@@ -122,40 +74,35 @@ export async function GET(
         message: hubspotError.message,
         body: hubspotError.body
       });
+      throw hubspotError;
+    }
 
-      // If it's a 401 (token expired), try to refresh and retry
-      if (hubspotError.code === 401 || hubspotError.message?.includes('expired')) {
-        console.log('🔑 Access token expired, attempting refresh...');
-
-        const newToken = await refreshHubSpotToken(connections.user_id);
-        if (newToken) {
-          console.log('🔄 Retrying API call with refreshed token...');
-
-          const retryClient = new Client({ accessToken: newToken });
-          try {
-            hubspotContact = await retryClient.crm.contacts.basicApi.getById(
-              contactId,
-              [
-                'firstname', 'lastname', 'email', 'phone', 'company', 'jobtitle', 'hs_linkedin_url',
-                'amc_first_met_location', 'amc_first_met_date', 'amc_networking_tags', 'amc_networking_notes',
-                'hs_lastmodifieddate'
-              ]
-            );
-            console.log('✅ Retry successful with refreshed token');
-          } catch (retryError) {
-            console.error('❌ Retry failed even with refreshed token:', retryError);
-            throw retryError;
-          }
-        } else {
-          console.error('❌ Failed to refresh token');
-          throw hubspotError;
-        }
-      } else {
-        throw hubspotError;
+    const props = hubspotContact.properties;
+
+    // Per-field modification times so the app can resolve conflicts field by field
+    const fieldUpdatedAt: { [field: string]: string } = {};
+    for (const [property, history] of Object.entries(hubspotContact.propertiesWithHistory || {})) {
+      const latest = history[0];
+      if (latest && SYNCED_PROPERTIES[property]) {
+        fieldUpdatedAt[SYNCED_PROPERTIES[property]] = new Date(latest.timestamp).toISOString();
       }
     }
 
-    const props = hubspotContact.properties;
+    // Conflicts the webhook queued for our copy under the 'manual' policy
+    const { data: user } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', connections.user_id)
+      .single();
+
+    const { data: localContact } = user
+      ? await supabase
+          .from('contacts')
+          .select('sync_conflicts')
+          .eq('organization_id', user.organization_id)
+          .eq('hubspot_contact_id', contactId)
+          .maybeSingle()
+      : { data: null };
 
     // Convert to mobile app format
     const contact = {
@@ -174,6 +121,8 @@ export async function GET(
         props.amc_networking_tags.split(',').map((tag: string) => tag.trim()).filter(Boolean) :
         [],
       updatedAt: props.hs_lastmodifieddate || new Date().toISOString(),
+      fieldUpdatedAt,
+      syncConflicts: toMobileConflicts(localContact?.sync_conflicts),
     };
 
     return createApiResponse({
@@ -189,6 +138,10 @@ export async function GET(
       stack: error instanceof Error ? error.stack : undefined
     });
 
+    if (error instanceof HubSpotTokenError) {
+      return createErrorResponse(error.message, error.status);
+    }
+
     // Handle HubSpot API errors
     if (error instanceof Error && error.message.includes('404')) {
       return createErrorResponse('Contact not found in HubSpot', 404);
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiResponse, supabase, getValidHubSpotClient, getAuthContext } from '../../../../lib/api-utils';
+import { isConnectionStrengthLevel, toDatabaseStrength, toHubSpotStrength } from '../../../../lib/connection-strength';
+import { isCadenceDays } from '../../../../lib/followups';
+import { ContactSearchError, parseContactSearch, searchContacts } from '../../../../lib/contact-search';
+import { findOrganizationEvent } from '../../../../lib/events';
+import { stampFieldUpdates } from '../../../../lib/conflict-resolution';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,10 +15,10 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const {
-      name, email, phone, company, title, notes, tags, groups,
+      name, email, phone, linkedinUrl, company, title, city, country, notes, tags, groups, starred,
       // All My Circles specific fields
-      connectionStrength, contactValue, firstMetLocation, firstMetDate,
-      lastInteractionDate, nextFollowupDate, totalInteractions
+      connectionStrength, connectionStrengthLocked, contactValue, firstMetEventId, firstMetEventClientId, firstMetLocation, firstMetDate,
+      lastInteractionDate, nextFollowupDate, followupCadenceDays, totalInteractions
     } = body;
 
     if (!name) {
@@ -28,28 +33,44 @@ export async function POST(request: NextRequest) {
       return createApiResponse({ error: 'User not found' }, 404);
     }
 
-    // Create contact in Supabase
+    // The event they were met at, if it is one of this organization's
+    const firstMetAt = await findOrganizationEvent(organization.id, {
+      id: firstMetEventId,
+      clientId: firstMetEventClientId
+    });
+
+    const newContact = {
+      organization_id: organization.id,
+      first_name: name.split(' ')[0] || '',
+      last_name: name.split(' ').slice(1).join(' ') || '',
+      email: email || null,
+      phone: phone || null,
+      linkedin_url: linkedinUrl || null,
+      company: company || null,
+      job_title: title || null,
+      city: city || null,
+      country: country || null,
+      notes: notes || null,
+      tags: tags || [],
+      groups: groups || [],
+      starred: !!starred,
+      // All My Circles specific fields
+      connection_strength: isConnectionStrengthLevel(connectionStrength) ? toDatabaseStrength(connectionStrength) : null,
+      connection_strength_locked: !!connectionStrengthLocked,
+      contact_value: contactValue || null,
+      first_met_at: firstMetAt,
+      first_met_location: firstMetLocation || null,
+      first_met_date: firstMetDate || null,
+      last_interaction_date: lastInteractionDate || null,
+      next_followup_date: nextFollowupDate || null,
+      followup_cadence_days: nextFollowupDate && isCadenceDays(followupCadenceDays) ? followupCadenceDays : null,
+      total_interactions: totalInteractions || 0
+    };
+
+    // Create contact in Supabase; its fields count as edited now for conflict resolution
     const { data: contact, error: contactError } = await supabase
       .from('contacts')
-      .insert({
-        organization_id: organization.id,
-        first_name: name.split(' ')[0] || '',
-        last_name: name.split(' ').slice(1).join(' ') || '',
-        email: email || null,
-        phone: phone || null,
-        company: company || null,
-        job_title: title || null,
-        notes: notes || null,
-        tags: tags || [],
-        // All My Circles specific fields
-        connection_strength: connectionStrength || null,
-        contact_value: contactValue || null,
-        first_met_location: firstMetLocation || null,
-        first_met_date: firstMetDate || null,
-        last_interaction_date: lastInteractionDate || null,
-        next_followup_date: nextFollowupDate || null,
-        total_interactions: totalInteractions || 0
-      })
+      .insert({ ...newContact, field_updated_at: stampFieldUpdates(null, newContact) })
       .select()
       .single();
 
@@ -75,7 +96,7 @@ export async function POST(request: NextRequest) {
           lead_source: 'Mobile App',
 
           // All My Circles custom properties
-          amc_connection_strength: contact.connection_strength,
+          amc_connection_strength: toHubSpotStrength(contact.connection_strength),
           amc_contact_value: contact.contact_value,
           amc_first_met_location: contact.first_met_location,
           amc_first_met_date: contact.first_met_date,
@@ -143,17 +164,14 @@ export async function GET(request: NextRequest) {
       return createApiResponse({ error: 'User not found' }, 404);
     }
 
-    // Get contacts for this organization
-    const { data: contacts, error: contactsError } = await supabase
-      .from('contacts')
-      .select('*')
-      .eq('organization_id', organization.id)
-      .order('created_at', { ascending: false });
+    // Everything unless the caller asks for pages, as the app syncs the whole list
+    const searchParams = request.nextUrl.searchParams;
+    const search = parseContactSearch(searchParams, 'created');
+    const limit = (searchParams.get('limit') || search.cursor)
+      ? Math.min(parseInt(searchParams.get('limit') || '50') || 50, 100)
+      : null;
 
-    if (contactsError) {
-      console.error('Contacts fetch error:', contactsError);
-      return createApiResponse({ error: 'Failed to fetch contacts' }, 500);
-    }
+    const { contacts, nextCursor, hasMore } = await searchContacts<any>(organization.id, search, '*', limit);
 
     const formattedContacts = contacts.map(contact => ({
       id: contact.id,
@@ -162,17 +180,28 @@ export async function GET(request: NextRequest) {
       lastName: contact.last_name,
       email: contact.email,
       phone: contact.phone,
+      linkedinUrl: contact.linkedin_url,
       company: contact.company,
       jobTitle: contact.job_title,
+      city: contact.city,
+      country: contact.country,
       notes: contact.notes,
       tags: contact.tags || [],
+      groups: contact.groups || [],
+      starred: !!contact.starred,
       // All My Circles specific fields
       connection_strength: contact.connection_strength,
+      connection_strength_locked: contact.connection_strength_locked,
+      connection_score: contact.connection_score,
+      connection_score_explanation: contact.connection_score_explanation,
+      connection_score_factors: contact.connection_score_factors,
       contact_value: contact.contact_value,
+      first_met_at: contact.first_met_at,
       first_met_location: contact.first_met_location,
       first_met_date: contact.first_met_date,
       last_interaction_date: contact.last_interaction_date,
       next_followup_date: contact.next_followup_date,
+      followup_cadence_days: contact.followup_cadence_days,
       total_interactions: contact.total_interactions || 0,
       hubspotContactId: contact.hubspot_contact_id,
       createdAt: contact.created_at,
@@ -181,10 +210,14 @@ export async function GET(request: NextRequest) {
 
     return createApiResponse({
       success: true,
-      contacts: formattedContacts
+      contacts: formattedContacts,
+      pagination: limit === null ? undefined : { limit, hasMore, nextCursor }
     });
 
   } catch (error) {
+    if (error instanceof ContactSearchError) {
+      return createApiResponse({ error: error.message }, error.status);
+    }
     console.error('Mobile contacts GET API error:', error);
     return createApiResponse({ error: 'Internal server error' }, 500);
   }
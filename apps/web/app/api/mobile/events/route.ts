@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { getEventContactIds, linkEventContacts, parseEventUpdates, toMobileEvent } from '../../../../lib/events';
+
+function contactIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string' && id.length > 0) : [];
+}
 
 // GET /api/mobile/events - List all events for the organization
 export async function GET(request: NextRequest) {
   const authHeader = request.headers.get('authorization');
   const deviceId = request.headers.get('x-device-id');
-  
+
   if (!authHeader && !deviceId) {
     return createErrorResponse('Authentication required', 401);
   }
@@ -20,7 +25,7 @@ export async function GET(request: NextRequest) {
         .select('organization_id')
         .eq('mobile_device_id', deviceId)
         .single();
-      
+
       if (!user) {
         return createErrorResponse('Device not authorized', 401);
       }
@@ -37,7 +42,7 @@ export async function GET(request: NextRequest) {
         .select('id')
         .eq('hubspot_portal_id', parseInt(portalId))
         .single();
-      
+
       if (!org) {
         return createErrorResponse('Organization not found', 401);
       }
@@ -51,18 +56,9 @@ export async function GET(request: NextRequest) {
 
     const { data: events, error } = await supabase
       .from('events')
-      .select(`
-        id,
-        name,
-        location,
-        date,
-        description,
-        event_type,
-        created_at,
-        updated_at
-      `)
+      .select('*')
       .eq('organization_id', organizationId)
-      .order('date', { ascending: false })
+      .order('start_date', { ascending: false, nullsFirst: false })
       .range(offset, offset + limit - 1);
 
     if (error) {
@@ -70,8 +66,11 @@ export async function GET(request: NextRequest) {
       return createErrorResponse('Failed to fetch events', 500);
     }
 
+    // The app links its contacts to events from these
+    const contactIds = await getEventContactIds(events.map((event) => event.id));
+
     return createApiResponse({
-      events,
+      events: events.map((event) => toMobileEvent(event, contactIds[event.id])),
       pagination: {
         page,
         limit,
@@ -91,7 +90,7 @@ export async function GET(request: NextRequest) {
 // POST /api/mobile/events - Create a new event
 export async function POST(request: NextRequest) {
   const deviceId = request.headers.get('x-device-id');
-  
+
   if (!deviceId) {
     return createErrorResponse('Device ID required for mobile authentication', 401);
   }
@@ -102,15 +101,18 @@ export async function POST(request: NextRequest) {
       .select('organization_id')
       .eq('mobile_device_id', deviceId)
       .single();
-    
+
     if (!user) {
       return createErrorResponse('Device not authorized', 401);
     }
 
     const eventData = await request.json();
 
+    // Older app versions send the start date as `date`
+    const startDate = eventData.start_date || eventData.date;
+
     // Validate required fields
-    if (!eventData.name || !eventData.date) {
+    if (!eventData.name || !startDate) {
       return createErrorResponse('Event name and date are required', 400);
     }
 
@@ -119,8 +121,11 @@ export async function POST(request: NextRequest) {
       .insert({
         organization_id: user.organization_id,
         name: eventData.name,
-        location: eventData.location,
-        date: eventData.date,
+        location: eventData.location || eventData.venue,
+        venue: eventData.venue || eventData.location,
+        agenda_url: eventData.agenda_url,
+        start_date: startDate,
+        end_date: eventData.end_date || startDate,
         description: eventData.description,
         event_type: eventData.event_type || 'conference'
       })
@@ -141,4 +146,114 @@ export async function POST(request: NextRequest) {
       500
     );
   }
-}
\ No newline at end of file
+}
+
+// PUT /api/mobile/events - Create or update an event, found by id or client_id, and
+// link the contacts met there (`contact_ids`, server contact IDs)
+export async function PUT(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const body = await request.json();
+      if (!body.id && !body.client_id) {
+        return createErrorResponse('id or client_id is required', 400);
+      }
+
+      const parsed = parseEventUpdates(body);
+      if ('error' in parsed) {
+        return createErrorResponse(parsed.error, 400);
+      }
+      const { updates } = parsed;
+
+      let existingQuery = supabase
+        .from('events')
+        .select('id')
+        .eq('organization_id', organization.id);
+
+      existingQuery = body.id ? existingQuery.eq('id', body.id) : existingQuery.eq('client_id', body.client_id);
+
+      const { data: existing } = await existingQuery.maybeSingle();
+
+      if (!existing && body.id) {
+        return createErrorResponse('Event not found', 404);
+      }
+
+      if (!existing && !updates.name) {
+        return createErrorResponse('name is required for a new event', 400);
+      }
+
+      const { data: row, error } = existing
+        ? await supabase
+            .from('events')
+            .update(updates)
+            .eq('id', existing.id)
+            .select('*')
+            .single()
+        : await supabase
+            .from('events')
+            .insert({
+              organization_id: organization.id,
+              client_id: body.client_id,
+              event_type: 'conference',
+              ...updates
+            })
+            .select('*')
+            .single();
+
+      if (error || !row) {
+        console.error('Event save error:', error);
+        return createErrorResponse('Failed to save event', 500);
+      }
+
+      await linkEventContacts(organization.id, row.id, contactIdList(body.contact_ids));
+      const contactIds = await getEventContactIds([row.id]);
+
+      return createApiResponse({ event: toMobileEvent(row, contactIds[row.id]) }, existing ? 200 : 201);
+
+    } catch (error) {
+      console.error('Event save error:', error);
+      return createErrorResponse(
+        error instanceof Error ? error.message : 'Internal server error',
+        500
+      );
+    }
+  });
+}
+
+// DELETE /api/mobile/events?id=... (or ?client_id=...) - Remove an event; its contacts stay
+export async function DELETE(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const id = searchParams.get('id');
+      const clientId = searchParams.get('client_id');
+
+      if (!id && !clientId) {
+        return createErrorResponse('id or client_id is required', 400);
+      }
+
+      let query = supabase
+        .from('events')
+        .delete()
+        .eq('organization_id', organization.id);
+
+      query = id ? query.eq('id', id) : query.eq('client_id', clientId);
+
+      const { data: deleted, error } = await query.select('id');
+
+      if (error) {
+        console.error('Database error:', error);
+        return createErrorResponse('Failed to delete event', 500);
+      }
+
+      // Already gone counts as deleted, so queued deletes can be retried safely
+      return createApiResponse({ deleted: deleted?.length || 0 });
+
+    } catch (error) {
+      console.error('Event delete error:', error);
+      return createErrorResponse(
+        error instanceof Error ? error.message : 'Internal server error',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { isCadenceDays, isFollowupDate, setFollowup } from '../../../../lib/followups';
+
+async function getDeviceOrganizationId(request: NextRequest): Promise<string | null> {
+  const deviceId = request.headers.get('x-device-id');
+  if (!deviceId) {
+    return null;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('mobile_device_id', deviceId)
+    .single();
+
+  return user?.organization_id || null;
+}
+
+// The mobile app may only know a contact by its HubSpot ID
+async function findContactId(organizationId: string, contactId?: string | null, hubspotContactId?: string | number | null) {
+  if (!contactId && !hubspotContactId) return null;
+
+  let query = supabase
+    .from('contacts')
+    .select('id')
+    .eq('organization_id', organizationId);
+
+  query = contactId
+    ? query.eq('id', contactId)
+    : query.eq('hubspot_contact_id', parseInt(String(hubspotContactId)));
+
+  const { data } = await query.single();
+  return (data?.id as string | undefined) || null;
+}
+
+// PUT /api/mobile/followups - Set, reschedule or clear a contact's follow-up
+export async function PUT(request: NextRequest) {
+  try {
+    const organizationId = await getDeviceOrganizationId(request);
+    if (!organizationId) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const body = await request.json();
+    const contactId = await findContactId(organizationId, body.contact_id, body.hubspot_contact_id);
+    if (!contactId) {
+      return createErrorResponse('Contact not found', 404);
+    }
+
+    const date = body.next_followup_date ?? null;
+    const cadenceDays = body.cadence_days ?? null;
+    if (date !== null && !isFollowupDate(date)) {
+      return createErrorResponse('next_followup_date must be a YYYY-MM-DD date or null', 400);
+    }
+    if (cadenceDays !== null && !isCadenceDays(cadenceDays)) {
+      return createErrorResponse('cadence_days must be a whole number of days or null', 400);
+    }
+
+    const followup = await setFollowup(organizationId, contactId, {
+      date,
+      // A cadence without a date has nothing to repeat from
+      cadenceDays: date ? cadenceDays : null,
+    });
+
+    return createApiResponse(followup);
+
+  } catch (error) {
+    console.error('Follow-up update error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
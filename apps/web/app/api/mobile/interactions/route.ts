@@ -1,5 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { refreshConnectionStrength } from '../../../../lib/connection-strength';
+
+const INTERACTION_FIELDS = `
+  id,
+  client_id,
+  contact_id,
+  interaction_type,
+  date,
+  notes,
+  location,
+  duration_minutes,
+  follow_up_needed,
+  metadata,
+  created_at,
+  updated_at,
+  contact:contacts(id, first_name, last_name, email),
+  event:events(id, name, location, date)
+`;
+
+// Keep the contact's counters and connection score in step with its interactions, and let HubSpot know
+async function updateInteractionCounts(organizationId: string, contactId: string) {
+  const { data: interactionCounts } = await supabase
+    .from('interactions')
+    .select('id, date')
+    .eq('contact_id', contactId)
+    .eq('organization_id', organizationId)
+    .order('date', { ascending: false });
+
+  await supabase
+    .from('contacts')
+    .update({
+      total_interactions: interactionCounts?.length || 0,
+      last_interaction_date: interactionCounts?.[0]?.date || null,
+      hubspot_sync_needed: true,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', contactId)
+    .eq('organization_id', organizationId);
+
+  await refreshConnectionStrength(organizationId, contactId);
+}
 
 // GET /api/mobile/interactions - List interactions for a contact or all interactions
 export async function GET(request: NextRequest) {
@@ -28,18 +69,7 @@ export async function GET(request: NextRequest) {
 
     let query = supabase
       .from('interactions')
-      .select(`
-        id,
-        contact_id,
-        interaction_type,
-        date,
-        notes,
-        location,
-        created_at,
-        updated_at,
-        contact:contacts(id, first_name, last_name, email),
-        event:events(id, name, location, date)
-      `)
+      .select(INTERACTION_FIELDS)
       .eq('organization_id', user.organization_id)
       .order('date', { ascending: false })
       .range(offset, offset + limit - 1);
@@ -95,45 +125,59 @@ export async function POST(request: NextRequest) {
     const interactionData = await request.json();
 
     // Validate required fields
-    if (!interactionData.contact_id || !interactionData.interaction_type || !interactionData.date) {
-      return createErrorResponse('contact_id, interaction_type, and date are required', 400);
+    if ((!interactionData.contact_id && !interactionData.hubspot_contact_id) ||
+        !interactionData.interaction_type || !interactionData.date) {
+      return createErrorResponse('contact_id (or hubspot_contact_id), interaction_type, and date are required', 400);
     }
 
-    // Verify contact exists and belongs to the organization
-    const { data: contact } = await supabase
+    // Verify contact exists and belongs to the organization. Contacts created on the
+    // device may only be known by their HubSpot ID.
+    let contactQuery = supabase
       .from('contacts')
       .select('id')
-      .eq('id', interactionData.contact_id)
-      .eq('organization_id', user.organization_id)
-      .single();
+      .eq('organization_id', user.organization_id);
+
+    contactQuery = interactionData.contact_id
+      ? contactQuery.eq('id', interactionData.contact_id)
+      : contactQuery.eq('hubspot_contact_id', parseInt(String(interactionData.hubspot_contact_id)));
+
+    const { data: contact } = await contactQuery.single();
 
     if (!contact) {
       return createErrorResponse('Contact not found or access denied', 404);
     }
 
+    // An offline upload that is retried after the first attempt got through
+    if (interactionData.client_id) {
+      const { data: existing } = await supabase
+        .from('interactions')
+        .select(INTERACTION_FIELDS)
+        .eq('organization_id', user.organization_id)
+        .eq('client_id', interactionData.client_id)
+        .maybeSingle();
+
+      if (existing) {
+        return createApiResponse(existing);
+      }
+    }
+
     const { data: interaction, error } = await supabase
       .from('interactions')
       .insert({
         organization_id: user.organization_id,
-        contact_id: interactionData.contact_id,
+        client_id: interactionData.client_id,
+        contact_id: contact.id,
         interaction_type: interactionData.interaction_type,
         date: interactionData.date,
         notes: interactionData.notes,
         location: interactionData.location,
+        duration_minutes: interactionData.duration_minutes,
+        follow_up_needed: interactionData.follow_up_needed,
+        // Who reached out, for the connection strength score
+        metadata: interactionData.direction ? { direction: interactionData.direction } : {},
         event_id: interactionData.event_id
       })
-      .select(`
-        id,
-        contact_id,
-        interaction_type,
-        date,
-        notes,
-        location,
-        created_at,
-        updated_at,
-        contact:contacts(id, first_name, last_name, email),
-        event:events(id, name, location, date)
-      `)
+      .select(INTERACTION_FIELDS)
       .single();
 
     if (error) {
@@ -141,25 +185,7 @@ export async function POST(request: NextRequest) {
       return createErrorResponse('Failed to create interaction', 500);
     }
 
-    // Update contact's interaction counts and dates
-    const { data: interactionCounts } = await supabase
-      .from('interactions')
-      .select('id, date')
-      .eq('contact_id', interactionData.contact_id)
-      .eq('organization_id', user.organization_id)
-      .order('date', { ascending: false });
-
-    if (interactionCounts && interactionCounts.length > 0) {
-      await supabase
-        .from('contacts')
-        .update({
-          total_interactions: interactionCounts.length,
-          last_interaction_date: interactionCounts[0].date,
-          hubspot_sync_needed: true,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', interactionData.contact_id);
-    }
+    await updateInteractionCounts(user.organization_id, contact.id);
 
     return createApiResponse(interaction, 201);
 
@@ -170,4 +196,62 @@ export async function POST(request: NextRequest) {
       500
     );
   }
-}
\ No newline at end of file
+}
+
+// DELETE /api/mobile/interactions?id=... (or ?client_id=...) - Remove a logged interaction
+export async function DELETE(request: NextRequest) {
+  const deviceId = request.headers.get('x-device-id');
+
+  if (!deviceId) {
+    return createErrorResponse('Device ID required for mobile authentication', 401);
+  }
+
+  try {
+    const { data: user } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('mobile_device_id', deviceId)
+      .single();
+
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const clientId = searchParams.get('client_id');
+
+    if (!id && !clientId) {
+      return createErrorResponse('id or client_id is required', 400);
+    }
+
+    let query = supabase
+      .from('interactions')
+      .delete()
+      .eq('organization_id', user.organization_id);
+
+    query = id ? query.eq('id', id) : query.eq('client_id', clientId);
+
+    const { data: deleted, error } = await query.select('id, contact_id');
+
+    if (error) {
+      console.error('Database error:', error);
+      return createErrorResponse('Failed to delete interaction', 500);
+    }
+
+    // Already gone counts as deleted, so queued deletes can be retried safely
+    const contactId = deleted?.[0]?.contact_id;
+    if (contactId) {
+      await updateInteractionCounts(user.organization_id, contactId);
+    }
+
+    return createApiResponse({ deleted: deleted?.length || 0 });
+
+  } catch (error) {
+    console.error('Delete interaction error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
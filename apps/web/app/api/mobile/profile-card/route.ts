@@ -0,0 +1,144 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { ProfileCardRow, getShareToken, getShareUrl, toProfileCard } from '../../../../lib/profile-cards';
+
+async function getDeviceUser(request: NextRequest) {
+  const deviceId = request.headers.get('x-device-id');
+  if (!deviceId) {
+    return null;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id')
+    .eq('mobile_device_id', deviceId)
+    .single();
+
+  return user;
+}
+
+function cardResponse(row: ProfileCardRow, request: NextRequest, status = 200) {
+  return createApiResponse({
+    card: toProfileCard(row),
+    token: getShareToken(row),
+    shareUrl: getShareUrl(row, request.nextUrl.origin)
+  }, status);
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// GET /api/mobile/profile-card - Get the device user's profile card and share link
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const { data: row } = await supabase
+      .from('profile_cards')
+      .select('*')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!row) {
+      return createErrorResponse('Profile card not found', 404);
+    }
+
+    return cardResponse(row, request);
+
+  } catch (error) {
+    console.error('Profile card fetch error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
+
+// PUT /api/mobile/profile-card - Create or update the device user's profile card
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const body = await request.json();
+    const name = optionalText(body.name);
+    if (!name) {
+      return createErrorResponse('Name is required', 400);
+    }
+
+    const { data: row, error } = await supabase
+      .from('profile_cards')
+      .upsert({
+        user_id: user.id,
+        name,
+        title: optionalText(body.title),
+        company: optionalText(body.company),
+        email: optionalText(body.email),
+        phone: optionalText(body.phone),
+        linkedin_url: optionalText(body.linkedinUrl)
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error || !row) {
+      console.error('Profile card save error:', error);
+      return createErrorResponse('Failed to save profile card', 500);
+    }
+
+    return cardResponse(row, request);
+
+  } catch (error) {
+    console.error('Profile card save error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
+
+// DELETE /api/mobile/profile-card - Rotate the share link; previously shared links stop working
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const { data: current } = await supabase
+      .from('profile_cards')
+      .select('id, token_version')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!current) {
+      return createErrorResponse('Profile card not found', 404);
+    }
+
+    const { data: row, error } = await supabase
+      .from('profile_cards')
+      .update({ token_version: current.token_version + 1 })
+      .eq('id', current.id)
+      .select()
+      .single();
+
+    if (error || !row) {
+      console.error('Profile card rotate error:', error);
+      return createErrorResponse('Failed to rotate share link', 500);
+    }
+
+    return cardResponse(row, request);
+
+  } catch (error) {
+    console.error('Profile card rotate error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../../lib/api-utils';
+import { HubSpotTokenError } from '../../../../../lib/hubspot-token-manager';
+import { hubspotListFilterBranch, pushSavedSearchToHubSpot, toSavedSearch } from '../../../../../lib/saved-searches';
+
+async function getDeviceUser(request: NextRequest) {
+  const deviceId = request.headers.get('x-device-id');
+  if (!deviceId) {
+    return null;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, organization_id')
+    .eq('mobile_device_id', deviceId)
+    .single();
+
+  return user;
+}
+
+// POST /api/mobile/saved-searches/hubspot - Push a saved search to HubSpot as an active list
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const body = await request.json();
+    if (!body.id && !body.client_id) {
+      return createErrorResponse('id or client_id is required', 400);
+    }
+
+    let query = supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', user.id);
+
+    query = body.id ? query.eq('id', body.id) : query.eq('client_id', body.client_id);
+
+    const { data: row } = await query.maybeSingle();
+
+    if (!row) {
+      return createErrorResponse('Saved search not found', 404);
+    }
+
+    // Refuse rather than create a list that holds different people than the app shows
+    const { filterBranch, unsupported } = hubspotListFilterBranch(row.filters);
+    if (!filterBranch || unsupported.length > 0) {
+      return createApiResponse({
+        error: filterBranch
+          ? `HubSpot lists can't filter by ${unsupported.join(', ')}`
+          : 'This saved search has no filters HubSpot can use',
+        unsupported
+      }, 400);
+    }
+
+    const updated = await pushSavedSearchToHubSpot(row, filterBranch);
+
+    return createApiResponse({
+      savedSearch: toSavedSearch(updated),
+      hubspotListId: updated.hubspot_list_id
+    });
+
+  } catch (error) {
+    if (error instanceof HubSpotTokenError) {
+      return createErrorResponse(error.message, error.status);
+    }
+    console.error('Saved search HubSpot push error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
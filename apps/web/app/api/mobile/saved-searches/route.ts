@@ -0,0 +1,175 @@
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, supabase } from '../../../../lib/api-utils';
+import { sanitizeFilters, toSavedSearch } from '../../../../lib/saved-searches';
+
+async function getDeviceUser(request: NextRequest) {
+  const deviceId = request.headers.get('x-device-id');
+  if (!deviceId) {
+    return null;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, organization_id')
+    .eq('mobile_device_id', deviceId)
+    .single();
+
+  return user;
+}
+
+// GET /api/mobile/saved-searches - List the device user's saved searches, pinned first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const { data: rows, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('pinned', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Database error:', error);
+      return createErrorResponse('Failed to fetch saved searches', 500);
+    }
+
+    return createApiResponse({ savedSearches: (rows || []).map(toSavedSearch) });
+
+  } catch (error) {
+    console.error('Saved searches fetch error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
+
+// PUT /api/mobile/saved-searches - Create or update a saved search, found by id or client_id
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const body = await request.json();
+    if (!body.id && !body.client_id) {
+      return createErrorResponse('id or client_id is required', 400);
+    }
+
+    const updates: { name?: string; filters?: object; pinned?: boolean } = {};
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return createErrorResponse('name must be a non-empty string', 400);
+      }
+      updates.name = body.name.trim();
+    }
+    if (body.filters !== undefined) {
+      const filters = sanitizeFilters(body.filters);
+      if (!filters) {
+        return createErrorResponse('filters must be an object', 400);
+      }
+      updates.filters = filters;
+    }
+    if (body.pinned !== undefined) {
+      updates.pinned = body.pinned === true;
+    }
+
+    let existingQuery = supabase
+      .from('saved_searches')
+      .select('id')
+      .eq('user_id', user.id);
+
+    existingQuery = body.id ? existingQuery.eq('id', body.id) : existingQuery.eq('client_id', body.client_id);
+
+    const { data: existing } = await existingQuery.maybeSingle();
+
+    if (!existing && body.id) {
+      return createErrorResponse('Saved search not found', 404);
+    }
+
+    if (!existing && (!updates.name || !updates.filters)) {
+      return createErrorResponse('name and filters are required for a new saved search', 400);
+    }
+
+    const { data: row, error } = existing
+      ? await supabase
+          .from('saved_searches')
+          .update(updates)
+          .eq('id', existing.id)
+          .select('*')
+          .single()
+      : await supabase
+          .from('saved_searches')
+          .insert({
+            organization_id: user.organization_id,
+            user_id: user.id,
+            client_id: body.client_id,
+            pinned: false,
+            ...updates
+          })
+          .select('*')
+          .single();
+
+    if (error || !row) {
+      console.error('Saved search save error:', error);
+      return createErrorResponse('Failed to save saved search', 500);
+    }
+
+    return createApiResponse({ savedSearch: toSavedSearch(row) }, existing ? 200 : 201);
+
+  } catch (error) {
+    console.error('Saved search save error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
+
+// DELETE /api/mobile/saved-searches?id=... (or ?client_id=...) - Remove a saved search
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getDeviceUser(request);
+    if (!user) {
+      return createErrorResponse('Device not authorized', 401);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const clientId = searchParams.get('client_id');
+
+    if (!id && !clientId) {
+      return createErrorResponse('id or client_id is required', 400);
+    }
+
+    let query = supabase
+      .from('saved_searches')
+      .delete()
+      .eq('user_id', user.id);
+
+    query = id ? query.eq('id', id) : query.eq('client_id', clientId);
+
+    const { data: deleted, error } = await query.select('id');
+
+    if (error) {
+      console.error('Database error:', error);
+      return createErrorResponse('Failed to delete saved search', 500);
+    }
+
+    // Already gone counts as deleted, so queued deletes can be retried safely.
+    // A HubSpot list pushed from it is left in place; it belongs to the portal now.
+    return createApiResponse({ deleted: deleted?.length || 0 });
+
+  } catch (error) {
+    console.error('Saved search delete error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+}
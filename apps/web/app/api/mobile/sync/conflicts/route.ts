@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { withAuth, createApiResponse, createErrorResponse } from '../../../../../lib/api-utils';
+import {
+  getConflictPolicy,
+  isConflictPolicy,
+  resolveQueuedConflict,
+  setConflictPolicy,
+  toContactColumn,
+} from '../../../../../lib/conflict-resolution';
+
+// GET /api/mobile/sync/conflicts - The organization's conflict policy for HubSpot changes
+export async function GET(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      return createApiResponse({ conflictPolicy: await getConflictPolicy(organization.id) });
+    } catch (error) {
+      console.error('Conflict policy fetch error:', error);
+      return createErrorResponse(
+        error instanceof Error ? error.message : 'Internal server error',
+        500
+      );
+    }
+  });
+}
+
+// PUT /api/mobile/sync/conflicts - Set the conflict policy (`{ "conflictPolicy": "manual" }`)
+export async function PUT(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const { conflictPolicy } = await request.json();
+      if (!isConflictPolicy(conflictPolicy)) {
+        return createErrorResponse('conflictPolicy must be one of hubspot_wins, mobile_wins, newest_wins or manual', 400);
+      }
+
+      await setConflictPolicy(organization.id, conflictPolicy);
+      return createApiResponse({ conflictPolicy });
+
+    } catch (error) {
+      console.error('Conflict policy save error:', error);
+      return createErrorResponse(
+        error instanceof Error ? error.message : 'Internal server error',
+        500
+      );
+    }
+  });
+}
+
+// POST /api/mobile/sync/conflicts - Resolve a queued conflict
+// (`{ "hubspotContactId": "...", "field": "company", "choice": "local" | "remote" }`)
+export async function POST(request: NextRequest) {
+  return withAuth(request, async ({ organization }) => {
+    try {
+      const { hubspotContactId, field, choice } = await request.json();
+      const column = typeof field === 'string' ? toContactColumn(field) : null;
+
+      if (!hubspotContactId || !column || (choice !== 'local' && choice !== 'remote')) {
+        return createErrorResponse('hubspotContactId, a synced field and a choice of local or remote are required', 400);
+      }
+
+      const resolved = await resolveQueuedConflict(organization.id, String(hubspotContactId), column, choice);
+
+      // Nothing queued counts as resolved, so the app can retry safely
+      return createApiResponse({ resolved });
+
+    } catch (error) {
+      console.error('Conflict resolve error:', error);
+      return createErrorResponse(
+        error instanceof Error ? error.message : 'Internal server error',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const error = searchParams.get('error');
+
+  // Create the deep link URL to redirect back to mobile app
+  let redirectUrl: string;
+
+  if (error) {
+    redirectUrl = `circles://salesforce-auth-callback?error=${encodeURIComponent(error)}`;
+  } else if (code && state) {
+    redirectUrl = `circles://salesforce-auth-callback?code=${encodeURIComponent(code)}&state=${encodeURIComponent(state)}`;
+  } else {
+    redirectUrl = `circles://salesforce-auth-callback?error=${encodeURIComponent('invalid_callback')}`;
+  }
+
+  // Return an HTML page that immediately redirects to the mobile app
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Connecting to Salesforce...</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <style>
+          body {
+            margin: 0;
+            font-family: system-ui, -apple-system, sans-serif;
+            background: #0b1220;
+            color: white;
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            height: 100vh;
+            text-align: center;
+          }
+          a {
+            color: #60a5fa;
+            text-decoration: none;
+          }
+        </style>
+      </head>
+      <body>
+        <div>
+          <h2>Connecting to Salesforce...</h2>
+          <p>Redirecting back to All My Circles...</p>
+          <p><a href="${redirectUrl}">Tap here if you're not redirected automatically</a></p>
+        </div>
+        <script>
+          window.location.href = '${redirectUrl}';
+        </script>
+      </body>
+    </html>
+  `;
+
+  return new NextResponse(html, {
+    headers: {
+      'Content-Type': 'text/html',
+    },
+  });
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../../../lib/api-utils';
+import {
+  exchangeSalesforceCode,
+  parseSalesforceIdentity,
+  SalesforceOAuthError,
+} from '../../../../../lib/salesforce-oauth';
+import { encryptTokens } from '../../../../../lib/token-encryption';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { code, state, deviceId } = await request.json();
+
+    if (!code || !state || !deviceId) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    // Verify state parameter
+    try {
+      const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
+      if (stateData.deviceId !== deviceId) {
+        throw new Error('Device ID mismatch');
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid state parameter' },
+        { status: 400 }
+      );
+    }
+
+    // Exchange authorization code for tokens
+    let tokens;
+    try {
+      tokens = await exchangeSalesforceCode(code);
+    } catch (error) {
+      if (error instanceof SalesforceOAuthError) {
+        console.error('Salesforce token exchange failed:', { code: error.code, status: error.status, deviceId });
+        return NextResponse.json(
+          {
+            error: error.code === 'invalid_grant'
+              ? 'Authorization code has expired or is invalid. Please try again.'
+              : error.message,
+            code: 'TOKEN_EXCHANGE_FAILED'
+          },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const { orgId, userId: salesforceUserId } = parseSalesforceIdentity(tokens.id);
+    const grantedScopes = tokens.scope ? tokens.scope.split(' ') : [];
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, organization_id')
+      .eq('mobile_device_id', deviceId)
+      .limit(1)
+      .maybeSingle();
+
+    if (userError || !userData) {
+      console.warn('Salesforce exchange: user not found for device', deviceId);
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Store the connection; the refresh token stays on the server
+    const { error: insertError } = await supabase
+      .from('crm_connections')
+      .upsert({
+        user_id: userData.id,
+        organization_id: userData.organization_id,
+        provider: 'salesforce',
+        portal_id: orgId,
+        ...encryptTokens({
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token,
+        }),
+        scopes: grantedScopes,
+        is_active: true,
+        connection_name: 'Salesforce OAuth Connection',
+        metadata: {
+          instance_url: tokens.instance_url,
+          identity_url: tokens.id,
+          salesforce_user_id: salesforceUserId,
+          token_type: tokens.token_type || 'Bearer',
+        },
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'user_id,provider',
+      });
+
+    if (insertError) {
+      console.error('Failed to store Salesforce connection:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to store connection' },
+        { status: 500 }
+      );
+    }
+
+    console.log('✅ Salesforce connection stored for org:', orgId);
+
+    return NextResponse.json({
+      accessToken: tokens.access_token,
+      instanceUrl: tokens.instance_url,
+      organizationId: orgId,
+      userId: salesforceUserId,
+      message: 'Salesforce connection established successfully'
+    });
+
+  } catch (error) {
+    console.error('Salesforce OAuth exchange error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Client } from '@hubspot/api-client';
 import { supabase } from '../../../../lib/api-utils';
+import { getHubSpotClient } from '../../../../lib/hubspot-token-manager';
+import { decryptOrganizationTokens } from '../../../../lib/token-encryption';
+import { toHubSpotStrength } from '../../../../lib/connection-strength';
 
 async function getOrganizationFromRequest(request: NextRequest) {
   const authHeader = request.headers.get('authorization');
@@ -42,7 +44,7 @@ async function getOrganizationFromRequest(request: NextRequest) {
     .single();
 
   if (!organization) throw new Error('Organization not found');
-  return organization;
+  return decryptOrganizationTokens(organization);
 }
 
 async function createSyncLog(organizationId: string, syncType: string, triggeredBy: string) {
@@ -81,7 +83,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+    const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
     const syncLog = await createSyncLog(organization.id, direction, 'manual');
     
     let results = {
@@ -112,7 +114,7 @@ export async function POST(request: NextRequest) {
               company: contact.company || '',
               jobtitle: contact.job_title || '',
               // All My Circles custom networking properties
-              amc_connection_strength: contact.connection_strength || '',
+              amc_connection_strength: toHubSpotStrength(contact.connection_strength),
               amc_contact_value: contact.contact_value || '',
               amc_first_met_location: contact.first_met_location || '',
               amc_first_met_date: contact.first_met_date || '',
@@ -0,0 +1,72 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { Briefcase, Building2, Download, Linkedin, Mail, Phone } from 'lucide-react'
+import { CirclesLogo } from '@/components/CirclesLogo'
+import { getProfileCardByToken } from '@/lib/profile-cards'
+
+export const dynamic = 'force-dynamic'
+
+interface SharePageProps {
+  params: { token: string }
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const card = await getProfileCardByToken(params.token)
+  return {
+    title: card ? `${card.name} - All My Circles` : 'All My Circles',
+    // Share links are personal; keep them out of search results
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const card = await getProfileCardByToken(params.token)
+  if (!card) {
+    notFound()
+  }
+
+  const details = [
+    { icon: Briefcase, value: card.title },
+    { icon: Building2, value: card.company },
+    { icon: Mail, value: card.email, href: card.email ? `mailto:${card.email}` : undefined },
+    { icon: Phone, value: card.phone, href: card.phone ? `tel:${card.phone}` : undefined },
+    { icon: Linkedin, value: card.linkedinUrl ? 'LinkedIn' : null, href: card.linkedinUrl || undefined },
+  ].filter(detail => detail.value)
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950/20 to-slate-950 flex items-center justify-center px-6 py-16">
+      <div className="w-full max-w-md rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur">
+        <div className="flex justify-center mb-6">
+          <CirclesLogo size={48} />
+        </div>
+
+        <h1 className="text-3xl font-bold text-white text-center">{card.name}</h1>
+
+        <ul className="mt-8 space-y-4">
+          {details.map(({ icon: Icon, value, href }) => (
+            <li key={value} className="flex items-center gap-3 text-slate-300">
+              <Icon className="w-5 h-5 text-blue-400 shrink-0" />
+              {href ? (
+                <a href={href} className="hover:text-white break-all">{value}</a>
+              ) : (
+                <span>{value}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <a
+          href={`/share/${params.token}/vcf`}
+          className="mt-10 flex items-center justify-center gap-2 rounded-xl bg-blue-600 px-6 py-4 font-semibold text-white hover:bg-blue-500 transition-colors"
+        >
+          <Download className="w-5 h-5" />
+          Save contact
+        </a>
+
+        <p className="mt-6 text-center text-sm text-slate-500">
+          Shared with All My Circles
+        </p>
+      </div>
+    </main>
+  )
+}
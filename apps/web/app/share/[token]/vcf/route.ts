@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse } from '../../../../lib/api-utils';
+import { getProfileCardByToken } from '../../../../lib/profile-cards';
+import { buildVCard, vCardFileName } from '../../../../lib/vcard';
+
+// GET /share/[token]/vcf - Download a shared profile card as a .vcf file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const card = await getProfileCardByToken(params.token);
+    if (!card) {
+      return createErrorResponse('Profile card not found', 404);
+    }
+
+    return new NextResponse(buildVCard(card), {
+      headers: {
+        'Content-Type': 'text/vcard; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${vCardFileName(card.name)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Profile card download error:', error);
+    return createErrorResponse('Internal server error', 500);
+  }
+}
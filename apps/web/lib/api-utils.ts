@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Client } from '@hubspot/api-client';
+import { decryptOrganizationTokens } from './token-encryption';
+import { getHubSpotClient } from './hubspot-token-manager';
 
 let _supabase: SupabaseClient | null = null;
 
@@ -131,67 +133,11 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext>
     throw new Error('Organization not found');
   }
 
-  return { organization, user };
-}
-
-export async function getHubSpotClient(accessToken: string): Promise<Client> {
-  return new Client({ accessToken });
-}
-
-export async function refreshHubSpotToken(organization: Organization): Promise<string> {
-  if (!organization.hubspot_refresh_token) {
-    throw new Error('No refresh token available');
-  }
-
-  const response = await fetch('https://api.hubapi.com/oauth/v1/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      client_id: process.env.HUBSPOT_CLIENT_ID!,
-      client_secret: process.env.HUBSPOT_CLIENT_SECRET!,
-      refresh_token: organization.hubspot_refresh_token,
-    }),
-  });
-
-  const tokens = await response.json();
-
-  if (!response.ok) {
-    throw new Error(`Token refresh failed: ${tokens.error_description || tokens.error}`);
-  }
-
-  // Update organization with new tokens
-  await supabase
-    .from('organizations')
-    .update({
-      hubspot_access_token: tokens.access_token,
-      hubspot_refresh_token: tokens.refresh_token,
-      token_expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
-    })
-    .eq('id', organization.id);
-
-  return tokens.access_token;
+  return { organization: decryptOrganizationTokens(organization), user };
 }
 
 export async function getValidHubSpotClient(organization: Organization): Promise<Client> {
-  let accessToken = organization.hubspot_access_token;
-
-  // Check if token needs refresh (expires within next 5 minutes)
-  const expiresAt = new Date(organization.token_expires_at);
-  const fiveMinutesFromNow = new Date(Date.now() + 5 * 60 * 1000);
-
-  if (expiresAt < fiveMinutesFromNow) {
-    try {
-      accessToken = await refreshHubSpotToken(organization);
-    } catch (error) {
-      console.error('Token refresh failed:', error);
-      throw new Error('HubSpot authentication expired. Please reconnect.');
-    }
-  }
-
-  return new Client({ accessToken });
+  return getHubSpotClient({ type: 'organization', id: organization.id });
 }
 
 export function createApiResponse(data: any, status: number = 200) {
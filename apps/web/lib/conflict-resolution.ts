@@ -0,0 +1,244 @@
+/**
+ * Field-level Conflict Resolution for HubSpot Sync
+ * Decides whether a HubSpot property change may overwrite a contact field that
+ * may also have been edited from the mobile app
+ */
+
+import { supabase } from './api-utils';
+
+export type ConflictPolicy = 'hubspot_wins' | 'mobile_wins' | 'newest_wins' | 'manual';
+
+export type ConflictDecision = 'apply_remote' | 'keep_local' | 'conflict';
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'newest_wins';
+
+const CONFLICT_POLICIES: ConflictPolicy[] = ['hubspot_wins', 'mobile_wins', 'newest_wins', 'manual'];
+
+/**
+ * Contact columns that HubSpot changes are resolved for, keyed to the mobile app's field
+ */
+export const SYNCED_CONTACT_COLUMNS: { [column: string]: string } = {
+  first_name: 'firstName',
+  last_name: 'lastName',
+  email: 'email',
+  phone: 'phone',
+  company: 'company',
+  job_title: 'title',
+  linkedin_url: 'linkedinUrl',
+  first_met_location: 'firstMetLocation',
+  first_met_date: 'firstMetDate',
+  tags: 'tags',
+  notes: 'notes',
+};
+
+export interface ContactFieldConflict {
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  localUpdatedAt?: string;
+  remoteUpdatedAt: string;
+  detectedAt: string;
+}
+
+export interface FieldChangeContext {
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  /** When the field was last edited on our side, from contacts.field_updated_at */
+  localUpdatedAt?: string;
+  /** When HubSpot changed the property */
+  remoteUpdatedAt: string;
+  lastSyncedAt?: string | null;
+}
+
+function toTime(timestamp?: string | null): number {
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function blankToNull(value: unknown): unknown {
+  return value === '' || (Array.isArray(value) && value.length === 0) ? null : value;
+}
+
+export function isConflictPolicy(value: unknown): value is ConflictPolicy {
+  return CONFLICT_POLICIES.indexOf(value as ConflictPolicy) !== -1;
+}
+
+/**
+ * contacts.field_updated_at after a write from our side: every synced column the
+ * write changes is stamped, so a later HubSpot change to it goes through the policy
+ */
+export function stampFieldUpdates(
+  current: { [column: string]: any } | null,
+  updates: { [column: string]: unknown },
+  at: string = new Date().toISOString()
+): { [column: string]: string } {
+  const stamped: { [column: string]: string } = { ...(current?.field_updated_at || {}) };
+
+  Object.keys(updates).forEach((column) => {
+    if (!SYNCED_CONTACT_COLUMNS[column] || updates[column] === undefined) return;
+    if (!valuesEqual(blankToNull(current ? current[column] : null), blankToNull(updates[column]))) {
+      stamped[column] = at;
+    }
+  });
+
+  return stamped;
+}
+
+/**
+ * Only fields edited locally since the last sync are subject to the policy;
+ * anything else simply takes the HubSpot value.
+ */
+export function decideFieldChange(policy: ConflictPolicy, change: FieldChangeContext): ConflictDecision {
+  if (valuesEqual(change.localValue, change.remoteValue)) {
+    return 'apply_remote';
+  }
+
+  const locallyModified = Boolean(change.localUpdatedAt) &&
+    (!change.lastSyncedAt || toTime(change.localUpdatedAt) > toTime(change.lastSyncedAt));
+
+  if (!locallyModified) {
+    return 'apply_remote';
+  }
+
+  switch (policy) {
+    case 'hubspot_wins':
+      return 'apply_remote';
+    case 'mobile_wins':
+      return 'keep_local';
+    case 'manual':
+      return 'conflict';
+    case 'newest_wins':
+    default:
+      return toTime(change.remoteUpdatedAt) > toTime(change.localUpdatedAt) ? 'apply_remote' : 'keep_local';
+  }
+}
+
+/**
+ * Read the organization's policy from organizations.sync_settings.conflict_policy
+ */
+export async function getConflictPolicy(organizationId?: string | null): Promise<ConflictPolicy> {
+  if (!organizationId) {
+    return DEFAULT_CONFLICT_POLICY;
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('sync_settings')
+    .eq('id', organizationId)
+    .single();
+
+  const policy = organization?.sync_settings?.conflict_policy;
+  return isConflictPolicy(policy) ? policy : DEFAULT_CONFLICT_POLICY;
+}
+
+/**
+ * Save the organization's policy, leaving the rest of sync_settings alone
+ */
+export async function setConflictPolicy(organizationId: string, policy: ConflictPolicy): Promise<void> {
+  const { data: organization, error: loadError } = await supabase
+    .from('organizations')
+    .select('sync_settings')
+    .eq('id', organizationId)
+    .single();
+
+  if (loadError) {
+    throw new Error(`Failed to load sync settings: ${loadError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('organizations')
+    .update({ sync_settings: { ...(organization?.sync_settings || {}), conflict_policy: policy } })
+    .eq('id', organizationId);
+
+  if (error) {
+    throw new Error(`Failed to save conflict policy: ${error.message}`);
+  }
+}
+
+/**
+ * Add a conflict to a contact's queue, replacing any older conflict on the same field
+ */
+export function queueConflict(
+  existing: ContactFieldConflict[] | null | undefined,
+  conflict: ContactFieldConflict
+): ContactFieldConflict[] {
+  return [...(existing || []).filter(item => item.field !== conflict.field), conflict];
+}
+
+/**
+ * A contact's queued conflicts as the mobile app names its fields
+ */
+export function toMobileConflicts(conflicts: ContactFieldConflict[] | null | undefined): ContactFieldConflict[] {
+  return (conflicts || [])
+    .filter(conflict => SYNCED_CONTACT_COLUMNS[conflict.field])
+    .map(conflict => ({ ...conflict, field: SYNCED_CONTACT_COLUMNS[conflict.field] }));
+}
+
+/**
+ * The contacts column behind one of the mobile app's fields, if it is synced
+ */
+export function toContactColumn(field: string): string | null {
+  const columns = Object.keys(SYNCED_CONTACT_COLUMNS);
+  for (let i = 0; i < columns.length; i++) {
+    if (SYNCED_CONTACT_COLUMNS[columns[i]] === field) return columns[i];
+  }
+  return null;
+}
+
+/**
+ * Apply the user's decision for a conflict queued on our copy of a HubSpot contact.
+ * Taking HubSpot's value writes it; keeping ours stamps the field and flags the contact
+ * so HubSpot receives it. Returns false when there was no such conflict.
+ */
+export async function resolveQueuedConflict(
+  organizationId: string,
+  hubspotContactId: string,
+  column: string,
+  choice: 'local' | 'remote'
+): Promise<boolean> {
+  const { data: contact, error: loadError } = await supabase
+    .from('contacts')
+    .select('id, field_updated_at, sync_conflicts')
+    .eq('organization_id', organizationId)
+    .eq('hubspot_contact_id', hubspotContactId)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Failed to load contact: ${loadError.message}`);
+  }
+
+  const conflicts: ContactFieldConflict[] = contact?.sync_conflicts || [];
+  const conflict = conflicts.filter(item => item.field === column)[0];
+  if (!contact || !conflict) {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+  const updates: { [column: string]: unknown } = {
+    sync_conflicts: conflicts.filter(item => item.field !== column),
+    updated_at: now,
+  };
+
+  if (choice === 'remote') {
+    updates[column] = conflict.remoteValue;
+    updates.field_updated_at = { ...(contact.field_updated_at || {}), [column]: conflict.remoteUpdatedAt };
+  } else {
+    updates.field_updated_at = { ...(contact.field_updated_at || {}), [column]: now };
+    updates.hubspot_sync_needed = true;
+  }
+
+  const { error } = await supabase
+    .from('contacts')
+    .update(updates)
+    .eq('id', contact.id);
+
+  if (error) {
+    throw new Error(`Failed to resolve conflict: ${error.message}`);
+  }
+
+  return true;
+}
@@ -0,0 +1,218 @@
+/**
+ * Connection Strength
+ * Keeps each contact's computed connection score in step with its interactions and
+ * pushes the resulting level to HubSpot's amc_connection_strength property. Users can
+ * override the level; an overridden level is locked and only the score keeps updating.
+ */
+
+import { supabase } from './api-utils';
+import { withHubSpotClient } from './hubspot-token-manager';
+import {
+  scoreConnection,
+  type ConnectionScore,
+  type ConnectionStrengthLevel,
+  type InteractionDirection,
+} from './shared/connection-strength';
+
+const LEVELS: ConnectionStrengthLevel[] = ['Strong', 'Medium', 'Weak'];
+
+export function isConnectionStrengthLevel(value: unknown): value is ConnectionStrengthLevel {
+  return typeof value === 'string' && LEVELS.indexOf(value as ConnectionStrengthLevel) !== -1;
+}
+
+// The connection_strength enum is lowercase; HubSpot's property options are capitalized
+export function toDatabaseStrength(level: ConnectionStrengthLevel): string {
+  return level.toLowerCase();
+}
+
+export function toHubSpotStrength(value: string | null | undefined): ConnectionStrengthLevel | '' {
+  const level = value ? value.charAt(0).toUpperCase() + value.slice(1).toLowerCase() : '';
+  return isConnectionStrengthLevel(level) ? level : '';
+}
+
+export interface ConnectionStrengthState {
+  contactId: string;
+  strength: ConnectionStrengthLevel | '';
+  locked: boolean;
+  score: number | null;
+  explanation: string | null;
+  factors: ConnectionScore['factors'];
+  updatedAt: string | null;
+}
+
+interface ContactStrengthRow {
+  id: string;
+  hubspot_contact_id: number | string | null;
+  connection_strength: string | null;
+  connection_strength_locked: boolean | null;
+  connection_score: number | null;
+  connection_score_explanation: string | null;
+  connection_score_factors: ConnectionScore['factors'] | null;
+  connection_score_updated_at: string | null;
+}
+
+const STRENGTH_COLUMNS = `
+  id,
+  hubspot_contact_id,
+  connection_strength,
+  connection_strength_locked,
+  connection_score,
+  connection_score_explanation,
+  connection_score_factors,
+  connection_score_updated_at
+`;
+
+export function toConnectionStrengthState(row: ContactStrengthRow): ConnectionStrengthState {
+  return {
+    contactId: row.id,
+    strength: toHubSpotStrength(row.connection_strength),
+    locked: !!row.connection_strength_locked,
+    score: row.connection_score,
+    explanation: row.connection_score_explanation,
+    factors: row.connection_score_factors || [],
+    updatedAt: row.connection_score_updated_at,
+  };
+}
+
+export async function getConnectionStrength(organizationId: string, contactId: string): Promise<ConnectionStrengthState | null> {
+  const { data } = await supabase
+    .from('contacts')
+    .select(STRENGTH_COLUMNS)
+    .eq('id', contactId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  return data ? toConnectionStrengthState(data as ContactStrengthRow) : null;
+}
+
+// Push a changed level straight to HubSpot; if that fails the regular sync picks it up
+async function pushStrengthToHubSpot(organizationId: string, row: ContactStrengthRow, level: ConnectionStrengthLevel) {
+  if (!row.hubspot_contact_id) return;
+
+  try {
+    await withHubSpotClient({ type: 'organization', id: organizationId }, (client) =>
+      client.crm.contacts.basicApi.update(row.hubspot_contact_id!.toString(), {
+        properties: { amc_connection_strength: level },
+      })
+    );
+  } catch (error) {
+    console.error('Failed to push connection strength to HubSpot:', error);
+    await supabase
+      .from('contacts')
+      .update({ hubspot_sync_needed: true })
+      .eq('id', row.id)
+      .eq('organization_id', organizationId);
+  }
+}
+
+/**
+ * Recompute a contact's connection score from its interactions. The level follows the
+ * score unless the user locked it.
+ */
+export async function refreshConnectionStrength(organizationId: string, contactId: string): Promise<ConnectionStrengthState | null> {
+  const { data: row } = await supabase
+    .from('contacts')
+    .select(STRENGTH_COLUMNS)
+    .eq('id', contactId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (!row) return null;
+  const contact = row as ContactStrengthRow;
+
+  const { data: interactions, error } = await supabase
+    .from('interactions')
+    .select('interaction_type, date, metadata')
+    .eq('contact_id', contactId)
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    console.error('Failed to load interactions for scoring:', error);
+    return toConnectionStrengthState(contact);
+  }
+
+  const result = scoreConnection((interactions || []).map((interaction) => ({
+    type: interaction.interaction_type || 'meeting',
+    date: interaction.date,
+    direction: interaction.metadata?.direction as InteractionDirection | undefined,
+  })));
+
+  const previous = toHubSpotStrength(contact.connection_strength);
+  const strengthChanged = !contact.connection_strength_locked && previous !== result.strength;
+
+  const { data: updated, error: updateError } = await supabase
+    .from('contacts')
+    .update({
+      connection_score: result.score,
+      connection_score_explanation: result.explanation,
+      connection_score_factors: result.factors,
+      connection_score_updated_at: result.computedAt,
+      ...(strengthChanged ? { connection_strength: toDatabaseStrength(result.strength) } : {}),
+    })
+    .eq('id', contactId)
+    .eq('organization_id', organizationId)
+    .select(STRENGTH_COLUMNS)
+    .single();
+
+  if (updateError || !updated) {
+    console.error('Failed to store connection score:', updateError);
+    return toConnectionStrengthState(contact);
+  }
+
+  if (strengthChanged) {
+    await pushStrengthToHubSpot(organizationId, contact, result.strength);
+  }
+
+  return toConnectionStrengthState(updated as ContactStrengthRow);
+}
+
+/**
+ * Override the level by hand (which locks it), or unlock it so it follows the score again
+ */
+export async function setConnectionStrengthOverride(
+  organizationId: string,
+  contactId: string,
+  override: { strength?: ConnectionStrengthLevel; locked: boolean }
+): Promise<ConnectionStrengthState | null> {
+  const { data: row } = await supabase
+    .from('contacts')
+    .select(STRENGTH_COLUMNS)
+    .eq('id', contactId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (!row) return null;
+  const contact = row as ContactStrengthRow;
+
+  if (!override.locked) {
+    await supabase
+      .from('contacts')
+      .update({ connection_strength_locked: false })
+      .eq('id', contactId)
+      .eq('organization_id', organizationId);
+
+    return refreshConnectionStrength(organizationId, contactId);
+  }
+
+  const level = override.strength || toHubSpotStrength(contact.connection_strength) || 'Weak';
+  const { data: updated, error } = await supabase
+    .from('contacts')
+    .update({
+      connection_strength: toDatabaseStrength(level),
+      connection_strength_locked: true,
+    })
+    .eq('id', contactId)
+    .eq('organization_id', organizationId)
+    .select(STRENGTH_COLUMNS)
+    .single();
+
+  if (error || !updated) {
+    throw new Error('Failed to update connection strength');
+  }
+
+  if (toHubSpotStrength(contact.connection_strength) !== level) {
+    await pushStrengthToHubSpot(organizationId, contact, level);
+  }
+
+  return toConnectionStrengthState(updated as ContactStrengthRow);
+}
@@ -0,0 +1,139 @@
+/**
+ * Contact Merge
+ * Combines two contacts rows describing the same person into one: each scalar field
+ * comes from the record chosen for it, tags and links are unioned and interaction
+ * counters are added up
+ */
+
+import { mapContactFields, type FieldMapping } from './shared/crm-field-mapping';
+import { SYNCED_CONTACT_COLUMNS } from './conflict-resolution';
+import { toHubSpotStrength } from './connection-strength';
+
+export type MergeSide = 'primary' | 'duplicate';
+
+/** Columns where one record's value wins outright */
+export const MERGE_FIELDS = [
+  'first_name',
+  'last_name',
+  'email',
+  'phone',
+  'company',
+  'job_title',
+  'connection_strength',
+  'contact_value',
+  'first_met_at',
+  'first_met_location',
+  'first_met_date',
+  'notes',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export type MergeFieldChoices = Partial<Record<MergeField, MergeSide>>;
+
+export interface MergeableContact {
+  id: string;
+  hubspot_contact_id?: number | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  job_title?: string | null;
+  connection_strength?: string | null;
+  contact_value?: string | null;
+  first_met_at?: string | null;
+  first_met_location?: string | null;
+  first_met_date?: string | null;
+  last_interaction_date?: string | null;
+  next_followup_date?: string | null;
+  total_interactions?: number | null;
+  tags?: string[] | null;
+  notes?: string | null;
+  social_links?: Record<string, unknown> | null;
+  custom_fields?: Record<string, unknown> | null;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// ISO dates compare correctly as strings
+function latest(a?: string | null, b?: string | null): string | null {
+  if (!a || !b) return a || b || null;
+  return a > b ? a : b;
+}
+
+function earliest(a?: string | null, b?: string | null): string | null {
+  if (!a || !b) return a || b || null;
+  return a < b ? a : b;
+}
+
+export function isMergeField(field: string): field is MergeField {
+  return (MERGE_FIELDS as readonly string[]).indexOf(field) !== -1;
+}
+
+/**
+ * Column updates that turn the primary row into the merged contact. Fields without a
+ * choice keep the primary value unless it is empty.
+ */
+export function buildMergedContact(
+  primary: MergeableContact,
+  duplicate: MergeableContact,
+  choices: MergeFieldChoices = {}
+): Partial<MergeableContact> {
+  const merged: Partial<MergeableContact> = {};
+
+  MERGE_FIELDS.forEach((field) => {
+    const side = choices[field] || (isEmpty(primary[field]) ? 'duplicate' : 'primary');
+    merged[field] = (side === 'primary' ? primary[field] : duplicate[field]) ?? null;
+  });
+
+  const tags: string[] = [];
+  (primary.tags || []).concat(duplicate.tags || []).forEach((tag) => {
+    if (tags.indexOf(tag) === -1) tags.push(tag);
+  });
+  merged.tags = tags;
+
+  // The primary's links and custom values win where both records have one
+  merged.social_links = { ...(duplicate.social_links || {}), ...(primary.social_links || {}) };
+  merged.custom_fields = { ...(duplicate.custom_fields || {}), ...(primary.custom_fields || {}) };
+
+  merged.total_interactions = (primary.total_interactions || 0) + (duplicate.total_interactions || 0);
+  merged.last_interaction_date = latest(primary.last_interaction_date, duplicate.last_interaction_date);
+  merged.next_followup_date = earliest(primary.next_followup_date, duplicate.next_followup_date);
+  merged.hubspot_contact_id = primary.hubspot_contact_id || duplicate.hubspot_contact_id || null;
+
+  return merged;
+}
+
+/**
+ * HubSpot properties for the merged contact. Contact fields go through the connection's
+ * field mappings; the All My Circles tracking properties are always set.
+ */
+export function toHubSpotMergeProperties(
+  contact: Partial<MergeableContact>,
+  fieldMappings: FieldMapping[]
+): Record<string, string> {
+  const row = contact as Record<string, unknown>;
+  const fields: Record<string, unknown> = {};
+  Object.keys(SYNCED_CONTACT_COLUMNS).forEach((column) => {
+    fields[SYNCED_CONTACT_COLUMNS[column]] = row[column];
+  });
+
+  const properties: Record<string, string | null | undefined> = {
+    ...mapContactFields(fields, fieldMappings).fields,
+    amc_connection_strength: toHubSpotStrength(contact.connection_strength),
+    amc_contact_value: contact.contact_value,
+    amc_last_interaction_date: contact.last_interaction_date,
+    amc_next_followup_date: contact.next_followup_date,
+    amc_total_interactions: contact.total_interactions?.toString(),
+  };
+
+  const defined: Record<string, string> = {};
+  Object.keys(properties).forEach((key) => {
+    const value = properties[key];
+    if (!isEmpty(value)) defined[key] = value as string;
+  });
+  return defined;
+}
@@ -0,0 +1,205 @@
+/**
+ * Contact Search
+ * Server-side version of the mobile app's contact filters (ContactFilters), so the web
+ * app and the HubSpot UI extension can search too. Free text is matched against the
+ * contacts' search_vector (names, company, tags, notes) as prefixes, so partly typed
+ * words match. Results are paged with an opaque cursor on (sort column, id).
+ */
+
+import { supabase } from './api-utils';
+import {
+  ContactSearchError,
+  decodeCursor,
+  encodeCursor,
+  toPrefixQuery,
+  type CursorValue,
+} from './shared/contact-search-query';
+
+export { ContactSearchError };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_INTERACTION_DAYS = 30;
+
+export type ContactSortField = 'name' | 'company' | 'lastInteraction' | 'created' | 'updated';
+
+export interface ContactSearch {
+  query: string;
+  tags: string[];
+  group: string | null;
+  company: string | null;
+  city: string | null;
+  country: string | null;
+  hasEmail: boolean;
+  hasPhone: boolean;
+  hasLinkedIn: boolean;
+  starred: boolean;
+  recentInteraction: boolean;
+  eventId: string | null;
+  connectionStrength: string | null;
+  sortBy: ContactSortField;
+  sortOrder: 'asc' | 'desc';
+  cursor: string | null;
+}
+
+export interface ContactSearchPage<T> {
+  contacts: T[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Column and natural direction of each sort. As in the app, 'asc' on the date sorts means
+// most recent first; 'desc' reverses it. Contacts without a value always come last.
+const SORTS: { [field: string]: { column: string; ascending: boolean } } = {
+  name: { column: 'sort_name', ascending: true },
+  company: { column: 'company', ascending: true },
+  lastInteraction: { column: 'last_interaction_date', ascending: false },
+  created: { column: 'created_at', ascending: false },
+  updated: { column: 'updated_at', ascending: false },
+};
+
+function flag(params: URLSearchParams, name: string): boolean {
+  const value = params.get(name);
+  return value === 'true' || value === '1';
+}
+
+function text(params: URLSearchParams, name: string): string | null {
+  const value = params.get(name);
+  return value && value.trim() ? value.trim() : null;
+}
+
+function list(params: URLSearchParams, name: string): string[] {
+  return (params.get(name) || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Read a search from query parameters named like ContactFilters (`q`, `tags=a,b`,
+ * `has_email=true`, `sort_by=lastInteraction`, ...). `search` is accepted for `q`.
+ */
+export function parseContactSearch(params: URLSearchParams, defaultSort: ContactSortField): ContactSearch {
+  const sortBy = params.get('sort_by') || defaultSort;
+  if (!SORTS[sortBy]) {
+    throw new ContactSearchError(`sort_by must be one of ${Object.keys(SORTS).join(', ')}`);
+  }
+
+  const sortOrder = params.get('sort_order') || 'asc';
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new ContactSearchError('sort_order must be asc or desc');
+  }
+
+  return {
+    query: text(params, 'q') || text(params, 'search') || '',
+    tags: list(params, 'tags'),
+    group: text(params, 'group'),
+    company: text(params, 'company'),
+    city: text(params, 'city'),
+    country: text(params, 'country'),
+    hasEmail: flag(params, 'has_email'),
+    hasPhone: flag(params, 'has_phone'),
+    hasLinkedIn: flag(params, 'has_linkedin'),
+    starred: flag(params, 'starred'),
+    recentInteraction: flag(params, 'recent_interaction'),
+    eventId: text(params, 'event_id'),
+    connectionStrength: text(params, 'connection_strength'),
+    sortBy: sortBy as ContactSortField,
+    sortOrder,
+    cursor: text(params, 'cursor'),
+  };
+}
+
+// Escape LIKE wildcards so a filter value only matches itself
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// Quote a value inside a PostgREST or() filter, where commas and parens are syntax
+function filterValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+}
+
+/**
+ * One page of an organization's contacts matching the search, selected with `select`
+ * (which has to include the sort column, e.g. `*`). A null limit returns every match;
+ * offset skips rows for clients that still page by number instead of by cursor.
+ */
+export async function searchContacts<T extends { id: string }>(
+  organizationId: string,
+  search: ContactSearch,
+  select: string,
+  limit: number | null,
+  offset: number = 0,
+  now: Date = new Date()
+): Promise<ContactSearchPage<T>> {
+  const sort = SORTS[search.sortBy];
+  const ascending = search.sortOrder === 'desc' ? !sort.ascending : sort.ascending;
+
+  let query = supabase
+    .from('contacts')
+    .select(select)
+    .eq('organization_id', organizationId);
+
+  const prefixQuery = toPrefixQuery(search.query);
+  if (prefixQuery) {
+    query = query.textSearch('search_vector', prefixQuery, { config: 'simple' });
+  }
+
+  if (search.tags.length > 0) query = query.overlaps('tags', search.tags);
+  if (search.group) query = query.contains('groups', [search.group]);
+  if (search.company) query = query.ilike('company', likePattern(search.company));
+  if (search.city) query = query.ilike('city', likePattern(search.city));
+  if (search.country) query = query.ilike('country', likePattern(search.country));
+  if (search.hasEmail) query = query.not('email', 'is', null).neq('email', '');
+  if (search.hasPhone) query = query.not('phone', 'is', null).neq('phone', '');
+  if (search.hasLinkedIn) query = query.not('linkedin_url', 'is', null).neq('linkedin_url', '');
+  if (search.starred) query = query.eq('starred', true);
+  if (search.eventId) query = query.eq('first_met_at', search.eventId);
+  if (search.connectionStrength) query = query.eq('connection_strength', search.connectionStrength);
+  if (search.recentInteraction) {
+    const since = new Date(now.getTime() - RECENT_INTERACTION_DAYS * DAY_MS).toISOString().slice(0, 10);
+    query = query.gte('last_interaction_date', since);
+  }
+
+  if (search.cursor) {
+    const { value, id } = decodeCursor(search.sortBy, search.sortOrder, search.cursor);
+    const column = sort.column;
+    const afterId = `id.gt.${filterValue(id)}`;
+    // Rows after the cursor: further along the sort, tied with a larger id, or (as nulls
+    // sort last) without a value at all
+    query = value === null
+      ? query.or(`and(${column}.is.null,${afterId})`)
+      : query.or([
+          `${column}.${ascending ? 'gt' : 'lt'}.${filterValue(String(value))}`,
+          `and(${column}.eq.${filterValue(String(value))},${afterId})`,
+          `${column}.is.null`,
+        ].join(','));
+  }
+
+  query = query
+    .order(sort.column, { ascending, nullsFirst: false })
+    .order('id', { ascending: true });
+
+  if (limit !== null) {
+    // One extra row tells whether there is another page
+    query = query.range(offset, offset + limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to search contacts: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as T[];
+  const hasMore = limit !== null && rows.length > limit;
+  const contacts = hasMore ? rows.slice(0, limit as number) : rows;
+  const last = contacts[contacts.length - 1] as unknown as { [column: string]: CursorValue } | undefined;
+
+  return {
+    contacts,
+    nextCursor: hasMore && last ? encodeCursor(search.sortBy, search.sortOrder, last[sort.column], String(last.id)) : null,
+    hasMore,
+  };
+}
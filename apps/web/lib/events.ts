@@ -0,0 +1,200 @@
+/**
+ * Events
+ * Conferences and meetups as the mobile app sees them. A contact is linked to the event
+ * where they were met through contacts.first_met_at, which the app sets from either
+ * side: when it uploads a contact met at an event, or when it saves an event along with
+ * the contacts met there.
+ */
+
+import { supabase } from './api-utils';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface EventRow {
+  id: string;
+  organization_id: string;
+  client_id: string | null;
+  name: string;
+  description: string | null;
+  location: string | null;
+  venue: string | null;
+  agenda_url: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  event_type: string | null;
+  tags: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MobileEvent {
+  id: string;
+  clientId: string | null;
+  name: string;
+  description: string | null;
+  venue: string | null;
+  agendaUrl: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  eventType: string | null;
+  /** Server IDs of the contacts first met at the event */
+  contactIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function toMobileEvent(row: EventRow, contactIds: string[] = []): MobileEvent {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    description: row.description,
+    venue: row.venue || row.location,
+    agendaUrl: row.agenda_url,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    eventType: row.event_type,
+    contactIds,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export interface EventUpdates {
+  name?: string;
+  description?: string | null;
+  venue?: string | null;
+  location?: string | null;
+  agenda_url?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  event_type?: string;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * The event columns set by a mobile request body, or an error message. Only fields
+ * present in the body are returned, so partial updates leave the rest alone.
+ */
+export function parseEventUpdates(body: { [key: string]: unknown }): { updates: EventUpdates } | { error: string } {
+  const updates: EventUpdates = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name must be a non-empty string' };
+    }
+    updates.name = body.name.trim();
+  }
+
+  const dates: Array<['start_date' | 'end_date', unknown]> = [
+    ['start_date', body.start_date],
+    ['end_date', body.end_date],
+  ];
+  for (const [column, value] of dates) {
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== 'string' || !DATE_PATTERN.test(value))) {
+      return { error: `${column} must be a YYYY-MM-DD date or null` };
+    }
+    updates[column] = value as string | null;
+  }
+  if (updates.start_date && updates.end_date && updates.end_date < updates.start_date) {
+    return { error: 'end_date must not be before start_date' };
+  }
+
+  if (body.agenda_url !== undefined) {
+    const agendaUrl = optionalText(body.agenda_url);
+    if (agendaUrl && !/^https?:\/\//i.test(agendaUrl)) {
+      return { error: 'agenda_url must be an http(s) link' };
+    }
+    updates.agenda_url = agendaUrl;
+  }
+  if (body.venue !== undefined) {
+    // location is what the web app shows, so keep it in step
+    updates.venue = optionalText(body.venue);
+    updates.location = updates.venue;
+  }
+  if (body.description !== undefined) {
+    updates.description = optionalText(body.description);
+  }
+  if (body.event_type !== undefined && optionalText(body.event_type)) {
+    updates.event_type = optionalText(body.event_type) as string;
+  }
+
+  return { updates };
+}
+
+/**
+ * Server IDs of the contacts first met at each of the events
+ */
+export async function getEventContactIds(eventIds: string[]): Promise<{ [eventId: string]: string[] }> {
+  const contactIds: { [eventId: string]: string[] } = {};
+  eventIds.forEach((id) => { contactIds[id] = []; });
+
+  if (eventIds.length === 0) {
+    return contactIds;
+  }
+
+  const { data: contacts, error } = await supabase
+    .from('contacts')
+    .select('id, first_met_at')
+    .in('first_met_at', eventIds);
+
+  if (error) {
+    throw new Error(`Failed to load event contacts: ${error.message}`);
+  }
+
+  (contacts || []).forEach((contact: { id: string; first_met_at: string }) => {
+    contactIds[contact.first_met_at].push(contact.id);
+  });
+
+  return contactIds;
+}
+
+/**
+ * Record that the organization's given contacts were first met at the event.
+ * IDs of other organizations' contacts are ignored.
+ */
+export async function linkEventContacts(organizationId: string, eventId: string, contactIds: string[]): Promise<void> {
+  if (contactIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('contacts')
+    .update({ first_met_at: eventId })
+    .eq('organization_id', organizationId)
+    .in('id', contactIds);
+
+  if (error) {
+    throw new Error(`Failed to link contacts to event: ${error.message}`);
+  }
+}
+
+/**
+ * The ID of the organization's event with the given server ID, or else the given
+ * client_id (for events the app hasn't learnt the server ID of yet); null if neither
+ */
+export async function findOrganizationEvent(
+  organizationId: string,
+  ref: { id?: unknown; clientId?: unknown }
+): Promise<string | null> {
+  const byId = typeof ref.id === 'string' && ref.id;
+  const byClientId = typeof ref.clientId === 'string' && ref.clientId;
+  if (!byId && !byClientId) {
+    return null;
+  }
+
+  let query = supabase
+    .from('events')
+    .select('id')
+    .eq('organization_id', organizationId);
+
+  query = byId ? query.eq('id', ref.id) : query.eq('client_id', ref.clientId);
+
+  const { data: event } = await query.maybeSingle();
+
+  return event ? event.id : null;
+}
@@ -0,0 +1,147 @@
+/**
+ * Follow-ups
+ * Lists contacts whose next_followup_date has come round and stores new follow-up
+ * dates, keeping HubSpot's amc_next_followup_date property in step.
+ */
+
+import { supabase } from './api-utils';
+import { withHubSpotClient } from './hubspot-token-manager';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FollowupStatus = 'overdue' | 'due' | 'upcoming';
+
+export interface DueFollowup {
+  contactId: string;
+  hubspotContactId: number | null;
+  name: string;
+  company: string | null;
+  email: string | null;
+  connectionStrength: string | null;
+  nextFollowupDate: string;
+  cadenceDays: number | null;
+  status: FollowupStatus;
+  daysOverdue: number;
+}
+
+interface FollowupRow {
+  id: string;
+  hubspot_contact_id: number | null;
+  first_name: string | null;
+  last_name: string | null;
+  company: string | null;
+  email: string | null;
+  connection_strength: string | null;
+  next_followup_date: string;
+  followup_cadence_days: number | null;
+}
+
+export function isFollowupDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+export function isCadenceDays(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= 3650;
+}
+
+// Calendar dates compare as UTC midnights so the result doesn't depend on the server's zone
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function toDueFollowup(row: FollowupRow, today: string): DueFollowup {
+  const daysOverdue = daysBetween(row.next_followup_date, today);
+
+  return {
+    contactId: row.id,
+    hubspotContactId: row.hubspot_contact_id,
+    name: [row.first_name, row.last_name].filter(Boolean).join(' ') || row.email || 'Unnamed contact',
+    company: row.company,
+    email: row.email,
+    connectionStrength: row.connection_strength,
+    nextFollowupDate: row.next_followup_date,
+    cadenceDays: row.followup_cadence_days,
+    status: daysOverdue > 0 ? 'overdue' : daysOverdue === 0 ? 'due' : 'upcoming',
+    daysOverdue: Math.max(0, daysOverdue),
+  };
+}
+
+/**
+ * Follow-ups due on or before `today + withinDays`, oldest first. `today` is the caller's
+ * calendar date, since "due today" depends on where the user is.
+ */
+export async function getDueFollowups(
+  organizationId: string,
+  options: { today: string; withinDays?: number; limit?: number }
+): Promise<DueFollowup[]> {
+  const until = addDays(options.today, options.withinDays || 0);
+
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('id, hubspot_contact_id, first_name, last_name, company, email, connection_strength, next_followup_date, followup_cadence_days')
+    .eq('organization_id', organizationId)
+    .not('next_followup_date', 'is', null)
+    .lte('next_followup_date', until)
+    .order('next_followup_date', { ascending: true })
+    .limit(options.limit || 100);
+
+  if (error) {
+    throw new Error(`Failed to load follow-ups: ${error.message}`);
+  }
+
+  return ((data || []) as FollowupRow[]).map((row) => toDueFollowup(row, options.today));
+}
+
+/**
+ * Set or clear a contact's follow-up. A cadence makes it recurring; the device works
+ * out the next date when a follow-up is completed or snoozed and sends it here.
+ */
+export async function setFollowup(
+  organizationId: string,
+  contactId: string,
+  followup: { date: string | null; cadenceDays: number | null }
+) {
+  const { data: updated, error } = await supabase
+    .from('contacts')
+    .update({
+      next_followup_date: followup.date,
+      followup_cadence_days: followup.cadenceDays,
+    })
+    .eq('id', contactId)
+    .eq('organization_id', organizationId)
+    .select('id, hubspot_contact_id, next_followup_date, followup_cadence_days')
+    .single();
+
+  if (error || !updated) {
+    throw new Error('Failed to update follow-up');
+  }
+
+  if (updated.hubspot_contact_id) {
+    try {
+      await withHubSpotClient({ type: 'organization', id: organizationId }, (client) =>
+        client.crm.contacts.basicApi.update(updated.hubspot_contact_id.toString(), {
+          properties: { amc_next_followup_date: followup.date || '' },
+        })
+      );
+    } catch (hubspotError) {
+      // The regular sync pushes it later
+      console.error('Failed to push follow-up date to HubSpot:', hubspotError);
+      await supabase
+        .from('contacts')
+        .update({ hubspot_sync_needed: true })
+        .eq('id', contactId)
+        .eq('organization_id', organizationId);
+    }
+  }
+
+  return {
+    contactId: updated.id as string,
+    nextFollowupDate: updated.next_followup_date as string | null,
+    cadenceDays: updated.followup_cadence_days as number | null,
+  };
+}
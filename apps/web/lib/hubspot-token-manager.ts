@@ -0,0 +1,286 @@
+/**
+ * HubSpot Token Manager
+ * Single place that hands out HubSpot access tokens and clients. Tokens are refreshed
+ * shortly before expires_at, concurrent refreshes of one connection are serialized, and
+ * a connection whose refresh token is revoked is deactivated.
+ */
+
+import { Client } from '@hubspot/api-client';
+import { supabase } from './api-utils';
+import { decryptToken, encryptTokens } from './token-encryption';
+
+/**
+ * Where the tokens live: a user's crm_connections row, or the organizations row of
+ * a portal-level app installation
+ */
+export type HubSpotTokenSource =
+  | { type: 'connection'; id: string }
+  | { type: 'organization'; id: string };
+
+export interface HubSpotAccessToken {
+  accessToken: string;
+  expiresAt: string | null;
+  refreshed: boolean;
+}
+
+export interface HubSpotTokenOptions {
+  forceRefresh?: boolean;
+  /**
+   * Access token HubSpot just rejected. Refreshes unless another request already
+   * replaced it, so a burst of 401s only refreshes once.
+   */
+  rejectedToken?: string;
+}
+
+export type HubSpotTokenErrorCode = 'not_connected' | 'invalid_grant' | 'refresh_failed';
+
+export class HubSpotTokenError extends Error {
+  constructor(message: string, public code: HubSpotTokenErrorCode, public status: number = 401) {
+    super(message);
+    this.name = 'HubSpotTokenError';
+  }
+}
+
+const TOKEN_COLUMNS = {
+  connection: {
+    table: 'crm_connections',
+    accessToken: 'access_token',
+    refreshToken: 'refresh_token',
+    expiresAt: 'expires_at',
+  },
+  organization: {
+    table: 'organizations',
+    accessToken: 'hubspot_access_token',
+    refreshToken: 'hubspot_refresh_token',
+    expiresAt: 'token_expires_at',
+  },
+};
+
+// Refresh this long before expires_at so a token never expires mid-request
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// In-flight refreshes per source. Other server instances are covered by the
+// compare-and-set on the stored refresh token in refreshTokens.
+const pendingRefreshes = new Map<string, Promise<HubSpotAccessToken>>();
+
+interface StoredTokens {
+  accessToken: string | null;
+  refreshToken: string | null;
+  encryptedRefreshToken: string | null;
+  expiresAt: string | null;
+}
+
+function sourceKey(source: HubSpotTokenSource): string {
+  return `${source.type}:${source.id}`;
+}
+
+async function loadTokens(source: HubSpotTokenSource): Promise<StoredTokens> {
+  const columns = TOKEN_COLUMNS[source.type];
+  const select = [columns.accessToken, columns.refreshToken, columns.expiresAt]
+    .concat(source.type === 'connection' ? ['is_active'] : [])
+    .join(', ');
+
+  const { data, error } = await supabase
+    .from(columns.table)
+    .select(select)
+    .eq('id', source.id)
+    .single();
+
+  const row = data as unknown as Record<string, any> | null;
+  if (error || !row || row.is_active === false || !row[columns.accessToken]) {
+    throw new HubSpotTokenError('HubSpot is not connected', 'not_connected', 404);
+  }
+
+  return {
+    accessToken: decryptToken(row[columns.accessToken]),
+    refreshToken: decryptToken(row[columns.refreshToken]),
+    encryptedRefreshToken: row[columns.refreshToken],
+    expiresAt: row[columns.expiresAt],
+  };
+}
+
+function isExpiring(expiresAt: string | null): boolean {
+  return !expiresAt || new Date(expiresAt).getTime() - Date.now() < REFRESH_MARGIN_MS;
+}
+
+async function deactivate(source: HubSpotTokenSource): Promise<void> {
+  const columns = TOKEN_COLUMNS[source.type];
+  const update = source.type === 'connection'
+    ? { is_active: false }
+    : { [columns.accessToken]: null, [columns.refreshToken]: null };
+
+  const { error } = await supabase
+    .from(columns.table)
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', source.id);
+
+  if (error) {
+    console.error(`Failed to deactivate HubSpot ${source.type} ${source.id}:`, error);
+  }
+}
+
+async function refreshTokens(
+  source: HubSpotTokenSource,
+  options: HubSpotTokenOptions
+): Promise<HubSpotAccessToken> {
+  const columns = TOKEN_COLUMNS[source.type];
+  const stored = await loadTokens(source);
+
+  const rejected = options.rejectedToken !== undefined && options.rejectedToken === stored.accessToken;
+  if (!options.forceRefresh && !rejected && !isExpiring(stored.expiresAt)) {
+    return { accessToken: stored.accessToken as string, expiresAt: stored.expiresAt, refreshed: false };
+  }
+
+  if (!stored.refreshToken) {
+    throw new HubSpotTokenError('No HubSpot refresh token available', 'refresh_failed');
+  }
+
+  const response = await fetch('https://api.hubapi.com/oauth/v1/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: process.env.HUBSPOT_CLIENT_ID!,
+      client_secret: process.env.HUBSPOT_CLIENT_SECRET!,
+      refresh_token: stored.refreshToken,
+    }),
+  });
+
+  const tokens = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    // HubSpot reports a revoked or unknown refresh token as invalid_grant / BAD_REFRESH_TOKEN
+    if (tokens.error === 'invalid_grant' || tokens.status === 'BAD_REFRESH_TOKEN') {
+      await deactivate(source);
+      throw new HubSpotTokenError('HubSpot authorization was revoked. Please reconnect.', 'invalid_grant');
+    }
+
+    console.error('HubSpot token refresh failed:', response.status, tokens);
+    throw new HubSpotTokenError(
+      `HubSpot token refresh failed: ${tokens.message || tokens.error_description || response.statusText}`,
+      'refresh_failed',
+      502
+    );
+  }
+
+  const expiresAt = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
+
+  // Compare-and-set on the refresh token we used: if another instance refreshed
+  // first, keep its tokens rather than overwriting them
+  let update = supabase
+    .from(columns.table)
+    .update({
+      ...encryptTokens({
+        [columns.accessToken]: tokens.access_token,
+        [columns.refreshToken]: tokens.refresh_token || stored.refreshToken,
+      }),
+      [columns.expiresAt]: expiresAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', source.id);
+  update = stored.encryptedRefreshToken
+    ? update.eq(columns.refreshToken, stored.encryptedRefreshToken)
+    : update.is(columns.refreshToken, null);
+
+  const { data: updated, error: updateError } = await update.select('id');
+
+  if (updateError) {
+    console.error('Failed to store refreshed HubSpot token:', updateError);
+  } else if (!updated || updated.length === 0) {
+    const latest = await loadTokens(source);
+    return { accessToken: latest.accessToken as string, expiresAt: latest.expiresAt, refreshed: true };
+  }
+
+  return { accessToken: tokens.access_token, expiresAt, refreshed: true };
+}
+
+/**
+ * Get a usable access token, refreshing it first when it is about to expire
+ */
+export async function getHubSpotAccessToken(
+  source: HubSpotTokenSource,
+  options: HubSpotTokenOptions = {}
+): Promise<HubSpotAccessToken> {
+  const key = sourceKey(source);
+  const pending = pendingRefreshes.get(key);
+  if (pending) {
+    const result = await pending.catch(() => undefined);
+    const satisfied = result && (
+      result.refreshed || (!options.forceRefresh && result.accessToken !== options.rejectedToken)
+    );
+    if (satisfied) {
+      return result;
+    }
+    if (pendingRefreshes.get(key) === pending) {
+      pendingRefreshes.delete(key);
+    }
+    return getHubSpotAccessToken(source, options);
+  }
+
+  const refresh = refreshTokens(source, options);
+  pendingRefreshes.set(key, refresh);
+  try {
+    return await refresh;
+  } finally {
+    pendingRefreshes.delete(key);
+  }
+}
+
+/**
+ * HubSpot API client authenticated for the source
+ */
+export async function getHubSpotClient(source: HubSpotTokenSource): Promise<Client> {
+  const { accessToken } = await getHubSpotAccessToken(source);
+  return new Client({ accessToken });
+}
+
+function isUnauthorized(error: any): boolean {
+  return error?.code === 401 || error?.status === 401 || error?.response?.status === 401;
+}
+
+/**
+ * Run HubSpot client calls, retrying once with a refreshed token if HubSpot rejects the current one
+ */
+export async function withHubSpotClient<T>(
+  source: HubSpotTokenSource,
+  apiCall: (client: Client) => Promise<T>
+): Promise<T> {
+  const { accessToken } = await getHubSpotAccessToken(source);
+  try {
+    return await apiCall(new Client({ accessToken }));
+  } catch (error) {
+    if (!isUnauthorized(error)) {
+      throw error;
+    }
+    const retry = await getHubSpotAccessToken(source, { rejectedToken: accessToken });
+    return apiCall(new Client({ accessToken: retry.accessToken }));
+  }
+}
+
+/**
+ * fetch() against the HubSpot API with the source's token, retrying once after a 401
+ */
+export async function hubspotFetch(
+  source: HubSpotTokenSource,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const send = (accessToken: string) => fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+
+  const { accessToken } = await getHubSpotAccessToken(source);
+  const response = await send(accessToken);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const retry = await getHubSpotAccessToken(source, { rejectedToken: accessToken });
+  return send(retry.accessToken);
+}
@@ -0,0 +1,349 @@
+/**
+ * HubSpot Webhook Event Handlers
+ * Applies HubSpot contact events to the local contacts table
+ */
+
+import { supabase } from './api-utils';
+import { HubSpotWebhookEvent } from './hubspot-webhook-security';
+import { decideFieldChange, getConflictPolicy, queueConflict } from './conflict-resolution';
+import { getHubSpotClient } from './hubspot-token-manager';
+import { toDatabaseStrength, toHubSpotStrength } from './connection-strength';
+
+export async function processWebhookEvent(event: HubSpotWebhookEvent) {
+  const { subscriptionType, objectType, objectTypeId, objectId, portalId, changeFlag, propertyName, propertyValue } = event;
+
+  console.log('Processing webhook event:', { subscriptionType, objectType, objectTypeId, objectId, portalId, propertyName });
+
+  // We're primarily interested in contact events - HubSpot sends objectTypeId "0-1" for contacts
+  const isContactEvent = objectType === 'contact' || objectTypeId === '0-1';
+  if (!isContactEvent) {
+    console.log('Ignoring non-contact event:', { objectType, objectTypeId });
+    return;
+  }
+
+  // Handle different subscription types (new format)
+  switch (subscriptionType) {
+    case 'object.propertyChange':
+      await handleContactPropertyChange(event);
+      break;
+    case 'object.creation':
+      await handleContactCreation(event);
+      break;
+    case 'object.deletion':
+      await handleContactDeletion(event);
+      break;
+    default:
+      console.log('Unhandled subscription type:', subscriptionType);
+  }
+}
+
+async function handleContactPropertyChange(event: any) {
+  const { objectId, portalId, propertyName, propertyValue, occurredAt } = event;
+
+  console.log('📝 Contact property changed:', { objectId, propertyName, propertyValue });
+
+  // Process both AMC properties and standard HubSpot properties for bi-directional sync
+  const importantProperties = [
+    'firstname', 'lastname', 'email', 'phone', 'company', 'jobtitle', 'hs_linkedin_url',
+    'amc_first_met_location', 'amc_first_met_date', 'amc_networking_tags', 'amc_networking_notes'
+  ];
+
+  if (!importantProperties.includes(propertyName)) {
+    console.log('ℹ️  Ignoring property change:', propertyName);
+    return;
+  }
+
+  try {
+    // Find all users connected to this HubSpot portal
+    const { data: connections, error: connectionError } = await supabase
+      .from('crm_connections')
+      .select(`
+        user_id,
+        portal_id,
+        access_token,
+        users!inner(mobile_device_id, email, organization_id)
+      `)
+      .eq('provider', 'hubspot')
+      .eq('portal_id', portalId.toString())
+      .eq('is_active', true);
+
+    if (connectionError || !connections?.length) {
+      console.warn('❌ No active HubSpot connections found for portal:', portalId);
+      return;
+    }
+
+    console.log(`✅ Found ${connections.length} connected users for portal ${portalId}`);
+
+    // For each connected user, update the contact directly in the contacts table
+    for (const connection of connections) {
+      await updateContactDirectly(connection, objectId.toString(), propertyName, propertyValue, occurredAt);
+    }
+
+  } catch (error) {
+    console.error('❌ Failed to handle contact property change:', error);
+    throw error;
+  }
+}
+
+async function updateContactDirectly(
+  connection: any,
+  hubspotContactId: string,
+  propertyName: string,
+  propertyValue: any,
+  occurredAt?: number
+) {
+  try {
+    console.log(`🔄 Updating contact directly for user ${connection.users.email}`);
+
+    // Find the contact in the contacts table; contacts belong to the user's organization
+    const { data: contacts, error: contactError } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('organization_id', connection.users.organization_id)
+      .eq('hubspot_contact_id', hubspotContactId);
+
+    if (contactError) {
+      throw contactError;
+    }
+
+    if (!contacts || contacts.length === 0) {
+      console.log('ℹ️  Contact not found locally:', hubspotContactId);
+      return;
+    }
+
+    const contact = contacts[0];
+
+    // Map HubSpot properties to contact table fields
+    const propertyMapping: { [key: string]: string } = {
+      'firstname': 'first_name',
+      'lastname': 'last_name',
+      'email': 'email',
+      'phone': 'phone',
+      'company': 'company',
+      'jobtitle': 'job_title',
+      'hs_linkedin_url': 'linkedin_url',
+      'amc_first_met_location': 'first_met_location',
+      'amc_first_met_date': 'first_met_date',
+      'amc_networking_tags': 'tags',
+      'amc_networking_notes': 'notes',
+    };
+
+    const dbField = propertyMapping[propertyName];
+    if (!dbField) {
+      console.log('ℹ️  No database field mapping for:', propertyName);
+      return;
+    }
+
+    // Process the value
+    let processedValue = propertyValue;
+    if (propertyName === 'amc_networking_tags' && typeof propertyValue === 'string') {
+      // Convert comma-separated string to array
+      processedValue = propertyValue.split(',').map((tag: string) => tag.trim()).filter(Boolean);
+    }
+
+    const remoteUpdatedAt = new Date(occurredAt || Date.now()).toISOString();
+    const fieldUpdatedAt = contact.field_updated_at || {};
+    const policy = await getConflictPolicy(contact.organization_id);
+
+    const decision = decideFieldChange(policy, {
+      field: dbField,
+      localValue: contact[dbField],
+      remoteValue: processedValue,
+      localUpdatedAt: fieldUpdatedAt[dbField],
+      remoteUpdatedAt,
+      lastSyncedAt: contact.last_synced_at,
+    });
+
+    if (decision === 'keep_local') {
+      console.log(`ℹ️  Keeping local ${dbField} for contact ${contact.id} (policy: ${policy})`);
+      // Our value won, so HubSpot still needs to receive it
+      const { error: flagError } = await supabase
+        .from('contacts')
+        .update({ hubspot_sync_needed: true })
+        .eq('id', contact.id);
+
+      if (flagError) {
+        throw flagError;
+      }
+      return;
+    }
+
+    if (decision === 'conflict') {
+      console.log(`⚠️  Queued ${dbField} conflict for contact ${contact.id}`);
+      const { error: conflictError } = await supabase
+        .from('contacts')
+        .update({
+          sync_conflicts: queueConflict(contact.sync_conflicts, {
+            field: dbField,
+            localValue: contact[dbField],
+            remoteValue: processedValue,
+            localUpdatedAt: fieldUpdatedAt[dbField],
+            remoteUpdatedAt,
+            detectedAt: new Date().toISOString(),
+          }),
+          mobile_sync_needed: true,
+        })
+        .eq('id', contact.id);
+
+      if (conflictError) {
+        throw conflictError;
+      }
+      return;
+    }
+
+    // Update the contact
+    const { error: updateError } = await supabase
+      .from('contacts')
+      .update({
+        [dbField]: processedValue,
+        field_updated_at: { ...fieldUpdatedAt, [dbField]: remoteUpdatedAt },
+        sync_conflicts: (contact.sync_conflicts || []).filter((conflict: { field: string }) => conflict.field !== dbField),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', contact.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    console.log(`✅ Updated contact ${contact.first_name} ${contact.last_name}: ${dbField} = ${JSON.stringify(processedValue)}`);
+
+  } catch (error) {
+    console.error('❌ Failed to update contact directly:', error);
+    // Surface the failure so the webhook inbox can retry the event
+    throw error;
+  }
+}
+
+async function handleContactCreation(event: any) {
+  const { objectId, portalId } = event;
+
+  console.log('New contact created in HubSpot:', { objectId, portalId });
+
+  try {
+    // Find the organization for this portal
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('hubspot_portal_id', portalId.toString())
+      .single();
+
+    if (!organization || !organization.hubspot_access_token) {
+      console.warn('Organization not found or no access token for portal:', portalId);
+      return;
+    }
+
+    // Fetch the contact details from HubSpot
+    const hubspotClient = await getHubSpotClient({ type: 'organization', id: organization.id });
+
+    const hubspotContact = await hubspotClient.crm.contacts.basicApi.getById(
+      objectId.toString(),
+      [
+        'firstname', 'lastname', 'email', 'phone', 'company', 'jobtitle',
+        'amc_connection_strength', 'amc_contact_value', 'amc_first_met_location',
+        'amc_first_met_date', 'amc_networking_tags', 'amc_networking_notes',
+        'amc_last_interaction_date', 'amc_next_followup_date', 'amc_total_interactions',
+        'amc_contact_id'
+      ]
+    );
+
+    const props = hubspotContact.properties;
+
+    // Check if this contact already exists in our database
+    const { data: existingContact } = await supabase
+      .from('contacts')
+      .select('id')
+      .eq('organization_id', organization.id)
+      .eq('hubspot_contact_id', objectId.toString())
+      .single();
+
+    if (existingContact) {
+      console.log('Contact already exists in database, skipping creation');
+      return;
+    }
+
+    // Only create the contact if it has All My Circles data (amc_contact_id or custom properties)
+    const hasAmcData = props.amc_contact_id || props.amc_connection_strength || props.amc_first_met_location;
+
+    if (!hasAmcData) {
+      console.log('Contact has no All My Circles data, skipping import');
+      return;
+    }
+
+    // HubSpot sends the level as shown there ('Strong'); the database stores it lowercase
+    const strengthLevel = toHubSpotStrength(props.amc_connection_strength);
+
+    // Create the contact in our database
+    const { error: createError } = await supabase
+      .from('contacts')
+      .insert({
+        organization_id: organization.id,
+        first_name: props.firstname || '',
+        last_name: props.lastname || '',
+        email: props.email || null,
+        phone: props.phone || null,
+        company: props.company || null,
+        job_title: props.jobtitle || null,
+        notes: props.amc_networking_notes || null,
+        connection_strength: strengthLevel ? toDatabaseStrength(strengthLevel) : null,
+        contact_value: props.amc_contact_value || null,
+        first_met_location: props.amc_first_met_location || null,
+        first_met_date: props.amc_first_met_date || null,
+        last_interaction_date: props.amc_last_interaction_date || null,
+        next_followup_date: props.amc_next_followup_date || null,
+        total_interactions: parseInt(props.amc_total_interactions || '0'),
+        tags: props.amc_networking_tags ? props.amc_networking_tags.split(',').map((tag: string) => tag.trim()).filter(Boolean) : [],
+        hubspot_contact_id: objectId.toString(),
+      });
+
+    if (createError) {
+      throw createError;
+    }
+
+    console.log('Contact created successfully from HubSpot webhook:', objectId);
+
+  } catch (error) {
+    console.error('Failed to handle contact creation:', error);
+    throw error;
+  }
+}
+
+async function handleContactDeletion(event: any) {
+  const { objectId, portalId } = event;
+
+  console.log('Contact deleted in HubSpot:', { objectId, portalId });
+
+  try {
+    // Find the organization for this portal
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('hubspot_portal_id', portalId.toString())
+      .single();
+
+    if (!organization) {
+      console.warn('Organization not found for portal:', portalId);
+      return;
+    }
+
+    // Find and soft-delete the contact in our database
+    const { error: deleteError } = await supabase
+      .from('contacts')
+      .update({
+        deleted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('organization_id', organization.id)
+      .eq('hubspot_contact_id', objectId.toString());
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    console.log('Contact soft-deleted successfully:', objectId);
+
+  } catch (error) {
+    console.error('Failed to handle contact deletion:', error);
+    throw error;
+  }
+}
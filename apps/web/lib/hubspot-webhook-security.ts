@@ -0,0 +1,94 @@
+/**
+ * HubSpot Webhook Security
+ * Verifies v3 request signatures on incoming HubSpot webhook deliveries
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// HubSpot rejects signatures older than five minutes; we apply the same window
+export const MAX_WEBHOOK_AGE_MS = 5 * 60 * 1000;
+
+// Characters HubSpot decodes in the request URI before signing
+const URI_DECODE_MAP: Record<string, string> = {
+  '%3A': ':',
+  '%2F': '/',
+  '%3F': '?',
+  '%40': '@',
+  '%21': '!',
+  '%24': '$',
+  '%27': "'",
+  '%28': '(',
+  '%29': ')',
+  '%2A': '*',
+  '%2C': ',',
+  '%3B': ';',
+};
+
+export interface WebhookSignatureInput {
+  method: string;
+  uri: string;
+  body: string;
+  timestamp: string | null;
+  signature: string | null;
+  clientSecret: string;
+  now?: number;
+}
+
+export type WebhookVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing_headers' | 'stale_timestamp' | 'invalid_signature' };
+
+export interface HubSpotWebhookEvent {
+  eventId: number;
+  subscriptionId?: number;
+  portalId: number;
+  appId?: number;
+  occurredAt: number;
+  subscriptionType: string;
+  attemptNumber?: number;
+  objectId: number;
+  objectTypeId?: string;
+  objectType?: string;
+  propertyName?: string;
+  propertyValue?: any;
+  changeFlag?: string;
+  changeSource?: string;
+}
+
+export function normalizeWebhookUri(uri: string): string {
+  return uri.replace(/%(3A|2F|3F|40|21|24|27|28|29|2A|2C|3B)/gi, (match) => URI_DECODE_MAP[match.toUpperCase()]);
+}
+
+export function computeSignatureV3(
+  clientSecret: string,
+  method: string,
+  uri: string,
+  body: string,
+  timestamp: string
+): string {
+  const source = `${method.toUpperCase()}${normalizeWebhookUri(uri)}${body}${timestamp}`;
+  return createHmac('sha256', clientSecret).update(source, 'utf8').digest('base64');
+}
+
+export function verifySignatureV3(input: WebhookSignatureInput): WebhookVerificationResult {
+  const { method, uri, body, timestamp, signature, clientSecret } = input;
+  const now = input.now ?? Date.now();
+
+  if (!timestamp || !signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const sentAt = parseInt(timestamp, 10);
+  if (isNaN(sentAt) || Math.abs(now - sentAt) > MAX_WEBHOOK_AGE_MS) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  const expected = Buffer.from(computeSignatureV3(clientSecret, method, uri, body, timestamp));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed share tokens for public profile card links.
+ *
+ * A token is "<card id>.<token version>.<signature>", where the signature is a
+ * base64url HMAC-SHA256 of "<card id>:<token version>" under PROFILE_CARD_SIGNING_SECRET.
+ * Tokens do not expire; rotating a card's link bumps token_version, which invalidates
+ * every token issued for the previous version.
+ */
+
+export interface ProfileCardTokenPayload {
+  cardId: string;
+  version: number;
+}
+
+export class ProfileCardTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileCardTokenError';
+  }
+}
+
+function getSecret(secret: string | undefined = process.env.PROFILE_CARD_SIGNING_SECRET): string {
+  if (!secret) {
+    throw new ProfileCardTokenError('PROFILE_CARD_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(cardId: string, version: number, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${cardId}:${version}`)
+    .digest('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function signProfileCardToken(cardId: string, version: number, secret?: string): string {
+  return [cardId, version, sign(cardId, version, getSecret(secret))].join('.');
+}
+
+/**
+ * Check a share token's signature. Returns null for malformed or forged tokens; the
+ * caller still has to compare the version against the card's current token_version.
+ */
+export function verifyProfileCardToken(token: string, secret?: string): ProfileCardTokenPayload | null {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [cardId, versionPart, signature] = parts;
+  const version = parseInt(versionPart, 10);
+  if (!cardId || !/^\d+$/.test(versionPart) || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(cardId, version, getSecret(secret)));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return { cardId, version };
+}
@@ -0,0 +1,75 @@
+/**
+ * Profile Cards
+ * A user's own contact details, shared as a vCard QR code in the mobile app and as a
+ * public page / .vcf download behind a signed share token
+ */
+
+import { supabase } from './api-utils';
+import { signProfileCardToken, verifyProfileCardToken } from './profile-card-token';
+import { VCardContact } from './vcard';
+
+export interface ProfileCardRow {
+  id: string;
+  user_id: string;
+  name: string;
+  title: string | null;
+  company: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+  token_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileCard extends VCardContact {
+  id: string;
+  updatedAt: string;
+}
+
+export function toProfileCard(row: ProfileCardRow): ProfileCard {
+  return {
+    id: row.id,
+    name: row.name,
+    title: row.title,
+    company: row.company,
+    email: row.email,
+    phone: row.phone,
+    linkedinUrl: row.linkedin_url,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getShareToken(row: ProfileCardRow): string {
+  return signProfileCardToken(row.id, row.token_version);
+}
+
+/**
+ * Public share page URL for a card, rooted at the URL the request came in on
+ */
+export function getShareUrl(row: ProfileCardRow, origin: string): string {
+  return `${origin.replace(/\/$/, '')}/share/${getShareToken(row)}`;
+}
+
+/**
+ * Look up the card behind a share token. Returns null for invalid tokens and for
+ * links that were rotated since the token was issued.
+ */
+export async function getProfileCardByToken(token: string): Promise<ProfileCard | null> {
+  const payload = verifyProfileCardToken(token);
+  if (!payload) {
+    return null;
+  }
+
+  const { data: row } = await supabase
+    .from('profile_cards')
+    .select('*')
+    .eq('id', payload.cardId)
+    .single();
+
+  if (!row || row.token_version !== payload.version) {
+    return null;
+  }
+
+  return toProfileCard(row as ProfileCardRow);
+}
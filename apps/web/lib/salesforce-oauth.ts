@@ -0,0 +1,98 @@
+/**
+ * Salesforce OAuth (web server flow)
+ * Builds authorize URLs and exchanges/refreshes tokens against the Salesforce login host
+ */
+
+// Sandboxes use https://test.salesforce.com; tests point this at a local mock server
+export function getSalesforceLoginUrl(): string {
+  return (process.env.SALESFORCE_LOGIN_URL || 'https://login.salesforce.com').replace(/\/$/, '');
+}
+
+export const SALESFORCE_SCOPES = ['api', 'refresh_token', 'id'];
+
+export interface SalesforceTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  instance_url: string;
+  id: string;
+  issued_at: string;
+  scope?: string;
+  token_type?: string;
+}
+
+export class SalesforceOAuthError extends Error {
+  constructor(message: string, public code: string, public status: number) {
+    super(message);
+    this.name = 'SalesforceOAuthError';
+  }
+}
+
+export function buildSalesforceAuthUrl(state: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: process.env.SALESFORCE_CLIENT_ID!,
+    redirect_uri: process.env.SALESFORCE_REDIRECT_URI!,
+    scope: SALESFORCE_SCOPES.join(' '),
+    state,
+  });
+
+  return `${getSalesforceLoginUrl()}/services/oauth2/authorize?${params.toString()}`;
+}
+
+async function requestToken(params: Record<string, string>): Promise<SalesforceTokenResponse> {
+  const response = await fetch(`${getSalesforceLoginUrl()}/services/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: process.env.SALESFORCE_CLIENT_ID!,
+      client_secret: process.env.SALESFORCE_CLIENT_SECRET!,
+      ...params,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let code = 'TOKEN_REQUEST_FAILED';
+    let message = 'Salesforce token request failed';
+
+    try {
+      const parsed = JSON.parse(errorText);
+      code = parsed.error || code;
+      message = parsed.error_description || message;
+    } catch (parseError) {
+      // Non-JSON error body, keep defaults
+    }
+
+    throw new SalesforceOAuthError(message, code, response.status);
+  }
+
+  return response.json();
+}
+
+export function exchangeSalesforceCode(code: string): Promise<SalesforceTokenResponse> {
+  return requestToken({
+    grant_type: 'authorization_code',
+    redirect_uri: process.env.SALESFORCE_REDIRECT_URI!,
+    code,
+  });
+}
+
+export function refreshSalesforceToken(refreshToken: string): Promise<SalesforceTokenResponse> {
+  return requestToken({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+}
+
+/**
+ * The identity URL returned with tokens ends in /id/<orgId>/<userId>
+ */
+export function parseSalesforceIdentity(identityUrl: string): { orgId: string | null; userId: string | null } {
+  const match = identityUrl.match(/\/id\/([^/]+)\/([^/]+)$/);
+  return {
+    orgId: match ? match[1] : null,
+    userId: match ? match[2] : null,
+  };
+}
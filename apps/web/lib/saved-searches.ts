@@ -0,0 +1,337 @@
+/**
+ * Saved Searches
+ * Contact filters a user saved in the mobile app as a "smart list". The filters are
+ * stored as the app sent them and re-evaluated on the device; this module only checks
+ * their shape and translates them into a HubSpot active list on request.
+ */
+
+import { supabase } from './api-utils';
+import { hubspotFetch } from './hubspot-token-manager';
+
+const HUBSPOT_LISTS_URL = 'https://api.hubapi.com/crm/v3/lists';
+const CONTACT_OBJECT_TYPE_ID = '0-1';
+
+export interface SavedSearchFilters {
+  query: string;
+  group?: string;
+  starred?: boolean;
+  tags?: string[];
+  hasEmail?: boolean;
+  hasPhone?: boolean;
+  hasLinkedIn?: boolean;
+  company?: string;
+  city?: string;
+  country?: string;
+  recentInteraction?: boolean;
+  sortBy?: 'name' | 'company' | 'lastInteraction' | 'created';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface SavedSearchRow {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  client_id: string | null;
+  name: string;
+  filters: SavedSearchFilters;
+  pinned: boolean;
+  hubspot_list_id: string | null;
+  hubspot_list_synced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  clientId: string | null;
+  name: string;
+  filters: SavedSearchFilters;
+  pinned: boolean;
+  hubspotListId: string | null;
+  hubspotListSyncedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    filters: row.filters,
+    pinned: row.pinned,
+    hubspotListId: row.hubspot_list_id,
+    hubspotListSyncedAt: row.hubspot_list_synced_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const BOOLEAN_FILTERS = ['starred', 'hasEmail', 'hasPhone', 'hasLinkedIn', 'recentInteraction'];
+const TEXT_FILTERS = ['group', 'company', 'city', 'country'];
+const SORT_FIELDS = ['name', 'company', 'lastInteraction', 'created'];
+
+/**
+ * The known filter fields of a request body, or null when it isn't a filter object.
+ * Unknown keys are dropped so the stored document stays in the app's shape.
+ */
+export function sanitizeFilters(value: unknown): SavedSearchFilters | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const input = value as { [key: string]: unknown };
+  const filters: { [key: string]: unknown } = {
+    query: typeof input.query === 'string' ? input.query.trim() : '',
+  };
+
+  BOOLEAN_FILTERS.forEach((key) => {
+    if (typeof input[key] === 'boolean') filters[key] = input[key];
+  });
+  TEXT_FILTERS.forEach((key) => {
+    const text = input[key];
+    if (typeof text === 'string' && text.trim()) filters[key] = text.trim();
+  });
+  if (Array.isArray(input.tags)) {
+    const tags = input.tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0);
+    if (tags.length > 0) filters.tags = tags;
+  }
+  if (typeof input.sortBy === 'string' && SORT_FIELDS.indexOf(input.sortBy) !== -1) {
+    filters.sortBy = input.sortBy;
+    filters.sortOrder = input.sortOrder === 'desc' ? 'desc' : 'asc';
+  }
+
+  return filters as unknown as SavedSearchFilters;
+}
+
+// HubSpot list filter shapes, as accepted by the v3 lists API
+interface HubSpotListFilter {
+  filterType: 'PROPERTY';
+  property: string;
+  operation: { [key: string]: unknown };
+}
+
+interface HubSpotFilterBranch {
+  filterBranchType: 'OR' | 'AND';
+  filterBranchOperator: 'OR' | 'AND';
+  filters: HubSpotListFilter[];
+  filterBranches: HubSpotFilterBranch[];
+}
+
+export interface HubSpotListTranslation {
+  /** Null when nothing could be translated */
+  filterBranch: HubSpotFilterBranch | null;
+  /** Parts of the saved search HubSpot can't express, in words for the user */
+  unsupported: string[];
+}
+
+// Query fields that map onto a HubSpot text property
+const TEXT_PROPERTIES: { [field: string]: string } = {
+  company: 'company',
+  comp: 'company',
+  title: 'jobtitle',
+  job: 'jobtitle',
+  tag: 'amc_networking_tags',
+  tags: 'amc_networking_tags',
+  city: 'city',
+  location: 'city',
+  country: 'country',
+  email: 'email',
+  phone: 'phone',
+  where: 'amc_first_met_location',
+};
+
+// Query fields that map onto a HubSpot dropdown property, with the allowed options
+const ENUM_PROPERTIES: { [field: string]: { property: string; options: string[] } } = {
+  strength: { property: 'amc_connection_strength', options: ['Strong', 'Medium', 'Weak'] },
+  value: { property: 'amc_contact_value', options: ['High', 'Medium', 'Low'] },
+};
+
+// has:<field> values and the property that has to be known
+const KNOWN_PROPERTIES: { [field: string]: string } = {
+  email: 'email',
+  phone: 'phone',
+  linkedin: 'hs_linkedin_url',
+  company: 'company',
+  title: 'jobtitle',
+  city: 'city',
+  notes: 'amc_networking_notes',
+  tags: 'amc_networking_tags',
+  followup: 'amc_next_followup_date',
+};
+
+function containsFilter(property: string, value: string): HubSpotListFilter {
+  return {
+    filterType: 'PROPERTY',
+    property,
+    operation: { operationType: 'STRING', operator: 'CONTAINS', value, includeObjectsWithNoValueSet: false },
+  };
+}
+
+function knownFilter(property: string): HubSpotListFilter {
+  return {
+    filterType: 'PROPERTY',
+    property,
+    operation: { operationType: 'ALL_PROPERTY', operator: 'IS_KNOWN', includeObjectsWithNoValueSet: false },
+  };
+}
+
+function anyOfFilter(property: string, values: string[]): HubSpotListFilter {
+  return {
+    filterType: 'PROPERTY',
+    property,
+    operation: { operationType: 'ENUMERATION', operator: 'IS_ANY_OF', values, includeObjectsWithNoValueSet: false },
+  };
+}
+
+/**
+ * Filters for the simple terms of a search query: field:value terms that are all
+ * required. Anything else (free text, OR, negation, dates) is reported as unsupported,
+ * since HubSpot would otherwise build a list of different people.
+ */
+function queryFilters(query: string, unsupported: string[]): HubSpotListFilter[] {
+  const filters: HubSpotListFilter[] = [];
+  const tokens = query.match(/-?[^\s:"()]+:"[^"]*"?|"[^"]*"?|[()]|[^\s()]+/g) || [];
+
+  tokens.forEach((token) => {
+    if (token === 'AND') return;
+    if (token === 'OR' || token === 'NOT' || token[0] === '-' || token === '(' || token === ')') {
+      unsupported.push(`"${token}" in the search`);
+      return;
+    }
+
+    const separator = token.indexOf(':');
+    const field = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+    const value = token.slice(separator + 1).replace(/"/g, '').trim();
+
+    if (TEXT_PROPERTIES[field]) {
+      if (value) filters.push(containsFilter(TEXT_PROPERTIES[field], value));
+    } else if (ENUM_PROPERTIES[field]) {
+      const { property, options } = ENUM_PROPERTIES[field];
+      const option = options.filter((o) => o.toLowerCase() === value.toLowerCase())[0];
+      if (option) {
+        filters.push(anyOfFilter(property, [option]));
+      } else {
+        unsupported.push(`"${token}" in the search`);
+      }
+    } else if (field === 'has' && KNOWN_PROPERTIES[value.toLowerCase()]) {
+      filters.push(knownFilter(KNOWN_PROPERTIES[value.toLowerCase()]));
+    } else {
+      unsupported.push(field ? `"${token}" in the search` : `free text "${token}"`);
+    }
+  });
+
+  return filters;
+}
+
+/**
+ * Translate saved filters into a HubSpot list filter tree: an OR of AND branches, one
+ * branch per selected tag since the app matches contacts with any of them
+ */
+export function hubspotListFilterBranch(filters: SavedSearchFilters): HubSpotListTranslation {
+  const unsupported: string[] = [];
+  const common = queryFilters(filters.query || '', unsupported);
+
+  if (filters.starred) unsupported.push('starred contacts');
+  if (filters.group) unsupported.push(`group "${filters.group}"`);
+  if (filters.recentInteraction) unsupported.push('recent interactions');
+  if (filters.hasEmail) common.push(knownFilter('email'));
+  if (filters.hasPhone) common.push(knownFilter('phone'));
+  if (filters.hasLinkedIn) common.push(knownFilter('hs_linkedin_url'));
+  if (filters.company) common.push(containsFilter('company', filters.company));
+  if (filters.city) common.push(containsFilter('city', filters.city));
+  if (filters.country) common.push(containsFilter('country', filters.country));
+
+  const tagFilters = (filters.tags || []).map((tag) => [containsFilter('amc_networking_tags', tag)]);
+  const branches = (tagFilters.length > 0 ? tagFilters : [[]]).map((extra) => common.concat(extra));
+
+  if (branches[0].length === 0) {
+    return { filterBranch: null, unsupported };
+  }
+
+  return {
+    filterBranch: {
+      filterBranchType: 'OR',
+      filterBranchOperator: 'OR',
+      filters: [],
+      filterBranches: branches.map((branchFilters) => ({
+        filterBranchType: 'AND',
+        filterBranchOperator: 'AND',
+        filters: branchFilters,
+        filterBranches: [],
+      })),
+    },
+    unsupported,
+  };
+}
+
+async function hubspotListRequest(organizationId: string, path: string, method: string, body?: unknown) {
+  const response = await hubspotFetch(
+    { type: 'organization', id: organizationId },
+    `${HUBSPOT_LISTS_URL}${path}`,
+    {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }
+  );
+  const data = await response.json().catch(() => ({}));
+  return { response, data };
+}
+
+/**
+ * Create or update the HubSpot active list behind a saved search and remember its ID.
+ * A list deleted in HubSpot since the last push is created again.
+ */
+export async function pushSavedSearchToHubSpot(
+  row: SavedSearchRow,
+  filterBranch: HubSpotFilterBranch
+): Promise<SavedSearchRow> {
+  let listId = row.hubspot_list_id;
+
+  if (listId) {
+    const { response, data } = await hubspotListRequest(
+      row.organization_id,
+      `/${listId}/update-list-filters`,
+      'PUT',
+      { filterBranch }
+    );
+    if (response.status === 404) {
+      listId = null;
+    } else if (!response.ok) {
+      throw new Error(`Failed to update HubSpot list: ${data.message || response.statusText}`);
+    } else {
+      await hubspotListRequest(
+        row.organization_id,
+        `/${listId}/update-list-name?listName=${encodeURIComponent(row.name)}`,
+        'PUT'
+      );
+    }
+  }
+
+  if (!listId) {
+    const { response, data } = await hubspotListRequest(row.organization_id, '/', 'POST', {
+      name: row.name,
+      objectTypeId: CONTACT_OBJECT_TYPE_ID,
+      processingType: 'DYNAMIC',
+      filterBranch,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to create HubSpot list: ${data.message || response.statusText}`);
+    }
+    listId = String(data.list?.listId);
+  }
+
+  const { data: updated, error } = await supabase
+    .from('saved_searches')
+    .update({ hubspot_list_id: listId, hubspot_list_synced_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .select('*')
+    .single();
+
+  if (error || !updated) {
+    throw new Error('Failed to save HubSpot list ID');
+  }
+
+  return updated;
+}
@@ -0,0 +1,201 @@
+/**
+ * Connection Strength Scoring Engine
+ * Derives how strong a relationship is from its interaction history: how recently and
+ * how often you were in touch, what kind of interactions they were, and whether both
+ * sides reach out. Scores run from 0 to 100 and map onto Strong / Medium / Weak.
+ *
+ * Shared by the web API and the mobile app. Copies live in
+ * apps/web/lib/shared/connection-strength.ts and apps/mobile/utils/connection-strength.ts
+ * and must stay identical to this file.
+ */
+
+export type ConnectionStrengthLevel = 'Strong' | 'Medium' | 'Weak';
+
+// Who started the interaction; meetings and events are mutual unless stated otherwise
+export type InteractionDirection = 'inbound' | 'outbound' | 'mutual';
+
+export interface ScoredInteraction {
+  type: string;
+  date: string; // YYYY-MM-DD or ISO timestamp
+  direction?: InteractionDirection;
+}
+
+export type ScoreFactor = 'recency' | 'frequency' | 'type' | 'reciprocity';
+
+export interface ScoreFactorResult {
+  factor: ScoreFactor;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface ConnectionScore {
+  score: number;
+  strength: ConnectionStrengthLevel;
+  factors: ScoreFactorResult[];
+  explanation: string;
+  computedAt: string;
+}
+
+export const FACTOR_MAX_POINTS: Record<ScoreFactor, number> = {
+  recency: 35,
+  frequency: 30,
+  type: 20,
+  reciprocity: 15,
+};
+
+// Lowest score for each level
+export const STRENGTH_THRESHOLDS = {
+  Strong: 60,
+  Medium: 30,
+};
+
+// How much an interaction of each type says about the relationship
+export const INTERACTION_TYPE_WEIGHTS: Record<string, number> = {
+  meeting: 1,
+  event: 0.8,
+  call: 0.8,
+  message: 0.5,
+  text: 0.5,
+  email: 0.4,
+  note: 0.1,
+};
+
+const DEFAULT_TYPE_WEIGHT = 0.5;
+const MUTUAL_TYPES = ['meeting', 'event'];
+const RECENCY_HALF_LIFE_DAYS = 45;
+const FREQUENCY_WINDOW_DAYS = 180;
+const FREQUENCY_SATURATION = 12; // Interactions within the window that earn full points
+const TYPE_SAMPLE_SIZE = 10; // Most recent interactions considered for the type factor
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function strengthFromScore(score: number): ConnectionStrengthLevel {
+  if (score >= STRENGTH_THRESHOLDS.Strong) return 'Strong';
+  if (score >= STRENGTH_THRESHOLDS.Medium) return 'Medium';
+  return 'Weak';
+}
+
+function parseDate(date: string): number {
+  // Calendar dates are read as local midnight, matching how they were logged
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00:00`).getTime() : Date.parse(date);
+}
+
+function directionOf(interaction: ScoredInteraction): InteractionDirection | undefined {
+  if (interaction.direction) return interaction.direction;
+  return MUTUAL_TYPES.indexOf(interaction.type) !== -1 ? 'mutual' : undefined;
+}
+
+function typeWeight(type: string): number {
+  const weight = INTERACTION_TYPE_WEIGHTS[type];
+  return weight === undefined ? DEFAULT_TYPE_WEIGHT : weight;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function scoreRecency(daysSince: number): ScoreFactorResult {
+  const maxPoints = FACTOR_MAX_POINTS.recency;
+  const points = Math.round(maxPoints * Math.pow(0.5, daysSince / RECENCY_HALF_LIFE_DAYS));
+  const detail = daysSince === 0
+    ? 'Last interaction today'
+    : `Last interaction ${plural(daysSince, 'day')} ago`;
+  return { factor: 'recency', points, maxPoints, detail };
+}
+
+function scoreFrequency(recentCount: number): ScoreFactorResult {
+  const maxPoints = FACTOR_MAX_POINTS.frequency;
+  const ratio = Math.min(1, Math.log(1 + recentCount) / Math.log(1 + FREQUENCY_SATURATION));
+  return {
+    factor: 'frequency',
+    points: Math.round(maxPoints * ratio),
+    maxPoints,
+    detail: `${plural(recentCount, 'interaction')} in the last 6 months`,
+  };
+}
+
+function scoreType(latest: ScoredInteraction[]): ScoreFactorResult {
+  const maxPoints = FACTOR_MAX_POINTS.type;
+  const average = latest.reduce((sum, interaction) => sum + typeWeight(interaction.type), 0) / latest.length;
+
+  const counts: Record<string, number> = {};
+  latest.forEach(interaction => {
+    counts[interaction.type] = (counts[interaction.type] || 0) + 1;
+  });
+  const mostCommon = Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+
+  return {
+    factor: 'type',
+    points: Math.round(maxPoints * average),
+    maxPoints,
+    detail: `Mostly ${mostCommon}s`,
+  };
+}
+
+function scoreReciprocity(interactions: ScoredInteraction[]): ScoreFactorResult {
+  const maxPoints = FACTOR_MAX_POINTS.reciprocity;
+  let inbound = 0;
+  let outbound = 0;
+
+  interactions.forEach(interaction => {
+    const direction = directionOf(interaction);
+    if (direction === 'inbound' || direction === 'mutual') inbound++;
+    if (direction === 'outbound' || direction === 'mutual') outbound++;
+  });
+
+  if (inbound === 0 && outbound === 0) {
+    return { factor: 'reciprocity', points: Math.round(maxPoints / 2), maxPoints, detail: 'Unknown who reaches out' };
+  }
+
+  const balance = Math.min(inbound, outbound) / Math.max(inbound, outbound);
+  const detail = balance >= 0.5
+    ? 'Both of you reach out'
+    : inbound > outbound
+    ? 'They usually reach out'
+    : 'You usually reach out';
+
+  return { factor: 'reciprocity', points: Math.round(maxPoints * balance), maxPoints, detail };
+}
+
+/**
+ * Score a relationship from its interactions
+ */
+export function scoreConnection(interactions: ScoredInteraction[], now: Date = new Date()): ConnectionScore {
+  const computedAt = now.toISOString();
+  const dated = interactions
+    .map(interaction => ({ interaction, time: parseDate(interaction.date) }))
+    .filter(({ time }) => !isNaN(time))
+    .sort((a, b) => b.time - a.time);
+
+  if (dated.length === 0) {
+    return {
+      score: 0,
+      strength: 'Weak',
+      factors: [],
+      explanation: 'No interactions logged yet',
+      computedAt,
+    };
+  }
+
+  const daysSince = Math.max(0, Math.floor((now.getTime() - dated[0].time) / DAY_MS));
+  const windowStart = now.getTime() - FREQUENCY_WINDOW_DAYS * DAY_MS;
+  const recent = dated.filter(({ time }) => time >= windowStart).map(({ interaction }) => interaction);
+  const latest = dated.slice(0, TYPE_SAMPLE_SIZE).map(({ interaction }) => interaction);
+
+  const factors = [
+    scoreRecency(daysSince),
+    scoreFrequency(recent.length),
+    scoreType(latest),
+    // Old history says little about whether contact is still two-way
+    scoreReciprocity(recent.length > 0 ? recent : latest),
+  ];
+  const score = Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0));
+
+  return {
+    score,
+    strength: strengthFromScore(score),
+    factors,
+    explanation: factors.map(factor => factor.detail).join(' · '),
+    computedAt,
+  };
+}
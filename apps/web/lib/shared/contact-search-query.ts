@@ -0,0 +1,56 @@
+/**
+ * Contact Search Query
+ * The parts of server-side contact search that do not touch the database: free text as
+ * a prefix full-text query, and the opaque cursor that pages through results.
+ *
+ * Used by the web API's contact search only. Kept in packages/shared, with a copy in
+ * apps/web/lib/shared for the web app to import; the two must stay identical.
+ */
+
+export class ContactSearchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ContactSearchError';
+  }
+}
+
+export type CursorValue = string | number | null;
+
+/**
+ * A to_tsquery expression requiring every word of the query as a prefix, e.g.
+ * `ann acme` becomes `ann:* & acme:*`. Query operators typed by the user are dropped.
+ */
+export function toPrefixQuery(query: string): string {
+  return query
+    .replace(/[&|!():*<>'"\\]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .map((word) => `${word.toLowerCase()}:*`)
+    .join(' & ');
+}
+
+/**
+ * Cursor for the row after `id`, whose sort column holds `value`. It records the sort
+ * so it can't be replayed against a different one.
+ */
+export function encodeCursor(sortBy: string, sortOrder: string, value: CursorValue, id: string): string {
+  return Buffer.from(JSON.stringify([sortBy, sortOrder, value, id])).toString('base64');
+}
+
+export function decodeCursor(sortBy: string, sortOrder: string, cursor: string): { value: CursorValue; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'));
+  } catch {
+    throw new ContactSearchError('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 4 || typeof decoded[3] !== 'string') {
+    throw new ContactSearchError('Invalid cursor');
+  }
+  if (decoded[0] !== sortBy || decoded[1] !== sortOrder) {
+    throw new ContactSearchError('The cursor belongs to a different sort; start again without it');
+  }
+
+  return { value: decoded[2], id: decoded[3] };
+}
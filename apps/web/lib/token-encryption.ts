@@ -0,0 +1,189 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for CRM OAuth tokens at rest.
+ *
+ * Each row gets a random AES-256-GCM data key that encrypts its tokens; the data key
+ * is itself encrypted ("wrapped") with the app-level key from TOKEN_ENCRYPTION_KEYS.
+ * Every stored value is self-contained:
+ *
+ *   enc:v1:<keyId>:<wrapped data key>:<iv>:<ciphertext>:<auth tag>   (base64 parts)
+ *
+ * TOKEN_ENCRYPTION_KEYS is a comma-separated list of "<keyId>:<base64 32-byte key>".
+ * The first key encrypts; the others are only used to decrypt rows written before a
+ * rotation (see scripts/rotate-token-encryption-key.ts).
+ *
+ * Values without the prefix are legacy plaintext and are returned as is, so rows
+ * written before encryption keep working until the rotation script re-encrypts them.
+ */
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+export interface TokenEncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenEncryptionError';
+  }
+}
+
+let warnedMissingKey = false;
+
+export function parseEncryptionKeys(value: string | undefined): TokenEncryptionKey[] {
+  if (!value || !value.trim()) {
+    return [];
+  }
+
+  return value.split(',').map(entry => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+
+    if (separator <= 0 || !/^[\w-]+$/.test(id)) {
+      throw new TokenEncryptionError('TOKEN_ENCRYPTION_KEYS entries must look like "<keyId>:<base64 key>"');
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new TokenEncryptionError(`Token encryption key ${id} must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+
+    return { id, key };
+  });
+}
+
+function getKeys(): TokenEncryptionKey[] {
+  return parseEncryptionKeys(process.env.TOKEN_ENCRYPTION_KEYS);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string[] {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv.toString('base64'), ciphertext.toString('base64'), cipher.getAuthTag().toString('base64')];
+}
+
+function open(key: Buffer, iv: string, ciphertext: string, tag: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+export function isEncryptedToken(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.indexOf(PREFIX) === 0;
+}
+
+/**
+ * Encrypt the token fields of one row under a single fresh data key. Empty
+ * fields are left untouched, so partial updates only write what they set.
+ */
+export function encryptTokens<T extends Record<string, any>>(
+  tokens: T,
+  keys: TokenEncryptionKey[] = getKeys()
+): T {
+  if (keys.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new TokenEncryptionError('TOKEN_ENCRYPTION_KEYS is not configured');
+    }
+    if (!warnedMissingKey) {
+      console.warn('TOKEN_ENCRYPTION_KEYS is not configured; CRM tokens are stored unencrypted');
+      warnedMissingKey = true;
+    }
+    return tokens;
+  }
+
+  const [current] = keys;
+  const dataKey = randomBytes(KEY_BYTES);
+  // The wrapped data key is stored as one base64 blob of iv | ciphertext | tag
+  const wrappedKey = Buffer.concat(
+    seal(current.key, dataKey).map(part => Buffer.from(part, 'base64'))
+  ).toString('base64');
+
+  const encrypted: Record<string, any> = { ...tokens };
+  Object.keys(tokens).forEach(field => {
+    const value = tokens[field];
+    if (typeof value === 'string' && value && !isEncryptedToken(value)) {
+      encrypted[field] = PREFIX + [current.id, wrappedKey].concat(seal(dataKey, Buffer.from(value, 'utf8'))).join(':');
+    }
+  });
+
+  return encrypted as T;
+}
+
+export function encryptToken(token: string, keys?: TokenEncryptionKey[]): string {
+  return encryptTokens({ token }, keys).token;
+}
+
+/**
+ * Decrypt a stored token. Legacy plaintext values are returned unchanged.
+ */
+export function decryptToken(value: string, keys?: TokenEncryptionKey[]): string;
+export function decryptToken(value: string | null | undefined, keys?: TokenEncryptionKey[]): string | null | undefined;
+export function decryptToken(
+  value: string | null | undefined,
+  keys: TokenEncryptionKey[] = getKeys()
+): string | null | undefined {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+
+  const parts = (value as string).slice(PREFIX.length).split(':');
+  if (parts.length !== 5) {
+    throw new TokenEncryptionError('Malformed encrypted token');
+  }
+
+  const [keyId, wrappedKey, iv, ciphertext, tag] = parts;
+  const masterKey = keys.filter(key => key.id === keyId)[0];
+  if (!masterKey) {
+    throw new TokenEncryptionError(`Token was encrypted with unknown key ${keyId}`);
+  }
+
+  try {
+    const wrapped = Buffer.from(wrappedKey, 'base64');
+    const dataKey = open(
+      masterKey.key,
+      wrapped.slice(0, IV_BYTES).toString('base64'),
+      wrapped.slice(IV_BYTES, IV_BYTES + KEY_BYTES).toString('base64'),
+      wrapped.slice(IV_BYTES + KEY_BYTES).toString('base64')
+    );
+    return open(dataKey, iv, ciphertext, tag).toString('utf8');
+  } catch {
+    throw new TokenEncryptionError(`Failed to decrypt token with key ${keyId}`);
+  }
+}
+
+/**
+ * Decrypt the given token fields of a row read from the database
+ */
+export function decryptTokens<T extends Record<string, any>>(
+  row: T,
+  fields: string[] = ['access_token', 'refresh_token'],
+  keys?: TokenEncryptionKey[]
+): T {
+  const decrypted: Record<string, any> = { ...row };
+  fields.forEach(field => {
+    if (field in row) {
+      decrypted[field] = decryptToken(row[field], keys);
+    }
+  });
+  return decrypted as T;
+}
+
+/**
+ * Decrypt the HubSpot tokens of an organizations row
+ */
+export function decryptOrganizationTokens<T extends Record<string, any>>(organization: T): T {
+  return decryptTokens(organization, ['hubspot_access_token', 'hubspot_refresh_token']);
+}
+
+/**
+ * Key ID a stored token was encrypted with, or null for plaintext
+ */
+export function getTokenKeyId(value: string | null | undefined): string | null {
+  return isEncryptedToken(value) ? (value as string).slice(PREFIX.length).split(':')[0] : null;
+}
@@ -0,0 +1,56 @@
+/**
+ * vCard 3.0 serialization for shared profile cards
+ */
+
+export interface VCardContact {
+  name: string;
+  title?: string | null;
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  linkedinUrl?: string | null;
+}
+
+function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+/**
+ * Build a vCard for a profile card. Lines are CRLF terminated as RFC 2426 requires.
+ */
+export function buildVCard(contact: VCardContact): string {
+  const name = contact.name.trim();
+  const words = name.split(/\s+/);
+  const family = words.length > 1 ? words[words.length - 1] : '';
+  const given = words.length > 1 ? words.slice(0, -1).join(' ') : name;
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeValue(family)};${escapeValue(given)};;;`,
+    `FN:${escapeValue(name)}`,
+  ];
+
+  if (contact.company) lines.push(`ORG:${escapeValue(contact.company)}`);
+  if (contact.title) lines.push(`TITLE:${escapeValue(contact.title)}`);
+  if (contact.email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${escapeValue(contact.email)}`);
+  if (contact.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escapeValue(contact.phone)}`);
+  if (contact.linkedinUrl) lines.push(`URL:${escapeValue(contact.linkedinUrl)}`);
+
+  lines.push('END:VCARD');
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a .vcf download, e.g. "Jane Doe" -> "jane-doe.vcf"
+ */
+export function vCardFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'contact'}.vcf`;
+}
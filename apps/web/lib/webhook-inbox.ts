@@ -0,0 +1,220 @@
+/**
+ * HubSpot Webhook Inbox
+ * Persists incoming webhook events before processing and works through them
+ * with exponential backoff, moving repeatedly failing events to a dead letter state
+ */
+
+import { supabase } from './api-utils';
+import { HubSpotWebhookEvent } from './hubspot-webhook-security';
+import { processWebhookEvent } from './hubspot-webhook-handlers';
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead_letter';
+
+export interface WebhookInboxEntry {
+  event_id: number;
+  portal_id: number;
+  subscription_type: string;
+  object_id: number | null;
+  occurred_at: string | null;
+  received_at: string;
+  payload: HubSpotWebhookEvent;
+  status: WebhookEventStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+  processed_at: string | null;
+}
+
+export interface WebhookProcessingSummary {
+  claimed: number;
+  processed: number;
+  failed: number;
+  deadLettered: number;
+}
+
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A worker that crashed mid-event leaves it in 'processing'; reclaim it after this long
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Store a webhook event in the inbox. Returns false when the event ID has
+ * already been received, i.e. HubSpot is retrying a delivery we already have.
+ */
+export async function enqueueWebhookEvent(event: HubSpotWebhookEvent): Promise<boolean> {
+  const { error } = await supabase
+    .from('hubspot_webhook_events')
+    .insert({
+      event_id: event.eventId,
+      portal_id: event.portalId,
+      subscription_type: event.subscriptionType,
+      object_id: event.objectId,
+      occurred_at: event.occurredAt ? new Date(event.occurredAt).toISOString() : null,
+      payload: event,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    });
+
+  if (!error) {
+    return true;
+  }
+
+  // Unique violation on event_id means this is a duplicate delivery
+  if (error.code === '23505') {
+    return false;
+  }
+
+  throw new Error(`Failed to enqueue webhook event ${event.eventId}: ${error.message}`);
+}
+
+async function claimEvent(entry: WebhookInboxEntry): Promise<boolean> {
+  // Conditional update so two workers never process the same event. Matching the
+  // lock time too means only one of several workers can reclaim a stale lock.
+  let claim = supabase
+    .from('hubspot_webhook_events')
+    .update({ status: 'processing', locked_at: new Date().toISOString() })
+    .eq('event_id', entry.event_id)
+    .eq('status', entry.status);
+
+  claim = entry.locked_at ? claim.eq('locked_at', entry.locked_at) : claim.is('locked_at', null);
+
+  const { data, error } = await claim.select('event_id');
+
+  if (error) {
+    throw new Error(`Failed to claim webhook event ${entry.event_id}: ${error.message}`);
+  }
+
+  return Boolean(data?.length);
+}
+
+async function markProcessed(entry: WebhookInboxEntry): Promise<void> {
+  await supabase
+    .from('hubspot_webhook_events')
+    .update({
+      status: 'processed',
+      attempts: entry.attempts + 1,
+      locked_at: null,
+      last_error: null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('event_id', entry.event_id);
+}
+
+async function markFailed(entry: WebhookInboxEntry, error: unknown): Promise<WebhookEventStatus> {
+  const attempts = entry.attempts + 1;
+  const status: WebhookEventStatus = attempts >= MAX_WEBHOOK_ATTEMPTS ? 'dead_letter' : 'failed';
+
+  await supabase
+    .from('hubspot_webhook_events')
+    .update({
+      status,
+      attempts,
+      locked_at: null,
+      last_error: error instanceof Error ? error.message : JSON.stringify(error),
+      next_attempt_at: status === 'failed'
+        ? new Date(Date.now() + getRetryDelayMs(attempts)).toISOString()
+        : null,
+    })
+    .eq('event_id', entry.event_id);
+
+  return status;
+}
+
+/**
+ * Process inbox events that are due, oldest first
+ */
+export async function processPendingWebhookEvents(limit: number = 25): Promise<WebhookProcessingSummary> {
+  const now = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+
+  const { data: entries, error } = await supabase
+    .from('hubspot_webhook_events')
+    .select('*')
+    .or(`and(status.in.(pending,failed),next_attempt_at.lte.${now}),and(status.eq.processing,locked_at.lt.${staleBefore})`)
+    .order('received_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load webhook inbox: ${error.message}`);
+  }
+
+  const summary: WebhookProcessingSummary = { claimed: 0, processed: 0, failed: 0, deadLettered: 0 };
+
+  for (const entry of (entries || []) as WebhookInboxEntry[]) {
+    if (!(await claimEvent(entry))) {
+      continue;
+    }
+    summary.claimed++;
+
+    try {
+      await processWebhookEvent(entry.payload);
+      await markProcessed(entry);
+      summary.processed++;
+    } catch (processingError) {
+      console.error('Webhook event processing failed:', entry.event_id, processingError);
+      const status = await markFailed(entry, processingError);
+      if (status === 'dead_letter') {
+        summary.deadLettered++;
+      } else {
+        summary.failed++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+export async function listWebhookEvents(
+  portalId: number,
+  options: { status?: WebhookEventStatus; limit: number; offset: number }
+): Promise<WebhookInboxEntry[]> {
+  let query = supabase
+    .from('hubspot_webhook_events')
+    .select('*')
+    .eq('portal_id', portalId)
+    .order('received_at', { ascending: false })
+    .range(options.offset, options.offset + options.limit - 1);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list webhook events: ${error.message}`);
+  }
+
+  return (data || []) as WebhookInboxEntry[];
+}
+
+/**
+ * Put failed or dead-lettered events back in the queue for immediate processing
+ */
+export async function replayWebhookEvents(portalId: number, eventIds: number[]): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('hubspot_webhook_events')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      next_attempt_at: new Date().toISOString(),
+    })
+    .eq('portal_id', portalId)
+    .in('event_id', eventIds)
+    .in('status', ['failed', 'dead_letter'])
+    .select('event_id');
+
+  if (error) {
+    throw new Error(`Failed to replay webhook events: ${error.message}`);
+  }
+
+  return (data || []).map((row: { event_id: number }) => row.event_id);
+}
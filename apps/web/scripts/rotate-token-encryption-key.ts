@@ -0,0 +1,143 @@
+/**
+ * Script to re-encrypt stored CRM OAuth tokens with the current encryption key
+ *
+ * Rotation:
+ *   1. Generate a key:  node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+ *   2. Put it first in TOKEN_ENCRYPTION_KEYS, keeping the old key after it:
+ *        TOKEN_ENCRYPTION_KEYS=k2:<new key>,k1:<old key>
+ *   3. Deploy, then run this script. It also encrypts rows still holding plaintext.
+ *   4. Once it reports no failures, remove the old key from TOKEN_ENCRYPTION_KEYS.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  decryptToken,
+  encryptTokens,
+  getTokenKeyId,
+  parseEncryptionKeys,
+  type TokenEncryptionKey,
+} from '../lib/token-encryption';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+const BATCH_SIZE = 100;
+
+interface TokenTable {
+  name: string;
+  fields: string[];
+}
+
+const TOKEN_TABLES: TokenTable[] = [
+  { name: 'crm_connections', fields: ['access_token', 'refresh_token'] },
+  { name: 'organizations', fields: ['hubspot_access_token', 'hubspot_refresh_token'] },
+];
+
+interface RotationResult {
+  table: string;
+  rotated: number;
+  current: number;
+  failed: number;
+}
+
+async function rotateTable(table: TokenTable, keys: TokenEncryptionKey[], dryRun: boolean): Promise<RotationResult> {
+  const result: RotationResult = { table: table.name, rotated: 0, current: 0, failed: 0 };
+  const currentKeyId = keys[0].id;
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data: rows, error } = await supabase
+      .from(table.name)
+      .select(['id'].concat(table.fields).join(', '))
+      .order('id')
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read ${table.name}: ${error.message}`);
+    }
+
+    for (const row of (rows || []) as unknown as Record<string, string | null>[]) {
+      const stale = table.fields.filter(field => row[field] && getTokenKeyId(row[field]) !== currentKeyId);
+      if (stale.length === 0) {
+        result.current++;
+        continue;
+      }
+
+      try {
+        // Re-encrypt every token of the row so they share one fresh data key
+        const plaintext: Record<string, string> = {};
+        table.fields.forEach(field => {
+          const value = row[field];
+          if (value) {
+            plaintext[field] = decryptToken(value, keys);
+          }
+        });
+        const encrypted = encryptTokens(plaintext, keys);
+
+        if (!dryRun) {
+          // Only overwrite values nobody changed since they were read, e.g. by a token refresh
+          let update = supabase.from(table.name).update(encrypted).eq('id', row.id);
+          Object.keys(plaintext).forEach(field => {
+            update = update.eq(field, row[field] as string);
+          });
+
+          const { data: updated, error: updateError } = await update.select('id');
+          if (updateError) {
+            throw new Error(updateError.message);
+          }
+          if (!updated || updated.length === 0) {
+            throw new Error('row changed during rotation, run the script again');
+          }
+        }
+
+        result.rotated++;
+      } catch (rowError) {
+        result.failed++;
+        console.error(`❌ ${table.name} ${row.id}:`, rowError instanceof Error ? rowError.message : rowError);
+      }
+    }
+
+    if (!rows || rows.length < BATCH_SIZE) {
+      return result;
+    }
+  }
+}
+
+export async function rotateTokenEncryptionKey(dryRun: boolean = false): Promise<RotationResult[]> {
+  const keys = parseEncryptionKeys(process.env.TOKEN_ENCRYPTION_KEYS);
+  if (keys.length === 0) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not configured');
+  }
+
+  console.log(`🔐 ${dryRun ? 'Checking' : 'Re-encrypting'} tokens with key ${keys[0].id}...`);
+
+  const results: RotationResult[] = [];
+  for (const table of TOKEN_TABLES) {
+    const result = await rotateTable(table, keys, dryRun);
+    console.log(`   • ${result.table}: ${result.rotated} ${dryRun ? 'to rotate' : 'rotated'}, ${result.current} already current, ${result.failed} failed`);
+    results.push(result);
+  }
+
+  return results;
+}
+
+// CLI usage
+if (require.main === module) {
+  const dryRun = process.argv.includes('--dry-run');
+
+  rotateTokenEncryptionKey(dryRun)
+    .then((results) => {
+      const failed = results.reduce((total, result) => total + result.failed, 0);
+      if (failed > 0) {
+        console.error(`\n❌ ${failed} rows could not be re-encrypted; keep the old key until they are`);
+        process.exit(1);
+      }
+      console.log('\n✅ All done!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Rotation failed:', error);
+      process.exit(1);
+    });
+}
@@ -5,6 +5,7 @@
 
 import { Client } from '@hubspot/api-client';
 import { createClient } from '@supabase/supabase-js';
+import { decryptToken } from '../lib/token-encryption';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -152,7 +153,7 @@ export async function setupHubSpotProperties(organizationId: string) {
       throw new Error('HubSpot not connected for this organization');
     }
 
-    const hubspotClient = new Client({ accessToken: organization.hubspot_access_token });
+    const hubspotClient = new Client({ accessToken: decryptToken(organization.hubspot_access_token) });
 
     console.log(`🚀 Setting up custom properties for HubSpot portal ${organization.hubspot_portal_id}...`);
 
@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+/**
+ * All My Circles - HubSpot Webhook Signature Test Harness
+ *
+ * Signs fake HubSpot webhook payloads with the v3 algorithm and sends them
+ * to a locally running web app to exercise signature verification and
+ * replay protection:
+ * 1. Correctly signed payload is accepted
+ * 2. Same eventId delivered again is skipped as a duplicate
+ * 3. Tampered signature is rejected
+ * 4. Stale timestamp is rejected
+ *
+ * Usage:
+ *   HUBSPOT_CLIENT_SECRET=... node scripts/test-webhook-signatures.js
+ *   WEBHOOK_URL=http://localhost:3000/api/hubspot/webhooks (default)
+ */
+
+const crypto = require('crypto');
+
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:3000/api/hubspot/webhooks';
+const CLIENT_SECRET = process.env.HUBSPOT_CLIENT_SECRET;
+const PORTAL_ID = parseInt(process.env.HUBSPOT_PORTAL_ID || '12345678');
+
+// Colors for console output
+const colors = {
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  yellow: '\x1b[33m',
+  red: '\x1b[31m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function sign(method, url, body, timestamp) {
+  const source = `${method}${url}${body}${timestamp}`;
+  return crypto.createHmac('sha256', CLIENT_SECRET).update(source, 'utf8').digest('base64');
+}
+
+function buildEvents(eventId) {
+  return [
+    {
+      eventId,
+      subscriptionId: 1,
+      portalId: PORTAL_ID,
+      appId: 1,
+      occurredAt: Date.now(),
+      subscriptionType: 'object.propertyChange',
+      attemptNumber: 0,
+      objectId: 101,
+      objectTypeId: '0-1',
+      propertyName: 'amc_networking_notes',
+      propertyValue: 'Signed by test harness',
+      changeSource: 'CRM_UI'
+    }
+  ];
+}
+
+async function send(events, { timestamp = Date.now(), tamper = false } = {}) {
+  const body = JSON.stringify(events);
+  let signature = sign('POST', WEBHOOK_URL, body, timestamp);
+
+  if (tamper) {
+    signature = sign('POST', WEBHOOK_URL, body.replace('test harness', 'attacker'), timestamp);
+  }
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-HubSpot-Signature-v3': signature,
+      'X-HubSpot-Request-Timestamp': timestamp.toString()
+    },
+    body
+  });
+
+  let data = null;
+  try {
+    data = await response.json();
+  } catch (error) {
+    // Non-JSON response, leave data empty
+  }
+
+  return { status: response.status, data };
+}
+
+function check(name, passed, details) {
+  log(`${passed ? '✅' : '❌'} ${name}`, passed ? 'green' : 'red');
+  if (!passed) {
+    log(`   ${JSON.stringify(details)}`, 'yellow');
+  }
+  return passed;
+}
+
+async function run() {
+  if (!CLIENT_SECRET) {
+    log('HUBSPOT_CLIENT_SECRET environment variable is required', 'red');
+    process.exit(1);
+  }
+
+  log('🔐 HubSpot Webhook Signature Test Harness', 'bold');
+  log(`Target: ${WEBHOOK_URL}`, 'blue');
+  log('─'.repeat(60), 'blue');
+
+  const eventId = Date.now();
+  const results = [];
+
+  const valid = await send(buildEvents(eventId));
+  results.push(check('Signed payload is accepted and queued', valid.status === 200 && valid.data?.eventsQueued === 1, valid));
+
+  const replay = await send(buildEvents(eventId));
+  results.push(check('Replayed eventId is skipped', replay.status === 200 && replay.data?.duplicatesSkipped === 1, replay));
+
+  const tampered = await send(buildEvents(eventId + 1), { tamper: true });
+  results.push(check('Tampered signature is rejected', tampered.status === 401, tampered));
+
+  const stale = await send(buildEvents(eventId + 2), { timestamp: Date.now() - 10 * 60 * 1000 });
+  results.push(check('Stale timestamp is rejected', stale.status === 401, stale));
+
+  const failed = results.filter(passed => !passed).length;
+  log('─'.repeat(60), 'blue');
+
+  if (failed > 0) {
+    log(`${failed} of ${results.length} checks failed`, 'red');
+    process.exit(1);
+  }
+
+  log(`All ${results.length} checks passed`, 'green');
+}
+
+run().catch(error => {
+  log(`Harness error: ${error.message}`, 'red');
+  process.exit(1);
+});
@@ -24,6 +24,7 @@ const AllMyCirclesHomePage = ({ context }) => {
   const [loading, setLoading] = useState(true);
   const [syncStats, setSyncStats] = useState(null);
   const [recentActivity, setRecentActivity] = useState([]);
+  const [followups, setFollowups] = useState(null);
   const [connectionStatus, setConnectionStatus] = useState('checking');
   const [error, setError] = useState(null);
 
@@ -50,6 +51,7 @@ const AllMyCirclesHomePage = ({ context }) => {
       setSyncStats(dashboardData.syncStats);
       setRecentActivity(dashboardData.recentActivity);
       setConnectionStatus(dashboardData.connectionStatus);
+      await fetchFollowups();
       setLoading(false);
 
     } catch (err) {
@@ -59,6 +61,37 @@ const AllMyCirclesHomePage = ({ context }) => {
     }
   };
 
+  const fetchFollowups = async () => {
+    try {
+      // Send the local date so "due today" matches the user's calendar
+      const now = new Date();
+      const pad = (value) => String(value).padStart(2, '0');
+      const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+      const response = await hubspot.fetch(
+        `https://all-my-circles-web-ltp4.vercel.app/api/hubspot/followups?today=${today}&days=7`
+      );
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      setFollowups(await response.json());
+    } catch (err) {
+      // The rest of the dashboard is still useful without follow-ups
+      console.error('Error fetching follow-ups:', err);
+      setFollowups(null);
+    }
+  };
+
+  const formatFollowupDue = (followup) => {
+    if (followup.status === 'overdue') {
+      return `${followup.daysOverdue}d overdue`;
+    }
+    if (followup.status === 'due') return 'Due today';
+    return `Due ${followup.nextFollowupDate}`;
+  };
+
   const formatTimeAgo = (date) => {
     const now = new Date();
     const diffInMinutes = Math.floor((now - date) / (1000 * 60));
@@ -287,6 +320,46 @@ const AllMyCirclesHomePage = ({ context }) => {
           </Flex>
         )}
 
+        {/* Due Follow-ups */}
+        {followups && (
+          <Flex direction="column" gap="medium">
+            <Flex justify="between" align="center">
+              <Heading level={3}>Due Follow-ups</Heading>
+              <Flex gap="xs">
+                {followups.counts.overdue > 0 && (
+                  <Tag variant="danger">{followups.counts.overdue} overdue</Tag>
+                )}
+                <Tag variant="warning">{followups.counts.due} today</Tag>
+              </Flex>
+            </Flex>
+
+            {[...followups.overdue, ...followups.due, ...followups.upcoming].length > 0 ? (
+              <Flex direction="column" gap="xs">
+                {[...followups.overdue, ...followups.due, ...followups.upcoming].slice(0, 10).map((followup) => (
+                  <Flex key={followup.contactId} justify="between" align="center" gap="medium">
+                    <Flex direction="column" style={{ flex: 1 }}>
+                      <Text format={{ fontWeight: 'bold' }}>{followup.name}</Text>
+                      {followup.company && (
+                        <Text variant="micro" format={{ color: 'secondary' }}>{followup.company}</Text>
+                      )}
+                    </Flex>
+                    {followup.cadenceDays && (
+                      <Tag variant="default" size="xs">Every {followup.cadenceDays}d</Tag>
+                    )}
+                    <Tag variant={followup.status === 'overdue' ? 'danger' : followup.status === 'due' ? 'warning' : 'default'}>
+                      {formatFollowupDue(followup)}
+                    </Tag>
+                  </Flex>
+                ))}
+              </Flex>
+            ) : (
+              <EmptyState title="No Follow-ups Due" layout="vertical">
+                <Text>Follow-ups set in the mobile app will show up here when they come due.</Text>
+              </EmptyState>
+            )}
+          </Flex>
+        )}
+
         <Divider />
 
         {/* Recent Activity */}
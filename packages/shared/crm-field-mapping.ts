@@ -0,0 +1,247 @@
+/**
+ * CRM Field Mapping Engine
+ * Converts a contact into a CRM payload from a connection's field mappings,
+ * applying transforms and checking required fields before anything is sent.
+ *
+ * Shared by the web API and the mobile app. Copies live in
+ * apps/web/lib/shared/crm-field-mapping.ts and apps/mobile/utils/crm-field-mapping.ts
+ * and must stay identical to this file.
+ */
+
+export type FieldTransform = 'none' | 'uppercase' | 'lowercase' | 'phone_format';
+
+export type MappingProvider = 'hubspot' | 'salesforce' | 'pipedrive' | 'webhook';
+
+export interface FieldMapping {
+  localField: string; // Contact field, e.g. "firstMetLocation"
+  crmField: string; // CRM property, e.g. "amc_first_met_location"
+  isRequired: boolean;
+  transform?: FieldTransform;
+}
+
+export interface FieldMappingResult {
+  fields: Record<string, any>;
+  missingRequired: FieldMapping[];
+}
+
+export interface FieldMappingOptions {
+  /**
+   * Partial updates only flag required fields that the source explicitly clears;
+   * fields it leaves out are untouched in the CRM.
+   */
+  partial?: boolean;
+}
+
+export class FieldMappingError extends Error {
+  constructor(public missingFields: string[]) {
+    super(`Missing required fields: ${missingFields.join(', ')}`);
+    this.name = 'FieldMappingError';
+  }
+}
+
+export const DEFAULT_FIELD_MAPPINGS: Record<MappingProvider, FieldMapping[]> = {
+  hubspot: [
+    { localField: 'firstName', crmField: 'firstname', isRequired: false, transform: 'none' },
+    { localField: 'lastName', crmField: 'lastname', isRequired: false, transform: 'none' },
+    { localField: 'email', crmField: 'email', isRequired: false, transform: 'none' },
+    { localField: 'phone', crmField: 'phone', isRequired: false, transform: 'none' },
+    { localField: 'company', crmField: 'company', isRequired: false, transform: 'none' },
+    { localField: 'title', crmField: 'jobtitle', isRequired: false, transform: 'none' },
+    { localField: 'firstMetLocation', crmField: 'amc_first_met_location', isRequired: false, transform: 'none' },
+    { localField: 'firstMetDate', crmField: 'amc_first_met_date', isRequired: false, transform: 'none' },
+    { localField: 'tags', crmField: 'amc_networking_tags', isRequired: false, transform: 'none' },
+    { localField: 'notes', crmField: 'amc_networking_notes', isRequired: false, transform: 'none' },
+  ],
+  salesforce: [
+    { localField: 'firstName', crmField: 'FirstName', isRequired: false, transform: 'none' },
+    { localField: 'lastName', crmField: 'LastName', isRequired: true, transform: 'none' },
+    { localField: 'email', crmField: 'Email', isRequired: false, transform: 'none' },
+    { localField: 'phone', crmField: 'Phone', isRequired: false, transform: 'none' },
+    { localField: 'title', crmField: 'Title', isRequired: false, transform: 'none' },
+    { localField: 'notes', crmField: 'Description', isRequired: false, transform: 'none' },
+  ],
+  pipedrive: [
+    { localField: 'name', crmField: 'name', isRequired: true, transform: 'none' },
+    { localField: 'title', crmField: 'job_title', isRequired: false, transform: 'none' },
+    // Custom person fields, matched by label
+    { localField: 'connectionStrength', crmField: 'Connection Strength', isRequired: false, transform: 'none' },
+    { localField: 'contactValue', crmField: 'Contact Value', isRequired: false, transform: 'none' },
+  ],
+  webhook: [
+    { localField: 'firstName', crmField: 'firstName', isRequired: false, transform: 'none' },
+    { localField: 'lastName', crmField: 'lastName', isRequired: false, transform: 'none' },
+    { localField: 'email', crmField: 'email', isRequired: false, transform: 'none' },
+    { localField: 'phone', crmField: 'phone', isRequired: false, transform: 'none' },
+    { localField: 'company', crmField: 'company', isRequired: false, transform: 'none' },
+    { localField: 'title', crmField: 'title', isRequired: false, transform: 'none' },
+  ],
+};
+
+/**
+ * Format a phone number for CRM storage: (XXX) XXX-XXXX for 10-digit US numbers,
+ * otherwise the original value
+ */
+export function formatPhoneNumber(phone: string): string {
+  const cleaned = phone.replace(/\D/g, '');
+
+  if (cleaned.length === 10) {
+    return `(${cleaned.slice(0, 3)}) ${cleaned.slice(3, 6)}-${cleaned.slice(6)}`;
+  }
+
+  return phone;
+}
+
+export function applyFieldTransform(value: unknown, transform?: FieldTransform): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  switch (transform) {
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'phone_format':
+      return formatPhoneNumber(value);
+    default:
+      return value;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function splitName(name: unknown): string[] {
+  return typeof name === 'string' ? name.trim().split(/\s+/).filter(Boolean) : [];
+}
+
+function findIdentifier(source: Record<string, any>, type: string): string | undefined {
+  const identifiers = Array.isArray(source.identifiers) ? source.identifiers : [];
+  const match = identifiers.filter((identifier: any) => identifier && identifier.type === type)[0];
+  return match ? match.value : undefined;
+}
+
+/**
+ * Read a contact field, falling back to the aliases and derived values that
+ * older contacts and API payloads use (combined name, identifiers, note/notes)
+ */
+export function resolveContactValue(contact: object, field: string): unknown {
+  const source = contact as Record<string, any>;
+  const value = source[field];
+  if (!isEmpty(value)) {
+    return value;
+  }
+
+  // Only derive name parts when neither is set, so "Cher" stored as a last name stays there
+  const hasNameParts = !isEmpty(source.firstName) || !isEmpty(source.lastName);
+
+  switch (field) {
+    case 'firstName':
+      return hasNameParts ? undefined : splitName(source.name)[0];
+    case 'lastName':
+      return hasNameParts ? undefined : splitName(source.name).slice(1).join(' ') || undefined;
+    case 'name':
+      return [source.firstName, source.lastName].filter(part => !isEmpty(part)).join(' ') || undefined;
+    case 'email':
+    case 'phone':
+      return findIdentifier(source, field);
+    case 'linkedinUrl':
+      return findIdentifier(source, 'linkedin');
+    case 'title':
+      return source.jobTitle;
+    case 'jobTitle':
+      return source.title;
+    case 'notes':
+      return source.note;
+    case 'note':
+      return source.notes;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Whether the source carries a field or one of its aliases, for partial updates
+ */
+function sourceMentions(source: Record<string, any>, field: string): boolean {
+  const aliases: Record<string, string[]> = {
+    firstName: ['name'],
+    lastName: ['name'],
+    name: ['firstName', 'lastName'],
+    title: ['jobTitle'],
+    jobTitle: ['title'],
+    notes: ['note'],
+    note: ['notes'],
+  };
+  return [field].concat(aliases[field] || []).some(key => Object.prototype.hasOwnProperty.call(source, key));
+}
+
+/**
+ * Convert a contact into CRM fields. Arrays (tags) are joined with ", " and
+ * empty values are left out.
+ */
+export function mapContactFields(
+  contact: object,
+  mappings: FieldMapping[],
+  options: FieldMappingOptions = {}
+): FieldMappingResult {
+  const source = contact as Record<string, any>;
+  const result: FieldMappingResult = { fields: {}, missingRequired: [] };
+
+  mappings.forEach(mapping => {
+    let value = resolveContactValue(source, mapping.localField);
+    if (Array.isArray(value)) {
+      value = value.join(', ');
+    }
+    value = applyFieldTransform(value, mapping.transform);
+
+    if (isEmpty(value)) {
+      if (mapping.isRequired && (!options.partial || sourceMentions(source, mapping.localField))) {
+        result.missingRequired.push(mapping);
+      }
+      return;
+    }
+
+    result.fields[mapping.crmField] = value;
+  });
+
+  return result;
+}
+
+/**
+ * Like mapContactFields, but throws a FieldMappingError listing every missing required field
+ */
+export function mapContactFieldsOrThrow(
+  contact: object,
+  mappings: FieldMapping[],
+  options: FieldMappingOptions = {}
+): Record<string, any> {
+  const result = mapContactFields(contact, mappings, options);
+  if (result.missingRequired.length > 0) {
+    throw new FieldMappingError(result.missingRequired.map(mapping => mapping.localField));
+  }
+  return result.fields;
+}
+
+/**
+ * Use stored mappings when they look valid, otherwise the provider defaults
+ */
+export function resolveFieldMappings(stored: unknown, provider: MappingProvider): FieldMapping[] {
+  if (!Array.isArray(stored) || stored.length === 0) {
+    return DEFAULT_FIELD_MAPPINGS[provider];
+  }
+
+  const valid = stored.filter((mapping: any) =>
+    mapping && typeof mapping.localField === 'string' && typeof mapping.crmField === 'string' && mapping.crmField
+  );
+
+  return valid.length > 0
+    ? valid.map((mapping: any) => ({
+      localField: mapping.localField,
+      crmField: mapping.crmField,
+      isRequired: Boolean(mapping.isRequired),
+      transform: mapping.transform || 'none',
+    }))
+    : DEFAULT_FIELD_MAPPINGS[provider];
+}